@@ -7,10 +7,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Booking from '@/models/Booking';
-import RentalOrder from '@/models/RentalOrder';
 import Product from '@/models/Product';
+import BusinessSettings from '@/models/BusinessSettings';
+import PricingRule from '@/models/PricingRule';
+import PriceList from '@/models/PriceList';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { getAvailability } from '@/lib/availability';
+import { calculateRentalPrice, PricingError } from '@/lib/pricing';
+import { checkRentalConstraints } from '@/lib/rentalConstraints';
+import { priceListRates } from '@/lib/priceLists';
 import { ApiResponse } from '@/types';
 
 /**
@@ -120,11 +126,12 @@ export async function POST(request: NextRequest) {
       customerEmail,
       startDate,
       endDate,
-      totalPrice,
+      quantity: rawQuantity,
     } = body;
+    const quantity = Math.max(1, parseInt(rawQuantity) || 1);
 
     // Validate required fields
-    if (!productId || !customerName || !customerEmail || !startDate || !endDate || !totalPrice) {
+    if (!productId || !customerName || !customerEmail || !startDate || !endDate) {
       const response: ApiResponse = {
         success: false,
         error: 'Missing required fields',
@@ -176,35 +183,56 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: 400 });
     }
 
-    // Check availability for the requested dates
-    const conflictingOrders = await RentalOrder.find({
-      productId,
-      status: { $in: ['confirmed', 'reserved', 'delivered'] },
-      $or: [
-        {
-          startDate: { $lte: start },
-          endDate: { $gt: start },
-        },
-        {
-          startDate: { $lt: end },
-          endDate: { $gte: end },
-        },
-        {
-          startDate: { $gte: start },
-          endDate: { $lte: end },
-        },
-      ],
-    });
+    // The product's limits on rental length and how far ahead it is booked
+    const violation = checkRentalConstraints(product.rentalConstraints, start, end, now, product.name);
+    if (violation) {
+      const response: ApiResponse = {
+        success: false,
+        error: violation.message,
+        data: { rule: violation.rule },
+      };
+      
+      return NextResponse.json(response, { status: 400 });
+    }
 
-    if (conflictingOrders.length > 0) {
+    // Check that enough units are free for the requested dates
+    const availability = await getAvailability(productId, start, end, quantity);
+
+    if (!availability.available) {
       const response: ApiResponse = {
         success: false,
-        error: 'Product is not available for the selected dates',
+        error: availability.free > 0
+          ? `Only ${availability.free} of ${availability.owned} units are available for the selected dates`
+          : 'Product is not available for the selected dates',
+        data: { owned: availability.owned, booked: availability.booked, free: availability.free },
       };
       
       return NextResponse.json(response, { status: 409 });
     }
 
+    // Price the booking from the signed-in customer's price list, or else from the
+    // product's stored rates and its business's pricing rules
+    const session = await getServerSession(authOptions);
+    const priceList = session?.user?.role === 'customer'
+      ? await PriceList.forCustomer(product.endUserId, session.user.email || undefined)
+      : undefined;
+    const contractRates = priceList && priceListRates(priceList, product);
+    let price;
+    try {
+      price = contractRates
+        ? calculateRentalPrice(contractRates, start, end, quantity)
+        : calculateRentalPrice(product, start, end, quantity, { rules: await PricingRule.forProduct(product) });
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+      
+      return NextResponse.json(response, { status: 400 });
+    }
+    const totalPrice = price.totalPrice;
+
     // Create new booking
     const booking = new Booking({
       productId,
@@ -212,7 +240,10 @@ export async function POST(request: NextRequest) {
       customerEmail,
       startDate: start,
       endDate: end,
-      totalPrice: parseFloat(totalPrice),
+      quantity,
+      totalPrice,
+      priceListId: contractRates ? priceList!._id : undefined,
+      lateFeeTerms: await BusinessSettings.getLateFeeTerms(product),
       status: 'pending', // Default status
     });
 
@@ -226,6 +257,7 @@ export async function POST(request: NextRequest) {
       customer: customerEmail,
       startDate: start.toISOString(),
       endDate: end.toISOString(),
+      quantity,
       totalPrice,
     });
 
@@ -0,0 +1,77 @@
+/**
+ * Cart Line API
+ * PATCH changes a line's quantity or dates and re-holds its units; DELETE removes
+ * the line and releases its hold.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CART_HOLD_MINUTES,
+  CartHoldError,
+  CartItemError,
+  getCart,
+  removeCartItem,
+  toCartLines,
+  updateCartItem,
+} from '@/lib/cart';
+
+export async function PATCH(req: NextRequest, { params }: { params: { lineId: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const cart = await getCart(session.user.id);
+    await updateCartItem(cart, params.lineId, {
+      quantity: body?.quantity,
+      startDate: body?.startDate,
+      endDate: body?.endDate,
+    });
+
+    logger.http('PATCH /api/cart/[lineId]', { user: session.user.email, lineId: params.lineId });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+    });
+  } catch (error) {
+    if (error instanceof CartHoldError) {
+      return NextResponse.json({ success: false, error: error.message, free: error.free }, { status: 409 });
+    }
+    if (error instanceof CartItemError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('cart update error', { error, lineId: params.lineId });
+    return NextResponse.json({ success: false, error: 'Failed to update cart' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { lineId: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const cart = await getCart(session.user.id);
+    await removeCartItem(cart, params.lineId);
+
+    logger.http('DELETE /api/cart/[lineId]', { user: session.user.email, lineId: params.lineId });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+    });
+  } catch (error) {
+    if (error instanceof CartItemError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    logger.error('cart remove error', { error, lineId: params.lineId });
+    return NextResponse.json({ success: false, error: 'Failed to remove item' }, { status: 500 });
+  }
+}
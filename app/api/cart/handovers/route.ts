@@ -0,0 +1,56 @@
+/**
+ * Cart Handovers API
+ * PUT sets when the customer picks up and returns the cart lines of one rental
+ * business, moving the lines to the chosen slots and holding their units again.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CART_HOLD_MINUTES,
+  CartHoldError,
+  CartItemError,
+  getCart,
+  setCartHandovers,
+  toCartLines,
+} from '@/lib/cart';
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    if (!body?.endUserId || !mongoose.Types.ObjectId.isValid(body.endUserId)) {
+      return NextResponse.json({ success: false, error: 'A valid business is required' }, { status: 400 });
+    }
+    const cart = await getCart(session.user.id);
+    await setCartHandovers(cart, body.endUserId, new Date(body.pickupAt), new Date(body.returnAt));
+
+    logger.http('PUT /api/cart/handovers', {
+      user: session.user.email,
+      endUserId: body.endUserId,
+      pickupAt: body.pickupAt,
+      returnAt: body.returnAt,
+    });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+    });
+  } catch (error) {
+    if (error instanceof CartHoldError) {
+      return NextResponse.json({ success: false, error: error.message, free: error.free }, { status: 409 });
+    }
+    if (error instanceof CartItemError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('cart handovers error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to set pickup and return times' }, { status: 500 });
+  }
+}
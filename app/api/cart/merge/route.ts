@@ -0,0 +1,40 @@
+/**
+ * Cart Merge API
+ * Moves the cart a customer built in localStorage before signing in into their
+ * server cart, holding units for each line that is still free.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { CART_HOLD_MINUTES, getCart, mergeGuestCart, toCartLines } from '@/lib/cart';
+import { GuestCartItem } from '@/types';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const items: GuestCartItem[] = (Array.isArray(body?.items) ? body.items : []).filter(
+      (item: any) => item && typeof item.productId === 'string'
+    );
+
+    const cart = await getCart(session.user.id);
+    const { merged, skipped } = await mergeGuestCart(cart, items);
+
+    logger.http('POST /api/cart/merge', { user: session.user.email, merged: merged.length, skipped: skipped.length });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+      skipped,
+    });
+  } catch (error) {
+    logger.error('cart merge error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to merge cart' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Cart API
+ * The signed-in customer's server cart. GET re-holds lines whose hold lapsed, POST
+ * adds a line and holds its units, DELETE empties the cart and lets every hold go.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CART_HOLD_MINUTES,
+  CartHoldError,
+  CartItemError,
+  addCartItem,
+  getCart,
+  refreshCartHolds,
+  toCartLines,
+} from '@/lib/cart';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const cart = await refreshCartHolds(await getCart(session.user.id));
+
+    logger.http('GET /api/cart', { user: session.user.email, items: cart.items.length });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+    });
+  } catch (error) {
+    logger.error('cart load error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load cart' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const cart = await getCart(session.user.id);
+    await addCartItem(cart, {
+      productId: body?.productId,
+      quantity: body?.quantity,
+      startDate: body?.startDate,
+      endDate: body?.endDate,
+    });
+
+    logger.http('POST /api/cart', { user: session.user.email, productId: body?.productId, quantity: body?.quantity });
+    return NextResponse.json({
+      success: true,
+      data: { items: await toCartLines(cart), holdMinutes: CART_HOLD_MINUTES },
+      message: 'Added to cart',
+    });
+  } catch (error) {
+    if (error instanceof CartHoldError) {
+      return NextResponse.json({ success: false, error: error.message, free: error.free }, { status: 409 });
+    }
+    if (error instanceof CartItemError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('cart add error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to add to cart' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const cart = await getCart(session.user.id);
+    cart.items.splice(0, cart.items.length);
+    await cart.save();
+
+    logger.http('DELETE /api/cart', { user: session.user.email });
+    return NextResponse.json({ success: true, data: { items: [], holdMinutes: CART_HOLD_MINUTES } });
+  } catch (error) {
+    logger.error('cart clear error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to clear cart' }, { status: 500 });
+  }
+}
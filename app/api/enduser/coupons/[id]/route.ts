@@ -0,0 +1,83 @@
+/**
+ * Enduser Coupon API
+ * Updates or deletes one coupon of the signed-in enduser's business. Redeemed
+ * coupons are kept for their history; deactivate them instead of deleting.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizeCouponInput, toCouponSummary } from '@/lib/coupons';
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const coupon = await Coupon.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!coupon) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+
+    const fields = normalizeCouponInput(await req.json().catch(() => ({})));
+    if (fields.code && fields.code !== coupon.code && (await Coupon.exists({ code: fields.code }))) {
+      return NextResponse.json({ success: false, error: `Coupon code ${fields.code} is already taken` }, { status: 409 });
+    }
+
+    coupon.set(fields);
+    await coupon.save();
+
+    logger.http('PUT /api/enduser/coupons/[id]', { user: session.user.email, code: coupon.code, fields: Object.keys(fields) });
+    return NextResponse.json({ success: true, data: toCouponSummary(coupon), message: `Coupon ${coupon.code} saved` });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if ((error as any)?.code === 11000) {
+      return NextResponse.json({ success: false, error: 'Coupon code is already taken' }, { status: 409 });
+    }
+    logger.error('enduser coupon update error', { error, couponId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to save coupon' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const coupon = await Coupon.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!coupon) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+    if (coupon.redemptionCount > 0) {
+      return NextResponse.json(
+        { success: false, error: `Coupon ${coupon.code} has been redeemed; deactivate it instead` },
+        { status: 409 }
+      );
+    }
+
+    await coupon.deleteOne();
+
+    logger.http('DELETE /api/enduser/coupons/[id]', { user: session.user.email, code: coupon.code });
+    return NextResponse.json({ success: true, message: `Coupon ${coupon.code} deleted` });
+  } catch (error) {
+    logger.error('enduser coupon delete error', { error, couponId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete coupon' }, { status: 500 });
+  }
+}
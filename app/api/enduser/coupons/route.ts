@@ -0,0 +1,63 @@
+/**
+ * Enduser Coupons API
+ * GET lists the coupons of the signed-in enduser's business, newest first, with
+ * how often each was redeemed. POST creates a coupon.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizeCouponInput, toCouponSummary } from '@/lib/coupons';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const coupons = await Coupon.find({ endUserId: session.user.id }).sort({ createdAt: -1 }).lean() as any[];
+
+    logger.http('GET /api/enduser/coupons', { user: session.user.email, count: coupons.length });
+    return NextResponse.json({ success: true, data: coupons.map(toCouponSummary) });
+  } catch (error) {
+    logger.error('enduser coupons fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load coupons' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const fields = normalizeCouponInput(body);
+    if (fields.code && (await Coupon.exists({ code: fields.code }))) {
+      return NextResponse.json({ success: false, error: `Coupon code ${fields.code} is already taken` }, { status: 409 });
+    }
+
+    const coupon = await Coupon.create({ ...fields, endUserId: session.user.id, redemptionCount: 0 });
+
+    logger.http('POST /api/enduser/coupons', { user: session.user.email, code: coupon.code });
+    return NextResponse.json(
+      { success: true, data: toCouponSummary(coupon), message: `Coupon ${coupon.code} created` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if ((error as any)?.code === 11000) {
+      return NextResponse.json({ success: false, error: 'Coupon code is already taken' }, { status: 409 });
+    }
+    logger.error('enduser coupon create error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to create coupon' }, { status: 500 });
+  }
+}
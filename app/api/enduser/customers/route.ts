@@ -1,13 +1,19 @@
 /**
  * Enduser Customers API
  * Returns aggregated customers with totals for orders and spend for the logged-in enduser.
+ * Spend is net of the issued credit and debit notes on the customer's invoices, and
+ * each customer shows the price list they are on, by account or by email domain.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import RentalOrder from '@/models/RentalOrder';
+import PriceList from '@/models/PriceList';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { roundAmount } from '@/lib/pricing';
+import { customerNoteTotals } from '@/lib/invoiceNotes';
+import { pickPriceList, toPriceList } from '@/lib/priceLists';
 import mongoose from 'mongoose';
 
 export async function GET(req: NextRequest) {
@@ -21,22 +27,34 @@ export async function GET(req: NextRequest) {
     const endUserId = new mongoose.Types.ObjectId(session.user.id);
     const agg = await RentalOrder.aggregate([
       { $match: { endUserId, status: { $ne: 'cancelled' } } },
-      { $group: { _id: '$customerEmail', name: { $first: '$customerName' }, totalOrders: { $sum: 1 }, totalSpent: { $sum: '$totalPrice' }, lastOrder: { $max: '$createdAt' } } },
+      { $group: { _id: '$customerEmail', name: { $first: '$customerName' }, customerIds: { $addToSet: '$customerId' }, totalOrders: { $sum: 1 }, totalItems: { $sum: { $sum: '$items.quantity' } }, totalSpent: { $sum: '$totalPrice' }, lastOrder: { $max: '$createdAt' } } },
       { $sort: { totalSpent: -1 } },
       { $limit: 200 }
     ]);
 
-    const customers = agg.map(c => ({
-      id: c._id,
-      name: c.name || c._id,
-      email: c._id,
-      phone: '',
-      address: '',
-      joinDate: c.lastOrder,
-      totalOrders: c.totalOrders,
-      totalSpent: c.totalSpent,
-      lastOrder: c.lastOrder,
-    }));
+    const noteTotals = await customerNoteTotals(endUserId);
+    const priceLists = (await PriceList.find({ endUserId, active: true }).sort({ updatedAt: -1 }).lean()).map(toPriceList);
+    const customers = agg.map(c => {
+      const notes = (c.customerIds || []).map((id: any) => noteTotals.get(id.toString())).filter(Boolean);
+      const credits = roundAmount(notes.reduce((sum: number, n: any) => sum + n.credits, 0));
+      const debits = roundAmount(notes.reduce((sum: number, n: any) => sum + n.debits, 0));
+      const priceList = pickPriceList(priceLists, c._id);
+      return {
+        id: c._id,
+        name: c.name || c._id,
+        email: c._id,
+        phone: '',
+        address: '',
+        joinDate: c.lastOrder,
+        totalOrders: c.totalOrders,
+        totalItems: c.totalItems,
+        totalSpent: roundAmount(c.totalSpent + debits - credits),
+        credits,
+        debits,
+        priceList: priceList ? { _id: priceList._id, name: priceList.name } : null,
+        lastOrder: c.lastOrder,
+      };
+    });
 
     logger.http('GET /api/enduser/customers', { count: customers.length, user: session.user.email });
     return NextResponse.json({ success: true, data: customers });
@@ -0,0 +1,41 @@
+/**
+ * Enduser Manual Job Run API
+ * Runs one background job now, limited to the enduser's own orders and bookings
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { JobAlreadyRunningError, isJobName, runJob } from '@/lib/jobs';
+
+export async function POST(req: NextRequest, { params }: { params: { name: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isJobName(params.name)) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const run = await runJob(params.name, {
+      trigger: 'manual',
+      endUserId: session.user.id,
+      triggeredBy: { id: session.user.id, name: session.user.name || session.user.email },
+    });
+
+    logger.http('POST /api/enduser/jobs/[name]', { job: params.name, status: run.status, user: session.user.email });
+    if (run.status === 'failed') {
+      return NextResponse.json({ success: false, data: run, error: run.error || 'Job failed' }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: run, message: `Processed ${run.processed} records` });
+  } catch (error) {
+    if (error instanceof JobAlreadyRunningError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    logger.error('enduser job run error', { error, job: params.name });
+    return NextResponse.json({ success: false, error: 'Failed to run job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Enduser Background Jobs API
+ * Lists the scheduled jobs with their recent runs: scheduler runs across all
+ * businesses plus the manual runs this enduser started.
+ */
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import JobRun from '@/models/JobRun';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { JOBS, JOB_NAMES } from '@/lib/jobs';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const runs = await JobRun.find({
+      $or: [
+        { trigger: 'schedule' },
+        { endUserId: new mongoose.Types.ObjectId(session.user.id) },
+      ],
+    })
+      .sort({ startedAt: -1 })
+      .limit(50)
+      .lean();
+
+    const jobs = JOB_NAMES.map((name) => ({
+      name,
+      label: JOBS[name].label,
+      description: JOBS[name].description,
+      intervalMinutes: JOBS[name].intervalMs / 60000,
+      lastRun: runs.find((r: any) => r.name === name) || null,
+    }));
+
+    logger.http('GET /api/enduser/jobs', { user: session.user.email });
+    return NextResponse.json({ success: true, data: { jobs, runs } });
+  } catch (error) {
+    logger.error('enduser jobs fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Enduser Order Assets API
+ * GET lists each order line with the serialized units assigned to it and the
+ * units free to assign; PUT names the units handed over for one or more lines.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { AssetError, assignAssets, getOrderAssignments } from '@/lib/assets';
+
+async function findOwnedOrder(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return RentalOrder.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    logger.http('GET /api/enduser/orders/[id]/assets', { orderId: params.id, user: session.user.email });
+    return NextResponse.json({ success: true, data: await getOrderAssignments(order) });
+  } catch (error) {
+    logger.error('enduser order units fetch error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load units' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    if (!Array.isArray(body?.assignments)) {
+      return NextResponse.json({ success: false, error: 'Assignments are required' }, { status: 400 });
+    }
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    await assignAssets(order, body.assignments);
+
+    logger.http('PUT /api/enduser/orders/[id]/assets', { orderId: params.id, user: session.user.email });
+    return NextResponse.json({
+      success: true,
+      data: await getOrderAssignments(order),
+      message: 'Units assigned',
+    });
+  } catch (error) {
+    if (error instanceof AssetError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser order units assignment error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to assign units' }, { status: 500 });
+  }
+}
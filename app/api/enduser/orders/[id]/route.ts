@@ -0,0 +1,121 @@
+/**
+ * Enduser Single Order API
+ * Returns one RentalOrder with its status history and allowed next actions,
+ * and moves the order through the status machine.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import Payment from '@/models/Payment';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvalidStatusTransitionError } from '@/lib/orderStatus';
+import { RefundError, RefundInProgressError, cancelRentalOrder } from '@/lib/refunds';
+import { draftLateFeeNote } from '@/lib/invoiceNotes';
+import { issueInvoice } from '@/lib/invoices';
+import { AssetError, assertAssetsAssigned } from '@/lib/assets';
+
+async function findOwnedOrder(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return RentalOrder.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) })
+    .populate('items.productId', 'name image category pricePerHour pricePerDay pricePerWeek pricePerMonth pricePerYear');
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    // Payment ledger entries for this order, without the raw webhook payloads
+    const payments = await Payment.find({ rentalOrderIds: order._id })
+      .select('-payload -rentalOrderIds')
+      .sort({ receivedAt: 1 })
+      .lean();
+
+    logger.http('GET /api/enduser/orders/[id]', { orderId: params.id, user: session.user.email });
+    return NextResponse.json({ success: true, data: order, payments });
+  } catch (error) {
+    logger.error('enduser order fetch error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load order' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    const { status, reason } = body || {};
+    if (!status) {
+      return NextResponse.json({ success: false, error: 'Status is required' }, { status: 400 });
+    }
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const actor = { id: session.user.id, name: session.user.name || session.user.email };
+    if (status === 'cancelled') {
+      // Cancelling refunds the customer, so it goes through the cancellation flow
+      await cancelRentalOrder(order, { initiatedBy: 'enduser', actor, reason });
+    } else {
+      // Serialized units are named before they leave
+      if (status === 'delivered') {
+        await assertAssetsAssigned(order);
+      }
+      await order.updateStatus(status, reason, actor);
+    }
+
+    // A confirmed quotation is billed now; the business can issue it again from the order if this fails
+    if (status === 'confirmed') {
+      try {
+        await issueInvoice(order);
+      } catch (error) {
+        logger.error('Invoice could not be issued', { orderNumber: order.orderNumber, error: (error as Error)?.message });
+      }
+    }
+
+    if (status === 'returned') {
+      await draftLateFeeNote(order, actor);
+    }
+
+    logger.http('PATCH /api/enduser/orders/[id]', { orderId: params.id, status, user: session.user.email });
+    return NextResponse.json({ success: true, data: order, message: `Order moved to ${status}` });
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, data: { from: error.from, to: error.to, allowedTransitions: error.allowed } },
+        { status: 409 }
+      );
+    }
+    if (error instanceof RefundInProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 502 });
+    }
+    if (error instanceof AssetError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser order status update error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to update order' }, { status: 500 });
+  }
+}
@@ -27,7 +27,12 @@ export async function GET(req: NextRequest) {
 
     const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
     if (status && status !== 'ALL') filter.status = status;
-    if (q) filter.$or = [ { customerName: { $regex: q, $options: 'i' } }, { customerEmail: { $regex: q, $options: 'i' } } ];
+    if (q) filter.$or = [
+      { orderNumber: { $regex: q, $options: 'i' } },
+      { customerName: { $regex: q, $options: 'i' } },
+      { customerEmail: { $regex: q, $options: 'i' } },
+      { 'items.productName': { $regex: q, $options: 'i' } },
+    ];
 
     // DEBUG: Log query details
     console.log('=== ENDUSER ORDERS DEBUG ===');
@@ -37,7 +42,7 @@ export async function GET(req: NextRequest) {
     const skip = (page - 1) * limit;
     const [orders, totalCount] = await Promise.all([
       RentalOrder.find(filter)
-        .populate('productId', 'name image category')
+        .populate('items.productId', 'name image category')
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit),
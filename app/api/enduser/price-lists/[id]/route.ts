@@ -0,0 +1,69 @@
+/**
+ * Enduser Price List API
+ * Updates or deletes one customer price list of the signed-in enduser's business.
+ * Orders already placed keep the prices they were placed at.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import PriceList from '@/models/PriceList';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePriceListInput, toPriceList } from '@/lib/priceLists';
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Price list not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const list = await PriceList.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!list) {
+      return NextResponse.json({ success: false, error: 'Price list not found' }, { status: 404 });
+    }
+
+    const fields = normalizePriceListInput(await req.json().catch(() => ({})));
+    list.set(fields);
+    await list.save();
+    await PriceList.takeOverAssignments(list);
+
+    logger.http('PUT /api/enduser/price-lists/[id]', { user: session.user.email, priceListId: params.id, fields: Object.keys(fields) });
+    return NextResponse.json({ success: true, data: toPriceList(list), message: `Price list ${list.name} saved` });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser price list update error', { error, priceListId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to save price list' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Price list not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const list = await PriceList.findOneAndDelete({ _id: params.id, endUserId: session.user.id });
+    if (!list) {
+      return NextResponse.json({ success: false, error: 'Price list not found' }, { status: 404 });
+    }
+
+    logger.http('DELETE /api/enduser/price-lists/[id]', { user: session.user.email, priceListId: params.id });
+    return NextResponse.json({ success: true, message: `Price list ${list.name} deleted` });
+  } catch (error) {
+    logger.error('enduser price list delete error', { error, priceListId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete price list' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Enduser Price Lists API
+ * GET lists the customer price lists of the signed-in enduser's business.
+ * POST creates a list; its customers and domains leave any other list of the business.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import PriceList from '@/models/PriceList';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePriceListInput, toPriceList } from '@/lib/priceLists';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const lists = await PriceList.find({ endUserId: session.user.id }).sort({ name: 1 }).lean();
+
+    logger.http('GET /api/enduser/price-lists', { user: session.user.email, count: lists.length });
+    return NextResponse.json({ success: true, data: lists.map(toPriceList) });
+  } catch (error) {
+    logger.error('enduser price lists fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load price lists' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const list = await PriceList.create({ ...normalizePriceListInput(body), endUserId: session.user.id });
+    await PriceList.takeOverAssignments(list);
+
+    logger.http('POST /api/enduser/price-lists', {
+      user: session.user.email,
+      name: list.name,
+      customers: list.customerEmails.length,
+      domains: list.emailDomains.length,
+    });
+    return NextResponse.json(
+      { success: true, data: toPriceList(list), message: `Price list ${list.name} created` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser price list create error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to create price list' }, { status: 500 });
+  }
+}
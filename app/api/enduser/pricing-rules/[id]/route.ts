@@ -0,0 +1,68 @@
+/**
+ * Enduser Pricing Rule API
+ * Updates or deletes one pricing rule of the signed-in enduser's business. Orders
+ * already placed keep the adjustments they were priced with.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import PricingRule from '@/models/PricingRule';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePricingRuleInput, toPricingRule } from '@/lib/pricingRules';
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Pricing rule not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const rule = await PricingRule.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!rule) {
+      return NextResponse.json({ success: false, error: 'Pricing rule not found' }, { status: 404 });
+    }
+
+    const fields = normalizePricingRuleInput(await req.json().catch(() => ({})));
+    rule.set(fields);
+    await rule.save();
+
+    logger.http('PUT /api/enduser/pricing-rules/[id]', { user: session.user.email, ruleId: params.id, fields: Object.keys(fields) });
+    return NextResponse.json({ success: true, data: toPricingRule(rule), message: `Rule ${rule.name} saved` });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser pricing rule update error', { error, ruleId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to save pricing rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Pricing rule not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const rule = await PricingRule.findOneAndDelete({ _id: params.id, endUserId: session.user.id });
+    if (!rule) {
+      return NextResponse.json({ success: false, error: 'Pricing rule not found' }, { status: 404 });
+    }
+
+    logger.http('DELETE /api/enduser/pricing-rules/[id]', { user: session.user.email, ruleId: params.id });
+    return NextResponse.json({ success: true, message: `Rule ${rule.name} deleted` });
+  } catch (error) {
+    logger.error('enduser pricing rule delete error', { error, ruleId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete pricing rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Enduser Pricing Rules API
+ * GET lists the pricing rules of the signed-in enduser's business, newest first.
+ * POST creates a rule; it applies to quotes and checkouts from then on.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import PricingRule from '@/models/PricingRule';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePricingRuleInput, toPricingRule } from '@/lib/pricingRules';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const rules = await PricingRule.find({ endUserId: session.user.id }).sort({ createdAt: -1 }).lean();
+
+    logger.http('GET /api/enduser/pricing-rules', { user: session.user.email, count: rules.length });
+    return NextResponse.json({ success: true, data: rules.map(toPricingRule) });
+  } catch (error) {
+    logger.error('enduser pricing rules fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load pricing rules' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const rule = await PricingRule.create({ ...normalizePricingRuleInput(body), endUserId: session.user.id });
+
+    logger.http('POST /api/enduser/pricing-rules', { user: session.user.email, type: rule.type, percent: rule.percent });
+    return NextResponse.json(
+      { success: true, data: toPricingRule(rule), message: `Rule ${rule.name} created` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser pricing rule create error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to create pricing rule' }, { status: 500 });
+  }
+}
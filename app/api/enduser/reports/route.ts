@@ -1,13 +1,19 @@
 /**
  * Enduser Reports API
- * Returns time-series revenue and orders grouped by day/week/month
+ * Returns time-series revenue and orders grouped by day/week/month, and the
+ * security deposits held for customers, which are a liability rather than revenue.
+ * Revenue is net of issued credit and debit notes, counted when they were issued.
+ * Maintenance costs are counted when the maintenance was completed.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import RentalOrder from '@/models/RentalOrder';
+import InvoiceNote from '@/models/InvoiceNote';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { roundAmount } from '@/lib/pricing';
+import { getMaintenanceCostReport } from '@/lib/maintenance';
 import mongoose from 'mongoose';
 
 export async function GET(req: NextRequest) {
@@ -28,23 +34,67 @@ export async function GET(req: NextRequest) {
     const endUserId = new mongoose.Types.ObjectId(session.user.id);
 
     // Build group stage by bucket
-    let groupId: any = {};
-    if (groupBy === 'month') {
-      groupId = { y: { $year: '$createdAt' }, m: { $month: '$createdAt' } };
-    } else if (groupBy === 'week') {
-      groupId = { y: { $year: '$createdAt' }, w: { $isoWeek: '$createdAt' } };
-    } else {
-      groupId = { y: { $year: '$createdAt' }, m: { $month: '$createdAt' }, d: { $dayOfMonth: '$createdAt' } };
-    }
+    const bucketOf = (field: string): any => {
+      if (groupBy === 'month') {
+        return { y: { $year: field }, m: { $month: field } };
+      } else if (groupBy === 'week') {
+        return { y: { $year: field }, w: { $isoWeek: field } };
+      }
+      return { y: { $year: field }, m: { $month: field }, d: { $dayOfMonth: field } };
+    };
 
-    const rows = await RentalOrder.aggregate([
+    const orderRows = await RentalOrder.aggregate([
       { $match: { endUserId, createdAt: { $gte: start, $lte: end }, status: { $ne: 'cancelled' } } },
-      { $group: { _id: groupId, orders: { $sum: 1 }, revenue: { $sum: '$totalPrice' } } },
-      { $sort: { '_id.y': 1, '_id.m': 1, '_id.w': 1, '_id.d': 1 } }
+      { $group: { _id: bucketOf('$createdAt'), orders: { $sum: 1 }, units: { $sum: { $sum: '$items.quantity' } }, revenue: { $sum: '$totalPrice' } } },
+    ]);
+
+    // Cancelled orders are already left out above, so their refund credit notes are too
+    const noteRows = await InvoiceNote.aggregate([
+      { $match: { endUserId, status: 'issued', issuedAt: { $gte: start, $lte: end }, reason: { $ne: 'cancellation' } } },
+      {
+        $group: {
+          _id: bucketOf('$issuedAt'),
+          credits: { $sum: { $cond: [{ $eq: ['$type', 'credit'] }, '$total', 0] } },
+          debits: { $sum: { $cond: [{ $eq: ['$type', 'debit'] }, '$total', 0] } },
+        },
+      },
     ]);
 
+    const buckets = new Map<string, any>();
+    for (const row of orderRows) {
+      buckets.set(JSON.stringify(row._id), { ...row, credits: 0, debits: 0 });
+    }
+    for (const row of noteRows) {
+      const key = JSON.stringify(row._id);
+      const bucket = buckets.get(key) || { _id: row._id, orders: 0, units: 0, revenue: 0 };
+      buckets.set(key, { ...bucket, credits: row.credits, debits: row.debits });
+    }
+    const rows = Array.from(buckets.values())
+      .map((row) => ({ ...row, revenue: roundAmount(row.revenue + row.debits - row.credits) }))
+      .sort((a, b) => (a._id.y - b._id.y) || ((a._id.m || 0) - (b._id.m || 0)) || ((a._id.w || 0) - (b._id.w || 0)) || ((a._id.d || 0) - (b._id.d || 0)));
+    const adjustments = {
+      credits: roundAmount(noteRows.reduce((sum, row) => sum + row.credits, 0)),
+      debits: roundAmount(noteRows.reduce((sum, row) => sum + row.debits, 0)),
+    };
+
+    // Deposit movements across all orders; what is still held is owed back to customers
+    const depositRows = await RentalOrder.aggregate([
+      { $match: { endUserId, 'depositLedger.0': { $exists: true } } },
+      { $unwind: '$depositLedger' },
+      { $group: { _id: '$depositLedger.type', amount: { $sum: '$depositLedger.amount' } } },
+    ]);
+    const depositTotal = (type: string) => depositRows.find((r) => r._id === type)?.amount || 0;
+    const deposits = {
+      collected: depositTotal('collected'),
+      deducted: depositTotal('deducted'),
+      refunded: depositTotal('refunded'),
+      held: Math.max(0, depositTotal('collected') - depositTotal('deducted') - depositTotal('refunded')),
+    };
+
+    const maintenance = await getMaintenanceCostReport(session.user.id, start, end);
+
     logger.http('GET /api/enduser/reports', { user: session.user.email, groupBy, points: rows.length });
-    return NextResponse.json({ success: true, data: rows, meta: { groupBy, start, end } });
+    return NextResponse.json({ success: true, data: rows, deposits, adjustments, maintenance, meta: { groupBy, start, end } });
   } catch (error) {
     logger.error('enduser reports error', { error });
     return NextResponse.json({ success: false, error: 'Failed to load reports' }, { status: 500 });
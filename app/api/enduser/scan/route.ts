@@ -0,0 +1,81 @@
+/**
+ * Enduser Scan API
+ * GET resolves a scanned label code to its product or unit and the rentals it is
+ * due to go out or come back on; POST picks it up or returns it on one of them.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvalidStatusTransitionError } from '@/lib/orderStatus';
+import { InvalidTransferTransitionError } from '@/lib/transferStatus';
+import { TransferError } from '@/lib/transfers';
+import { AssetError } from '@/lib/assets';
+import { ScanError, scanCode, scanHandover } from '@/lib/scan';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const code = req.nextUrl.searchParams.get('code');
+    if (!code?.trim()) {
+      return NextResponse.json({ success: false, error: 'Code is required' }, { status: 400 });
+    }
+    await connectDB();
+
+    const result = await scanCode(code, session.user.id);
+
+    logger.http('GET /api/enduser/scan', { code, user: session.user.email, rentals: result.rentals.length });
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof ScanError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    logger.error('enduser scan error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to look up code' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { code, orderId, action, condition } = body || {};
+    if (!code || !orderId) {
+      return NextResponse.json({ success: false, error: 'Code and order are required' }, { status: 400 });
+    }
+    if (action !== 'pickup' && action !== 'return') {
+      return NextResponse.json({ success: false, error: 'Action must be pickup or return' }, { status: 400 });
+    }
+    await connectDB();
+
+    const actor = { id: session.user.id, name: session.user.name || session.user.email };
+    const { completed, message, result } = await scanHandover(String(code), session.user.id, { orderId, action, condition }, actor);
+
+    logger.http('POST /api/enduser/scan', { code, orderId, action, completed, user: session.user.email });
+    return NextResponse.json({ success: true, data: { ...result, completed }, message });
+  } catch (error) {
+    if (
+      error instanceof ScanError ||
+      error instanceof AssetError ||
+      error instanceof TransferError ||
+      error instanceof InvalidTransferTransitionError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser scan handover error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to hand over item' }, { status: 500 });
+  }
+}
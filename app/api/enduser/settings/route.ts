@@ -0,0 +1,87 @@
+/**
+ * Enduser Business Settings API
+ * Reads and updates the rental business configuration, such as the late fee
+ * policy applied to products without their own override, the cancellation
+ * refund tiers, the GST registration, the turnaround buffers per category and the
+ * opening hours, holiday closures and slots for pickups and returns.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import BusinessSettings from '@/models/BusinessSettings';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizeCancellationPolicy } from '@/lib/cancellation';
+import { normalizeCategoryBuffers } from '@/lib/turnaround';
+import { normalizeHandoverSchedule } from '@/lib/handoverSchedule';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const settings = await BusinessSettings.getForEndUser(session.user.id);
+
+    logger.http('GET /api/enduser/settings', { user: session.user.email });
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    logger.error('enduser settings fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    const settings = await BusinessSettings.getForEndUser(session.user.id);
+
+    if (body?.lateFeePolicy) {
+      settings.lateFeePolicy = {
+        type: body.lateFeePolicy.type,
+        amount: Number(body.lateFeePolicy.amount) || 0,
+        gracePeriodHours: Number(body.lateFeePolicy.gracePeriodHours) || 0,
+        capAtReplacementValue: !!body.lateFeePolicy.capAtReplacementValue,
+      };
+    }
+
+    if (body?.cancellationPolicy) {
+      settings.cancellationPolicy = normalizeCancellationPolicy(body.cancellationPolicy);
+    }
+
+    // An empty GSTIN deregisters the business; its state then comes from stateCode
+    if (body?.gstin !== undefined) {
+      settings.gstin = typeof body.gstin === 'string' && body.gstin.trim() ? body.gstin.trim() : undefined;
+    }
+    if (body?.stateCode !== undefined) {
+      settings.stateCode = body.stateCode || undefined;
+    }
+
+    if (body?.turnaroundBuffers !== undefined) {
+      settings.turnaroundBuffers = normalizeCategoryBuffers(body.turnaroundBuffers);
+    }
+
+    if (body?.handoverSchedule !== undefined) {
+      settings.handoverSchedule = normalizeHandoverSchedule(body.handoverSchedule);
+    }
+
+    await settings.save();
+
+    logger.http('PUT /api/enduser/settings', { user: session.user.email, fields: Object.keys(body || {}) });
+    return NextResponse.json({ success: true, data: settings, message: 'Settings saved' });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser settings update error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to save settings' }, { status: 500 });
+  }
+}
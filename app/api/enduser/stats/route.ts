@@ -2,15 +2,17 @@
  * Enduser Stats API
  * Computes business dashboard KPIs and leaderboards from live data.
  * - Auth: enduser only
- * - Source: RentalOrder + Product
+ * - Source: RentalOrder + Product + CouponRedemption
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import RentalOrder from '@/models/RentalOrder';
 import Product from '@/models/Product';
+import CouponRedemption from '@/models/CouponRedemption';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { roundAmount } from '@/lib/pricing';
 
 export async function GET(req: NextRequest) {
   try {
@@ -38,7 +40,8 @@ export async function GET(req: NextRequest) {
       revenueAgg,
       topCategoriesAgg,
       topProductsAgg,
-      topCustomersAgg
+      topCustomersAgg,
+      couponsAgg
     ] = await Promise.all([
       // Quotations within period
       RentalOrder.countDocuments({ endUserId: new (require('mongoose').Types.ObjectId)(endUserId), status: 'quotation', createdAt: { $gte: start } }),
@@ -56,20 +59,22 @@ export async function GET(req: NextRequest) {
         { $group: { _id: null, total: { $sum: '$totalPrice' } } }
       ]),
 
-      // Top Categories by order count and revenue
+      // Top Categories by units ordered and line revenue
       RentalOrder.aggregate([
         { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), createdAt: { $gte: start }, status: { $ne: 'cancelled' } } },
-        { $lookup: { from: 'products', localField: 'productId', foreignField: '_id', as: 'product' } },
+        { $unwind: '$items' },
+        { $lookup: { from: 'products', localField: 'items.productId', foreignField: '_id', as: 'product' } },
         { $unwind: '$product' },
-        { $group: { _id: '$product.category', ordered: { $sum: 1 }, revenue: { $sum: '$totalPrice' } } },
+        { $group: { _id: '$product.category', ordered: { $sum: '$items.quantity' }, revenue: { $sum: '$items.lineTotal' } } },
         { $sort: { ordered: -1 } },
         { $limit: 5 }
       ]),
 
-      // Top Products by orders and revenue
+      // Top Products by units ordered and line revenue
       RentalOrder.aggregate([
         { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), createdAt: { $gte: start }, status: { $ne: 'cancelled' } } },
-        { $group: { _id: '$productId', ordered: { $sum: 1 }, revenue: { $sum: '$totalPrice' } } },
+        { $unwind: '$items' },
+        { $group: { _id: '$items.productId', ordered: { $sum: '$items.quantity' }, revenue: { $sum: '$items.lineTotal' } } },
         { $lookup: { from: 'products', localField: '_id', foreignField: '_id', as: 'product' } },
         { $unwind: '$product' },
         { $project: { product: '$product.name', ordered: 1, revenue: 1 } },
@@ -84,6 +89,14 @@ export async function GET(req: NextRequest) {
         { $project: { customer: '$_id', _id: 0, ordered: 1, revenue: 1 } },
         { $sort: { ordered: -1 } },
         { $limit: 5 }
+      ]),
+
+      // Coupon redemptions and the discount they gave, per code
+      CouponRedemption.aggregate([
+        { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), createdAt: { $gte: start } } },
+        { $group: { _id: '$code', redemptions: { $sum: 1 }, discount: { $sum: '$discountAmount' } } },
+        { $project: { code: '$_id', _id: 0, redemptions: 1, discount: 1 } },
+        { $sort: { redemptions: -1 } }
       ])
     ]);
 
@@ -94,6 +107,11 @@ export async function GET(req: NextRequest) {
       topCategories: topCategoriesAgg.map((c: any) => ({ category: c._id, ordered: c.ordered, revenue: c.revenue })),
       topProducts: topProductsAgg,
       topCustomers: topCustomersAgg,
+      coupons: {
+        redemptions: couponsAgg.reduce((sum: number, c: any) => sum + c.redemptions, 0),
+        discount: roundAmount(couponsAgg.reduce((sum: number, c: any) => sum + c.discount, 0)),
+        topCoupons: couponsAgg.slice(0, 5),
+      },
     };
 
     logger.http('GET /api/enduser/stats', { user: session.user.email, periodDays, revenue: payload.revenue });
@@ -0,0 +1,110 @@
+/**
+ * Enduser Transfer API
+ * GET returns one pickup or return transfer of the signed-in enduser's business.
+ * PATCH reschedules it, assigns it to a staff member, updates its notes or marks
+ * it ready. Transfers are completed through /validate and cancelled with their order.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvalidTransferTransitionError, assertTransferTransition, isOpenTransfer } from '@/lib/transferStatus';
+import { toTransferSummary } from '@/lib/transfers';
+
+async function findOwnedTransfer(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Transfer.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const transfer = await findOwnedTransfer(params.id, session.user.id);
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+
+    logger.http('GET /api/enduser/transfers/[id]', { transferId: params.id, user: session.user.email });
+    return NextResponse.json({ success: true, data: toTransferSummary(transfer) });
+  } catch (error) {
+    logger.error('enduser transfer fetch error', { error, transferId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load transfer' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const transfer = await findOwnedTransfer(params.id, session.user.id);
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (!isOpenTransfer(transfer.status)) {
+      return NextResponse.json(
+        { success: false, error: `${transfer.transferNumber} is ${transfer.status} and can no longer be changed` },
+        { status: 409 }
+      );
+    }
+
+    if (body.status !== undefined && body.status !== transfer.status) {
+      if (body.status === 'done') {
+        return NextResponse.json({ success: false, error: 'Validate the transfer to complete it' }, { status: 400 });
+      }
+      if (body.status === 'cancelled') {
+        return NextResponse.json({ success: false, error: 'Transfers are cancelled by cancelling their order' }, { status: 400 });
+      }
+      assertTransferTransition(transfer.status, body.status);
+      transfer.status = body.status;
+    }
+    if (body.scheduledAt !== undefined) {
+      const scheduledAt = new Date(body.scheduledAt);
+      if (!body.scheduledAt || isNaN(scheduledAt.getTime())) {
+        return NextResponse.json({ success: false, error: 'Scheduled time is invalid' }, { status: 400 });
+      }
+      transfer.scheduledAt = scheduledAt;
+    }
+    // Blank unassigns the transfer
+    if (body.assignedTo !== undefined) {
+      transfer.assignedTo = body.assignedTo ? String(body.assignedTo).trim() : undefined;
+    }
+    if (body.notes !== undefined) {
+      transfer.notes = body.notes ? String(body.notes).trim() : undefined;
+    }
+
+    await transfer.save();
+
+    logger.http('PATCH /api/enduser/transfers/[id]', {
+      transferId: params.id,
+      fields: Object.keys(body || {}),
+      user: session.user.email,
+    });
+    return NextResponse.json({ success: true, data: toTransferSummary(transfer), message: `${transfer.transferNumber} saved` });
+  } catch (error) {
+    if (error instanceof InvalidTransferTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, data: { from: error.from, to: error.to, allowedTransitions: error.allowed } },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser transfer update error', { error, transferId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to update transfer' }, { status: 500 });
+  }
+}
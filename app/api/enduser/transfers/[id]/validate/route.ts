@@ -0,0 +1,63 @@
+/**
+ * Enduser Transfer Validation API
+ * POST completes a pickup or return transfer: the units have left or come back,
+ * so its rental order moves to picked up or returned. A pickup may name the
+ * serialized units handed over per order line, and a return the condition each
+ * unit came back in.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvalidStatusTransitionError } from '@/lib/orderStatus';
+import { InvalidTransferTransitionError } from '@/lib/transferStatus';
+import { TransferError, toTransferSummary, validateTransfer } from '@/lib/transfers';
+import { AssetError } from '@/lib/assets';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const transfer = await Transfer.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+
+    // The body is optional; a transfer without serialized units validates without one
+    const body = await req.json().catch(() => ({}));
+    const actor = { id: session.user.id, name: session.user.name || session.user.email };
+    const validated = await validateTransfer(transfer, actor, {
+      assignments: Array.isArray(body?.assignments) ? body.assignments : undefined,
+      conditions: body?.conditions && typeof body.conditions === 'object' ? body.conditions : undefined,
+    });
+
+    logger.http('POST /api/enduser/transfers/[id]/validate', { transferId: params.id, user: session.user.email });
+    return NextResponse.json({
+      success: true,
+      data: toTransferSummary(validated || transfer),
+      message: `${transfer.transferNumber} validated`,
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransferTransitionError || error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof TransferError || error instanceof AssetError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('enduser transfer validation error', { error, transferId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to validate transfer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Enduser Transfers API
+ * GET lists the pickup and return transfers of the signed-in enduser's business,
+ * soonest first. Filter with ?type=pickup|return, ?status= and ?orderId=.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { isTransferStatus } from '@/lib/transferStatus';
+import { toTransferSummary } from '@/lib/transfers';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const params = req.nextUrl.searchParams;
+    const type = params.get('type');
+    const status = params.get('status');
+    const orderId = params.get('orderId');
+
+    const filter: Record<string, any> = { endUserId: session.user.id };
+    if (type === 'pickup' || type === 'return') filter.type = type;
+    if (isTransferStatus(status)) filter.status = status;
+    if (orderId) {
+      if (!mongoose.Types.ObjectId.isValid(orderId)) {
+        return NextResponse.json({ success: true, data: [] });
+      }
+      filter.rentalOrderId = orderId;
+    }
+
+    const transfers = await Transfer.find(filter).sort({ scheduledAt: 1 }).lean() as any[];
+
+    logger.http('GET /api/enduser/transfers', { user: session.user.email, type, status, count: transfers.length });
+    return NextResponse.json({ success: true, data: transfers.map(toTransferSummary) });
+  } catch (error) {
+    logger.error('enduser transfers fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load transfers' }, { status: 500 });
+  }
+}
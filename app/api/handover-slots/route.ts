@@ -0,0 +1,43 @@
+/**
+ * Handover Slots API
+ * GET lists the pickup and return slots a rental business offers on a day
+ * (`?endUserId=&date=YYYY-MM-DD`, an Indian calendar day) with the room left in each.
+ * A business without an enabled schedule hands rentals over at any time.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { describeOpeningHours, isValidDate } from '@/lib/handoverSchedule';
+import { getHandoverSlots } from '@/lib/handovers';
+
+export async function GET(req: NextRequest) {
+  try {
+    const endUserId = req.nextUrl.searchParams.get('endUserId') || '';
+    const date = req.nextUrl.searchParams.get('date') || '';
+    if (!mongoose.Types.ObjectId.isValid(endUserId)) {
+      return NextResponse.json({ success: false, error: 'A valid business is required' }, { status: 400 });
+    }
+    if (!isValidDate(date)) {
+      return NextResponse.json({ success: false, error: 'Date must be YYYY-MM-DD' }, { status: 400 });
+    }
+    await connectDB();
+
+    const { schedule, closedFor, slots } = await getHandoverSlots(endUserId, date);
+
+    logger.http('GET /api/handover-slots', { endUserId, date, slots: slots.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        enabled: schedule.enabled,
+        openingHours: describeOpeningHours(schedule),
+        slotMinutes: schedule.slotMinutes,
+        closedFor,
+        slots,
+      },
+    });
+  } catch (error) {
+    logger.error('handover slots fetch error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load handover slots' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Invoice Note API
+ * Issues or discards a draft credit or debit note of the signed-in enduser's
+ * business. Issuing numbers the note; issued notes cannot be changed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import InvoiceNote from '@/models/InvoiceNote';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvoiceNoteError, cancelInvoiceNote, issueInvoiceNote, toInvoiceNoteSummary } from '@/lib/invoiceNotes';
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Note not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.action !== 'issue' && body?.action !== 'cancel') {
+      return NextResponse.json({ success: false, error: 'Action must be issue or cancel' }, { status: 400 });
+    }
+
+    const note = await InvoiceNote.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!note) {
+      return NextResponse.json({ success: false, error: 'Note not found' }, { status: 404 });
+    }
+
+    if (body.action === 'issue') {
+      await issueInvoiceNote(note);
+    } else {
+      await cancelInvoiceNote(note);
+    }
+
+    logger.http('PATCH /api/invoice-notes/[id]', { noteId: params.id, action: body.action, user: session.user.email });
+    return NextResponse.json({
+      success: true,
+      data: toInvoiceNoteSummary(note),
+      message: body.action === 'issue' ? `Note ${note.noteNumber} issued` : 'Draft note discarded',
+    });
+  } catch (error) {
+    if (error instanceof InvoiceNoteError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    logger.error('invoice note update error', { error, noteId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to update note' }, { status: 500 });
+  }
+}
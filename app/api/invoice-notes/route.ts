@@ -0,0 +1,126 @@
+/**
+ * Invoice Notes API
+ * GET lists the credit and debit notes of the signed-in customer, or of the
+ * signed-in enduser's business, newest first; customers only see issued notes.
+ * Filter with ?orderId=, ?invoiceId= or ?status=. POST drafts a note against an
+ * order's invoice (end users only).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import InvoiceNote from '@/models/InvoiceNote';
+import RentalOrder from '@/models/RentalOrder';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvoiceNoteError, draftInvoiceNote, toInvoiceNoteSummary } from '@/lib/invoiceNotes';
+
+const NOTE_TYPES = ['credit', 'debit'];
+const NOTE_REASONS = ['cancellation', 'early_return', 'late_fee', 'damage', 'other'];
+const NOTE_STATUSES = ['draft', 'issued', 'cancelled'];
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+    const filter: any = session.user.role === 'enduser'
+      ? { endUserId: new mongoose.Types.ObjectId(session.user.id) }
+      : { customerId: new mongoose.Types.ObjectId(session.user.id), status: 'issued' };
+
+    for (const [param, field] of [['orderId', 'rentalOrderId'], ['invoiceId', 'invoiceId']]) {
+      const value = searchParams.get(param);
+      if (!value) continue;
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return NextResponse.json({ success: false, error: `Invalid ${param}` }, { status: 400 });
+      }
+      filter[field] = new mongoose.Types.ObjectId(value);
+    }
+    const status = searchParams.get('status');
+    if (status && session.user.role === 'enduser') {
+      if (!NOTE_STATUSES.includes(status)) {
+        return NextResponse.json({ success: false, error: 'Invalid status' }, { status: 400 });
+      }
+      filter.status = status;
+    }
+
+    const notes = await InvoiceNote.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean() as any[];
+    const totalCount = await InvoiceNote.countDocuments(filter);
+
+    logger.http('GET /api/invoice-notes', { user: session.user.email, count: notes.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        notes: notes.map(toInvoiceNoteSummary),
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('invoice notes list error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load notes' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    if (!NOTE_TYPES.includes(body?.type) || !NOTE_REASONS.includes(body?.reason)) {
+      return NextResponse.json({ success: false, error: 'A valid note type and reason are required' }, { status: 400 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(body?.orderId)) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const order = await RentalOrder.findOne({ _id: body.orderId, endUserId: session.user.id });
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const note = await draftInvoiceNote(
+      order,
+      {
+        type: body.type,
+        reason: body.reason,
+        amount: Number(body.amount) || 0,
+        description: typeof body.description === 'string' ? body.description : undefined,
+      },
+      { id: session.user.id, name: session.user.name || session.user.email }
+    );
+
+    logger.http('POST /api/invoice-notes', { user: session.user.email, orderId: body.orderId, type: note.type });
+    return NextResponse.json(
+      { success: true, data: toInvoiceNoteSummary(note), message: `${note.type === 'credit' ? 'Credit' : 'Debit'} note drafted` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof InvoiceNoteError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('invoice note draft error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to draft note' }, { status: 500 });
+  }
+}
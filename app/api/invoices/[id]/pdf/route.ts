@@ -0,0 +1,53 @@
+/**
+ * Invoice PDF API
+ * Renders a stored invoice as a PDF for the customer it was issued to or the
+ * business that issued it.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { syncInvoicePaymentStatus } from '@/lib/invoices';
+import { renderInvoicePDF } from '@/lib/invoicePdf';
+import { invoiceFileName } from '@/lib/pdfGenerator';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const owner = session.user.role === 'enduser' ? { endUserId: session.user.id } : { customerId: session.user.id };
+    let invoice: any = await Invoice.findOne({ _id: params.id, ...owner });
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    if (await syncInvoicePaymentStatus([invoice.rentalOrderId]) > 0) {
+      invoice = await Invoice.findById(invoice._id);
+    }
+
+    const pdf = renderInvoicePDF(invoice);
+    const fileName = invoiceFileName(invoice);
+
+    logger.http('GET /api/invoices/[id]/pdf', { invoiceId: params.id, user: session.user.email });
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('invoice pdf error', { error, invoiceId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to render invoice' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Invoices API
+ * Lists the invoices of the signed-in customer, or of the signed-in enduser's
+ * business, newest first. Filter to one order with ?orderId=.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { syncInvoicePaymentStatus, toInvoiceSummary } from '@/lib/invoices';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+    const orderId = searchParams.get('orderId');
+
+    const filter: any = session.user.role === 'enduser'
+      ? { endUserId: new mongoose.Types.ObjectId(session.user.id) }
+      : { customerId: new mongoose.Types.ObjectId(session.user.id) };
+    if (orderId) {
+      if (!mongoose.Types.ObjectId.isValid(orderId)) {
+        return NextResponse.json({ success: false, error: 'Invalid order ID' }, { status: 400 });
+      }
+      filter.rentalOrderId = new mongoose.Types.ObjectId(orderId);
+    }
+
+    const skip = (page - 1) * limit;
+    let invoices = await Invoice.find(filter).sort({ issuedAt: -1 }).skip(skip).limit(limit).lean() as any[];
+    const totalCount = await Invoice.countDocuments(filter);
+
+    // Payment status follows the order; pick up changes made outside the payment ledger
+    if (await syncInvoicePaymentStatus(invoices.map((invoice) => invoice.rentalOrderId)) > 0) {
+      invoices = await Invoice.find(filter).sort({ issuedAt: -1 }).skip(skip).limit(limit).lean() as any[];
+    }
+
+    logger.http('GET /api/invoices', { user: session.user.email, count: invoices.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        invoices: invoices.map(toInvoiceSummary),
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('invoices list error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load invoices' }, { status: 500 });
+  }
+}
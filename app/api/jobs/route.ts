@@ -0,0 +1,40 @@
+/**
+ * Scheduler API
+ * Called by scripts/scheduler.js to run due background jobs, or a single job
+ * by name. Protected by the CRON_SECRET bearer token instead of a session.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { JobAlreadyRunningError, isJobName, runDueJobs, runJob } from '@/lib/jobs';
+
+export async function POST(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.name) {
+      if (!isJobName(body.name)) {
+        return NextResponse.json({ success: false, error: `Unknown job ${body.name}` }, { status: 404 });
+      }
+      const run = await runJob(body.name, { trigger: 'manual', triggeredBy: { name: 'Admin' } });
+      logger.http('POST /api/jobs', { job: body.name, status: run.status });
+      return NextResponse.json({ success: true, data: run });
+    }
+
+    const results = await runDueJobs();
+    logger.http('POST /api/jobs', { ran: results.length });
+    return NextResponse.json({ success: true, data: results });
+  } catch (error) {
+    if (error instanceof JobAlreadyRunningError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    logger.error('scheduler run error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to run jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Rental Order Cancellation API
+ * GET previews the refund for cancelling now; POST cancels the order, refunds
+ * the customer through Razorpay and releases the order's units. Open to the
+ * customer who placed the order and the business that owns it.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvalidStatusTransitionError, canTransition } from '@/lib/orderStatus';
+import { describeCancellationPolicy } from '@/lib/cancellation';
+import { RefundError, RefundInProgressError, cancelRentalOrder, quoteCancellation } from '@/lib/refunds';
+import { CancellationInitiator } from '@/types';
+
+// The order the signed-in customer placed or the signed-in enduser owns
+async function findAccessibleOrder(id: string, user: { id: string; role: string }) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const owner = user.role === 'enduser' ? { endUserId: user.id } : { customerId: user.id };
+  return RentalOrder.findOne({ _id: id, ...owner });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findAccessibleOrder(params.id, session.user);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const { policy, quote } = await quoteCancellation(order, session.user.role as CancellationInitiator);
+
+    logger.http('GET /api/orders/[id]/cancel', { orderId: params.id, user: session.user.email });
+    return NextResponse.json({
+      success: true,
+      data: {
+        cancellable: canTransition(order.status, 'cancelled'),
+        quote,
+        policy: describeCancellationPolicy(policy),
+      },
+    });
+  } catch (error) {
+    logger.error('order cancellation quote error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load cancellation terms' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const order = await findAccessibleOrder(params.id, session.user);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const { quote, refund } = await cancelRentalOrder(order, {
+      initiatedBy: session.user.role as CancellationInitiator,
+      actor: { id: session.user.id, name: session.user.name || session.user.email },
+      reason: body?.reason,
+    });
+
+    logger.http('POST /api/orders/[id]/cancel', {
+      orderId: params.id,
+      user: session.user.email,
+      refundAmount: quote.refundAmount,
+    });
+    return NextResponse.json({
+      success: true,
+      data: order,
+      refund: refund || null,
+      message: quote.refundAmount > 0 ? `Order cancelled, ₹${quote.refundAmount} refunded` : 'Order cancelled',
+    });
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof RefundInProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 502 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('order cancellation error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to cancel order' }, { status: 500 });
+  }
+}
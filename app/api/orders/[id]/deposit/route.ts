@@ -0,0 +1,95 @@
+/**
+ * Rental Order Deposit API
+ * GET returns the deposit statement for the customer who placed the order or the
+ * business that owns it. POST settles the deposit of a returned order (end users
+ * only): deductions for damage or late fees are kept and the rest is refunded.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { buildDepositStatement, DEPOSIT_DEDUCTION_LABELS } from '@/lib/deposits';
+import { DepositSettlementError, RefundError, RefundInProgressError, settleDeposit } from '@/lib/refunds';
+import { DepositDeductionCategory } from '@/types';
+
+// The order the signed-in customer placed or the signed-in enduser owns
+async function findAccessibleOrder(id: string, user: { id: string; role: string }) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const owner = user.role === 'enduser' ? { endUserId: user.id } : { customerId: user.id };
+  return RentalOrder.findOne({ _id: id, ...owner });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findAccessibleOrder(params.id, session.user);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    logger.http('GET /api/orders/[id]/deposit', { orderId: params.id, user: session.user.email });
+    return NextResponse.json({ success: true, data: buildDepositStatement(order) });
+  } catch (error) {
+    logger.error('deposit statement error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load deposit statement' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json().catch(() => ({}));
+    const deductions = (Array.isArray(body?.deductions) ? body.deductions : [])
+      .filter((d: any) => d && d.category in DEPOSIT_DEDUCTION_LABELS)
+      .map((d: any) => ({
+        category: d.category as DepositDeductionCategory,
+        amount: Number(d.amount) || 0,
+        reason: typeof d.reason === 'string' ? d.reason : undefined,
+      }));
+
+    const order = await findAccessibleOrder(params.id, session.user);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const { deducted, refunded } = await settleDeposit(order, {
+      deductions,
+      actor: { id: session.user.id, name: session.user.name || session.user.email },
+    });
+
+    logger.http('POST /api/orders/[id]/deposit', { orderId: params.id, user: session.user.email, deducted, refunded });
+    return NextResponse.json({
+      success: true,
+      data: buildDepositStatement(order),
+      message: refunded > 0 ? `Deposit settled, ₹${refunded} refunded` : 'Deposit settled',
+    });
+  } catch (error) {
+    if (error instanceof DepositSettlementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof RefundInProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 502 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('deposit settlement error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to settle deposit' }, { status: 500 });
+  }
+}
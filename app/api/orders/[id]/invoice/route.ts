@@ -0,0 +1,87 @@
+/**
+ * Rental Order Invoice API
+ * Returns the invoice of an order for the customer who placed it or the business
+ * that owns it. Reading never issues one: invoices are issued by checkout and when
+ * an order is confirmed, and the business can issue a missing one with POST.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import Invoice from '@/models/Invoice';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { InvoiceError, issueInvoice, syncInvoicePaymentStatus, toInvoiceSummary } from '@/lib/invoices';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const owner = session.user.role === 'enduser' ? { endUserId: session.user.id } : { customerId: session.user.id };
+    const order: any = await RentalOrder.findOne({ _id: params.id, ...owner }).select('_id paymentStatus').lean();
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const invoice: any = await Invoice.findOne({ rentalOrderId: order._id }).lean();
+    if (!invoice?.invoiceNumber) {
+      return NextResponse.json({ success: false, error: 'This order has not been invoiced yet' }, { status: 404 });
+    }
+
+    logger.http('GET /api/orders/[id]/invoice', { orderId: params.id, user: session.user.email });
+    // Payment status follows the order; the stored copy catches up on the next payment sync
+    return NextResponse.json({ success: true, data: toInvoiceSummary({ ...invoice, paymentStatus: order.paymentStatus }) });
+  } catch (error) {
+    logger.error('order invoice error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load invoice' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/orders/[id]/invoice
+ * Issue the invoice of an order that has none yet (owning business only); returns
+ * the existing invoice when it already has one
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+    await connectDB();
+
+    const order = await RentalOrder.findOne({ _id: params.id, endUserId: session.user.id });
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const invoice: any = await issueInvoice(order);
+    if (!invoice.invoiceNumber) {
+      return NextResponse.json({ success: false, error: 'The invoice is still being issued; try again shortly' }, { status: 409 });
+    }
+    if (invoice.paymentStatus !== order.paymentStatus) {
+      await syncInvoicePaymentStatus([order._id]);
+      invoice.paymentStatus = order.paymentStatus;
+    }
+
+    logger.http('POST /api/orders/[id]/invoice', { orderId: params.id, user: session.user.email, invoiceNumber: invoice.invoiceNumber });
+    return NextResponse.json({ success: true, data: toInvoiceSummary(invoice) });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    logger.error('order invoice issue error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to issue invoice' }, { status: 500 });
+  }
+}
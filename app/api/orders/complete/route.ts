@@ -1,124 +1,118 @@
 /**
  * Order Completion API
- * Consumes inventory for purchased items, flips availability when stock is 0,
- * and optionally creates RentalOrder documents for each cart line.
+ * Turns the customer's held cart lines into orders (see lib/checkout). Honours the
+ * Idempotency-Key header, so a double-click or retry returns the orders the first
+ * request created instead of creating them again; Razorpay checkouts are keyed by
+ * their Razorpay order when no header is sent. A Razorpay payment for a checkout
+ * that places no orders is refunded. Units return to the pool when the order is
+ * returned or cancelled.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
-import Product from '@/models/Product';
-import RentalOrder from '@/models/RentalOrder';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
-import mongoose from 'mongoose';
+import { PricingError } from '@/lib/pricing';
+import { CheckoutConflictError, PaymentVerificationError, completeCheckout, refundUnplacedCheckout } from '@/lib/checkout';
+import {
+  CartHoldError,
+  CartItemError,
+  claimCartForCheckout,
+  getCart,
+  releaseCartCheckout,
+} from '@/lib/cart';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENT_REPLAY_HEADER,
+  IdempotencyConflictError,
+  abandonIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+} from '@/lib/idempotency';
+
+// Response status for errors that leave nothing created
+function errorStatus(error: unknown): number {
+  if (error instanceof CheckoutConflictError || error instanceof CartHoldError) return 409;
+  if (error instanceof PaymentVerificationError) return 409;
+  if (error instanceof PricingError || error instanceof CartItemError) return 400;
+  if (error instanceof Error && error.name === 'ValidationError') return 400;
+  return 500;
+}
 
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user) {
       return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
     }
 
     await connectDB();
-    const body = await req.json();
-    const items: Array<{ productId: string; quantity: number; startDate?: string; endDate?: string; durationUnit?: string; pricePerUnit?: number; totalPrice?: number; deliveryAddress?: any; endUserId?: string; }>
-      = Array.isArray(body?.items) ? body.items : [];
+    const body = await req.json().catch(() => ({}));
     const customer = body?.customer || {};
+    const razorpayOrderId: string | undefined = body?.razorpayOrderId || undefined;
 
-
-
-    if (items.length === 0) {
-      return NextResponse.json({ success: false, error: 'No items' }, { status: 400 });
+    // A retried Razorpay checkout is the same request even without a header
+    const idempotencyKey = req.headers.get(IDEMPOTENCY_HEADER) || (razorpayOrderId ? `razorpay:${razorpayOrderId}` : undefined);
+    let idempotency: any;
+    if (idempotencyKey) {
+      const started = await beginIdempotentRequest('orders.complete', session.user.id, idempotencyKey, body);
+      if (started.replay) {
+        logger.http('POST /api/orders/complete (replayed)', { user: session.user.email, key: idempotencyKey });
+        return NextResponse.json(started.replay.body, {
+          status: started.replay.status,
+          headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' },
+        });
+      }
+      idempotency = started.record;
     }
 
-    // Dev-friendly stock deductions without MongoDB transactions (standalone MongoDB doesn't support them)
-    const updated: any[] = [];
+    // The server cart is the checkout; lock it so a concurrent request cannot convert the same lines
+    await getCart(session.user.id);
+    const cart = await claimCartForCheckout(session.user.id);
+    if (!cart) {
+      if (idempotency) await abandonIdempotentRequest(idempotency);
+      return NextResponse.json({ success: false, error: 'Checkout is already in progress' }, { status: 409 });
+    }
 
     try {
-      for (const it of items) {
-        const qty = Math.max(1, Number(it.quantity) || 1);
-        const product = await Product.findById(it.productId);
-        if (!product) {
-          throw new Error('Product not found');
-        }
-        if (product.quantityAvailable < qty) {
-          throw new Error(`Insufficient stock for ${product.name}`);
-        }
-
-        // Update inventory
-        product.quantityAvailable = product.quantityAvailable - qty;
-        if (product.quantityAvailable <= 0) {
-          product.quantityAvailable = 0;
-          product.availability = false;
-        }
-        await product.save();
-        updated.push({ productId: product._id.toString(), quantityAvailable: product.quantityAvailable, availability: product.availability });
-
-        // Create RentalOrder snapshot (non-blocking)
-        try {
-          // Ensure dates are in the future to avoid validation issues
-          const now = new Date();
-          const defaultStart = new Date(now.getTime() + 24*60*60*1000); // Tomorrow
-          const defaultEnd = new Date(now.getTime() + 48*60*60*1000); // Day after tomorrow
-          
-          const start = it.startDate ? new Date(it.startDate) : defaultStart;
-          const end = it.endDate ? new Date(it.endDate) : defaultEnd;
-          
-          // If start date is in the past, push it to tomorrow
-          if (start < now) {
-            start.setTime(defaultStart.getTime());
-          }
-          
-          // Ensure end date is after start date
-          if (end <= start) {
-            end.setTime(start.getTime() + 24*60*60*1000);
-          }
+      const { orders, totals } = await completeCheckout(cart, {
+        customer: {
+          id: session.user.id,
+          accountEmail: session.user.email || undefined,
+          name: customer.name || session.user.name,
+          email: customer.email || session.user.email,
+          phone: customer.phone,
+        },
+        deliveryAddress: body?.deliveryAddress,
+        couponCode: body?.couponCode || undefined,
+        deliveryMethod: body?.deliveryMethod || undefined,
+        razorpayOrderId,
+      });
 
-          // Prefer product.endUserId from DB to avoid client-side type issues (e.g., "[object Object]")
-          const endUserIdFromProduct: any = (product as any).endUserId;
-          const phone = customer.phone || (it as any)?.deliveryAddress?.phone || '';
+      const result = { success: true, orders, orderIds: orders.map((order) => order.id), totals };
+      if (idempotency) await completeIdempotentRequest(idempotency, 201, result);
 
-          const orderData = {
-            productId: product._id,
-            customerId: new mongoose.Types.ObjectId(session.user.id),
-            endUserId: endUserIdFromProduct,
-            customerName: customer.name || session.user.name,
-            customerEmail: customer.email || session.user.email,
-            customerPhone: phone.trim() ? phone.trim() : undefined,
-            startDate: start,
-            endDate: end,
-            duration: 1,
-            durationUnit: (it.durationUnit || 'day') as any,
-            totalPrice: Number(it.totalPrice || it.pricePerUnit || 0),
-            status: 'confirmed',
-            paymentStatus: 'paid',
-            deliveryAddress: JSON.stringify((it as any)?.deliveryAddress || {}),
-          } as any;
-
-          const rentalOrder = await RentalOrder.create([orderData]);
-        } catch (e) {
-          // continue even if order creation fails; stock change is primary
-          console.error('Order creation failed for item:', {
-            error: (e as any)?.message,
-            itemData: it,
-            validationErrors: (e as any)?.errors
-          });
-          logger.error('rental order create failed on complete', {
-            error: (e as any)?.message,
-            sessionUserId: session.user.id,
-            itemData: it
-          });
-        }
+      logger.http('POST /api/orders/complete', { user: session.user.email, orders: result.orderIds });
+      return NextResponse.json(result, { status: 201 });
+    } catch (error) {
+      if (idempotency) await abandonIdempotentRequest(idempotency);
+      const status = errorStatus(error);
+      if (status === 500) {
+        logger.error('order complete failed', { error: (error as Error)?.message, user: session.user.email });
       }
+      const message = status === 500 ? 'Order could not be created; no orders were saved' : (error as Error).message;
 
-      logger.http('POST /api/orders/complete (no-tx)', { user: session.user.email, items: items.length });
-      return NextResponse.json({ success: true, updated });
-    } catch (opErr) {
-      logger.error('order complete failed (no-tx)', { error: (opErr as any)?.message });
-      return NextResponse.json({ success: false, error: (opErr as any)?.message || 'Stock update failed' }, { status: 409 });
+      // The customer has already paid through Razorpay; with no orders placed the payment goes back
+      const refunded = razorpayOrderId ? await refundUnplacedCheckout(razorpayOrderId, session.user.id, message) : 0;
+      return NextResponse.json({ success: false, error: message, refunded: refunded || undefined }, { status });
+    } finally {
+      await releaseCartCheckout(cart._id);
     }
   } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
     logger.error('order complete exception', { error });
     return NextResponse.json({ success: false, error: 'Internal error' }, { status: 500 });
   }
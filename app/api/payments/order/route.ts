@@ -1,24 +1,54 @@
 import { NextResponse } from 'next/server';
-import Razorpay from 'razorpay';
+import { getServerSession } from 'next-auth';
 import { v4 as uuidv4 } from 'uuid';
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID as string,
-  key_secret: process.env.RAZORPAY_KEY_SECRET as string
-});
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { buildQuote } from '@/lib/quote';
+import { PricingError } from '@/lib/pricing';
+import { getRazorpay, razorpayReceipt } from '@/lib/razorpay';
+import { CartHoldError, CartItemError, cartQuoteItems, getCart, holdCartForCheckout } from '@/lib/cart';
 
 export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'customer') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
   const body = await request.json();
-  const amount = body.amount;
+  let amount: number;
+  try {
+    // Charge the server quote for the customer's cart, never an amount sent by the browser.
+    // Holds are renewed so the units stay reserved while the customer pays.
+    await connectDB();
+    const cart = await holdCartForCheckout(await getCart(session.user.id));
+    const quote = await buildQuote(cartQuoteItems(cart), {
+      couponCode: body.couponCode || undefined,
+      deliveryMethod: body.deliveryMethod || undefined,
+      deliveryState: body.deliveryState || undefined,
+      customerId: session.user.id,
+      customerEmail: session.user.email || undefined,
+    });
+    amount = quote.totals.amountPayable;
+  } catch (err: any) {
+    if (err instanceof CartHoldError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    if (err instanceof PricingError || err instanceof CartItemError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error('Pricing for Razorpay order failed:', err);
+    return NextResponse.json({ error: 'Failed to price order' }, { status: 500 });
+  }
   if (!amount || amount <= 0) return NextResponse.json({ error: 'Invalid amount' }, { status: 400 });
   try {
+    // The receipt and notes name the customer so checkout can tell the payment is theirs
     const options = {
-      amount: amount * 100, // amount in the smallest currency unit
+      amount: Math.round(amount * 100), // amount in the smallest currency unit
       currency: 'INR',
-      receipt: `rcpt_${uuidv4().replace(/-/g, '')}`,
+      receipt: razorpayReceipt(session.user.id, uuidv4().replace(/-/g, '').slice(0, 8)),
+      notes: { customerId: session.user.id },
     };
     console.log('Creating Razorpay order with options:', options);
-    const order = await razorpay.orders.create(options);
+    const order = await getRazorpay().orders.create(options);
     return NextResponse.json(order);
   } catch (err: any) {
     console.error('Razorpay order creation failed:', err);
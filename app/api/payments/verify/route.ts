@@ -1,11 +1,15 @@
+/**
+ * Razorpay Checkout Verification
+ * Confirms the checkout signature so the browser can finish the order. Payment
+ * status itself is only changed by the Razorpay webhook (/api/payments/webhook).
+ */
 import { NextResponse } from 'next/server';
 import crypto from 'crypto';
-import dbConnect from '@/lib/mongodb';
-import BookingModel from '@/models/Booking';
+import { logger } from '@/lib/logger';
 
 export async function POST(request: Request) {
   const body = await request.json();
-  const { razorpay_order_id, razorpay_payment_id, razorpay_signature, bookingId } = body;
+  const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = body;
 
   const generatedSignature = razorpay_order_id + '|' + razorpay_payment_id;
 
@@ -16,9 +20,9 @@ export async function POST(request: Request) {
 
   const isAuthentic = expectedSignature === razorpay_signature;
 
+  logger.http('POST /api/payments/verify', { razorpayOrderId: razorpay_order_id, authentic: isAuthentic });
+
   if (isAuthentic) {
-    await dbConnect();
-    await BookingModel.findByIdAndUpdate(bookingId, { status: 'confirmed', paymentId: razorpay_payment_id });
     return NextResponse.json({ ok: true });
   } else {
     return NextResponse.json({ ok: false }, { status: 400 });
@@ -0,0 +1,63 @@
+/**
+ * Razorpay Webhook Receiver
+ * Verifies the webhook signature, records the event in the Payment ledger and
+ * updates the payment status of the rental orders it belongs to. Redelivered
+ * events are recorded once but processed again: processing rebuilds status from
+ * the ledger, so a retry after a failed delivery still reaches the orders.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import {
+  HANDLED_PAYMENT_EVENTS,
+  applyRefundEvent,
+  recordPaymentEvent,
+  syncOrderPaymentStatus,
+  verifyWebhookSignature,
+} from '@/lib/payments';
+
+export async function POST(req: NextRequest) {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('Razorpay webhook received but RAZORPAY_WEBHOOK_SECRET is not set');
+    return NextResponse.json({ success: false, error: 'Webhook not configured' }, { status: 500 });
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text
+  const rawBody = await req.text();
+  if (!verifyWebhookSignature(rawBody, req.headers.get('x-razorpay-signature'), secret)) {
+    logger.warn('Razorpay webhook signature mismatch');
+    return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  try {
+    await connectDB();
+
+    const eventId = req.headers.get('x-razorpay-event-id')
+      || crypto.createHash('sha256').update(rawBody).digest('hex');
+    const { entry, duplicate } = await recordPaymentEvent(eventId, body);
+
+    let sync;
+    if (entry && HANDLED_PAYMENT_EVENTS.includes(body.event)) {
+      await applyRefundEvent(body.event, entry?.razorpayRefundId);
+      if (entry?.razorpayOrderId) {
+        sync = await syncOrderPaymentStatus(entry.razorpayOrderId);
+      }
+    }
+
+    logger.http('POST /api/payments/webhook', { event: body.event, eventId, duplicate, status: sync?.status });
+    return NextResponse.json({ success: true, duplicate, event: body.event, paymentStatus: sync?.status });
+  } catch (error) {
+    // A 5xx makes Razorpay retry the delivery later
+    logger.error('razorpay webhook processing error', { error: (error as Error).message, event: body?.event });
+    return NextResponse.json({ success: false, error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Pricing Quote API
+ * Prices cart lines from stored product rates, with an itemised breakdown per
+ * line and order totals after coupon, delivery and tax. Open to guests; a
+ * signed-in customer gets their price lists and their coupon limits are checked too. A rejected coupon comes back
+ * with its reason code.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { buildQuote } from '@/lib/quote';
+import { PricingError } from '@/lib/pricing';
+import { CouponError } from '@/lib/coupons';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    await connectDB();
+    const body = await req.json();
+    const items = Array.isArray(body?.items) ? body.items : [];
+
+    const quote = await buildQuote(items, {
+      couponCode: body?.couponCode || undefined,
+      deliveryMethod: body?.deliveryMethod || undefined,
+      deliveryState: body?.deliveryState || undefined,
+      customerId: session?.user?.role === 'customer' ? session.user.id : undefined,
+      customerEmail: session?.user?.role === 'customer' ? session.user.email || undefined : undefined,
+    });
+
+    logger.http('POST /api/pricing/quote', { items: quote.lines.length, total: quote.totals.total });
+    return NextResponse.json({ success: true, data: quote });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json({ success: false, error: error.message, reason: error.reason }, { status: 400 });
+    }
+    if (error instanceof PricingError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    logger.error('pricing quote error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to price items' }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Product Asset API Route Handler
+ * One serialized unit with every rental it was part of, and updates to its
+ * details, condition and status (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import Asset from '@/models/Asset';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { AssetError, normalizeAssetInput, toAssetRentals, toAssetSummary } from '@/lib/assets';
+import { ApiResponse } from '@/types';
+
+// The signed-in end user's unit and its product, or the response to send instead
+async function loadOwnedAsset(productId: string, assetId: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'enduser') {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+    return { error: NextResponse.json(response, { status: 401 }) };
+  }
+
+  await connectDB();
+
+  const valid = mongoose.Types.ObjectId.isValid(productId) && mongoose.Types.ObjectId.isValid(assetId);
+  const [product, asset] = valid
+    ? await Promise.all([Product.findById(productId), Asset.findOne({ _id: assetId, productId })])
+    : [null, null];
+  if (!product || !asset) {
+    const response: ApiResponse = { success: false, error: 'Unit not found' };
+    return { error: NextResponse.json(response, { status: 404 }) };
+  }
+  if (product.endUserId.toString() !== session.user.id) {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. You can only manage units of your own products.' };
+    return { error: NextResponse.json(response, { status: 403 }) };
+  }
+
+  return { product, asset, session };
+}
+
+/**
+ * GET /api/products/[id]/assets/[assetId]
+ * The unit and its rental history, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string; assetId: string } }
+) {
+  try {
+    const { product, asset, session, error } = await loadOwnedAsset(params.id, params.assetId);
+    if (error) return error;
+
+    logger.http('GET /api/products/[id]/assets/[assetId]', { assetId: params.assetId, user: session.user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { ...toAssetSummary(asset, product.name), rentals: toAssetRentals(asset) },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching unit', { error, assetId: params.assetId });
+
+    const response: ApiResponse = { success: false, error: 'Failed to load unit' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/products/[id]/assets/[assetId]
+ * Update the unit's details, condition or status (available, maintenance or retired)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; assetId: string } }
+) {
+  try {
+    const { product, asset, session, error } = await loadOwnedAsset(params.id, params.assetId);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    const fields = normalizeAssetInput(body);
+
+    if (fields.status && fields.status !== asset.status) {
+      // A rented unit comes back through its order's return
+      if (asset.status === 'rented') {
+        throw new AssetError(`Unit ${asset.serialNumber} is out on ${asset.currentOrderNumber}`);
+      }
+      if (asset.status === 'retired') {
+        const inService = await Asset.countDocuments({ productId: product._id, status: { $ne: 'retired' } });
+        if (inService >= product.quantityAvailable) {
+          throw new AssetError(`${product.name} owns ${product.quantityAvailable} units and all of them are in service`);
+        }
+      }
+    }
+
+    asset.set(fields);
+    await asset.save();
+
+    logger.info('Unit updated', { assetId: params.assetId, fields: Object.keys(fields), updatedBy: session.user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { ...toAssetSummary(asset, product.name), rentals: toAssetRentals(asset) },
+      message: `Unit ${asset.serialNumber} updated`,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof AssetError) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if ((error as any)?.code === 11000) {
+      const response: ApiResponse = { success: false, error: 'A unit with this serial number already exists' };
+      return NextResponse.json(response, { status: 409 });
+    }
+    logger.error('Error updating unit', { error, assetId: params.assetId });
+
+    const response: ApiResponse = { success: false, error: 'Failed to update unit' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Product Assets API Route Handler
+ * Serialized units of a product: list them and register new ones (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import Asset from '@/models/Asset';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { AssetError, normalizeAssetInput, toAssetSummary } from '@/lib/assets';
+import { ASSET_STATUSES } from '@/lib/assetStatus';
+import { ApiResponse } from '@/types';
+
+// The signed-in end user's product, or the response to send instead
+async function loadOwnedProduct(productId: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'enduser') {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+    return { error: NextResponse.json(response, { status: 401 }) };
+  }
+
+  await connectDB();
+
+  const product = mongoose.Types.ObjectId.isValid(productId) ? await Product.findById(productId) : null;
+  if (!product) {
+    const response: ApiResponse = { success: false, error: 'Product not found' };
+    return { error: NextResponse.json(response, { status: 404 }) };
+  }
+  if (product.endUserId.toString() !== session.user.id) {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. You can only manage units of your own products.' };
+    return { error: NextResponse.json(response, { status: 403 }) };
+  }
+
+  return { product, session };
+}
+
+/**
+ * GET /api/products/[id]/assets?status=
+ * Units of the product by serial number
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const query: any = { productId: product._id };
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && (ASSET_STATUSES as string[]).includes(status)) {
+      query.status = status;
+    }
+    const assets = await Asset.find(query).sort({ serialNumber: 1 });
+
+    logger.http('GET /api/products/[id]/assets', { productId: params.id, user: session.user.email, count: assets.length });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        productId: product._id.toString(),
+        productName: product.name,
+        owned: product.quantityAvailable,
+        assets: assets.map((asset) => toAssetSummary(asset, product.name)),
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching product units', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to load units' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/products/[id]/assets
+ * Register a unit ({ serialNumber, purchaseDate, purchaseCost, condition, notes })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    const fields = normalizeAssetInput({ ...body, status: undefined });
+
+    // Units in service cannot outnumber the units the business owns
+    const inService = await Asset.countDocuments({ productId: product._id, status: { $ne: 'retired' } });
+    if (inService >= product.quantityAvailable) {
+      const response: ApiResponse = {
+        success: false,
+        error: `${product.name} owns ${product.quantityAvailable} units and all of them are registered; increase its stock first`,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const asset = await Asset.create({ ...fields, productId: product._id, endUserId: product.endUserId });
+
+    logger.info('Unit registered', { productId: params.id, serialNumber: asset.serialNumber, createdBy: session.user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      data: toAssetSummary(asset, product.name),
+      message: `Unit ${asset.serialNumber} registered`,
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof AssetError || (error instanceof Error && error.name === 'ValidationError')) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if ((error as any)?.code === 11000) {
+      const response: ApiResponse = { success: false, error: 'A unit with this serial number already exists' };
+      return NextResponse.json(response, { status: 409 });
+    }
+    logger.error('Error registering unit', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to register unit' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Product Availability API Route Handler
+ * Reports how many units of a product are free for a rental window
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import { logger } from '@/lib/logger';
+import { getAvailability, getAvailabilitySchedule, AvailabilityGranularity } from '@/lib/availability';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/products/[id]/availability?start=&end=&quantity=&granularity=
+ * Free and booked units for the window, plus a per hour or per day schedule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const start = new Date(searchParams.get('start') || '');
+    const end = new Date(searchParams.get('end') || '');
+    const quantity = Math.max(1, parseInt(searchParams.get('quantity') || '1') || 1);
+    const granularity: AvailabilityGranularity = searchParams.get('granularity') === 'hour' ? 'hour' : 'day';
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid product ID',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Valid start and end dates are required, with end after start',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await connectDB();
+
+    const product = await Product.findById(params.id).select('name');
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const [availability, schedule] = await Promise.all([
+      getAvailability(params.id, start, end, quantity),
+      getAvailabilitySchedule(params.id, start, end, granularity),
+    ]);
+
+    logger.http('GET /api/products/[id]/availability', {
+      productId: params.id,
+      free: availability.free,
+      requested: quantity,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...availability,
+        granularity,
+        slots: schedule.slots,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error checking product availability', { error, productId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to check availability',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Product Labels API Route Handler
+ * Printable label sheet of a product's barcodes as a PDF (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import Asset from '@/models/Asset';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { isEncodable, productLabelCode, unitLabelCode } from '@/lib/barcode';
+import { LabelData, MAX_LABELS, renderLabelSheet } from '@/lib/labelPdf';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/products/[id]/labels?copies=&assetIds=
+ * One label per unit in service, or per listed unit (assetIds, comma separated).
+ * Products without units, or with copies given, get that many product labels,
+ * one per owned unit by default.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const product = mongoose.Types.ObjectId.isValid(params.id) ? await Product.findById(params.id) : null;
+    if (!product) {
+      const response: ApiResponse = { success: false, error: 'Product not found' };
+      return NextResponse.json(response, { status: 404 });
+    }
+    if (product.endUserId.toString() !== session.user.id) {
+      const response: ApiResponse = { success: false, error: 'Unauthorized. You can only print labels of your own products.' };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const copies = searchParams.get('copies');
+    const assetIds = (searchParams.get('assetIds') || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => mongoose.Types.ObjectId.isValid(id));
+
+    const assets = copies
+      ? []
+      : await Asset.find({
+          productId: product._id,
+          ...(assetIds.length ? { _id: { $in: assetIds } } : { status: { $ne: 'retired' } }),
+        }).sort({ serialNumber: 1 });
+
+    let labels: LabelData[];
+    if (assets.length > 0) {
+      labels = assets
+        .filter((asset) => isEncodable(unitLabelCode(asset.serialNumber)))
+        .map((asset) => ({ code: unitLabelCode(asset.serialNumber), title: product.name, subtitle: `S/N ${asset.serialNumber}` }));
+    } else {
+      const count = Math.min(MAX_LABELS, Math.max(1, parseInt(copies || '') || product.quantityAvailable || 1));
+      labels = Array.from({ length: count }, () => ({
+        code: productLabelCode(product._id.toString()),
+        title: product.name,
+        subtitle: product.category,
+      }));
+    }
+
+    const pdf = renderLabelSheet(labels);
+    const fileName = `labels-${product.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`;
+
+    logger.http('GET /api/products/[id]/labels', { productId: params.id, user: session.user.email, labels: labels.length });
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('Error rendering product labels', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to render labels' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Product Maintenance Record API Route Handler
+ * Start, complete, cancel or reschedule one maintenance record and keep its
+ * cost (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import Maintenance from '@/models/Maintenance';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { MaintenanceError, toMaintenanceSummary, updateMaintenance } from '@/lib/maintenance';
+import { InvalidMaintenanceTransitionError, MAINTENANCE_STATUS_LABELS } from '@/lib/maintenanceStatus';
+import { ApiResponse } from '@/types';
+
+/**
+ * PATCH /api/products/[id]/maintenance/[maintenanceId]
+ * Update maintenance ({ status, startDate, endDate, cost, notes, title, condition })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; maintenanceId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const valid = mongoose.Types.ObjectId.isValid(params.id) && mongoose.Types.ObjectId.isValid(params.maintenanceId);
+    const [product, maintenance] = valid
+      ? await Promise.all([
+          Product.findById(params.id),
+          Maintenance.findOne({ _id: params.maintenanceId, productId: params.id }),
+        ])
+      : [null, null];
+    if (!product || !maintenance) {
+      const response: ApiResponse = { success: false, error: 'Maintenance not found' };
+      return NextResponse.json(response, { status: 404 });
+    }
+    if (product.endUserId.toString() !== session.user.id) {
+      const response: ApiResponse = { success: false, error: 'Unauthorized. You can only maintain your own products.' };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const previousStatus = maintenance.status;
+    await updateMaintenance(maintenance, product, body, { id: session.user.id, name: session.user.name });
+
+    logger.http('PATCH /api/products/[id]/maintenance/[maintenanceId]', {
+      maintenanceId: params.maintenanceId,
+      user: session.user.email,
+      status: maintenance.status,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: toMaintenanceSummary(maintenance, product.name),
+      message: maintenance.status !== previousStatus
+        ? `${maintenance.title} ${MAINTENANCE_STATUS_LABELS[maintenance.status].toLowerCase()}`
+        : 'Maintenance updated',
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if (error instanceof InvalidMaintenanceTransitionError || error instanceof MaintenanceError) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 409 });
+    }
+    logger.error('Error updating maintenance', { error, maintenanceId: params.maintenanceId });
+
+    const response: ApiResponse = { success: false, error: 'Failed to update maintenance' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
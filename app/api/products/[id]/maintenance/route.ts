@@ -0,0 +1,163 @@
+/**
+ * Product Maintenance API Route Handler
+ * Maintenance of a product and its units: list it, schedule it and set the
+ * plans that schedule it after rentals (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import Asset from '@/models/Asset';
+import Maintenance from '@/models/Maintenance';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { toAssetSummary } from '@/lib/assets';
+import { MaintenanceError, createMaintenance, normalizeMaintenancePlans, toMaintenanceSummary } from '@/lib/maintenance';
+import { MAINTENANCE_STATUSES } from '@/lib/maintenanceStatus';
+import { ApiResponse } from '@/types';
+
+// The signed-in end user's product, or the response to send instead
+async function loadOwnedProduct(productId: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'enduser') {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+    return { error: NextResponse.json(response, { status: 401 }) };
+  }
+
+  await connectDB();
+
+  const product = mongoose.Types.ObjectId.isValid(productId) ? await Product.findById(productId) : null;
+  if (!product) {
+    const response: ApiResponse = { success: false, error: 'Product not found' };
+    return { error: NextResponse.json(response, { status: 404 }) };
+  }
+  if (product.endUserId.toString() !== session.user.id) {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. You can only maintain your own products.' };
+    return { error: NextResponse.json(response, { status: 403 }) };
+  }
+
+  return { product, session };
+}
+
+/**
+ * GET /api/products/[id]/maintenance?status=
+ * Maintenance of the product, newest start first, with its plans and units
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const query: any = { productId: product._id };
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && (MAINTENANCE_STATUSES as string[]).includes(status)) {
+      query.status = status;
+    }
+    const [records, assets] = await Promise.all([
+      Maintenance.find(query).sort({ startDate: -1 }).limit(200),
+      Asset.find({ productId: product._id, status: { $ne: 'retired' } }).sort({ serialNumber: 1 }),
+    ]);
+
+    logger.http('GET /api/products/[id]/maintenance', { productId: params.id, user: session.user.email, count: records.length });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        productId: product._id.toString(),
+        productName: product.name,
+        owned: product.quantityAvailable,
+        plans: (product.maintenancePlans || []).map((plan: any) => ({ ...plan.toObject(), _id: plan._id.toString() })),
+        assets: assets.map((asset) => toAssetSummary(asset, product.name)),
+        records: records.map((m) => toMaintenanceSummary(m, product.name)),
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching maintenance', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to load maintenance' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/products/[id]/maintenance
+ * Schedule maintenance ({ type, title, notes, startDate, endDate, quantity, cost, assetId })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    const maintenance = await createMaintenance(product, body, { id: session.user.id, name: session.user.name });
+
+    const response: ApiResponse = {
+      success: true,
+      data: toMaintenanceSummary(maintenance, product.name),
+      message: `${maintenance.title} scheduled`,
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if (error instanceof MaintenanceError) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 409 });
+    }
+    logger.error('Error scheduling maintenance', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to schedule maintenance' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/products/[id]/maintenance
+ * Replace the product's maintenance plans ({ maintenancePlans })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    product.set('maintenancePlans', normalizeMaintenancePlans(body?.maintenancePlans));
+    await product.save();
+
+    logger.info('Maintenance plans updated', {
+      productId: params.id,
+      plans: product.maintenancePlans?.length || 0,
+      updatedBy: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: (product.maintenancePlans || []).map((plan: any) => ({ ...plan.toObject(), _id: plan._id.toString() })),
+      message: 'Maintenance plans saved',
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof MaintenanceError || (error instanceof Error && error.name === 'ValidationError')) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    logger.error('Error saving maintenance plans', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to save maintenance plans' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -7,13 +7,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Product from '@/models/Product';
+import PriceList from '@/models/PriceList';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { withPriceList } from '@/lib/priceLists';
+import { normalizeTurnaroundBuffer } from '@/lib/turnaround';
+import { normalizeRentalConstraints } from '@/lib/rentalConstraints';
+import { reconcileStock } from '@/lib/stock';
 import { ApiResponse } from '@/types';
 
 /**
  * GET /api/products/[id]
- * Fetch a single product by ID
+ * Fetch a single product by ID, at the signed-in customer's price list rates if they have one
  */
 export async function GET(
   request: NextRequest,
@@ -35,11 +40,16 @@ export async function GET(
       return NextResponse.json(response, { status: 404 });
     }
 
-    logger.http('GET /api/products/[id]', { productId: params.id, name: product.name });
+    const session = await getServerSession(authOptions);
+    const priceList = session?.user?.role === 'customer'
+      ? await PriceList.forCustomer(product.endUserId, session.user.email || undefined)
+      : undefined;
+
+    logger.http('GET /api/products/[id]', { productId: params.id, name: product.name, priceList: priceList?.name });
 
     const response: ApiResponse = {
       success: true,
-      data: product,
+      data: priceList ? withPriceList(product.toObject(), priceList) : product,
     };
 
     return NextResponse.json(response);
@@ -111,6 +121,12 @@ export async function PUT(
       { new: true, runValidators: true }
     );
 
+    // Quantity edited on the product form is recorded in the stock ledger
+    if (product && product.quantityAvailable !== existingProduct.quantityAvailable) {
+      const actor = { id: session.user.id, name: session.user.name || session.user.email || undefined };
+      await reconcileStock(product, actor, 'Quantity changed on the product form');
+    }
+
     logger.info('Product updated', {
       productId: params.id,
       name: product.name,
@@ -230,6 +246,35 @@ export async function PATCH(
     if (body.pricePerYear !== undefined) {
       updateFields.pricePerYear = parseFloat(body.pricePerYear) || undefined;
     }
+    if (body.replacementValue !== undefined) {
+      updateFields.replacementValue = parseFloat(body.replacementValue) || undefined;
+    }
+    // null clears the override so the business late fee policy applies
+    if (body.lateFeePolicy !== undefined) {
+      updateFields.lateFeePolicy = body.lateFeePolicy || null;
+    }
+    // null clears the override so the business's buffer for the category applies
+    if (body.turnaroundBuffer !== undefined) {
+      updateFields.turnaroundBuffer = body.turnaroundBuffer
+        ? normalizeTurnaroundBuffer(body.turnaroundBuffer) || { beforeHours: 0, afterHours: 0 }
+        : null;
+    }
+    // null or all blank lifts every limit
+    if (body.rentalConstraints !== undefined) {
+      updateFields.rentalConstraints = normalizeRentalConstraints(body.rentalConstraints);
+    }
+    if (body.depositRule !== undefined) {
+      updateFields.depositRule = body.depositRule?.type && body.depositRule.type !== 'none'
+        ? { type: body.depositRule.type, amount: parseFloat(body.depositRule.amount) || 0 }
+        : null;
+    }
+    // Blank values fall back to SAC 9973 at 18%
+    if (body.hsnSacCode !== undefined) {
+      updateFields.hsnSacCode = body.hsnSacCode ? String(body.hsnSacCode).trim() : null;
+    }
+    if (body.gstRate !== undefined) {
+      updateFields.gstRate = body.gstRate === '' || body.gstRate === null ? null : parseFloat(body.gstRate);
+    }
     
     const product = await Product.findByIdAndUpdate(
       params.id,
@@ -237,6 +282,12 @@ export async function PATCH(
       { new: true, runValidators: true }
     );
 
+    // Quantity edited on the product form is recorded in the stock ledger
+    if (product && product.quantityAvailable !== existingProduct.quantityAvailable) {
+      const actor = { id: session.user.id, name: session.user.name || session.user.email || undefined };
+      await reconcileStock(product, actor, 'Quantity changed on the product form');
+    }
+
     logger.info('Product updated', {
       productId: params.id,
       name: product?.name,
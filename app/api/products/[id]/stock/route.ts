@@ -0,0 +1,154 @@
+/**
+ * Product Stock API Route Handler
+ * Stock overview and ledger history of a product, stock adjustments and the
+ * minimum/maximum stock levels (owning end user only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { StockError, adjustStock, getStockOverview, normalizeStockLevels, toStockMovementSummary } from '@/lib/stock';
+import { ApiResponse } from '@/types';
+
+// The signed-in end user's product, or the response to send instead
+async function loadOwnedProduct(productId: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'enduser') {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. Business owner access required.' };
+    return { error: NextResponse.json(response, { status: 401 }) };
+  }
+
+  await connectDB();
+
+  const product = mongoose.Types.ObjectId.isValid(productId) ? await Product.findById(productId) : null;
+  if (!product) {
+    const response: ApiResponse = { success: false, error: 'Product not found' };
+    return { error: NextResponse.json(response, { status: 404 }) };
+  }
+  if (product.endUserId.toString() !== session.user.id) {
+    const response: ApiResponse = { success: false, error: 'Unauthorized. You can only manage stock of your own products.' };
+    return { error: NextResponse.json(response, { status: 403 }) };
+  }
+
+  return { product, session };
+}
+
+/**
+ * GET /api/products/[id]/stock?limit=
+ * Owned, reserved and free units, the stock levels and the latest ledger entries
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const limit = Math.min(200, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50));
+    const overview = await getStockOverview(product, limit);
+
+    logger.http('GET /api/products/[id]/stock', { productId: params.id, user: session.user.email, owned: overview.owned });
+
+    const response: ApiResponse = { success: true, data: overview };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching product stock', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to load stock' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/products/[id]/stock
+ * Increase, decrease or write off units ({ type, quantity, reason })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    const actor = { id: session.user.id, name: session.user.name || session.user.email || undefined };
+    const { movement } = await adjustStock(
+      product,
+      { type: body?.type, quantity: body?.quantity, reason: typeof body?.reason === 'string' ? body.reason : undefined },
+      actor
+    );
+
+    logger.http('POST /api/products/[id]/stock', {
+      productId: params.id,
+      type: movement.type,
+      quantity: movement.quantity,
+      user: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: toStockMovementSummary(movement),
+      message: `Stock is now ${movement.balance} units`,
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof StockError) {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    logger.error('Error adjusting product stock', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to adjust stock' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/products/[id]/stock
+ * Set the minimum and maximum stock levels ({ stockLevels: { minimum, maximum } }); null clears them
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { product, session, error } = await loadOwnedProduct(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => ({}));
+    product.stockLevels = normalizeStockLevels(body?.stockLevels) || undefined;
+    await product.save();
+
+    logger.info('Stock levels updated', {
+      productId: params.id,
+      stockLevels: product.stockLevels,
+      updatedBy: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: await getStockOverview(product),
+      message: 'Stock levels updated',
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = { success: false, error: error.message };
+      return NextResponse.json(response, { status: 400 });
+    }
+    logger.error('Error updating stock levels', { error, productId: params.id });
+
+    const response: ApiResponse = { success: false, error: 'Failed to update stock levels' };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
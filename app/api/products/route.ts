@@ -7,14 +7,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Product from '@/models/Product';
+import PriceList from '@/models/PriceList';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { withPriceList } from '@/lib/priceLists';
+import { reconcileStock } from '@/lib/stock';
 import { ApiResponse } from '@/types';
 
 /**
  * GET /api/products
  * Fetch products with optional filtering
- * For customers: shows all available products
+ * For customers: shows all available products, at their price list rates where a business gives them one
  * For business owners: shows only their products
  */
 export async function GET(request: NextRequest) {
@@ -74,6 +77,17 @@ export async function GET(request: NextRequest) {
       products = await Product.find(query).populate('endUserId', 'name companyName').sort({ createdAt: -1 });
     }
 
+    // Signed-in customers see the rates of their price lists in place of the public ones
+    if (session?.user?.role === 'customer') {
+      const priceLists = await PriceList.forCustomerByBusiness(session.user.email || undefined);
+      if (priceLists.size > 0) {
+        products = products.map((product: any) => {
+          const endUserId = (product.endUserId?._id || product.endUserId)?.toString();
+          return withPriceList(product.toObject(), priceLists.get(endUserId));
+        });
+      }
+    }
+
     logger.http('GET /api/products', { 
       count: products.length,
       filters: { category, search, available, minPrice, maxPrice, myProducts },
@@ -138,6 +152,8 @@ export async function POST(request: NextRequest) {
       quantityAvailable,
       units,
       availability = true,
+      hsnSacCode,
+      gstRate,
     } = body;
 
     // Validate required fields
@@ -194,10 +210,19 @@ export async function POST(request: NextRequest) {
     if (pricePerYear && pricePerYear > 0) {
       productData.pricePerYear = parseFloat(pricePerYear);
     }
+    if (hsnSacCode) {
+      productData.hsnSacCode = String(hsnSacCode).trim();
+    }
+    if (gstRate !== undefined && gstRate !== '') {
+      productData.gstRate = parseFloat(gstRate);
+    }
 
     const product = new Product(productData);
 
     await product.save();
+    // The starting quantity opens the product's stock ledger
+    const actor = { id: session.user.id, name: session.user.name || session.user.email || undefined };
+    await reconcileStock(product, actor);
 
     logger.info('New product created', {
       productId: product._id,
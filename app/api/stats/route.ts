@@ -80,10 +80,12 @@ export async function GET(request: NextRequest) {
         endDate: { $gte: new Date() }
       }),
 
-      // Late returns
+      // Late returns (flagged by the scheduler, or overdue since its last run)
       Booking.countDocuments({
-        status: 'confirmed',
-        endDate: { $lt: new Date() }
+        $or: [
+          { status: 'late' },
+          { status: 'confirmed', endDate: { $lt: new Date() } },
+        ],
       }),
 
       // Monthly revenue breakdown
@@ -1,6 +1,7 @@
 /**
  * Cart/Review Order Page
- * Shows cart items, allows quantity adjustment, and proceeds to checkout
+ * Shows the customer's server cart with how long each line's units are held,
+ * allows quantity adjustment, and proceeds to checkout
  */
 'use client';
 
@@ -14,11 +15,16 @@ import {
   Minus, 
   Heart, 
   Trash2, 
-  ChevronRight 
+  ChevronRight,
+  Clock
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { OrderTotals, toQuoteItem } from '@/lib/pricing';
+import { CartResponse, fetchCart, removeCartLine, updateCartLine } from '@/lib/cartClient';
+import { CartLine } from '@/types';
 
 interface CartItem {
+  id: string; // Server cart line
   productId: string;
   name: string;
   image: string;
@@ -30,6 +36,37 @@ interface CartItem {
   totalPrice: number;
   endUserId?: string; // Include endUserId for order tracking
   pricePerDay?: number; // For backward compatibility with older cart items
+  held: boolean;
+  holdExpiresAt?: string;
+}
+
+// Server cart lines, priced later by the quote
+function toCartItems(lines: CartLine[]): CartItem[] {
+  return lines.map((line) => ({
+    id: line._id,
+    productId: line.productId,
+    name: line.productName,
+    image: line.image || '',
+    quantity: line.quantity,
+    duration: '',
+    fromDate: line.startDate,
+    toDate: line.endDate,
+    pricePerUnit: 0,
+    totalPrice: 0,
+    endUserId: line.endUserId,
+    held: line.held,
+    holdExpiresAt: line.holdExpiresAt,
+  }));
+}
+
+// Ask the server to price the cart, optionally with a coupon
+async function fetchQuote(items: CartItem[], coupon: string) {
+  const response = await fetch('/api/pricing/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items: items.map(toQuoteItem), couponCode: coupon || undefined }),
+  });
+  return response.json();
 }
 
 export default function CartPage() {
@@ -39,7 +76,8 @@ export default function CartPage() {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [couponCode, setCouponCode] = useState('');
-  const [discount, setDiscount] = useState(0);
+  const [appliedCoupon, setAppliedCoupon] = useState('');
+  const [pricing, setPricing] = useState<OrderTotals | null>(null);
 
   // Redirect if not customer
   useEffect(() => {
@@ -49,49 +87,89 @@ export default function CartPage() {
     }
   }, [session, status, router]);
 
-  // Load cart from localStorage
+  // Load the server cart, which also re-holds lines whose hold lapsed
   useEffect(() => {
-    try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      setCartItems(cart);
-    } catch (error) {
-      console.error('Error loading cart:', error);
-    } finally {
-      setLoading(false);
+    if (status !== 'authenticated') return;
+    fetchCart()
+      .then((json) => {
+        if (json.success) {
+          setCartItems(toCartItems(json.data?.items || []));
+        } else {
+          toast.error(json.error || 'Failed to load cart');
+        }
+      })
+      .catch((error) => console.error('Error loading cart:', error))
+      .finally(() => setLoading(false));
+  }, [status]);
+
+  // Reprice whenever the cart changes
+  useEffect(() => {
+    if (cartItems.length === 0) {
+      setPricing(null);
+      return;
     }
-  }, []);
 
-  // Update cart in localStorage
-  const updateCart = (newCart: CartItem[]) => {
-    setCartItems(newCart);
-    localStorage.setItem('cart', JSON.stringify(newCart));
-    
-    // Dispatch custom event to update cart count in navbar
-    window.dispatchEvent(new Event('cartUpdated'));
+    let cancelled = false;
+    fetchQuote(cartItems, appliedCoupon)
+      .then((data) => {
+        if (cancelled) return;
+        if (data.success) {
+          setPricing(data.data.totals);
+          // Keep the displayed line prices in step with the server
+          const repriced = cartItems.map((item, index) => ({
+            ...item,
+            duration: data.data.lines[index].durationUnit,
+            pricePerUnit: data.data.lines[index].unitPrice,
+            totalPrice: data.data.lines[index].lineTotal,
+          }));
+          if (repriced.some((item, index) => item.totalPrice !== cartItems[index].totalPrice)) {
+            setCartItems(repriced);
+          }
+        } else if (data.reason && appliedCoupon) {
+          // The cart no longer qualifies for the coupon; reprice without it
+          setAppliedCoupon('');
+          toast.error(data.error);
+        } else {
+          setPricing(null);
+          toast.error(data.error || 'Failed to price cart');
+        }
+      })
+      .catch((error) => console.error('Error pricing cart:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartItems, appliedCoupon]);
+
+  // Show the cart the server returned; line totals are refreshed by the server quote
+  const applyCartResponse = (json: CartResponse) => {
+    if (!json.success) {
+      toast.error(json.error || 'Failed to update cart');
+      return false;
+    }
+    setCartItems(toCartItems(json.data?.items || []));
+    return true;
   };
 
-  // Update quantity
-  const updateQuantity = (index: number, newQuantity: number) => {
+  // Update quantity, holding the extra units on the server
+  const updateQuantity = async (index: number, newQuantity: number) => {
     if (newQuantity < 1) return;
-    
-    const updatedCart = [...cartItems];
-    updatedCart[index].quantity = newQuantity;
-    
-    // Recalculate total price based on available price information
-    if (updatedCart[index].pricePerUnit) {
-      updatedCart[index].totalPrice = updatedCart[index].pricePerUnit * newQuantity;
-    } else if (updatedCart[index].pricePerDay) {
-      updatedCart[index].totalPrice = updatedCart[index].pricePerDay * newQuantity;
+    try {
+      applyCartResponse(await updateCartLine(cartItems[index].id, { quantity: newQuantity }));
+    } catch (error) {
+      toast.error('Failed to update quantity');
     }
-    
-    updateCart(updatedCart);
   };
 
-  // Remove item from cart
-  const removeItem = (index: number) => {
-    const updatedCart = cartItems.filter((_, i) => i !== index);
-    updateCart(updatedCart);
-    toast.success('Item removed from cart');
+  // Remove item from cart, releasing its hold
+  const removeItem = async (index: number) => {
+    try {
+      if (applyCartResponse(await removeCartLine(cartItems[index].id))) {
+        toast.success('Item removed from cart');
+      }
+    } catch (error) {
+      toast.error('Failed to remove item');
+    }
   };
 
   // Move to wishlist
@@ -112,37 +190,41 @@ export default function CartPage() {
   };
 
   // Apply coupon
-  const applyCoupon = () => {
+  const applyCoupon = async () => {
     if (!couponCode.trim()) {
       toast.error('Please enter a coupon code');
       return;
     }
     
-    // Mock coupon validation
-    const validCoupons: { [key: string]: number } = {
-      'SAVE10': 10,
-      'WELCOME20': 20,
-      'DISCOUNT15': 15
-    };
-    
-    const discountPercent = validCoupons[couponCode.toUpperCase()];
-    if (discountPercent) {
-      setDiscount(discountPercent);
-      toast.success(`Coupon applied! ${discountPercent}% discount`);
-    } else {
-      toast.error('Invalid coupon code');
+    // Coupons are validated by the server quote
+    try {
+      const data = await fetchQuote(cartItems, couponCode.trim());
+      if (data.success && data.data.coupon) {
+        setAppliedCoupon(data.data.couponCode);
+        toast.success(`Coupon applied! ₹${data.data.coupon.discount.toFixed(2)} off`);
+      } else {
+        // The server says why the coupon was turned down
+        toast.error(data.error || 'Invalid coupon code');
+      }
+    } catch (error) {
+      toast.error('Failed to apply coupon');
     }
   };
 
-  // Calculate totals
-  const subtotal = cartItems.reduce((sum, item) => {
-    const itemPrice = item.totalPrice || (item.pricePerDay || 0) * (item.quantity || 1);
-    return sum + itemPrice;
-  }, 0);
-  const discountAmount = (subtotal * discount) / 100;
-  const deliveryCharge = 0; // Free delivery as shown in wireframe
-  const tax = Math.round(subtotal * 0.01); // 1% tax
-  const total = subtotal - discountAmount + deliveryCharge + tax;
+  const removeCoupon = () => {
+    setAppliedCoupon('');
+    setCouponCode('');
+  };
+
+  // Totals from the server quote
+  const subtotal = pricing?.subtotal || 0;
+  const discount = pricing?.discountPercent || 0;
+  const discountAmount = pricing?.discount || 0;
+  const deliveryCharge = pricing?.deliveryCharge || 0;
+  const tax = pricing?.tax || 0;
+  const total = pricing?.total || 0;
+  const deposit = pricing?.deposit || 0;
+  const amountPayable = pricing?.amountPayable ?? total;
 
   // Proceed to checkout
   const proceedToCheckout = () => {
@@ -150,6 +232,16 @@ export default function CartPage() {
       toast.error('Your cart is empty');
       return;
     }
+
+    if (!pricing) {
+      toast.error('Cart prices are still loading');
+      return;
+    }
+
+    if (cartItems.some((item) => !item.held)) {
+      toast.error('Some items are no longer available for their dates. Remove them to continue.');
+      return;
+    }
     
     // Store checkout data
     const checkoutData = {
@@ -157,11 +249,16 @@ export default function CartPage() {
       pricing: {
         subtotal,
         discount: discountAmount,
+        discountPercent: discount,
         deliveryCharge,
         tax,
-        total
+        total,
+        deposit,
+        amountPayable
       },
-      couponCode: discount > 0 ? couponCode : ''
+      couponCode: appliedCoupon,
+      // Sent as the Idempotency-Key when the order is created, so retries reuse it
+      checkoutKey: crypto.randomUUID()
     };
     
     localStorage.setItem('checkoutData', JSON.stringify(checkoutData));
@@ -208,7 +305,7 @@ export default function CartPage() {
               
               <div className="space-y-6">
                 {cartItems.map((item, index) => (
-                  <div key={index} className="bg-white border border-gray-200 rounded-lg p-6">
+                  <div key={item.id} className="bg-white border border-gray-200 rounded-lg p-6">
                     <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-4 sm:space-y-0 sm:space-x-6">
                       {/* Product Image */}
                       <div className="relative w-24 h-24 flex-shrink-0">
@@ -230,10 +327,18 @@ export default function CartPage() {
                         </p>
                         <div className="text-sm text-gray-600 space-y-1">
                           {item.duration && <p>Duration: {item.duration}</p>}
-                          {item.fromDate && item.toDate && <p>From: {item.fromDate} To: {item.toDate}</p>}
+                          {item.fromDate && item.toDate && (
+                            <p>From: {new Date(item.fromDate).toLocaleDateString()} To: {new Date(item.toDate).toLocaleDateString()}</p>
+                          )}
                           {item.pricePerUnit && item.duration && <p>Rate: ₹{item.pricePerUnit}/{item.duration}</p>}
                           {!item.duration && <p>Price: ₹{item.pricePerDay || 0}/day</p>}
                         </div>
+                        <p className={`mt-2 flex items-center text-xs ${item.held ? 'text-green-700' : 'text-red-600'}`}>
+                          <Clock className="h-3 w-3 mr-1" />
+                          {item.held && item.holdExpiresAt
+                            ? `Reserved for you until ${new Date(item.holdExpiresAt).toLocaleTimeString()}`
+                            : 'No longer available for these dates'}
+                        </p>
                       </div>
 
                       {/* Quantity Controls */}
@@ -292,9 +397,9 @@ export default function CartPage() {
                     <span>₹{subtotal.toFixed(2)}</span>
                   </div>
                   
-                  {discount > 0 && (
+                  {discountAmount > 0 && (
                     <div className="flex justify-between text-green-600">
-                      <span>Discount ({discount}%)</span>
+                      <span>Discount ({appliedCoupon}{discount > 0 ? `, ${discount}%` : ''})</span>
                       <span>-₹{discountAmount.toFixed(2)}</span>
                     </div>
                   )}
@@ -317,6 +422,19 @@ export default function CartPage() {
                       <span>₹{total.toFixed(2)}</span>
                     </div>
                   </div>
+
+                  {deposit > 0 && (
+                    <>
+                      <div className="flex justify-between text-gray-600">
+                        <span>Refundable Deposit</span>
+                        <span>₹{deposit.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold text-gray-900">
+                        <span>Pay Now</span>
+                        <span>₹{amountPayable.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 {/* Apply Coupon */}
@@ -339,6 +457,14 @@ export default function CartPage() {
                       Apply
                     </button>
                   </div>
+                  {appliedCoupon && (
+                    <div className="flex justify-between items-center mt-2 text-sm text-green-700">
+                      <span>Coupon {appliedCoupon} applied</span>
+                      <button onClick={removeCoupon} className="text-gray-500 hover:text-red-600">
+                        Remove
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Proceed to Checkout */}
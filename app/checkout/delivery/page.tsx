@@ -19,23 +19,59 @@ declare global {
 import { 
   ChevronRight, 
   ChevronLeft, 
-  ChevronDown 
+  ChevronDown,
+  Clock
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { DELIVERY_METHODS, toQuoteItem } from '@/lib/pricing';
+import { formatSlotTime, istDate } from '@/lib/handoverSchedule';
+import { setCartHandovers } from '@/lib/cartClient';
+import { HandoverSlot } from '@/types';
 
 interface CheckoutData {
   items: any[];
   pricing: {
     subtotal: number;
     discount: number;
+    discountPercent?: number;
     deliveryCharge: number;
     tax: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
     total: number;
+    deposit?: number;
+    amountPayable?: number;
   };
   couponCode: string;
+  checkoutKey?: string; // Idempotency key for this checkout, so a retry cannot create orders twice
   bookingId: string;
 }
 
+// Slots a business offers on one day
+interface HandoverDay {
+  enabled: boolean;
+  openingHours: string[];
+  closedFor?: string;
+  slots: HandoverSlot[];
+}
+
+// Pickup and return picked for the cart lines of one business
+interface BusinessHandover {
+  endUserId: string;
+  products: string[];
+  pickupDay: string;
+  returnDay: string;
+  pickup: HandoverDay;
+  return: HandoverDay;
+  pickupAt?: string;
+  returnAt?: string;
+}
+
+// The slot a time already falls in, so a choice made earlier stays selected
+const slotFor = (slots: HandoverSlot[], time: string) =>
+  slots.find((slot) => slot.start <= new Date(time).toISOString() && new Date(time).toISOString() < slot.end)?.start;
+
 export default function DeliveryPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -62,11 +98,8 @@ export default function DeliveryPage() {
   });
   const [sameAsDelivery, setSameAsDelivery] = useState(true);
   const [selectedDeliveryMethod, setSelectedDeliveryMethod] = useState('');
-  const [deliveryMethods] = useState([
-    { id: 'standard', name: 'Standard Delivery', time: '3-5 days', price: 0 },
-    { id: 'express', name: 'Express Delivery', time: '1-2 days', price: 50 },
-    { id: 'same-day', name: 'Same Day Delivery', time: 'Same day', price: 100 }
-  ]);
+  const [handovers, setHandovers] = useState<BusinessHandover[]>([]);
+  const deliveryMethods = DELIVERY_METHODS;
 
   // Redirect if not customer
   useEffect(() => {
@@ -111,6 +144,90 @@ export default function DeliveryPage() {
     }
   }, [session, router]);
 
+  // Load the pickup and return slots of every business in the cart that schedules handovers
+  useEffect(() => {
+    if (!checkoutData) return;
+    const byBusiness = new Map<string, any[]>();
+    for (const item of checkoutData.items) {
+      if (!item.endUserId || !item.fromDate || !item.toDate) continue;
+      byBusiness.set(item.endUserId, [...(byBusiness.get(item.endUserId) || []), item]);
+    }
+
+    let cancelled = false;
+    const fetchDay = async (endUserId: string, date: string): Promise<HandoverDay | null> => {
+      const res = await fetch(`/api/handover-slots?${new URLSearchParams({ endUserId, date })}`);
+      const json = await res.json();
+      return json.success ? json.data : null;
+    };
+    const loadHandovers = async () => {
+      try {
+        const loaded = await Promise.all(Array.from(byBusiness.entries()).map(async ([endUserId, items]) => {
+          const pickupDay = items.map((item) => istDate(item.fromDate)).sort()[0];
+          const returnDay = items.map((item) => istDate(item.toDate)).sort().pop()!;
+          const [pickup, returns] = await Promise.all([fetchDay(endUserId, pickupDay), fetchDay(endUserId, returnDay)]);
+          if (!pickup?.enabled || !returns) return null;
+          const first = items.find((item) => istDate(item.fromDate) === pickupDay);
+          const last = items.find((item) => istDate(item.toDate) === returnDay);
+          return {
+            endUserId,
+            products: items.map((item) => item.name),
+            pickupDay,
+            returnDay,
+            pickup,
+            return: returns,
+            pickupAt: slotFor(pickup.slots, first.fromDate),
+            returnAt: slotFor(returns.slots, last.toDate),
+          } as BusinessHandover;
+        }));
+        if (!cancelled) setHandovers(loaded.filter((entry): entry is BusinessHandover => !!entry));
+      } catch (error) {
+        console.error('Error loading handover slots:', error);
+      }
+    };
+
+    loadHandovers();
+    return () => {
+      cancelled = true;
+    };
+  }, [checkoutData]);
+
+  const pickHandover = (endUserId: string, field: 'pickupAt' | 'returnAt', time: string) => {
+    setHandovers((prev) => prev.map((entry) => (entry.endUserId === endUserId ? { ...entry, [field]: time } : entry)));
+  };
+
+  // Move each business's cart lines to the picked slots, so the quote, the payment and
+  // the orders all use the handover times; returns the checkout data with the new times
+  const applyHandovers = async (): Promise<CheckoutData | null> => {
+    if (!checkoutData) return null;
+    const missing = handovers.find((entry) => !entry.pickupAt || !entry.returnAt);
+    if (missing) {
+      toast.error(`Please pick a pickup and a return time for ${missing.products.join(', ')}`);
+      return null;
+    }
+
+    let lines: any[] | undefined;
+    for (const entry of handovers) {
+      const result = await setCartHandovers(entry.endUserId, entry.pickupAt!, entry.returnAt!);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to set pickup and return times');
+        return null;
+      }
+      lines = result.data?.items;
+    }
+    if (!lines) return checkoutData;
+
+    const updated = {
+      ...checkoutData,
+      items: checkoutData.items.map((item) => {
+        const line = lines!.find((l) => l._id === item.id);
+        return line ? { ...item, fromDate: line.startDate, toDate: line.endDate } : item;
+      }),
+    };
+    setCheckoutData(updated);
+    localStorage.setItem('checkoutData', JSON.stringify(updated));
+    return updated;
+  };
+
   // Handle same as delivery toggle
   useEffect(() => {
     if (sameAsDelivery) {
@@ -146,6 +263,31 @@ export default function DeliveryPage() {
     return true;
   };
 
+  // Reprice the cart on the server with the chosen delivery method; the delivery
+  // state decides between CGST + SGST and IGST
+  const fetchPricing = async (data: CheckoutData | null = checkoutData) => {
+    const res = await axios.post('/api/pricing/quote', {
+      items: (data?.items || []).map(toQuoteItem),
+      couponCode: checkoutData?.couponCode || undefined,
+      deliveryMethod: selectedDeliveryMethod,
+      deliveryState: deliveryAddress.state || undefined,
+    });
+    const totals = res.data.data.totals;
+    return {
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      discountPercent: totals.discountPercent,
+      deliveryCharge: totals.deliveryCharge,
+      tax: totals.tax,
+      cgst: totals.cgst,
+      sgst: totals.sgst,
+      igst: totals.igst,
+      total: totals.total,
+      deposit: totals.deposit,
+      amountPayable: totals.amountPayable,
+    };
+  };
+
   const handleCheckout = async () => {
     if (!checkoutData) {
       toast.error('Order details not loaded yet.');
@@ -153,15 +295,13 @@ export default function DeliveryPage() {
     }
 
     try {
+      const scheduled = await applyHandovers();
+      if (!scheduled) return;
       const selectedMethod = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
-      const updatedPricing = {
-        ...checkoutData.pricing,
-        deliveryCharge: selectedMethod?.price || 0,
-        total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-      };
+      const updatedPricing = await fetchPricing(scheduled);
       
       const orderData = {
-        ...checkoutData,
+        ...scheduled,
         pricing: updatedPricing,
         addresses: {
           delivery: deliveryAddress,
@@ -170,7 +310,12 @@ export default function DeliveryPage() {
         deliveryMethod: selectedMethod
       };
 
-      const orderRes = await axios.post('/api/payments/order', { amount: orderData.pricing.total });
+      // Charged for the server cart, whose holds are renewed while the customer pays
+      const orderRes = await axios.post('/api/payments/order', {
+        couponCode: checkoutData.couponCode || undefined,
+        deliveryMethod: selectedDeliveryMethod,
+        deliveryState: deliveryAddress.state || undefined,
+      });
       const order = orderRes.data;
       const options: any = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
@@ -188,46 +333,26 @@ export default function DeliveryPage() {
             bookingId: checkoutData.bookingId
           });
           if ((verifyRes.data?.success ?? verifyRes.data?.ok) === true) {
-            // Build order snapshot and redirect to invoice success
-            const completeOrderData = {
-              orderNumber: `ORD-${Date.now().toString().slice(-6)}`,
-              orderDate: new Date().toLocaleDateString(),
-              customerPhone: deliveryAddress.phone || '',
-              deliveryAddress: deliveryAddress,
-              billingAddress: sameAsDelivery ? deliveryAddress : billingAddress,
-              items: checkoutData.items,
-              pricing: {
-                ...checkoutData.pricing,
-                deliveryCharge: selectedMethod?.price || 0,
-                total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-              },
-              paymentMethod: 'Razorpay',
-              deliveryMethod: selectedMethod,
-            } as any;
-
             try {
-              localStorage.setItem('orderData', JSON.stringify(completeOrderData));
-              // Consume inventory on server
-              await axios.post('/api/orders/complete', {
+              // Create the orders on the server; the Razorpay order makes a retry safe
+              const completed = await axios.post('/api/orders/complete', {
                 customer: { name: session?.user?.name, email: session?.user?.email },
-                items: (checkoutData.items || []).map((it: any) => ({
-                  productId: it.productId,
-                  quantity: it.quantity || 1,
-                  startDate: it.fromDate,
-                  endDate: it.toDate,
-                  durationUnit: it.duration,
-                  pricePerUnit: it.pricePerUnit,
-                  totalPrice: it.totalPrice,
-                  endUserId: it?.endUserId,
-                  deliveryAddress: deliveryAddress,
-                })),
+                // Order lines come from the server cart, where their units are held
+                deliveryAddress: deliveryAddress,
+                couponCode: checkoutData.couponCode || undefined,
+                deliveryMethod: selectedDeliveryMethod,
+                razorpayOrderId: response.razorpay_order_id,
+              }, {
+                headers: checkoutData.checkoutKey ? { 'Idempotency-Key': checkoutData.checkoutKey } : undefined,
               });
-              localStorage.removeItem('cart');
+              // Created orders carry their invoice numbers for the success page
+              localStorage.setItem('orderData', JSON.stringify({ orders: completed.data.orders }));
               localStorage.removeItem('checkoutData');
               window.dispatchEvent(new Event('cartUpdated'));
-            } catch (error) {
+            } catch (error: any) {
               console.error('Error calling /api/orders/complete:', error);
-              // Don't fail the checkout if inventory update fails, but log it
+              toast.error(error.response?.data?.error || 'Your payment was received but the order could not be placed. Please try again or contact support.');
+              return;
             }
             toast.success('Payment successful!');
             router.push('/orders/success');
@@ -245,7 +370,7 @@ export default function DeliveryPage() {
   };
 
   // Proceed to payment
-  const proceedToPayment = () => {
+  const proceedToPayment = async () => {
     if (!validateForm()) return;
     
     if (!checkoutData) {
@@ -253,15 +378,19 @@ export default function DeliveryPage() {
       return;
     }
     
+    const scheduled = await applyHandovers();
+    if (!scheduled) return;
     const selectedMethod = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
-    const updatedPricing = {
-      ...checkoutData.pricing,
-      deliveryCharge: selectedMethod?.price || 0,
-      total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-    };
+    let updatedPricing;
+    try {
+      updatedPricing = await fetchPricing(scheduled);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to price order');
+      return;
+    }
     
     const orderData = {
-      ...checkoutData,
+      ...scheduled,
       pricing: updatedPricing,
       addresses: {
         delivery: deliveryAddress,
@@ -521,6 +650,59 @@ export default function DeliveryPage() {
               )}
             </div>
 
+            {/* Pickup and return slots */}
+            {handovers.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center mb-4">
+                  <Clock className="h-5 w-5 text-gray-400 mr-2" />
+                  <h3 className="text-lg font-semibold text-gray-900">Pickup &amp; Return Times</h3>
+                </div>
+                <div className="space-y-6">
+                  {handovers.map((entry) => (
+                    <div key={entry.endUserId}>
+                      <p className="text-sm font-medium text-gray-900">{entry.products.join(', ')}</p>
+                      <p className="text-xs text-gray-500 mb-3">Open {entry.pickup.openingHours.join(' · ')}</p>
+                      {([
+                        ['pickupAt', 'Pickup', entry.pickupDay, entry.pickup],
+                        ['returnAt', 'Return', entry.returnDay, entry.return],
+                      ] as Array<['pickupAt' | 'returnAt', string, string, HandoverDay]>).map(([field, label, day, slots]) => (
+                        <div key={field} className="mb-3">
+                          <p className="text-sm text-gray-700 mb-2">
+                            {label} on {new Date(`${day}T00:00:00Z`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })}
+                          </p>
+                          {slots.slots.length === 0 ? (
+                            <p className="text-sm text-red-600">
+                              Closed{slots.closedFor ? ` for ${slots.closedFor}` : ''} that day. Change the rental dates in your cart.
+                            </p>
+                          ) : (
+                            <div className="flex flex-wrap gap-2">
+                              {slots.slots.map((slot) => (
+                                <button
+                                  key={slot.start}
+                                  type="button"
+                                  disabled={slot.free === 0}
+                                  onClick={() => pickHandover(entry.endUserId, field, slot.start)}
+                                  title={slot.free === null ? undefined : `${slot.free} left`}
+                                  className={`px-3 py-1 rounded-md text-sm border disabled:opacity-40 disabled:cursor-not-allowed ${
+                                    entry[field] === slot.start
+                                      ? 'bg-primary-800 text-white border-primary-800'
+                                      : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                                  }`}
+                                >
+                                  {formatSlotTime(slot.start)}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Rentals are charged from the pickup time to the return time.</p>
+              </div>
+            )}
+
             {/* Delivery Method */}
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Choose Delivery Method</h3>
@@ -577,9 +759,16 @@ export default function DeliveryPage() {
                 </div>
                 
                 <div className="flex justify-between text-red-600">
-                  <span>Taxes</span>
+                  <span>GST</span>
                   <span>₹{checkoutData.pricing.tax}</span>
                 </div>
+
+                {!!checkoutData.pricing.deposit && (
+                  <div className="flex justify-between text-gray-600">
+                    <span>Refundable Deposit</span>
+                    <span>₹{checkoutData.pricing.deposit.toFixed(2)}</span>
+                  </div>
+                )}
                 
                 <div className="border-t border-gray-200 pt-3">
                   <div className="flex justify-between text-lg font-bold text-red-600">
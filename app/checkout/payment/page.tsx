@@ -34,11 +34,18 @@ interface OrderData {
   pricing: {
     subtotal: number;
     discount: number;
+    discountPercent?: number;
     deliveryCharge: number;
     tax: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
     total: number;
+    deposit?: number;
+    amountPayable?: number;
   };
   couponCode: string;
+  checkoutKey?: string; // Idempotency key for this checkout, so a retry cannot create orders twice
   addresses: {
     delivery: any;
     billing: any;
@@ -197,6 +204,42 @@ export default function PaymentPage() {
     return true;
   };
 
+  // Create the orders for the server cart. On failure the customer stays on this page;
+  // on success the created orders, with their invoices, are kept for the success page.
+  const completeOrders = async (razorpayOrderId?: string) => {
+    if (!orderData) return false;
+    try {
+      const resp = await fetch('/api/orders/complete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(orderData.checkoutKey ? { 'Idempotency-Key': orderData.checkoutKey } : {}),
+        },
+        body: JSON.stringify({
+          customer: { name: session?.user?.name, email: session?.user?.email },
+          // Order lines come from the server cart, where their units are held
+          deliveryAddress: orderData.addresses?.delivery,
+          couponCode: orderData.couponCode || undefined,
+          deliveryMethod: orderData.deliveryMethod?.id,
+          razorpayOrderId,
+        }),
+      });
+      const result = await resp.json().catch(() => ({}));
+      if (!resp.ok || !result?.success) {
+        toast.error(result?.error || 'Your order could not be placed. Please try again.');
+        if (result?.refunded) {
+          toast.success(`Your payment of ₹${result.refunded} has been refunded`);
+        }
+        return false;
+      }
+      localStorage.setItem('orderData', JSON.stringify({ orders: result.orders }));
+      return true;
+    } catch {
+      toast.error('Your order could not be placed. Please try again.');
+      return false;
+    }
+  };
+
   // Process payment
   const processPayment = async () => {
     if (!validatePaymentForm()) return;
@@ -211,58 +254,9 @@ export default function PaymentPage() {
       // Simulate payment processing
       await new Promise(resolve => setTimeout(resolve, 2000));
       
-      // Create order in database (mock)
-      const orderPayload = {
-        items: orderData.items,
-        addresses: orderData.addresses,
-        deliveryMethod: orderData.deliveryMethod,
-        paymentMethod: selectedPaymentMethod,
-        pricing: orderData.pricing,
-        status: 'confirmed'
-      };
-      
-      // Save order data for invoice generation
-      const completeOrderData = {
-        orderNumber: `ORD-${Date.now().toString().slice(-6)}`,
-        orderDate: new Date().toLocaleDateString(),
-        customerPhone: orderData.addresses?.delivery?.phone || '',
-        deliveryAddress: orderData.addresses?.delivery || {},
-        billingAddress: orderData.addresses?.billing || orderData.addresses?.delivery || {},
-        items: orderData.items || [],
-        pricing: orderData.pricing || {},
-        paymentMethod: selectedPaymentMethod,
-        deliveryMethod: orderData.deliveryMethod || 'Standard Delivery'
-      };
-      
-      localStorage.setItem('orderData', JSON.stringify(completeOrderData));
-      // Consume inventory and create orders on server so stock/availability updates and dashboards populate
-      try {
-        const resp = await fetch('/api/orders/complete', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            customer: { name: session?.user?.name, email: session?.user?.email },
-            items: (orderData.items || []).map((it: any) => ({
-              productId: it.productId,
-              quantity: it.quantity || 1,
-              startDate: it.fromDate,
-              endDate: it.toDate,
-              durationUnit: it.duration,
-              pricePerUnit: it.pricePerUnit,
-              totalPrice: it.totalPrice,
-              endUserId: it?.endUserId,
-              deliveryAddress: orderData?.addresses?.delivery,
-            })),
-          }),
-        });
-        if (!resp.ok) {
-          const err = await resp.json().catch(()=>({error:'Inventory error'}));
-          toast.error(err.error || 'Inventory update failed');
-        }
-      } catch {}
-      
-      // Clear cart and checkout data
-      localStorage.removeItem('cart');
+      if (!(await completeOrders())) return;
+
+      // The server emptied the cart; clear checkout data
       localStorage.removeItem('checkoutData');
       // Broadcast cart update so Navbar badge refreshes immediately in this tab
       try {
@@ -271,7 +265,7 @@ export default function PaymentPage() {
         // no-op
       }
       
-      toast.success('Payment successful! Order confirmed');
+      toast.success('Order placed');
       router.push('/orders/success');
     } catch (error) {
       console.error('Payment error:', error);
@@ -292,10 +286,19 @@ export default function PaymentPage() {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ amount: orderData.pricing.total }),
+      // Charged for the server cart, whose holds are renewed while the customer pays
+      body: JSON.stringify({
+        couponCode: orderData.couponCode || undefined,
+        deliveryMethod: orderData.deliveryMethod?.id,
+        deliveryState: orderData.addresses?.delivery?.state || undefined,
+      }),
     });
 
     const order = await res.json();
+    if (!res.ok) {
+      toast.error(order.error || 'Failed to start payment');
+      return;
+    }
 
     const options = {
       key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
@@ -321,51 +324,9 @@ export default function PaymentPage() {
 
         const result = await verifyRes.json();
         if ((result.success ?? result.ok) === true) {
-          // Build invoice payload similar to card flow
-          const completeOrderData = {
-            orderNumber: `ORD-${Date.now().toString().slice(-6)}`,
-            orderDate: new Date().toLocaleDateString(),
-            customerPhone: orderData.addresses?.delivery?.phone || '',
-            deliveryAddress: orderData.addresses?.delivery || {},
-            billingAddress: orderData.addresses?.billing || orderData.addresses?.delivery || {},
-            items: orderData.items || [],
-            pricing: orderData.pricing || {},
-            paymentMethod: 'Razorpay',
-            deliveryMethod: orderData.deliveryMethod || 'Standard Delivery',
-          };
-
-          try {
-            localStorage.setItem('orderData', JSON.stringify(completeOrderData));
-            // Consume inventory and create orders (same as card flow)
-            try {
-              const resp = await fetch('/api/orders/complete', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  customer: { name: session?.user?.name, email: session?.user?.email },
-                  items: (orderData.items || []).map((it: any) => ({
-                    productId: it.productId,
-                    quantity: it.quantity || 1,
-                    startDate: it.fromDate,
-                    endDate: it.toDate,
-                    durationUnit: it.duration,
-                    pricePerUnit: it.pricePerUnit,
-                    totalPrice: it.totalPrice,
-                    endUserId: it?.endUserId,
-                    deliveryAddress: orderData?.addresses?.delivery,
-                  })),
-                }),
-              });
-              if (!resp.ok) {
-                // Surface inventory issues to the user
-                const err = await resp.json().catch(()=>({error:'Inventory error'}));
-                toast.error(err.error || 'Inventory update failed');
-              }
-            } catch {}
-            localStorage.removeItem('cart');
-            localStorage.removeItem('checkoutData');
-            window.dispatchEvent(new Event('cartUpdated'));
-          } catch {}
+          if (!(await completeOrders(response.razorpay_order_id))) return;
+          localStorage.removeItem('checkoutData');
+          window.dispatchEvent(new Event('cartUpdated'));
 
           toast.success('Payment successful!');
           router.push('/orders/success');
@@ -597,10 +558,28 @@ export default function PaymentPage() {
                   <span>₹{orderData.pricing.subtotal.toFixed(2)}</span>
                 </div>
                 
-                <div className="flex justify-between text-red-600">
-                  <span>Taxes</span>
-                  <span>₹{orderData.pricing.tax}</span>
-                </div>
+                {orderData.pricing.igst ? (
+                  <div className="flex justify-between text-red-600">
+                    <span>IGST</span>
+                    <span>₹{orderData.pricing.igst.toFixed(2)}</span>
+                  </div>
+                ) : orderData.pricing.cgst ? (
+                  <>
+                    <div className="flex justify-between text-red-600">
+                      <span>CGST</span>
+                      <span>₹{orderData.pricing.cgst.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-red-600">
+                      <span>SGST</span>
+                      <span>₹{(orderData.pricing.sgst || 0).toFixed(2)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex justify-between text-red-600">
+                    <span>GST</span>
+                    <span>₹{orderData.pricing.tax}</span>
+                  </div>
+                )}
                 
                 <div className="border-t border-gray-200 pt-3">
                   <div className="flex justify-between text-lg font-bold text-red-600">
@@ -608,6 +587,19 @@ export default function PaymentPage() {
                     <span>₹{orderData.pricing.total.toFixed(2)}</span>
                   </div>
                 </div>
+
+                {!!orderData.pricing.deposit && (
+                  <>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Refundable Deposit</span>
+                      <span>₹{orderData.pricing.deposit.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold text-gray-900">
+                      <span>Pay Now</span>
+                      <span>₹{(orderData.pricing.amountPayable ?? orderData.pricing.total).toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
               </div>
 
               {/* Apply Coupon */}
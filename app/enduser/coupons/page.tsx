@@ -0,0 +1,492 @@
+/**
+ * Enduser Coupons Page
+ * Create and manage the promotion codes customers can apply at checkout, and see
+ * how often each has been redeemed
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { Edit, Plus, Power, Save, Tag, Trash2, X } from 'lucide-react';
+import { CouponDiscountType, CouponSummary } from '@/types';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  value: string;
+  maxDiscount: string;
+  minRentalHours: string;
+  productIds: string[];
+  categories: string[];
+  firstOrderOnly: boolean;
+  usageLimit: string;
+  perCustomerLimit: string;
+  startsAt: string; // yyyy-mm-dd
+  endsAt: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  value: '',
+  maxDiscount: '',
+  minRentalHours: '0',
+  productIds: [],
+  categories: [],
+  firstOrderOnly: false,
+  usageLimit: '',
+  perCustomerLimit: '',
+  startsAt: '',
+  endsAt: '',
+  active: true,
+};
+
+const toDateInput = (iso?: string) => (iso ? iso.slice(0, 10) : '');
+
+function describeDiscount(coupon: CouponSummary) {
+  if (coupon.discountType === 'flat') return `₹${coupon.value} off`;
+  return `${coupon.value}% off${coupon.maxDiscount ? ` (up to ₹${coupon.maxDiscount})` : ''}`;
+}
+
+function describeValidity(coupon: CouponSummary) {
+  const format = (iso: string) => new Date(iso).toLocaleDateString();
+  if (coupon.startsAt && coupon.endsAt) return `${format(coupon.startsAt)} – ${format(coupon.endsAt)}`;
+  if (coupon.startsAt) return `From ${format(coupon.startsAt)}`;
+  if (coupon.endsAt) return `Until ${format(coupon.endsAt)}`;
+  return 'Always';
+}
+
+export default function EnduserCoupons() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [coupons, setCoupons] = useState<CouponSummary[]>([]);
+  const [products, setProducts] = useState<Array<{ _id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadCoupons();
+    loadProducts();
+  }, [session, status, router]);
+
+  const loadCoupons = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/enduser/coupons');
+      const json = await res.json();
+      if (json?.success) setCoupons(json.data || []);
+      else toast.error(json?.error || 'Failed to load coupons');
+    } catch { toast.error('Failed to load coupons'); } finally { setLoading(false); }
+  };
+
+  const loadProducts = async () => {
+    try {
+      const res = await fetch('/api/products?myProducts=true');
+      const json = await res.json();
+      if (json?.success) setProducts(json.data || []);
+    } catch { toast.error('Failed to load products'); }
+  };
+
+  const update = <K extends keyof CouponForm>(key: K, value: CouponForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleIn = (key: 'productIds' | 'categories', value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter((v) => v !== value) : [...prev[key], value],
+    }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEdit = (coupon: CouponSummary) => {
+    setEditingId(coupon._id);
+    setForm({
+      code: coupon.code,
+      description: coupon.description || '',
+      discountType: coupon.discountType,
+      value: String(coupon.value),
+      maxDiscount: coupon.maxDiscount ? String(coupon.maxDiscount) : '',
+      minRentalHours: String(coupon.minRentalHours || 0),
+      productIds: coupon.productIds,
+      categories: coupon.categories,
+      firstOrderOnly: coupon.firstOrderOnly,
+      usageLimit: coupon.usageLimit ? String(coupon.usageLimit) : '',
+      perCustomerLimit: coupon.perCustomerLimit ? String(coupon.perCustomerLimit) : '',
+      startsAt: toDateInput(coupon.startsAt),
+      endsAt: toDateInput(coupon.endsAt),
+      active: coupon.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !(parseFloat(form.value) > 0)) {
+      toast.error('A code and a discount value are required');
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await fetch(editingId ? `/api/enduser/coupons/${editingId}` : '/api/enduser/coupons', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          value: parseFloat(form.value),
+          maxDiscount: form.discountType === 'percent' ? form.maxDiscount : '',
+          minRentalHours: parseInt(form.minRentalHours) || 0,
+          // Coupons run from the start of their first day to the end of their last
+          startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : '',
+          endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : '',
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Coupon saved');
+        setShowForm(false);
+        loadCoupons();
+      } else { toast.error(json?.error || 'Failed to save coupon'); }
+    } catch { toast.error('Failed to save coupon'); } finally { setSaving(false); }
+  };
+
+  const toggleActive = async (coupon: CouponSummary) => {
+    try {
+      const res = await fetch(`/api/enduser/coupons/${coupon._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !coupon.active }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(coupon.active ? `${coupon.code} deactivated` : `${coupon.code} activated`);
+        loadCoupons();
+      } else { toast.error(json?.error || 'Failed to update coupon'); }
+    } catch { toast.error('Failed to update coupon'); }
+  };
+
+  const handleDelete = async (coupon: CouponSummary) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      const res = await fetch(`/api/enduser/coupons/${coupon._id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Coupon deleted');
+        loadCoupons();
+      } else { toast.error(json?.error || 'Failed to delete coupon'); }
+    } catch { toast.error('Failed to delete coupon'); }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Coupons</h1>
+              <p className="text-gray-600 mt-1">Promotion codes customers can apply to your products at checkout</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Coupon
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {showForm && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center">
+                <Tag className="w-5 h-5 text-primary-800 mr-2" />
+                <h3 className="text-lg font-semibold text-gray-900">{editingId ? `Edit ${form.code}` : 'New Coupon'}</h3>
+              </div>
+              <button onClick={() => setShowForm(false)} className="p-2 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+                  <input
+                    type="text"
+                    maxLength={20}
+                    value={form.code}
+                    onChange={(e) => update('code', e.target.value.toUpperCase().replace(/[^A-Z0-9_-]/g, ''))}
+                    placeholder="SUMMER20"
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <input
+                    type="text"
+                    maxLength={200}
+                    value={form.description}
+                    onChange={(e) => update('description', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Discount</label>
+                    <select
+                      value={form.discountType}
+                      onChange={(e) => update('discountType', e.target.value as CouponDiscountType)}
+                      className={inputClass}
+                    >
+                      <option value="percent">Percent off</option>
+                      <option value="flat">Flat amount off</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {form.discountType === 'percent' ? 'Percent (%)' : 'Amount (₹)'}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={form.discountType === 'percent' ? 100 : undefined}
+                      step="0.01"
+                      value={form.value}
+                      onChange={(e) => update('value', e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                {form.discountType === 'percent' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Maximum discount (₹)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={form.maxDiscount}
+                      onChange={(e) => update('maxDiscount', e.target.value)}
+                      placeholder="No cap"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Minimum rental (hours)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.minRentalHours}
+                    onChange={(e) => update('minRentalHours', e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Only lines rented at least this long are discounted, e.g. 72 for 3 days</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Valid from</label>
+                    <input type="date" value={form.startsAt} onChange={(e) => update('startsAt', e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Valid until</label>
+                    <input type="date" value={form.endsAt} onChange={(e) => update('endsAt', e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Total uses</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.usageLimit}
+                      onChange={(e) => update('usageLimit', e.target.value)}
+                      placeholder="Unlimited"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Uses per customer</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.perCustomerLimit}
+                      onChange={(e) => update('perCustomerLimit', e.target.value)}
+                      placeholder="Unlimited"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.firstOrderOnly}
+                    onChange={(e) => update('firstOrderOnly', e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Only for a customer's first order with you</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.active}
+                    onChange={(e) => update('active', e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">Categories</p>
+                  <div className="flex flex-wrap gap-2">
+                    {CATEGORIES.map((category) => (
+                      <button
+                        key={category}
+                        type="button"
+                        onClick={() => toggleIn('categories', category)}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          form.categories.includes(category)
+                            ? 'bg-primary-800 text-white border-primary-800'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                        }`}
+                      >
+                        {category}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">Products</p>
+                  <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {products.length === 0 && <p className="p-3 text-sm text-gray-500">No products yet</p>}
+                    {products.map((product) => (
+                      <label key={product._id} className="flex items-center px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={form.productIds.includes(product._id)}
+                          onChange={() => toggleIn('productIds', product._id)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">{product.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Leave categories and products empty to cover all your products</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Coupon'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {coupons.length === 0 ? (
+            <div className="p-12 text-center">
+              <Tag className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No coupons yet</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies to</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {coupons.map((coupon) => (
+                  <tr key={coupon._id} className={coupon.active ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4">
+                      <p className="font-mono font-medium text-gray-900">{coupon.code}</p>
+                      {coupon.description && <p className="text-xs text-gray-500">{coupon.description}</p>}
+                      {!coupon.active && <span className="text-xs text-red-600">Inactive</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {describeDiscount(coupon)}
+                      {coupon.firstOrderOnly && <p className="text-xs text-gray-500">First order only</p>}
+                      {coupon.minRentalHours > 0 && <p className="text-xs text-gray-500">Min. {coupon.minRentalHours} hours</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {coupon.categories.length === 0 && coupon.productIds.length === 0 && 'All products'}
+                      {coupon.categories.length > 0 && <p>{coupon.categories.join(', ')}</p>}
+                      {coupon.productIds.length > 0 && (
+                        <p>{coupon.productIds.length} product{coupon.productIds.length === 1 ? '' : 's'}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{describeValidity(coupon)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {coupon.redemptionCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                      {coupon.perCustomerLimit && <p className="text-xs text-gray-500">{coupon.perCustomerLimit} per customer</p>}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <button onClick={() => openEdit(coupon)} className="p-2 text-gray-400 hover:text-primary-700" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleActive(coupon)}
+                        className="p-2 text-gray-400 hover:text-primary-700"
+                        title={coupon.active ? 'Deactivate' : 'Activate'}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(coupon)} className="p-2 text-gray-400 hover:text-red-600" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,7 +20,8 @@ import {
   Package,
   IndianRupee,
   Eye,
-  Edit
+  Edit,
+  BadgePercent
 } from 'lucide-react';
 
 interface Customer {
@@ -31,7 +32,10 @@ interface Customer {
   address: string;
   joinDate: string;
   totalOrders: number;
-  totalSpent: number;
+  totalSpent: number; // Net of issued credit and debit notes
+  credits: number;
+  debits: number;
+  priceList: { _id?: string; name: string } | null; // Price list by account or email domain
   status: 'active' | 'inactive';
   lastOrder: string;
 }
@@ -59,6 +63,9 @@ export default function EndUserCustomers() {
             joinDate: c.joinDate || new Date().toISOString(),
             totalOrders: c.totalOrders || 0,
             totalSpent: c.totalSpent || 0,
+            credits: c.credits || 0,
+            debits: c.debits || 0,
+            priceList: c.priceList || null,
             status: 'active',
             lastOrder: c.lastOrder || c.joinDate,
           }));
@@ -97,6 +104,14 @@ export default function EndUserCustomers() {
             </div>
 
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/enduser/price-lists')}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <BadgePercent className="w-4 h-4 mr-2" />
+                Price Lists
+              </button>
+
               {/* Search */}
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
@@ -147,6 +162,9 @@ export default function EndUserCustomers() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Contact
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Price List
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Join Date
                   </th>
@@ -202,6 +220,15 @@ export default function EndUserCustomers() {
                         </div>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {customer.priceList ? (
+                        <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          {customer.priceList.name}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">Public prices</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center text-sm text-gray-900">
                         <Calendar className="w-4 h-4 mr-2 text-gray-400" />
@@ -223,6 +250,13 @@ export default function EndUserCustomers() {
                           {customer.totalSpent.toLocaleString()}
                         </span>
                       </div>
+                      {(customer.credits > 0 || customer.debits > 0) && (
+                        <div className="text-xs text-gray-500">
+                          {customer.debits > 0 && `+₹${customer.debits.toLocaleString()} debit`}
+                          {customer.debits > 0 && customer.credits > 0 && ' · '}
+                          {customer.credits > 0 && `−₹${customer.credits.toLocaleString()} credit`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
@@ -7,112 +7,391 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import {
   ChevronLeft,
   ChevronRight,
   Settings,
-  Send,
   Printer,
   CheckCircle,
   XCircle,
-  Edit,
   Truck,
   Package,
   IndianRupee,
   Calendar,
   MapPin,
   User,
-  FileText
+  FileText,
+  Clock,
+  AlertCircle,
+  History,
+  ShieldCheck,
+  Download
 } from 'lucide-react';
+import {
+  DepositStatement,
+  InvoiceNoteReason,
+  InvoiceNoteSummary,
+  InvoiceNoteType,
+  LateFeeBreakdown,
+  PaymentEvent,
+  RentalOrderStatus,
+  StatusHistoryEntry,
+} from '@/types';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { describeLateFee } from '@/lib/lateFees';
+import { describeDepositEntry } from '@/lib/deposits';
+import { gstTaxLines } from '@/lib/gst';
+
+const NOTE_REASON_LABELS: Record<InvoiceNoteReason, string> = {
+  cancellation: 'Cancellation refund',
+  early_return: 'Early return',
+  late_fee: 'Late fees',
+  damage: 'Damage',
+  other: 'Other',
+};
+import { generateDepositStatementPDF } from '@/lib/pdfGenerator';
 
 interface RentalOrder {
   id: string;
+  orderNumber: string;
   customer: string;
   customerEmail: string;
-  invoiceAddress: string;
+  customerPhone: string;
   deliveryAddress: string;
-  rentalTemplate: string;
-  expiration: string;
   rentalOrderDate: string;
-  pricelist: string;
   rentalPeriod: string;
   rentalDuration: string;
-  status: 'quotation' | 'quotation_sent' | 'rental_order';
+  status: RentalOrderStatus;
+  allowedTransitions: RentalOrderStatus[];
+  statusHistory: StatusHistoryEntry[];
   orderLines: Array<{
     product: string;
+    period: string;
     quantity: number;
     unitPrice: number;
-    tax: number;
     subTotal: number;
   }>;
   untaxedTotal: number;
+  discount: number;
+  deliveryCharge: number;
   tax: number;
+  taxLines: Array<{ name: string; rate?: number; amount: number }>; // CGST/SGST or IGST when known
   total: number;
-  termsConditions: string;
+  deposit: number;
+  lateFees: number;
+  lateFeeLines: Array<{ product: string; detail: string; amount: number }>;
+  amountDue: number;
+  paymentStatus: string;
+  cancellation: { refundPercent: number; refundAmount: number; hoursBeforeStart: number; initiatedBy: string } | null;
+  refunds: Array<{ amount: number; method: string; status: string; reference: string; date: string }>;
+  notes: string;
+}
+
+// Main path shown in the status progress bar
+const STATUS_FLOW: RentalOrderStatus[] = ['quotation', 'confirmed', 'reserved', 'delivered', 'returned'];
+
+// Button presentation for each target status
+const ACTION_STYLES: Record<RentalOrderStatus, { label: string; className: string; icon: typeof CheckCircle }> = {
+  quotation: { label: 'Quotation', className: 'border border-gray-300 hover:bg-gray-50', icon: FileText },
+  confirmed: { label: 'Confirm', className: 'bg-green-600 text-white hover:bg-green-700', icon: CheckCircle },
+  reserved: { label: 'Reserve', className: 'bg-blue-600 text-white hover:bg-blue-700', icon: Package },
+  delivered: { label: 'Pickup', className: 'bg-green-600 text-white hover:bg-green-700', icon: Truck },
+  returned: { label: 'Return', className: 'bg-blue-600 text-white hover:bg-blue-700', icon: CheckCircle },
+  late: { label: 'Mark Late', className: 'bg-yellow-500 text-white hover:bg-yellow-600', icon: Clock },
+  cancelled: { label: 'Cancel', className: 'border border-gray-300 hover:bg-gray-50', icon: XCircle },
+};
+
+function formatAddress(raw: string | undefined): string {
+  if (!raw) return '—';
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      const parts = [parsed.address, parsed.city, parsed.state, parsed.pincode].filter(Boolean);
+      return parts.length ? parts.join(', ') : '—';
+    }
+  } catch {}
+  return raw;
+}
+
+function formatDuration(duration: number, unit: string): string {
+  return `${duration} ${unit}${duration === 1 ? '' : 's'}`;
+}
+
+function mapOrder(o: any): RentalOrder {
+  const start = new Date(o.startDate);
+  const end = new Date(o.endDate);
+  const items: any[] = o.items || [];
+  const units = Array.from(new Set(items.map((i) => i.durationUnit)));
+  return {
+    id: o._id,
+    orderNumber: o.orderNumber || o._id,
+    customer: o.customerName,
+    customerEmail: o.customerEmail,
+    customerPhone: o.customerPhone || '',
+    deliveryAddress: formatAddress(o.deliveryAddress),
+    rentalOrderDate: new Date(o.createdAt).toLocaleDateString(),
+    rentalPeriod: `${start.toLocaleDateString()} → ${end.toLocaleDateString()}`,
+    // Lines on one order usually share a duration unit; fall back to a line summary otherwise
+    rentalDuration: units.length === 1
+      ? formatDuration(Math.max(...items.map((i) => i.duration || 0)), units[0])
+      : items.map((i) => formatDuration(i.duration, i.durationUnit)).join(', '),
+    status: o.status,
+    allowedTransitions: o.allowedTransitions || [],
+    statusHistory: o.statusHistory || [],
+    orderLines: items.map((i) => ({
+      product: i.productId?.name || i.productName || 'Product',
+      period: `${new Date(i.startDate).toLocaleDateString()} → ${new Date(i.endDate).toLocaleDateString()}`,
+      quantity: i.quantity || 1,
+      unitPrice: i.unitPrice || 0,
+      subTotal: i.lineTotal || 0,
+    })),
+    untaxedTotal: o.subtotal || 0,
+    discount: o.discountAmount || 0,
+    deliveryCharge: o.deliveryCharge || 0,
+    tax: o.taxAmount || 0,
+    taxLines: gstTaxLines(o.taxBreakdown),
+    total: o.totalPrice || 0,
+    deposit: o.depositAmount || 0,
+    // Settled on return; estimated from each line's policy while the items are still out
+    lateFees: o.lateFees || o.calculatedLateFee || 0,
+    lateFeeLines: ((o.lateFeeDetails || []) as LateFeeBreakdown[])
+      .filter((b) => b.hoursLate > 0)
+      .map((b) => ({ product: b.productName || 'Product', detail: describeLateFee(b), amount: b.amount })),
+    amountDue: o.totalAmountDue ?? o.totalPrice ?? 0,
+    paymentStatus: o.paymentStatus || 'pending',
+    cancellation: o.cancellation || null,
+    refunds: (o.refunds || []).map((r: any) => ({
+      amount: r.amount,
+      method: r.method,
+      status: r.status,
+      reference: r.razorpayRefundId || 'Refunded outside Razorpay',
+      date: new Date(r.createdAt).toLocaleString(),
+    })),
+    notes: o.notes || '',
+  };
 }
 
 export default function RentalOrderView() {
   const router = useRouter();
   const params = useParams();
   const [order, setOrder] = useState<RentalOrder | null>(null);
-  const [currentStatus, setCurrentStatus] = useState<'quotation' | 'quotation_sent' | 'rental_order'>('quotation');
-  const [isConfirmed, setIsConfirmed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [payments, setPayments] = useState<PaymentEvent[]>([]);
+  const [activeTab, setActiveTab] = useState<'lines' | 'history' | 'payments' | 'deposit' | 'adjustments' | 'notes'>('lines');
+  const [deposit, setDeposit] = useState<DepositStatement | null>(null);
+  const [settlement, setSettlement] = useState({ damage: '', damageReason: '', lateFee: '' });
+  const [settling, setSettling] = useState(false);
+  const [invoiceNotes, setInvoiceNotes] = useState<InvoiceNoteSummary[]>([]);
+  const [noteForm, setNoteForm] = useState<{ type: InvoiceNoteType; reason: InvoiceNoteReason; amount: string; description: string }>({
+    type: 'credit',
+    reason: 'early_return',
+    amount: '',
+    description: '',
+  });
+  const [savingNote, setSavingNote] = useState(false);
 
-  // Mock data based on wireframes
   useEffect(() => {
-    const mockOrder: RentalOrder = {
-      id: params.id as string || 'R0001',
-      customer: 'Customer Name',
-      customerEmail: 'customer@example.com',
-      invoiceAddress: '123 Main Street, City, State 12345',
-      deliveryAddress: '456 Delivery Avenue, City, State 67890',
-      rentalTemplate: 'Standard Rental Template',
-      expiration: '2024-12-31',
-      rentalOrderDate: '2024-01-15',
-      pricelist: 'Standard Pricing',
-      rentalPeriod: '7 days',
-      rentalDuration: '1 week',
-      status: 'quotation',
-      orderLines: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          tax: 0,
-          subTotal: 1000
+    const load = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/enduser/orders/${params.id}`);
+        const json = await res.json();
+        if (json?.success) {
+          setOrder(mapOrder(json.data));
+          setPayments(json.payments || []);
+        } else {
+          toast.error(json?.error || 'Failed to load order');
         }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000,
-      termsConditions: 'Standard terms and conditions apply for this rental agreement.'
+      } catch (e) {
+        toast.error('Failed to load order');
+      } finally {
+        setLoading(false);
+      }
     };
-    setOrder(mockOrder);
-    setCurrentStatus(mockOrder.status);
+    if (params.id) load();
   }, [params.id]);
 
-  const handleStatusChange = (newStatus: 'quotation' | 'quotation_sent' | 'rental_order') => {
-    setCurrentStatus(newStatus);
-    if (order) {
-      setOrder({ ...order, status: newStatus });
+  useEffect(() => {
+    if (activeTab !== 'deposit' || !params.id) return;
+    fetch(`/api/orders/${params.id}/deposit`)
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json?.success) throw new Error(json?.error);
+        setDeposit(json.data);
+        // Suggest recovering late fees from the deposit, up to what is held
+        if (order?.lateFees) {
+          setSettlement((s) => ({ ...s, lateFee: String(Math.min(order.lateFees, json.data.summary.held)) }));
+        }
+      })
+      .catch((e) => toast.error(e?.message || 'Failed to load deposit'));
+  }, [activeTab, params.id, order?.lateFees]);
+
+  const loadInvoiceNotes = async () => {
+    try {
+      const res = await fetch(`/api/invoice-notes?orderId=${params.id}&limit=100`);
+      const json = await res.json();
+      if (!json?.success) throw new Error(json?.error);
+      setInvoiceNotes(json.data.notes);
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to load credit and debit notes');
     }
   };
 
-  const handleConfirm = () => {
-    setIsConfirmed(true);
-    handleStatusChange('rental_order');
+  useEffect(() => {
+    if (activeTab === 'adjustments' && params.id) loadInvoiceNotes();
+  }, [activeTab, params.id]);
+
+  const handleDraftNote = async () => {
+    if (!(Number(noteForm.amount) > 0)) {
+      toast.error('Enter an amount');
+      return;
+    }
+    try {
+      setSavingNote(true);
+      const res = await fetch('/api/invoice-notes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...noteForm, amount: Number(noteForm.amount), orderId: params.id }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to draft note');
+        return;
+      }
+      setNoteForm((f) => ({ ...f, amount: '', description: '' }));
+      toast.success(json.message || 'Note drafted');
+      loadInvoiceNotes();
+    } catch (e) {
+      toast.error('Failed to draft note');
+    } finally {
+      setSavingNote(false);
+    }
   };
 
-  const getStatusColor = (status: string) => {
+  const handleNoteAction = async (note: InvoiceNoteSummary, action: 'issue' | 'cancel') => {
+    if (action === 'issue' && !confirm(`Issue this ${note.type} note for ₹${note.total}? Issued notes cannot be changed.`)) return;
+    try {
+      const res = await fetch(`/api/invoice-notes/${note._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to update note');
+        return;
+      }
+      toast.success(json.message);
+      loadInvoiceNotes();
+    } catch (e) {
+      toast.error('Failed to update note');
+    }
+  };
+
+  // Issues the invoice if the order has none yet, then downloads the server-rendered PDF
+  const handleDownloadInvoice = async () => {
+    try {
+      const res = await fetch(`/api/orders/${params.id}/invoice`, { method: 'POST' });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to load invoice');
+        return;
+      }
+      window.location.href = `/api/invoices/${json.data._id}/pdf`;
+    } catch (e) {
+      toast.error('Failed to load invoice');
+    }
+  };
+
+  const handleSettleDeposit = async () => {
+    if (!deposit) return;
+    const deductions = [
+      { category: 'damage', amount: Number(settlement.damage) || 0, reason: settlement.damageReason },
+      { category: 'late_fee', amount: Number(settlement.lateFee) || 0 },
+    ].filter((d) => d.amount > 0);
+    const deducted = deductions.reduce((sum, d) => sum + d.amount, 0);
+    if (deducted > deposit.summary.held) {
+      toast.error(`Deductions cannot exceed the ₹${deposit.summary.held} held`);
+      return;
+    }
+    if (!confirm(`Deduct ₹${deducted} and refund ₹${(deposit.summary.held - deducted).toFixed(2)} to the customer?`)) return;
+
+    try {
+      setSettling(true);
+      const res = await fetch(`/api/orders/${params.id}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deductions }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to settle deposit');
+        return;
+      }
+      setDeposit(json.data);
+      toast.success(json.message || 'Deposit settled');
+    } catch (e) {
+      toast.error('Failed to settle deposit');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleStatusChange = async (newStatus: RentalOrderStatus) => {
+    if (!order) return;
+    let reason: string | undefined;
+    if (newStatus === 'cancelled') {
+      // Show what the customer gets back before cancelling
+      let refundNote = '';
+      try {
+        const res = await fetch(`/api/orders/${order.id}/cancel`);
+        const json = await res.json();
+        if (json?.success && json.data.quote.refundAmount > 0) {
+          refundNote = `₹${json.data.quote.refundAmount} will be refunded to the customer. `;
+        }
+      } catch {}
+      const input = window.prompt(`${refundNote}Reason for cancelling this order?`);
+      if (input === null) return;
+      reason = input;
+    }
+
+    try {
+      setUpdating(true);
+      const res = await fetch(`/api/enduser/orders/${order.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus, reason }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        setOrder(mapOrder(json.data));
+        toast.success(`Order ${ORDER_STATUS_LABELS[newStatus].toLowerCase()}`);
+      } else {
+        toast.error(json?.error || 'Failed to update order');
+      }
+    } catch (e) {
+      toast.error('Failed to update order');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const getStatusColor = (status: RentalOrderStatus) => {
     switch (status) {
       case 'quotation': return 'bg-yellow-500';
-      case 'quotation_sent': return 'bg-blue-500'; 
-      case 'rental_order': return 'bg-green-500';
+      case 'confirmed': return 'bg-blue-500';
+      case 'reserved': return 'bg-purple-500';
+      case 'delivered': return 'bg-green-500';
+      case 'returned': return 'bg-gray-700';
+      case 'late': return 'bg-red-500';
+      case 'cancelled': return 'bg-gray-400';
       default: return 'bg-gray-500';
     }
   };
 
-  if (!order) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="loading-spinner w-8 h-8"></div>
@@ -120,6 +399,25 @@ export default function RentalOrderView() {
     );
   }
 
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Order not found</h3>
+          <button
+            onClick={() => router.push('/enduser/orders')}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            Return to Orders
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const flowIndex = STATUS_FLOW.indexOf(order.status === 'late' ? 'delivered' : order.status);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -136,64 +434,73 @@ export default function RentalOrderView() {
               <h1 className="text-xl font-semibold text-gray-900">Rental Orders</h1>
               <Settings className="w-5 h-5 text-gray-400" />
             </div>
-
-            <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">1/80</span>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronLeft className="w-4 h-4" />
-              </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronRight className="w-4 h-4" />
-              </button>
-            </div>
           </div>
 
           {/* Action Buttons */}
           <div className="flex items-center justify-between mt-6">
             <div className="flex items-center space-x-3">
-              <button className="flex items-center px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors">
-                <Send className="w-4 h-4 mr-2" />
-                Sent
-              </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <Printer className="w-4 h-4 mr-2" />
-                Print
-              </button>
+              {order.allowedTransitions.map((next) => {
+                const action = ACTION_STYLES[next];
+                const Icon = action.icon;
+                return (
+                  <button
+                    key={next}
+                    onClick={() => handleStatusChange(next)}
+                    disabled={updating}
+                    className={`flex items-center px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${action.className}`}
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {action.label}
+                  </button>
+                );
+              })}
               <button
-                onClick={handleConfirm}
-                disabled={isConfirmed}
-                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                onClick={() => window.print()}
+                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
               >
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Confirm
-              </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <XCircle className="w-4 h-4 mr-2" />
-                Cancel
+                <Printer className="w-4 h-4 mr-2" />
+                Print
               </button>
+              {order.status !== 'quotation' && (
+                <button
+                  onClick={handleDownloadInvoice}
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Invoice
+                </button>
+              )}
+              {order.status !== 'quotation' && (
+                <button
+                  onClick={() => router.push(`/enduser/transfer?orderId=${params.id}`)}
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Truck className="w-4 h-4 mr-2" />
+                  Transfers
+                </button>
+              )}
             </div>
 
             {/* Status Progress */}
             <div className="flex items-center space-x-2">
-              <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('quotation')}`}>
-                Quotation
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentStatus === 'quotation_sent' || currentStatus === 'rental_order' 
-                  ? `text-white ${getStatusColor('quotation_sent')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Quotation Sent
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentStatus === 'rental_order' 
-                  ? `text-white ${getStatusColor('rental_order')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Rental Order
-              </div>
+              {order.status === 'cancelled' ? (
+                <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('cancelled')}`}>
+                  Cancelled
+                </div>
+              ) : (
+                STATUS_FLOW.map((step, index) => (
+                  <div key={step} className="flex items-center space-x-2">
+                    {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+                    <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                      index <= flowIndex
+                        ? `text-white ${getStatusColor(step === 'delivered' && order.status === 'late' ? 'late' : step)}`
+                        : 'text-gray-500 bg-gray-200'
+                    }`}>
+                      {step === 'delivered' && order.status === 'late' ? ORDER_STATUS_LABELS.late : ORDER_STATUS_LABELS[step]}
+                    </div>
+                  </div>
+                ))
+              )}
             </div>
           </div>
         </div>
@@ -206,20 +513,11 @@ export default function RentalOrderView() {
           <div className="p-6 border-b border-gray-200">
             <div className="flex justify-between items-start">
               <div>
-                <h2 className="text-2xl font-bold text-gray-900">{order.id}</h2>
-                {isConfirmed && (
-                  <div className="mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                    <CheckCircle className="w-4 h-4 mr-1" />
-                    Confirmed
-                  </div>
-                )}
+                <h2 className="text-2xl font-bold text-gray-900">{order.orderNumber}</h2>
+                <div className={`mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(order.status)}`}>
+                  {ORDER_STATUS_LABELS[order.status]}
+                </div>
               </div>
-              <button
-                disabled={isConfirmed}
-                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                Update Prices
-              </button>
             </div>
           </div>
 
@@ -234,14 +532,8 @@ export default function RentalOrderView() {
                     Customer:
                   </label>
                   <p className="text-gray-900">{order.customer}</p>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <MapPin className="w-4 h-4 inline mr-2" />
-                    Invoice Address:
-                  </label>
-                  <p className="text-gray-900">{order.invoiceAddress}</p>
+                  <p className="text-sm text-gray-600">{order.customerEmail}</p>
+                  {order.customerPhone && <p className="text-sm text-gray-600">{order.customerPhone}</p>}
                 </div>
 
                 <div>
@@ -251,26 +543,10 @@ export default function RentalOrderView() {
                   </label>
                   <p className="text-gray-900">{order.deliveryAddress}</p>
                 </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <FileText className="w-4 h-4 inline mr-2" />
-                    Rental Template:
-                  </label>
-                  <p className="text-gray-900">{order.rentalTemplate}</p>
-                </div>
               </div>
 
               {/* Right Column */}
               <div className="space-y-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Calendar className="w-4 h-4 inline mr-2" />
-                    Expiration:
-                  </label>
-                  <p className="text-gray-900">{order.expiration}</p>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Calendar className="w-4 h-4 inline mr-2" />
@@ -279,14 +555,6 @@ export default function RentalOrderView() {
                   <p className="text-gray-900">{order.rentalOrderDate}</p>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <IndianRupee className="w-4 h-4 inline mr-2" />
-                    Pricelist:
-                  </label>
-                  <p className="text-gray-900">{order.pricelist}</p>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Calendar className="w-4 h-4 inline mr-2" />
@@ -297,7 +565,7 @@ export default function RentalOrderView() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Calendar className="w-4 h-4 inline mr-2" />
+                    <MapPin className="w-4 h-4 inline mr-2" />
                     Rental Duration:
                   </label>
                   <p className="text-gray-900">{order.rentalDuration}</p>
@@ -306,104 +574,411 @@ export default function RentalOrderView() {
             </div>
           </div>
 
-          {/* Order Lines Tabs */}
+          {/* Order Tabs */}
           <div className="border-t border-gray-200">
             <div className="flex space-x-8 px-6">
-              <button className="border-b-2 border-primary-500 py-4 text-sm font-medium text-primary-600">
-                Order lines
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Other details
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Rental Notes
-              </button>
+              {([
+                ['lines', 'Order lines'],
+                ['history', 'Status history'],
+                ['payments', 'Payments'],
+                ['deposit', 'Deposit'],
+                ['adjustments', 'Credit & Debit Notes'],
+                ['notes', 'Rental Notes'],
+              ] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-4 text-sm font-medium ${
+                    activeTab === tab
+                      ? 'border-b-2 border-primary-500 text-primary-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* Order Lines Table */}
-          <div className="p-6">
-            <div className="overflow-x-auto">
-              <table className="min-w-full">
-                <thead>
-                  <tr className="border-b border-gray-200">
-                    <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Quantity</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Unit Price</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Tax</th>
-                    <th className="text-right py-3 text-sm font-medium text-gray-500">Sub Total</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {order.orderLines.map((line, index) => (
-                    <tr key={index} className="border-b border-gray-100">
-                      <td className="py-4 text-sm font-medium text-gray-900">{line.product}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.quantity}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.unitPrice}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">-</td>
-                      <td className="py-4 text-sm text-gray-600 text-right">{line.subTotal}</td>
+          {activeTab === 'lines' && (
+            <div className="p-6">
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Period</th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500">Quantity</th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500">Unit Price</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Sub Total</th>
                     </tr>
+                  </thead>
+                  <tbody>
+                    {order.orderLines.map((line, index) => (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-4 text-sm font-medium text-gray-900">{line.product}</td>
+                        <td className="py-4 text-sm text-gray-600">{line.period}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">{line.quantity}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">{line.unitPrice}</td>
+                        <td className="py-4 text-sm text-gray-600 text-right">{line.subTotal}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="mt-8 flex justify-end">
+                <div className="w-64 text-right space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600">Untaxed Total:</span>
+                    <span className="text-sm font-medium flex items-center">
+                      <IndianRupee className="w-4 h-4 mr-1" />
+                      {order.untaxedTotal}
+                    </span>
+                  </div>
+                  {order.discount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">Discount:</span>
+                      <span className="text-sm font-medium flex items-center">
+                        -<IndianRupee className="w-4 h-4 mr-1" />
+                        {order.discount}
+                      </span>
+                    </div>
+                  )}
+                  {order.deliveryCharge > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">Delivery:</span>
+                      <span className="text-sm font-medium flex items-center">
+                        <IndianRupee className="w-4 h-4 mr-1" />
+                        {order.deliveryCharge}
+                      </span>
+                    </div>
+                  )}
+                  {(order.taxLines.length > 0 ? order.taxLines : [{ name: 'Tax', rate: undefined, amount: order.tax }]).map((tax) => (
+                    <div key={`${tax.name}-${tax.rate}`} className="flex justify-between">
+                      <span className="text-sm text-gray-600">
+                        {tax.name}{tax.rate !== undefined ? ` (${tax.rate}%)` : ''}:
+                      </span>
+                      <span className="text-sm font-medium flex items-center">
+                        <IndianRupee className="w-4 h-4 mr-1" />
+                        {tax.amount}
+                      </span>
+                    </div>
                   ))}
-                </tbody>
-              </table>
+                  <div className="flex justify-between border-t pt-2">
+                    <span className="text-lg font-semibold text-gray-900">Total:</span>
+                    <span className="text-lg font-semibold text-gray-900 flex items-center">
+                      <IndianRupee className="w-5 h-5 mr-1" />
+                      {order.total}
+                    </span>
+                  </div>
+                  {order.lateFees > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Late Fees:</span>
+                        <span className="text-sm font-medium text-red-600 flex items-center">
+                          <IndianRupee className="w-4 h-4 mr-1" />
+                          {order.lateFees}
+                        </span>
+                      </div>
+                      {order.lateFeeLines.map((line, index) => (
+                        <div key={index} className="text-xs text-gray-500">
+                          {line.product}: {line.detail} = ₹{line.amount}
+                        </div>
+                      ))}
+                      <div className="flex justify-between">
+                        <span className="text-sm font-semibold text-gray-900">Amount Due:</span>
+                        <span className="text-sm font-semibold text-gray-900 flex items-center">
+                          <IndianRupee className="w-4 h-4 mr-1" />
+                          {order.amountDue}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                  {order.deposit > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-gray-600">Security Deposit:</span>
+                      <span className="text-sm font-medium flex items-center">
+                        <IndianRupee className="w-4 h-4 mr-1" />
+                        {order.deposit}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
             </div>
+          )}
 
-            {/* Terms & Conditions */}
-            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <div className="border border-gray-200 rounded-lg p-4">
-                <h4 className="font-medium text-gray-900 mb-2">Terms & Conditions</h4>
-                <p className="text-sm text-gray-600">{order.termsConditions}</p>
-              </div>
+          {activeTab === 'history' && (
+            <div className="p-6">
+              {order.statusHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {[...order.statusHistory].reverse().map((entry, index) => (
+                    <div key={index} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                      <div className={`p-1 rounded-full ${getStatusColor(entry.to)}`}>
+                        <History className="w-3 h-3 text-white" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {entry.from ? `${ORDER_STATUS_LABELS[entry.from]} → ` : ''}{ORDER_STATUS_LABELS[entry.to]}
+                        </p>
+                        {entry.reason && <p className="text-xs text-gray-600">{entry.reason}</p>}
+                        <p className="text-xs text-gray-500">
+                          {new Date(entry.changedAt).toLocaleString()}{entry.changedByName ? ` by ${entry.changedByName}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
 
-              <div className="text-right space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Untaxed Total:</span>
-                  <span className="text-sm font-medium flex items-center">
-                    <IndianRupee className="w-4 h-4 mr-1" />
-                    {order.untaxedTotal}
+          {activeTab === 'payments' && (
+            <div className="p-6">
+              <p className="text-sm text-gray-600 mb-4">
+                Payment status: <span className="font-medium capitalize text-gray-900">{order.paymentStatus}</span>
+              </p>
+              {order.cancellation && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Cancelled by the {order.cancellation.initiatedBy} {Math.max(0, order.cancellation.hoursBeforeStart)}h before the rental
+                  started: {order.cancellation.refundPercent}% refund (₹{order.cancellation.refundAmount})
+                </p>
+              )}
+              {order.refunds.map((refund, index) => (
+                <div key={index} className="flex justify-between text-sm border border-gray-200 rounded-lg px-4 py-2 mb-2">
+                  <span className="text-gray-600">{refund.date} · {refund.reference}</span>
+                  <span className="text-gray-900">
+                    Refund ₹{refund.amount} <span className="capitalize text-gray-500">({refund.status})</span>
                   </span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Tax:</span>
-                  <span className="text-sm font-medium flex items-center">
-                    <IndianRupee className="w-4 h-4 mr-1" />
-                    {order.tax}
-                  </span>
+              ))}
+              {payments.length === 0 ? (
+                <p className="text-sm text-gray-500">No payment events received for this order.</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Received</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Event</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Reference</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payments.map((payment) => (
+                      <tr key={payment._id} className="border-b border-gray-100">
+                        <td className="py-3 text-sm text-gray-600">{new Date(payment.receivedAt).toLocaleString()}</td>
+                        <td className="py-3 text-sm text-gray-900">
+                          {payment.event}
+                          {payment.errorDescription && <div className="text-xs text-red-600">{payment.errorDescription}</div>}
+                        </td>
+                        <td className="py-3 text-xs text-gray-500">{payment.razorpayRefundId || payment.razorpayPaymentId || '—'}</td>
+                        <td className="py-3 text-sm text-gray-900 text-right">
+                          {payment.event === 'refund.processed' ? '-' : ''}₹{payment.amount}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'deposit' && (
+            <div className="p-6">
+              {!deposit ? (
+                <p className="text-sm text-gray-500">Loading deposit…</p>
+              ) : deposit.summary.required === 0 && deposit.entries.length === 0 ? (
+                <p className="text-sm text-gray-500">No security deposit was required for this order.</p>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {([
+                      ['Collected', deposit.summary.collected],
+                      ['Deducted', deposit.summary.deducted],
+                      ['Refunded', deposit.summary.refunded],
+                      ['Held', deposit.summary.held],
+                    ] as const).map(([label, amount]) => (
+                      <div key={label} className="border border-gray-200 rounded-lg p-3">
+                        <p className="text-xs text-gray-500">{label}</p>
+                        <p className="text-lg font-semibold text-gray-900">₹{amount}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    {deposit.lines.map((line, index) => (
+                      <div key={index} className="flex justify-between text-sm text-gray-600 py-1">
+                        <span>{line.productName} × {line.quantity}</span>
+                        <span>₹{line.deposit}</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    {deposit.entries.map((entry, index) => (
+                      <div key={index} className="flex justify-between text-sm border border-gray-200 rounded-lg px-4 py-2">
+                        <span className="text-gray-600">
+                          {new Date(entry.createdAt).toLocaleString()} · {describeDepositEntry(entry)}
+                        </span>
+                        <span className="text-gray-900">{entry.type === 'collected' ? '' : '-'}₹{entry.amount}</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {order.status === 'returned' && !deposit.settledAt && deposit.summary.held > 0 && (
+                    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                      <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+                        <ShieldCheck className="w-4 h-4 mr-2" />
+                        Settle Deposit
+                      </h3>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder="Damage deduction (₹)"
+                          value={settlement.damage}
+                          onChange={(e) => setSettlement({ ...settlement, damage: e.target.value })}
+                          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Damage details"
+                          value={settlement.damageReason}
+                          onChange={(e) => setSettlement({ ...settlement, damageReason: e.target.value })}
+                          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder="Late fee deduction (₹)"
+                          value={settlement.lateFee}
+                          onChange={(e) => setSettlement({ ...settlement, lateFee: e.target.value })}
+                          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        />
+                      </div>
+                      <button
+                        onClick={handleSettleDeposit}
+                        disabled={settling}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        {settling ? 'Settling…' : 'Settle and refund'}
+                      </button>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => generateDepositStatementPDF(deposit).catch(() => toast.error('Failed to generate statement'))}
+                    className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download statement
+                  </button>
                 </div>
-                <div className="flex justify-between border-t pt-2">
-                  <span className="text-lg font-semibold text-gray-900">Total:</span>
-                  <span className="text-lg font-semibold text-gray-900 flex items-center">
-                    <IndianRupee className="w-5 h-5 mr-1" />
-                    {order.total}
-                  </span>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'adjustments' && (
+            <div className="p-6 space-y-6">
+              {invoiceNotes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No credit or debit notes yet. Refunds, late fees and damage charges draft them automatically.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {invoiceNotes.map((note) => (
+                    <div key={note._id} className="flex items-center justify-between text-sm border border-gray-200 rounded-lg px-4 py-3">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {note.noteNumber || `Draft ${note.type} note`}
+                          <span className="ml-2 text-gray-500 font-normal">against {note.invoiceNumber}</span>
+                        </p>
+                        <p className="text-gray-600">
+                          {NOTE_REASON_LABELS[note.reason]}{note.description ? ` · ${note.description}` : ''}
+                          {note.taxAmount > 0 ? ` · incl. ₹${note.taxAmount} tax` : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className={note.type === 'credit' ? 'text-red-600' : 'text-green-700'}>
+                          {note.type === 'credit' ? '-' : '+'}₹{note.total}
+                        </span>
+                        {note.status === 'draft' ? (
+                          <>
+                            <button onClick={() => handleNoteAction(note, 'issue')} className="px-3 py-1 bg-primary-600 text-white rounded text-xs hover:bg-primary-700">
+                              Issue
+                            </button>
+                            <button onClick={() => handleNoteAction(note, 'cancel')} className="px-3 py-1 border border-gray-300 rounded text-xs hover:bg-gray-50">
+                              Discard
+                            </button>
+                          </>
+                        ) : (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium capitalize bg-gray-100 text-gray-800">{note.status}</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              )}
+
+              {order.status !== 'quotation' && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+                    <FileText className="w-4 h-4 mr-2" />
+                    New Note
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <select
+                      value={noteForm.type}
+                      onChange={(e) => setNoteForm({ ...noteForm, type: e.target.value as InvoiceNoteType })}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    >
+                      <option value="credit">Credit note</option>
+                      <option value="debit">Debit note</option>
+                    </select>
+                    <select
+                      value={noteForm.reason}
+                      onChange={(e) => setNoteForm({ ...noteForm, reason: e.target.value as InvoiceNoteReason })}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    >
+                      {(Object.keys(NOTE_REASON_LABELS) as InvoiceNoteReason[]).map((reason) => (
+                        <option key={reason} value={reason}>{NOTE_REASON_LABELS[reason]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      placeholder="Amount incl. tax (₹)"
+                      value={noteForm.amount}
+                      onChange={(e) => setNoteForm({ ...noteForm, amount: e.target.value })}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Description"
+                      value={noteForm.description}
+                      onChange={(e) => setNoteForm({ ...noteForm, description: e.target.value })}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <button
+                    onClick={handleDraftNote}
+                    disabled={savingNote}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {savingNote ? 'Saving…' : 'Draft note'}
+                  </button>
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
-          {/* Additional Actions */}
-          {isConfirmed && (
-            <div className="border-t border-gray-200 p-6">
-              <div className="flex items-center space-x-4">
-                <button
-                  onClick={() => router.push(`/enduser/orders/${order.id}/invoice`)}
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                >
-                  <FileText className="w-4 h-4 mr-2" />
-                  Invoice
-                </button>
-                <button
-                  onClick={() => router.push(`/enduser/transfer?type=pickup&orderId=${order.id}`)}
-                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                >
-                  <Truck className="w-4 h-4 mr-2" />
-                  Pickup
-                </button>
-                <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                  <Printer className="w-4 h-4 mr-2" />
-                  Print
-                </button>
-              </div>
+          {activeTab === 'notes' && (
+            <div className="p-6">
+              <p className="text-sm text-gray-600">{order.notes || 'No notes for this order.'}</p>
             </div>
           )}
         </div>
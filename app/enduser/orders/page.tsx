@@ -27,7 +27,10 @@ interface RentalOrder {
   id: string;
   customer: string;
   amount: number;
-  status: 'quotation' | 'quotation_sent' | 'reserved' | 'pickedup' | 'returned';
+  tax: number;
+  products: string;
+  itemCount: number;
+  status: 'quotation' | 'quotation_sent' | 'confirmed' | 'reserved' | 'pickedup' | 'returned' | 'late' | 'cancelled';
   invoiceStatus: 'nothing_to_invoice' | 'to_invoice' | 'fully_invoiced';
   orderDate: string;
   pickupDate?: string;
@@ -55,7 +58,7 @@ export default function EndUserOrders() {
         const params = new URLSearchParams();
         params.set('page', String(currentPage));
         params.set('limit', String(itemsPerPage));
-        if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+        if (selectedStatus !== 'ALL') params.set('status', selectedStatus === 'pickedup' ? 'delivered' : selectedStatus);
         if (searchTerm) params.set('q', searchTerm);
         const res = await fetch(`/api/enduser/orders?${params.toString()}`);
         const json = await res.json();
@@ -64,12 +67,15 @@ export default function EndUserOrders() {
             id: o._id,
             customer: o.customerName,
             amount: o.totalPrice,
+            tax: o.taxAmount || 0,
+            products: (o.items || []).map((i: any) => i.productId?.name || i.productName).join(', '),
+            itemCount: (o.items || []).reduce((sum: number, i: any) => sum + (i.quantity || 1), 0),
             status: (o.status === 'delivered' ? 'pickedup' : o.status) as any,
             invoiceStatus: 'to_invoice',
             orderDate: new Date(o.createdAt).toISOString().slice(0,10),
             pickupDate: o.pickupDate ? new Date(o.pickupDate).toLocaleDateString() : undefined,
             returnDate: o.returnDate ? new Date(o.returnDate).toLocaleDateString() : undefined,
-            orderReference: o._id,
+            orderReference: o.orderNumber || o._id,
             createdBy: o.endUserId?.name || '—',
           }));
           setOrders(apiOrders);
@@ -90,9 +96,12 @@ export default function EndUserOrders() {
   const statusCounts = {
     ALL: orders.length,
     quotation: orders.filter(o => o.status === 'quotation').length,
+    confirmed: orders.filter(o => o.status === 'confirmed').length,
     reserved: orders.filter(o => o.status === 'reserved').length,
     pickedup: orders.filter(o => o.status === 'pickedup').length,
+    late: orders.filter(o => o.status === 'late').length,
     returned: orders.filter(o => o.status === 'returned').length,
+    cancelled: orders.filter(o => o.status === 'cancelled').length,
   };
 
   const invoiceStatusCounts = {
@@ -104,7 +113,8 @@ export default function EndUserOrders() {
   // Filter orders
   const filteredOrders = orders.filter(order => {
     const matchesSearch = order.customer.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         order.orderReference.toLowerCase().includes(searchTerm.toLowerCase());
+                         order.orderReference.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         order.products.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = selectedStatus === 'ALL' || order.status === selectedStatus;
     return matchesSearch && matchesStatus;
   });
@@ -117,17 +127,23 @@ export default function EndUserOrders() {
     const styles = {
       quotation: 'bg-blue-100 text-blue-800',
       quotation_sent: 'bg-purple-100 text-purple-800',
+      confirmed: 'bg-indigo-100 text-indigo-800',
       reserved: 'bg-green-100 text-green-800',
       pickedup: 'bg-yellow-100 text-yellow-800',
-      returned: 'bg-red-100 text-red-800'
+      returned: 'bg-red-100 text-red-800',
+      late: 'bg-orange-100 text-orange-800',
+      cancelled: 'bg-gray-100 text-gray-800'
     };
     
     const labels = {
       quotation: 'Quotation',
       quotation_sent: 'Quotation Sent',
+      confirmed: 'Confirmed',
       reserved: 'Reserved',
       pickedup: 'Picked Up',
-      returned: 'Returned'
+      returned: 'Returned',
+      late: 'Late',
+      cancelled: 'Cancelled'
     };
 
     return (
@@ -286,7 +302,10 @@ export default function EndUserOrders() {
 
                     <div className="space-y-2 mb-4">
                       <div className="text-xs text-gray-500">
-                        {order.id}
+                        {order.orderReference}
+                      </div>
+                      <div className="text-xs text-gray-600 truncate" title={order.products}>
+                        {order.itemCount} {order.itemCount === 1 ? 'item' : 'items'} · {order.products}
                       </div>
                       {getStatusBadge(order.status)}
                       {order.pickupDate && (
@@ -365,7 +384,7 @@ export default function EndUserOrders() {
                             {getStatusBadge(order.status)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            -
+                            {order.tax > 0 ? order.tax : '-'}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right flex items-center justify-end">
                             <IndianRupee className="w-4 h-4 mr-1" />
@@ -19,7 +19,8 @@ import {
   FileText,
   Search,
   ChevronDown,
-  IndianRupee
+  IndianRupee,
+  Tag
 } from 'lucide-react';
 import { logger } from '@/lib/logger';
 import toast from 'react-hot-toast';
@@ -38,6 +39,11 @@ export default function EndUserDashboard() {
     topCategories: [] as Array<{ category: string; ordered: number; revenue: number }>,
     topProducts: [] as Array<{ product: string; ordered: number; revenue: number }>,
     topCustomers: [] as Array<{ customer: string; ordered: number; revenue: number }>,
+    coupons: {
+      redemptions: 0,
+      discount: 0,
+      topCoupons: [] as Array<{ code: string; redemptions: number; discount: number }>,
+    },
   });
 
   // Redirect non-end users
@@ -325,6 +331,68 @@ export default function EndUserDashboard() {
           </div>
         </div>
 
+        {/* Coupon Redemptions */}
+        <div className="mt-8">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Coupon Redemptions</h3>
+              <button
+                onClick={() => router.push('/enduser/coupons')}
+                className="text-sm text-primary-700 hover:text-primary-900 flex items-center"
+              >
+                <Tag className="h-4 w-4 mr-1" />
+                Manage coupons
+              </button>
+            </div>
+            <div className="p-6">
+              <div className="grid grid-cols-2 gap-6 mb-6">
+                <div>
+                  <p className="text-sm text-gray-500">Redemptions</p>
+                  <p className="text-2xl font-bold text-gray-900">{dashboardData.coupons.redemptions}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Discount given</p>
+                  <p className="text-2xl font-bold text-gray-900 flex items-center">
+                    <IndianRupee className="h-5 w-5 mr-1" />
+                    {dashboardData.coupons.discount.toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              {dashboardData.coupons.topCoupons.length === 0 ? (
+                <p className="text-sm text-gray-500">No coupons redeemed in this period</p>
+              ) : (
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500 uppercase tracking-wide">
+                        Code
+                      </th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500 uppercase tracking-wide">
+                        Redemptions
+                      </th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500 uppercase tracking-wide">
+                        Discount
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {dashboardData.coupons.topCoupons.map((item) => (
+                      <tr key={item.code}>
+                        <td className="py-4 text-sm font-medium text-gray-900 font-mono">{item.code}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">{item.redemptions}</td>
+                        <td className="py-4 text-sm text-gray-600 text-right flex items-center justify-end">
+                          <IndianRupee className="h-4 w-4 mr-1" />
+                          {item.discount}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Quick Actions */}
         <div className="mt-8 grid grid-cols-1 md:grid-cols-4 gap-4">
           <button
@@ -0,0 +1,538 @@
+/**
+ * Enduser Price Lists Page
+ * Negotiated rates for corporate customers: fixed rates per product or a
+ * percentage off a product, a category or everything, assigned to customer
+ * accounts or to every account at a company's email domain
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { BadgePercent, Edit, Info, Plus, Power, Save, Trash2, X } from 'lucide-react';
+import { RATE_FIELDS, describePriceListEntry, normalizeEmailDomain } from '@/lib/priceLists';
+import { PriceList, PriceListEntryType, PriceListRates } from '@/types';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+const RATE_LABELS: Record<keyof PriceListRates, string> = {
+  pricePerHour: 'Hour',
+  pricePerDay: 'Day',
+  pricePerWeek: 'Week',
+  pricePerMonth: 'Month',
+  pricePerYear: 'Year',
+};
+
+type EntryScope = 'product' | 'category' | 'all';
+
+interface EntryForm {
+  scope: EntryScope;
+  productId: string;
+  category: string;
+  type: PriceListEntryType;
+  percentOff: string;
+  rates: Record<keyof PriceListRates, string>;
+}
+
+interface ListForm {
+  name: string;
+  description: string;
+  customerEmails: string[];
+  emailDomains: string[];
+  entries: EntryForm[];
+  active: boolean;
+}
+
+const EMPTY_RATES = { pricePerHour: '', pricePerDay: '', pricePerWeek: '', pricePerMonth: '', pricePerYear: '' };
+
+const EMPTY_ENTRY: EntryForm = { scope: 'all', productId: '', category: '', type: 'percent', percentOff: '', rates: EMPTY_RATES };
+
+const EMPTY_FORM: ListForm = { name: '', description: '', customerEmails: [], emailDomains: [], entries: [EMPTY_ENTRY], active: true };
+
+export default function EnduserPriceLists() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [lists, setLists] = useState<PriceList[]>([]);
+  const [products, setProducts] = useState<Array<{ _id: string; name: string }>>([]);
+  const [customers, setCustomers] = useState<Array<{ email: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ListForm>(EMPTY_FORM);
+  const [emailInput, setEmailInput] = useState('');
+  const [domainInput, setDomainInput] = useState('');
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadLists();
+    loadProducts();
+    loadCustomers();
+  }, [session, status, router]);
+
+  const loadLists = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/enduser/price-lists');
+      const json = await res.json();
+      if (json?.success) setLists(json.data || []);
+      else toast.error(json?.error || 'Failed to load price lists');
+    } catch { toast.error('Failed to load price lists'); } finally { setLoading(false); }
+  };
+
+  const loadProducts = async () => {
+    try {
+      const res = await fetch('/api/products?myProducts=true');
+      const json = await res.json();
+      if (json?.success) setProducts(json.data || []);
+    } catch { toast.error('Failed to load products'); }
+  };
+
+  const loadCustomers = async () => {
+    try {
+      const res = await fetch('/api/enduser/customers');
+      const json = await res.json();
+      if (json?.success) setCustomers(json.data || []);
+    } catch { toast.error('Failed to load customers'); }
+  };
+
+  const updateEntry = (index: number, changes: Partial<EntryForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      entries: prev.entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    }));
+  };
+
+  const addEmail = () => {
+    const email = emailInput.trim().toLowerCase();
+    if (!email.includes('@')) { toast.error('Enter a customer email'); return; }
+    if (!form.customerEmails.includes(email)) setForm((prev) => ({ ...prev, customerEmails: [...prev.customerEmails, email] }));
+    setEmailInput('');
+  };
+
+  const addDomain = () => {
+    const domain = normalizeEmailDomain(domainInput);
+    if (!domain.includes('.')) { toast.error('Enter a domain such as acme.com'); return; }
+    if (!form.emailDomains.includes(domain)) setForm((prev) => ({ ...prev, emailDomains: [...prev.emailDomains, domain] }));
+    setDomainInput('');
+  };
+
+  const removeFrom = (key: 'customerEmails' | 'emailDomains', value: string) => {
+    setForm((prev) => ({ ...prev, [key]: prev[key].filter((v) => v !== value) }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEdit = (list: PriceList) => {
+    setEditingId(list._id || null);
+    setForm({
+      name: list.name,
+      description: list.description || '',
+      customerEmails: list.customerEmails,
+      emailDomains: list.emailDomains,
+      entries: list.entries.map((entry) => ({
+        scope: entry.productId ? 'product' : entry.category ? 'category' : 'all',
+        productId: entry.productId || '',
+        category: entry.category || '',
+        type: entry.type,
+        percentOff: entry.percentOff ? String(entry.percentOff) : '',
+        rates: RATE_FIELDS.reduce(
+          (rates, field) => ({ ...rates, [field]: entry[field] ? String(entry[field]) : '' }),
+          { ...EMPTY_RATES }
+        ),
+      })),
+      active: list.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('A name is required');
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await fetch(editingId ? `/api/enduser/price-lists/${editingId}` : '/api/enduser/price-lists', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          entries: form.entries.map((entry) => ({
+            type: entry.type,
+            productId: entry.scope === 'product' ? entry.productId : undefined,
+            category: entry.scope === 'category' ? entry.category : undefined,
+            percentOff: entry.percentOff,
+            ...entry.rates,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Price list saved');
+        setShowForm(false);
+        loadLists();
+      } else { toast.error(json?.error || 'Failed to save price list'); }
+    } catch { toast.error('Failed to save price list'); } finally { setSaving(false); }
+  };
+
+  const toggleActive = async (list: PriceList) => {
+    try {
+      const res = await fetch(`/api/enduser/price-lists/${list._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !list.active }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(list.active ? `${list.name} paused` : `${list.name} resumed`);
+        loadLists();
+      } else { toast.error(json?.error || 'Failed to update price list'); }
+    } catch { toast.error('Failed to update price list'); }
+  };
+
+  const handleDelete = async (list: PriceList) => {
+    if (!confirm(`Delete price list ${list.name}? Its customers go back to public prices.`)) return;
+    try {
+      const res = await fetch(`/api/enduser/price-lists/${list._id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Price list deleted');
+        loadLists();
+      } else { toast.error(json?.error || 'Failed to delete price list'); }
+    } catch { toast.error('Failed to delete price list'); }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+  const productName = (id?: string) => products.find((p) => p._id === id)?.name;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Price Lists</h1>
+              <p className="text-gray-600 mt-1">Negotiated rates for your corporate customers</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Price List
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {showForm && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center">
+                <BadgePercent className="w-5 h-5 text-primary-800 mr-2" />
+                <h3 className="text-lg font-semibold text-gray-900">{editingId ? `Edit ${form.name}` : 'New Price List'}</h3>
+              </div>
+              <button onClick={() => setShowForm(false)} className="p-2 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    maxLength={80}
+                    value={form.name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Acme Corp contract"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <input
+                    type="text"
+                    maxLength={300}
+                    value={form.description}
+                    onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                    placeholder="Annual agreement, renews in April"
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Customer accounts</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="email"
+                      list="price-list-customers"
+                      value={emailInput}
+                      onChange={(e) => setEmailInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addEmail(); } }}
+                      placeholder="buyer@acme.com"
+                      className={inputClass}
+                    />
+                    <datalist id="price-list-customers">
+                      {customers.map((customer) => (
+                        <option key={customer.email} value={customer.email}>{customer.name}</option>
+                      ))}
+                    </datalist>
+                    <button onClick={addEmail} className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">Add</button>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {form.customerEmails.map((email) => (
+                      <span key={email} className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-primary-100 text-primary-800">
+                        {email}
+                        <button onClick={() => removeFrom('customerEmails', email)} className="ml-1"><X className="w-3 h-3" /></button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Company email domains</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={domainInput}
+                      onChange={(e) => setDomainInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addDomain(); } }}
+                      placeholder="acme.com"
+                      className={inputClass}
+                    />
+                    <button onClick={addDomain} className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">Add</button>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {form.emailDomains.map((domain) => (
+                      <span key={domain} className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-primary-100 text-primary-800">
+                        @{domain}
+                        <button onClick={() => removeFrom('emailDomains', domain)} className="ml-1"><X className="w-3 h-3" /></button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.active}
+                    onChange={(e) => setForm((prev) => ({ ...prev, active: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <div className="flex items-start">
+                    <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                    <div className="text-sm text-blue-800 space-y-2">
+                      <p>
+                        Customers on a list see its prices in the shop once signed in, and pricing rules do not apply to
+                        them. Products the list has no price for stay at public prices.
+                      </p>
+                      <p>A customer is on one list at a time; a list naming their account wins over one covering their domain.</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-700">Prices</p>
+                  <button
+                    onClick={() => setForm((prev) => ({ ...prev, entries: [...prev.entries, EMPTY_ENTRY] }))}
+                    className="flex items-center text-sm text-primary-800 hover:text-primary-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add price
+                  </button>
+                </div>
+                {form.entries.map((entry, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <select
+                        value={entry.scope}
+                        onChange={(e) => {
+                          const scope = e.target.value as EntryScope;
+                          updateEntry(index, { scope, type: scope === 'product' ? entry.type : 'percent' });
+                        }}
+                        className={inputClass}
+                      >
+                        <option value="all">All products</option>
+                        <option value="category">Category</option>
+                        <option value="product">Product</option>
+                      </select>
+                      {entry.scope === 'product' && (
+                        <select value={entry.productId} onChange={(e) => updateEntry(index, { productId: e.target.value })} className={inputClass}>
+                          <option value="">Choose a product</option>
+                          {products.map((product) => (
+                            <option key={product._id} value={product._id}>{product.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {entry.scope === 'category' && (
+                        <select value={entry.category} onChange={(e) => updateEntry(index, { category: e.target.value })} className={inputClass}>
+                          <option value="">Choose a category</option>
+                          {CATEGORIES.map((category) => (
+                            <option key={category} value={category}>{category}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+
+                    <div className="flex items-center space-x-4">
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          checked={entry.type === 'percent'}
+                          onChange={() => updateEntry(index, { type: 'percent' })}
+                          className="mr-2"
+                        />
+                        Percentage off
+                      </label>
+                      <label className={`flex items-center text-sm ${entry.scope === 'product' ? 'text-gray-700' : 'text-gray-400'}`}>
+                        <input
+                          type="radio"
+                          checked={entry.type === 'fixed'}
+                          disabled={entry.scope !== 'product'}
+                          onChange={() => updateEntry(index, { type: 'fixed' })}
+                          className="mr-2"
+                        />
+                        Fixed rates
+                      </label>
+                      <button
+                        onClick={() => setForm((prev) => ({ ...prev, entries: prev.entries.filter((_, i) => i !== index) }))}
+                        className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {entry.type === 'percent' ? (
+                      <input
+                        type="number"
+                        min={0.01}
+                        max={100}
+                        step="0.5"
+                        value={entry.percentOff}
+                        onChange={(e) => updateEntry(index, { percentOff: e.target.value })}
+                        placeholder="% off public rates"
+                        className={inputClass}
+                      />
+                    ) : (
+                      <div className="grid grid-cols-5 gap-2">
+                        {RATE_FIELDS.map((field) => (
+                          <div key={field}>
+                            <label className="block text-xs text-gray-500 mb-1">₹/{RATE_LABELS[field]}</label>
+                            <input
+                              type="number"
+                              min={0}
+                              value={entry.rates[field]}
+                              onChange={(e) => updateEntry(index, { rates: { ...entry.rates, [field]: e.target.value } })}
+                              className={inputClass}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  A product&apos;s own price wins over its category&apos;s, which wins over an all-products price.
+                  Fixed rates left blank keep the public rate.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Price List'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {lists.length === 0 ? (
+            <div className="p-12 text-center">
+              <BadgePercent className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No price lists yet; every customer pays public prices</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price List</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customers</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prices</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lists.map((list) => (
+                  <tr key={list._id} className={list.active ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{list.name}</p>
+                      {list.description && <p className="text-xs text-gray-500">{list.description}</p>}
+                      {!list.active && <span className="text-xs text-red-600">Paused</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {list.customerEmails.length === 0 && list.emailDomains.length === 0 && 'Nobody yet'}
+                      {list.customerEmails.length > 0 && <p>{list.customerEmails.join(', ')}</p>}
+                      {list.emailDomains.length > 0 && <p>{list.emailDomains.map((domain) => `@${domain}`).join(', ')}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {list.entries.map((entry, index) => (
+                        <p key={index}>{describePriceListEntry(entry, productName(entry.productId))}</p>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <button onClick={() => openEdit(list)} className="p-2 text-gray-400 hover:text-primary-700" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleActive(list)}
+                        className="p-2 text-gray-400 hover:text-primary-700"
+                        title={list.active ? 'Pause' : 'Resume'}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(list)} className="p-2 text-gray-400 hover:text-red-600" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
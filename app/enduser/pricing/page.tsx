@@ -0,0 +1,477 @@
+/**
+ * Enduser Pricing Rules Page
+ * Seasonal and demand-based pricing: weekend multipliers, date-range overrides,
+ * long-rental discounts and last-minute surcharges on top of product rates
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { Edit, Info, Plus, Power, Save, Trash2, TrendingUp, X } from 'lucide-react';
+import {
+  DAY_NAMES,
+  DEFAULT_WEEKEND_DAYS,
+  PRICING_RULE_LABELS,
+  PRICING_RULE_TYPES,
+  describePricingRule,
+} from '@/lib/pricingRules';
+import { PricingRule, PricingRuleType } from '@/types';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+interface RuleForm {
+  name: string;
+  type: PricingRuleType;
+  percent: string;
+  productIds: string[];
+  categories: string[];
+  daysOfWeek: number[];
+  startDate: string; // yyyy-mm-dd
+  endDate: string;
+  minHours: string;
+  withinHours: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  type: 'weekend',
+  percent: '',
+  productIds: [],
+  categories: [],
+  daysOfWeek: DEFAULT_WEEKEND_DAYS,
+  startDate: '',
+  endDate: '',
+  minHours: '',
+  withinHours: '',
+  active: true,
+};
+
+// Rule dates are Indian calendar days
+const toDateInput = (iso?: string | Date) =>
+  iso ? new Date(new Date(iso).getTime() + 330 * 60 * 1000).toISOString().slice(0, 10) : '';
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00+05:30`).toISOString() : '');
+
+export default function EnduserPricingRules() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [products, setProducts] = useState<Array<{ _id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadRules();
+    loadProducts();
+  }, [session, status, router]);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/enduser/pricing-rules');
+      const json = await res.json();
+      if (json?.success) setRules(json.data || []);
+      else toast.error(json?.error || 'Failed to load pricing rules');
+    } catch { toast.error('Failed to load pricing rules'); } finally { setLoading(false); }
+  };
+
+  const loadProducts = async () => {
+    try {
+      const res = await fetch('/api/products?myProducts=true');
+      const json = await res.json();
+      if (json?.success) setProducts(json.data || []);
+    } catch { toast.error('Failed to load products'); }
+  };
+
+  const update = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleIn = (key: 'productIds' | 'categories', value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter((v) => v !== value) : [...prev[key], value],
+    }));
+  };
+
+  const toggleDay = (day: number) => {
+    setForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort(),
+    }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEdit = (rule: PricingRule) => {
+    setEditingId(rule._id || null);
+    setForm({
+      name: rule.name,
+      type: rule.type,
+      percent: String(rule.percent),
+      productIds: rule.productIds,
+      categories: rule.categories,
+      daysOfWeek: rule.daysOfWeek || DEFAULT_WEEKEND_DAYS,
+      startDate: toDateInput(rule.startDate),
+      endDate: toDateInput(rule.endDate),
+      minHours: rule.minHours ? String(rule.minHours) : '',
+      withinHours: rule.withinHours ? String(rule.withinHours) : '',
+      active: rule.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !parseFloat(form.percent)) {
+      toast.error('A name and a price change are required');
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await fetch(editingId ? `/api/enduser/pricing-rules/${editingId}` : '/api/enduser/pricing-rules', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          percent: parseFloat(form.percent),
+          // Only the fields of the chosen rule type are kept
+          daysOfWeek: form.type === 'weekend' ? form.daysOfWeek : [],
+          startDate: form.type === 'date_range' ? fromDateInput(form.startDate) : '',
+          endDate: form.type === 'date_range' ? fromDateInput(form.endDate) : '',
+          minHours: form.type === 'long_duration' ? form.minHours : '',
+          withinHours: form.type === 'lead_time' ? form.withinHours : '',
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Pricing rule saved');
+        setShowForm(false);
+        loadRules();
+      } else { toast.error(json?.error || 'Failed to save pricing rule'); }
+    } catch { toast.error('Failed to save pricing rule'); } finally { setSaving(false); }
+  };
+
+  const toggleActive = async (rule: PricingRule) => {
+    try {
+      const res = await fetch(`/api/enduser/pricing-rules/${rule._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !rule.active }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(rule.active ? `${rule.name} paused` : `${rule.name} resumed`);
+        loadRules();
+      } else { toast.error(json?.error || 'Failed to update pricing rule'); }
+    } catch { toast.error('Failed to update pricing rule'); }
+  };
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (!confirm(`Delete pricing rule ${rule.name}?`)) return;
+    try {
+      const res = await fetch(`/api/enduser/pricing-rules/${rule._id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message || 'Pricing rule deleted');
+        loadRules();
+      } else { toast.error(json?.error || 'Failed to delete pricing rule'); }
+    } catch { toast.error('Failed to delete pricing rule'); }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+  const productName = (id: string) => products.find((p) => p._id === id)?.name || 'Removed product';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Pricing Rules</h1>
+              <p className="text-gray-600 mt-1">Adjust product rates for weekends, seasons, long rentals and last-minute bookings</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Rule
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {showForm && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center">
+                <TrendingUp className="w-5 h-5 text-primary-800 mr-2" />
+                <h3 className="text-lg font-semibold text-gray-900">{editingId ? `Edit ${form.name}` : 'New Pricing Rule'}</h3>
+              </div>
+              <button onClick={() => setShowForm(false)} className="p-2 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    maxLength={80}
+                    value={form.name}
+                    onChange={(e) => update('name', e.target.value)}
+                    placeholder="Diwali season"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Rule</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => update('type', e.target.value as PricingRuleType)}
+                      className={inputClass}
+                    >
+                      {PRICING_RULE_TYPES.map((type) => (
+                        <option key={type} value={type}>{PRICING_RULE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Price change (%)</label>
+                    <input
+                      type="number"
+                      min={-90}
+                      max={500}
+                      step="0.5"
+                      value={form.percent}
+                      onChange={(e) => update('percent', e.target.value)}
+                      placeholder="25 or -10"
+                      className={inputClass}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Positive raises the rate, negative discounts it</p>
+                  </div>
+                </div>
+
+                {form.type === 'weekend' && (
+                  <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-2">Days</p>
+                    <div className="flex flex-wrap gap-2">
+                      {DAY_NAMES.map((name, day) => (
+                        <button
+                          key={name}
+                          type="button"
+                          onClick={() => toggleDay(day)}
+                          className={`px-3 py-1 rounded-full text-sm border ${
+                            form.daysOfWeek.includes(day)
+                              ? 'bg-primary-800 text-white border-primary-800'
+                              : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                          }`}
+                        >
+                          {name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {form.type === 'date_range' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">First day</label>
+                      <input type="date" value={form.startDate} onChange={(e) => update('startDate', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Last day</label>
+                      <input type="date" value={form.endDate} onChange={(e) => update('endDate', e.target.value)} className={inputClass} />
+                    </div>
+                  </div>
+                )}
+
+                {form.type === 'long_duration' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Rentals of at least (hours)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.minHours}
+                      onChange={(e) => update('minHours', e.target.value)}
+                      placeholder="168 for a week"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                {form.type === 'lead_time' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Booked less than this many hours ahead</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.withinHours}
+                      onChange={(e) => update('withinHours', e.target.value)}
+                      placeholder="24"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.active}
+                    onChange={(e) => update('active', e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">Categories</p>
+                  <div className="flex flex-wrap gap-2">
+                    {CATEGORIES.map((category) => (
+                      <button
+                        key={category}
+                        type="button"
+                        onClick={() => toggleIn('categories', category)}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          form.categories.includes(category)
+                            ? 'bg-primary-800 text-white border-primary-800'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                        }`}
+                      >
+                        {category}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">Products</p>
+                  <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {products.length === 0 && <p className="p-3 text-sm text-gray-500">No products yet</p>}
+                    {products.map((product) => (
+                      <label key={product._id} className="flex items-center px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={form.productIds.includes(product._id)}
+                          onChange={() => toggleIn('productIds', product._id)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">{product.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Leave categories and products empty to cover all your products</p>
+                </div>
+
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <div className="flex items-start">
+                    <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                    <div className="text-sm text-blue-800 space-y-2">
+                      <p>
+                        Weekend and date-range rules change the price of the hours they cover, so a Friday-to-Monday
+                        rental pays the weekend rate on Saturday and Sunday only. Several can apply at once.
+                      </p>
+                      <p>Only the long-rental and last-minute rules with the closest threshold apply. Orders keep the price they were placed at.</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {rules.length === 0 ? (
+            <div className="p-12 text-center">
+              <TrendingUp className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No pricing rules yet; products are priced from their rates alone</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule._id} className={rule.active ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{rule.name}</p>
+                      <p className="text-xs text-gray-500">{PRICING_RULE_LABELS[rule.type]}</p>
+                      {!rule.active && <span className="text-xs text-red-600">Paused</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{describePricingRule(rule)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {rule.categories.length === 0 && rule.productIds.length === 0 && 'All products'}
+                      {rule.categories.length > 0 && <p>{rule.categories.join(', ')}</p>}
+                      {rule.productIds.length > 0 && <p>{rule.productIds.map(productName).join(', ')}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <button onClick={() => openEdit(rule)} className="p-2 text-gray-400 hover:text-primary-700" title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleActive(rule)}
+                        className="p-2 text-gray-400 hover:text-primary-700"
+                        title={rule.active ? 'Pause' : 'Resume'}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(rule)} className="p-2 text-gray-400 hover:text-red-600" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Unit History Page
+ * One serialized unit with every rental it was part of and the condition it
+ * went out and came back in
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Package, History } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ASSET_CONDITION_LABELS, ASSET_STATUS_LABELS } from '@/lib/assetStatus';
+import { AssetDetail } from '@/types';
+
+export default function UnitHistory() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const productId = params.id as string;
+  const assetId = params.assetId as string;
+
+  const [asset, setAsset] = useState<AssetDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadAsset();
+  }, [session, status, router, productId, assetId]);
+
+  const loadAsset = async () => {
+    try {
+      const res = await fetch(`/api/products/${productId}/assets/${assetId}`);
+      const json = await res.json();
+      if (json?.success) setAsset(json.data);
+      else toast.error(json?.error || 'Failed to load unit');
+    } catch { toast.error('Failed to load unit'); } finally { setLoading(false); }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  if (!asset) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Unit not found</h3>
+          <button
+            onClick={() => router.push(`/enduser/products/${productId}/assets`)}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            Return to Units
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push(`/enduser/products/${productId}/assets`)}
+              className="p-2 hover:bg-gray-100 rounded-lg"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-semibold text-gray-900">{asset.serialNumber}</h1>
+            <span className="text-gray-500">{asset.productName}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Unit Details */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <div className="text-sm text-gray-600">Status</div>
+              <div className="font-medium text-gray-900">
+                {ASSET_STATUS_LABELS[asset.status]}
+                {asset.currentOrderNumber && (
+                  <button
+                    onClick={() => router.push(`/enduser/orders/${asset.currentOrderId}`)}
+                    className="ml-2 text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    {asset.currentOrderNumber}
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Condition</div>
+              <div className="font-medium text-gray-900">{ASSET_CONDITION_LABELS[asset.condition]}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Purchased</div>
+              <div className="font-medium text-gray-900">
+                {asset.purchaseDate ? new Date(asset.purchaseDate).toLocaleDateString() : '-'}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Cost</div>
+              <div className="font-medium text-gray-900">
+                {asset.purchaseCost !== undefined ? `₹${asset.purchaseCost.toLocaleString()}` : '-'}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Rentals</div>
+              <div className="font-medium text-gray-900">{asset.rentalCount}</div>
+            </div>
+          </div>
+          {asset.notes && <p className="mt-4 text-sm text-gray-600">{asset.notes}</p>}
+        </div>
+
+        {/* Rental History */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Rental History
+          </h3>
+
+          {asset.rentals.length === 0 ? (
+            <p className="text-sm text-gray-500">This unit has not been rented yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Order</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Customer</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Out</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Back</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Condition Out</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Condition In</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {asset.rentals.map((rental, index) => (
+                    <tr key={`${rental.rentalOrderId}-${index}`} className="border-b border-gray-100">
+                      <td className="py-3 text-sm">
+                        <button
+                          onClick={() => router.push(`/enduser/orders/${rental.rentalOrderId}`)}
+                          className="text-primary-600 hover:text-primary-700"
+                        >
+                          {rental.orderNumber}
+                        </button>
+                      </td>
+                      <td className="py-3 text-sm text-gray-900">{rental.customerName}</td>
+                      <td className="py-3 text-sm text-gray-600 whitespace-nowrap">{new Date(rental.assignedAt).toLocaleString()}</td>
+                      <td className="py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {rental.cancelled
+                          ? 'Order cancelled'
+                          : rental.returnedAt
+                            ? new Date(rental.returnedAt).toLocaleString()
+                            : 'Out now'}
+                      </td>
+                      <td className="py-3 text-sm text-gray-900">{ASSET_CONDITION_LABELS[rental.conditionOut]}</td>
+                      <td className={`py-3 text-sm ${rental.conditionIn === 'damaged' ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                        {rental.conditionIn ? ASSET_CONDITION_LABELS[rental.conditionIn] : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
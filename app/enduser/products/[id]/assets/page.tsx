@@ -0,0 +1,323 @@
+/**
+ * Product Units Page
+ * Register the serialized units of a product and keep their condition and
+ * status up to date
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Package, Plus, Save, Barcode, History, Printer } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  ASSET_CONDITIONS,
+  ASSET_CONDITION_LABELS,
+  ASSET_STATUS_LABELS,
+  MANUAL_ASSET_STATUSES,
+} from '@/lib/assetStatus';
+import { AssetCondition, AssetStatus, AssetSummary } from '@/types';
+
+const STATUS_STYLES: Record<AssetStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  rented: 'bg-blue-100 text-blue-800',
+  maintenance: 'bg-yellow-100 text-yellow-800',
+  retired: 'bg-gray-100 text-gray-600',
+};
+
+const EMPTY_FORM = { serialNumber: '', purchaseDate: '', purchaseCost: '', condition: 'new' as AssetCondition, notes: '' };
+
+export default function ProductUnits() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const productId = params.id as string;
+
+  const [productName, setProductName] = useState('');
+  const [owned, setOwned] = useState(0);
+  const [assets, setAssets] = useState<AssetSummary[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadAssets();
+  }, [session, status, router, productId]);
+
+  const loadAssets = async () => {
+    try {
+      const res = await fetch(`/api/products/${productId}/assets`);
+      const json = await res.json();
+      if (json?.success) {
+        setProductName(json.data.productName);
+        setOwned(json.data.owned);
+        setAssets(json.data.assets);
+      } else {
+        toast.error(json?.error || 'Failed to load units');
+      }
+    } catch { toast.error('Failed to load units'); } finally { setLoading(false); }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.serialNumber.trim()) {
+      toast.error('Serial number is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/assets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to register unit');
+        return;
+      }
+      toast.success(json.message || 'Unit registered');
+      setForm(EMPTY_FORM);
+      await loadAssets();
+    } catch (error) {
+      console.error('Error registering unit:', error);
+      toast.error('Failed to register unit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (asset: AssetSummary, changes: { status?: AssetStatus; condition?: AssetCondition }) => {
+    try {
+      const res = await fetch(`/api/products/${productId}/assets/${asset._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to update unit');
+        return;
+      }
+      toast.success(json.message || 'Unit updated');
+      setAssets((current) => current.map((a) => (a._id === asset._id ? json.data : a)));
+    } catch (error) {
+      console.error('Error updating unit:', error);
+      toast.error('Failed to update unit');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  const inService = assets.filter((a) => a.status !== 'retired').length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push(`/enduser/products/${productId}/stock`)}
+                className="p-2 hover:bg-gray-100 rounded-lg"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Units</h1>
+              <span className="text-gray-500">{productName}</span>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">
+                {inService} of {owned} owned units registered
+              </span>
+              {inService > 0 && (
+                <button
+                  onClick={() => window.open(`/api/products/${productId}/labels`, '_blank')}
+                  className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print Labels
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Units */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Barcode className="w-5 h-5 mr-2" />
+              Serialized Units
+            </h3>
+
+            {assets.length === 0 ? (
+              <div className="text-center py-8">
+                <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-sm text-gray-500">
+                  No units registered. Units are optional; once a product has units, each pickup names the ones handed over.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Serial Number</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Status</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Condition</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Purchased</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Rentals</th>
+                      <th className="py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assets.map((asset) => (
+                      <tr key={asset._id} className="border-b border-gray-100">
+                        <td className="py-3 text-sm font-medium text-gray-900">{asset.serialNumber}</td>
+                        <td className="py-3 text-sm">
+                          {asset.status === 'rented' ? (
+                            <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES.rented}`}>
+                              {ASSET_STATUS_LABELS.rented}
+                              {asset.currentOrderNumber && ` · ${asset.currentOrderNumber}`}
+                            </span>
+                          ) : (
+                            <select
+                              value={asset.status}
+                              onChange={(e) => handleUpdate(asset, { status: e.target.value as AssetStatus })}
+                              className={`px-2 py-1 rounded-full text-xs font-medium border-0 ${STATUS_STYLES[asset.status]}`}
+                            >
+                              {MANUAL_ASSET_STATUSES.map((s) => (
+                                <option key={s} value={s}>{ASSET_STATUS_LABELS[s]}</option>
+                              ))}
+                            </select>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm">
+                          <select
+                            value={asset.condition}
+                            onChange={(e) => handleUpdate(asset, { condition: e.target.value as AssetCondition })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            {ASSET_CONDITIONS.map((c) => (
+                              <option key={c} value={c}>{ASSET_CONDITION_LABELS[c]}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-3 text-sm text-gray-600">
+                          {asset.purchaseDate ? new Date(asset.purchaseDate).toLocaleDateString() : '-'}
+                          {asset.purchaseCost !== undefined && ` · ₹${asset.purchaseCost.toLocaleString()}`}
+                        </td>
+                        <td className="py-3 text-sm text-gray-900 text-right">{asset.rentalCount}</td>
+                        <td className="py-3 text-right">
+                          <button
+                            onClick={() => router.push(`/enduser/products/${productId}/assets/${asset._id}`)}
+                            className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+                          >
+                            <History className="w-4 h-4 mr-1" />
+                            History
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Register Unit */}
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4 h-fit">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Plus className="w-5 h-5 mr-2" />
+              Register Unit
+            </h3>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Serial Number</label>
+              <input
+                type="text"
+                value={form.serialNumber}
+                onChange={(e) => setForm({ ...form, serialNumber: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                placeholder="e.g. CAM-0042"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Date</label>
+                <input
+                  type="date"
+                  value={form.purchaseDate}
+                  onChange={(e) => setForm({ ...form, purchaseDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cost</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.purchaseCost}
+                  onChange={(e) => setForm({ ...form, purchaseCost: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Condition</label>
+              <select
+                value={form.condition}
+                onChange={(e) => setForm({ ...form, condition: e.target.value as AssetCondition })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {ASSET_CONDITIONS.map((c) => (
+                  <option key={c} value={c}>{ASSET_CONDITION_LABELS[c]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes (Optional)</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving || inService >= owned}
+              className="w-full flex items-center justify-center px-4 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Registering...' : 'Register Unit'}
+            </button>
+            {inService >= owned && (
+              <p className="text-xs text-gray-500">Every owned unit is registered. Increase the stock to add more.</p>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
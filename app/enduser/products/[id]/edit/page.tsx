@@ -24,7 +24,18 @@ import {
   Info,
   ToggleLeft,
   ToggleRight,
+  Clock,
+  ShieldCheck,
+  Receipt,
+  Timer,
+  CalendarClock,
 } from 'lucide-react';
+import { DEFAULT_LATE_FEE_POLICY, LATE_FEE_POLICY_LABELS, LATE_FEE_POLICY_TYPES } from '@/lib/lateFees';
+import { DEPOSIT_RULE_LABELS, DEPOSIT_RULE_TYPES } from '@/lib/deposits';
+import { DEFAULT_GST_RATE, DEFAULT_SAC_CODE, GST_RATES } from '@/lib/gst';
+import { DAY_NAMES } from '@/lib/pricingRules';
+import { normalizeRentalConstraints } from '@/lib/rentalConstraints';
+import { DepositRule, LateFeePolicy, RentalConstraints, TurnaroundBuffer } from '@/types';
 
 /** Product form shape used locally on the client */
 interface ProductFormData {
@@ -40,6 +51,13 @@ interface ProductFormData {
   quantityAvailable: number;
   units: string[]; // Available rental periods chosen (first one will be primary)
   availability: boolean;
+  replacementValue?: number;
+  lateFeePolicy: LateFeePolicy | null; // null uses the business policy
+  depositRule: DepositRule;
+  turnaroundBuffer: TurnaroundBuffer | null; // null uses the business's buffer for the category
+  rentalConstraints: RentalConstraints; // Blank limits do not apply
+  hsnSacCode: string; // Blank uses SAC 9973
+  gstRate: number | ''; // Blank uses 18%
 }
 
 export default function EditProductPage() {
@@ -68,6 +86,13 @@ export default function EditProductPage() {
     quantityAvailable: 1,
     units: ['day'],
     availability: true,
+    replacementValue: undefined,
+    lateFeePolicy: null,
+    depositRule: { type: 'none', amount: 0 },
+    turnaroundBuffer: null,
+    rentalConstraints: {},
+    hsnSacCode: '',
+    gstRate: '',
   });
 
   /** Static options */
@@ -145,6 +170,13 @@ export default function EditProductPage() {
           quantityAvailable: p.quantityAvailable ?? 1,
           units: dedupUnits.length > 0 ? dedupUnits : ['day'],
           availability: Boolean(p.availability),
+          replacementValue: p.replacementValue ?? undefined,
+          lateFeePolicy: p.lateFeePolicy?.type ? { ...DEFAULT_LATE_FEE_POLICY, ...p.lateFeePolicy } : null,
+          depositRule: p.depositRule?.type ? p.depositRule : { type: 'none', amount: 0 },
+          turnaroundBuffer: p.turnaroundBuffer ? { beforeHours: p.turnaroundBuffer.beforeHours || 0, afterHours: p.turnaroundBuffer.afterHours || 0 } : null,
+          rentalConstraints: p.rentalConstraints || {},
+          hsnSacCode: p.hsnSacCode ?? '',
+          gstRate: p.gstRate ?? '',
         });
       } catch (e) {
         toast.error('Failed to load product');
@@ -161,6 +193,26 @@ export default function EditProductPage() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const updateLateFeePolicy = (field: keyof LateFeePolicy, value: any) => {
+    setFormData((prev) => ({
+      ...prev,
+      lateFeePolicy: { ...(prev.lateFeePolicy || DEFAULT_LATE_FEE_POLICY), [field]: value },
+    }));
+  };
+
+  // Blank inputs lift the limit
+  const updateRentalConstraint = (field: keyof RentalConstraints, value: any) => {
+    setFormData((prev) => ({
+      ...prev,
+      rentalConstraints: { ...prev.rentalConstraints, [field]: value === '' ? undefined : value },
+    }));
+  };
+
+  const toggleStartDay = (day: number) => {
+    const days = formData.rentalConstraints.startDaysOfWeek || [];
+    updateRentalConstraint('startDaysOfWeek', days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort());
+  };
+
   const toggleUnit = (unit: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -226,6 +278,11 @@ export default function EditProductPage() {
       toast.error('At least one price must be greater than 0');
       return false;
     }
+    const { minDurationHours, maxDurationHours } = formData.rentalConstraints;
+    if (minDurationHours && maxDurationHours && minDurationHours > maxDurationHours) {
+      toast.error('Minimum rental cannot be longer than the maximum rental');
+      return false;
+    }
     return true;
   };
 
@@ -243,6 +300,13 @@ export default function EditProductPage() {
         quantityAvailable: formData.quantityAvailable,
         availability: formData.availability,
         units: formData.units[0], // Primary unit
+        replacementValue: formData.replacementValue || null,
+        lateFeePolicy: formData.lateFeePolicy,
+        depositRule: formData.depositRule,
+        turnaroundBuffer: formData.turnaroundBuffer,
+        rentalConstraints: normalizeRentalConstraints(formData.rentalConstraints),
+        hsnSacCode: formData.hsnSacCode.trim(),
+        gstRate: formData.gstRate,
       };
       if (formData.pricePerHour && formData.pricePerHour > 0) payload.pricePerHour = formData.pricePerHour;
       if (formData.pricePerDay && formData.pricePerDay > 0) payload.pricePerDay = formData.pricePerDay;
@@ -578,6 +642,266 @@ export default function EditProductPage() {
               </div>
             </div>
           </div>
+
+          {/* Late Fees */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <div className="flex items-center mb-6">
+              <Clock className="w-5 h-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Late Fees</h3>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Replacement Value</label>
+                  <div className="flex items-center">
+                    <IndianRupee className="w-4 h-4 text-gray-400 mr-1" />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.replacementValue ?? ''}
+                      onChange={(e) => handleInputChange('replacementValue', parseFloat(e.target.value) || undefined)}
+                      className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.lateFeePolicy !== null}
+                    onChange={(e) => handleInputChange('lateFeePolicy', e.target.checked ? { ...DEFAULT_LATE_FEE_POLICY } : null)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Use a late fee policy for this product instead of the business policy</span>
+                </label>
+              </div>
+
+              {formData.lateFeePolicy && (
+                <div className="space-y-4">
+                  <select
+                    value={formData.lateFeePolicy.type}
+                    onChange={(e) => updateLateFeePolicy('type', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {LATE_FEE_POLICY_TYPES.map((type) => (
+                      <option key={type} value={type}>{LATE_FEE_POLICY_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">
+                      {formData.lateFeePolicy.type === 'percent_of_daily_rate' ? 'Percent of daily rate:' : 'Amount (₹):'}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.lateFeePolicy.amount}
+                      onChange={(e) => updateLateFeePolicy('amount', parseFloat(e.target.value) || 0)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Grace period (hours):</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={720}
+                      value={formData.lateFeePolicy.gracePeriodHours}
+                      onChange={(e) => updateLateFeePolicy('gracePeriodHours', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.lateFeePolicy.capAtReplacementValue}
+                      onChange={(e) => updateLateFeePolicy('capAtReplacementValue', e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Cap at replacement value</span>
+                  </label>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Security Deposit */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <div className="flex items-center mb-6">
+              <ShieldCheck className="w-5 h-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Security Deposit</h3>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <select
+                value={formData.depositRule.type}
+                onChange={(e) => handleInputChange('depositRule', { ...formData.depositRule, type: e.target.value })}
+                className="w-full h-fit px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {DEPOSIT_RULE_TYPES.map((type) => (
+                  <option key={type} value={type}>{DEPOSIT_RULE_LABELS[type]}</option>
+                ))}
+              </select>
+              {formData.depositRule.type !== 'none' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">
+                      {formData.depositRule.type === 'fixed_per_unit' ? 'Amount per unit (₹):' : 'Percentage (%):'}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.depositRule.amount}
+                      onChange={(e) => handleInputChange('depositRule', { ...formData.depositRule, amount: parseFloat(e.target.value) || 0 })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                  {formData.depositRule.type === 'percent_of_replacement' && !formData.replacementValue && (
+                    <p className="text-xs text-yellow-700">Set a replacement value above, otherwise no deposit is taken</p>
+                  )}
+                  <p className="text-xs text-gray-500">Collected at checkout and refunded after return, less any damage or late fees</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Turnaround */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <div className="flex items-center mb-6">
+              <Timer className="w-5 h-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Turnaround Time</h3>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <label className="flex items-center h-fit">
+                <input
+                  type="checkbox"
+                  checked={formData.turnaroundBuffer !== null}
+                  onChange={(e) => handleInputChange('turnaroundBuffer', e.target.checked ? { beforeHours: 0, afterHours: 0 } : null)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Use turnaround time for this product instead of its category&apos;s</span>
+              </label>
+              {formData.turnaroundBuffer && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Preparation before each rental (hours):</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={720}
+                      value={formData.turnaroundBuffer.beforeHours}
+                      onChange={(e) => handleInputChange('turnaroundBuffer', { ...formData.turnaroundBuffer, beforeHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Cleaning and inspection after (hours):</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={720}
+                      value={formData.turnaroundBuffer.afterHours}
+                      onChange={(e) => handleInputChange('turnaroundBuffer', { ...formData.turnaroundBuffer, afterHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">Units stay unavailable for this time around every rental; customers are not charged for it</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Rental limits */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <div className="flex items-center mb-6">
+              <CalendarClock className="w-5 h-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Rental Limits</h3>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="space-y-4">
+                {([
+                  ['minDurationHours', 'Minimum rental per unit (hours):'],
+                  ['maxDurationHours', 'Maximum rental per unit (hours):'],
+                  ['minNoticeHours', 'Minimum notice before the start (hours):'],
+                  ['maxAdvanceDays', 'Book at most this far ahead (days):'],
+                ] as Array<[keyof RentalConstraints, string]>).map(([field, label]) => (
+                  <div key={field} className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">{label}</span>
+                    <input
+                      type="number"
+                      min={field === 'minNoticeHours' ? 0 : 1}
+                      placeholder="No limit"
+                      value={(formData.rentalConstraints[field] as number | undefined) ?? ''}
+                      onChange={(e) => updateRentalConstraint(field, e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">Rentals may start on</p>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_NAMES.map((name, day) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => toggleStartDay(day)}
+                      className={`px-3 py-1 rounded-full text-sm border ${
+                        formData.rentalConstraints.startDaysOfWeek?.includes(day)
+                          ? 'bg-primary-800 text-white border-primary-800'
+                          : 'bg-white text-gray-700 border-gray-300 hover:border-primary-500'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  No days selected lets rentals start on any day. Limits left blank do not apply; customers see the rest
+                  on the product page and cannot book outside them.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* GST */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <div className="flex items-center mb-6">
+              <Receipt className="w-5 h-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">GST</h3>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">HSN/SAC Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={8}
+                  value={formData.hsnSacCode}
+                  onChange={(e) => handleInputChange('hsnSacCode', e.target.value.replace(/[^0-9]/g, ''))}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  placeholder={DEFAULT_SAC_CODE}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank for SAC {DEFAULT_SAC_CODE}, rental of goods</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">GST Rate</label>
+                <select
+                  value={formData.gstRate}
+                  onChange={(e) => handleInputChange('gstRate', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">Default ({DEFAULT_GST_RATE}%)</option>
+                  {GST_RATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate}%</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Only charged if your business has a GSTIN in Settings</p>
+              </div>
+            </div>
+          </div>
         </form>
       </div>
     </div>
@@ -0,0 +1,533 @@
+/**
+ * Product Maintenance Page
+ * Schedule service, repairs and inspections of a product or its units, move
+ * them through to completion with their cost, and set the plans that schedule
+ * maintenance after a number of rentals or hours rented
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Wrench, Plus, Save, Play, CheckCircle, X, Trash2, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  MAINTENANCE_STATUS_LABELS,
+  MAINTENANCE_TYPES,
+  MAINTENANCE_TYPE_LABELS,
+  isOpenMaintenance,
+} from '@/lib/maintenanceStatus';
+import { AssetSummary, MaintenancePlan, MaintenanceStatus, MaintenanceSummary, MaintenanceType } from '@/types';
+
+const STATUS_STYLES: Record<MaintenanceStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const EMPTY_FORM = {
+  type: 'service' as MaintenanceType,
+  title: '',
+  assetId: '',
+  quantity: '1',
+  startDate: '',
+  endDate: '',
+  cost: '',
+  notes: '',
+};
+
+const EMPTY_PLAN: MaintenancePlan = { title: '', type: 'service', everyRentals: 10, durationHours: 24, active: true };
+
+export default function ProductMaintenance() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const productId = params.id as string;
+
+  const [productName, setProductName] = useState('');
+  const [owned, setOwned] = useState(0);
+  const [records, setRecords] = useState<MaintenanceSummary[]>([]);
+  const [assets, setAssets] = useState<AssetSummary[]>([]);
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [costs, setCosts] = useState<Record<string, string>>({});
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [savingPlans, setSavingPlans] = useState(false);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadMaintenance();
+  }, [session, status, router, productId]);
+
+  const loadMaintenance = async () => {
+    try {
+      const res = await fetch(`/api/products/${productId}/maintenance`);
+      const json = await res.json();
+      if (json?.success) {
+        setProductName(json.data.productName);
+        setOwned(json.data.owned);
+        setRecords(json.data.records);
+        setAssets(json.data.assets);
+        setPlans(json.data.plans);
+        setCosts(Object.fromEntries(json.data.records.map((m: MaintenanceSummary) => [m._id, String(m.cost || '')])));
+      } else {
+        toast.error(json?.error || 'Failed to load maintenance');
+      }
+    } catch { toast.error('Failed to load maintenance'); } finally { setLoading(false); }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim() || !form.startDate || !form.endDate) {
+      toast.error('Title, start and end are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/maintenance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          assetId: form.assetId || undefined,
+          startDate: new Date(form.startDate).toISOString(),
+          endDate: new Date(form.endDate).toISOString(),
+        }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to schedule maintenance');
+        return;
+      }
+      toast.success(json.message || 'Maintenance scheduled');
+      setForm(EMPTY_FORM);
+      await loadMaintenance();
+    } catch (error) {
+      console.error('Error scheduling maintenance:', error);
+      toast.error('Failed to schedule maintenance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (record: MaintenanceSummary, changes: { status?: MaintenanceStatus; cost?: string }) => {
+    try {
+      const res = await fetch(`/api/products/${productId}/maintenance/${record._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to update maintenance');
+        return;
+      }
+      toast.success(json.message || 'Maintenance updated');
+      setRecords((current) => current.map((m) => (m._id === record._id ? json.data : m)));
+    } catch (error) {
+      console.error('Error updating maintenance:', error);
+      toast.error('Failed to update maintenance');
+    }
+  };
+
+  const handleComplete = (record: MaintenanceSummary) =>
+    handleUpdate(record, { status: 'completed', cost: costs[record._id] ?? '' });
+
+  const updatePlan = (index: number, changes: Partial<MaintenancePlan>) => {
+    setPlans((current) => current.map((plan, i) => (i === index ? { ...plan, ...changes } : plan)));
+  };
+
+  const handleSavePlans = async () => {
+    setSavingPlans(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/maintenance`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maintenancePlans: plans }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to save maintenance plans');
+        return;
+      }
+      toast.success(json.message || 'Maintenance plans saved');
+      setPlans(json.data);
+    } catch (error) {
+      console.error('Error saving maintenance plans:', error);
+      toast.error('Failed to save maintenance plans');
+    } finally {
+      setSavingPlans(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  const open = records.filter((m) => isOpenMaintenance(m.status)).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push(`/enduser/products/${productId}/stock`)}
+                className="p-2 hover:bg-gray-100 rounded-lg"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Maintenance</h1>
+              <span className="text-gray-500">{productName}</span>
+            </div>
+            <span className="text-sm text-gray-600">
+              {open} open · {owned} units owned
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Records */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Wrench className="w-5 h-5 mr-2" />
+              Maintenance Records
+            </h3>
+
+            {records.length === 0 ? (
+              <div className="text-center py-8">
+                <Wrench className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-sm text-gray-500">
+                  No maintenance yet. Scheduled maintenance takes its units out of the rental pool for its dates.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Maintenance</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">When</th>
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Status</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Cost</th>
+                      <th className="py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {records.map((record) => (
+                      <tr key={record._id} className="border-b border-gray-100 align-top">
+                        <td className="py-3 text-sm">
+                          <div className="font-medium text-gray-900">{record.title}</div>
+                          <div className="text-xs text-gray-500">
+                            {MAINTENANCE_TYPE_LABELS[record.type]} ·{' '}
+                            {record.serialNumber ? `Unit ${record.serialNumber}` : `${record.quantity} unit${record.quantity === 1 ? '' : 's'}`}
+                            {record.planId && ' · Plan'}
+                          </div>
+                          {record.notes && <div className="text-xs text-gray-500 mt-1">{record.notes}</div>}
+                        </td>
+                        <td className="py-3 text-sm text-gray-600">
+                          {new Date(record.startDate).toLocaleString()}
+                          <div>to {new Date(record.endDate).toLocaleString()}</div>
+                        </td>
+                        <td className="py-3 text-sm">
+                          <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[record.status]}`}>
+                            {MAINTENANCE_STATUS_LABELS[record.status]}
+                          </span>
+                        </td>
+                        <td className="py-3 text-sm text-right">
+                          {record.status === 'cancelled' ? (
+                            <span className="text-gray-400">-</span>
+                          ) : (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={costs[record._id] ?? ''}
+                              onChange={(e) => setCosts({ ...costs, [record._id]: e.target.value })}
+                              onBlur={() => {
+                                if ((costs[record._id] || '') !== String(record.cost || '')) {
+                                  handleUpdate(record, { cost: costs[record._id] || '' });
+                                }
+                              }}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                            />
+                          )}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          {record.status === 'scheduled' && (
+                            <button
+                              onClick={() => handleUpdate(record, { status: 'in_progress' })}
+                              title="Start"
+                              className="p-1 text-yellow-600 hover:text-yellow-700"
+                            >
+                              <Play className="w-4 h-4" />
+                            </button>
+                          )}
+                          {isOpenMaintenance(record.status) && (
+                            <>
+                              <button
+                                onClick={() => handleComplete(record)}
+                                title="Complete"
+                                className="p-1 text-green-600 hover:text-green-700"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleUpdate(record, { status: 'cancelled' })}
+                                title="Cancel"
+                                className="p-1 text-red-600 hover:text-red-700"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Schedule Maintenance */}
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4 h-fit">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Plus className="w-5 h-5 mr-2" />
+              Schedule Maintenance
+            </h3>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as MaintenanceType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {MAINTENANCE_TYPES.map((t) => (
+                    <option key={t} value={t}>{MAINTENANCE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {assets.length > 0 ? 'Unit' : 'Quantity'}
+                </label>
+                {assets.length > 0 ? (
+                  <select
+                    value={form.assetId}
+                    onChange={(e) => setForm({ ...form, assetId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">Any unit</option>
+                    {assets.map((asset) => (
+                      <option key={asset._id} value={asset._id}>{asset.serialNumber}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="number"
+                    min="1"
+                    max={owned}
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+              <input
+                type="text"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                placeholder="e.g. Sensor cleaning"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start</label>
+              <input
+                type="datetime-local"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">End</label>
+              <input
+                type="datetime-local"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Estimated Cost (Optional)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.cost}
+                onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes (Optional)</label>
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex items-center justify-center px-4 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Scheduling...' : 'Schedule Maintenance'}
+            </button>
+          </form>
+        </div>
+
+        {/* Maintenance Plans */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <RefreshCw className="w-5 h-5 mr-2" />
+              Recurring Maintenance
+            </h3>
+            <button
+              type="button"
+              onClick={() => setPlans([...plans, { ...EMPTY_PLAN }])}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Plan
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            When a return brings a unit (or the product, without units) to the interval, maintenance is scheduled from the return.
+          </p>
+
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">No recurring maintenance.</p>
+          ) : (
+            <div className="space-y-3">
+              {plans.map((plan, index) => (
+                <div key={plan._id || index} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Title</label>
+                    <input
+                      type="text"
+                      value={plan.title}
+                      onChange={(e) => updatePlan(index, { title: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+                    <select
+                      value={plan.type}
+                      onChange={(e) => updatePlan(index, { type: e.target.value as MaintenanceType })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {MAINTENANCE_TYPES.map((t) => (
+                        <option key={t} value={t}>{MAINTENANCE_TYPE_LABELS[t]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Every Rentals</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={plan.everyRentals ?? ''}
+                      onChange={(e) => updatePlan(index, { everyRentals: e.target.value ? Number(e.target.value) : undefined })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Every Hours Rented</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={plan.everyHours ?? ''}
+                      onChange={(e) => updatePlan(index, { everyHours: e.target.value ? Number(e.target.value) : undefined })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Takes (Hours)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={plan.durationHours}
+                      onChange={(e) => updatePlan(index, { durationHours: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-3 pb-2">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={plan.active}
+                        onChange={(e) => updatePlan(index, { active: e.target.checked })}
+                        className="mr-2"
+                      />
+                      Active
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setPlans(plans.filter((_, i) => i !== index))}
+                      className="p-1 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 flex justify-end">
+            <button
+              type="button"
+              onClick={handleSavePlans}
+              disabled={savingPlans}
+              className="flex items-center px-4 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {savingPlans ? 'Saving...' : 'Save Plans'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
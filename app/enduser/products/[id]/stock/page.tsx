@@ -1,17 +1,17 @@
 /**
  * Update Stock Page
- * Interface for updating product inventory levels
+ * Adjust a product's stock through its ledger, set its minimum and maximum
+ * levels and review every stock movement
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import { useRouter, useParams } from 'next/navigation';
 import {
   ArrowLeft,
   Settings,
-  ChevronLeft,
-  ChevronRight,
   Save,
   X,
   Plus,
@@ -22,119 +22,93 @@ import {
   TrendingUp,
   TrendingDown,
   Calendar,
-  History
+  History,
+  Trash2,
+  Barcode,
+  Printer,
+  Wrench
 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { StockMovementType, StockOverview, StockStatus } from '@/types';
 
-interface StockData {
-  productId: string;
-  productName: string;
-  currentStock: number;
-  reservedStock: number;
-  availableStock: number;
-  minimumStock: number;
-  maximumStock: number;
-  lastUpdated: string;
-  stockHistory: Array<{
-    date: string;
-    action: 'increase' | 'decrease' | 'reserve' | 'return';
-    quantity: number;
-    reason: string;
-    updatedBy: string;
-  }>;
-}
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  increase: 'Increase',
+  decrease: 'Decrease',
+  reservation: 'Reserved',
+  return: 'Returned',
+  write_off: 'Write-off',
+};
+
+const STATUS_MESSAGES: Record<StockStatus, string> = {
+  out_of_stock: 'Out of Stock',
+  low: 'Low Stock',
+  normal: 'Normal Stock',
+  high: 'High Stock',
+};
+
+type AdjustmentType = 'increase' | 'decrease' | 'write_off';
 
 export default function UpdateStock() {
+  const { data: session, status } = useSession();
   const router = useRouter();
   const params = useParams();
   const productId = params.id as string;
 
-  const [stockData, setStockData] = useState<StockData | null>(null);
-  const [adjustmentType, setAdjustmentType] = useState<'increase' | 'decrease'>('increase');
+  const [stockData, setStockData] = useState<StockOverview | null>(null);
+  const [adjustmentType, setAdjustmentType] = useState<AdjustmentType>('increase');
   const [adjustmentQuantity, setAdjustmentQuantity] = useState(1);
   const [adjustmentReason, setAdjustmentReason] = useState('');
-  const [minimumStock, setMinimumStock] = useState(0);
-  const [maximumStock, setMaximumStock] = useState(100);
+  const [minimumStock, setMinimumStock] = useState('');
+  const [maximumStock, setMaximumStock] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
-  // Mock data - In real app, fetch from API
   useEffect(() => {
-    const mockData: StockData = {
-      productId: productId,
-      productName: 'Professional Camera Kit',
-      currentStock: 5,
-      reservedStock: 2,
-      availableStock: 3,
-      minimumStock: 2,
-      maximumStock: 20,
-      lastUpdated: '2024-01-15T10:30:00Z',
-      stockHistory: [
-        {
-          date: '2024-01-15T10:30:00Z',
-          action: 'increase',
-          quantity: 3,
-          reason: 'New inventory received',
-          updatedBy: 'Admin User'
-        },
-        {
-          date: '2024-01-14T14:20:00Z',
-          action: 'reserve',
-          quantity: 1,
-          reason: 'Customer rental booking',
-          updatedBy: 'System'
-        },
-        {
-          date: '2024-01-13T09:15:00Z',
-          action: 'decrease',
-          quantity: 1,
-          reason: 'Damaged item removed',
-          updatedBy: 'Admin User'
-        }
-      ]
-    };
-
-    setTimeout(() => {
-      setStockData(mockData);
-      setMinimumStock(mockData.minimumStock);
-      setMaximumStock(mockData.maximumStock);
-      setLoading(false);
-    }, 500);
-  }, [productId]);
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadStock();
+  }, [session, status, router, productId]);
+
+  const showStock = (data: StockOverview) => {
+    setStockData(data);
+    setMinimumStock(data.stockLevels.minimum ? String(data.stockLevels.minimum) : '');
+    setMaximumStock(data.stockLevels.maximum ? String(data.stockLevels.maximum) : '');
+  };
+
+  const loadStock = async () => {
+    try {
+      const res = await fetch(`/api/products/${productId}/stock`);
+      const json = await res.json();
+      if (json?.success) showStock(json.data);
+      else toast.error(json?.error || 'Failed to load stock');
+    } catch { toast.error('Failed to load stock'); } finally { setLoading(false); }
+  };
 
   const handleStockAdjustment = async () => {
     if (!stockData || adjustmentQuantity <= 0) return;
 
     setSaving(true);
     try {
-      // API call to update stock would go here
-      const newStock = adjustmentType === 'increase' 
-        ? stockData.currentStock + adjustmentQuantity
-        : Math.max(0, stockData.currentStock - adjustmentQuantity);
-
-      const newAvailable = newStock - stockData.reservedStock;
-
-      setStockData(prev => prev ? {
-        ...prev,
-        currentStock: newStock,
-        availableStock: Math.max(0, newAvailable),
-        lastUpdated: new Date().toISOString(),
-        stockHistory: [
-          {
-            date: new Date().toISOString(),
-            action: adjustmentType,
-            quantity: adjustmentQuantity,
-            reason: adjustmentReason || `Stock ${adjustmentType}`,
-            updatedBy: 'Current User'
-          },
-          ...prev.stockHistory
-        ]
-      } : null);
+      const res = await fetch(`/api/products/${productId}/stock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: adjustmentType, quantity: adjustmentQuantity, reason: adjustmentReason }),
+      });
+      const json = await res.json();
+      if (!json?.success) {
+        toast.error(json?.error || 'Failed to update stock');
+        return;
+      }
+      toast.success(json.message || 'Stock updated');
 
       // Reset form
       setAdjustmentQuantity(1);
       setAdjustmentReason('');
+      await loadStock();
     } catch (error) {
       console.error('Error updating stock:', error);
+      toast.error('Failed to update stock');
     } finally {
       setSaving(false);
     }
@@ -145,14 +119,21 @@ export default function UpdateStock() {
 
     setSaving(true);
     try {
-      // API call to update stock limits would go here
-      setStockData(prev => prev ? {
-        ...prev,
-        minimumStock,
-        maximumStock
-      } : null);
+      const res = await fetch(`/api/products/${productId}/stock`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stockLevels: { minimum: minimumStock, maximum: maximumStock } }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        showStock(json.data);
+        toast.success(json.message || 'Stock levels updated');
+      } else {
+        toast.error(json?.error || 'Failed to update stock levels');
+      }
     } catch (error) {
       console.error('Error updating stock limits:', error);
+      toast.error('Failed to update stock levels');
     } finally {
       setSaving(false);
     }
@@ -160,16 +141,8 @@ export default function UpdateStock() {
 
   const getStockStatus = () => {
     if (!stockData) return { status: 'normal', message: '', color: 'gray' };
-
-    if (stockData.availableStock <= 0) {
-      return { status: 'out_of_stock', message: 'Out of Stock', color: 'red' };
-    } else if (stockData.availableStock <= stockData.minimumStock) {
-      return { status: 'low', message: 'Low Stock', color: 'yellow' };
-    } else if (stockData.currentStock >= stockData.maximumStock) {
-      return { status: 'high', message: 'High Stock', color: 'blue' };
-    } else {
-      return { status: 'normal', message: 'Normal Stock', color: 'green' };
-    }
+    const colors: Record<StockStatus, string> = { out_of_stock: 'red', low: 'yellow', high: 'blue', normal: 'green' };
+    return { status: stockData.status, message: STATUS_MESSAGES[stockData.status], color: colors[stockData.status] };
   };
 
   const stockStatus = getStockStatus();
@@ -216,13 +189,32 @@ export default function UpdateStock() {
               <Settings className="w-5 h-5 text-gray-400" />
             </div>
 
-            <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">1/80</span>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronLeft className="w-4 h-4" />
+            <div className="flex items-center space-x-4">
+              {stockData.lastUpdated && (
+                <span className="text-sm text-gray-600">
+                  Last updated {new Date(stockData.lastUpdated).toLocaleString()}
+                </span>
+              )}
+              <button
+                onClick={() => router.push(`/enduser/products/${productId}/assets`)}
+                className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Barcode className="w-4 h-4 mr-2" />
+                Units
               </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronRight className="w-4 h-4" />
+              <button
+                onClick={() => router.push(`/enduser/products/${productId}/maintenance`)}
+                className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Wrench className="w-4 h-4 mr-2" />
+                Maintenance
+              </button>
+              <button
+                onClick={() => window.open(`/api/products/${productId}/labels`, '_blank')}
+                className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Labels
               </button>
             </div>
           </div>
@@ -252,15 +244,15 @@ export default function UpdateStock() {
 
               <div className="grid grid-cols-3 gap-4">
                 <div className="text-center p-4 bg-gray-50 rounded-lg">
-                  <div className="text-2xl font-bold text-gray-900">{stockData.currentStock}</div>
+                  <div className="text-2xl font-bold text-gray-900">{stockData.owned}</div>
                   <div className="text-sm text-gray-600">Total Stock</div>
                 </div>
                 <div className="text-center p-4 bg-yellow-50 rounded-lg">
-                  <div className="text-2xl font-bold text-yellow-600">{stockData.reservedStock}</div>
+                  <div className="text-2xl font-bold text-yellow-600">{stockData.reserved}</div>
                   <div className="text-sm text-gray-600">Reserved</div>
                 </div>
                 <div className="text-center p-4 bg-green-50 rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">{stockData.availableStock}</div>
+                  <div className="text-2xl font-bold text-green-600">{stockData.available}</div>
                   <div className="text-sm text-gray-600">Available</div>
                 </div>
               </div>
@@ -283,7 +275,7 @@ export default function UpdateStock() {
                         name="adjustmentType"
                         value="increase"
                         checked={adjustmentType === 'increase'}
-                        onChange={(e) => setAdjustmentType(e.target.value as 'increase' | 'decrease')}
+                        onChange={(e) => setAdjustmentType(e.target.value as AdjustmentType)}
                         className="text-green-600 focus:ring-green-500"
                       />
                       <span className="ml-2 text-sm text-gray-700 flex items-center">
@@ -297,7 +289,7 @@ export default function UpdateStock() {
                         name="adjustmentType"
                         value="decrease"
                         checked={adjustmentType === 'decrease'}
-                        onChange={(e) => setAdjustmentType(e.target.value as 'increase' | 'decrease')}
+                        onChange={(e) => setAdjustmentType(e.target.value as AdjustmentType)}
                         className="text-red-600 focus:ring-red-500"
                       />
                       <span className="ml-2 text-sm text-gray-700 flex items-center">
@@ -305,6 +297,20 @@ export default function UpdateStock() {
                         Decrease Stock
                       </span>
                     </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="adjustmentType"
+                        value="write_off"
+                        checked={adjustmentType === 'write_off'}
+                        onChange={(e) => setAdjustmentType(e.target.value as AdjustmentType)}
+                        className="text-red-600 focus:ring-red-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700 flex items-center">
+                        <Trash2 className="w-4 h-4 text-red-600 mr-1" />
+                        Write Off
+                      </span>
+                    </label>
                   </div>
                 </div>
 
@@ -363,7 +369,7 @@ export default function UpdateStock() {
                   } disabled:opacity-50`}
                 >
                   <Save className="w-4 h-4 mr-2" />
-                  {saving ? 'Updating...' : `${adjustmentType === 'increase' ? 'Increase' : 'Decrease'} Stock`}
+                  {saving ? 'Updating...' : adjustmentType === 'write_off' ? 'Write Off Units' : `${adjustmentType === 'increase' ? 'Increase' : 'Decrease'} Stock`}
                 </button>
               </div>
             </div>
@@ -384,7 +390,8 @@ export default function UpdateStock() {
                     type="number"
                     min="0"
                     value={minimumStock}
-                    onChange={(e) => setMinimumStock(parseInt(e.target.value) || 0)}
+                    onChange={(e) => setMinimumStock(e.target.value)}
+                    placeholder="No minimum"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                   />
                 </div>
@@ -397,7 +404,8 @@ export default function UpdateStock() {
                     type="number"
                     min="1"
                     value={maximumStock}
-                    onChange={(e) => setMaximumStock(parseInt(e.target.value) || 1)}
+                    onChange={(e) => setMaximumStock(e.target.value)}
+                    placeholder="No maximum"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                   />
                 </div>
@@ -412,44 +420,69 @@ export default function UpdateStock() {
                 </button>
               </div>
             </div>
+          </div>
+        </div>
 
-            {/* Stock History */}
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-                <History className="w-5 h-5 mr-2" />
-                Recent Activity
-              </h3>
-              
-              <div className="space-y-3">
-                {stockData.stockHistory.slice(0, 5).map((entry, index) => (
-                  <div key={index} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
-                    <div className={`p-1 rounded-full ${
-                      entry.action === 'increase' ? 'bg-green-100' :
-                      entry.action === 'decrease' ? 'bg-red-100' :
-                      entry.action === 'reserve' ? 'bg-yellow-100' :
-                      'bg-blue-100'
-                    }`}>
-                      {entry.action === 'increase' && <TrendingUp className="w-3 h-3 text-green-600" />}
-                      {entry.action === 'decrease' && <TrendingDown className="w-3 h-3 text-red-600" />}
-                      {entry.action === 'reserve' && <Calendar className="w-3 h-3 text-yellow-600" />}
-                      {entry.action === 'return' && <CheckCircle className="w-3 h-3 text-blue-600" />}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900">
-                        {entry.action === 'increase' && '+'}
-                        {entry.action === 'decrease' && '-'}
-                        {entry.quantity} units
-                      </p>
-                      <p className="text-xs text-gray-600">{entry.reason}</p>
-                      <p className="text-xs text-gray-500">
-                        {new Date(entry.date).toLocaleDateString()} by {entry.updatedBy}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
+        {/* Stock History */}
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Stock History
+          </h3>
+
+          {stockData.movements.length === 0 ? (
+            <p className="text-sm text-gray-500">No stock movements yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Date</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">Movement</th>
+                    <th className="text-right py-3 text-sm font-medium text-gray-500">Quantity</th>
+                    <th className="text-right py-3 text-sm font-medium text-gray-500">Stock After</th>
+                    <th className="text-left py-3 pl-6 text-sm font-medium text-gray-500">Reason</th>
+                    <th className="text-left py-3 text-sm font-medium text-gray-500">By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stockData.movements.map((entry) => (
+                    <tr key={entry._id} className="border-b border-gray-100">
+                      <td className="py-3 text-sm text-gray-600 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="py-3 text-sm">
+                        <span className="inline-flex items-center">
+                          {entry.type === 'increase' && <TrendingUp className="w-4 h-4 text-green-600 mr-1" />}
+                          {entry.type === 'decrease' && <TrendingDown className="w-4 h-4 text-red-600 mr-1" />}
+                          {entry.type === 'write_off' && <Trash2 className="w-4 h-4 text-red-600 mr-1" />}
+                          {entry.type === 'reservation' && <Calendar className="w-4 h-4 text-yellow-600 mr-1" />}
+                          {entry.type === 'return' && <CheckCircle className="w-4 h-4 text-blue-600 mr-1" />}
+                          {MOVEMENT_LABELS[entry.type]}
+                        </span>
+                      </td>
+                      <td className={`py-3 text-sm text-right font-medium ${
+                        entry.change > 0 ? 'text-green-600' : entry.change < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}>
+                        {entry.change > 0 ? '+' : entry.change < 0 ? '-' : ''}{entry.quantity}
+                      </td>
+                      <td className="py-3 text-sm text-gray-900 text-right">{entry.balance}</td>
+                      <td className="py-3 pl-6 text-sm text-gray-600">
+                        {entry.reason}
+                        {entry.rentalOrderId && (
+                          <button
+                            onClick={() => router.push(`/enduser/orders/${entry.rentalOrderId}`)}
+                            className="ml-2 text-primary-600 hover:text-primary-700"
+                          >
+                            View order
+                          </button>
+                        )}
+                      </td>
+                      <td className="py-3 text-sm text-gray-600">{entry.createdByName}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
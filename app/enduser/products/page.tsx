@@ -22,7 +22,8 @@ import {
   IndianRupee,
   Eye,
   ToggleLeft,
-  ToggleRight
+  ToggleRight,
+  TrendingUp
 } from 'lucide-react';
 
 interface Product {
@@ -178,6 +179,13 @@ export default function EndUserProducts() {
               </button>
               <h1 className="text-xl font-semibold text-gray-900">Products</h1>
               <Settings className="w-5 h-5 text-gray-400" />
+              <button
+                onClick={() => router.push('/enduser/pricing')}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <TrendingUp className="w-4 h-4 mr-2" />
+                Pricing Rules
+              </button>
             </div>
 
             <div className="flex items-center space-x-4">
@@ -19,11 +19,15 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js';
-import { Calendar, TrendingUp, IndianRupee } from 'lucide-react';
+import { Calendar, TrendingUp, IndianRupee, ShieldCheck, Wrench } from 'lucide-react';
+import { MAINTENANCE_TYPES, MAINTENANCE_TYPE_LABELS } from '@/lib/maintenanceStatus';
+import { MaintenanceCostReport } from '@/types';
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Tooltip, Legend);
 
-type Bucket = { _id: any; orders: number; revenue: number };
+type Bucket = { _id: any; orders: number; revenue: number; credits: number; debits: number }; // Revenue is net of notes
+type DepositTotals = { collected: number; deducted: number; refunded: number; held: number };
+type NoteTotals = { credits: number; debits: number };
 
 export default function EnduserReports() {
   const { data: session, status } = useSession();
@@ -31,6 +35,9 @@ export default function EnduserReports() {
   const [groupBy, setGroupBy] = useState<'day'|'week'|'month'>('day');
   const [range, setRange] = useState(90);
   const [rows, setRows] = useState<Bucket[]>([]);
+  const [deposits, setDeposits] = useState<DepositTotals | null>(null);
+  const [adjustments, setAdjustments] = useState<NoteTotals | null>(null);
+  const [maintenance, setMaintenance] = useState<MaintenanceCostReport | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -47,6 +54,9 @@ export default function EnduserReports() {
         const json = await res.json();
         if (json?.success) {
           setRows(json.data || []);
+          setDeposits(json.deposits || null);
+          setAdjustments(json.adjustments || null);
+          setMaintenance(json.maintenance || null);
         } else { toast.error('Failed to load reports'); }
       } catch { toast.error('Failed to load reports'); } finally { setLoading(false); }
     };
@@ -134,6 +144,11 @@ export default function EnduserReports() {
             <div className="p-4 rounded-lg bg-primary-50">
               <div className="text-sm text-gray-600">Total Revenue</div>
               <div className="text-2xl font-bold">₹ {rows.reduce((s,r)=>s+r.revenue,0).toLocaleString()}</div>
+              {adjustments && (adjustments.credits > 0 || adjustments.debits > 0) && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Includes +₹{adjustments.debits.toLocaleString()} debit and −₹{adjustments.credits.toLocaleString()} credit notes
+                </div>
+              )}
             </div>
             <div className="p-4 rounded-lg bg-green-50">
               <div className="text-sm text-gray-600">Total Orders</div>
@@ -145,6 +160,76 @@ export default function EnduserReports() {
             </div>
           </div>
         </div>
+
+        {deposits && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center mb-1">
+              <ShieldCheck className="w-5 h-5 text-primary-800 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Security Deposits</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">Deposits are owed back to customers and are not counted as revenue</p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="p-4 rounded-lg bg-yellow-50">
+                <div className="text-sm text-gray-600">Held (liability)</div>
+                <div className="text-2xl font-bold">₹ {deposits.held.toLocaleString()}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-gray-50">
+                <div className="text-sm text-gray-600">Collected</div>
+                <div className="text-2xl font-bold">₹ {deposits.collected.toLocaleString()}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-gray-50">
+                <div className="text-sm text-gray-600">Kept for damage & late fees</div>
+                <div className="text-2xl font-bold">₹ {deposits.deducted.toLocaleString()}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-gray-50">
+                <div className="text-sm text-gray-600">Refunded</div>
+                <div className="text-2xl font-bold">₹ {deposits.refunded.toLocaleString()}</div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {maintenance && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center mb-1">
+              <Wrench className="w-5 h-5 text-primary-800 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Maintenance Costs</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">Maintenance completed in the selected range</p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="p-4 rounded-lg bg-yellow-50">
+                <div className="text-sm text-gray-600">Total ({maintenance.count} completed)</div>
+                <div className="text-2xl font-bold">₹ {maintenance.cost.toLocaleString()}</div>
+              </div>
+              {MAINTENANCE_TYPES.map((type) => (
+                <div key={type} className="p-4 rounded-lg bg-gray-50">
+                  <div className="text-sm text-gray-600">{MAINTENANCE_TYPE_LABELS[type]} ({maintenance.byType[type].count})</div>
+                  <div className="text-2xl font-bold">₹ {maintenance.byType[type].cost.toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+            {maintenance.products.length > 0 && (
+              <table className="min-w-full mt-6">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 text-sm font-medium text-gray-500">Product</th>
+                    <th className="text-right py-2 text-sm font-medium text-gray-500">Completed</th>
+                    <th className="text-right py-2 text-sm font-medium text-gray-500">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {maintenance.products.map((row) => (
+                    <tr key={row.productId} className="border-b border-gray-100">
+                      <td className="py-2 text-sm text-gray-900">{row.productName}</td>
+                      <td className="py-2 text-sm text-gray-900 text-right">{row.count}</td>
+                      <td className="py-2 text-sm text-gray-900 text-right">₹ {row.cost.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
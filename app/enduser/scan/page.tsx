@@ -0,0 +1,231 @@
+/**
+ * Scan Page
+ * Counter screen for barcode scanners: scan a product or unit label to see its
+ * rentals and mark it picked up or returned in one step
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { ScanBarcode, Package, Truck, CheckCircle, AlertCircle, FileText } from 'lucide-react';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { ASSET_CONDITIONS, ASSET_CONDITION_LABELS, ASSET_STATUS_LABELS } from '@/lib/assetStatus';
+import { AssetCondition, ScanRental, ScanResult } from '@/types';
+
+export default function ScanHandover() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [condition, setCondition] = useState<AssetCondition>('good');
+  const [log, setLog] = useState<Array<{ at: string; message: string; ok: boolean }>>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    inputRef.current?.focus();
+  }, [session, status, router]);
+
+  const addLog = (message: string, ok: boolean) => {
+    setLog((prev) => [{ at: new Date().toLocaleTimeString(), message, ok }, ...prev].slice(0, 20));
+  };
+
+  const showResult = (data: ScanResult) => {
+    setResult(data);
+    setCondition(data.asset?.condition || 'good');
+  };
+
+  // Scanners type the code and press Enter
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    if (!scanned) return;
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/enduser/scan?code=${encodeURIComponent(scanned)}`);
+      const json = await res.json();
+      if (json?.success) {
+        showResult(json.data);
+      } else {
+        setResult(null);
+        toast.error(json?.error || 'Code not found');
+        addLog(`${scanned}: ${json?.error || 'Code not found'}`, false);
+      }
+    } catch {
+      toast.error('Failed to look up code');
+    } finally {
+      setBusy(false);
+      setCode('');
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleHandover = async (rental: ScanRental) => {
+    if (!result) return;
+    setBusy(true);
+    try {
+      const res = await fetch('/api/enduser/scan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: result.code,
+          orderId: rental.rentalOrderId,
+          action: rental.action,
+          condition: result.asset && rental.action === 'return' ? condition : undefined,
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        showResult(json.data);
+        toast.success(json.message || 'Done');
+        addLog(json.message || 'Done', true);
+      } else {
+        toast.error(json?.error || 'Failed to hand over item');
+        addLog(`${result.code}: ${json?.error || 'Failed to hand over item'}`, false);
+      }
+    } catch {
+      toast.error('Failed to hand over item');
+    } finally {
+      setBusy(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ScanBarcode className="w-6 h-6 mr-2" />
+            Scan
+          </h1>
+          <form onSubmit={handleScan} className="mt-4 flex space-x-3">
+            <input
+              ref={inputRef}
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Scan a label or type a serial number"
+              autoComplete="off"
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-6 py-3 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              Look Up
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {result && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Package className="w-5 h-5 mr-2" />
+                  {result.productName}
+                </h2>
+                {result.asset ? (
+                  <p className="text-sm text-gray-600 mt-1">
+                    Unit {result.asset.serialNumber} · {ASSET_STATUS_LABELS[result.asset.status]} ·{' '}
+                    {ASSET_CONDITION_LABELS[result.asset.condition]}
+                    {result.asset.currentOrderNumber && ` · out on ${result.asset.currentOrderNumber}`}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-600 mt-1">Product label</p>
+                )}
+              </div>
+              <span className="text-xs font-mono text-gray-500">{result.code}</span>
+            </div>
+
+            <div className="p-6">
+              {result.rentals.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {result.asset && result.asset.status !== 'available' && result.asset.status !== 'rented'
+                    ? `This unit is ${ASSET_STATUS_LABELS[result.asset.status].toLowerCase()} and cannot be handed over.`
+                    : 'No rentals are due to go out or come back with this item.'}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {result.rentals.map((rental) => (
+                    <div key={rental.rentalOrderId} className="flex items-center justify-between border border-gray-200 rounded-lg p-4">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {rental.orderNumber} · {rental.customerName}
+                        </div>
+                        <div className="text-xs text-gray-600 mt-1">
+                          {ORDER_STATUS_LABELS[rental.status]} · {new Date(rental.startDate).toLocaleString()} –{' '}
+                          {new Date(rental.endDate).toLocaleString()} · {rental.quantity} unit{rental.quantity === 1 ? '' : 's'}
+                          {rental.unitsAssigned > 0 && ` (${rental.unitsAssigned} scanned)`}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {result.asset && rental.action === 'return' && (
+                          <select
+                            value={condition}
+                            onChange={(e) => setCondition(e.target.value as AssetCondition)}
+                            className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                          >
+                            {ASSET_CONDITIONS.map((c) => (
+                              <option key={c} value={c}>Returned {ASSET_CONDITION_LABELS[c].toLowerCase()}</option>
+                            ))}
+                          </select>
+                        )}
+                        <Link
+                          href={`/enduser/orders/${rental.rentalOrderId}`}
+                          className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </Link>
+                        <button
+                          onClick={() => handleHandover(rental)}
+                          disabled={busy}
+                          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                          {rental.action === 'pickup' ? <Truck className="w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                          {rental.action === 'pickup' ? 'Mark Picked Up' : 'Mark Returned'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Scan Log */}
+        {log.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="font-semibold text-gray-900 mb-3">This Session</h3>
+            <ul className="space-y-2">
+              {log.map((entry, index) => (
+                <li key={index} className="flex items-center text-sm">
+                  {entry.ok
+                    ? <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
+                    : <AlertCircle className="w-4 h-4 text-red-600 mr-2 flex-shrink-0" />}
+                  <span className="text-gray-500 mr-2">{entry.at}</span>
+                  <span className="text-gray-900">{entry.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,676 @@
+/**
+ * Enduser Settings Page
+ * Business-wide rental settings such as the late fee and cancellation
+ * policies, the GST registration, turnaround time per category, opening hours and
+ * pickup slots, and the background jobs that keep rental statuses up to date
+ */
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { CalendarDays, Clock, Info, Play, Plus, Receipt, RefreshCw, Save, Timer, Trash2, XCircle } from 'lucide-react';
+import {
+  DEFAULT_LATE_FEE_POLICY,
+  LATE_FEE_POLICY_LABELS,
+  LATE_FEE_POLICY_TYPES,
+  calculateLateFee,
+  describeLateFee,
+} from '@/lib/lateFees';
+import { DEFAULT_CANCELLATION_POLICY, describeCancellationPolicy } from '@/lib/cancellation';
+import { INDIAN_STATES, isValidGstin } from '@/lib/gst';
+import { MAX_BUFFER_HOURS } from '@/lib/turnaround';
+import { DAY_NAMES } from '@/lib/pricingRules';
+import { DEFAULT_HANDOVER_SCHEDULE, MAX_SLOT_CAPACITY, SLOT_LENGTHS } from '@/lib/handoverSchedule';
+import {
+  CancellationPolicy,
+  CategoryTurnaroundBuffer,
+  HandoverSchedule,
+  HolidayClosure,
+  JobName,
+  JobRun,
+  LateFeePolicy,
+} from '@/types';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+interface JobSummary {
+  name: JobName;
+  label: string;
+  description: string;
+  intervalMinutes: number;
+  lastRun: JobRun | null;
+}
+
+// Sample rental used to preview the policy: ₹500/day, ₹50/hour, ₹10,000 replacement value
+const PREVIEW_TERMS = { dailyRate: 500, hourlyRate: 50, replacementValue: 10000 };
+const PREVIEW_HOURS_LATE = 50;
+
+export default function EnduserSettings() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [lateFeePolicy, setLateFeePolicy] = useState<LateFeePolicy>(DEFAULT_LATE_FEE_POLICY);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [gstin, setGstin] = useState('');
+  const [stateCode, setStateCode] = useState('');
+  const [turnaroundBuffers, setTurnaroundBuffers] = useState<CategoryTurnaroundBuffer[]>([]);
+  const [handoverSchedule, setHandoverSchedule] = useState<HandoverSchedule>(DEFAULT_HANDOVER_SCHEDULE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [runningJob, setRunningJob] = useState<JobName | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+  }, [session, status, router]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch('/api/enduser/settings');
+        const json = await res.json();
+        if (json?.success) {
+          setLateFeePolicy({ ...DEFAULT_LATE_FEE_POLICY, ...json.data?.lateFeePolicy });
+          setCancellationPolicy(json.data?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY);
+          setGstin(json.data?.gstin || '');
+          setStateCode(json.data?.stateCode || '');
+          setTurnaroundBuffers(json.data?.turnaroundBuffers || []);
+          setHandoverSchedule(json.data?.handoverSchedule || DEFAULT_HANDOVER_SCHEDULE);
+        } else { toast.error(json?.error || 'Failed to load settings'); }
+      } catch { toast.error('Failed to load settings'); } finally { setLoading(false); }
+    };
+    load();
+    loadJobs();
+  }, []);
+
+  const loadJobs = async () => {
+    try {
+      const res = await fetch('/api/enduser/jobs');
+      const json = await res.json();
+      if (json?.success) setJobs(json.data?.jobs || []);
+    } catch { toast.error('Failed to load jobs'); }
+  };
+
+  const runJobNow = async (name: JobName) => {
+    setRunningJob(name);
+    try {
+      const res = await fetch(`/api/enduser/jobs/${name}`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok || !json?.success) {
+        toast.error(json?.error || 'Job failed');
+      } else {
+        toast.success(json.message || 'Job finished');
+      }
+      await loadJobs();
+    } catch {
+      toast.error('Job failed');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const preview = useMemo(() => {
+    const dueAt = new Date();
+    const returnedAt = new Date(dueAt.getTime() + PREVIEW_HOURS_LATE * 60 * 60 * 1000);
+    return calculateLateFee({ ...lateFeePolicy, ...PREVIEW_TERMS }, dueAt, returnedAt, 1);
+  }, [lateFeePolicy]);
+
+  const updatePolicy = (field: keyof LateFeePolicy, value: any) => {
+    setLateFeePolicy((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateTier = (index: number, field: 'hoursBeforeStart' | 'refundPercent', value: number) => {
+    setCancellationPolicy((prev) => ({
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    }));
+  };
+
+  const addTier = () => {
+    setCancellationPolicy((prev) => ({ tiers: [...prev.tiers, { hoursBeforeStart: 0, refundPercent: 0 }] }));
+  };
+
+  const removeTier = (index: number) => {
+    setCancellationPolicy((prev) => ({ tiers: prev.tiers.filter((_, i) => i !== index) }));
+  };
+
+  const updateBuffer = (index: number, changes: Partial<CategoryTurnaroundBuffer>) => {
+    setTurnaroundBuffers((prev) => prev.map((buffer, i) => (i === index ? { ...buffer, ...changes } : buffer)));
+  };
+
+  const addBuffer = () => {
+    const unused = CATEGORIES.find((category) => !turnaroundBuffers.some((buffer) => buffer.category === category));
+    if (!unused) return;
+    setTurnaroundBuffers((prev) => [...prev, { category: unused, beforeHours: 0, afterHours: 0 }]);
+  };
+
+  const removeBuffer = (index: number) => {
+    setTurnaroundBuffers((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const updateSchedule = (changes: Partial<HandoverSchedule>) => {
+    setHandoverSchedule((prev) => ({ ...prev, ...changes }));
+  };
+
+  // A day without hours is closed
+  const updateOpeningHours = (dayOfWeek: number, hours: { open: string; close: string } | null) => {
+    setHandoverSchedule((prev) => ({
+      ...prev,
+      openingHours: [
+        ...prev.openingHours.filter((entry) => entry.dayOfWeek !== dayOfWeek),
+        ...(hours ? [{ dayOfWeek, ...hours }] : []),
+      ].sort((a, b) => a.dayOfWeek - b.dayOfWeek),
+    }));
+  };
+
+  const updateHoliday = (index: number, changes: Partial<HolidayClosure>) => {
+    setHandoverSchedule((prev) => ({
+      ...prev,
+      holidays: prev.holidays.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)),
+    }));
+  };
+
+  const addHoliday = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    setHandoverSchedule((prev) => ({ ...prev, holidays: [...prev.holidays, { startDate: today, endDate: today, name: '' }] }));
+  };
+
+  const removeHoliday = (index: number) => {
+    setHandoverSchedule((prev) => ({ ...prev, holidays: prev.holidays.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    if (gstin && !isValidGstin(gstin)) {
+      toast.error('Please enter a valid GSTIN');
+      return;
+    }
+    if (handoverSchedule.openingHours.some((hours) => hours.close <= hours.open)) {
+      toast.error('Closing time must be after opening time');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/enduser/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lateFeePolicy, cancellationPolicy, gstin, stateCode, turnaroundBuffers, handoverSchedule }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json?.success) {
+        toast.error(json?.error || 'Failed to save settings');
+        return;
+      }
+      toast.success('Settings saved');
+    } catch {
+      toast.error('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+              <p className="text-gray-600 mt-1">Rental policies applied across your business</p>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center px-6 py-2 bg-primary-800 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-6">
+            <Clock className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Late Fee Policy</h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Charge</label>
+                <select
+                  value={lateFeePolicy.type}
+                  onChange={(e) => updatePolicy('type', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {LATE_FEE_POLICY_TYPES.map((type) => (
+                    <option key={type} value={type}>{LATE_FEE_POLICY_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {lateFeePolicy.type === 'percent_of_daily_rate' ? 'Percentage of daily rate (%)' : 'Amount (₹)'}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={lateFeePolicy.amount}
+                  onChange={(e) => updatePolicy('amount', parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+                {lateFeePolicy.type === 'hourly' && (
+                  <p className="text-xs text-gray-500 mt-1">Leave at 0 to charge each product's hourly rate</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Grace period (hours)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={720}
+                  value={lateFeePolicy.gracePeriodHours}
+                  onChange={(e) => updatePolicy('gracePeriodHours', Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={lateFeePolicy.capAtReplacementValue}
+                  onChange={(e) => updatePolicy('capAtReplacementValue', e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Never charge more than the product's replacement value</span>
+              </label>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 h-fit">
+              <div className="flex items-start">
+                <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 space-y-2">
+                  <p className="font-medium">Example: returned {PREVIEW_HOURS_LATE} hours late</p>
+                  <p className="text-blue-700">
+                    For a ₹{PREVIEW_TERMS.dailyRate}/day (₹{PREVIEW_TERMS.hourlyRate}/hour) product worth ₹{PREVIEW_TERMS.replacementValue.toLocaleString()}:
+                  </p>
+                  <p className="text-blue-700">{describeLateFee(preview)}</p>
+                  <p className="text-lg font-semibold">₹{preview.amount.toLocaleString()}</p>
+                  <p className="text-blue-700">
+                    Products can override this policy from their edit page. Orders keep the policy in force when they were placed.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-6">
+            <XCircle className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Cancellation Policy</h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-3">
+              {cancellationPolicy.tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={0}
+                    value={tier.hoursBeforeStart}
+                    onChange={(e) => updateTier(index, 'hoursBeforeStart', Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-sm text-gray-600">hours or more before start refunds</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={tier.refundPercent}
+                    onChange={(e) => updateTier(index, 'refundPercent', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-sm text-gray-600">%</span>
+                  <button onClick={() => removeTier(index)} className="p-2 text-gray-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={addTier} className="flex items-center text-sm text-primary-800 hover:text-primary-700">
+                <Plus className="w-4 h-4 mr-1" />
+                Add tier
+              </button>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 h-fit">
+              <div className="flex items-start">
+                <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 space-y-2">
+                  <p className="font-medium">When a customer cancels</p>
+                  {describeCancellationPolicy(cancellationPolicy).map((line) => (
+                    <p key={line} className="text-blue-700">{line}</p>
+                  ))}
+                  <p className="text-blue-700">
+                    Orders you cancel yourself are always refunded in full. Refunds go back through Razorpay.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-6">
+            <Timer className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Turnaround Time</h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-3">
+              {turnaroundBuffers.map((buffer, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <select
+                    value={buffer.category}
+                    onChange={(e) => updateBuffer(index, { category: e.target.value })}
+                    className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_BUFFER_HOURS}
+                    value={buffer.beforeHours}
+                    onChange={(e) => updateBuffer(index, { beforeHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-sm text-gray-600">h before,</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_BUFFER_HOURS}
+                    value={buffer.afterHours}
+                    onChange={(e) => updateBuffer(index, { afterHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-sm text-gray-600">h after</span>
+                  <button onClick={() => removeBuffer(index)} className="p-2 text-gray-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={addBuffer} className="flex items-center text-sm text-primary-800 hover:text-primary-700">
+                <Plus className="w-4 h-4 mr-1" />
+                Add category
+              </button>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 h-fit">
+              <div className="flex items-start">
+                <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 space-y-2">
+                  <p className="font-medium">Time to prepare units between rentals</p>
+                  <p className="text-blue-700">
+                    Units stay unavailable for these hours before and after every rental so they can be cleaned,
+                    inspected and charged. Customers see the time as blocked and are not charged for it.
+                  </p>
+                  <p className="text-blue-700">A product can set its own turnaround time on its edit page.</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-6">
+            <CalendarDays className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Opening Hours &amp; Pickup Slots</h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-6">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={handoverSchedule.enabled}
+                  onChange={(e) => updateSchedule({ enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Customers pick up and return rentals in these slots only</span>
+              </label>
+
+              <div className="space-y-2">
+                {DAY_NAMES.map((name, dayOfWeek) => {
+                  const hours = handoverSchedule.openingHours.find((entry) => entry.dayOfWeek === dayOfWeek);
+                  return (
+                    <div key={name} className="flex items-center gap-3">
+                      <label className="flex items-center w-20">
+                        <input
+                          type="checkbox"
+                          checked={!!hours}
+                          onChange={(e) => updateOpeningHours(dayOfWeek, e.target.checked ? { open: '09:00', close: '18:00' } : null)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">{name}</span>
+                      </label>
+                      {hours ? (
+                        <>
+                          <input
+                            type="time"
+                            value={hours.open}
+                            onChange={(e) => updateOpeningHours(dayOfWeek, { open: e.target.value, close: hours.close })}
+                            className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          />
+                          <span className="text-sm text-gray-600">to</span>
+                          <input
+                            type="time"
+                            value={hours.close}
+                            onChange={(e) => updateOpeningHours(dayOfWeek, { open: hours.open, close: e.target.value })}
+                            className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          />
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-400">Closed</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-600">Slots of</span>
+                <select
+                  value={handoverSchedule.slotMinutes}
+                  onChange={(e) => updateSchedule({ slotMinutes: Number(e.target.value) })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {SLOT_LENGTHS.map((minutes) => (
+                    <option key={minutes} value={minutes}>{minutes} minutes</option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-600">with at most</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_SLOT_CAPACITY}
+                  value={handoverSchedule.slotCapacity}
+                  onChange={(e) => updateSchedule({ slotCapacity: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+                <span className="text-sm text-gray-600">handovers each</span>
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium text-gray-700">Holiday closures</p>
+                {handoverSchedule.holidays.map((holiday, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <input
+                      type="date"
+                      value={holiday.startDate}
+                      onChange={(e) => updateHoliday(index, { startDate: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <span className="text-sm text-gray-600">to</span>
+                    <input
+                      type="date"
+                      value={holiday.endDate}
+                      min={holiday.startDate}
+                      onChange={(e) => updateHoliday(index, { endDate: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <input
+                      type="text"
+                      value={holiday.name || ''}
+                      placeholder="e.g. Diwali"
+                      onChange={(e) => updateHoliday(index, { name: e.target.value })}
+                      className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <button onClick={() => removeHoliday(index)} className="p-2 text-gray-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={addHoliday} className="flex items-center text-sm text-primary-800 hover:text-primary-700">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add closure
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 h-fit">
+              <div className="flex items-start">
+                <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 space-y-2">
+                  <p className="font-medium">When customers collect and bring back rentals</p>
+                  <p className="text-blue-700">
+                    At checkout customers pick a pickup slot on the day their rental starts and a return slot on the
+                    day it ends. Only slots inside your opening hours, outside holiday closures and with room left
+                    are offered; pickups and returns share each slot&apos;s limit. A limit of 0 allows any number.
+                  </p>
+                  <p className="text-blue-700">Times are Indian Standard Time. Orders already placed keep their times.</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-6">
+            <Receipt className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">GST Registration</h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+                <input
+                  type="text"
+                  maxLength={15}
+                  value={gstin}
+                  onChange={(e) => {
+                    const value = e.target.value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+                    setGstin(value);
+                    // The first two digits of a GSTIN are its state code
+                    if (isValidGstin(value)) setStateCode(value.slice(0, 2));
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 font-mono"
+                  placeholder="22AAAAA0000A1Z5"
+                />
+                {gstin && !isValidGstin(gstin) && (
+                  <p className="text-xs text-red-600 mt-1">Not a valid GSTIN</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+                <select
+                  value={stateCode}
+                  onChange={(e) => setStateCode(e.target.value)}
+                  disabled={isValidGstin(gstin)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                >
+                  <option value="">Select state</option>
+                  {INDIAN_STATES.map((state) => (
+                    <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 h-fit">
+              <div className="flex items-start">
+                <Info className="w-5 h-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-blue-800 space-y-2">
+                  <p className="font-medium">How GST is charged</p>
+                  <p className="text-blue-700">
+                    Deliveries within your state are charged CGST and SGST at half the product&apos;s rate each; deliveries to other states are charged IGST.
+                  </p>
+                  <p className="text-blue-700">
+                    Products use SAC 9973 at 18% unless set on their edit page. Without a GSTIN no GST is charged.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center">
+              <RefreshCw className="w-5 h-5 text-primary-800 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Background Jobs</h3>
+            </div>
+            <button onClick={loadJobs} className="text-sm text-primary-800 hover:text-primary-700">Refresh</button>
+          </div>
+
+          <div className="divide-y divide-gray-200">
+            {jobs.map((job) => (
+              <div key={job.name} className="py-4 flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{job.label}</div>
+                  <div className="text-sm text-gray-600">{job.description}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Every {job.intervalMinutes >= 60 ? `${job.intervalMinutes / 60}h` : `${job.intervalMinutes} min`}
+                    {' · '}
+                    {job.lastRun
+                      ? `Last run ${new Date(job.lastRun.startedAt).toLocaleString()} (${job.lastRun.trigger}, ${job.lastRun.status}, ${job.lastRun.processed} processed)`
+                      : 'Never run'}
+                  </div>
+                  {job.lastRun?.error && <div className="text-xs text-red-600 mt-1">{job.lastRun.error}</div>}
+                </div>
+                <button
+                  onClick={() => runJobNow(job.name)}
+                  disabled={runningJob !== null}
+                  className="flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  <Play className="w-4 h-4 mr-1" />
+                  {runningJob === job.name ? 'Running...' : 'Run now'}
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-4">Manual runs only affect your own orders and bookings.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,63 +1,75 @@
 /**
  * Transfer Management Page (Pickup/Return)
- * Handle product pickups and returns for rental orders
+ * Schedule, assign and validate the pickup and return transfers generated for
+ * confirmed rental orders, naming the serialized units handed over at pickup
+ * and their condition on return
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
 import {
-  Plus,
-  Settings,
   ChevronLeft,
   ChevronRight,
   CheckCircle,
-  XCircle,
   Calendar,
   MapPin,
   User,
   Package,
   Truck,
-  IndianRupee,
-  Clock,
-  AlertCircle
+  Save,
+  FileText,
+  AlertCircle,
+  Barcode
 } from 'lucide-react';
+import { TRANSFER_STATUS_LABELS, isOpenTransfer } from '@/lib/transferStatus';
+import { ASSET_CONDITIONS, ASSET_CONDITION_LABELS } from '@/lib/assetStatus';
+import { AssetCondition, OrderAssetLine, TransferStatus, TransferSummary, TransferType } from '@/types';
 
-type TransferType = 'pickup' | 'return';
-type TransferStatus = 'draft' | 'ready' | 'waiting' | 'done';
-
-interface Transfer {
-  id: string;
-  type: TransferType;
-  status: TransferStatus;
-  customer: string;
-  customerEmail: string;
-  invoiceAddress: string;
-  deliveryAddress: string;
-  sourceLocation: string;
-  destinationLocation?: string;
-  scheduleDate: string;
-  responsible: string;
-  transferType: 'pickup' | 'delivery';
-  orderReference: string;
-  products: Array<{
-    product: string;
-    quantity: number;
-    unitPrice: number;
-    subTotal: number;
-  }>;
-  untaxedTotal: number;
-  tax: number;
-  total: number;
+type Tab = 'lines' | 'details' | 'notes';
+
+const WAREHOUSE = 'Warehouse';
+
+function formatAddress(raw: string | undefined): string {
+  if (!raw) return '—';
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      const parts = [parsed.address, parsed.city, parsed.state, parsed.pincode].filter(Boolean);
+      return parts.length ? parts.join(', ') : '—';
+    }
+  } catch {}
+  return raw;
+}
+
+// ISO time as a datetime-local input value in the browser's time zone
+function toDateTimeInput(iso: string): string {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
 }
 
 export default function TransferManagement() {
+  const { data: session, status } = useSession();
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [currentPage, setCurrentPage] = useState(1);
   const [selectedType, setSelectedType] = useState<TransferType>('pickup');
-  const itemsPerPage = 1;
+  const [transfers, setTransfers] = useState<TransferSummary[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [tab, setTab] = useState<Tab>('lines');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [assignedTo, setAssignedTo] = useState('');
+  const [notes, setNotes] = useState('');
+  const [unitLines, setUnitLines] = useState<OrderAssetLine[]>([]);
+  const [selectedUnits, setSelectedUnits] = useState<Record<string, string[]>>({});
+  const [returnConditions, setReturnConditions] = useState<Record<string, AssetCondition>>({});
+
+  const orderId = searchParams.get('orderId');
 
   // Get transfer type from URL params
   useEffect(() => {
@@ -67,87 +79,171 @@ export default function TransferManagement() {
     }
   }, [searchParams]);
 
-  // Mock transfer data
-  const [transfers] = useState<Transfer[]>([
-    {
-      id: 'PICKUP/OUT/0001',
-      type: 'pickup',
-      status: 'draft',
-      customer: 'John Doe',
-      customerEmail: 'john@example.com',
-      invoiceAddress: '123 Main Street, City, State 12345',
-      deliveryAddress: '456 Delivery Avenue, City, State 67890',
-      sourceLocation: 'Warehouse A, Section 1',
-      scheduleDate: '2024-01-20',
-      responsible: 'Admin User',
-      transferType: 'pickup',
-      orderReference: 'R0001',
-      products: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          subTotal: 1000
-        }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000
-    },
-    {
-      id: 'RETURN/IN/0001',
-      type: 'return',
-      status: 'waiting',
-      customer: 'Jane Smith',
-      customerEmail: 'jane@example.com',
-      invoiceAddress: '789 Customer Street, City, State 54321',
-      deliveryAddress: '321 Pickup Address, City, State 09876',
-      sourceLocation: 'Customer Location',
-      destinationLocation: 'Warehouse A, Section 1',
-      scheduleDate: '2024-01-22',
-      responsible: 'Admin User',
-      transferType: 'delivery',
-      orderReference: 'R0002',
-      products: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          subTotal: 1000
-        }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) { router.push('/login'); return; }
+    if (session.user.role !== 'enduser') { router.push('/'); return; }
+    loadTransfers(selectedType);
+  }, [session, status, router, selectedType, orderId]);
+
+  const currentTransfer = transfers[currentIndex];
+
+  // Edit fields follow the transfer on screen
+  useEffect(() => {
+    setScheduledAt(currentTransfer ? toDateTimeInput(currentTransfer.scheduledAt) : '');
+    setAssignedTo(currentTransfer?.assignedTo || '');
+    setNotes(currentTransfer?.notes || '');
+  }, [currentTransfer]);
+
+  useEffect(() => {
+    if (currentTransfer) loadUnits(currentTransfer.rentalOrderId);
+    else setUnitLines([]);
+  }, [currentTransfer?._id, currentTransfer?.status]);
+
+  const loadTransfers = async (type: TransferType) => {
+    try {
+      setLoading(true);
+      const query = new URLSearchParams({ type, ...(orderId ? { orderId } : {}) });
+      const res = await fetch(`/api/enduser/transfers?${query}`);
+      const json = await res.json();
+      if (json?.success) {
+        const list: TransferSummary[] = json.data || [];
+        setTransfers(list);
+        // Open on the next transfer still to be done
+        const next = list.findIndex((t) => isOpenTransfer(t.status));
+        setCurrentIndex(next >= 0 ? next : 0);
+      } else {
+        toast.error(json?.error || 'Failed to load transfers');
+      }
+    } catch { toast.error('Failed to load transfers'); } finally { setLoading(false); }
+  };
+
+  // Serialized units of the order's lines; lines of products without units are left out
+  const showUnits = (lines: OrderAssetLine[]) => {
+    const tracked = lines.filter((line) => line.assigned.length > 0 || line.candidates.length > 0);
+    setUnitLines(tracked);
+    setSelectedUnits(Object.fromEntries(tracked.map((line) => [line.itemId, line.assigned.map((a) => a._id)])));
+    setReturnConditions(Object.fromEntries(tracked.flatMap((line) => line.assigned.map((a) => [a._id, a.condition]))));
+  };
+
+  const loadUnits = async (rentalOrderId: string) => {
+    try {
+      const res = await fetch(`/api/enduser/orders/${rentalOrderId}/assets`);
+      const json = await res.json();
+      if (json?.success) showUnits(json.data || []);
+    } catch { setUnitLines([]); }
+  };
+
+  const toggleUnit = (line: OrderAssetLine, assetId: string) => {
+    setSelectedUnits((prev) => {
+      const current = prev[line.itemId] || [];
+      if (current.includes(assetId)) {
+        return { ...prev, [line.itemId]: current.filter((id) => id !== assetId) };
+      }
+      if (current.length >= line.quantity) {
+        toast.error(`${line.productName} has ${line.quantity} unit${line.quantity === 1 ? '' : 's'} on this order`);
+        return prev;
+      }
+      return { ...prev, [line.itemId]: [...current, assetId] };
+    });
+  };
+
+  const unitAssignments = () =>
+    unitLines.map((line) => ({ itemId: line.itemId, assetIds: selectedUnits[line.itemId] || [] }));
+
+  const handleSaveUnits = async () => {
+    if (!currentTransfer) return;
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/enduser/orders/${currentTransfer.rentalOrderId}/assets`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignments: unitAssignments() }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        showUnits(json.data || []);
+        toast.success(json.message || 'Units assigned');
+      } else {
+        toast.error(json?.error || 'Failed to assign units');
+      }
+    } catch { toast.error('Failed to assign units'); } finally { setSaving(false); }
+  };
+
+  const replaceCurrent = (updated: TransferSummary) => {
+    setTransfers((prev) => prev.map((t) => (t._id === updated._id ? updated : t)));
+  };
+
+  const patchTransfer = async (body: Record<string, any>) => {
+    if (!currentTransfer) return;
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/enduser/transfers/${currentTransfer._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        replaceCurrent(json.data);
+        toast.success(json.message || 'Transfer saved');
+      } else {
+        toast.error(json?.error || 'Failed to save transfer');
+      }
+    } catch { toast.error('Failed to save transfer'); } finally { setSaving(false); }
+  };
+
+  const handleSave = () => {
+    if (!scheduledAt) {
+      toast.error('Pick a scheduled time');
+      return;
     }
-  ]);
+    patchTransfer({ scheduledAt: new Date(scheduledAt).toISOString(), assignedTo, notes });
+  };
 
-  const currentTransfer = transfers.find(t => t.type === selectedType) || transfers[0];
+  const handleValidate = async () => {
+    if (!currentTransfer) return;
+    const action = currentTransfer.type === 'pickup' ? 'picked up' : 'returned';
+    if (!confirm(`Validate ${currentTransfer.transferNumber}? Order ${currentTransfer.orderNumber} will be marked ${action}.`)) return;
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/enduser/transfers/${currentTransfer._id}/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          currentTransfer.type === 'pickup'
+            ? { assignments: unitAssignments() }
+            : { conditions: returnConditions }
+        ),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        replaceCurrent(json.data);
+        toast.success(json.message || 'Transfer validated');
+      } else {
+        toast.error(json?.error || 'Failed to validate transfer');
+      }
+    } catch { toast.error('Failed to validate transfer'); } finally { setSaving(false); }
+  };
 
   const getStatusColor = (status: TransferStatus) => {
     const colors = {
       draft: 'bg-gray-500',
       ready: 'bg-green-500',
       waiting: 'bg-yellow-500',
-      done: 'bg-blue-500'
+      done: 'bg-blue-500',
+      cancelled: 'bg-red-500'
     };
     return colors[status] || 'bg-gray-500';
   };
 
-  const getStatusLabel = (status: TransferStatus) => {
-    const labels = {
-      draft: 'Draft',
-      ready: 'Ready',
-      waiting: 'Waiting',
-      done: 'Done'
-    };
-    return labels[status] || status;
-  };
+  // Steps shown in the progress bar; returns wait on their pickup instead of starting as drafts
+  const steps: TransferStatus[] = selectedType === 'return' ? ['waiting', 'ready', 'done'] : ['draft', 'ready', 'done'];
+  const reached = (step: TransferStatus) =>
+    !!currentTransfer && currentTransfer.status !== 'cancelled' && steps.indexOf(currentTransfer.status) >= steps.indexOf(step);
 
-  const handleStatusChange = (newStatus: TransferStatus) => {
-    // Update transfer status logic here
-    console.log(`Changing status to: ${newStatus}`);
-  };
+  const customerAddress = formatAddress(currentTransfer?.deliveryAddress);
+  const editable = !!currentTransfer && isOpenTransfer(currentTransfer.status);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -156,23 +252,28 @@ export default function TransferManagement() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
-              <button
-                onClick={() => router.push('/enduser/transfer/create')}
-                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Create
-              </button>
               <h1 className="text-xl font-semibold text-gray-900">Transfer</h1>
-              <Settings className="w-5 h-5 text-gray-400" />
+              {orderId && currentTransfer && (
+                <span className="text-sm text-gray-600">Order {currentTransfer.orderNumber}</span>
+              )}
             </div>
 
             <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">1/80</span>
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <span className="text-sm text-gray-600">
+                {transfers.length ? `${currentIndex + 1}/${transfers.length}` : '0/0'}
+              </span>
+              <button
+                onClick={() => setCurrentIndex((i) => Math.max(0, i - 1))}
+                disabled={currentIndex === 0}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-40"
+              >
                 <ChevronLeft className="w-4 h-4" />
               </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <button
+                onClick={() => setCurrentIndex((i) => Math.min(transfers.length - 1, i + 1))}
+                disabled={currentIndex >= transfers.length - 1}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-40"
+              >
                 <ChevronRight className="w-4 h-4" />
               </button>
             </div>
@@ -205,68 +306,86 @@ export default function TransferManagement() {
           </div>
 
           {/* Action Buttons */}
-          <div className="flex items-center justify-between mt-6">
-            <div className="flex items-center space-x-3">
-              <button className="flex items-center px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors">
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Check Availability
-              </button>
-              <button className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Confirm
-              </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <XCircle className="w-4 h-4 mr-2" />
-                Cancel
-              </button>
-            </div>
-
-            {/* Status Progress */}
-            <div className="flex items-center space-x-2">
-              <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('draft')}`}>
-                Draft
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentTransfer.status === 'ready' || currentTransfer.status === 'waiting' || currentTransfer.status === 'done'
-                  ? `text-white ${getStatusColor('ready')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Ready
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentTransfer.status === 'waiting' || currentTransfer.status === 'done'
-                  ? `text-white ${getStatusColor('waiting')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                {selectedType === 'return' ? 'Waiting' : 'Ready'}
+          {currentTransfer && (
+            <div className="flex items-center justify-between mt-6">
+              <div className="flex items-center space-x-3">
+                {currentTransfer.status === 'draft' && (
+                  <button
+                    onClick={() => patchTransfer({ status: 'ready' })}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Mark as Ready
+                  </button>
+                )}
+                {(currentTransfer.status === 'draft' || currentTransfer.status === 'ready') && (
+                  <button
+                    onClick={handleValidate}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Validate
+                  </button>
+                )}
+                <Link
+                  href={`/enduser/orders/${currentTransfer.rentalOrderId}`}
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  View Order
+                </Link>
               </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentTransfer.status === 'done'
-                  ? `text-white ${getStatusColor('done')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Done
+
+              {/* Status Progress */}
+              <div className="flex items-center space-x-2">
+                {currentTransfer.status === 'cancelled' ? (
+                  <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('cancelled')}`}>
+                    Cancelled
+                  </div>
+                ) : (
+                  steps.map((step, index) => (
+                    <div key={step} className="flex items-center space-x-2">
+                      {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+                      <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        reached(step) ? `text-white ${getStatusColor(step)}` : 'text-gray-500 bg-gray-200'
+                      }`}>
+                        {TRANSFER_STATUS_LABELS[step]}
+                      </div>
+                    </div>
+                  ))
+                )}
               </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-600"></div>
+          </div>
+        ) : !currentTransfer ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <AlertCircle className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">
+              No {selectedType === 'pickup' ? 'pickups' : 'returns'} yet. Transfers are created when a rental order is confirmed.
+            </p>
+          </div>
+        ) : (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           {/* Transfer Header */}
           <div className="p-6 border-b border-gray-200">
-            <h2 className="text-2xl font-bold text-gray-900">{currentTransfer.id}</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{currentTransfer.transferNumber}</h2>
             <div className="mt-2 flex items-center space-x-4">
               <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(currentTransfer.status)}`}>
-                {getStatusLabel(currentTransfer.status)}
+                {TRANSFER_STATUS_LABELS[currentTransfer.status]}
               </span>
               <span className="text-sm text-gray-600">
-                Order: {currentTransfer.orderReference}
+                Order: {currentTransfer.orderNumber}
               </span>
             </div>
           </div>
@@ -281,37 +400,27 @@ export default function TransferManagement() {
                     <User className="w-4 h-4 inline mr-2" />
                     {selectedType === 'pickup' ? 'Customer:' : 'Received from Customer:'}
                   </label>
-                  <p className="text-gray-900">{currentTransfer.customer}</p>
+                  <p className="text-gray-900">{currentTransfer.customerName}</p>
                   <p className="text-sm text-gray-600">{currentTransfer.customerEmail}</p>
+                  {currentTransfer.customerPhone && (
+                    <p className="text-sm text-gray-600">{currentTransfer.customerPhone}</p>
+                  )}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <MapPin className="w-4 h-4 inline mr-2" />
-                    {selectedType === 'pickup' ? 'Invoice Address:' : 'Pickup Address:'}
+                    Source Location:
                   </label>
-                  <p className="text-gray-900">{currentTransfer.invoiceAddress}</p>
+                  <p className="text-gray-900">{selectedType === 'pickup' ? WAREHOUSE : customerAddress}</p>
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Truck className="w-4 h-4 inline mr-2" />
-                    {selectedType === 'pickup' ? 'Delivery Address:' : 'Destination Location:'}
+                    Destination Location:
                   </label>
-                  <p className="text-gray-900">
-                    {selectedType === 'pickup' 
-                      ? currentTransfer.deliveryAddress 
-                      : currentTransfer.destinationLocation
-                    }
-                  </p>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Package className="w-4 h-4 inline mr-2" />
-                    Source Location:
-                  </label>
-                  <p className="text-gray-900">{currentTransfer.sourceLocation}</p>
+                  <p className="text-gray-900">{selectedType === 'pickup' ? customerAddress : WAREHOUSE}</p>
                 </div>
               </div>
 
@@ -320,9 +429,18 @@ export default function TransferManagement() {
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Calendar className="w-4 h-4 inline mr-2" />
-                    Schedule Date:
+                    Scheduled:
                   </label>
-                  <p className="text-gray-900">{currentTransfer.scheduleDate}</p>
+                  {editable ? (
+                    <input
+                      type="datetime-local"
+                      value={scheduledAt}
+                      onChange={(e) => setScheduledAt(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  ) : (
+                    <p className="text-gray-900">{new Date(currentTransfer.scheduledAt).toLocaleString()}</p>
+                  )}
                 </div>
 
                 <div>
@@ -330,16 +448,30 @@ export default function TransferManagement() {
                     <User className="w-4 h-4 inline mr-2" />
                     Responsible:
                   </label>
-                  <p className="text-gray-900">{currentTransfer.responsible}</p>
+                  {editable ? (
+                    <input
+                      type="text"
+                      value={assignedTo}
+                      onChange={(e) => setAssignedTo(e.target.value)}
+                      placeholder="Staff member or driver"
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  ) : (
+                    <p className="text-gray-900">{currentTransfer.assignedTo || '—'}</p>
+                  )}
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Truck className="w-4 h-4 inline mr-2" />
-                    Transfer Type:
-                  </label>
-                  <p className="text-gray-900 capitalize">{currentTransfer.transferType}</p>
-                </div>
+                {editable && (
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Schedule
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -347,112 +479,164 @@ export default function TransferManagement() {
           {/* Transfer Lines Tabs */}
           <div className="border-t border-gray-200">
             <div className="flex space-x-8 px-6">
-              <button className="border-b-2 border-primary-500 py-4 text-sm font-medium text-primary-600">
-                Transfer lines
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Other details
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Transfer Notes
-              </button>
+              {([['lines', 'Transfer lines'], ['details', 'Other details'], ['notes', 'Transfer Notes']] as Array<[Tab, string]>).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setTab(key)}
+                  className={tab === key
+                    ? 'border-b-2 border-primary-500 py-4 text-sm font-medium text-primary-600'
+                    : 'py-4 text-sm font-medium text-gray-500 hover:text-gray-700'}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* Transfer Lines Table */}
           <div className="p-6">
-            <div className="overflow-x-auto">
-              <table className="min-w-full">
-                <thead>
-                  <tr className="border-b border-gray-200">
-                    <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Quantity</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Unit Price</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Tax</th>
-                    <th className="text-right py-3 text-sm font-medium text-gray-500">Sub Total</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {currentTransfer.products.map((line, index) => (
-                    <tr key={index} className="border-b border-gray-100">
-                      <td className="py-4 text-sm font-medium text-gray-900">{line.product}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.quantity}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.unitPrice}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">-</td>
-                      <td className="py-4 text-sm text-gray-600 text-right">{line.subTotal}</td>
+            {tab === 'lines' && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Quantity</th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody>
+                    {currentTransfer.lines.map((line, index) => (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-4 text-sm font-medium text-gray-900">{line.productName}</td>
+                        <td className="py-4 text-sm text-gray-600 text-right">{line.quantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
 
-            {/* Totals */}
-            <div className="mt-8 flex justify-end">
-              <div className="w-64 space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Untaxed Total:</span>
-                  <span className="text-sm font-medium flex items-center">
-                    <IndianRupee className="w-4 h-4 mr-1" />
-                    {currentTransfer.untaxedTotal}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Tax:</span>
-                  <span className="text-sm font-medium flex items-center">
-                    <IndianRupee className="w-4 h-4 mr-1" />
-                    {currentTransfer.tax}
-                  </span>
+                {/* Serialized units handed over or coming back */}
+                {unitLines.length > 0 && (
+                  <div className="mt-6 space-y-4">
+                    <h4 className="text-sm font-medium text-gray-900 flex items-center">
+                      <Barcode className="w-4 h-4 mr-2" />
+                      Units
+                    </h4>
+                    {unitLines.map((line) => (
+                      <div key={line.itemId} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <span className="text-sm font-medium text-gray-900">{line.productName}</span>
+                          <span className="text-xs text-gray-500">
+                            {(selectedUnits[line.itemId] || []).length}/{line.quantity} assigned
+                          </span>
+                        </div>
+
+                        {selectedType === 'pickup' && editable ? (
+                          <div className="flex flex-wrap gap-2">
+                            {[...line.assigned, ...line.candidates].map((unit) => {
+                              const selected = (selectedUnits[line.itemId] || []).includes(unit._id);
+                              return (
+                                <button
+                                  key={unit._id}
+                                  onClick={() => toggleUnit(line, unit._id)}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                    selected
+                                      ? 'bg-primary-600 text-white border-primary-600'
+                                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {unit.serialNumber} · {ASSET_CONDITION_LABELS[unit.condition]}
+                                </button>
+                              );
+                            })}
+                            {line.assigned.length === 0 && line.candidates.length === 0 && (
+                              <span className="text-sm text-gray-500">No units available</span>
+                            )}
+                          </div>
+                        ) : line.assigned.length === 0 ? (
+                          <p className="text-sm text-gray-500">No units assigned</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {line.assigned.map((unit) => (
+                              <div key={unit._id} className="flex items-center justify-between text-sm">
+                                <span className="text-gray-900">{unit.serialNumber}</span>
+                                {selectedType === 'return' && editable ? (
+                                  <select
+                                    value={returnConditions[unit._id] || unit.condition}
+                                    onChange={(e) => setReturnConditions((prev) => ({ ...prev, [unit._id]: e.target.value as AssetCondition }))}
+                                    className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                  >
+                                    {ASSET_CONDITIONS.map((c) => (
+                                      <option key={c} value={c}>Returned {ASSET_CONDITION_LABELS[c].toLowerCase()}</option>
+                                    ))}
+                                  </select>
+                                ) : (
+                                  <span className="text-gray-600">{ASSET_CONDITION_LABELS[unit.condition]}</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+
+                    {selectedType === 'pickup' && editable && (
+                      <button
+                        onClick={handleSaveUnits}
+                        disabled={saving}
+                        className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      >
+                        <Save className="w-4 h-4 mr-2" />
+                        Save Units
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {tab === 'details' && (
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Created</dt>
+                  <dd className="text-gray-900">{new Date(currentTransfer.createdAt).toLocaleString()}</dd>
                 </div>
-                <div className="flex justify-between border-t pt-2">
-                  <span className="text-lg font-semibold text-gray-900">Total:</span>
-                  <span className="text-lg font-semibold text-gray-900 flex items-center">
-                    <IndianRupee className="w-5 h-5 mr-1" />
-                    {currentTransfer.total}
-                  </span>
+                <div>
+                  <dt className="text-gray-500">Validated</dt>
+                  <dd className="text-gray-900">
+                    {currentTransfer.validatedAt
+                      ? `${new Date(currentTransfer.validatedAt).toLocaleString()}${currentTransfer.validatedByName ? ` by ${currentTransfer.validatedByName}` : ''}`
+                      : '—'}
+                  </dd>
                 </div>
-              </div>
-            </div>
-          </div>
+              </dl>
+            )}
 
-          {/* Status Actions */}
-          <div className="border-t border-gray-200 p-6">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-4">
-                {currentTransfer.status === 'draft' && (
-                  <button
-                    onClick={() => handleStatusChange('ready')}
-                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                  >
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Mark as Ready
-                  </button>
-                )}
-                {currentTransfer.status === 'ready' && (
+            {tab === 'notes' && (
+              editable ? (
+                <div className="space-y-3">
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={4}
+                    maxLength={500}
+                    placeholder="Gate codes, contact person, condition remarks..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
                   <button
-                    onClick={() => handleStatusChange('waiting')}
-                    className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+                    onClick={() => patchTransfer({ notes })}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
                   >
-                    <Clock className="w-4 h-4 mr-2" />
-                    Start Transfer
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Notes
                   </button>
-                )}
-                {currentTransfer.status === 'waiting' && (
-                  <button
-                    onClick={() => handleStatusChange('done')}
-                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                  >
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Complete Transfer
-                  </button>
-                )}
-              </div>
-
-              <div className="text-sm text-gray-500">
-                Last updated: {new Date().toLocaleDateString()}
-              </div>
-            </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-700 whitespace-pre-line">{currentTransfer.notes || 'No notes'}</p>
+              )
+            )}
           </div>
         </div>
+        )}
 
         {/* Status Information */}
         <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -463,7 +647,7 @@ export default function TransferManagement() {
               <div className="space-y-2 text-sm text-gray-600">
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-gray-500 rounded-full mr-2"></div>
-                  <span><strong>Draft:</strong> Transfer order created</span>
+                  <span><strong>Draft:</strong> Created when the order is confirmed</span>
                 </div>
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-green-500 rounded-full mr-2"></div>
@@ -471,28 +655,24 @@ export default function TransferManagement() {
                 </div>
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-blue-500 rounded-full mr-2"></div>
-                  <span><strong>Done:</strong> Items delivered to customer</span>
+                  <span><strong>Done:</strong> Items handed to the customer; the order is picked up</span>
                 </div>
               </div>
             </div>
             <div>
               <h4 className="font-medium text-gray-900 mb-2">Return Process</h4>
               <div className="space-y-2 text-sm text-gray-600">
-                <div className="flex items-center">
-                  <div className="w-3 h-3 bg-gray-500 rounded-full mr-2"></div>
-                  <span><strong>Draft:</strong> Return order created</span>
-                </div>
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-yellow-500 rounded-full mr-2"></div>
-                  <span><strong>Waiting:</strong> Awaiting customer return</span>
+                  <span><strong>Waiting:</strong> Awaiting the pickup</span>
                 </div>
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-green-500 rounded-full mr-2"></div>
-                  <span><strong>Ready:</strong> Items ready for collection</span>
+                  <span><strong>Ready:</strong> Items are with the customer, due back</span>
                 </div>
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-blue-500 rounded-full mr-2"></div>
-                  <span><strong>Done:</strong> Items returned to inventory</span>
+                  <span><strong>Done:</strong> Items back in stock; the order is returned</span>
                 </div>
               </div>
             </div>
@@ -0,0 +1,142 @@
+/**
+ * Invoices Page
+ * Lists the customer's invoices so any past invoice can be downloaded again,
+ * with the credit and debit notes issued against each
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Download, FileText } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { InvoiceNoteSummary, InvoiceSummary } from '@/types';
+
+const PAYMENT_STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  partial: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  refunded: 'bg-gray-100 text-gray-800',
+};
+
+export default function InvoicesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [notes, setNotes] = useState<InvoiceNoteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Redirect if not customer
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session || session.user?.role !== 'customer') {
+      router.push('/login');
+    }
+  }, [session, status, router]);
+
+  useEffect(() => {
+    if (session?.user?.role !== 'customer') return;
+    const loadInvoices = async () => {
+      try {
+        const [response, notesResponse] = await Promise.all([
+          fetch('/api/invoices?limit=100'),
+          fetch('/api/invoice-notes?limit=100'),
+        ]);
+        const data = await response.json();
+        const notesData = await notesResponse.json();
+        if (notesData.success) {
+          setNotes(notesData.data.notes);
+        }
+        if (data.success) {
+          setInvoices(data.data.invoices);
+        } else {
+          toast.error(data.error || 'Failed to load invoices');
+        }
+      } catch (error) {
+        console.error('Error loading invoices:', error);
+        toast.error('Failed to load invoices');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvoices();
+  }, [session?.user?.role]);
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-800"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">My Invoices</h1>
+          <p className="text-gray-600">Download the invoice for any of your rentals</p>
+        </div>
+
+        {invoices.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices yet</h3>
+            <p className="text-gray-500 mb-6">Invoices appear here once you place an order</p>
+            <Link
+              href="/shop"
+              className="bg-primary-800 text-white px-6 py-3 rounded-md font-medium hover:bg-primary-700 transition-colors"
+            >
+              Browse Products
+            </Link>
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {invoices.map((invoice) => (
+              <div key={invoice._id} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold text-gray-900">{invoice.invoiceNumber}</p>
+                    <p className="text-sm text-gray-600">
+                      Order {invoice.orderNumber}
+                      {invoice.businessName ? ` · ${invoice.businessName}` : ''}
+                      {' · '}
+                      {new Date(invoice.issuedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${PAYMENT_STATUS_STYLES[invoice.paymentStatus] || ''}`}>
+                      {invoice.paymentStatus}
+                    </span>
+                    <span className="font-medium text-gray-900">₹{invoice.total.toFixed(2)}</span>
+                    <a
+                      href={`/api/invoices/${invoice._id}/pdf`}
+                      className="flex items-center space-x-1 text-primary-800 hover:underline text-sm"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>PDF</span>
+                    </a>
+                  </div>
+                </div>
+                {notes.filter((note) => note.invoiceId === invoice._id).map((note) => (
+                  <div key={note._id} className="flex items-center justify-between mt-2 pl-4 text-sm text-gray-600">
+                    <span>
+                      {note.type === 'credit' ? 'Credit' : 'Debit'} note {note.noteNumber}
+                      {note.description ? ` · ${note.description}` : ''}
+                    </span>
+                    <span className={note.type === 'credit' ? 'text-green-700' : 'text-gray-900'}>
+                      {note.type === 'credit' ? '-' : '+'}₹{note.total.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * Order Success Page
- * Shows confirmation after successful payment
+ * Shows confirmation of the orders checkout created, with links to their invoices
+ * as issued on the server
  */
 'use client';
 
@@ -10,35 +11,31 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 
 import { CheckCircle, Download, Eye } from 'lucide-react';
-import { generateInvoicePDF, InvoiceData } from '@/lib/pdfGenerator';
-import { generateSimpleInvoicePDF } from '@/lib/simplePdfGenerator';
-import toast from 'react-hot-toast';
+
+// Order as returned by /api/orders/complete
+interface CompletedOrder {
+  id: string;
+  orderNumber: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+}
 
 export default function OrderSuccessPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [orderData, setOrderData] = useState<any>(null);
-  const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [orders, setOrders] = useState<CompletedOrder[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const invoicedOrders = orders.filter((order) => order.invoiceId);
 
-  // Load order data from localStorage (saved during checkout)
+  // Orders saved by checkout once /api/orders/complete created them
   useEffect(() => {
     try {
-      const savedOrderData = localStorage.getItem('orderData');
-      const savedCheckoutData = localStorage.getItem('checkoutData');
-      
-      if (savedOrderData) {
-        setOrderData(JSON.parse(savedOrderData));
-      } else if (savedCheckoutData) {
-        // Fallback to checkout data if order data not found
-        const checkoutData = JSON.parse(savedCheckoutData);
-        setOrderData({
-          orderNumber: `ORD-${Date.now().toString().slice(-6)}`,
-          orderDate: new Date().toLocaleDateString(),
-          ...checkoutData
-        });
-      }
+      const savedOrderData = JSON.parse(localStorage.getItem('orderData') || 'null');
+      setOrders(Array.isArray(savedOrderData?.orders) ? savedOrderData.orders : []);
     } catch (error) {
       console.error('Error loading order data:', error);
+    } finally {
+      setLoaded(true);
     }
   }, []);
 
@@ -50,68 +47,7 @@ export default function OrderSuccessPage() {
     }
   }, [session, status, router]);
 
-  // Generate and download PDF invoice
-  const handleDownloadInvoice = async () => {
-    if (!orderData) {
-      toast.error('Order data not found');
-      return;
-    }
-
-    setIsGeneratingPDF(true);
-    
-    try {
-      console.log('Order data:', orderData);
-      console.log('Session:', session);
-      
-      // Prepare invoice data
-      const invoiceData: InvoiceData = {
-        orderNumber: orderData.orderNumber || `ORD-${Date.now().toString().slice(-6)}`,
-        orderDate: orderData.orderDate || new Date().toLocaleDateString(),
-        customerName: session?.user?.name || 'Customer',
-        customerEmail: session?.user?.email || '',
-        customerPhone: orderData.customerPhone || '',
-        deliveryAddress: orderData.deliveryAddress || {
-          street: orderData.address || '123 Main Street',
-          city: orderData.city || 'City',
-          state: orderData.state || 'State',
-          zipCode: orderData.zipCode || '12345',
-          country: orderData.country || 'India',
-          landmark: orderData.landmark
-        },
-        billingAddress: orderData.billingAddress,
-        items: orderData.items || [],
-        pricing: orderData.pricing || {
-          subtotal: 0,
-          discount: 0,
-          discountAmount: 0,
-          deliveryCharge: 0,
-          tax: 0,
-          total: 0
-        },
-        paymentMethod: orderData.paymentMethod || 'Credit Card',
-        deliveryMethod: orderData.deliveryMethod || 'Standard Delivery'
-      };
-
-      // Try to generate complex PDF first
-      try {
-        await generateInvoicePDF(invoiceData);
-        toast.success('Invoice downloaded successfully!');
-      } catch (pdfError) {
-        console.warn('Complex PDF failed, trying simple version:', pdfError);
-        // Fallback to simple PDF
-        await generateSimpleInvoicePDF(orderData, session);
-        toast.success('Invoice downloaded successfully (simple format)!');
-      }
-      
-    } catch (error) {
-      console.error('Error generating PDF:', error);
-      toast.error('Failed to generate invoice. Please try again.');
-    } finally {
-      setIsGeneratingPDF(false);
-    }
-  };
-
-  if (status === 'loading') {
+  if (status === 'loading' || !loaded) {
     return (
       <div className="min-h-screen bg-white">
         <div className="flex items-center justify-center min-h-screen">
@@ -121,6 +57,21 @@ export default function OrderSuccessPage() {
     );
   }
 
+  if (orders.length === 0) {
+    return (
+      <div className="min-h-screen bg-white">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">No recent order found</h1>
+          <p className="text-gray-600 mb-6">Your invoices are listed once your orders have been placed.</p>
+          <div className="flex justify-center gap-6">
+            <Link href="/invoices" className="text-primary-800 hover:underline">My Invoices</Link>
+            <Link href="/shop" className="text-primary-800 hover:underline">Continue Shopping</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-white" title="Order Confirmed">
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
@@ -137,7 +88,9 @@ export default function OrderSuccessPage() {
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-gray-600">Order ID:</span>
-              <span className="font-medium">#ORD-{Date.now().toString().slice(-6)}</span>
+              <span className="font-medium">
+                {orders.map((order) => order.orderNumber).join(', ')}
+              </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Date:</span>
@@ -145,7 +98,7 @@ export default function OrderSuccessPage() {
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Payment Status:</span>
-              <span className="font-medium text-green-600">Paid</span>
+              <span className="font-medium text-yellow-600">Awaiting confirmation</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Order Status:</span>
@@ -161,16 +114,24 @@ export default function OrderSuccessPage() {
               <span>View Order</span>
             </button>
             
-            <button 
-              onClick={handleDownloadInvoice}
-              disabled={isGeneratingPDF}
-              className="flex items-center justify-center space-x-2 border border-primary-800 text-primary-800 px-6 py-3 rounded-md font-medium hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Download className={`h-4 w-4 ${isGeneratingPDF ? 'animate-spin' : ''}`} />
-              <span>{isGeneratingPDF ? 'Generating...' : 'Download Invoice'}</span>
-            </button>
+            {invoicedOrders.map((order) => (
+              <a
+                key={order.invoiceId}
+                href={`/api/invoices/${order.invoiceId}/pdf`}
+                className="flex items-center justify-center space-x-2 border border-primary-800 text-primary-800 px-6 py-3 rounded-md font-medium hover:bg-primary-50 transition-colors"
+              >
+                <Download className="h-4 w-4" />
+                <span>{invoicedOrders.length > 1 ? `Invoice ${order.invoiceNumber}` : 'Download Invoice'}</span>
+              </a>
+            ))}
           </div>
 
+          {invoicedOrders.length < orders.length && (
+            <p className="text-sm text-gray-600">
+              Invoices still being issued will appear under <Link href="/invoices" className="text-primary-800 hover:underline">My Invoices</Link>.
+            </p>
+          )}
+
           <Link 
             href="/shop"
             className="inline-block text-primary-800 hover:underline"
@@ -12,6 +12,7 @@ import Link from 'next/link';
 import { Heart, ShoppingCart, Star, Filter, Grid3X3, List, Search } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { IProduct } from '@/types';
+import { addToCart as addToServerCart } from '@/lib/cartClient';
 
 export default function ShopPage() {
   const { data: session, status } = useSession();
@@ -97,41 +98,20 @@ export default function ShopPage() {
     setFilteredProducts(filtered);
   };
 
-  // Add to cart function
+  // Add to cart function: one unit for tomorrow, held on the server while the customer shops
   const addToCart = async (product: IProduct) => {
     try {
-      // For now, we'll use localStorage for cart
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const existingItem = cart.find((item: any) => item.productId === product._id?.toString());
-      
-      if (existingItem) {
-        existingItem.quantity += 1;
-        // Recalculate total price for existing item
-        existingItem.totalPrice = (existingItem.pricePerDay || 0) * existingItem.quantity;
+      const result = await addToServerCart({
+        productId: product._id!.toString(),
+        quantity: 1,
+        startDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        endDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
+      });
+      if (result.success) {
+        toast.success('Added to cart');
       } else {
-        // Default to daily rental with basic information
-        const pricePerDay = product.pricePerDay || product.pricePerHour || 0;
-        cart.push({
-          productId: product._id?.toString(),
-          name: product.name,
-          image: product.image,
-          pricePerDay: pricePerDay,
-          quantity: 1,
-          duration: 'day',
-          totalPrice: pricePerDay,
-          // Set default dates (tomorrow + 1 day to avoid timezone/validation issues)
-          fromDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          toDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
-          endUserId: product.endUserId?.toString() // Include endUserId for order tracking
-        });
+        toast.error(result.error || 'Failed to add to cart');
       }
-      
-      localStorage.setItem('cart', JSON.stringify(cart));
-      
-      // Dispatch custom event to update cart count in navbar
-      window.dispatchEvent(new Event('cartUpdated'));
-      
-      toast.success('Added to cart');
     } catch (error) {
       console.error('Error adding to cart:', error);
       toast.error('Failed to add to cart');
@@ -194,7 +174,15 @@ export default function ShopPage() {
               <h3 className="font-semibold text-gray-900 mb-1">{product.name}</h3>
               <p className="text-primary-800 font-bold text-lg">
                 ₹{product.pricePerDay}/day
+                {product.listRates?.pricePerDay && product.listRates.pricePerDay !== product.pricePerDay && (
+                  <span className="ml-2 text-sm font-normal text-gray-500 line-through">₹{product.listRates.pricePerDay}</span>
+                )}
               </p>
+              {product.priceList && (
+                <span className="inline-block mb-1 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                  {product.priceList.name} pricing
+                </span>
+              )}
               
               {viewMode === 'grid' && (
                 <div className="mt-2">
@@ -20,7 +20,18 @@ import {
   Star
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { IProduct } from '@/types';
+import { IProduct, TurnaroundBuffer } from '@/types';
+import { PRICE_TIERS, getTierRate } from '@/lib/pricing';
+import { describePriceAdjustment } from '@/lib/pricingRules';
+import { describeTurnaroundBuffer } from '@/lib/turnaround';
+import { bookableStartRange, checkRentalConstraints, describeRentalConstraints } from '@/lib/rentalConstraints';
+import type { QuoteLine } from '@/lib/quote';
+import { addToCart as addToServerCart } from '@/lib/cartClient';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date picker value for a day, counted the way the pickers' dates are read back
+const toDateInput = (time: number) => new Date(time).toISOString().split('T')[0];
 
 interface ProductDetailPageProps {
   params: { id: string };
@@ -33,10 +44,17 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
   const [product, setProduct] = useState<IProduct | null>(null);
   const [loading, setLoading] = useState(true);
   const [quantity, setQuantity] = useState(1);
-  const [selectedDuration, setSelectedDuration] = useState<'hour' | 'day' | 'week' | 'month' | 'year'>('day');
   const [fromDate, setFromDate] = useState('');
   const [toDate, setToDate] = useState('');
-  const [totalPrice, setTotalPrice] = useState(0);
+  const [quote, setQuote] = useState<QuoteLine | null>(null);
+  const [pricingError, setPricingError] = useState('');
+  const [availability, setAvailability] = useState<{
+    owned: number;
+    free: number;
+    buffer: TurnaroundBuffer;
+    slots: Array<{ start: string; booked: number; turnaround: number; free: number }>;
+  } | null>(null);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
 
   // Redirect if not customer
   useEffect(() => {
@@ -74,47 +92,113 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
     }
   }, [params.id, router]);
 
-  // Calculate total price based on duration and dates
+  // Price the selected dates and quantity on the server
+  useEffect(() => {
+    if (!fromDate || !toDate) {
+      setQuote(null);
+      setPricingError('');
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      try {
+        const response = await fetch('/api/pricing/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: [{ productId: params.id, quantity, startDate: fromDate, endDate: toDate }] }),
+        });
+        const data = await response.json();
+        if (cancelled) return;
+        if (data.success) {
+          setQuote(data.data.lines[0]);
+          setPricingError('');
+        } else {
+          setQuote(null);
+          setPricingError(data.error || 'Unable to price these dates');
+        }
+      } catch (error) {
+        console.error('Error pricing rental:', error);
+      }
+    };
+
+    fetchQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [params.id, fromDate, toDate, quantity]);
+
+  // Check how many units are free for the selected dates
   useEffect(() => {
-    if (!product || !fromDate || !toDate) {
-      setTotalPrice(0);
+    if (!fromDate || !toDate) {
+      setAvailability(null);
       return;
     }
 
-    const from = new Date(fromDate);
-    const to = new Date(toDate);
-    const diffTime = Math.abs(to.getTime() - from.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    let pricePerUnit = 0;
-    let units = 1;
-
-    switch (selectedDuration) {
-      case 'hour':
-        pricePerUnit = product.pricePerHour || 0;
-        units = diffDays * 24; // Convert days to hours
-        break;
-      case 'day':
-        pricePerUnit = product.pricePerDay || 0;
-        units = diffDays;
-        break;
-      case 'week':
-        pricePerUnit = product.pricePerWeek || 0;
-        units = Math.ceil(diffDays / 7);
-        break;
-      case 'month':
-        pricePerUnit = product.pricePerMonth || 0;
-        units = Math.ceil(diffDays / 30);
-        break;
-      case 'year':
-        pricePerUnit = product.pricePerYear || 0;
-        units = Math.ceil(diffDays / 365);
-        break;
+    const start = new Date(fromDate);
+    const end = new Date(toDate);
+    // Same-day rentals run for one full day, matching order completion
+    if (end <= start) {
+      end.setTime(start.getTime() + 24 * 60 * 60 * 1000);
     }
 
-    const total = pricePerUnit * units * quantity;
-    setTotalPrice(total);
-  }, [product, fromDate, toDate, selectedDuration, quantity]);
+    let cancelled = false;
+    const fetchAvailability = async () => {
+      try {
+        setCheckingAvailability(true);
+        const query = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+        const response = await fetch(`/api/products/${params.id}/availability?${query}`);
+        const data = await response.json();
+        if (!cancelled && data.success) {
+          setAvailability({
+            owned: data.data.owned,
+            free: data.data.free,
+            buffer: data.data.buffer,
+            slots: data.data.slots || [],
+          });
+        }
+      } catch (error) {
+        console.error('Error checking availability:', error);
+      } finally {
+        if (!cancelled) setCheckingAvailability(false);
+      }
+    };
+
+    fetchAvailability();
+    return () => {
+      cancelled = true;
+    };
+  }, [params.id, fromDate, toDate]);
+
+  // Keep the quantity within the units free for the selected dates
+  useEffect(() => {
+    if (availability && availability.free > 0 && quantity > availability.free) {
+      setQuantity(availability.free);
+    }
+  }, [availability, quantity]);
+
+  const maxQuantity = availability ? availability.free : (product?.quantityAvailable || 1);
+  const insufficientUnits = !!availability && availability.free < quantity;
+
+  // Keep the pickers inside the product's rental limits and say which one the dates break
+  const constraints = product?.rentalConstraints;
+  const startRange = bookableStartRange(constraints);
+  const fromMin = toDateInput(Math.ceil(startRange.earliest.getTime() / DAY_MS) * DAY_MS);
+  const fromMax = startRange.latest ? toDateInput(Math.floor(startRange.latest.getTime() / DAY_MS) * DAY_MS) : undefined;
+  const fromTime = fromDate ? new Date(fromDate).getTime() : undefined;
+  const toMin = fromTime !== undefined
+    ? toDateInput(fromTime + Math.ceil((constraints?.minDurationHours || 0) / 24) * DAY_MS)
+    : fromMin;
+  const toMax = fromTime !== undefined && constraints?.maxDurationHours
+    ? toDateInput(fromTime + Math.floor(constraints.maxDurationHours / 24) * DAY_MS)
+    : undefined;
+  let rentalLimitError = '';
+  if (product && fromTime !== undefined && toDate) {
+    const end = new Date(toDate);
+    // Same-day rentals run for one full day, matching order completion
+    if (end.getTime() <= fromTime) end.setTime(fromTime + DAY_MS);
+    rentalLimitError = checkRentalConstraints(constraints, new Date(fromTime), end, new Date(), product.name)?.message || '';
+  }
 
   // Add to cart function
   const addToCart = async () => {
@@ -125,27 +209,34 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
       return;
     }
 
+    if (rentalLimitError) {
+      toast.error(rentalLimitError);
+      return;
+    }
+
+    if (!quote) {
+      toast.error(pricingError || 'Price not available for the selected dates');
+      return;
+    }
+
+    if (insufficientUnits) {
+      toast.error(`Only ${availability?.free ?? 0} units available for the selected dates`);
+      return;
+    }
+
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const cartItem = {
-        productId: product._id,
-        name: product.name,
-        image: product.image,
+      // The server holds these units for the customer until checkout
+      const result = await addToServerCart({
+        productId: product._id!.toString(),
         quantity,
-        duration: selectedDuration,
-        fromDate,
-        toDate,
-        pricePerUnit: product[`pricePer${selectedDuration.charAt(0).toUpperCase() + selectedDuration.slice(1)}` as keyof IProduct] as number,
-        totalPrice,
-        endUserId: product.endUserId?.toString() // Include endUserId for order tracking
-      };
-      
-      cart.push(cartItem);
-      localStorage.setItem('cart', JSON.stringify(cart));
-      
-      // Dispatch custom event to update cart count in navbar
-      try { window.dispatchEvent(new Event('cartUpdated')); } catch {}
-      
+        startDate: fromDate,
+        endDate: toDate,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to cart');
+        return;
+      }
+
       toast.success('Added to cart');
       // Navigate to Review Order page so user can continue to Delivery/Payment
       router.push('/cart');
@@ -230,15 +321,46 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
               <h1 className="text-3xl font-bold text-gray-900 mb-2">{product.name}</h1>
               <div className="flex items-center space-x-4 mb-4">
                 <div className="text-2xl font-bold text-primary-800">
-                  ₹ {totalPrice || product.pricePerDay} 
-                  <span className="text-sm text-gray-600 font-normal">
-                    ({product.pricePerDay}/{selectedDuration})
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  (₹{product.pricePerDay}/per unit)
+                  ₹ {quote ? quote.lineTotal : product.pricePerDay}
+                  {!quote && (
+                    <span className="text-sm text-gray-600 font-normal"> /day</span>
+                  )}
                 </div>
+                {quote && (
+                  <div className="text-sm text-gray-600">
+                    (₹{quote.unitPrice}/per unit)
+                  </div>
+                )}
               </div>
+              {quote && (
+                <p className="text-sm text-gray-600 mb-2">
+                  {quote.breakdown
+                    .map((line) => `${line.count} ${line.unit}${line.count === 1 ? '' : 's'} × ₹${line.rate}`)
+                    .join(' + ')}
+                  {quote.adjustments.length > 0 && ` = ₹${quote.baseUnitPrice}/unit`}
+                </p>
+              )}
+              {quote?.priceList && (
+                <p className="text-sm text-green-700 mb-2">
+                  Your {quote.priceList.name} price
+                  {quote.listUnitPrice !== undefined && quote.listUnitPrice !== quote.unitPrice && (
+                    <span className="text-gray-500"> (list price <span className="line-through">₹{quote.listUnitPrice}</span>/unit)</span>
+                  )}
+                </p>
+              )}
+              {quote && quote.adjustments.length > 0 && (
+                <ul className="text-sm text-gray-600 mb-2 space-y-0.5">
+                  {quote.adjustments.map((adjustment, index) => (
+                    <li key={adjustment.ruleId || index} className={adjustment.amount < 0 ? 'text-green-700' : 'text-orange-700'}>
+                      {describePriceAdjustment(adjustment, quote.hours)}: {adjustment.amount < 0 ? '−' : '+'}₹
+                      {Math.abs(adjustment.amount)}/unit
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {pricingError && pricingError !== rentalLimitError && (
+                <p className="text-sm text-red-600 mb-2">{pricingError}</p>
+              )}
 
               {/* Rating */}
               <div className="flex items-center space-x-2 mb-4">
@@ -251,22 +373,21 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
               </div>
             </div>
 
-            {/* Rental Duration Selection */}
+            {/* Rental Rates - the cheapest mix is applied automatically */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Rental Duration
+                Rental Rates
               </label>
-              <select
-                value={selectedDuration}
-                onChange={(e) => setSelectedDuration(e.target.value as typeof selectedDuration)}
-                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
-              >
-                {product.pricePerHour && <option value="hour">Per Hour</option>}
-                {product.pricePerDay && <option value="day">Per Day</option>}
-                {product.pricePerWeek && <option value="week">Per Week</option>}
-                {product.pricePerMonth && <option value="month">Per Month</option>}
-                {product.pricePerYear && <option value="year">Per Year</option>}
-              </select>
+              <div className="flex flex-wrap gap-2">
+                {PRICE_TIERS.slice().reverse().map(({ unit }) => {
+                  const rate = getTierRate(product, unit);
+                  return rate ? (
+                    <span key={unit} className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700">
+                      ₹{rate}/{unit}
+                    </span>
+                  ) : null;
+                })}
+              </div>
             </div>
 
             {/* Date Selection */}
@@ -280,7 +401,8 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
                     type="date"
                     value={fromDate}
                     onChange={(e) => setFromDate(e.target.value)}
-                    min={new Date().toISOString().split('T')[0]}
+                    min={fromMin}
+                    max={fromMax}
                     className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
                   />
                   <Calendar className="absolute right-3 top-2.5 h-4 w-4 text-gray-400 pointer-events-none" />
@@ -296,7 +418,8 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
                     type="date"
                     value={toDate}
                     onChange={(e) => setToDate(e.target.value)}
-                    min={fromDate || new Date().toISOString().split('T')[0]}
+                    min={toMin}
+                    max={toMax}
                     className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
                   />
                   <Calendar className="absolute right-3 top-2.5 h-4 w-4 text-gray-400 pointer-events-none" />
@@ -304,6 +427,13 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
               </div>
             </div>
 
+            {describeRentalConstraints(constraints).length > 0 && (
+              <p className="text-sm text-gray-600 -mt-2">{describeRentalConstraints(constraints).join(' · ')}</p>
+            )}
+            {rentalLimitError && (
+              <p className="text-sm text-red-600 -mt-2">{rentalLimitError}</p>
+            )}
+
             {/* Quantity Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -320,8 +450,9 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
                   {quantity}
                 </span>
                 <button
-                  onClick={() => setQuantity(quantity + 1)}
-                  className="p-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  onClick={() => setQuantity(Math.min(Math.max(1, maxQuantity), quantity + 1))}
+                  disabled={quantity >= maxQuantity}
+                  className="p-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Plus className="h-4 w-4" />
                 </button>
@@ -332,12 +463,47 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
                     e.stopPropagation();
                     addToCart();
                   }}
-                  className="flex-1 bg-primary-800 text-white py-2 px-6 rounded-md font-medium hover:bg-primary-700 transition-colors flex items-center justify-center space-x-2"
+                  disabled={checkingAvailability || insufficientUnits || !!rentalLimitError}
+                  className="flex-1 bg-primary-800 text-white py-2 px-6 rounded-md font-medium hover:bg-primary-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <ShoppingCart className="h-4 w-4" />
                   <span>Add to Cart</span>
                 </button>
               </div>
+              {availability && (
+                <p className={`mt-2 text-sm ${availability.free > 0 ? 'text-gray-600' : 'text-red-600'}`}>
+                  {availability.free > 0
+                    ? `${availability.free} of ${availability.owned} units free for the selected dates`
+                    : 'No units free for the selected dates'}
+                </p>
+              )}
+              {availability && availability.slots.length > 1 && (
+                <div className="mt-3">
+                  <div className="flex flex-wrap gap-1">
+                    {availability.slots.map((slot) => (
+                      <div
+                        key={slot.start}
+                        title={`${slot.free} free${slot.turnaround > 0 ? `, ${slot.turnaround} being prepared` : ''}`}
+                        className={`w-9 py-1 rounded text-center text-xs ${
+                          slot.free === 0
+                            ? 'bg-red-100 text-red-700'
+                            : slot.turnaround > 0
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-green-100 text-green-800'
+                        }`}
+                      >
+                        {new Date(slot.start).getDate()}
+                      </div>
+                    ))}
+                  </div>
+                  {(availability.buffer.beforeHours > 0 || availability.buffer.afterHours > 0) && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Units are prepared between rentals ({describeTurnaroundBuffer(availability.buffer)}); days in
+                      yellow have units blocked for it. Preparation time is not charged.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Apply Coupon */}
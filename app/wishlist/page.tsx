@@ -12,6 +12,7 @@ import Link from 'next/link';
 import { Heart, ShoppingCart, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { IProduct } from '@/types';
+import { addToCart as addToServerCart } from '@/lib/cartClient';
 
 export default function WishlistPage() {
   const { data: session, status } = useSession();
@@ -81,32 +82,20 @@ export default function WishlistPage() {
     }
   };
 
-  // Add to cart
-  const addToCart = (product: IProduct) => {
+  // Add to cart: one unit for tomorrow, held on the server
+  const addToCart = async (product: IProduct) => {
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const existingItem = cart.find((item: any) => item.productId === product._id);
-      
-      if (existingItem) {
-        existingItem.quantity += 1;
+      const result = await addToServerCart({
+        productId: product._id!.toString(),
+        quantity: 1,
+        startDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        endDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
+      });
+      if (result.success) {
+        toast.success('Added to cart');
       } else {
-        cart.push({
-          productId: product._id,
-          name: product.name,
-          image: product.image,
-          pricePerDay: product.pricePerDay,
-          quantity: 1,
-          duration: 'day',
-          fromDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          toDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
-          pricePerUnit: product.pricePerDay,
-          totalPrice: product.pricePerDay,
-          endUserId: product.endUserId?.toString() // Include endUserId for order tracking
-        });
+        toast.error(result.error || 'Failed to add to cart');
       }
-      
-      localStorage.setItem('cart', JSON.stringify(cart));
-      toast.success('Added to cart');
     } catch (error) {
       console.error('Error adding to cart:', error);
       toast.error('Failed to add to cart');
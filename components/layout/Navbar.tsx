@@ -10,6 +10,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { usePathname } from 'next/navigation';
+import toast from 'react-hot-toast';
 import { 
   Menu, 
   X, 
@@ -24,9 +25,13 @@ import {
   Truck,
   ShoppingCart,
   Heart,
-  Phone
+  Phone,
+  FileText,
+  Tag,
+  ScanBarcode
 } from 'lucide-react';
 import { logger } from '@/lib/logger';
+import { countCartUnits, fetchCart, mergeGuestCart, readGuestCart } from '@/lib/cartClient';
 
 /**
  * Main Navigation Component
@@ -38,25 +43,38 @@ export default function Navbar() {
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [cartCount, setCartCount] = useState(0);
 
-  // Update cart count from localStorage
+  const isCustomer = session?.user?.role === 'customer';
+
+  // Cart count from the server cart for customers, otherwise from the cart kept before sign-in
   useEffect(() => {
-    const updateCartCount = () => {
+    if (status === 'loading') return;
+
+    const updateCartCount = async () => {
       try {
-        const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-        // Defensive: ensure array and numeric quantities; if empty, count becomes 0
-        const itemsArray: any[] = Array.isArray(cart) ? cart : [];
-        const totalItems = itemsArray.reduce((sum: number, item: any) => {
-          const qty = Number(item?.quantity);
-          return sum + (Number.isFinite(qty) && qty > 0 ? qty : 0);
-        }, 0);
-        setCartCount(totalItems);
+        if (isCustomer) {
+          const json = await fetchCart();
+          setCartCount(json.success ? countCartUnits(json.data?.items || []) : 0);
+        } else {
+          setCartCount(countCartUnits(readGuestCart()));
+        }
       } catch (error) {
         setCartCount(0);
       }
     };
 
-    // Initial load
-    updateCartCount();
+    // A cart built before signing in moves into the customer's server cart
+    if (isCustomer) {
+      mergeGuestCart()
+        .then((json) => {
+          if (json?.skipped?.length) {
+            toast.error(`${json.skipped.length} saved cart item(s) are no longer available for their dates`);
+          }
+        })
+        .catch((error) => logger.error('Cart merge failed', { error }))
+        .finally(updateCartCount);
+    } else {
+      updateCartCount();
+    }
 
     // Listen for storage changes
     window.addEventListener('storage', updateCartCount);
@@ -72,22 +90,7 @@ export default function Navbar() {
       window.removeEventListener('cartUpdated', updateCartCount);
       window.removeEventListener('focus', updateCartCount);
     };
-  }, []);
-
-  // Recalculate on route change as an additional safeguard
-  useEffect(() => {
-    try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const itemsArray: any[] = Array.isArray(cart) ? cart : [];
-      const totalItems = itemsArray.reduce((sum: number, item: any) => {
-        const qty = Number(item?.quantity);
-        return sum + (Number.isFinite(qty) && qty > 0 ? qty : 0);
-      }, 0);
-      setCartCount(totalItems);
-    } catch {
-      setCartCount(0);
-    }
-  }, [pathname]);
+  }, [status, isCustomer, pathname]);
 
   // Navigation items based on user role
   const getNavigationItems = () => {
@@ -98,7 +101,9 @@ export default function Navbar() {
         { name: 'Products', href: '/enduser/products', icon: Package },
         { name: 'Orders', href: '/enduser/orders', icon: Calendar },
         { name: 'Transfer', href: '/enduser/transfer', icon: Truck },
+        { name: 'Scan', href: '/enduser/scan', icon: ScanBarcode },
         { name: 'Customers', href: '/enduser/customers', icon: User },
+        { name: 'Coupons', href: '/enduser/coupons', icon: Tag },
       ];
     } else if (session?.user?.role === 'customer') {
       // Customer navigation
@@ -106,6 +111,7 @@ export default function Navbar() {
         { name: 'Home', href: '/', icon: Home },
         { name: 'Rental Shop', href: '/shop', icon: Package },
         { name: 'Wishlist', href: '/wishlist', icon: User },
+        { name: 'Invoices', href: '/invoices', icon: FileText },
       ];
     } else {
       // Unauthenticated navigation
@@ -266,7 +272,7 @@ export default function Navbar() {
                     </Link>
                     
                     <Link
-                      href="/settings"
+                      href={session.user.role === 'enduser' ? '/enduser/settings' : '/settings'}
                       className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
                       onClick={() => setIsUserMenuOpen(false)}
                     >
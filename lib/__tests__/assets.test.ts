@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+// In-memory units standing in for the assets collection; updates apply only when the filter still matches
+const store = vi.hoisted(() => new Map<string, any>());
+const claimUnit = vi.hoisted(() => vi.fn());
+
+vi.mock('@/models/Asset', () => {
+  const matches = (doc: any, filter: any) =>
+    (!filter._id || (filter._id.$in ? filter._id.$in.map(String).includes(doc._id.toString()) : doc._id.toString() === filter._id.toString())) &&
+    (!filter.status || doc.status === filter.status) &&
+    (!filter.productId || doc.productId.toString() === filter.productId.toString()) &&
+    (!filter.currentOrderId || doc.currentOrderId?.toString() === filter.currentOrderId.toString());
+  const load = (doc: any) => ({
+    ...doc,
+    rentals: doc.rentals.map((rental: any) => ({ ...rental })),
+    save: async function (this: any) {
+      const { save, ...fields } = this;
+      store.set(doc._id.toString(), fields);
+    },
+  });
+  return {
+    default: {
+      find: async (filter: any) => Array.from(store.values()).filter((doc) => matches(doc, filter)).map(load),
+      findOneAndUpdate: claimUnit.mockImplementation(async (filter: any, update: any) => {
+        const doc = store.get(filter._id.toString());
+        if (!doc || !matches(doc, filter)) return null;
+        Object.assign(doc, update.$set);
+        doc.rentals.push(update.$push.rentals);
+        return doc;
+      }),
+      updateMany: async (filter: any, update: any) => {
+        for (const doc of Array.from(store.values()).filter((d) => matches(d, filter))) {
+          Object.assign(doc, update.$set);
+          Object.keys(update.$unset).forEach((key) => delete doc[key]);
+          doc.rentals = doc.rentals.filter((r: any) => r.rentalOrderId.toString() !== update.$pull.rentals.rentalOrderId.toString());
+        }
+      },
+    },
+  };
+});
+
+import { AssetError, assignAssets } from '@/lib/assets';
+
+const id = () => new mongoose.Types.ObjectId();
+const END_USER_ID = id();
+const PRODUCT_ID = id();
+
+function addUnit(serialNumber: string, status = 'available') {
+  const unit = { _id: id(), serialNumber, productId: PRODUCT_ID, endUserId: END_USER_ID, status, condition: 'good', rentals: [] as any[] };
+  store.set(unit._id.toString(), unit);
+  return unit;
+}
+
+function makeOrder(orderNumber: string, quantity = 1) {
+  return {
+    _id: id(),
+    orderNumber,
+    status: 'confirmed',
+    endUserId: END_USER_ID,
+    customerName: 'Asha',
+    items: [{ _id: id(), productId: PRODUCT_ID, productName: 'Camera', quantity, assetIds: undefined as any }],
+    save: vi.fn(),
+  };
+}
+
+const assign = (order: any, ...units: any[]) =>
+  assignAssets(order, [{ itemId: order.items[0]._id.toString(), assetIds: units.map((unit) => unit._id.toString()) }]);
+
+beforeEach(() => {
+  store.clear();
+});
+
+describe('assignAssets', () => {
+  it('rents the units out on the order line', async () => {
+    const unit = addUnit('CAM-1');
+    const order = makeOrder('RO-1');
+
+    await assign(order, unit);
+    expect(store.get(unit._id.toString())).toMatchObject({ status: 'rented', currentOrderId: order._id, currentOrderNumber: 'RO-1' });
+    expect(store.get(unit._id.toString()).rentals).toHaveLength(1);
+    expect(order.items[0].assetIds.map(String)).toEqual([unit._id.toString()]);
+    expect(order.save).toHaveBeenCalled();
+  });
+
+  it('gives a unit to only one of two pickups racing for it', async () => {
+    const unit = addUnit('CAM-1');
+    const first = makeOrder('RO-1');
+    const second = makeOrder('RO-2');
+
+    const results = await Promise.allSettled([assign(first, unit), assign(second, unit)]);
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((results.find((result) => result.status === 'rejected') as PromiseRejectedResult).reason).toBeInstanceOf(AssetError);
+    expect(store.get(unit._id.toString()).rentals).toHaveLength(1);
+  });
+
+  it('gives back the units already claimed when one cannot be', async () => {
+    const free = addUnit('CAM-1');
+    const taken = addUnit('CAM-2');
+    const order = makeOrder('RO-1', 2);
+    // Another pickup takes the second unit between the check and the claim
+    const claim = claimUnit.getMockImplementation()!;
+    claimUnit.mockImplementationOnce(claim).mockImplementationOnce(async () => {
+      store.get(taken._id.toString()).status = 'rented';
+      return null;
+    });
+
+    await expect(assign(order, free, taken)).rejects.toThrow('CAM-2 was just taken');
+    expect(store.get(free._id.toString())).toMatchObject({ status: 'available', rentals: [] });
+    expect(store.get(free._id.toString()).currentOrderId).toBeUndefined();
+    expect(order.items[0].assetIds).toBeUndefined();
+    expect(order.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses units that are not available', async () => {
+    const unit = addUnit('CAM-1', 'maintenance');
+
+    await expect(assign(makeOrder('RO-1'), unit)).rejects.toThrow('Unit CAM-1 is maintenance');
+  });
+
+  it('puts units taken off a line back in the pool', async () => {
+    const first = addUnit('CAM-1');
+    const second = addUnit('CAM-2');
+    const order = makeOrder('RO-1');
+
+    await assign(order, first);
+    await assign(order, second);
+    expect(store.get(first._id.toString())).toMatchObject({ status: 'available', rentals: [] });
+    expect(store.get(second._id.toString())).toMatchObject({ status: 'rented', currentOrderId: order._id });
+  });
+});
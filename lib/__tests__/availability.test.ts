@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  units: [] as Array<{ status: string }>,
+  quantityAvailable: 0,
+  orders: [] as any[],
+  maintenance: [] as any[],
+  buffer: { beforeHours: 0, afterHours: 0 },
+}));
+
+const found = vi.hoisted(() => (docs: () => any[]) => ({ find: () => ({ select: () => ({ lean: async () => docs() }) }) }));
+
+vi.mock('@/models/Asset', () => ({
+  default: {
+    find: (filter: any) => ({
+      select: () => ({ lean: async () => mocks.units.filter((unit) => unit.status !== filter.status?.$ne) }),
+      distinct: async () => [],
+    }),
+  },
+}));
+vi.mock('@/models/Product', () => ({
+  default: { findById: () => ({ select: () => ({ lean: async () => ({ quantityAvailable: mocks.quantityAvailable }) }) }) },
+}));
+vi.mock('@/models/RentalOrder', () => ({ default: found(() => mocks.orders) }));
+vi.mock('@/models/Booking', () => ({ default: found(() => []) }));
+vi.mock('@/models/Cart', () => ({ default: found(() => []) }));
+vi.mock('@/models/Maintenance', () => ({ default: found(() => mocks.maintenance) }));
+vi.mock('@/models/BusinessSettings', () => ({ default: { getTurnaroundBuffer: async () => mocks.buffer } }));
+
+import { AvailabilityBlock, findFreeStart, getOwnedUnits, padBlocks, peakBookedUnits } from '@/lib/availability';
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASE = new Date('2025-01-10T00:00:00Z').getTime();
+const at = (hours: number) => new Date(BASE + hours * HOUR_MS);
+
+function block(from: number, to: number, quantity: number, source: AvailabilityBlock['source'] = 'order'): AvailabilityBlock {
+  return { start: at(from), end: at(to), quantity, source, refId: `${source}-${from}-${to}` };
+}
+
+describe('peakBookedUnits', () => {
+  it('is zero with nothing booked', () => {
+    expect(peakBookedUnits([], at(0), at(24))).toBe(0);
+  });
+
+  it('adds up overlapping blocks', () => {
+    expect(peakBookedUnits([block(0, 10, 2), block(5, 15, 3), block(12, 20, 1)], at(0), at(24))).toBe(5);
+  });
+
+  it('does not count back-to-back rentals as overlapping', () => {
+    expect(peakBookedUnits([block(0, 10, 2), block(10, 20, 3)], at(0), at(24))).toBe(3);
+  });
+
+  it('counts only the part of a block inside the window', () => {
+    const blocks = [block(0, 10, 2), block(8, 30, 4)];
+    expect(peakBookedUnits(blocks, at(0), at(8))).toBe(2);
+    expect(peakBookedUnits(blocks, at(10), at(24))).toBe(4);
+    expect(peakBookedUnits(blocks, at(30), at(40))).toBe(0);
+  });
+});
+
+describe('padBlocks', () => {
+  it('widens rentals by the turnaround buffer but not maintenance', () => {
+    const [order, maintenance] = padBlocks([block(10, 20, 1), block(10, 20, 1, 'maintenance')], { beforeHours: 2, afterHours: 4 });
+    expect(order.start).toEqual(at(8));
+    expect(order.end).toEqual(at(24));
+    expect(maintenance.start).toEqual(at(10));
+    expect(maintenance.end).toEqual(at(20));
+  });
+
+  it('makes back-to-back rentals overlap while their units are prepared', () => {
+    const padded = padBlocks([block(0, 10, 2), block(10, 20, 3)], { beforeHours: 0, afterHours: 2 });
+    expect(peakBookedUnits(padded, at(0), at(24))).toBe(5);
+  });
+
+  it('leaves blocks alone without a buffer', () => {
+    const blocks = [block(0, 10, 1)];
+    expect(padBlocks(blocks, { beforeHours: 0, afterHours: 0 })).toBe(blocks);
+  });
+});
+
+describe('getOwnedUnits', () => {
+  it('counts the stock of a product without serialized units', async () => {
+    mocks.units = [];
+    mocks.quantityAvailable = 4;
+    await expect(getOwnedUnits('product')).resolves.toBe(4);
+  });
+
+  it('counts only serialized units in service', async () => {
+    mocks.units = [{ status: 'available' }, { status: 'rented' }, { status: 'maintenance' }, { status: 'retired' }];
+    mocks.quantityAvailable = 4;
+    await expect(getOwnedUnits('product')).resolves.toBe(2);
+  });
+
+  it('falls back to the stock once every unit is retired', async () => {
+    mocks.units = [{ status: 'retired' }];
+    mocks.quantityAvailable = 3;
+    await expect(getOwnedUnits('product')).resolves.toBe(3);
+  });
+});
+
+describe('findFreeStart', () => {
+  const rental = (from: number, to: number, quantity = 1) => ({
+    _id: `order-${from}`,
+    items: [{ productId: 'product', startDate: at(from), endDate: at(to), quantity }],
+  });
+
+  beforeEach(() => {
+    mocks.units = [];
+    mocks.quantityAvailable = 2;
+    mocks.orders = [];
+    mocks.maintenance = [];
+    mocks.buffer = { beforeHours: 0, afterHours: 0 };
+  });
+
+  it('starts right away when a unit is free', async () => {
+    mocks.orders = [rental(2, 10)];
+    await expect(findFreeStart('product', at(0), at(48), 4 * HOUR_MS)).resolves.toEqual(at(0));
+  });
+
+  it('waits until enough units come back from rentals and maintenance', async () => {
+    mocks.orders = [rental(2, 10)];
+    mocks.maintenance = [{ _id: 'maintenance-1', startDate: at(0), endDate: at(6), quantity: 1 }];
+    await expect(findFreeStart('product', at(0), at(48), 4 * HOUR_MS)).resolves.toEqual(at(6));
+  });
+
+  it('leaves time to prepare the units after a rental', async () => {
+    mocks.quantityAvailable = 1;
+    mocks.orders = [rental(0, 10)];
+    mocks.buffer = { beforeHours: 1, afterHours: 2 };
+    await expect(findFreeStart('product', at(0), at(48), 4 * HOUR_MS)).resolves.toEqual(at(13));
+  });
+
+  it('finds nothing when the units stay busy for the whole search', async () => {
+    mocks.quantityAvailable = 1;
+    mocks.orders = [rental(0, 100)];
+    await expect(findFreeStart('product', at(0), at(48), 4 * HOUR_MS)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  calculateCancellationRefund,
+  findCancellationTier,
+  normalizeCancellationPolicy,
+} from '@/lib/cancellation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2025-01-10T10:00:00Z');
+const startsIn = (hours: number) => new Date(NOW.getTime() + hours * HOUR_MS);
+
+describe('calculateCancellationRefund', () => {
+  it('refunds by the tier the notice falls in', () => {
+    const refund = (hours: number) =>
+      calculateCancellationRefund(DEFAULT_CANCELLATION_POLICY, startsIn(hours), 1234, 'customer', NOW);
+    expect(refund(48)).toMatchObject({ refundPercent: 100, refundAmount: 1234 });
+    expect(refund(24)).toMatchObject({ refundPercent: 100, refundAmount: 1234 });
+    expect(refund(20)).toMatchObject({ refundPercent: 50, refundAmount: 617 });
+    expect(refund(5)).toMatchObject({ refundPercent: 0, refundAmount: 0 });
+  });
+
+  it('counts only whole hours of notice', () => {
+    const quote = calculateCancellationRefund(DEFAULT_CANCELLATION_POLICY, startsIn(23.99), 1000, 'customer', NOW);
+    expect(quote.hoursBeforeStart).toBe(23);
+    expect(quote.refundPercent).toBe(50);
+  });
+
+  it('refunds everything when the business cancels', () => {
+    const quote = calculateCancellationRefund(DEFAULT_CANCELLATION_POLICY, startsIn(1), 1000, 'enduser', NOW);
+    expect(quote).toMatchObject({ refundPercent: 100, refundAmount: 1000 });
+  });
+
+  it('never refunds a negative amount', () => {
+    const quote = calculateCancellationRefund(DEFAULT_CANCELLATION_POLICY, startsIn(48), -50, 'customer', NOW);
+    expect(quote).toMatchObject({ paidAmount: 0, refundAmount: 0 });
+  });
+});
+
+describe('normalizeCancellationPolicy', () => {
+  it('falls back to the default policy', () => {
+    expect(normalizeCancellationPolicy(null)).toBe(DEFAULT_CANCELLATION_POLICY);
+  });
+
+  it('keeps one tier per notice period, clamped and longest notice first', () => {
+    const policy = normalizeCancellationPolicy({
+      tiers: [
+        { hoursBeforeStart: 12, refundPercent: 40 },
+        { hoursBeforeStart: 72, refundPercent: 150 },
+        { hoursBeforeStart: 12, refundPercent: 30 },
+        { hoursBeforeStart: -5, refundPercent: 10 },
+      ],
+    });
+    expect(policy.tiers).toEqual([
+      { hoursBeforeStart: 72, refundPercent: 100 },
+      { hoursBeforeStart: 12, refundPercent: 30 },
+      { hoursBeforeStart: 0, refundPercent: 10 },
+    ]);
+  });
+});
+
+describe('findCancellationTier', () => {
+  it('finds no tier with less notice than every tier', () => {
+    expect(findCancellationTier({ tiers: [{ hoursBeforeStart: 24, refundPercent: 100 }] }, 10)).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+// In-memory carts standing in for the carts collection
+const carts = vi.hoisted(() => [] as any[]);
+const stock = vi.hoisted(() => ({ owned: 1 }));
+
+vi.mock('@/models/Cart', () => {
+  const lockLapsed = (cart: any, clause: any) => {
+    const condition = clause.checkoutLockedUntil;
+    if (condition === null) return cart.checkoutLockedUntil === null;
+    if (condition.$exists === false) return cart.checkoutLockedUntil === undefined;
+    return !!cart.checkoutLockedUntil && cart.checkoutLockedUntil <= condition.$lte;
+  };
+  return {
+    default: {
+      findOneAndUpdate: async (filter: any, update: any) => {
+        const cart = carts.find((c) => c.customerId === filter.customerId && filter.$or.some((clause: any) => lockLapsed(c, clause)));
+        if (!cart) return null;
+        Object.assign(cart, update.$set);
+        return cart;
+      },
+      updateOne: async (filter: any, update: any) => {
+        const cart = carts.find((c) => c._id === filter._id);
+        Object.keys(update.$unset).forEach((key) => delete cart[key]);
+      },
+    },
+  };
+});
+vi.mock('@/models/Product', () => ({
+  default: { findById: () => ({ select: () => ({ lean: async () => ({ name: 'Camera' }) }) }) },
+}));
+// Units held by live cart lines across every cart, against the units owned
+vi.mock('@/lib/availability', () => ({
+  getAvailability: async (productId: string, start: Date, end: Date, requested: number) => {
+    const now = new Date();
+    const booked = carts
+      .flatMap((cart) => cart.items)
+      .filter((line) => line.productId.toString() === productId && line.holdExpiresAt > now)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return { owned: stock.owned, booked, free: Math.max(0, stock.owned - booked), requested, available: stock.owned - booked >= requested };
+  },
+}));
+
+import { CartHoldError, CartItemError, claimCartForCheckout, holdCartForCheckout, releaseCartCheckout } from '@/lib/cart';
+
+const MINUTE_MS = 60 * 1000;
+const PRODUCT_ID = new mongoose.Types.ObjectId();
+
+function addCart(customerId: string, quantity = 1) {
+  const start = new Date(Date.now() + 3 * 24 * 60 * MINUTE_MS);
+  const cart = {
+    _id: `cart-${customerId}`,
+    customerId,
+    items: [{ productId: PRODUCT_ID, quantity, startDate: start, endDate: new Date(start.getTime() + 24 * 60 * MINUTE_MS) } as any],
+    save: vi.fn(),
+  };
+  carts.push(cart);
+  return cart;
+}
+
+beforeEach(() => {
+  carts.length = 0;
+  stock.owned = 1;
+});
+
+describe('claimCartForCheckout', () => {
+  it('lets only one checkout of a cart run at a time', async () => {
+    const cart = addCart('customer-1');
+    const now = new Date();
+
+    await expect(claimCartForCheckout('customer-1', now)).resolves.toBe(cart);
+    await expect(claimCartForCheckout('customer-1', now)).resolves.toBeNull();
+
+    await releaseCartCheckout(cart._id);
+    await expect(claimCartForCheckout('customer-1', now)).resolves.toBe(cart);
+  });
+
+  it('takes over a lock left by a checkout that crashed', async () => {
+    addCart('customer-1');
+    const now = new Date();
+
+    await claimCartForCheckout('customer-1', now);
+    await expect(claimCartForCheckout('customer-1', new Date(now.getTime() + MINUTE_MS))).resolves.toBeNull();
+    await expect(claimCartForCheckout('customer-1', new Date(now.getTime() + 2 * MINUTE_MS))).resolves.not.toBeNull();
+  });
+});
+
+describe('holdCartForCheckout', () => {
+  it('holds every line for a fresh hold period', async () => {
+    const cart = addCart('customer-1');
+    const now = new Date();
+
+    await holdCartForCheckout(cart, now);
+    expect(cart.items[0].holdExpiresAt).toEqual(new Date(now.getTime() + 15 * MINUTE_MS));
+    expect(cart.save).toHaveBeenCalled();
+  });
+
+  it('extends a hold the cart already has', async () => {
+    const cart = addCart('customer-1');
+    const now = new Date();
+    cart.items[0].holdExpiresAt = new Date(now.getTime() + MINUTE_MS);
+
+    await holdCartForCheckout(cart, now);
+    expect(cart.items[0].holdExpiresAt).toEqual(new Date(now.getTime() + 15 * MINUTE_MS));
+  });
+
+  it('gives the last unit to only one of two carts', async () => {
+    const first = addCart('customer-1');
+    const second = addCart('customer-2');
+
+    await holdCartForCheckout(first);
+    const error = await holdCartForCheckout(second).catch((e) => e);
+    expect(error).toBeInstanceOf(CartHoldError);
+    expect(error.free).toBe(0);
+    expect(second.items[0].holdExpiresAt).toBeUndefined();
+    expect(first.items[0].holdExpiresAt).toBeDefined();
+  });
+
+  it('refuses an empty cart', async () => {
+    const cart = addCart('customer-1');
+    cart.items = [];
+
+    await expect(holdCartForCheckout(cart)).rejects.toThrow(CartItemError);
+  });
+});
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  buildQuote: vi.fn(),
+  getAvailability: vi.fn(),
+  holdCartForCheckout: vi.fn(),
+  issueInvoice: vi.fn(),
+  syncOrderPaymentStatus: vi.fn(),
+  fetchOrder: vi.fn(),
+  fetchPayments: vi.fn(),
+  refundPayment: vi.fn(),
+  paymentExists: vi.fn(),
+  paymentCreate: vi.fn(),
+  orderCreate: vi.fn(),
+  orderExists: vi.fn(),
+  orderDeleteMany: vi.fn(),
+  cartUpdateOne: vi.fn(),
+}));
+
+vi.mock('@/lib/mongodb', () => ({ supportsTransactions: async () => false }));
+vi.mock('@/lib/quote', () => ({ buildQuote: mocks.buildQuote }));
+vi.mock('@/lib/availability', () => ({ getAvailability: mocks.getAvailability }));
+vi.mock('@/lib/cart', () => ({
+  holdCartForCheckout: mocks.holdCartForCheckout,
+  cartQuoteItems: (cart: any) => cart.items.map((line: any) => ({ ...line })),
+}));
+vi.mock('@/lib/invoices', () => ({ issueInvoice: mocks.issueInvoice }));
+vi.mock('@/lib/payments', () => ({ syncOrderPaymentStatus: mocks.syncOrderPaymentStatus }));
+vi.mock('@/lib/razorpay', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/razorpay')>()),
+  getRazorpay: () => ({
+    orders: { fetch: mocks.fetchOrder, fetchPayments: mocks.fetchPayments },
+    payments: { refund: mocks.refundPayment },
+  }),
+}));
+vi.mock('@/lib/coupons', () => ({
+  claimCouponUse: vi.fn(),
+  releaseCouponUse: vi.fn(),
+  recordCouponRedemption: vi.fn(),
+}));
+vi.mock('@/models/RentalOrder', () => ({
+  default: { create: mocks.orderCreate, exists: mocks.orderExists, deleteMany: mocks.orderDeleteMany },
+}));
+vi.mock('@/models/Product', () => ({
+  default: { findById: () => ({ lean: async () => ({ name: 'Camera' }) }) },
+}));
+vi.mock('@/models/Payment', () => ({ default: { exists: mocks.paymentExists, create: mocks.paymentCreate } }));
+vi.mock('@/models/Cart', () => ({ default: { updateOne: mocks.cartUpdateOne } }));
+vi.mock('@/models/Transfer', () => ({ default: { deleteMany: vi.fn() } }));
+vi.mock('@/models/StockMovement', () => ({ default: { deleteMany: vi.fn() } }));
+vi.mock('@/models/BusinessSettings', () => ({ default: { getLateFeeTerms: async () => undefined } }));
+
+import { PaymentVerificationError, completeCheckout, refundUnplacedCheckout } from '@/lib/checkout';
+
+const CUSTOMER_ID = '64b000000000000000000001';
+const END_USER_ID = '64b000000000000000000002';
+const PRODUCT_ID = '64b000000000000000000003';
+const CART_ID = '64b000000000000000000004';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeCart() {
+  const start = new Date(Date.now() + 3 * DAY_MS);
+  return {
+    _id: CART_ID,
+    items: [{ _id: 'line-1', productId: PRODUCT_ID, quantity: 2, startDate: start, endDate: new Date(start.getTime() + DAY_MS) }],
+  };
+}
+
+function makeQuote(items: any[]) {
+  const line = items[0];
+  return {
+    lines: [{
+      productId: PRODUCT_ID,
+      productName: 'Camera',
+      endUserId: END_USER_ID,
+      quantity: line.quantity,
+      startDate: line.startDate,
+      endDate: line.endDate,
+      durationUnit: 'day',
+      unitPrice: 500,
+      lineTotal: 1000,
+      breakdown: [],
+      adjustments: [],
+      deposit: 200,
+      hsnSacCode: '9973',
+      gstRate: 18,
+    }],
+    supplies: [{ endUserId: END_USER_ID, discount: 0, deliveryCharge: 0, gst: { total: 180 } }],
+    totals: { total: 1180, amountPayable: 1380 },
+  };
+}
+
+let created: any[];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  created = [];
+  mocks.buildQuote.mockImplementation(async (items: any[]) => makeQuote(items));
+  mocks.getAvailability.mockResolvedValue({ available: true, free: 5, owned: 5 });
+  mocks.orderExists.mockResolvedValue(null);
+  mocks.paymentExists.mockResolvedValue(null);
+  mocks.orderCreate.mockImplementation(async ([doc]: any[]) => {
+    const order = { ...doc, _id: `order-${created.length + 1}`, orderNumber: `RO-${created.length + 1}`, totalPrice: 1180 };
+    created.push(order);
+    return [order];
+  });
+  mocks.issueInvoice.mockImplementation(async (order: any) => ({
+    _id: `invoice-${order._id}`,
+    rentalOrderId: order._id,
+    invoiceNumber: 'INV/25-26/00001',
+  }));
+});
+
+describe('completeCheckout', () => {
+  it('creates one unpaid order per business with its invoice and empties the cart', async () => {
+    const cart = makeCart();
+    const { orders } = await completeCheckout(cart, { customer: { id: CUSTOMER_ID, accountEmail: 'buyer@example.com' } });
+
+    expect(orders).toEqual([
+      { id: 'order-1', orderNumber: 'RO-1', invoiceId: 'invoice-order-1', invoiceNumber: 'INV/25-26/00001', items: 1, totalPrice: 1180 },
+    ]);
+    expect(created[0]).toMatchObject({ status: 'confirmed', paymentStatus: 'pending', depositLedger: [], taxAmount: 180 });
+    expect(mocks.holdCartForCheckout).toHaveBeenCalledWith(cart);
+    expect(mocks.cartUpdateOne).toHaveBeenCalledWith({ _id: CART_ID }, { $pull: { items: { _id: { $in: ['line-1'] } } } });
+  });
+
+  it('prices with the account email and keeps the contact email for the order only', async () => {
+    await completeCheckout(makeCart(), {
+      customer: { id: CUSTOMER_ID, accountEmail: 'buyer@gmail.com', email: 'x@acme.com' },
+    });
+
+    expect(mocks.buildQuote).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ customerEmail: 'buyer@gmail.com' }));
+    expect(created[0].customerEmail).toBe('x@acme.com');
+  });
+
+  it('creates nothing when a line is no longer free', async () => {
+    mocks.getAvailability.mockResolvedValue({ available: false, free: 1, owned: 5 });
+
+    await expect(completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID } })).rejects.toThrow('Only 1 of 5 units of Camera');
+    expect(mocks.orderCreate).not.toHaveBeenCalled();
+    expect(mocks.cartUpdateOne).not.toHaveBeenCalled();
+  });
+
+  it('rolls back the orders already created when a later one fails', async () => {
+    mocks.buildQuote.mockImplementation(async (items: any[]) => {
+      const quote = makeQuote(items);
+      const other = { ...quote.lines[0], endUserId: '64b000000000000000000005' };
+      return { ...quote, lines: [...quote.lines, other], supplies: [...quote.supplies, { ...quote.supplies[0], endUserId: other.endUserId }] };
+    });
+    mocks.orderCreate
+      .mockImplementationOnce(async ([doc]: any[]) => [{ ...doc, _id: 'order-1', orderNumber: 'RO-1' }])
+      .mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID } })).rejects.toThrow('write failed');
+    expect(mocks.orderDeleteMany).toHaveBeenCalledWith({ _id: { $in: ['order-1'] } });
+    expect(mocks.cartUpdateOne).not.toHaveBeenCalled();
+  });
+});
+
+const razorpayOrder = (overrides: any = {}) => ({
+  id: 'order_rzp_1',
+  amount: 138000,
+  receipt: `rcpt_${CUSTOMER_ID}_abcd1234`,
+  notes: { customerId: CUSTOMER_ID },
+  ...overrides,
+});
+
+describe('completeCheckout with a Razorpay order', () => {
+  it('accepts a Razorpay order the customer created for the quoted amount', async () => {
+    mocks.fetchOrder.mockResolvedValue(razorpayOrder());
+
+    await completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID }, razorpayOrderId: 'order_rzp_1' });
+    expect(created[0]).toMatchObject({ razorpayOrderId: 'order_rzp_1', paymentStatus: 'pending' });
+    expect(mocks.syncOrderPaymentStatus).toHaveBeenCalledWith('order_rzp_1');
+  });
+
+  it('refuses a Razorpay order for another amount or customer', async () => {
+    mocks.fetchOrder.mockResolvedValueOnce(razorpayOrder({ amount: 100 }));
+    await expect(
+      completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID }, razorpayOrderId: 'order_rzp_1' })
+    ).rejects.toThrow(PaymentVerificationError);
+
+    mocks.fetchOrder.mockResolvedValueOnce(razorpayOrder({ notes: { customerId: 'someone-else' } }));
+    await expect(
+      completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID }, razorpayOrderId: 'order_rzp_1' })
+    ).rejects.toThrow(PaymentVerificationError);
+    expect(mocks.orderCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses a Razorpay order that already paid for orders or was refunded', async () => {
+    mocks.fetchOrder.mockResolvedValue(razorpayOrder());
+    mocks.orderExists.mockResolvedValueOnce({ _id: 'order-0' });
+    await expect(
+      completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID }, razorpayOrderId: 'order_rzp_1' })
+    ).rejects.toThrow('already been used');
+
+    mocks.paymentExists.mockResolvedValueOnce({ _id: 'payment-1' });
+    await expect(
+      completeCheckout(makeCart(), { customer: { id: CUSTOMER_ID }, razorpayOrderId: 'order_rzp_1' })
+    ).rejects.toThrow('has been refunded');
+  });
+});
+
+describe('refundUnplacedCheckout', () => {
+  beforeEach(() => {
+    mocks.fetchOrder.mockResolvedValue(razorpayOrder());
+    mocks.fetchPayments.mockResolvedValue({
+      items: [
+        { id: 'pay_1', status: 'captured', amount: 138000, amount_refunded: 0 },
+        { id: 'pay_2', status: 'failed', amount: 138000, amount_refunded: 0 },
+      ],
+    });
+    mocks.refundPayment.mockResolvedValue({ id: 'rfnd_1', status: 'processed', currency: 'INR' });
+  });
+
+  it('refunds what was captured and records it in the payment ledger', async () => {
+    await expect(refundUnplacedCheckout('order_rzp_1', CUSTOMER_ID, 'Units taken')).resolves.toBe(1380);
+
+    expect(mocks.refundPayment).toHaveBeenCalledTimes(1);
+    expect(mocks.refundPayment).toHaveBeenCalledWith('pay_1', expect.objectContaining({ amount: 138000 }));
+    expect(mocks.paymentCreate).toHaveBeenCalledWith(expect.objectContaining({
+      eventId: 'refund.created:rfnd_1',
+      razorpayOrderId: 'order_rzp_1',
+      razorpayRefundId: 'rfnd_1',
+      amount: 1380,
+    }));
+  });
+
+  it('refunds nothing once a rental order was paid with the Razorpay order', async () => {
+    mocks.orderExists.mockResolvedValue({ _id: 'order-1' });
+
+    await expect(refundUnplacedCheckout('order_rzp_1', CUSTOMER_ID, 'Retry')).resolves.toBe(0);
+    expect(mocks.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('refunds nothing on another customer\'s Razorpay order', async () => {
+    await expect(refundUnplacedCheckout('order_rzp_1', '64b0000000000000000000ff', 'Units taken')).resolves.toBe(0);
+    expect(mocks.fetchPayments).not.toHaveBeenCalled();
+  });
+
+  it('reports no refund when Razorpay refuses it', async () => {
+    mocks.refundPayment.mockRejectedValue({ error: { description: 'Refund window closed' } });
+
+    await expect(refundUnplacedCheckout('order_rzp_1', CUSTOMER_ID, 'Units taken')).resolves.toBe(0);
+  });
+});
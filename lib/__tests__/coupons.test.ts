@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  coupon: null as any,
+  orderExists: vi.fn(),
+  redemptions: vi.fn(),
+}));
+
+vi.mock('@/models/Coupon', () => ({
+  default: {
+    findOne: () => ({ lean: async () => mocks.coupon }),
+    // Takes a use only while the coupon is active and under its limit, as the conditional update does
+    findOneAndUpdate: async () => {
+      const coupon = mocks.coupon;
+      if (!coupon.active || (coupon.usageLimit != null && coupon.redemptionCount >= coupon.usageLimit)) return null;
+      coupon.redemptionCount += 1;
+      return coupon;
+    },
+    updateOne: async (filter: any) => {
+      if (mocks.coupon.redemptionCount > filter.redemptionCount.$gt) mocks.coupon.redemptionCount -= 1;
+    },
+  },
+}));
+vi.mock('@/models/CouponRedemption', () => ({ default: { countDocuments: mocks.redemptions } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { exists: mocks.orderExists } }));
+
+import { CouponError, CouponLine, applyCoupon, claimCouponUse, releaseCouponUse } from '@/lib/coupons';
+
+const BUSINESS_ID = '64b000000000000000000001';
+const CUSTOMER_ID = '64b000000000000000000002';
+const CAMERA_ID = '64b000000000000000000003';
+const TRIPOD_ID = '64b000000000000000000004';
+const NOW = new Date('2025-06-15T10:00:00Z');
+
+function coupon(overrides: any = {}) {
+  return {
+    _id: '64b0000000000000000000c1',
+    endUserId: BUSINESS_ID,
+    code: 'SUMMER20',
+    discountType: 'percent',
+    value: 20,
+    minRentalHours: 0,
+    productIds: [],
+    categories: [],
+    firstOrderOnly: false,
+    active: true,
+    redemptionCount: 0,
+    ...overrides,
+  };
+}
+
+const lines: CouponLine[] = [
+  { productId: CAMERA_ID, category: 'Cameras', endUserId: BUSINESS_ID, hours: 48, lineTotal: 1000 },
+  { productId: TRIPOD_ID, category: 'Accessories', endUserId: BUSINESS_ID, hours: 4, lineTotal: 500 },
+  { productId: '64b000000000000000000005', endUserId: '64b0000000000000000000ff', hours: 48, lineTotal: 800 },
+];
+
+const rejection = (promise: Promise<unknown>) => promise.then(() => undefined, (error) => error.reason);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.coupon = coupon();
+  mocks.orderExists.mockResolvedValue(null);
+  mocks.redemptions.mockResolvedValue(0);
+});
+
+describe('applyCoupon', () => {
+  it('takes a percent off the running business\'s lines only', async () => {
+    const applied = await applyCoupon(' summer20 ', lines, undefined, NOW);
+
+    expect(applied).toMatchObject({ code: 'SUMMER20', discount: 300 });
+    expect(applied.lineDiscounts).toEqual([200, 100, 0]);
+  });
+
+  it('caps a percent coupon at its maximum discount', async () => {
+    mocks.coupon = coupon({ maxDiscount: 150 });
+
+    await expect(applyCoupon('SUMMER20', lines, undefined, NOW)).resolves.toMatchObject({ discount: 150, lineDiscounts: [100, 50, 0] });
+  });
+
+  it('never takes a flat coupon beyond the lines it covers', async () => {
+    mocks.coupon = coupon({ discountType: 'flat', value: 2000, productIds: [TRIPOD_ID] });
+
+    await expect(applyCoupon('SUMMER20', lines, undefined, NOW)).resolves.toMatchObject({ discount: 500, lineDiscounts: [0, 500, 0] });
+  });
+
+  it('skips lines shorter than the minimum rental', async () => {
+    mocks.coupon = coupon({ minRentalHours: 24 });
+    await expect(applyCoupon('SUMMER20', lines, undefined, NOW)).resolves.toMatchObject({ discount: 200, lineDiscounts: [200, 0, 0] });
+
+    mocks.coupon = coupon({ minRentalHours: 72 });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('min_duration');
+  });
+
+  it('refuses codes that are unknown, inactive, outside their dates or used up', async () => {
+    mocks.coupon = null;
+    await expect(rejection(applyCoupon('NOPE', lines, undefined, NOW))).resolves.toBe('not_found');
+
+    mocks.coupon = coupon({ active: false });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('inactive');
+
+    mocks.coupon = coupon({ startsAt: new Date('2025-07-01') });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('not_started');
+
+    mocks.coupon = coupon({ endsAt: new Date('2025-06-01') });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('expired');
+
+    mocks.coupon = coupon({ usageLimit: 10, redemptionCount: 10 });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('usage_limit');
+
+    mocks.coupon = coupon({ categories: ['Lighting'] });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('not_applicable');
+  });
+
+  it('checks customer limits against the signed-in customer', async () => {
+    mocks.coupon = coupon({ firstOrderOnly: true });
+    await expect(rejection(applyCoupon('SUMMER20', lines, undefined, NOW))).resolves.toBe('sign_in');
+
+    mocks.orderExists.mockResolvedValueOnce({ _id: 'order-1' });
+    await expect(rejection(applyCoupon('SUMMER20', lines, CUSTOMER_ID, NOW))).resolves.toBe('first_order');
+    await expect(applyCoupon('SUMMER20', lines, CUSTOMER_ID, NOW)).resolves.toMatchObject({ discount: 300 });
+
+    mocks.coupon = coupon({ perCustomerLimit: 2 });
+    mocks.redemptions.mockResolvedValueOnce(2);
+    await expect(rejection(applyCoupon('SUMMER20', lines, CUSTOMER_ID, NOW))).resolves.toBe('customer_limit');
+  });
+});
+
+describe('claimCouponUse', () => {
+  it('takes the last use for only one checkout', async () => {
+    mocks.coupon = coupon({ usageLimit: 1 });
+
+    await claimCouponUse(mocks.coupon._id);
+    const error = await claimCouponUse(mocks.coupon._id).catch((e) => e);
+    expect(error).toBeInstanceOf(CouponError);
+    expect(error.reason).toBe('usage_limit');
+  });
+
+  it('gives the use back when the checkout is rolled back', async () => {
+    mocks.coupon = coupon({ usageLimit: 1 });
+
+    await claimCouponUse(mocks.coupon._id);
+    await releaseCouponUse(mocks.coupon._id);
+    await expect(claimCouponUse(mocks.coupon._id)).resolves.toMatchObject({ redemptionCount: 1 });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGst } from '@/lib/gst';
+
+const GSTIN = '27AAAAA0000A1Z5';
+const LINE = { hsnSacCode: '9973', rate: 18, taxableAmount: 1000 };
+
+describe('calculateGst', () => {
+  it('splits GST into CGST and SGST within the state', () => {
+    const gst = calculateGst([LINE], { supplierGstin: GSTIN, supplierStateCode: '27', placeOfSupply: '27' });
+    expect(gst.interState).toBe(false);
+    expect(gst).toMatchObject({ cgst: 90, sgst: 90, igst: 0, total: 180 });
+  });
+
+  it('charges IGST on supplies to another state', () => {
+    const gst = calculateGst([LINE], { supplierGstin: GSTIN, supplierStateCode: '27', placeOfSupply: '29' });
+    expect(gst.interState).toBe(true);
+    expect(gst).toMatchObject({ cgst: 0, sgst: 0, igst: 180, total: 180 });
+  });
+
+  it('taxes supplies to an unknown state as intra-state', () => {
+    const gst = calculateGst([LINE], { supplierGstin: GSTIN, supplierStateCode: '27' });
+    expect(gst.placeOfSupply).toBe('27');
+    expect(gst).toMatchObject({ interState: false, cgst: 90, sgst: 90, igst: 0 });
+  });
+
+  it('groups lines by HSN/SAC code and rate', () => {
+    const gst = calculateGst(
+      [
+        { hsnSacCode: '9973', rate: 18, taxableAmount: 500 },
+        { hsnSacCode: '9973', rate: 18, taxableAmount: 500 },
+        { hsnSacCode: '9973', rate: 12, taxableAmount: 100 },
+      ],
+      { supplierGstin: GSTIN, supplierStateCode: '27', placeOfSupply: '29' }
+    );
+    expect(gst.lines).toEqual([
+      { hsnSacCode: '9973', rate: 18, taxableAmount: 1000, cgst: 0, sgst: 0, igst: 180 },
+      { hsnSacCode: '9973', rate: 12, taxableAmount: 100, cgst: 0, sgst: 0, igst: 12 },
+    ]);
+    expect(gst.total).toBe(192);
+  });
+
+  it('rounds each half of an intra-state split to the paisa', () => {
+    const gst = calculateGst([{ hsnSacCode: '9973', rate: 5, taxableAmount: 10.1 }], {
+      supplierGstin: GSTIN,
+      supplierStateCode: '27',
+    });
+    expect(gst).toMatchObject({ cgst: 0.25, sgst: 0.25, total: 0.5 });
+  });
+
+  it('charges nothing when the business is not GST registered', () => {
+    const gst = calculateGst([LINE], { supplierStateCode: '27', placeOfSupply: '29' });
+    expect(gst).toMatchObject({ lines: [], cgst: 0, sgst: 0, igst: 0, total: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory keys standing in for the idempotency keys collection and its unique index
+const keys = vi.hoisted(() => [] as any[]);
+
+vi.mock('@/models/IdempotencyKey', () => {
+  const sameKey = (a: any, b: any) => a.scope === b.scope && a.ownerId === b.ownerId && a.key === b.key;
+  return {
+    default: {
+      create: async (doc: any) => {
+        if (keys.some((existing) => sameKey(existing, doc))) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        const record = { ...doc, _id: `key-${keys.length + 1}`, updatedAt: new Date() };
+        keys.push(record);
+        return record;
+      },
+      findOne: async (filter: any) => keys.find((existing) => sameKey(existing, filter)) || null,
+      findOneAndUpdate: async (filter: any, update: any) => {
+        const record = keys.find((existing) =>
+          existing._id === filter._id && existing.status === filter.status && existing.updatedAt < filter.updatedAt.$lt
+        );
+        if (!record) return null;
+        return Object.assign(record, update.$set);
+      },
+      updateOne: async (filter: any, update: any) => {
+        Object.assign(keys.find((existing) => existing._id === filter._id), update.$set);
+      },
+      deleteOne: async (filter: any) => {
+        const index = keys.findIndex((existing) => existing._id === filter._id && existing.status === filter.status);
+        if (index >= 0) keys.splice(index, 1);
+      },
+    },
+  };
+});
+
+import {
+  IdempotencyConflictError,
+  abandonIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+} from '@/lib/idempotency';
+
+const MINUTE_MS = 60 * 1000;
+const body = { razorpayOrderId: 'order_rzp_1' };
+const begin = (requestBody: unknown = body, now?: Date) =>
+  beginIdempotentRequest('orders.complete', 'customer-1', 'key-abc', requestBody, now);
+
+beforeEach(() => {
+  keys.length = 0;
+});
+
+describe('idempotent requests', () => {
+  it('replays the stored response to a repeat of a completed request', async () => {
+    const { record } = await begin();
+    await completeIdempotentRequest(record, 201, { success: true, orders: ['RO-1'] });
+
+    await expect(begin()).resolves.toEqual({ replay: { status: 201, body: { success: true, orders: ['RO-1'] } } });
+  });
+
+  it('refuses a repeat while the first request is still running', async () => {
+    await begin();
+
+    await expect(begin()).rejects.toThrow('still being processed');
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    const { record } = await begin();
+    await completeIdempotentRequest(record, 201, { success: true });
+
+    const error = await begin({ razorpayOrderId: 'order_rzp_2' }).catch((e) => e);
+    expect(error).toBeInstanceOf(IdempotencyConflictError);
+    expect(error.message).toContain('different request');
+  });
+
+  it('lets the client retry with the key of a failed request', async () => {
+    const { record } = await begin();
+    await abandonIdempotentRequest(record);
+
+    const retry = await begin();
+    expect(retry.record).toBeDefined();
+    expect(retry.replay).toBeUndefined();
+  });
+
+  it('takes over a key whose request crashed while running', async () => {
+    const { record } = await begin();
+    const later = new Date(record.updatedAt.getTime() + 3 * MINUTE_MS);
+
+    const retry = await begin(body, later);
+    expect(retry.record?._id).toBe(record._id);
+    expect(retry.record?.updatedAt).toEqual(later);
+  });
+
+  it('keeps a completed response after an abandon that comes too late', async () => {
+    const { record } = await begin();
+    await completeIdempotentRequest(record, 201, { success: true });
+    await abandonIdempotentRequest(record);
+
+    await expect(begin()).resolves.toMatchObject({ replay: { status: 201 } });
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Invoice, { financialYearOf } from '@/models/Invoice';
+import Counter from '@/models/Counter';
+import User from '@/models/User';
+import { InvoiceError, issueInvoice } from '@/lib/invoices';
+
+// In-memory invoices by order and counters by key, updated the way the conditional writes would
+let invoices: Map<string, any>;
+let counters: Map<string, number>;
+
+const id = () => new mongoose.Types.ObjectId();
+const BUSINESS_ID = id();
+
+function makeOrder(orderNumber: string, overrides: any = {}) {
+  return {
+    _id: id(),
+    orderNumber,
+    status: 'confirmed',
+    endUserId: BUSINESS_ID,
+    customerId: id(),
+    customerName: 'Asha',
+    customerEmail: 'asha@example.com',
+    items: [{
+      productId: id(),
+      productName: 'Camera',
+      quantity: 1,
+      startDate: new Date('2025-06-01'),
+      endDate: new Date('2025-06-02'),
+      duration: 1,
+      durationUnit: 'day',
+      unitPrice: 1000,
+      lineTotal: 1000,
+    }],
+    subtotal: 1000,
+    taxAmount: 180,
+    totalPrice: 1180,
+    paymentStatus: 'pending',
+    ...overrides,
+  };
+}
+
+const prefix = () => `INV/${financialYearOf(new Date()).slice(2)}/`;
+
+beforeEach(() => {
+  invoices = new Map();
+  counters = new Map();
+
+  vi.spyOn(User, 'findById').mockReturnValue({
+    select: () => ({ session: () => ({ lean: async () => ({ companyName: 'Lens Hire' }) }) }),
+  } as any);
+  vi.spyOn(Invoice, 'findOne').mockImplementation(((filter: any) => ({
+    session: async () => invoices.get(filter.rentalOrderId.toString()) || null,
+  })) as any);
+  vi.spyOn(Invoice, 'findOneAndUpdate').mockImplementation((async (filter: any, update: any) => {
+    if (update.$setOnInsert) {
+      const existing = invoices.get(filter.rentalOrderId.toString());
+      if (existing) return { value: existing, lastErrorObject: { updatedExisting: true } };
+      const inserted = { ...update.$setOnInsert };
+      invoices.set(filter.rentalOrderId.toString(), inserted);
+      return { value: inserted, lastErrorObject: { updatedExisting: false } };
+    }
+    const invoice = Array.from(invoices.values()).find((doc) => doc._id.equals(filter._id));
+    if (!invoice || invoice.invoiceNumber) return null;
+    return Object.assign(invoice, update.$set);
+  }) as any);
+  vi.spyOn(Counter, 'findOneAndUpdate').mockImplementation((async (filter: any) => {
+    const seq = (counters.get(filter.key) || 0) + 1;
+    counters.set(filter.key, seq);
+    return { key: filter.key, seq };
+  }) as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('issueInvoice', () => {
+  it('numbers a business\'s invoices one after another', async () => {
+    const first = await issueInvoice(makeOrder('RO-1'));
+    const second = await issueInvoice(makeOrder('RO-2'));
+    const otherBusiness = await issueInvoice(makeOrder('RO-3', { endUserId: id() }));
+
+    expect(first.invoiceNumber).toBe(`${prefix()}00001`);
+    expect(second.invoiceNumber).toBe(`${prefix()}00002`);
+    expect(otherBusiness.invoiceNumber).toBe(`${prefix()}00001`);
+    expect(first).toMatchObject({ businessName: 'Lens Hire', total: 1180, sequence: 1 });
+  });
+
+  it('spends one number when the same order is invoiced twice at once', async () => {
+    const order = makeOrder('RO-1');
+
+    const [first, second] = await Promise.all([issueInvoice(order), issueInvoice(order)]);
+    expect(first.invoiceNumber).toBe(`${prefix()}00001`);
+    expect(second._id).toEqual(first._id);
+    expect(Counter.findOneAndUpdate).toHaveBeenCalledTimes(1);
+
+    await expect(issueInvoice(makeOrder('RO-2'))).resolves.toMatchObject({ invoiceNumber: `${prefix()}00002` });
+  });
+
+  it('returns the order\'s invoice when it already has one', async () => {
+    const order = makeOrder('RO-1');
+    const invoice = await issueInvoice(order);
+
+    await expect(issueInvoice(order)).resolves.toBe(invoice);
+    expect(Counter.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('numbers an invoice its issuing request left without a number', async () => {
+    const order = makeOrder('RO-1');
+    const leftover = { _id: id(), rentalOrderId: order._id, orderNumber: 'RO-1', endUserId: BUSINESS_ID, issuedAt: new Date() };
+    invoices.set(order._id.toString(), { ...leftover, createdAt: new Date() });
+
+    // Still being numbered by the request that claimed it
+    await expect(issueInvoice(order)).resolves.not.toHaveProperty('invoiceNumber');
+
+    invoices.set(order._id.toString(), { ...leftover, createdAt: new Date(Date.now() - 5 * 60 * 1000) });
+    await expect(issueInvoice(order)).resolves.toMatchObject({ invoiceNumber: `${prefix()}00001` });
+  });
+
+  it('refuses to invoice quotations and cancelled orders', async () => {
+    await expect(issueInvoice(makeOrder('RO-1', { status: 'quotation' }))).rejects.toThrow(InvoiceError);
+    await expect(issueInvoice(makeOrder('RO-2', { status: 'cancelled' }))).rejects.toThrow('not invoiced');
+    expect(Counter.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('financialYearOf', () => {
+  it('starts the financial year on 1 April in India', () => {
+    expect(financialYearOf(new Date('2026-03-31T18:29:00Z'))).toBe('2025-26');
+    expect(financialYearOf(new Date('2026-03-31T18:30:00Z'))).toBe('2026-27');
+  });
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({ create: vi.fn(), updateMany: vi.fn() }));
+
+vi.mock('@/models/JobRun', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/models/JobRun')>();
+  return { default: { schema: actual.default.schema, create: mocks.create, updateMany: mocks.updateMany } };
+});
+
+import JobRun from '@/models/JobRun';
+import { JOBS, JobAlreadyRunningError, runJob } from '@/lib/jobs';
+
+const BUSINESS_ID = '64b000000000000000000002';
+
+// Stands in for the lock index: one running run per job name
+function lockByJobName() {
+  const running = new Set<string>();
+  mocks.create.mockImplementation(async (doc: any) => {
+    if (running.has(doc.name)) throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+    running.add(doc.name);
+    return { ...doc, save: async () => running.delete(doc.name) };
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  lockByJobName();
+});
+
+describe('JobRun lock index', () => {
+  it('is unique on the job name alone while a run is running', () => {
+    const lock = JobRun.schema.indexes().find(([, options]) => options?.unique);
+    expect(lock).toEqual([{ name: 1 }, expect.objectContaining({ unique: true, partialFilterExpression: { status: 'running' } })]);
+  });
+});
+
+describe('runJob', () => {
+  it('records a finished run with what the job did', async () => {
+    const job = vi.spyOn(JOBS['expire-cart-holds'], 'run').mockResolvedValue({ processed: 2, details: ['done'] });
+
+    const run: any = await runJob('expire-cart-holds', { endUserId: BUSINESS_ID });
+    expect(job).toHaveBeenCalledWith(expect.objectContaining({ endUserId: BUSINESS_ID }));
+    expect(run).toMatchObject({ status: 'succeeded', processed: 2, details: ['done'] });
+  });
+
+  it('refuses a business run while the run for every business is going, and the reverse', async () => {
+    let finish: () => void = () => {};
+    vi.spyOn(JOBS['mark-late-rentals'], 'run').mockImplementationOnce(
+      () => new Promise((resolve) => { finish = () => resolve({ processed: 0, details: [] }); })
+    );
+
+    const scheduled = runJob('mark-late-rentals');
+    await vi.waitFor(() => expect(mocks.create).toHaveBeenCalledTimes(1));
+    await expect(runJob('mark-late-rentals', { trigger: 'manual', endUserId: BUSINESS_ID })).rejects.toThrow(JobAlreadyRunningError);
+    finish();
+    await scheduled;
+
+    vi.spyOn(JOBS['mark-late-rentals'], 'run').mockImplementationOnce(
+      () => new Promise((resolve) => { finish = () => resolve({ processed: 0, details: [] }); })
+    );
+    const manual = runJob('mark-late-rentals', { trigger: 'manual', endUserId: BUSINESS_ID });
+    await vi.waitFor(() => expect(mocks.create).toHaveBeenCalledTimes(3));
+    await expect(runJob('mark-late-rentals')).rejects.toThrow(JobAlreadyRunningError);
+    finish();
+    await manual;
+  });
+
+  it('records a failed run instead of throwing', async () => {
+    vi.spyOn(JOBS['accrue-late-fees'], 'run').mockRejectedValue(new Error('boom'));
+
+    const run: any = await runJob('accrue-late-fees');
+    expect(run).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildLateFeeTerms, calculateLateFee, resolveLateFeePolicy } from '@/lib/lateFees';
+import { LateFeeTerms } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DUE = new Date('2025-01-10T10:00:00Z');
+const hoursAfterDue = (hours: number) => new Date(DUE.getTime() + hours * HOUR_MS);
+
+function terms(overrides: Partial<LateFeeTerms> = {}): LateFeeTerms {
+  return {
+    type: 'flat_per_day',
+    amount: 100,
+    gracePeriodHours: 0,
+    capAtReplacementValue: false,
+    dailyRate: 0,
+    hourlyRate: 0,
+    ...overrides,
+  };
+}
+
+describe('calculateLateFee', () => {
+  it('charges nothing for a return on time or early', () => {
+    expect(calculateLateFee(terms(), DUE, DUE).amount).toBe(0);
+    expect(calculateLateFee(terms(), DUE, hoursAfterDue(-5)).hoursLate).toBe(0);
+  });
+
+  it('rounds lateness up to whole hours and days', () => {
+    const fee = calculateLateFee(terms(), DUE, hoursAfterDue(0.5));
+    expect(fee.hoursLate).toBe(1);
+    expect(fee.chargeableUnits).toBe(1);
+    expect(fee.amount).toBe(100);
+
+    expect(calculateLateFee(terms(), DUE, hoursAfterDue(25)).amount).toBe(200);
+  });
+
+  it('charges every unit of the line', () => {
+    const fee = calculateLateFee(terms(), DUE, hoursAfterDue(25), 2);
+    expect(fee.quantity).toBe(2);
+    expect(fee.amount).toBe(400);
+  });
+
+  it('does not charge the grace period', () => {
+    const grace = terms({ gracePeriodHours: 2 });
+    expect(calculateLateFee(grace, DUE, hoursAfterDue(2)).amount).toBe(0);
+    expect(calculateLateFee(grace, DUE, hoursAfterDue(26)).chargeableUnits).toBe(1);
+    expect(calculateLateFee(grace, DUE, hoursAfterDue(27)).chargeableUnits).toBe(2);
+  });
+
+  it('charges a percentage of the daily rate, rounded to the paisa', () => {
+    const fee = calculateLateFee(terms({ type: 'percent_of_daily_rate', amount: 15, dailyRate: 99.99 }), DUE, hoursAfterDue(48));
+    expect(fee.ratePerUnit).toBe(15);
+    expect(fee.amount).toBe(30);
+  });
+
+  it('charges no percentage fee when the product has no daily rate', () => {
+    const policy = resolveLateFeePolicy({ type: 'percent_of_daily_rate', amount: 10 }, null);
+    const fee = calculateLateFee(buildLateFeeTerms(policy, { pricePerHour: 5 }), DUE, hoursAfterDue(72));
+    expect(fee.chargeableUnits).toBe(3);
+    expect(fee.ratePerUnit).toBe(0);
+    expect(fee.amount).toBe(0);
+  });
+
+  it('falls back to the hourly rate for an hourly policy without an amount', () => {
+    const fee = calculateLateFee(terms({ type: 'hourly', amount: 0, hourlyRate: 20 }), DUE, hoursAfterDue(3));
+    expect(fee.amount).toBe(60);
+  });
+
+  it('caps the fee at the replacement value of the units', () => {
+    const capped = terms({ capAtReplacementValue: true, replacementValue: 150 });
+    const fee = calculateLateFee(capped, DUE, hoursAfterDue(72), 2);
+    expect(fee.uncappedAmount).toBe(600);
+    expect(fee.cap).toBe(300);
+    expect(fee.amount).toBe(300);
+  });
+});
+
+describe('resolveLateFeePolicy', () => {
+  it('prefers the product override, then the business policy, then the default', () => {
+    const product = { type: 'hourly' as const, amount: 20 };
+    const business = { type: 'flat_per_day' as const, amount: 250, gracePeriodHours: 4 };
+    expect(resolveLateFeePolicy(product, business).type).toBe('hourly');
+    expect(resolveLateFeePolicy(null, business)).toMatchObject({ amount: 250, gracePeriodHours: 4 });
+    expect(resolveLateFeePolicy(null, null)).toMatchObject({ type: 'flat_per_day', amount: 100 });
+  });
+});
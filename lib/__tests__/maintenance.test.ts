@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+const mocks = vi.hoisted(() => ({ findFreeStart: vi.fn(), getAvailability: vi.fn() }));
+
+vi.mock('@/lib/availability', () => ({ findFreeStart: mocks.findFreeStart, getAvailability: mocks.getAvailability }));
+
+import Maintenance from '@/models/Maintenance';
+import { logger } from '@/lib/logger';
+import { MaintenanceError, createMaintenance } from '@/lib/maintenance';
+
+const HOUR_MS = 60 * 60 * 1000;
+const RETURNED_AT = new Date('2025-01-10T10:00:00Z');
+const id = () => new mongoose.Types.ObjectId();
+
+const plan = { _id: id(), title: 'Sensor clean', type: 'service', everyRentals: 1, durationHours: 4, active: true };
+const product = { _id: id(), endUserId: id(), name: 'Camera', createdAt: new Date('2025-01-01'), maintenancePlans: [plan] };
+
+let unit: any;
+let order: any;
+
+function makeUnit(status: string) {
+  return {
+    _id: id(),
+    serialNumber: 'CAM-1',
+    status,
+    createdAt: new Date('2025-01-01'),
+    rentals: [{ assignedAt: new Date('2025-01-08'), returnedAt: RETURNED_AT }],
+    save: vi.fn(),
+  };
+}
+
+beforeEach(() => {
+  unit = makeUnit('available');
+  order = {
+    _id: id(),
+    orderNumber: 'RO-1',
+    returnDate: RETURNED_AT,
+    items: [{ productId: product._id, quantity: 1, assetIds: [unit._id] }],
+  };
+
+  const models: Record<string, any> = {
+    Product: { find: () => ({ select: () => ({ session: async () => [product] }) }) },
+    Asset: { find: () => ({ session: async () => [unit] }) },
+  };
+  vi.spyOn(mongoose, 'model').mockImplementation(((name: string) => models[name]) as any);
+  vi.spyOn(Maintenance, 'exists').mockReturnValue({ session: async () => null } as any);
+  vi.spyOn(Maintenance, 'findOne').mockReturnValue({ sort: () => ({ session: async () => null }) } as any);
+  vi.spyOn(Maintenance, 'create').mockImplementation((async (docs: any) => docs) as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  mocks.findFreeStart.mockReset();
+  mocks.getAvailability.mockReset();
+});
+
+describe('Maintenance.scheduleDue', () => {
+  it('takes the unit out of service at the return when a unit is free', async () => {
+    mocks.findFreeStart.mockResolvedValue(RETURNED_AT);
+
+    const [maintenance] = await Maintenance.scheduleDue(order);
+    expect(maintenance).toMatchObject({ startDate: RETURNED_AT, endDate: new Date(RETURNED_AT.getTime() + 4 * HOUR_MS) });
+    expect(mocks.findFreeStart).toHaveBeenCalledWith(
+      product._id.toString(),
+      RETURNED_AT,
+      expect.any(Date),
+      4 * HOUR_MS,
+      1,
+      { excludeOrderId: order._id.toString() }
+    );
+    expect(unit.status).toBe('maintenance');
+    expect(unit.save).toHaveBeenCalled();
+  });
+
+  it('schedules the first free window when every unit is booked at the return', async () => {
+    const later = new Date(RETURNED_AT.getTime() + 30 * HOUR_MS);
+    mocks.findFreeStart.mockResolvedValue(later);
+
+    const [maintenance] = await Maintenance.scheduleDue(order);
+    expect(maintenance).toMatchObject({ startDate: later, endDate: new Date(later.getTime() + 4 * HOUR_MS) });
+    expect(unit.status).toBe('available');
+    expect(unit.save).not.toHaveBeenCalled();
+  });
+
+  it('logs the maintenance it cannot fit and schedules nothing', async () => {
+    mocks.findFreeStart.mockResolvedValue(null);
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+    await expect(Maintenance.scheduleDue(order)).resolves.toEqual([]);
+    expect(Maintenance.create).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('No free window for plan maintenance', expect.objectContaining({ orderNumber: 'RO-1' }));
+  });
+
+  it('services a unit already in maintenance at the return without looking for a window', async () => {
+    unit = makeUnit('maintenance');
+    order.items[0].assetIds = [unit._id];
+
+    const [maintenance] = await Maintenance.scheduleDue(order);
+    expect(maintenance).toMatchObject({ startDate: RETURNED_AT });
+    expect(mocks.findFreeStart).not.toHaveBeenCalled();
+  });
+});
+
+describe('createMaintenance', () => {
+  const input = { type: 'repair', title: 'Lens repair', startDate: '2025-02-01T09:00:00Z', endDate: '2025-02-02T09:00:00Z', quantity: 2 };
+  const stocked = { ...product, quantityAvailable: 3 };
+
+  it('refuses maintenance over units that are rented or booked', async () => {
+    mocks.getAvailability.mockResolvedValue({ available: false, free: 1, owned: 3 });
+
+    await expect(createMaintenance(stocked, input, { name: 'Asha' })).rejects.toThrow(MaintenanceError);
+    await expect(createMaintenance(stocked, input, { name: 'Asha' })).rejects.toThrow('Only 1 of 3 units are free');
+    expect(Maintenance.create).not.toHaveBeenCalled();
+  });
+
+  it('takes the units out of the pool for its window when they are free', async () => {
+    mocks.getAvailability.mockResolvedValue({ available: true, free: 3, owned: 3 });
+
+    const maintenance: any = await createMaintenance(stocked, input, { name: 'Asha' });
+    expect(mocks.getAvailability).toHaveBeenCalledWith(
+      product._id.toString(),
+      new Date(input.startDate),
+      new Date(input.endDate),
+      2,
+      { excludeMaintenanceId: undefined }
+    );
+    expect(maintenance).toMatchObject({ quantity: 2, createdByName: 'Asha' });
+  });
+});
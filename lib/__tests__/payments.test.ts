@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { allocateLedger, derivePaymentStatus, summarizeLedger } from '@/lib/payments';
+
+const captured = (razorpayPaymentId: string, amount: number, event = 'payment.captured') => ({ event, razorpayPaymentId, amount });
+const refund = (event: string, razorpayRefundId: string, amount: number) => ({ event, razorpayRefundId, amount });
+
+describe('summarizeLedger', () => {
+  it('counts each payment and refund once', () => {
+    const ledger = summarizeLedger([
+      captured('pay_1', 1000),
+      captured('pay_1', 1000, 'order.paid'),
+      refund('refund.created', 'rfnd_1', 200),
+      refund('refund.processed', 'rfnd_1', 200),
+    ]);
+    expect(ledger.captured).toBe(1000);
+    expect(ledger.refunded).toBe(200);
+  });
+
+  it('drops a refund that failed', () => {
+    const ledger = summarizeLedger([
+      captured('pay_1', 1000),
+      refund('refund.created', 'rfnd_1', 300),
+      refund('refund.failed', 'rfnd_1', 300),
+    ]);
+    expect(ledger.refunded).toBe(0);
+    expect(ledger.refunds.size).toBe(0);
+  });
+
+  it('ignores events it does not reconcile', () => {
+    expect(summarizeLedger([{ event: 'payment.failed', razorpayPaymentId: 'pay_1', amount: 1000 }]).captured).toBe(0);
+  });
+});
+
+describe('derivePaymentStatus', () => {
+  it('follows the net amount captured', () => {
+    expect(derivePaymentStatus(1000, 0, 0)).toBe('pending');
+    expect(derivePaymentStatus(1000, 500, 0)).toBe('partial');
+    expect(derivePaymentStatus(1000, 1000, 0)).toBe('paid');
+    expect(derivePaymentStatus(1000, 1000, 1000)).toBe('refunded');
+  });
+
+  it('allows a rupee of rounding', () => {
+    expect(derivePaymentStatus(1000, 999.5, 0)).toBe('paid');
+    expect(derivePaymentStatus(1000, 998.5, 0)).toBe('partial');
+  });
+});
+
+describe('allocateLedger', () => {
+  it('shares captures by the amount charged for each order', () => {
+    const ledger = summarizeLedger([captured('pay_1', 1000)]);
+    const [a, b] = allocateLedger([{ _id: 'a', totalPrice: 500, depositAmount: 100 }, { _id: 'b', totalPrice: 400 }], ledger);
+    expect(a).toEqual({ orderId: 'a', due: 600, captured: 600, refunded: 0, status: 'paid' });
+    expect(b).toEqual({ orderId: 'b', due: 400, captured: 400, refunded: 0, status: 'paid' });
+  });
+
+  it('counts a refund against the order it was issued for', () => {
+    const ledger = summarizeLedger([captured('pay_1', 1000), refund('refund.processed', 'rfnd_b', 400)]);
+    const [a, b] = allocateLedger(
+      [{ _id: 'a', totalPrice: 600 }, { _id: 'b', totalPrice: 400, refunds: [{ razorpayRefundId: 'rfnd_b', kind: 'cancellation' }] }],
+      ledger
+    );
+    expect(a).toMatchObject({ refunded: 0, status: 'paid' });
+    expect(b).toMatchObject({ refunded: 400, status: 'refunded' });
+  });
+
+  it('shares refunds made outside the app like captures', () => {
+    const ledger = summarizeLedger([captured('pay_1', 1000), refund('refund.processed', 'rfnd_dashboard', 100)]);
+    const [a, b] = allocateLedger([{ _id: 'a', totalPrice: 600 }, { _id: 'b', totalPrice: 400 }], ledger);
+    expect(a.refunded).toBe(60);
+    expect(b.refunded).toBe(40);
+  });
+
+  it('lowers what is owed when a deposit is returned', () => {
+    const ledger = summarizeLedger([captured('pay_1', 600), refund('refund.processed', 'rfnd_dep', 100)]);
+    const [order] = allocateLedger(
+      [{ _id: 'a', totalPrice: 500, depositAmount: 100, refunds: [{ razorpayRefundId: 'rfnd_dep', kind: 'deposit' }] }],
+      ledger
+    );
+    expect(order).toEqual({ orderId: 'a', due: 500, captured: 500, refunded: 0, status: 'paid' });
+  });
+});
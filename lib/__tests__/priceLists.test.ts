@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEmailDomain, pickPriceList, priceListRates, withPriceList } from '@/lib/priceLists';
+import { PriceList } from '@/types';
+
+function list(name: string, overrides: Partial<PriceList> = {}): PriceList {
+  return { _id: name, name, customerEmails: [], emailDomains: [], entries: [], active: true, ...overrides } as PriceList;
+}
+
+describe('normalizeEmailDomain', () => {
+  it('takes the domain of an email or a typed domain', () => {
+    expect(normalizeEmailDomain('Buyer@Acme.com')).toBe('acme.com');
+    expect(normalizeEmailDomain(' @acme.com ')).toBe('acme.com');
+    expect(normalizeEmailDomain('acme.com')).toBe('acme.com');
+  });
+});
+
+describe('pickPriceList', () => {
+  const company = list('company', { emailDomains: ['acme.com'] });
+  const account = list('account', { customerEmails: ['buyer@acme.com'] });
+
+  it('prefers a list naming the account over one covering its domain', () => {
+    expect(pickPriceList([company, account], 'Buyer@Acme.com')?.name).toBe('account');
+    expect(pickPriceList([company, account], 'other@acme.com')?.name).toBe('company');
+  });
+
+  it('skips inactive lists', () => {
+    expect(pickPriceList([{ ...account, active: false }, company], 'buyer@acme.com')?.name).toBe('company');
+  });
+
+  it('gives no list without an email or a match', () => {
+    expect(pickPriceList([company], undefined)).toBeUndefined();
+    expect(pickPriceList([company], 'buyer@example.com')).toBeUndefined();
+  });
+});
+
+describe('priceListRates', () => {
+  const camera = { _id: '64b000000000000000000001', category: 'Cameras', pricePerHour: 100, pricePerDay: 999 };
+
+  it('prefers the product\'s own entry over its category\'s and the catalog\'s', () => {
+    const entries = [
+      { type: 'percent' as const, percentOff: 5 },
+      { type: 'percent' as const, category: 'Cameras', percentOff: 10 },
+      { type: 'fixed' as const, productId: camera._id, pricePerDay: 800 },
+    ];
+    expect(priceListRates(list('a', { entries }), camera)).toEqual({ pricePerHour: 100, pricePerDay: 800 });
+    expect(priceListRates(list('a', { entries: entries.slice(0, 2) }), camera)).toEqual({ pricePerHour: 90, pricePerDay: 899.1 });
+    expect(priceListRates(list('a', { entries: entries.slice(0, 1) }), camera)).toEqual({ pricePerHour: 95, pricePerDay: 949.05 });
+  });
+
+  it('gives no rates when the list does not cover the product', () => {
+    const entries = [{ type: 'percent' as const, category: 'Lighting', percentOff: 10 }];
+    expect(priceListRates(list('a', { entries }), camera)).toBeUndefined();
+    expect(withPriceList(camera, list('a', { entries }))).toBe(camera);
+  });
+
+  it('shows the list\'s rates and keeps the public ones', () => {
+    const priced = withPriceList(camera, list('b2b', { entries: [{ type: 'percent', percentOff: 10 }] }));
+    expect(priced).toMatchObject({ pricePerDay: 899.1, priceList: { name: 'b2b' }, listRates: { pricePerHour: 100, pricePerDay: 999 } });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PricingError,
+  allocateAmount,
+  calculateOrderTotals,
+  calculateRentalPrice,
+  getBillableHours,
+  getTierRate,
+  priceForHours,
+} from '@/lib/pricing';
+
+const HOUR_MS = 60 * 60 * 1000;
+const RATES = { pricePerHour: 10, pricePerDay: 100, pricePerWeek: 500 };
+
+describe('getTierRate', () => {
+  it('returns the rate of a tier the product is offered for', () => {
+    expect(getTierRate(RATES, 'day')).toBe(100);
+  });
+
+  it('treats a missing or zero rate as not offered', () => {
+    expect(getTierRate(RATES, 'month')).toBeUndefined();
+    expect(getTierRate({ pricePerDay: 0 }, 'day')).toBeUndefined();
+  });
+});
+
+describe('getBillableHours', () => {
+  it('rounds up to whole hours, with at least one hour', () => {
+    const start = new Date('2025-01-01T10:00:00Z');
+    expect(getBillableHours(start, new Date(start.getTime() + 90 * 60 * 1000))).toBe(2);
+    expect(getBillableHours(start, start)).toBe(1);
+  });
+});
+
+describe('priceForHours', () => {
+  it('mixes tiers to cover the period', () => {
+    expect(priceForHours(RATES, 26)).toEqual([
+      { unit: 'day', count: 1, rate: 100, amount: 100 },
+      { unit: 'hour', count: 2, rate: 10, amount: 20 },
+    ]);
+  });
+
+  it('bills a longer tier when it is cheaper than the exact mix', () => {
+    expect(priceForHours(RATES, 20)).toEqual([{ unit: 'day', count: 1, rate: 100, amount: 100 }]);
+    expect(priceForHours(RATES, 6 * 24)).toEqual([{ unit: 'week', count: 1, rate: 500, amount: 500 }]);
+  });
+
+  it('uses only the tiers the product is offered for', () => {
+    expect(priceForHours({ pricePerDay: 100 }, 5)).toEqual([{ unit: 'day', count: 1, rate: 100, amount: 100 }]);
+  });
+
+  it('refuses products without rates and periods that are too long', () => {
+    expect(() => priceForHours({}, 24)).toThrow(PricingError);
+    expect(() => priceForHours(RATES, 24 * 365 * 10 + 1)).toThrow(PricingError);
+  });
+});
+
+describe('calculateRentalPrice', () => {
+  it('prices every unit for the whole period', () => {
+    const start = new Date('2025-01-01T10:00:00Z');
+    const price = calculateRentalPrice(RATES, start, new Date(start.getTime() + 26 * HOUR_MS), 3);
+    expect(price.hours).toBe(26);
+    expect(price.unitTotal).toBe(120);
+    expect(price.totalPrice).toBe(360);
+  });
+
+  it('treats an end at or before the start as a one day rental', () => {
+    const start = new Date('2025-01-01T10:00:00Z');
+    const price = calculateRentalPrice(RATES, start, start);
+    expect(price.hours).toBe(24);
+    expect(price.totalPrice).toBe(100);
+  });
+});
+
+describe('allocateAmount', () => {
+  it('splits to the paisa so the shares add back up', () => {
+    const shares = allocateAmount(100, [1, 1, 1]);
+    expect(shares).toEqual([33.33, 33.33, 33.34]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(100, 2);
+  });
+
+  it('gives nothing when there is nothing to split', () => {
+    expect(allocateAmount(0, [1, 2])).toEqual([0, 0]);
+    expect(allocateAmount(50, [0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe('calculateOrderTotals', () => {
+  it('rolls up discount, delivery, GST and deposit', () => {
+    const totals = calculateOrderTotals([100, 200], {
+      discountPercent: 10,
+      deliveryCharge: 50,
+      deposit: 500,
+      gst: { cgst: 9, sgst: 9, igst: 0 },
+    });
+    expect(totals).toMatchObject({ subtotal: 300, discount: 30, tax: 18, total: 338, deposit: 500, amountPayable: 838 });
+  });
+
+  it('prefers a fixed discount over the percentage', () => {
+    expect(calculateOrderTotals([300], { discountPercent: 10, discount: 5 }).discount).toBe(5);
+  });
+});
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+// Units by serial number and the one order and product being handed over
+const state = vi.hoisted(() => ({ units: new Map<string, any>(), order: null as any, product: null as any }));
+const mocks = vi.hoisted(() => ({ validateTransfer: vi.fn(), assignAssets: vi.fn() }));
+
+vi.mock('@/models/Asset', () => ({
+  default: {
+    findOne: async (filter: any) => state.units.get(filter.serialNumber) || null,
+    find: (filter: any) => ({
+      sort: async () => Array.from(state.units.values()).filter((unit) => unit.currentOrderId?.equals(filter.currentOrderId)),
+    }),
+    distinct: async () => [state.product._id],
+  },
+}));
+vi.mock('@/models/Product', () => ({
+  default: { findById: async () => state.product, findOne: async () => state.product },
+}));
+vi.mock('@/models/RentalOrder', () => ({
+  default: { findOne: async () => state.order, findById: async () => state.order, find: () => ({ sort: () => ({ limit: async () => [] }) }) },
+}));
+vi.mock('@/models/Transfer', () => ({
+  default: { createForOrder: vi.fn(), findOne: async (filter: any) => ({ type: filter.type, transferNumber: 'T/00001' }) },
+}));
+vi.mock('@/lib/transfers', () => ({ validateTransfer: mocks.validateTransfer }));
+vi.mock('@/lib/assets', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/assets')>()),
+  assignAssets: mocks.assignAssets,
+}));
+
+import { ScanError, scanHandover } from '@/lib/scan';
+import { unitLabelCode } from '@/lib/barcode';
+
+const id = () => new mongoose.Types.ObjectId();
+const BUSINESS_ID = id().toString();
+const STAFF = { name: 'Ravi' };
+
+function addUnit(serialNumber: string, out: boolean) {
+  const unit = {
+    _id: id(),
+    serialNumber,
+    productId: state.product._id,
+    status: out ? 'rented' : 'available',
+    condition: 'good',
+    currentOrderId: out ? state.order._id : undefined,
+    rentals: out ? [{ rentalOrderId: state.order._id, assignedAt: new Date() } as any] : [],
+    createdAt: new Date(),
+    save: vi.fn(),
+  };
+  state.units.set(serialNumber, unit);
+  return unit;
+}
+
+const scan = (serialNumber: string, action: 'pickup' | 'return', condition?: 'damaged') =>
+  scanHandover(unitLabelCode(serialNumber), BUSINESS_ID, { orderId: state.order._id.toString(), action, condition }, STAFF);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  state.units.clear();
+  state.product = { _id: id(), endUserId: BUSINESS_ID, name: 'Camera' };
+  state.order = {
+    _id: id(),
+    orderNumber: 'RO-1',
+    status: 'delivered',
+    customerName: 'Asha',
+    startDate: new Date(),
+    endDate: new Date(),
+    items: [{ _id: id(), productId: state.product._id, productName: 'Camera', quantity: 2, assetIds: [] as any[] }],
+  };
+});
+
+describe('scanHandover returns', () => {
+  it('checks units in one at a time and returns the order once all are back', async () => {
+    const first = addUnit('CAM-1', true);
+    addUnit('CAM-2', true);
+
+    const partial = await scan('CAM-1', 'return', 'damaged');
+    expect(partial).toMatchObject({ completed: false, message: 'CAM-1 checked in. 1 unit still out: CAM-2' });
+    expect(first.rentals[0].checkedInAt).toBeInstanceOf(Date);
+    expect(first.condition).toBe('damaged');
+    expect(mocks.validateTransfer).not.toHaveBeenCalled();
+
+    // Scanning the same unit again does not return the order
+    await expect(scan('CAM-1', 'return')).resolves.toMatchObject({ completed: false });
+
+    const done = await scan('CAM-2', 'return');
+    expect(done).toMatchObject({ completed: true, message: 'RO-1 returned' });
+    expect(mocks.validateTransfer).toHaveBeenCalledTimes(1);
+    expect(mocks.validateTransfer).toHaveBeenCalledWith(expect.objectContaining({ type: 'return' }), STAFF);
+  });
+
+  it('refuses a unit that is not out on the order', async () => {
+    addUnit('CAM-1', true);
+    addUnit('CAM-9', false);
+
+    await expect(scan('CAM-9', 'return')).rejects.toThrow(ScanError);
+    await expect(scan('CAM-9', 'return')).rejects.toThrow('CAM-9 is not out on RO-1');
+  });
+
+  it('refuses an order that has not been picked up', async () => {
+    addUnit('CAM-1', true);
+    state.order.status = 'confirmed';
+
+    await expect(scan('CAM-1', 'return')).rejects.toThrow('RO-1 is confirmed and cannot be returned');
+  });
+});
+
+describe('scanHandover pickups', () => {
+  beforeEach(() => {
+    state.order.status = 'confirmed';
+    mocks.assignAssets.mockImplementation(async (order: any, assignments: any[]) => {
+      order.items[0].assetIds = assignments[0].assetIds.map((assetId: string) => new mongoose.Types.ObjectId(assetId));
+    });
+  });
+
+  it('assigns each scanned unit and picks the order up once every unit is named', async () => {
+    addUnit('CAM-1', false);
+    addUnit('CAM-2', false);
+
+    const partial = await scan('CAM-1', 'pickup');
+    expect(partial).toMatchObject({ completed: false, message: 'CAM-1 assigned to RO-1. Assign 2 units of Camera before pickup (1 assigned)' });
+    expect(mocks.validateTransfer).not.toHaveBeenCalled();
+
+    const done = await scan('CAM-2', 'pickup');
+    expect(done).toMatchObject({ completed: true, message: 'RO-1 picked up' });
+    expect(state.order.items[0].assetIds.map(String)).toEqual([state.units.get('CAM-1')._id.toString(), state.units.get('CAM-2')._id.toString()]);
+    expect(mocks.validateTransfer).toHaveBeenCalledWith(expect.objectContaining({ type: 'pickup' }), STAFF);
+  });
+
+  it('refuses a unit once every unit of the line is scanned', async () => {
+    addUnit('CAM-1', false);
+    addUnit('CAM-2', false);
+    addUnit('CAM-3', false);
+    await scan('CAM-1', 'pickup');
+    await scan('CAM-2', 'pickup');
+    state.order.status = 'reserved';
+
+    await expect(scan('CAM-3', 'pickup')).rejects.toThrow('Every unit of Camera on RO-1 is already scanned');
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+const mocks = vi.hoisted(() => ({ getAvailability: vi.fn() }));
+
+vi.mock('@/lib/availability', () => ({ getAvailability: mocks.getAvailability }));
+
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+import { StockError, adjustStock, reconcileStock, stockStatus } from '@/lib/stock';
+
+// In-memory ledger and product stock, changed the way the conditional writes would
+let ledger: any[];
+let product: any;
+
+const STAFF = { id: new mongoose.Types.ObjectId().toString(), name: 'Ravi' };
+
+beforeEach(() => {
+  ledger = [];
+  product = { _id: new mongoose.Types.ObjectId(), endUserId: new mongoose.Types.ObjectId(), name: 'Camera', quantityAvailable: 5 };
+
+  vi.spyOn(StockMovement, 'aggregate').mockImplementation((async () =>
+    ledger.length ? [{ entries: ledger.length, balance: ledger.reduce((sum, entry) => sum + entry.change, 0) }] : []
+  ) as any);
+  vi.spyOn(StockMovement, 'create').mockImplementation((async (docs: any) => {
+    const entries = (Array.isArray(docs) ? docs : [docs]).map((doc) => ({ ...doc, createdAt: new Date() }));
+    ledger.push(...entries);
+    return Array.isArray(docs) ? entries : entries[0];
+  }) as any);
+  vi.spyOn(Product, 'findOneAndUpdate').mockImplementation((async (filter: any, update: any) => {
+    const limit = filter.quantityAvailable;
+    if (limit.$gte !== undefined && product.quantityAvailable < limit.$gte) return null;
+    if (limit.$lte !== undefined && product.quantityAvailable > limit.$lte) return null;
+    product.quantityAvailable += update.$inc.quantityAvailable;
+    return { ...product };
+  }) as any);
+  vi.spyOn(Product, 'findById').mockReturnValue({ select: () => ({ lean: async () => ({ ...product }) }) } as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('adjustStock', () => {
+  it('opens the ledger with the current stock before the first adjustment', async () => {
+    const { movement } = await adjustStock({ ...product }, { type: 'increase', quantity: 3 }, STAFF);
+
+    expect(ledger.map((entry) => [entry.reason, entry.change, entry.balance])).toEqual([
+      ['Opening stock', 5, 5],
+      ['Stock increased', 3, 8],
+    ]);
+    expect(movement).toMatchObject({ type: 'increase', createdByName: 'Ravi' });
+    expect(product.quantityAvailable).toBe(8);
+  });
+
+  it('writes units off and keeps the ledger in step with the product', async () => {
+    await adjustStock({ ...product }, { type: 'write_off', quantity: 2, reason: ' Dropped ' }, STAFF);
+
+    expect(ledger[1]).toMatchObject({ type: 'write_off', change: -2, balance: 3, reason: 'Dropped' });
+    const balance = await StockMovement.ledgerBalance(product._id);
+    expect(balance).toEqual({ entries: 2, balance: product.quantityAvailable });
+  });
+
+  it('refuses to take out more units than are in stock', async () => {
+    await expect(adjustStock({ ...product }, { type: 'decrease', quantity: 6 }, STAFF)).rejects.toThrow('Only 5 units are in stock');
+    expect(product.quantityAvailable).toBe(5);
+    expect(ledger.map((entry) => entry.reason)).toEqual(['Opening stock']);
+  });
+
+  it('refuses unknown adjustments and quantities that are not whole', async () => {
+    await expect(adjustStock(product, { type: 'reservation', quantity: 1 }, STAFF)).rejects.toThrow(StockError);
+    await expect(adjustStock(product, { type: 'increase', quantity: 1.5 }, STAFF)).rejects.toThrow('whole number');
+    expect(ledger).toEqual([]);
+  });
+});
+
+describe('reconcileStock', () => {
+  it('records a change made to the product outside the ledger', async () => {
+    await reconcileStock(product);
+    product.quantityAvailable = 4;
+
+    await expect(reconcileStock(product)).resolves.toMatchObject({ type: 'decrease', change: -1, balance: 4, reason: 'Reconciled with product quantity' });
+    await expect(reconcileStock(product)).resolves.toBeNull();
+  });
+});
+
+describe('StockMovement.recordOrder', () => {
+  it('records one entry per product without changing the stock', async () => {
+    const lens = new mongoose.Types.ObjectId();
+    vi.spyOn(mongoose, 'model').mockReturnValue({
+      find: () => ({ select: () => ({ session: () => ({ lean: async () => [{ ...product }, { _id: lens, quantityAvailable: 2 }] }) }) }),
+    } as any);
+    const order = {
+      _id: new mongoose.Types.ObjectId(),
+      orderNumber: 'RO-1',
+      endUserId: product.endUserId,
+      items: [
+        { productId: product._id, quantity: 1 },
+        { productId: product._id, quantity: 2 },
+        { productId: lens, quantity: 1 },
+      ],
+    };
+
+    await StockMovement.recordOrder(order, 'reservation', 'Reserved for order RO-1');
+    expect(ledger.map((entry) => [entry.productId, entry.quantity, entry.change, entry.balance])).toEqual([
+      [product._id.toString(), 3, 0, 5],
+      [lens.toString(), 1, 0, 2],
+    ]);
+  });
+});
+
+describe('stockStatus', () => {
+  it('compares the free units with the business\'s levels', () => {
+    expect(stockStatus(5, 0, { minimum: 2 })).toBe('out_of_stock');
+    expect(stockStatus(5, 2, { minimum: 2 })).toBe('low');
+    expect(stockStatus(20, 15, { minimum: 2, maximum: 20 })).toBe('high');
+    expect(stockStatus(5, 3, null)).toBe('normal');
+  });
+});
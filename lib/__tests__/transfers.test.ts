@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+
+const mocks = vi.hoisted(() => ({
+  findOrder: vi.fn(),
+  assignAssets: vi.fn(),
+  assertAssetsAssigned: vi.fn(),
+  recordReturnConditions: vi.fn(),
+  draftLateFeeNote: vi.fn(),
+}));
+
+vi.mock('@/models/RentalOrder', () => ({ default: { findById: mocks.findOrder } }));
+vi.mock('@/lib/assets', () => ({
+  assignAssets: mocks.assignAssets,
+  assertAssetsAssigned: mocks.assertAssetsAssigned,
+  recordReturnConditions: mocks.recordReturnConditions,
+}));
+vi.mock('@/lib/invoiceNotes', () => ({ draftLateFeeNote: mocks.draftLateFeeNote }));
+
+import Transfer from '@/models/Transfer';
+import { TransferError, validateTransfer } from '@/lib/transfers';
+import { InvalidTransferTransitionError } from '@/lib/transferStatus';
+
+const id = () => new mongoose.Types.ObjectId();
+const STAFF = { id: id().toString(), name: 'Ravi' };
+
+function makeOrder(status: string) {
+  return {
+    _id: id(),
+    orderNumber: 'RO-1',
+    status,
+    endUserId: id(),
+    customerId: id(),
+    customerName: 'Asha',
+    customerEmail: 'asha@example.com',
+    startDate: new Date('2025-06-01T10:00:00Z'),
+    endDate: new Date('2025-06-03T10:00:00Z'),
+    pickupDate: new Date('2025-06-01T11:00:00Z'),
+    returnDate: new Date('2025-06-03T09:00:00Z'),
+    items: [{ productId: id(), productName: 'Camera', quantity: 1 }],
+  };
+}
+
+function makeTransfer(order: any, type: 'pickup' | 'return', status: string) {
+  const transfer: any = new Transfer({
+    type,
+    status,
+    transferNumber: type === 'pickup' ? 'PICK/00001' : 'RET/00001',
+    rentalOrderId: order._id,
+    orderNumber: order.orderNumber,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    lines: order.items,
+    scheduledAt: type === 'pickup' ? order.startDate : order.endDate,
+  });
+  transfer.save = vi.fn();
+  return transfer;
+}
+
+const stored = (transfers: any[]) =>
+  vi.spyOn(Transfer, 'find').mockReturnValue({ session: async () => transfers } as any);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Transfer.createForOrder', () => {
+  it('creates a draft pickup and a return waiting on it', async () => {
+    const order = makeOrder('confirmed');
+    stored([]);
+    const create = vi.spyOn(Transfer, 'create').mockImplementation((async (docs: any[]) => docs) as any);
+
+    const transfers = await Transfer.createForOrder(order);
+    expect(transfers).toMatchObject([
+      { type: 'pickup', status: 'draft', scheduledAt: order.startDate },
+      { type: 'return', status: 'waiting', scheduledAt: order.endDate },
+    ]);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('only adds the transfers an order is missing', async () => {
+    const order = makeOrder('confirmed');
+    const pickup = makeTransfer(order, 'pickup', 'done');
+    stored([pickup]);
+    vi.spyOn(Transfer, 'create').mockImplementation((async (docs: any[]) => docs) as any);
+
+    const transfers = await Transfer.createForOrder(order);
+    expect(transfers.map((transfer) => transfer.type)).toEqual(['pickup', 'return']);
+    expect(transfers[0]).toBe(pickup);
+  });
+});
+
+describe('Transfer.syncWithOrder', () => {
+  it('completes the pickup and readies the return once the order is picked up', async () => {
+    const order = makeOrder('delivered');
+    const pickup = makeTransfer(order, 'pickup', 'draft');
+    const ret = makeTransfer(order, 'return', 'waiting');
+    stored([pickup, ret]);
+
+    await Transfer.syncWithOrder(order, STAFF);
+    expect(pickup).toMatchObject({ status: 'done', validatedAt: order.pickupDate, validatedByName: 'Ravi' });
+    expect(ret.status).toBe('ready');
+  });
+
+  it('completes the return once the order is returned', async () => {
+    const order = makeOrder('returned');
+    const pickup = makeTransfer(order, 'pickup', 'done');
+    const ret = makeTransfer(order, 'return', 'ready');
+    stored([pickup, ret]);
+
+    await Transfer.syncWithOrder(order, STAFF);
+    expect(ret).toMatchObject({ status: 'done', validatedAt: order.returnDate });
+    expect(pickup.save).not.toHaveBeenCalled();
+  });
+
+  it('cancels the open transfers of a cancelled order', async () => {
+    const order = makeOrder('cancelled');
+    const pickup = makeTransfer(order, 'pickup', 'draft');
+    const ret = makeTransfer(order, 'return', 'waiting');
+    stored([pickup, ret]);
+
+    await Transfer.syncWithOrder(order);
+    expect([pickup.status, ret.status]).toEqual(['cancelled', 'cancelled']);
+  });
+});
+
+describe('validateTransfer', () => {
+  let order: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    order = { ...makeOrder('confirmed'), updateStatus: vi.fn(async function (status: string) { order.status = status; }) };
+    mocks.findOrder.mockResolvedValue(order);
+    vi.spyOn(Transfer, 'findById').mockResolvedValue(null);
+  });
+
+  it('hands a confirmed order over with the units named on the pickup', async () => {
+    const assignments = [{ itemId: 'item-1', assetIds: ['asset-1'] }];
+
+    await validateTransfer(makeTransfer(order, 'pickup', 'ready'), STAFF, { assignments });
+    expect(mocks.assignAssets).toHaveBeenCalledWith(order, assignments);
+    expect(mocks.assertAssetsAssigned).toHaveBeenCalledWith(order);
+    expect(order.updateStatus.mock.calls.map((call: any[]) => call[0])).toEqual(['reserved', 'delivered']);
+  });
+
+  it('takes the order back with the condition of its units and drafts the late fee', async () => {
+    order.status = 'late';
+    const conditions = { 'asset-1': 'damaged' as const };
+
+    await validateTransfer(makeTransfer(order, 'return', 'ready'), STAFF, { conditions });
+    expect(mocks.recordReturnConditions).toHaveBeenCalledWith(order, conditions);
+    expect(order.updateStatus).toHaveBeenCalledWith('returned', 'RET/00001 validated', STAFF);
+    expect(mocks.draftLateFeeNote).toHaveBeenCalledWith(order, STAFF);
+  });
+
+  it('refuses a return whose pickup has not been validated', async () => {
+    const error = await validateTransfer(makeTransfer(order, 'return', 'waiting'), STAFF).catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidTransferTransitionError);
+    expect(error.message).toContain('waiting for its pickup');
+    expect(order.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('refuses a transfer whose order is gone', async () => {
+    mocks.findOrder.mockResolvedValue(null);
+
+    await expect(validateTransfer(makeTransfer(order, 'pickup', 'draft'), STAFF)).rejects.toThrow(TransferError);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Asset Statuses and Conditions
+ * Lifecycle statuses and physical conditions of serialized product units, with
+ * the labels the unit screens show. Safe to import on the client.
+ */
+
+import { AssetCondition, AssetStatus } from '@/types';
+
+export const ASSET_STATUS_LABELS: Record<AssetStatus, string> = {
+  available: 'Available',
+  rented: 'Rented',
+  maintenance: 'Maintenance',
+  retired: 'Retired',
+};
+
+export const ASSET_CONDITION_LABELS: Record<AssetCondition, string> = {
+  new: 'New',
+  good: 'Good',
+  fair: 'Fair',
+  damaged: 'Damaged',
+};
+
+export const ASSET_STATUSES = Object.keys(ASSET_STATUS_LABELS) as AssetStatus[];
+export const ASSET_CONDITIONS = Object.keys(ASSET_CONDITION_LABELS) as AssetCondition[];
+
+// Statuses the business sets by hand; units become rented only by being assigned to an order
+export const MANUAL_ASSET_STATUSES: AssetStatus[] = ['available', 'maintenance', 'retired'];
+
+/**
+ * Check whether a value is a known unit condition
+ */
+export function isAssetCondition(value: unknown): value is AssetCondition {
+  return typeof value === 'string' && value in ASSET_CONDITION_LABELS;
+}
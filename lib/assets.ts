@@ -0,0 +1,300 @@
+/**
+ * Serialized Assets
+ * Registers the physical units of a product and assigns them to order lines at
+ * pickup. A product with units in service needs every unit it hands over named,
+ * so each rental can be traced to the exact units and the condition they came
+ * back in. The order takes its units back when it is returned or cancelled.
+ */
+
+import mongoose from 'mongoose';
+import Asset, { IAsset } from '@/models/Asset';
+import { logger } from '@/lib/logger';
+import { isAssetCondition, MANUAL_ASSET_STATUSES } from '@/lib/assetStatus';
+import { isEncodable } from '@/lib/barcode';
+import { AssetCondition, AssetRental, AssetSummary, OrderAssetLine } from '@/types';
+
+// Orders whose lines can have units assigned
+const ASSIGNABLE_ORDER_STATUSES = ['confirmed', 'reserved', 'delivered', 'late'];
+
+/**
+ * Error raised when units cannot be registered or assigned
+ */
+export class AssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetError';
+  }
+}
+
+/**
+ * Fields of a unit from a form or request; only the ones present are returned
+ */
+export function normalizeAssetInput(body: any): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (body?.serialNumber !== undefined) {
+    fields.serialNumber = String(body.serialNumber || '').trim();
+    // Serial numbers are printed as barcodes on unit labels
+    if (fields.serialNumber && !isEncodable(fields.serialNumber)) {
+      throw new AssetError('Serial numbers can only use letters, digits, spaces and ASCII symbols');
+    }
+  }
+  if (body?.purchaseDate !== undefined) {
+    const date = body.purchaseDate ? new Date(body.purchaseDate) : null;
+    fields.purchaseDate = date && !isNaN(date.getTime()) ? date : undefined;
+  }
+  if (body?.purchaseCost !== undefined) {
+    const cost = parseFloat(body.purchaseCost);
+    fields.purchaseCost = Number.isFinite(cost) ? cost : undefined;
+  }
+  if (body?.condition !== undefined) fields.condition = body.condition;
+  if (body?.notes !== undefined) fields.notes = body.notes ? String(body.notes).trim() : undefined;
+  if (body?.status !== undefined) {
+    if (!MANUAL_ASSET_STATUSES.includes(body.status)) {
+      throw new AssetError('Units can be set to available, maintenance or retired; they become rented when assigned to an order');
+    }
+    fields.status = body.status;
+  }
+  return fields;
+}
+
+/**
+ * Unit as listed to the business
+ */
+export function toAssetSummary(asset: any, productName?: string): AssetSummary {
+  return {
+    _id: asset._id.toString(),
+    productId: (asset.productId?._id || asset.productId).toString(),
+    productName: productName || asset.productId?.name,
+    serialNumber: asset.serialNumber,
+    purchaseDate: asset.purchaseDate ? new Date(asset.purchaseDate).toISOString() : undefined,
+    purchaseCost: asset.purchaseCost,
+    condition: asset.condition,
+    status: asset.status,
+    notes: asset.notes,
+    currentOrderId: asset.currentOrderId?.toString(),
+    currentOrderNumber: asset.currentOrderNumber,
+    rentalCount: (asset.rentals || []).filter((rental: any) => !rental.cancelled).length,
+    createdAt: new Date(asset.createdAt).toISOString(),
+  };
+}
+
+/**
+ * The rentals a unit was part of, newest first
+ */
+export function toAssetRentals(asset: any): AssetRental[] {
+  return (asset.rentals || [])
+    .map((rental: any) => ({
+      rentalOrderId: rental.rentalOrderId.toString(),
+      orderNumber: rental.orderNumber,
+      itemId: rental.itemId.toString(),
+      customerName: rental.customerName,
+      assignedAt: new Date(rental.assignedAt).toISOString(),
+      returnedAt: rental.returnedAt ? new Date(rental.returnedAt).toISOString() : undefined,
+      conditionOut: rental.conditionOut,
+      conditionIn: rental.conditionIn,
+      cancelled: rental.cancelled || undefined,
+    }))
+    .reverse();
+}
+
+/**
+ * Each line of an order with the units assigned to it and the units of its
+ * product that are free to assign
+ */
+export async function getOrderAssignments(order: any): Promise<OrderAssetLine[]> {
+  const productIds = Array.from(new Set(order.items.map((item: any) => (item.productId?._id || item.productId).toString())));
+  const assignedIds = order.items.flatMap((item: any) => item.assetIds || []);
+  const assets: IAsset[] = await Asset.find({
+    productId: { $in: productIds },
+    endUserId: order.endUserId,
+    $or: [{ status: 'available' }, { _id: { $in: assignedIds } }],
+  }).sort({ serialNumber: 1 });
+
+  return order.items.map((item: any) => {
+    const productId = (item.productId?._id || item.productId).toString();
+    const assigned = (item.assetIds || []).map((id: any) => id.toString());
+    return {
+      itemId: item._id.toString(),
+      productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      assigned: assets.filter((asset) => assigned.includes(asset._id.toString())).map((asset) => toAssetSummary(asset, item.productName)),
+      candidates: assets
+        .filter((asset) => asset.productId.toString() === productId && asset.status === 'available' && !assigned.includes(asset._id.toString()))
+        .map((asset) => toAssetSummary(asset, item.productName)),
+    };
+  });
+}
+
+// Give back units claimed for an order by an assignment that did not go through
+async function releaseClaimedAssets(order: any, assetIds: mongoose.Types.ObjectId[], assignedAt: Date) {
+  if (assetIds.length === 0) return;
+  await Asset.updateMany(
+    { _id: { $in: assetIds }, currentOrderId: order._id },
+    {
+      $set: { status: 'available' },
+      $unset: { currentOrderId: '', currentOrderNumber: '' },
+      $pull: { rentals: { rentalOrderId: order._id, assignedAt } },
+    }
+  );
+}
+
+/**
+ * Name the units handed over for order lines. Units taken off a line go back to
+ * available; ones already with the customer are recorded as returned. Each unit is
+ * claimed only while it is still available, so two pickups can never take the same
+ * unit; when one cannot be claimed, none of the lines change.
+ */
+export async function assignAssets(order: any, assignments: Array<{ itemId: string; assetIds: string[] }>) {
+  if (!ASSIGNABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new AssetError(`Units cannot be assigned to a ${order.status} order`);
+  }
+  const outWithCustomer = order.status === 'delivered' || order.status === 'late';
+  const now = new Date();
+
+  const lines: Array<{ item: any; ids: string[]; added: IAsset[]; removedIds: string[] }> = [];
+  for (const assignment of assignments) {
+    const item = order.items.find((line: any) => line._id.toString() === String(assignment?.itemId));
+    if (!item) {
+      throw new AssetError('Order line not found');
+    }
+    const ids: string[] = Array.from(new Set((assignment.assetIds || []).map(String)));
+    if (ids.length > item.quantity) {
+      throw new AssetError(`${item.productName} has ${item.quantity} unit${item.quantity === 1 ? '' : 's'} on this order`);
+    }
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      throw new AssetError('Unit not found');
+    }
+
+    const productId = item.productId?._id || item.productId;
+    const assets: IAsset[] = await Asset.find({ _id: { $in: ids }, productId, endUserId: order.endUserId });
+    if (assets.length !== ids.length) {
+      throw new AssetError(`Only units of ${item.productName} can be assigned to its line`);
+    }
+    const previous: string[] = (item.assetIds || []).map((id: any) => id.toString());
+    const added = assets.filter((asset) => !previous.includes(asset._id.toString()));
+    const busy = added.find((asset) => asset.status !== 'available');
+    if (busy) {
+      throw new AssetError(`Unit ${busy.serialNumber} is ${busy.status}`);
+    }
+    lines.push({ item, ids, added, removedIds: previous.filter((id) => !ids.includes(id)) });
+  }
+
+  // Claim the new units before any are let go
+  const claimed: mongoose.Types.ObjectId[] = [];
+  try {
+    for (const { item, added } of lines) {
+      for (const asset of added) {
+        const taken = await Asset.findOneAndUpdate(
+          { _id: asset._id, status: 'available' },
+          {
+            $set: { status: 'rented', currentOrderId: order._id, currentOrderNumber: order.orderNumber },
+            $push: {
+              rentals: {
+                rentalOrderId: order._id,
+                orderNumber: order.orderNumber,
+                itemId: item._id,
+                customerName: order.customerName,
+                assignedAt: now,
+                conditionOut: asset.condition,
+              },
+            },
+          }
+        );
+        if (!taken) {
+          throw new AssetError(`Unit ${asset.serialNumber} was just taken for another order`);
+        }
+        claimed.push(asset._id);
+      }
+    }
+  } catch (error) {
+    await releaseClaimedAssets(order, claimed, now);
+    throw error;
+  }
+
+  for (const { item, ids, removedIds } of lines) {
+    // Units taken off the line
+    const removed: IAsset[] = await Asset.find({ _id: { $in: removedIds } });
+    for (const asset of removed) {
+      const rental = asset.rentals.find((r) => r.itemId.equals(item._id) && !r.returnedAt && !r.cancelled);
+      if (rental && outWithCustomer) {
+        rental.returnedAt = now;
+        rental.conditionIn = asset.condition;
+      } else if (rental) {
+        asset.rentals = asset.rentals.filter((r) => r !== rental);
+      }
+      asset.status = 'available';
+      asset.currentOrderId = undefined;
+      asset.currentOrderNumber = undefined;
+      await asset.save();
+    }
+
+    item.assetIds = ids.map((id) => new mongoose.Types.ObjectId(id));
+  }
+
+  await order.save();
+  logger.info('Units assigned', { orderNumber: order.orderNumber, lines: assignments.length });
+  return order;
+}
+
+/**
+ * Throw unless every line of a product with units in service names the units
+ * handed over for it
+ */
+export async function assertAssetsAssigned(order: any) {
+  const productIds = order.items.map((item: any) => item.productId?._id || item.productId);
+  const tracked: any[] = await Asset.distinct('productId', { productId: { $in: productIds }, status: { $ne: 'retired' } });
+  const trackedIds = tracked.map((id) => id.toString());
+
+  for (const item of order.items) {
+    const productId = (item.productId?._id || item.productId).toString();
+    const assigned = item.assetIds?.length || 0;
+    if (trackedIds.includes(productId) && assigned !== item.quantity) {
+      throw new AssetError(
+        `Assign ${item.quantity} unit${item.quantity === 1 ? '' : 's'} of ${item.productName} before pickup (${assigned} assigned)`
+      );
+    }
+  }
+}
+
+/**
+ * Check a unit out on the order back in, with the condition it came back in. The
+ * unit stays with the order until the order itself is returned.
+ */
+export async function checkInAsset(order: any, asset: IAsset, condition?: AssetCondition) {
+  const rental = asset.rentals.find((r) => r.rentalOrderId.equals(order._id) && !r.returnedAt && !r.cancelled);
+  if (!rental || !asset.currentOrderId?.equals(order._id)) {
+    throw new AssetError(`Unit ${asset.serialNumber} is not out on ${order.orderNumber}`);
+  }
+
+  rental.checkedInAt = rental.checkedInAt || new Date();
+  if (isAssetCondition(condition)) {
+    asset.condition = condition;
+  }
+  await asset.save();
+  logger.info('Unit checked in', { orderNumber: order.orderNumber, serialNumber: asset.serialNumber });
+}
+
+/**
+ * Serial numbers of the units out on an order that have not been checked back in
+ */
+export async function unitsStillOut(order: any): Promise<string[]> {
+  const assets: IAsset[] = await Asset.find({ currentOrderId: order._id }).sort({ serialNumber: 1 });
+  return assets
+    .filter((asset) => !asset.rentals.some((r) => r.rentalOrderId.equals(order._id) && r.checkedInAt && !r.returnedAt && !r.cancelled))
+    .map((asset) => asset.serialNumber);
+}
+
+/**
+ * Record the condition units of an order came back in, before the order is returned
+ */
+export async function recordReturnConditions(order: any, conditions: Record<string, AssetCondition>) {
+  const entries = Object.entries(conditions || {}).filter(([id, condition]) => mongoose.Types.ObjectId.isValid(id) && isAssetCondition(condition));
+  if (entries.length === 0) return;
+
+  const assets: IAsset[] = await Asset.find({ _id: { $in: entries.map(([id]) => id) }, currentOrderId: order._id });
+  for (const asset of assets) {
+    asset.condition = conditions[asset._id.toString()];
+    await asset.save();
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Availability Engine
+ * Computes how many units of a product are booked versus owned for any time
+ * window, so multi-unit products can be rented concurrently without overbooking.
+ * Returned or cancelled rentals are never counted, so their units go back to the pool.
+ * Live cart holds count too, so units in someone's checkout cannot be sold twice.
+ * Every rental also keeps its units out of the pool for the product's turnaround
+ * buffer before and after it, while they are prepared. Scheduled and in-progress
+ * maintenance keeps its units out for its date range. A product with serialized
+ * units owns only its units in service; retired units and units in maintenance
+ * are out of the pool.
+ */
+
+import Product from '@/models/Product';
+import RentalOrder from '@/models/RentalOrder';
+import Booking from '@/models/Booking';
+import Cart from '@/models/Cart';
+import Maintenance from '@/models/Maintenance';
+import Asset from '@/models/Asset';
+import BusinessSettings from '@/models/BusinessSettings';
+import { logger } from '@/lib/logger';
+import { padRentalPeriod } from '@/lib/turnaround';
+import { BLOCKING_MAINTENANCE_STATUSES } from '@/lib/maintenanceStatus';
+import { TurnaroundBuffer } from '@/types';
+
+// Rental order statuses that hold units of a product
+export const ACTIVE_ORDER_STATUSES = ['confirmed', 'reserved', 'delivered', 'late'];
+
+// Booking statuses that hold units of a product
+export const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'late'];
+
+// Serialized units that cannot be rented out
+const OUT_OF_POOL_ASSET_STATUSES = ['maintenance', 'retired'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Upper bound on schedule slots returned in one call
+const MAX_SCHEDULE_SLOTS = 750;
+
+export type AvailabilityGranularity = 'hour' | 'day';
+
+// A period during which some units of a product are unavailable
+export interface AvailabilityBlock {
+  start: Date;
+  end: Date;
+  quantity: number;
+  source: 'order' | 'booking' | 'hold' | 'maintenance';
+  refId: string;
+}
+
+export interface AvailabilityOptions {
+  excludeOrderId?: string;
+  excludeBookingId?: string;
+  excludeCartId?: string; // A customer's own holds never block their checkout
+  excludeMaintenanceId?: string; // Maintenance being rescheduled
+}
+
+export interface AvailabilityResult {
+  productId: string;
+  start: Date;
+  end: Date;
+  owned: number;
+  booked: number;
+  free: number;
+  requested: number;
+  available: boolean;
+  buffer: TurnaroundBuffer; // Preparation time counted around every rental, the requested one included
+}
+
+export interface AvailabilitySlot {
+  start: Date;
+  end: Date;
+  booked: number; // Units blocked, rented or being prepared
+  turnaround: number; // Of which blocked only for preparation
+  maintenance: number; // Of which out of service for maintenance
+  free: number;
+}
+
+/**
+ * Peak number of units held at the same time within [start, end)
+ */
+export function peakBookedUnits(blocks: AvailabilityBlock[], start: Date, end: Date): number {
+  const windowStart = start.getTime();
+  const windowEnd = end.getTime();
+  const events: Array<{ at: number; delta: number }> = [];
+
+  for (const block of blocks) {
+    const blockStart = Math.max(block.start.getTime(), windowStart);
+    const blockEnd = Math.min(block.end.getTime(), windowEnd);
+    if (blockStart >= blockEnd) continue;
+    events.push({ at: blockStart, delta: block.quantity });
+    events.push({ at: blockEnd, delta: -block.quantity });
+  }
+
+  // Releases sort before holds at the same instant so back-to-back rentals don't overlap
+  events.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  for (const event of events) {
+    current += event.delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Widen rental blocks by the turnaround buffer their units need around them;
+ * maintenance already covers the time its units are out
+ */
+export function padBlocks(blocks: AvailabilityBlock[], buffer: TurnaroundBuffer): AvailabilityBlock[] {
+  if (!buffer.beforeHours && !buffer.afterHours) return blocks;
+  return blocks.map((block) =>
+    block.source === 'maintenance' ? block : { ...block, ...padRentalPeriod(block.start, block.end, buffer) }
+  );
+}
+
+/**
+ * Load every block that overlaps [start, end) for a product
+ */
+export async function getAvailabilityBlocks(
+  productId: string,
+  start: Date,
+  end: Date,
+  options: AvailabilityOptions = {}
+): Promise<AvailabilityBlock[]> {
+  const orderQuery: any = {
+    status: { $in: ACTIVE_ORDER_STATUSES },
+    items: {
+      $elemMatch: {
+        productId,
+        startDate: { $lt: end },
+        endDate: { $gt: start },
+      },
+    },
+  };
+  if (options.excludeOrderId) {
+    orderQuery._id = { $ne: options.excludeOrderId };
+  }
+
+  const bookingQuery: any = {
+    productId,
+    status: { $in: ACTIVE_BOOKING_STATUSES },
+    startDate: { $lt: end },
+    endDate: { $gt: start },
+  };
+  if (options.excludeBookingId) {
+    bookingQuery._id = { $ne: options.excludeBookingId };
+  }
+
+  const now = new Date();
+  const cartQuery: any = {
+    items: {
+      $elemMatch: {
+        productId,
+        holdExpiresAt: { $gt: now },
+        startDate: { $lt: end },
+        endDate: { $gt: start },
+      },
+    },
+  };
+  if (options.excludeCartId) {
+    cartQuery._id = { $ne: options.excludeCartId };
+  }
+
+  // Units already out of the pool are not owned, so their maintenance does not block them again
+  const outOfPool = await Asset.find({ productId, status: { $in: OUT_OF_POOL_ASSET_STATUSES } }).distinct('_id');
+  const maintenanceQuery: any = {
+    productId,
+    status: { $in: BLOCKING_MAINTENANCE_STATUSES },
+    startDate: { $lt: end },
+    endDate: { $gt: start },
+    assetId: { $nin: outOfPool },
+  };
+  if (options.excludeMaintenanceId) {
+    maintenanceQuery._id = { $ne: options.excludeMaintenanceId };
+  }
+
+  const [orders, bookings, carts, maintenance] = await Promise.all([
+    RentalOrder.find(orderQuery).select('items').lean(),
+    Booking.find(bookingQuery).select('startDate endDate quantity').lean(),
+    Cart.find(cartQuery).select('items').lean(),
+    Maintenance.find(maintenanceQuery).select('startDate endDate quantity').lean(),
+  ]);
+
+  return [
+    // An order can hold the same product on several lines with different periods
+    ...orders.flatMap((o: any) =>
+      o.items
+        .filter((item: any) => item.productId.toString() === productId.toString())
+        .map((item: any) => ({
+          start: item.startDate,
+          end: item.endDate,
+          quantity: item.quantity || 1,
+          source: 'order' as const,
+          refId: o._id.toString(),
+        }))
+    ),
+    ...bookings.map((b: any) => ({
+      start: b.startDate,
+      end: b.endDate,
+      quantity: b.quantity || 1,
+      source: 'booking' as const,
+      refId: b._id.toString(),
+    })),
+    ...carts.flatMap((c: any) =>
+      c.items
+        .filter((item: any) => item.productId.toString() === productId.toString() && item.holdExpiresAt > now)
+        .map((item: any) => ({
+          start: item.startDate,
+          end: item.endDate,
+          quantity: item.quantity || 1,
+          source: 'hold' as const,
+          refId: c._id.toString(),
+        }))
+    ),
+    ...maintenance.map((m: any) => ({
+      start: m.startDate,
+      end: m.endDate,
+      quantity: m.quantity || 1,
+      source: 'maintenance' as const,
+      refId: m._id.toString(),
+    })),
+  ];
+}
+
+/**
+ * Number of units of a product that exist in the rental pool: its serialized units
+ * in service when it has any, otherwise its stock count
+ */
+export async function getOwnedUnits(productId: string): Promise<number> {
+  const units: any[] = await Asset.find({ productId, status: { $ne: 'retired' } }).select('status').lean();
+  if (units.length > 0) {
+    return units.filter((unit) => !OUT_OF_POOL_ASSET_STATUSES.includes(unit.status)).length;
+  }
+
+  const product: any = await Product.findById(productId).select('quantityAvailable').lean();
+  return product?.quantityAvailable || 0;
+}
+
+/**
+ * Turnaround buffer the units of a product are prepared under
+ */
+export async function getTurnaroundBuffer(productId: string): Promise<TurnaroundBuffer> {
+  const product: any = await Product.findById(productId).select('endUserId category turnaroundBuffer').lean();
+  return BusinessSettings.getTurnaroundBuffer(product);
+}
+
+/**
+ * Compute booked and free units for a product over [start, end). The window and
+ * every rental are widened by the turnaround buffer, so a new rental cannot start
+ * until the units of the previous one are prepared again.
+ */
+export async function getAvailability(
+  productId: string,
+  start: Date,
+  end: Date,
+  requested: number = 1,
+  options: AvailabilityOptions = {}
+): Promise<AvailabilityResult> {
+  const [owned, buffer] = await Promise.all([getOwnedUnits(productId), getTurnaroundBuffer(productId)]);
+  const window = padRentalPeriod(start, end, buffer);
+  // Rentals up to a buffer beyond the window can still reach into it once padded
+  const reach = padRentalPeriod(window.start, window.end, { beforeHours: buffer.afterHours, afterHours: buffer.beforeHours });
+  const blocks = padBlocks(await getAvailabilityBlocks(productId, reach.start, reach.end, options), buffer);
+
+  const booked = peakBookedUnits(blocks, window.start, window.end);
+  const free = Math.max(0, owned - booked);
+
+  logger.debug('Availability computed', { productId, owned, booked, free, requested, buffer });
+
+  return {
+    productId: productId.toString(),
+    start,
+    end,
+    owned,
+    booked,
+    free,
+    requested,
+    available: free >= requested,
+    buffer,
+  };
+}
+
+/**
+ * Check whether the requested number of units is free for the whole window
+ */
+export async function isAvailable(
+  productId: string,
+  start: Date,
+  end: Date,
+  requested: number = 1,
+  options: AvailabilityOptions = {}
+): Promise<boolean> {
+  const result = await getAvailability(productId, start, end, requested, options);
+  return result.available;
+}
+
+/**
+ * Earliest start from `from` up to `until` at which the requested units are free
+ * for the given duration, or null when there is none. A window can only open at
+ * `from` or once a block ends and its units are prepared again.
+ */
+export async function findFreeStart(
+  productId: string,
+  from: Date,
+  until: Date,
+  durationMs: number,
+  requested: number = 1,
+  options: AvailabilityOptions = {}
+): Promise<Date | null> {
+  const [owned, buffer] = await Promise.all([getOwnedUnits(productId), getTurnaroundBuffer(productId)]);
+  const window = padRentalPeriod(from, new Date(until.getTime() + durationMs), buffer);
+  const reach = padRentalPeriod(window.start, window.end, { beforeHours: buffer.afterHours, afterHours: buffer.beforeHours });
+  const blocks = padBlocks(await getAvailabilityBlocks(productId, reach.start, reach.end, options), buffer);
+
+  const candidates = Array.from(new Set([
+    from.getTime(),
+    ...blocks.map((block) => block.end.getTime() + buffer.beforeHours * HOUR_MS),
+  ]))
+    .filter((at) => at >= from.getTime() && at <= until.getTime())
+    .sort((a, b) => a - b);
+
+  for (const at of candidates) {
+    const period = padRentalPeriod(new Date(at), new Date(at + durationMs), buffer);
+    if (owned - peakBookedUnits(blocks, period.start, period.end) >= requested) {
+      return new Date(at);
+    }
+  }
+  return null;
+}
+
+/**
+ * Free and booked units per hour or day across [start, end), with the units
+ * blocked only for turnaround and those out for maintenance shown apart
+ */
+export async function getAvailabilitySchedule(
+  productId: string,
+  start: Date,
+  end: Date,
+  granularity: AvailabilityGranularity = 'day'
+): Promise<{ owned: number; buffer: TurnaroundBuffer; slots: AvailabilitySlot[] }> {
+  const step = granularity === 'hour' ? HOUR_MS : DAY_MS;
+
+  // Align the first slot to the start of the hour or day
+  const first = new Date(start);
+  if (granularity === 'hour') {
+    first.setMinutes(0, 0, 0);
+  } else {
+    first.setHours(0, 0, 0, 0);
+  }
+
+  const slotCount = Math.min(Math.ceil((end.getTime() - first.getTime()) / step), MAX_SCHEDULE_SLOTS);
+  const scheduleEnd = new Date(first.getTime() + slotCount * step);
+
+  const [owned, buffer] = await Promise.all([getOwnedUnits(productId), getTurnaroundBuffer(productId)]);
+  const reach = padRentalPeriod(first, scheduleEnd, { beforeHours: buffer.afterHours, afterHours: buffer.beforeHours });
+  const rentals = await getAvailabilityBlocks(productId, reach.start, reach.end);
+  const blocks = padBlocks(rentals, buffer);
+  const maintenance = rentals.filter((block) => block.source === 'maintenance');
+
+  const slots: AvailabilitySlot[] = [];
+  for (let i = 0; i < slotCount; i++) {
+    const slotStart = new Date(first.getTime() + i * step);
+    const slotEnd = new Date(slotStart.getTime() + step);
+    const booked = peakBookedUnits(blocks, slotStart, slotEnd);
+    const turnaround = Math.max(0, booked - peakBookedUnits(rentals, slotStart, slotEnd));
+    const servicing = peakBookedUnits(maintenance, slotStart, slotEnd);
+    slots.push({ start: slotStart, end: slotEnd, booked, turnaround, maintenance: servicing, free: Math.max(0, owned - booked) });
+  }
+
+  return { owned, buffer, slots };
+}
@@ -0,0 +1,86 @@
+/**
+ * Label Codes and Code 128 Barcodes
+ * The codes printed on product and unit labels and the Code 128 (subset B) bar
+ * patterns that encode them. Product labels carry the product id and unit labels
+ * the unit's serial number, so a scanned code leads straight to the item. Safe to
+ * import on the client.
+ */
+
+import { LabelCode } from '@/types';
+
+// Bar and space widths in modules of every Code 128 symbol value, then the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const STOP = 106;
+
+// Label code prefixes
+const PRODUCT_PREFIX = 'P-';
+const UNIT_PREFIX = 'U-';
+
+/**
+ * Check whether text can be printed as a Code 128 subset B barcode
+ */
+export function isEncodable(text: string): boolean {
+  return text.length > 0 && /^[\x20-\x7e]+$/.test(text);
+}
+
+/**
+ * Module widths of a Code 128 barcode for the text, alternating bar and space
+ * and starting with a bar; quiet zones are left to the caller
+ */
+export function encodeCode128(text: string): number[] {
+  if (!isEncodable(text)) {
+    throw new Error('Barcodes can only hold printable ASCII characters');
+  }
+
+  const values = [START_B, ...Array.from(text).map((char) => char.charCodeAt(0) - 32)];
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+
+  return [...values, checksum, STOP].flatMap((value) => Array.from(CODE128_PATTERNS[value]).map(Number));
+}
+
+/**
+ * Code printed on a product's labels
+ */
+export function productLabelCode(productId: string): string {
+  return `${PRODUCT_PREFIX}${productId}`;
+}
+
+/**
+ * Code printed on a unit's label
+ */
+export function unitLabelCode(serialNumber: string): string {
+  return `${UNIT_PREFIX}${serialNumber}`;
+}
+
+/**
+ * What a scanned or typed code refers to; text without a label prefix is taken
+ * as a serial number typed by hand
+ */
+export function parseLabelCode(raw: string): LabelCode | null {
+  const code = (raw || '').trim();
+  if (!code) return null;
+
+  const upper = code.toUpperCase();
+  if (upper.startsWith(PRODUCT_PREFIX)) {
+    const productId = code.slice(PRODUCT_PREFIX.length).toLowerCase();
+    return /^[0-9a-f]{24}$/.test(productId) ? { kind: 'product', value: productId } : null;
+  }
+  if (upper.startsWith(UNIT_PREFIX)) {
+    return { kind: 'unit', value: upper.slice(UNIT_PREFIX.length) };
+  }
+  return { kind: 'unit', value: upper };
+}
@@ -0,0 +1,86 @@
+/**
+ * Cancellation Policies
+ * Works out how much of an order is refunded when it is cancelled, from tiers of
+ * "at least N hours before the rental starts → X% back". Safe to import on the client.
+ */
+
+import { CancellationInitiator, CancellationPolicy, CancellationQuote, CancellationTier } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Policy used when a business has not configured one: full refund 24h+ ahead, half 12-24h ahead
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  tiers: [
+    { hoursBeforeStart: 24, refundPercent: 100 },
+    { hoursBeforeStart: 12, refundPercent: 50 },
+  ],
+};
+
+/**
+ * Clean up tiers from a form or request: valid numbers only, one tier per notice period,
+ * longest notice first
+ */
+export function normalizeCancellationPolicy(policy?: Partial<CancellationPolicy> | null): CancellationPolicy {
+  if (!policy?.tiers) return DEFAULT_CANCELLATION_POLICY;
+
+  const byHours = new Map<number, number>();
+  for (const tier of policy.tiers) {
+    const hours = Math.max(0, Math.round(Number(tier?.hoursBeforeStart) || 0));
+    const percent = Math.min(100, Math.max(0, Number(tier?.refundPercent) || 0));
+    byHours.set(hours, percent);
+  }
+
+  return {
+    tiers: Array.from(byHours.entries())
+      .map(([hoursBeforeStart, refundPercent]) => ({ hoursBeforeStart, refundPercent }))
+      .sort((a, b) => b.hoursBeforeStart - a.hoursBeforeStart),
+  };
+}
+
+/**
+ * The tier that applies with this much notice, if any
+ */
+export function findCancellationTier(policy: CancellationPolicy, hoursBeforeStart: number): CancellationTier | undefined {
+  return normalizeCancellationPolicy(policy).tiers.find((tier) => hoursBeforeStart >= tier.hoursBeforeStart);
+}
+
+/**
+ * Refund for cancelling at `at` a rental starting at `startDate` with `paidAmount` still held.
+ * Businesses cancelling their own orders always refund everything paid.
+ */
+export function calculateCancellationRefund(
+  policy: CancellationPolicy,
+  startDate: Date,
+  paidAmount: number,
+  initiatedBy: CancellationInitiator,
+  at: Date = new Date()
+): CancellationQuote {
+  const hoursBeforeStart = Math.floor((startDate.getTime() - at.getTime()) / HOUR_MS);
+  const refundPercent = initiatedBy === 'enduser'
+    ? 100
+    : findCancellationTier(policy, hoursBeforeStart)?.refundPercent ?? 0;
+  const paid = Math.max(0, paidAmount);
+
+  return {
+    initiatedBy,
+    hoursBeforeStart,
+    refundPercent,
+    paidAmount: paid,
+    refundAmount: Math.round(paid * refundPercent) / 100,
+  };
+}
+
+/**
+ * One line per tier, e.g. "24h or more before start: 100% refund"
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const tiers = normalizeCancellationPolicy(policy).tiers;
+  if (tiers.length === 0) return ['No refund on cancellation'];
+
+  const lines = tiers.map((tier) => `${tier.hoursBeforeStart}h or more before start: ${tier.refundPercent}% refund`);
+  const last = tiers[tiers.length - 1];
+  if (last.hoursBeforeStart > 0) {
+    lines.push(`Less than ${last.hoursBeforeStart}h before start: no refund`);
+  }
+  return lines;
+}
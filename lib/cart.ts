@@ -0,0 +1,400 @@
+/**
+ * Server Carts and Checkout Holds
+ * Keeps each customer's cart in the database and holds the units of every line
+ * for CART_HOLD_MINUTES, so two customers cannot check out the last unit at once.
+ * A hold is written first and checked against availability afterwards, so of two
+ * customers racing for the last unit at most one keeps it.
+ */
+
+import mongoose from 'mongoose';
+import Cart from '@/models/Cart';
+import Product from '@/models/Product';
+import { logger } from '@/lib/logger';
+import { getAvailability } from '@/lib/availability';
+import { normalizeRentalPeriod } from '@/lib/pricing';
+import { QuoteItemInput } from '@/lib/quote';
+import { checkRentalConstraints } from '@/lib/rentalConstraints';
+import { istDate } from '@/lib/handoverSchedule';
+import { checkHandoverSlot } from '@/lib/handovers';
+import { CartLine, GuestCartItem } from '@/types';
+
+// How long a cart line keeps its units without the customer checking out
+export const CART_HOLD_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest a checkout may keep the cart locked
+const CHECKOUT_LOCK_MS = 2 * MINUTE_MS;
+
+export interface CartItemInput {
+  productId: string;
+  quantity?: number;
+  startDate?: string | Date;
+  endDate?: string | Date;
+}
+
+/**
+ * Error raised when a cart line is malformed
+ */
+export class CartItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CartItemError';
+  }
+}
+
+/**
+ * Error raised when the units a cart line needs cannot be held
+ */
+export class CartHoldError extends Error {
+  readonly free: number;
+
+  constructor(productName: string, free: number) {
+    super(`Only ${free} units of ${productName} are free for the selected dates`);
+    this.name = 'CartHoldError';
+    this.free = free;
+  }
+}
+
+const holdExpiry = (now: Date) => new Date(now.getTime() + CART_HOLD_MINUTES * MINUTE_MS);
+
+const isHeld = (line: any, now: Date) => !!line.holdExpiresAt && new Date(line.holdExpiresAt) > now;
+
+// Validate a line from the browser and settle its rental period
+function parseCartItem(input: CartItemInput) {
+  if (!input?.productId || !mongoose.Types.ObjectId.isValid(input.productId)) {
+    throw new CartItemError('A valid product is required');
+  }
+  const start = input.startDate ? new Date(input.startDate) : undefined;
+  const end = input.endDate ? new Date(input.endDate) : undefined;
+  if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new CartItemError('Rental dates are required');
+  }
+
+  const period = normalizeRentalPeriod(start, end);
+  return {
+    productId: new mongoose.Types.ObjectId(input.productId),
+    quantity: Math.max(1, Math.floor(Number(input.quantity) || 1)),
+    startDate: period.start,
+    endDate: period.end,
+  };
+}
+
+/**
+ * The customer's cart, created empty on first use
+ */
+export async function getCart(customerId: string) {
+  return Cart.findOneAndUpdate(
+    { customerId },
+    { $setOnInsert: { customerId, items: [] } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+}
+
+// Hold one line's units, keeping the hold only if the product is not oversold with it in place
+async function holdLine(cart: any, line: any, now: Date): Promise<{ held: boolean; free: number }> {
+  line.holdExpiresAt = holdExpiry(now);
+  await cart.save();
+
+  const availability = await getAvailability(line.productId.toString(), line.startDate, line.endDate, line.quantity);
+  if (availability.booked <= availability.owned) {
+    return { held: true, free: availability.free };
+  }
+
+  line.holdExpiresAt = undefined;
+  await cart.save();
+  return { held: false, free: Math.max(0, availability.owned - (availability.booked - line.quantity)) };
+}
+
+// Refuse a line its product's rental constraints do not allow
+async function checkLineConstraints(item: { productId: any; startDate: Date; endDate: Date }, now: Date) {
+  const product: any = await Product.findById(item.productId).select('name rentalConstraints').lean();
+  const violation = checkRentalConstraints(product?.rentalConstraints, item.startDate, item.endDate, now, product?.name);
+  if (violation) {
+    throw new CartItemError(violation.message);
+  }
+}
+
+async function productName(productId: any) {
+  const product: any = await Product.findById(productId).select('name').lean();
+  return product?.name || 'this product';
+}
+
+/**
+ * Add a line to the cart and hold its units. A line for the same product and
+ * dates is topped up instead of duplicated.
+ */
+export async function addCartItem(cart: any, input: CartItemInput, now: Date = new Date()) {
+  const item = parseCartItem(input);
+  await checkLineConstraints(item, now);
+  const existing = cart.items.find(
+    (line: any) =>
+      line.productId.equals(item.productId) &&
+      line.startDate.getTime() === item.startDate.getTime() &&
+      line.endDate.getTime() === item.endDate.getTime()
+  );
+
+  let line = existing;
+  const previous = existing && { quantity: existing.quantity, holdExpiresAt: existing.holdExpiresAt };
+  if (existing) {
+    existing.quantity += item.quantity;
+  } else {
+    cart.items.push({ ...item, addedAt: now });
+    line = cart.items[cart.items.length - 1];
+  }
+
+  const { held, free } = await holdLine(cart, line, now);
+  if (!held) {
+    if (existing) {
+      // Units held before the top-up stay held
+      Object.assign(existing, previous);
+    } else {
+      cart.items.pull(line._id);
+    }
+    await cart.save();
+    throw new CartHoldError(await productName(item.productId), free);
+  }
+
+  logger.booking('CART_HOLD', cart._id.toString(), {
+    productId: item.productId.toString(),
+    quantity: line.quantity,
+    holdExpiresAt: line.holdExpiresAt,
+  });
+  return line;
+}
+
+/**
+ * Change a line's quantity or dates, holding the new units before the old ones are let go
+ */
+export async function updateCartItem(
+  cart: any,
+  lineId: string,
+  changes: Partial<CartItemInput>,
+  now: Date = new Date()
+) {
+  const line = cart.items.id(lineId);
+  if (!line) {
+    throw new CartItemError('Cart line not found');
+  }
+
+  const previous = {
+    quantity: line.quantity,
+    startDate: line.startDate,
+    endDate: line.endDate,
+    holdExpiresAt: line.holdExpiresAt,
+  };
+  const item = parseCartItem({
+    productId: line.productId.toString(),
+    quantity: changes.quantity ?? line.quantity,
+    startDate: changes.startDate ?? line.startDate,
+    endDate: changes.endDate ?? line.endDate,
+  });
+  await checkLineConstraints(item, now);
+  line.quantity = item.quantity;
+  line.startDate = item.startDate;
+  line.endDate = item.endDate;
+
+  const { held, free } = await holdLine(cart, line, now);
+  if (!held) {
+    Object.assign(line, previous);
+    await cart.save();
+    throw new CartHoldError(await productName(line.productId), free);
+  }
+  return line;
+}
+
+/**
+ * Set when the customer picks up and returns a business's cart lines: lines starting
+ * on the first day of its rental start at the pickup, and lines ending on the last
+ * day end at the return. Each line is held again for its new times.
+ */
+export async function setCartHandovers(
+  cart: any,
+  endUserId: string,
+  pickupAt: Date,
+  returnAt: Date,
+  now: Date = new Date()
+) {
+  if (isNaN(pickupAt.getTime()) || isNaN(returnAt.getTime())) {
+    throw new CartItemError('Pickup and return times are required');
+  }
+  const products: any[] = await Product.find({ _id: { $in: cart.items.map((line: any) => line.productId) } })
+    .select('endUserId')
+    .lean();
+  const ownedBy = new Set(products.filter((p) => p.endUserId?.toString() === endUserId).map((p) => p._id.toString()));
+  const lines = cart.items.filter((line: any) => ownedBy.has(line.productId.toString()));
+  if (lines.length === 0) {
+    throw new CartItemError('Your cart has no rentals from this business');
+  }
+
+  const pickupDay = lines.map((line: any) => istDate(line.startDate)).sort()[0];
+  const returnDay = lines.map((line: any) => istDate(line.endDate)).sort().pop();
+  if (istDate(pickupAt) !== pickupDay || istDate(returnAt) !== returnDay) {
+    throw new CartItemError('Pick up on the day the rental starts and return on the day it ends');
+  }
+  const problem = await checkHandoverSlot(endUserId, pickupAt, 'pickup') || await checkHandoverSlot(endUserId, returnAt, 'return');
+  if (problem) {
+    throw new CartItemError(problem);
+  }
+
+  for (const line of lines) {
+    await updateCartItem(cart, line._id.toString(), {
+      startDate: istDate(line.startDate) === pickupDay ? pickupAt : line.startDate,
+      endDate: istDate(line.endDate) === returnDay ? returnAt : line.endDate,
+    }, now);
+  }
+
+  logger.booking('CART_HANDOVERS', cart._id.toString(), { endUserId, pickupAt, returnAt, lines: lines.length });
+  return lines;
+}
+
+/**
+ * Remove a line, letting its units go straight away
+ */
+export async function removeCartItem(cart: any, lineId: string) {
+  const line = cart.items.id(lineId);
+  if (!line) {
+    throw new CartItemError('Cart line not found');
+  }
+  cart.items.pull(line._id);
+  await cart.save();
+}
+
+/**
+ * Hold every line that lost its hold; lines whose units have gone stay in the cart unheld
+ */
+export async function refreshCartHolds(cart: any, now: Date = new Date()) {
+  for (const line of cart.items) {
+    if (!isHeld(line, now)) {
+      await holdLine(cart, line, now);
+    }
+  }
+  return cart;
+}
+
+/**
+ * Hold every line for a fresh CART_HOLD_MINUTES before payment, failing if any
+ * line's units are no longer free
+ */
+export async function holdCartForCheckout(cart: any, now: Date = new Date()) {
+  if (cart.items.length === 0) {
+    throw new CartItemError('Your cart is empty');
+  }
+
+  for (const line of cart.items) {
+    if (isHeld(line, now)) {
+      // Units are already ours, so the hold can simply be extended
+      line.holdExpiresAt = holdExpiry(now);
+      continue;
+    }
+    const { held, free } = await holdLine(cart, line, now);
+    if (!held) {
+      throw new CartHoldError(await productName(line.productId), free);
+    }
+  }
+  await cart.save();
+  return cart;
+}
+
+/**
+ * Lock the cart while its lines become orders. Returns null when another checkout
+ * holds the lock; a lock left by a crashed request lapses after CHECKOUT_LOCK_MS.
+ */
+export async function claimCartForCheckout(customerId: string, now: Date = new Date()) {
+  return Cart.findOneAndUpdate(
+    {
+      customerId,
+      $or: [{ checkoutLockedUntil: { $exists: false } }, { checkoutLockedUntil: null }, { checkoutLockedUntil: { $lte: now } }],
+    },
+    { $set: { checkoutLockedUntil: new Date(now.getTime() + CHECKOUT_LOCK_MS) } },
+    { new: true }
+  );
+}
+
+export async function releaseCartCheckout(cartId: any) {
+  await Cart.updateOne({ _id: cartId }, { $unset: { checkoutLockedUntil: '' } });
+}
+
+/**
+ * Move lines kept in localStorage before sign-in into the server cart. Lines whose
+ * units are no longer free are skipped and reported back.
+ */
+export async function mergeGuestCart(cart: any, items: GuestCartItem[], now: Date = new Date()) {
+  const merged: string[] = [];
+  const skipped: Array<{ productId: string; reason: string }> = [];
+
+  for (const item of items) {
+    try {
+      await addCartItem(cart, {
+        productId: item.productId,
+        quantity: item.quantity,
+        startDate: item.fromDate,
+        endDate: item.toDate,
+      }, now);
+      merged.push(item.productId);
+    } catch (error) {
+      if (!(error instanceof CartHoldError || error instanceof CartItemError)) throw error;
+      skipped.push({ productId: item.productId, reason: error.message });
+    }
+  }
+
+  logger.info('Guest cart merged', { cartId: cart._id.toString(), merged: merged.length, skipped: skipped.length });
+  return { merged, skipped };
+}
+
+/**
+ * Cart lines in the shape the pricing quote expects
+ */
+export function cartQuoteItems(cart: any): QuoteItemInput[] {
+  return cart.items.map((line: any) => ({
+    productId: line.productId.toString(),
+    quantity: line.quantity,
+    startDate: line.startDate,
+    endDate: line.endDate,
+  }));
+}
+
+/**
+ * Cart lines with product details for the browser
+ */
+export async function toCartLines(cart: any, now: Date = new Date()): Promise<CartLine[]> {
+  const productIds = cart.items.map((line: any) => line.productId);
+  const products: any[] = await Product.find({ _id: { $in: productIds } }).select('name image endUserId').lean();
+  const byId = new Map(products.map((p) => [p._id.toString(), p]));
+
+  return cart.items.map((line: any) => {
+    const product = byId.get(line.productId.toString());
+    return {
+      _id: line._id.toString(),
+      productId: line.productId.toString(),
+      productName: product?.name || 'Product',
+      image: product?.image,
+      endUserId: product?.endUserId?.toString(),
+      quantity: line.quantity,
+      startDate: line.startDate.toISOString(),
+      endDate: line.endDate.toISOString(),
+      holdExpiresAt: line.holdExpiresAt?.toISOString(),
+      held: isHeld(line, now),
+    };
+  });
+}
+
+/**
+ * Release holds that have lapsed. Lapsed holds already stop counting against
+ * availability; this only tidies the carts.
+ */
+export async function releaseExpiredHolds(now: Date = new Date(), productIds?: any[]) {
+  const match: any = { holdExpiresAt: { $lte: now } };
+  const lineFilter: any = { 'line.holdExpiresAt': { $lte: now } };
+  if (productIds) {
+    match.productId = { $in: productIds };
+    lineFilter['line.productId'] = { $in: productIds };
+  }
+
+  const result = await Cart.updateMany(
+    { items: { $elemMatch: match } },
+    { $unset: { 'items.$[line].holdExpiresAt': '' } },
+    { arrayFilters: [lineFilter] }
+  );
+  return result.modifiedCount;
+}
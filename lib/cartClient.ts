@@ -0,0 +1,93 @@
+/**
+ * Cart Client
+ * Browser helpers for the server cart at /api/cart. Carts kept in localStorage
+ * before sign-in are merged into the server cart once a customer signs in.
+ * Safe to import on the client.
+ */
+
+import { CartLine, GuestCartItem } from '@/types';
+
+// localStorage key of the cart built before sign-in
+export const GUEST_CART_KEY = 'cart';
+
+export interface CartResponse {
+  success: boolean;
+  data?: { items: CartLine[]; holdMinutes: number };
+  error?: string;
+  skipped?: Array<{ productId: string; reason: string }>;
+}
+
+// Let the navbar and any open cart view know the cart changed
+const notify = () => {
+  try { window.dispatchEvent(new Event('cartUpdated')); } catch {}
+};
+
+async function send(url: string, method: string, body?: unknown): Promise<CartResponse> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json: CartResponse = await res.json();
+  if (json.success && method !== 'GET') notify();
+  return json;
+}
+
+export const fetchCart = () => send('/api/cart', 'GET');
+
+/**
+ * Add a rental line to the cart, holding its units
+ */
+export const addToCart = (item: { productId: string; quantity: number; startDate: string; endDate: string }) =>
+  send('/api/cart', 'POST', item);
+
+export const updateCartLine = (lineId: string, changes: { quantity?: number; startDate?: string; endDate?: string }) =>
+  send(`/api/cart/${lineId}`, 'PATCH', changes);
+
+/**
+ * Move one business's cart lines to the pickup and return slots the customer picked
+ */
+export const setCartHandovers = (endUserId: string, pickupAt: string, returnAt: string) =>
+  send('/api/cart/handovers', 'PUT', { endUserId, pickupAt, returnAt });
+
+export const removeCartLine = (lineId: string) => send(`/api/cart/${lineId}`, 'DELETE');
+
+/**
+ * Units across every cart line, for the navbar badge
+ */
+export const countCartUnits = (items: Array<{ quantity?: number }>) =>
+  items.reduce((sum, item) => {
+    const qty = Number(item?.quantity);
+    return sum + (Number.isFinite(qty) && qty > 0 ? qty : 0);
+  }, 0);
+
+export function readGuestCart(): GuestCartItem[] {
+  try {
+    const cart = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(cart) ? cart : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move a localStorage cart into the signed-in customer's server cart. The local
+ * copy is dropped once the server has it, even if some lines could not be held.
+ */
+export async function mergeGuestCart(): Promise<CartResponse | null> {
+  const items = readGuestCart();
+  if (items.length === 0) return null;
+
+  const json = await send('/api/cart/merge', 'POST', {
+    items: items.map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      fromDate: item.fromDate,
+      toDate: item.toDate,
+    })),
+  });
+  if (json.success) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  }
+  return json;
+}
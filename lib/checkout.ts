@@ -0,0 +1,371 @@
+/**
+ * Checkout
+ * Turns a customer's held cart lines into rental orders, one multi-line order per
+ * rental business, each with its invoice, redeeming the coupon on the order of the
+ * business that runs it. Either every order is created and the lines leave the
+ * cart, or nothing is: a replica set runs it all in one transaction, and a
+ * standalone server deletes the orders already created when a later one fails.
+ */
+
+import mongoose from 'mongoose';
+import RentalOrder from '@/models/RentalOrder';
+import Product from '@/models/Product';
+import Payment from '@/models/Payment';
+import Cart from '@/models/Cart';
+import Transfer from '@/models/Transfer';
+import StockMovement from '@/models/StockMovement';
+import BusinessSettings from '@/models/BusinessSettings';
+import { supportsTransactions } from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { getAvailability } from '@/lib/availability';
+import { buildQuote, QuoteLine } from '@/lib/quote';
+import { RentalConstraintError, checkRentalConstraints } from '@/lib/rentalConstraints';
+import { cartQuoteItems, holdCartForCheckout } from '@/lib/cart';
+import { syncOrderPaymentStatus } from '@/lib/payments';
+import { getRazorpay, isCustomerReceipt } from '@/lib/razorpay';
+import { issueInvoice } from '@/lib/invoices';
+import { claimCouponUse, recordCouponRedemption, releaseCouponUse } from '@/lib/coupons';
+import { LateFeeTerms } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CheckoutOptions {
+  // The account email picks the customer's price list; the other fields are contact details for the order
+  customer: { id: string; accountEmail?: string; name?: string; email?: string; phone?: string };
+  deliveryAddress?: any;
+  couponCode?: string;
+  deliveryMethod?: string;
+  razorpayOrderId?: string; // Checked against the quote; orders stay unpaid until the payment ledger says otherwise
+}
+
+export interface CreatedOrder {
+  id: string;
+  orderNumber: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  items: number;
+  totalPrice: number;
+}
+
+/**
+ * Error raised when a cart line's units are no longer free
+ */
+export class CheckoutConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckoutConflictError';
+  }
+}
+
+/**
+ * Error raised when the Razorpay order sent with a checkout is not one the
+ * customer created for this cart
+ */
+export class PaymentVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentVerificationError';
+  }
+}
+
+// Throw unless the Razorpay order was created for this customer, for the quoted amount,
+// and has not already paid for other rental orders
+async function verifyRazorpayOrder(razorpayOrderId: string, customerId: string, amountPayable: number) {
+  let razorpayOrder;
+  try {
+    razorpayOrder = await getRazorpay().orders.fetch(razorpayOrderId);
+  } catch (error) {
+    const message = (error as any)?.error?.description || (error as Error).message;
+    logger.warn('Razorpay order lookup failed', { razorpayOrderId, error: message });
+    throw new PaymentVerificationError('The payment for this checkout could not be found');
+  }
+
+  if (!isCustomerReceipt(razorpayOrder.receipt, customerId) || razorpayOrder.notes?.customerId !== customerId) {
+    throw new PaymentVerificationError('The payment for this checkout belongs to another customer');
+  }
+  if (Number(razorpayOrder.amount) !== Math.round(amountPayable * 100)) {
+    throw new PaymentVerificationError('The payment amount does not match the order total; please pay again');
+  }
+  if (await RentalOrder.exists({ razorpayOrderId })) {
+    throw new PaymentVerificationError('This payment has already been used for another checkout');
+  }
+  if (await Payment.exists({ razorpayOrderId, event: 'refund.created' })) {
+    throw new PaymentVerificationError('This payment has been refunded; please pay again');
+  }
+}
+
+/**
+ * Refund what a customer paid for a checkout that created no orders. Razorpay has
+ * captured the payment before the orders are placed, so a checkout that fails
+ * afterwards (units taken meanwhile, a lapsed hold, a lead-time rule) hands the
+ * money back. Returns the amount refunded; failures are logged for the business to
+ * refund by hand.
+ */
+export async function refundUnplacedCheckout(razorpayOrderId: string, customerId: string, reason: string): Promise<number> {
+  try {
+    // Only the customer's own Razorpay order, and only while no rental order was paid with it
+    const razorpayOrder = await getRazorpay().orders.fetch(razorpayOrderId);
+    if (!isCustomerReceipt(razorpayOrder.receipt, customerId) || razorpayOrder.notes?.customerId !== customerId) return 0;
+    if (await RentalOrder.exists({ razorpayOrderId })) return 0;
+
+    const { items } = await getRazorpay().orders.fetchPayments(razorpayOrderId);
+    let refunded = 0;
+    for (const payment of items) {
+      const remaining = Number(payment.amount) - Number(payment.amount_refunded || 0);
+      if (payment.status !== 'captured' || remaining <= 0) continue;
+
+      const issued = await getRazorpay().payments.refund(payment.id, {
+        amount: remaining,
+        notes: { razorpayOrder: razorpayOrderId, reason },
+      });
+      const amount = remaining / 100;
+      await Payment.create({
+        eventId: `refund.created:${issued.id}`,
+        event: 'refund.created',
+        razorpayOrderId,
+        razorpayPaymentId: payment.id,
+        razorpayRefundId: issued.id,
+        rentalOrderIds: [],
+        amount,
+        currency: issued.currency || 'INR',
+        status: issued.status,
+        payload: issued,
+        receivedAt: new Date(),
+      });
+      refunded += amount;
+    }
+
+    if (refunded > 0) {
+      logger.warn('Unplaced checkout refunded', { razorpayOrderId, amount: refunded, reason });
+    }
+    return refunded;
+  } catch (error) {
+    const message = (error as any)?.error?.description || (error as Error).message;
+    logger.error('Unplaced checkout could not be refunded', { razorpayOrderId, reason, error: message });
+    return 0;
+  }
+}
+
+// Rentals must start in the future; a start that has passed moves to tomorrow
+function checkoutPeriod(startDate: Date, endDate: Date, now: Date) {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (start < now) {
+    start.setTime(now.getTime() + DAY_MS);
+  }
+  if (end <= start) {
+    end.setTime(start.getTime() + DAY_MS);
+  }
+  return { start, end };
+}
+
+// Create the orders, their invoices and the coupon redemption and empty the converted
+// cart lines as one unit of work
+async function persistOrders(orderDocs: any[], cartId: any, lineIds: any[], couponId?: string) {
+  const pullLines = { $pull: { items: { _id: { $in: lineIds } } } };
+
+  if (await supportsTransactions()) {
+    const session = await mongoose.startSession();
+    try {
+      let created: any[] = [];
+      let invoices: any[] = [];
+      await session.withTransaction(async () => {
+        created = await RentalOrder.create(orderDocs, { session, ordered: true });
+        invoices = [];
+        for (const order of created) {
+          invoices.push(await issueInvoice(order, session));
+        }
+        if (couponId) {
+          await claimCouponUse(couponId, session);
+          await recordCouponRedemption(created.find((order) => order.couponId), session);
+        }
+        await Cart.updateOne({ _id: cartId }, pullLines, { session });
+      });
+      return { created, invoices };
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  // The coupon's use is taken first so its usage limit cannot be overrun, and given back on rollback
+  if (couponId) {
+    await claimCouponUse(couponId);
+  }
+  const created: any[] = [];
+  try {
+    for (const doc of orderDocs) {
+      const [order] = await RentalOrder.create([doc]);
+      created.push(order);
+    }
+  } catch (error) {
+    // Roll back the orders that did get created with their transfers and stock entries; their numbers are not reused
+    if (created.length > 0) {
+      const orderIds = created.map((order) => order._id);
+      await RentalOrder.deleteMany({ _id: { $in: orderIds } });
+      await Transfer.deleteMany({ rentalOrderId: { $in: orderIds } });
+      await StockMovement.deleteMany({ rentalOrderId: { $in: orderIds } });
+      logger.warn('Checkout rolled back', { orders: created.map((order) => order.orderNumber) });
+    }
+    if (couponId) {
+      await releaseCouponUse(couponId);
+    }
+    throw error;
+  }
+  await Cart.updateOne({ _id: cartId }, pullLines);
+
+  if (couponId) {
+    const order = created.find((o) => o.couponId);
+    try {
+      await recordCouponRedemption(order);
+    } catch (error) {
+      logger.error('Coupon redemption could not be recorded', { orderNumber: order.orderNumber, error: (error as Error)?.message });
+    }
+  }
+
+  // Issued once every order exists so a rollback never discards an invoice number;
+  // the business can issue one an order was left without from the order
+  const invoices: any[] = [];
+  for (const order of created) {
+    try {
+      invoices.push(await issueInvoice(order));
+    } catch (error) {
+      logger.error('Invoice could not be issued', { orderNumber: order.orderNumber, error: (error as Error)?.message });
+    }
+  }
+  return { created, invoices };
+}
+
+/**
+ * Create rental orders from every line of the cart
+ */
+export async function completeCheckout(cart: any, options: CheckoutOptions) {
+  await holdCartForCheckout(cart);
+
+  const now = new Date();
+  const items = cartQuoteItems(cart).map((item) => {
+    const { start, end } = checkoutPeriod(item.startDate as Date, item.endDate as Date, now);
+    return { ...item, startDate: start, endDate: end };
+  });
+
+  // Prices always come from the server quote, never from the request body
+  const quote = await buildQuote(items, {
+    couponCode: options.couponCode,
+    deliveryMethod: options.deliveryMethod,
+    deliveryState: options.deliveryAddress?.state,
+    customerId: options.customer.id,
+    customerEmail: options.customer.accountEmail,
+  });
+
+  const razorpayOrderId = options.razorpayOrderId;
+  if (razorpayOrderId) {
+    await verifyRazorpayOrder(razorpayOrderId, options.customer.id, quote.totals.amountPayable);
+  }
+
+  // Order lines grouped by the rental business that owns each product
+  const linesByEndUser = new Map<string, QuoteLine[]>();
+  // Late fee terms captured per product so later policy edits do not change this order
+  const lateFeeTerms = new Map<string, LateFeeTerms>();
+
+  for (const line of quote.lines) {
+    // Units are only held for the rental window, not consumed; the cart's own holds are set aside
+    const availability = await getAvailability(line.productId, line.startDate, line.endDate, line.quantity, {
+      excludeCartId: cart._id.toString(),
+    });
+    if (!availability.available) {
+      throw new CheckoutConflictError(
+        `Only ${availability.free} of ${availability.owned} units of ${line.productName} are free for the selected dates`
+      );
+    }
+
+    const product: any = await Product.findById(line.productId).lean();
+    const violation = checkRentalConstraints(product?.rentalConstraints, line.startDate, line.endDate, now, line.productName);
+    if (violation) {
+      throw new RentalConstraintError(violation);
+    }
+    if (!lateFeeTerms.has(line.productId)) {
+      lateFeeTerms.set(line.productId, await BusinessSettings.getLateFeeTerms(product));
+    }
+
+    const lines = linesByEndUser.get(line.endUserId) || [];
+    lines.push(line);
+    linesByEndUser.set(line.endUserId, lines);
+  }
+
+  const { totals } = quote;
+  const deliveryAddress = options.deliveryAddress || {};
+  const phone = (options.customer.phone || deliveryAddress.phone || '').trim();
+
+  const orderDocs = Array.from(linesByEndUser.entries()).map(([endUserId, lines]) => {
+    // The quote has already split the discount and delivery charge and taxed each business
+    const supply = quote.supplies.find((s) => s.endUserId === endUserId)!;
+    const coupon = quote.coupon?.endUserId === endUserId ? quote.coupon : undefined;
+    return {
+      items: lines.map((l) => ({
+        productId: l.productId,
+        productName: l.productName,
+        quantity: l.quantity,
+        startDate: l.startDate,
+        endDate: l.endDate,
+        durationUnit: l.durationUnit,
+        unitPrice: l.unitPrice,
+        priceBreakdown: l.breakdown,
+        priceAdjustments: l.adjustments,
+        lateFeeTerms: lateFeeTerms.get(l.productId),
+        depositAmount: l.deposit,
+        hsnSacCode: l.hsnSacCode,
+        gstRate: l.gstRate,
+      })),
+      customerId: new mongoose.Types.ObjectId(options.customer.id),
+      endUserId: new mongoose.Types.ObjectId(endUserId),
+      customerName: options.customer.name,
+      customerEmail: options.customer.email,
+      customerPhone: phone || undefined,
+      discountAmount: supply.discount,
+      couponId: coupon ? new mongoose.Types.ObjectId(coupon.couponId) : undefined,
+      couponCode: coupon?.code,
+      priceListId: lines[0].priceList?._id ? new mongoose.Types.ObjectId(lines[0].priceList._id) : undefined,
+      priceListName: lines[0].priceList?.name,
+      deliveryCharge: supply.deliveryCharge,
+      taxAmount: supply.gst.total,
+      taxBreakdown: supply.gst,
+      status: 'confirmed',
+      // Orders are paid, and their deposits collected, once the payment ledger shows the money captured
+      paymentStatus: 'pending',
+      razorpayOrderId,
+      depositLedger: [],
+      deliveryAddress: JSON.stringify(deliveryAddress),
+    };
+  });
+
+  const { created, invoices } = await persistOrders(
+    orderDocs,
+    cart._id,
+    cart.items.map((line: any) => line._id),
+    quote.coupon?.couponId
+  );
+
+  // Apply webhook events that arrived before the orders existed
+  if (razorpayOrderId) {
+    await syncOrderPaymentStatus(razorpayOrderId);
+  }
+
+  const orders: CreatedOrder[] = created.map((order) => {
+    const invoice = invoices.find((i) => i.rentalOrderId.toString() === order._id.toString());
+    return {
+      id: order._id.toString(),
+      orderNumber: order.orderNumber,
+      invoiceId: invoice?._id.toString(),
+      invoiceNumber: invoice?.invoiceNumber,
+      items: order.items.length,
+      totalPrice: order.totalPrice,
+    };
+  });
+
+  logger.booking('CHECKOUT_COMPLETED', cart._id.toString(), {
+    orders: orders.map((order) => order.orderNumber),
+    total: totals.total,
+    razorpayOrderId,
+  });
+
+  return { orders, totals };
+}
@@ -0,0 +1,255 @@
+/**
+ * Coupons
+ * Checks a coupon code against the cart being priced and works out what it takes
+ * off. A coupon only discounts the lines of the business that runs it, within its
+ * product and category scope and minimum rental length. Each use is recorded with
+ * the order it discounted and counted against the coupon's limits.
+ */
+
+import mongoose from 'mongoose';
+import Coupon from '@/models/Coupon';
+import CouponRedemption from '@/models/CouponRedemption';
+import RentalOrder from '@/models/RentalOrder';
+import { logger } from '@/lib/logger';
+import { PricingError, allocateAmount, roundAmount } from '@/lib/pricing';
+import { CouponDiscountType, CouponRejectionReason, CouponSummary } from '@/types';
+
+// What a coupon needs to know about a priced cart line
+export interface CouponLine {
+  productId: string;
+  category?: string;
+  endUserId: string;
+  hours: number;
+  lineTotal: number;
+}
+
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  endUserId: string;
+  discountType: CouponDiscountType;
+  value: number;
+  discount: number;
+  lineDiscounts: number[]; // Per cart line, in cart order; zero for lines the coupon does not cover
+}
+
+/**
+ * Error raised when a coupon code cannot be applied, with the reason the customer is shown
+ */
+export class CouponError extends PricingError {
+  reason: CouponRejectionReason;
+
+  constructor(reason: CouponRejectionReason, message: string) {
+    super(message);
+    this.name = 'CouponError';
+    this.reason = reason;
+  }
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// "3 days" or "5 hours", for the minimum rental length message
+function formatHours(hours: number) {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+/**
+ * Normalise a code as typed by a customer or a business
+ */
+export function normalizeCouponCode(code: string | undefined | null): string {
+  return (code || '').trim().toUpperCase();
+}
+
+// Blank optional numbers and dates clear the field
+const optionalNumber = (value: any) => (value === null || value === '' ? null : Number(value));
+const optionalDate = (value: any) => (value ? new Date(value) : null);
+
+/**
+ * Coupon fields from a create or update request; fields left out of the body are
+ * left out of the result so updates only touch what was sent
+ */
+export function normalizeCouponInput(body: any): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (!body || typeof body !== 'object') return fields;
+
+  if (body.code !== undefined) fields.code = normalizeCouponCode(body.code);
+  if (body.description !== undefined) fields.description = typeof body.description === 'string' ? body.description : undefined;
+  if (body.discountType !== undefined) fields.discountType = body.discountType;
+  if (body.value !== undefined) fields.value = Number(body.value);
+  if (body.maxDiscount !== undefined) fields.maxDiscount = optionalNumber(body.maxDiscount);
+  if (body.minRentalHours !== undefined) fields.minRentalHours = Number(body.minRentalHours) || 0;
+  if (Array.isArray(body.productIds)) {
+    fields.productIds = body.productIds.filter((id: any) => mongoose.Types.ObjectId.isValid(id));
+  }
+  if (Array.isArray(body.categories)) {
+    fields.categories = body.categories.filter((category: any) => typeof category === 'string' && category.trim());
+  }
+  if (body.firstOrderOnly !== undefined) fields.firstOrderOnly = !!body.firstOrderOnly;
+  if (body.usageLimit !== undefined) fields.usageLimit = optionalNumber(body.usageLimit);
+  if (body.perCustomerLimit !== undefined) fields.perCustomerLimit = optionalNumber(body.perCustomerLimit);
+  if (body.startsAt !== undefined) fields.startsAt = optionalDate(body.startsAt);
+  if (body.endsAt !== undefined) fields.endsAt = optionalDate(body.endsAt);
+  if (body.active !== undefined) fields.active = !!body.active;
+  return fields;
+}
+
+/**
+ * Check a coupon against the cart and work out its discount. Limits that depend on
+ * the customer need a signed-in customer.
+ */
+export async function applyCoupon(
+  code: string,
+  lines: CouponLine[],
+  customerId?: string,
+  now: Date = new Date()
+): Promise<AppliedCoupon> {
+  const normalized = normalizeCouponCode(code);
+  const coupon: any = normalized ? await Coupon.findOne({ code: normalized }).lean() : null;
+  if (!coupon) {
+    throw new CouponError('not_found', `Coupon ${normalized || code} does not exist`);
+  }
+  if (!coupon.active) {
+    throw new CouponError('inactive', `Coupon ${coupon.code} is no longer active`);
+  }
+  if (coupon.startsAt && now < new Date(coupon.startsAt)) {
+    throw new CouponError('not_started', `Coupon ${coupon.code} can be used from ${formatDate(new Date(coupon.startsAt))}`);
+  }
+  if (coupon.endsAt && now > new Date(coupon.endsAt)) {
+    throw new CouponError('expired', `Coupon ${coupon.code} expired on ${formatDate(new Date(coupon.endsAt))}`);
+  }
+  if (coupon.usageLimit && coupon.redemptionCount >= coupon.usageLimit) {
+    throw new CouponError('usage_limit', `Coupon ${coupon.code} has been fully redeemed`);
+  }
+
+  const endUserId = coupon.endUserId.toString();
+  const productIds = (coupon.productIds || []).map((id: any) => id.toString());
+  const categories: string[] = coupon.categories || [];
+  const inScope = lines.map((line) =>
+    line.endUserId === endUserId &&
+    (productIds.length === 0 || productIds.includes(line.productId)) &&
+    (categories.length === 0 || (!!line.category && categories.includes(line.category)))
+  );
+  if (!inScope.some(Boolean)) {
+    throw new CouponError('not_applicable', `Coupon ${coupon.code} does not apply to any item in your cart`);
+  }
+
+  const eligible = inScope.map((scoped, i) => scoped && lines[i].hours >= (coupon.minRentalHours || 0));
+  if (!eligible.some(Boolean)) {
+    throw new CouponError('min_duration', `Coupon ${coupon.code} needs a rental of at least ${formatHours(coupon.minRentalHours)}`);
+  }
+
+  if (coupon.firstOrderOnly || coupon.perCustomerLimit) {
+    if (!customerId || !mongoose.Types.ObjectId.isValid(customerId)) {
+      throw new CouponError('sign_in', `Sign in to use coupon ${coupon.code}`);
+    }
+    if (coupon.firstOrderOnly) {
+      const ordered = await RentalOrder.exists({ customerId, endUserId, status: { $ne: 'cancelled' } });
+      if (ordered) {
+        throw new CouponError('first_order', `Coupon ${coupon.code} is only for your first order with this business`);
+      }
+    }
+    if (coupon.perCustomerLimit) {
+      const used = await CouponRedemption.countDocuments({ couponId: coupon._id, customerId });
+      if (used >= coupon.perCustomerLimit) {
+        throw new CouponError('customer_limit', `You have already used coupon ${coupon.code} the maximum number of times`);
+      }
+    }
+  }
+
+  const weights = lines.map((line, i) => (eligible[i] ? line.lineTotal : 0));
+  const eligibleTotal = roundAmount(weights.reduce((sum, weight) => sum + weight, 0));
+  let discount = coupon.discountType === 'percent'
+    ? roundAmount((eligibleTotal * coupon.value) / 100)
+    : Math.min(coupon.value, eligibleTotal);
+  if (coupon.discountType === 'percent' && coupon.maxDiscount) {
+    discount = Math.min(discount, coupon.maxDiscount);
+  }
+  discount = roundAmount(discount);
+
+  return {
+    couponId: coupon._id.toString(),
+    code: coupon.code,
+    endUserId,
+    discountType: coupon.discountType,
+    value: coupon.value,
+    discount,
+    lineDiscounts: allocateAmount(discount, weights),
+  };
+}
+
+/**
+ * Take one use of a coupon, failing when its overall limit has been reached in the
+ * meantime. Inside a transaction the use is given back if it aborts.
+ */
+export async function claimCouponUse(couponId: string, session?: mongoose.ClientSession | null) {
+  const claimed = await Coupon.findOneAndUpdate(
+    {
+      _id: couponId,
+      active: true,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$redemptionCount', '$usageLimit'] } }],
+    },
+    { $inc: { redemptionCount: 1 } },
+    { new: true, session: session || undefined }
+  );
+  if (!claimed) {
+    throw new CouponError('usage_limit', 'This coupon has just been fully redeemed');
+  }
+  return claimed;
+}
+
+/**
+ * Give back a use taken for a checkout that was rolled back
+ */
+export async function releaseCouponUse(couponId: string) {
+  await Coupon.updateOne({ _id: couponId, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+}
+
+/**
+ * Record the use of the order's coupon
+ */
+export async function recordCouponRedemption(order: any, session?: mongoose.ClientSession | null) {
+  const [redemption] = await CouponRedemption.create(
+    [{
+      couponId: order.couponId,
+      code: order.couponCode,
+      endUserId: order.endUserId,
+      customerId: order.customerId,
+      rentalOrderId: order._id,
+      orderNumber: order.orderNumber,
+      discountAmount: order.discountAmount,
+    }],
+    { session: session || undefined }
+  );
+  logger.info('Coupon redeemed', { code: order.couponCode, orderNumber: order.orderNumber, discount: order.discountAmount });
+  return redemption;
+}
+
+/**
+ * Coupon as listed to the business that runs it
+ */
+export function toCouponSummary(coupon: any): CouponSummary {
+  return {
+    _id: coupon._id.toString(),
+    code: coupon.code,
+    description: coupon.description,
+    discountType: coupon.discountType,
+    value: coupon.value,
+    maxDiscount: coupon.maxDiscount ?? undefined,
+    minRentalHours: coupon.minRentalHours || 0,
+    productIds: (coupon.productIds || []).map((id: any) => id.toString()),
+    categories: coupon.categories || [],
+    firstOrderOnly: !!coupon.firstOrderOnly,
+    usageLimit: coupon.usageLimit ?? undefined,
+    perCustomerLimit: coupon.perCustomerLimit ?? undefined,
+    startsAt: coupon.startsAt ? new Date(coupon.startsAt).toISOString() : undefined,
+    endsAt: coupon.endsAt ? new Date(coupon.endsAt).toISOString() : undefined,
+    active: !!coupon.active,
+    redemptionCount: coupon.redemptionCount || 0,
+    createdAt: new Date(coupon.createdAt).toISOString(),
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Security Deposits
+ * Works out the deposit a rental line needs from its product's deposit rule and
+ * summarises the deposit ledger kept on each order. Safe to import on the client.
+ */
+
+import {
+  DepositDeductionCategory,
+  DepositEntryType,
+  DepositRule,
+  DepositRuleType,
+  DepositStatement,
+  DepositSummary,
+} from '@/types';
+
+export const DEPOSIT_RULE_TYPES: DepositRuleType[] = ['none', 'fixed_per_unit', 'percent_of_rental', 'percent_of_replacement'];
+
+// Human readable labels used by the product screens
+export const DEPOSIT_RULE_LABELS: Record<DepositRuleType, string> = {
+  none: 'No deposit',
+  fixed_per_unit: 'Fixed amount per unit',
+  percent_of_rental: 'Percentage of the rental price',
+  percent_of_replacement: 'Percentage of the replacement value',
+};
+
+export const DEPOSIT_DEDUCTION_LABELS: Record<DepositDeductionCategory, string> = {
+  damage: 'Damage',
+  late_fee: 'Late fees',
+  other: 'Other',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Deposit for one rental line under the product's rule
+ */
+export function calculateLineDeposit(
+  rule: DepositRule | null | undefined,
+  line: { lineTotal: number; quantity: number; replacementValue?: number }
+): number {
+  if (!rule || rule.type === 'none' || !(rule.amount > 0)) return 0;
+
+  const units = Math.max(1, line.quantity);
+  switch (rule.type) {
+    case 'fixed_per_unit':
+      return round(rule.amount * units);
+    case 'percent_of_rental':
+      return round((line.lineTotal * rule.amount) / 100);
+    case 'percent_of_replacement':
+      return round(((line.replacementValue || 0) * rule.amount * units) / 100);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Totals of a deposit ledger against the deposit the order required
+ */
+export function summarizeDeposit(
+  required: number,
+  entries: Array<{ type: DepositEntryType; amount: number }>
+): DepositSummary {
+  const total = (type: DepositEntryType) =>
+    round(entries.filter((entry) => entry.type === type).reduce((sum, entry) => sum + entry.amount, 0));
+
+  const collected = total('collected');
+  const deducted = total('deducted');
+  const refunded = total('refunded');
+
+  return {
+    required: required || 0,
+    collected,
+    deducted,
+    refunded,
+    held: round(Math.max(0, collected - deducted - refunded)),
+  };
+}
+
+/**
+ * One line description of a deposit ledger entry, e.g. "Deducted for damage: scratched lens"
+ */
+export function describeDepositEntry(entry: { type: DepositEntryType; category?: DepositDeductionCategory; reason?: string }): string {
+  let text: string;
+  switch (entry.type) {
+    case 'collected':
+      text = 'Collected at checkout';
+      break;
+    case 'deducted':
+      text = `Deducted for ${DEPOSIT_DEDUCTION_LABELS[entry.category || 'other'].toLowerCase()}`;
+      break;
+    case 'refunded':
+    default:
+      text = 'Refunded';
+      break;
+  }
+  return entry.reason ? `${text}: ${entry.reason}` : text;
+}
+
+/**
+ * Deposit statement for a rental order: what each line required and every ledger movement
+ */
+export function buildDepositStatement(order: any): DepositStatement {
+  const toISO = (value: any) => (value ? new Date(value).toISOString() : undefined);
+  return {
+    orderNumber: order.orderNumber || order._id?.toString(),
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    status: order.status,
+    lines: (order.items || [])
+      .filter((item: any) => item.depositAmount > 0)
+      .map((item: any) => ({ productName: item.productName, quantity: item.quantity, deposit: item.depositAmount })),
+    entries: (order.depositLedger || []).map((entry: any) => ({
+      type: entry.type,
+      amount: entry.amount,
+      category: entry.category,
+      reason: entry.reason,
+      razorpayRefundId: entry.razorpayRefundId,
+      createdAt: toISO(entry.createdAt) as string,
+    })),
+    summary: summarizeDeposit(order.depositAmount || 0, order.depositLedger || []),
+    settledAt: toISO(order.depositSettledAt),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * GST
+ * Works out Goods and Services Tax on rental lines: CGST and SGST when the
+ * business and the delivery address are in the same state, IGST when they are
+ * not. Businesses without a GSTIN charge no GST. Safe to import on the client.
+ */
+
+import { GstBreakdown, GstLine } from '@/types';
+
+// GST slabs a product can be taxed at
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+// Leasing or rental of goods without an operator is SAC 9973, taxed at 18%
+export const DEFAULT_SAC_CODE = '9973';
+export const DEFAULT_GST_RATE = 18;
+
+// States and union territories with their GST state codes
+export const INDIAN_STATES: Array<{ code: string; name: string }> = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const HSN_SAC_PATTERN = /^[0-9]{4,8}$/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const simplify = (value: string) => value.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+/**
+ * Whether a GSTIN is well formed, for a known state and with a valid check digit
+ */
+export function isValidGstin(value: string | undefined | null): boolean {
+  const gstin = (value || '').trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(gstin)) return false;
+  if (!INDIAN_STATES.some((state) => state.code === gstin.slice(0, 2))) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+/**
+ * Whether an HSN or SAC code has the 4 to 8 digits GST invoices use
+ */
+export function isValidHsnSacCode(value: string | undefined | null): boolean {
+  return HSN_SAC_PATTERN.test((value || '').trim());
+}
+
+/**
+ * GST state code for a state code or a state name as typed in an address
+ */
+export function resolveStateCode(value: string | undefined | null): string | undefined {
+  const input = (value || '').trim();
+  if (!input) return undefined;
+  if (/^[0-9]{1,2}$/.test(input)) {
+    const code = input.padStart(2, '0');
+    return INDIAN_STATES.some((state) => state.code === code) ? code : undefined;
+  }
+  const name = simplify(input);
+  return INDIAN_STATES.find((state) => simplify(state.name) === name)?.code;
+}
+
+/**
+ * State name for a GST state code
+ */
+export function stateName(code: string | undefined): string | undefined {
+  return INDIAN_STATES.find((state) => state.code === code)?.name;
+}
+
+/**
+ * GST a business charges on its lines. Supplies to an unknown state are taxed as
+ * intra-state, the place of supply falling back to the business's own state.
+ */
+export function calculateGst(
+  lines: Array<{ hsnSacCode: string; rate: number; taxableAmount: number }>,
+  parties: { supplierGstin?: string; supplierStateCode?: string; placeOfSupply?: string }
+): GstBreakdown {
+  const placeOfSupply = parties.placeOfSupply || parties.supplierStateCode;
+  const interState = !!(parties.supplierStateCode && placeOfSupply && placeOfSupply !== parties.supplierStateCode);
+  const breakdown: GstBreakdown = {
+    supplierGstin: parties.supplierGstin,
+    supplierStateCode: parties.supplierStateCode,
+    placeOfSupply,
+    interState,
+    lines: [],
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    total: 0,
+  };
+  if (!parties.supplierGstin) return breakdown;
+
+  // One tax line per HSN/SAC code and rate, as the invoice summary shows them
+  const grouped = new Map<string, GstLine>();
+  for (const line of lines) {
+    const key = `${line.hsnSacCode}:${line.rate}`;
+    const entry = grouped.get(key) || { hsnSacCode: line.hsnSacCode, rate: line.rate, taxableAmount: 0, cgst: 0, sgst: 0, igst: 0 };
+    entry.taxableAmount = round(entry.taxableAmount + line.taxableAmount);
+    grouped.set(key, entry);
+  }
+
+  for (const entry of Array.from(grouped.values())) {
+    if (interState) {
+      entry.igst = round((entry.taxableAmount * entry.rate) / 100);
+    } else {
+      entry.cgst = round((entry.taxableAmount * entry.rate) / 200);
+      entry.sgst = entry.cgst;
+    }
+    breakdown.lines.push(entry);
+    breakdown.cgst = round(breakdown.cgst + entry.cgst);
+    breakdown.sgst = round(breakdown.sgst + entry.sgst);
+    breakdown.igst = round(breakdown.igst + entry.igst);
+  }
+  breakdown.total = round(breakdown.cgst + breakdown.sgst + breakdown.igst);
+  return breakdown;
+}
+
+/**
+ * Tax lines for an invoice summary, e.g. "CGST 9%", one per rate
+ */
+export function gstTaxLines(breakdown: GstBreakdown | null | undefined): Array<{ name: string; rate: number; amount: number }> {
+  if (!breakdown || !(breakdown.total > 0)) return [];
+
+  const byRate = new Map<number, { cgst: number; sgst: number; igst: number }>();
+  for (const line of breakdown.lines) {
+    const entry = byRate.get(line.rate) || { cgst: 0, sgst: 0, igst: 0 };
+    entry.cgst = round(entry.cgst + line.cgst);
+    entry.sgst = round(entry.sgst + line.sgst);
+    entry.igst = round(entry.igst + line.igst);
+    byRate.set(line.rate, entry);
+  }
+
+  const taxes: Array<{ name: string; rate: number; amount: number }> = [];
+  for (const [rate, entry] of Array.from(byRate.entries()).sort((a, b) => a[0] - b[0])) {
+    if (breakdown.interState) {
+      if (entry.igst > 0) taxes.push({ name: 'IGST', rate, amount: entry.igst });
+    } else if (entry.cgst > 0 || entry.sgst > 0) {
+      taxes.push({ name: 'CGST', rate: rate / 2, amount: entry.cgst });
+      taxes.push({ name: 'SGST', rate: rate / 2, amount: entry.sgst });
+    }
+  }
+  return taxes;
+}
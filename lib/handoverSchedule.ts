@@ -0,0 +1,165 @@
+/**
+ * Handover Schedules
+ * Opening hours, holiday closures and pickup/return slots of a rental business.
+ * Once a business enables its schedule, rentals start at a pickup slot and end at a
+ * return slot inside its opening hours, and each slot takes a limited number of
+ * pickups and returns together. Times are Indian Standard Time. Safe to import on the client.
+ */
+
+import { DAY_NAMES } from '@/lib/pricingRules';
+import { HandoverKind, HandoverSchedule, HolidayClosure, OpeningHours } from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+const IST_OFFSET_MS = 330 * MINUTE_MS;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const SLOT_LENGTHS = [15, 30, 60, 120];
+
+// Most pickups and returns one slot can take
+export const MAX_SLOT_CAPACITY = 1000;
+
+export const DEFAULT_HANDOVER_SCHEDULE: HandoverSchedule = {
+  enabled: false,
+  openingHours: [1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({ dayOfWeek, open: '09:00', close: '18:00' })),
+  holidays: [],
+  slotMinutes: 30,
+  slotCapacity: 4,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTime = (value: any) => typeof value === 'string' && TIME_PATTERN.test(value);
+export const isValidDate = (value: any) => typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+// Minutes after midnight of an "HH:mm" time
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/**
+ * The IST calendar day of a time, e.g. "2026-10-20"
+ */
+export const istDate = (time: Date | string | number) =>
+  new Date(new Date(time).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+// Midnight IST of a calendar day
+const istMidnight = (day: string) => Date.parse(`${day}T00:00:00Z`) - IST_OFFSET_MS;
+
+/**
+ * Clean up a schedule from the settings form: one set of hours per day, closing
+ * after opening, holidays in order
+ */
+export function normalizeHandoverSchedule(input?: Partial<HandoverSchedule> | null): HandoverSchedule {
+  const byDay = new Map<number, OpeningHours>();
+  for (const hours of Array.isArray(input?.openingHours) ? input!.openingHours : []) {
+    const dayOfWeek = Number(hours?.dayOfWeek);
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) continue;
+    if (!isValidTime(hours.open) || !isValidTime(hours.close) || minutesOf(hours.close) <= minutesOf(hours.open)) continue;
+    byDay.set(dayOfWeek, { dayOfWeek, open: hours.open, close: hours.close });
+  }
+
+  const holidays: HolidayClosure[] = (Array.isArray(input?.holidays) ? input!.holidays : [])
+    .filter((holiday) => isValidDate(holiday?.startDate))
+    .map((holiday) => {
+      const endDate = isValidDate(holiday.endDate) && holiday.endDate >= holiday.startDate ? holiday.endDate : holiday.startDate;
+      const name = typeof holiday.name === 'string' ? holiday.name.trim() : '';
+      return { startDate: holiday.startDate, endDate, ...(name ? { name } : {}) };
+    })
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const slotMinutes = Number(input?.slotMinutes);
+  return {
+    enabled: !!input?.enabled,
+    openingHours: Array.from(byDay.values()).sort((a, b) => a.dayOfWeek - b.dayOfWeek),
+    holidays,
+    slotMinutes: SLOT_LENGTHS.includes(slotMinutes) ? slotMinutes : DEFAULT_HANDOVER_SCHEDULE.slotMinutes,
+    slotCapacity: Math.min(MAX_SLOT_CAPACITY, Math.max(0, Math.floor(Number(input?.slotCapacity) || 0))),
+  };
+}
+
+/**
+ * The closure covering a calendar day, if any
+ */
+export function holidayOn(schedule: HandoverSchedule, day: string): HolidayClosure | undefined {
+  return schedule.holidays.find((holiday) => holiday.startDate <= day && day <= holiday.endDate);
+}
+
+/**
+ * Opening hours of a calendar day; undefined when the business is closed that day
+ */
+export function openingHoursOn(schedule: HandoverSchedule, day: string): OpeningHours | undefined {
+  if (holidayOn(schedule, day)) return undefined;
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return schedule.openingHours.find((hours) => hours.dayOfWeek === weekday);
+}
+
+/**
+ * Every slot of a calendar day, from opening until the last one that ends by closing
+ */
+export function slotsOn(schedule: HandoverSchedule, day: string): Array<{ start: Date; end: Date }> {
+  const hours = openingHoursOn(schedule, day);
+  if (!hours) return [];
+
+  const midnight = istMidnight(day);
+  const slots = [];
+  for (let minute = minutesOf(hours.open); minute + schedule.slotMinutes <= minutesOf(hours.close); minute += schedule.slotMinutes) {
+    slots.push({
+      start: new Date(midnight + minute * MINUTE_MS),
+      end: new Date(midnight + (minute + schedule.slotMinutes) * MINUTE_MS),
+    });
+  }
+  return slots;
+}
+
+/**
+ * The slot a handover at `time` falls in; undefined outside opening hours
+ */
+export function slotAt(schedule: HandoverSchedule, time: Date): { start: Date; end: Date } | undefined {
+  const at = new Date(time).getTime();
+  return slotsOn(schedule, istDate(at)).find((slot) => slot.start.getTime() <= at && at < slot.end.getTime());
+}
+
+/**
+ * "HH:mm" IST of a time, for slot labels
+ */
+export const formatSlotTime = (time: Date | string) => new Date(new Date(time).getTime() + IST_OFFSET_MS).toISOString().slice(11, 16);
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Why a pickup or return cannot happen at `time` under the schedule; null when it can,
+ * before slot capacity is counted
+ */
+export function checkHandoverTime(schedule: HandoverSchedule | null | undefined, time: Date, kind: HandoverKind): string | null {
+  if (!schedule?.enabled) return null;
+  const label = kind === 'pickup' ? 'Pickups' : 'Returns';
+  const day = istDate(time);
+
+  const holiday = holidayOn(schedule, day);
+  if (holiday) {
+    return `${label} are not possible on ${formatDay(day)}: the business is closed${holiday.name ? ` for ${holiday.name}` : ''}`;
+  }
+  const hours = openingHoursOn(schedule, day);
+  if (!hours) {
+    return `${label} are not possible on ${WEEKDAY_NAMES[new Date(`${day}T00:00:00Z`).getUTCDay()]}s: the business is closed`;
+  }
+  if (!slotAt(schedule, time)) {
+    return `${label} on ${formatDay(day)} are only possible between ${hours.open} and ${hours.close}`;
+  }
+  return null;
+}
+
+/**
+ * Message for a slot that has no room left
+ */
+export function slotFullMessage(slotStart: Date, kind: HandoverKind): string {
+  return `The ${formatSlotTime(slotStart)} ${kind} slot on ${formatDay(istDate(slotStart))} is fully booked`;
+}
+
+/**
+ * One line per open day, e.g. "Mon 09:00–18:00", for customers
+ */
+export function describeOpeningHours(schedule: HandoverSchedule): string[] {
+  return schedule.openingHours.map((hours) => `${DAY_NAMES[hours.dayOfWeek]} ${hours.open}–${hours.close}`);
+}
@@ -0,0 +1,62 @@
+/**
+ * Handover Slots
+ * The pickup and return slots a business offers on a day, with the room each has
+ * left after the pickups and returns of its active orders. Order validation checks
+ * the same schedule and capacity when an order is placed.
+ */
+
+import RentalOrder from '@/models/RentalOrder';
+import BusinessSettings from '@/models/BusinessSettings';
+import { checkHandoverTime, holidayOn, slotAt, slotFullMessage, slotsOn } from '@/lib/handoverSchedule';
+import { HandoverKind, HandoverSchedule, HandoverSlot } from '@/types';
+
+export interface DaySlots {
+  schedule: HandoverSchedule;
+  closedFor?: string; // Name of the holiday closing the day
+  slots: HandoverSlot[];
+}
+
+/**
+ * A business's slots on an IST calendar day ("YYYY-MM-DD"); none when its schedule
+ * is not enabled, since it then hands over at any time
+ */
+export async function getHandoverSlots(endUserId: string, day: string): Promise<DaySlots> {
+  const schedule = await BusinessSettings.getHandoverSchedule(endUserId);
+  const holiday = schedule.enabled ? holidayOn(schedule, day) : undefined;
+  const windows = schedule.enabled ? slotsOn(schedule, day) : [];
+  if (windows.length === 0) {
+    return { schedule, closedFor: holiday ? holiday.name || 'Holiday' : undefined, slots: [] };
+  }
+
+  const taken: Array<{ at: Date }> = await (RentalOrder as any).findHandovers(
+    endUserId,
+    windows[0].start,
+    windows[windows.length - 1].end
+  );
+  return {
+    schedule,
+    slots: windows.map((slot) => {
+      const booked = taken.filter(({ at }) => at >= slot.start && at < slot.end).length;
+      return {
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        booked,
+        free: schedule.slotCapacity ? Math.max(0, schedule.slotCapacity - booked) : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Why a pickup or return cannot be made at `time`, counting the room left in its
+ * slot; null when it can
+ */
+export async function checkHandoverSlot(endUserId: string, time: Date, kind: HandoverKind): Promise<string | null> {
+  const schedule = await BusinessSettings.getHandoverSchedule(endUserId);
+  const problem = checkHandoverTime(schedule, time, kind);
+  if (problem || !schedule.enabled || !schedule.slotCapacity) return problem;
+
+  const slot = slotAt(schedule, time)!;
+  const taken = await (RentalOrder as any).findHandovers(endUserId, slot.start, slot.end);
+  return taken.length >= schedule.slotCapacity ? slotFullMessage(slot.start, kind) : null;
+}
@@ -0,0 +1,96 @@
+/**
+ * Idempotent Requests
+ * Lets a route honour the Idempotency-Key header: the first request with a key
+ * runs and its successful response is stored, and later requests with the same
+ * key get that response back. Failed requests give up their key so the client
+ * can retry with it.
+ */
+
+import crypto from 'crypto';
+import IdempotencyKey from '@/models/IdempotencyKey';
+import { logger } from '@/lib/logger';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Header set on responses answered from a stored record
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+// A request still marked processing after this long is treated as crashed
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+/**
+ * Error raised when a key is still in use or was first used with a different request
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export type IdempotentStart =
+  | { replay: { status: number; body: any }; record?: undefined }
+  | { replay?: undefined; record: any };
+
+const fingerprintOf = (body: unknown) =>
+  crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+
+/**
+ * Claim a key before running the request, or get back the response it already produced
+ */
+export async function beginIdempotentRequest(
+  scope: string,
+  ownerId: string,
+  key: string,
+  body: unknown,
+  now: Date = new Date()
+): Promise<IdempotentStart> {
+  const fingerprint = fingerprintOf(body);
+  try {
+    const record = await IdempotencyKey.create({ scope, ownerId, key, fingerprint, status: 'processing' });
+    return { record };
+  } catch (error) {
+    if ((error as any)?.code !== 11000) throw error;
+  }
+
+  const existing: any = await IdempotencyKey.findOne({ scope, ownerId, key });
+  if (!existing) {
+    // Expired between the insert and the lookup; treat it as a fresh key
+    return beginIdempotentRequest(scope, ownerId, key, body, now);
+  }
+  if (existing.fingerprint !== fingerprint) {
+    throw new IdempotencyConflictError('This idempotency key was already used for a different request');
+  }
+  if (existing.status === 'completed') {
+    logger.info('Idempotent request replayed', { scope, key });
+    return { replay: { status: existing.responseStatus || 200, body: existing.responseBody } };
+  }
+
+  // Take over a key whose request never finished
+  const taken = await IdempotencyKey.findOneAndUpdate(
+    { _id: existing._id, status: 'processing', updatedAt: { $lt: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+    { $set: { updatedAt: now } },
+    { new: true, timestamps: false }
+  );
+  if (!taken) {
+    throw new IdempotencyConflictError('A request with this idempotency key is still being processed');
+  }
+  return { record: taken };
+}
+
+/**
+ * Store the response so repeats of the request get it back
+ */
+export async function completeIdempotentRequest(record: any, status: number, body: any) {
+  await IdempotencyKey.updateOne(
+    { _id: record._id },
+    { $set: { status: 'completed', responseStatus: status, responseBody: body } }
+  );
+}
+
+/**
+ * Give the key up after a failure so the client can retry with it
+ */
+export async function abandonIdempotentRequest(record: any) {
+  await IdempotencyKey.deleteOne({ _id: record._id, status: 'processing' });
+}
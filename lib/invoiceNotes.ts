@@ -0,0 +1,214 @@
+/**
+ * Credit and Debit Notes
+ * Adjusts issued invoices. Refunds, late fees and damage charges draft a note
+ * against the order's invoice as they are recorded; the business reviews each
+ * draft and issues it, which numbers it. Issued notes are final and count towards
+ * customer balances and revenue.
+ */
+
+import mongoose from 'mongoose';
+import Invoice from '@/models/Invoice';
+import InvoiceNote from '@/models/InvoiceNote';
+import { logger } from '@/lib/logger';
+import { roundAmount } from '@/lib/pricing';
+import { InvoiceError, issueInvoice } from '@/lib/invoices';
+import { InvoiceNoteReason, InvoiceNoteSummary, InvoiceNoteType } from '@/types';
+
+type Actor = { id?: string; name?: string };
+
+export interface InvoiceNoteInput {
+  type: InvoiceNoteType;
+  reason: InvoiceNoteReason;
+  amount: number; // Including tax
+  description?: string;
+  sourceKey?: string;
+}
+
+/**
+ * Error raised when a note cannot be drafted, issued or discarded
+ */
+export class InvoiceNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceNoteError';
+  }
+}
+
+// Split an amount that includes tax in the same proportions as the invoice was taxed
+function splitLikeInvoice(invoice: any, amount: number) {
+  if (!(invoice.total > 0) || !(invoice.taxAmount > 0)) {
+    return { taxableAmount: amount, taxes: [], taxAmount: 0 };
+  }
+  const taxes = (invoice.taxes || [])
+    .map((tax: any) => ({ name: tax.name, rate: tax.rate, amount: roundAmount((tax.amount * amount) / invoice.total) }))
+    .filter((tax: any) => tax.amount > 0);
+  const taxAmount = roundAmount(taxes.reduce((sum: number, tax: any) => sum + tax.amount, 0));
+  return { taxableAmount: roundAmount(amount - taxAmount), taxes, taxAmount };
+}
+
+// The invoice a note adjusts, issued now if the order has none yet
+async function invoiceFor(order: any) {
+  const invoice = await Invoice.findOne({ rentalOrderId: order._id });
+  if (invoice) return invoice;
+  try {
+    return await issueInvoice(order);
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      throw new InvoiceNoteError('This order has no invoice to adjust');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Draft a credit or debit note against the order's invoice. A note drafted for the
+ * same source before is returned instead of a second one.
+ */
+export async function draftInvoiceNote(order: any, input: InvoiceNoteInput, actor: Actor = {}) {
+  if (input.sourceKey) {
+    const existing = await InvoiceNote.findOne({ sourceKey: input.sourceKey });
+    if (existing) return existing;
+  }
+
+  const amount = roundAmount(Number(input.amount) || 0);
+  if (!(amount > 0)) {
+    throw new InvoiceNoteError('Note amount must be greater than 0');
+  }
+
+  const invoice: any = await invoiceFor(order);
+
+  // Credits can never take the invoice below zero
+  if (input.type === 'credit') {
+    const notes = await InvoiceNote.find({ invoiceId: invoice._id, status: { $ne: 'cancelled' } }).select('type total').lean() as any[];
+    const net = notes.reduce((sum, note) => sum + (note.type === 'debit' ? note.total : -note.total), invoice.total);
+    if (amount > roundAmount(net)) {
+      throw new InvoiceNoteError(`Credit of ₹${amount} exceeds the ₹${roundAmount(net)} left on invoice ${invoice.invoiceNumber}`);
+    }
+  }
+
+  const note = await InvoiceNote.create({
+    type: input.type,
+    reason: input.reason,
+    invoiceId: invoice._id,
+    invoiceNumber: invoice.invoiceNumber,
+    rentalOrderId: order._id,
+    orderNumber: order.orderNumber,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    description: input.description?.trim() || undefined,
+    ...splitLikeInvoice(invoice, amount),
+    total: amount,
+    sourceKey: input.sourceKey,
+    createdBy: actor.id,
+    createdByName: actor.name,
+  });
+
+  logger.info('Invoice note drafted', { type: note.type, reason: note.reason, invoiceNumber: invoice.invoiceNumber, total: amount });
+  return note;
+}
+
+/**
+ * Draft the note for a refund or charge recorded elsewhere. Failures are logged
+ * rather than thrown so the refund or charge itself still stands; the business can
+ * draft the note by hand.
+ */
+export async function autoDraftInvoiceNote(order: any, input: InvoiceNoteInput, actor: Actor = {}) {
+  try {
+    return await draftInvoiceNote(order, input, actor);
+  } catch (error) {
+    logger.error('Invoice note could not be drafted', {
+      orderNumber: order.orderNumber,
+      reason: input.reason,
+      amount: input.amount,
+      error: (error as Error)?.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Draft the debit note for a returned order's late fees. Late fees are settled on
+ * return and billed with a debit note on the invoice.
+ */
+export async function draftLateFeeNote(order: any, actor: Actor = {}) {
+  if (!(order.lateFees > 0)) return null;
+  return autoDraftInvoiceNote(order, {
+    type: 'debit',
+    reason: 'late_fee',
+    amount: order.lateFees,
+    description: 'Late return fees',
+    sourceKey: `late_fee:${order._id}`,
+  }, actor);
+}
+
+/**
+ * Issue a draft note, which gives it its number
+ */
+export async function issueInvoiceNote(note: any) {
+  if (note.status !== 'draft') {
+    throw new InvoiceNoteError(`Only draft notes can be issued; this note is ${note.status}`);
+  }
+  note.status = 'issued';
+  note.issuedAt = new Date();
+  await note.save();
+  return note;
+}
+
+/**
+ * Discard a draft note. Issued notes are final and are corrected with another note.
+ */
+export async function cancelInvoiceNote(note: any) {
+  if (note.status !== 'draft') {
+    throw new InvoiceNoteError(`Only draft notes can be discarded; this note is ${note.status}`);
+  }
+  note.status = 'cancelled';
+  note.cancelledAt = new Date();
+  await note.save();
+  return note;
+}
+
+/**
+ * Issued credits and debits per customer of a business
+ */
+export async function customerNoteTotals(endUserId: string | mongoose.Types.ObjectId) {
+  const rows = await InvoiceNote.aggregate([
+    // Cancelled orders already drop out of customer totals, so their refunds are not taken off again
+    { $match: { endUserId: new mongoose.Types.ObjectId(endUserId), status: 'issued', reason: { $ne: 'cancellation' } } },
+    {
+      $group: {
+        _id: '$customerId',
+        credits: { $sum: { $cond: [{ $eq: ['$type', 'credit'] }, '$total', 0] } },
+        debits: { $sum: { $cond: [{ $eq: ['$type', 'debit'] }, '$total', 0] } },
+      },
+    },
+  ]);
+  return new Map<string, { credits: number; debits: number }>(
+    rows.map((row) => [row._id.toString(), { credits: roundAmount(row.credits), debits: roundAmount(row.debits) }])
+  );
+}
+
+/**
+ * Note as listed to the customer and the business
+ */
+export function toInvoiceNoteSummary(note: any): InvoiceNoteSummary {
+  return {
+    _id: note._id.toString(),
+    noteNumber: note.noteNumber,
+    type: note.type,
+    reason: note.reason,
+    status: note.status,
+    invoiceId: note.invoiceId.toString(),
+    invoiceNumber: note.invoiceNumber,
+    rentalOrderId: note.rentalOrderId.toString(),
+    orderNumber: note.orderNumber,
+    customerName: note.customerName,
+    description: note.description,
+    taxableAmount: note.taxableAmount,
+    taxes: (note.taxes || []).map((tax: any) => ({ name: tax.name, rate: tax.rate, amount: tax.amount })),
+    taxAmount: note.taxAmount,
+    total: note.total,
+    createdAt: new Date(note.createdAt).toISOString(),
+    issuedAt: note.issuedAt ? new Date(note.issuedAt).toISOString() : undefined,
+  };
+}
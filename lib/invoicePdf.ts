@@ -0,0 +1,79 @@
+/**
+ * Invoice PDF Rendering
+ * Renders a stored invoice on the server with the same layout the browser
+ * download uses (drawInvoice in lib/pdfGenerator), so any past invoice can be
+ * downloaded again exactly as issued.
+ */
+
+import { jsPDF } from 'jspdf';
+import { applyPlugin } from 'jspdf-autotable';
+import { drawInvoice, InvoiceAddress, InvoiceData } from '@/lib/pdfGenerator';
+import { stateName } from '@/lib/gst';
+
+applyPlugin(jsPDF);
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  partial: 'Partially paid',
+  paid: 'Paid',
+  refunded: 'Refunded',
+};
+
+// Orders keep the checkout address as JSON; orders entered by hand keep free text
+function parseAddress(raw: string | undefined): InvoiceAddress {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch {}
+  return { street: raw };
+}
+
+/**
+ * Layout data for a stored invoice
+ */
+export function toInvoiceData(invoice: any): InvoiceData {
+  const deliveryAddress = parseAddress(invoice.deliveryAddress);
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    orderNumber: invoice.orderNumber,
+    orderDate: new Date(invoice.issuedAt).toLocaleDateString('en-IN'),
+    businessName: invoice.businessName,
+    supplierGstin: invoice.supplierGstin,
+    placeOfSupply: invoice.placeOfSupply && `${stateName(invoice.placeOfSupply) || 'State'} (${invoice.placeOfSupply})`,
+    customerName: invoice.customerName,
+    customerEmail: invoice.customerEmail,
+    customerPhone: invoice.customerPhone,
+    deliveryAddress,
+    items: invoice.lines.map((line: any) => ({
+      name: line.productName,
+      duration: `${line.duration} ${line.durationUnit}${line.duration === 1 ? '' : 's'}`,
+      fromDate: new Date(line.startDate).toLocaleDateString('en-IN'),
+      toDate: new Date(line.endDate).toLocaleDateString('en-IN'),
+      quantity: line.quantity,
+      pricePerUnit: line.unitPrice,
+      totalPrice: line.amount,
+      hsnSacCode: line.hsnSacCode,
+    })),
+    pricing: {
+      subtotal: invoice.subtotal,
+      discountAmount: invoice.discountAmount,
+      deliveryCharge: invoice.deliveryCharge,
+      tax: invoice.taxAmount,
+      taxes: invoice.taxes,
+      total: invoice.total,
+      deposit: invoice.depositAmount,
+    },
+    paymentMethod: invoice.razorpayOrderId ? 'Razorpay' : undefined,
+    paymentStatus: PAYMENT_STATUS_LABELS[invoice.paymentStatus] || invoice.paymentStatus,
+  };
+}
+
+/**
+ * The invoice as PDF bytes
+ */
+export function renderInvoicePDF(invoice: any): ArrayBuffer {
+  const doc = new jsPDF();
+  drawInvoice(doc, toInvoiceData(invoice));
+  return doc.output('arraybuffer');
+}
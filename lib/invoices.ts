@@ -0,0 +1,153 @@
+/**
+ * Invoices
+ * Issues the invoice for a rental order and keeps its payment status in line with
+ * the order. Checkout issues invoices in the same unit of work as the orders,
+ * confirming a quotation issues its invoice, and the business can issue one an
+ * order was left without.
+ */
+
+import mongoose from 'mongoose';
+import Invoice from '@/models/Invoice';
+import RentalOrder from '@/models/RentalOrder';
+import User from '@/models/User';
+import { logger } from '@/lib/logger';
+import { gstTaxLines } from '@/lib/gst';
+import { InvoiceSummary, RentalOrderStatus } from '@/types';
+
+// Orders in these statuses have nothing to bill
+const UNBILLED_STATUSES: RentalOrderStatus[] = ['quotation', 'cancelled'];
+
+const LEFTOVER_INVOICE_MS = 60 * 1000;
+
+/**
+ * Error raised when an order cannot be invoiced
+ */
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+// GST lines for orders placed through checkout; orders entered by hand carry one tax amount
+function orderTaxes(order: any) {
+  const taxes = gstTaxLines(order.taxBreakdown);
+  if (taxes.length > 0) return taxes;
+  return order.taxAmount > 0 ? [{ name: 'Tax', amount: order.taxAmount }] : [];
+}
+
+/**
+ * The order's invoice, issued now if it has none yet. Pass the checkout's session
+ * so the invoice number is only used if the orders are committed.
+ */
+export async function issueInvoice(order: any, session?: mongoose.ClientSession | null) {
+  const existing = await Invoice.findOne({ rentalOrderId: order._id }).session(session || null);
+  if (existing) return numberLeftoverInvoice(existing, session);
+
+  if (UNBILLED_STATUSES.includes(order.status)) {
+    throw new InvoiceError(
+      order.status === 'quotation' ? 'Quotations are invoiced once they are confirmed' : 'Cancelled orders are not invoiced'
+    );
+  }
+
+  const business: any = await User.findById(order.endUserId).select('name companyName').session(session || null).lean();
+
+  const draft = new Invoice({
+    rentalOrderId: order._id,
+    orderNumber: order.orderNumber,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    businessName: business?.companyName || business?.name,
+    supplierGstin: order.taxBreakdown?.supplierGstin,
+    placeOfSupply: order.taxBreakdown?.placeOfSupply,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    customerPhone: order.customerPhone,
+    deliveryAddress: order.deliveryAddress,
+    lines: order.items.map((item: any) => ({
+      productId: item.productId?._id || item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      startDate: item.startDate,
+      endDate: item.endDate,
+      duration: item.duration,
+      durationUnit: item.durationUnit,
+      unitPrice: item.unitPrice,
+      amount: item.lineTotal,
+      hsnSacCode: item.hsnSacCode,
+    })),
+    subtotal: order.subtotal,
+    discountAmount: order.discountAmount,
+    deliveryCharge: order.deliveryCharge,
+    taxes: orderTaxes(order),
+    taxAmount: order.taxAmount,
+    total: order.totalPrice,
+    depositAmount: order.depositAmount || 0,
+    paymentStatus: order.paymentStatus,
+    razorpayOrderId: order.razorpayOrderId,
+  });
+  await draft.validate();
+
+  // Claim the order's invoice first; only the request that inserted it takes a number,
+  // so concurrent issues for one order never spend two
+  const claim = await Invoice.findOneAndUpdate(
+    { rentalOrderId: order._id },
+    { $setOnInsert: draft.toObject() },
+    { upsert: true, new: true, includeResultMetadata: true, session: session || undefined }
+  );
+  if (claim.lastErrorObject?.updatedExisting) {
+    return claim.value!;
+  }
+
+  const invoice = await Invoice.assignNumber(claim.value!, session);
+  logger.info('Invoice issued', { invoiceNumber: invoice.invoiceNumber, orderNumber: order.orderNumber });
+  return invoice;
+}
+
+// Number an invoice whose issuing request stopped after claiming it. Recent ones are
+// left to that request, which may still be numbering them.
+async function numberLeftoverInvoice(invoice: any, session?: mongoose.ClientSession | null) {
+  if (invoice.invoiceNumber || Date.now() - new Date(invoice.createdAt).getTime() < LEFTOVER_INVOICE_MS) {
+    return invoice;
+  }
+  logger.warn('Numbering invoice left without a number', { orderNumber: invoice.orderNumber });
+  return Invoice.assignNumber(invoice, session);
+}
+
+/**
+ * Copy the orders' current payment status onto their invoices
+ */
+export async function syncInvoicePaymentStatus(orderIds: Array<string | mongoose.Types.ObjectId>) {
+  if (orderIds.length === 0) return 0;
+
+  const orders = await RentalOrder.find({ _id: { $in: orderIds } }).select('_id paymentStatus').lean() as any[];
+  if (orders.length === 0) return 0;
+
+  const result = await Invoice.bulkWrite(
+    orders.map((order) => ({
+      updateOne: {
+        filter: { rentalOrderId: order._id, paymentStatus: { $ne: order.paymentStatus } },
+        update: { $set: { paymentStatus: order.paymentStatus } },
+      },
+    }))
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Invoice as listed to the customer and the business
+ */
+export function toInvoiceSummary(invoice: any): InvoiceSummary {
+  return {
+    _id: invoice._id.toString(),
+    invoiceNumber: invoice.invoiceNumber,
+    financialYear: invoice.financialYear,
+    rentalOrderId: invoice.rentalOrderId.toString(),
+    orderNumber: invoice.orderNumber,
+    businessName: invoice.businessName,
+    customerName: invoice.customerName,
+    total: invoice.total,
+    paymentStatus: invoice.paymentStatus,
+    issuedAt: new Date(invoice.issuedAt).toISOString(),
+  };
+}
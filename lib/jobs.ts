@@ -0,0 +1,263 @@
+/**
+ * Background Jobs
+ * Scheduled upkeep of rental state: flags overdue rentals as late, accrues late
+ * fees, expires stale quotations, releases units held by bookings that were
+ * never confirmed and tidies lapsed cart holds. Each job only touches records still in the state it looks for,
+ * so running a job twice is harmless. scripts/scheduler.js triggers due jobs
+ * through POST /api/jobs; endusers can also run a job for their own business.
+ */
+
+import mongoose from 'mongoose';
+import RentalOrder from '@/models/RentalOrder';
+import Booking from '@/models/Booking';
+import Product from '@/models/Product';
+import JobRun from '@/models/JobRun';
+import { logger } from '@/lib/logger';
+import { releaseExpiredHolds } from '@/lib/cart';
+import { JobName, JobResult, JobTrigger } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Quotations not confirmed within this many days are cancelled
+export const QUOTATION_TTL_DAYS = 7;
+
+// A run still marked running after this long is treated as crashed and unlocked
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+// Most detail lines kept on a run record
+const MAX_RUN_DETAILS = 200;
+
+export interface JobContext {
+  now: Date;
+  endUserId?: string; // Limit the run to one rental business
+  actor: { id?: string; name?: string };
+}
+
+interface JobDefinition {
+  label: string;
+  description: string;
+  intervalMs: number;
+  run: (ctx: JobContext) => Promise<JobResult>;
+}
+
+/**
+ * Error raised when a job is triggered while a previous run is still going
+ */
+export class JobAlreadyRunningError extends Error {
+  readonly job: JobName;
+
+  constructor(job: JobName) {
+    super(`Job ${job} is already running`);
+    this.name = 'JobAlreadyRunningError';
+    this.job = job;
+  }
+}
+
+// Order filter for the business a run is limited to
+function orderScope(ctx: JobContext) {
+  return ctx.endUserId ? { endUserId: new mongoose.Types.ObjectId(ctx.endUserId) } : {};
+}
+
+// Bookings have no owner field, so scope them through the business's products
+async function bookingScope(ctx: JobContext) {
+  if (!ctx.endUserId) return {};
+  const productIds = await Product.find({ endUserId: ctx.endUserId }).distinct('_id');
+  return { productId: { $in: productIds } };
+}
+
+// Move each record to a new status, collecting a detail line per record
+async function moveAll(
+  records: any[],
+  status: string,
+  reason: string,
+  ctx: JobContext,
+  describe: (record: any) => string
+): Promise<JobResult> {
+  const result: JobResult = { processed: 0, details: [] };
+  for (const record of records) {
+    try {
+      await record.updateStatus(status, reason, ctx.actor);
+      result.processed++;
+      result.details.push(`${describe(record)} → ${status}`);
+    } catch (error) {
+      logger.error('Job failed to update record', { id: record._id?.toString(), status, error: (error as Error).message });
+      result.details.push(`${describe(record)} failed: ${(error as Error).message}`);
+    }
+  }
+  return result;
+}
+
+async function markLateRentals(ctx: JobContext): Promise<JobResult> {
+  const orders = await RentalOrder.find({ status: 'delivered', endDate: { $lt: ctx.now }, ...orderScope(ctx) });
+  const bookings = await Booking.find({ status: 'confirmed', endDate: { $lt: ctx.now }, ...(await bookingScope(ctx)) });
+
+  const orderResult = await moveAll(orders, 'late', 'Return date passed', ctx, (o) => `Order ${o.orderNumber || o._id}`);
+  const bookingResult = await moveAll(bookings, 'late', 'Return date passed', ctx, (b) => `Booking ${b._id}`);
+
+  return {
+    processed: orderResult.processed + bookingResult.processed,
+    details: [...orderResult.details, ...bookingResult.details],
+  };
+}
+
+async function accrueLateFees(ctx: JobContext): Promise<JobResult> {
+  const orders = await RentalOrder.find({ status: 'late', ...orderScope(ctx) });
+  const result: JobResult = { processed: 0, details: [] };
+
+  for (const order of orders) {
+    const previous = order.lateFees || 0;
+    const accrued = order.settleLateFees();
+    if (accrued === previous) continue;
+
+    await order.save();
+    result.processed++;
+    result.details.push(`Order ${order.orderNumber || order._id}: late fees ₹${previous} → ₹${accrued}`);
+  }
+  return result;
+}
+
+async function expireQuotations(ctx: JobContext): Promise<JobResult> {
+  const cutoff = new Date(ctx.now.getTime() - QUOTATION_TTL_DAYS * 24 * HOUR_MS);
+  const orders = await RentalOrder.find({ status: 'quotation', createdAt: { $lt: cutoff }, ...orderScope(ctx) });
+  return moveAll(
+    orders,
+    'cancelled',
+    `Quotation expired after ${QUOTATION_TTL_DAYS} days`,
+    ctx,
+    (o) => `Order ${o.orderNumber || o._id}`
+  );
+}
+
+async function releaseHeldStock(ctx: JobContext): Promise<JobResult> {
+  // Pending bookings hold units; once the rental should have started they never will be confirmed
+  const bookings = await Booking.find({ status: 'pending', startDate: { $lt: ctx.now }, ...(await bookingScope(ctx)) });
+  return moveAll(bookings, 'cancelled', 'Not confirmed before the rental started', ctx, (b) => `Booking ${b._id}`);
+}
+
+async function expireCartHolds(ctx: JobContext): Promise<JobResult> {
+  const productIds = ctx.endUserId ? await Product.find({ endUserId: ctx.endUserId }).distinct('_id') : undefined;
+  const carts = await releaseExpiredHolds(ctx.now, productIds);
+  return { processed: carts, details: carts > 0 ? [`Released lapsed holds in ${carts} carts`] : [] };
+}
+
+// Every job the scheduler knows, with how often it should run
+export const JOBS: Record<JobName, JobDefinition> = {
+  'mark-late-rentals': {
+    label: 'Mark late rentals',
+    description: 'Moves picked-up orders and confirmed bookings past their return date to Late',
+    intervalMs: 15 * 60 * 1000,
+    run: markLateRentals,
+  },
+  'accrue-late-fees': {
+    label: 'Accrue late fees',
+    description: 'Stores the late fees owed so far on every late order',
+    intervalMs: 24 * HOUR_MS,
+    run: accrueLateFees,
+  },
+  'expire-quotations': {
+    label: 'Expire quotations',
+    description: `Cancels quotations that were not confirmed within ${QUOTATION_TTL_DAYS} days`,
+    intervalMs: HOUR_MS,
+    run: expireQuotations,
+  },
+  'release-held-stock': {
+    label: 'Release held stock',
+    description: 'Cancels pending bookings that were never confirmed so their units become free',
+    intervalMs: 15 * 60 * 1000,
+    run: releaseHeldStock,
+  },
+  'expire-cart-holds': {
+    label: 'Expire cart holds',
+    description: 'Clears cart holds that lapsed before checkout; their units are already free',
+    intervalMs: 5 * 60 * 1000,
+    run: expireCartHolds,
+  },
+};
+
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+export function isJobName(name: string): name is JobName {
+  return JOB_NAMES.includes(name as JobName);
+}
+
+/**
+ * Run one job, recording the run and refusing to start while any run of it, for one
+ * business or all of them, is still going
+ */
+export async function runJob(
+  name: JobName,
+  options: { trigger?: JobTrigger; endUserId?: string; triggeredBy?: { id?: string; name?: string }; now?: Date } = {}
+) {
+  const now = options.now || new Date();
+  const ctx: JobContext = {
+    now,
+    endUserId: options.endUserId,
+    actor: options.triggeredBy || { name: 'Scheduler' },
+  };
+
+  // Unlock runs left behind by a crashed process
+  await JobRun.updateMany(
+    { name, status: 'running', startedAt: { $lt: new Date(now.getTime() - STALE_RUN_MS) } },
+    { status: 'failed', error: 'Run did not finish', finishedAt: now }
+  );
+
+  let run;
+  try {
+    run = await JobRun.create({
+      name,
+      trigger: options.trigger || 'schedule',
+      endUserId: options.endUserId,
+      triggeredBy: options.triggeredBy?.id,
+      triggeredByName: options.triggeredBy?.name,
+      status: 'running',
+      startedAt: now,
+    });
+  } catch (error) {
+    if ((error as any)?.code === 11000) {
+      throw new JobAlreadyRunningError(name);
+    }
+    throw error;
+  }
+
+  try {
+    const result = await JOBS[name].run(ctx);
+    run.status = 'succeeded';
+    run.processed = result.processed;
+    run.details = result.details.slice(0, MAX_RUN_DETAILS);
+  } catch (error) {
+    logger.error('Job run failed', { name, error: (error as Error).message });
+    run.status = 'failed';
+    run.error = (error as Error).message;
+  } finally {
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - now.getTime();
+    await run.save();
+  }
+
+  return run;
+}
+
+/**
+ * Run every job whose last scheduled run is older than its interval
+ */
+export async function runDueJobs(now: Date = new Date()) {
+  const results: Array<{ name: JobName; status: string; processed?: number }> = [];
+
+  for (const name of JOB_NAMES) {
+    const last = await JobRun.findOne({ name, trigger: 'schedule' }).sort({ startedAt: -1 }).lean() as any;
+    if (last && now.getTime() - new Date(last.startedAt).getTime() < JOBS[name].intervalMs) {
+      continue;
+    }
+
+    try {
+      const run = await runJob(name, { trigger: 'schedule', now });
+      results.push({ name, status: run.status, processed: run.processed });
+    } catch (error) {
+      if (!(error instanceof JobAlreadyRunningError)) throw error;
+      results.push({ name, status: 'skipped' });
+    }
+  }
+
+  logger.info('Scheduler tick', { now: now.toISOString(), ran: results.length });
+  return results;
+}
@@ -0,0 +1,90 @@
+/**
+ * Label Sheet Rendering
+ * Renders product and unit labels as an A4 sheet of 3 x 8 labels (70 x 37 mm),
+ * each with the item's name, a Code 128 barcode and the code in text for when
+ * the barcode cannot be read.
+ */
+
+import { jsPDF } from 'jspdf';
+import { encodeCode128 } from '@/lib/barcode';
+
+export interface LabelData {
+  code: string;
+  title: string;
+  subtitle?: string;
+}
+
+const PAGE_WIDTH = 210;
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = 70;
+const LABEL_HEIGHT = 37;
+const TOP_MARGIN = (297 - ROWS * LABEL_HEIGHT) / 2;
+const PADDING = 4;
+const BARCODE_HEIGHT = 13;
+
+// Most labels one sheet request renders
+export const MAX_LABELS = 240;
+
+/**
+ * Draw a Code 128 barcode scaled to the width, with the bars starting at x
+ */
+function drawBarcode(doc: jsPDF, code: string, x: number, y: number, width: number, height: number) {
+  const modules = encodeCode128(code);
+  const moduleWidth = width / modules.reduce((sum, w) => sum + w, 0);
+
+  doc.setFillColor(0, 0, 0);
+  let cursor = x;
+  modules.forEach((w, index) => {
+    // Even positions are bars, odd ones spaces
+    if (index % 2 === 0) {
+      doc.rect(cursor, y, w * moduleWidth, height, 'F');
+    }
+    cursor += w * moduleWidth;
+  });
+}
+
+/**
+ * Draw one label with its top left corner at x, y
+ */
+function drawLabel(doc: jsPDF, label: LabelData, x: number, y: number) {
+  const innerWidth = LABEL_WIDTH - PADDING * 2;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  const [title] = doc.splitTextToSize(label.title, innerWidth);
+  doc.text(title, x + PADDING, y + PADDING + 3);
+
+  if (label.subtitle) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.text(label.subtitle, x + PADDING, y + PADDING + 7);
+  }
+
+  drawBarcode(doc, label.code, x + PADDING, y + PADDING + 10, innerWidth, BARCODE_HEIGHT);
+
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(7);
+  doc.text(label.code, x + LABEL_WIDTH / 2, y + PADDING + 10 + BARCODE_HEIGHT + 3.5, { align: 'center' });
+}
+
+/**
+ * The labels as PDF bytes, filling each sheet row by row
+ */
+export function renderLabelSheet(labels: LabelData[]): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const leftMargin = (PAGE_WIDTH - COLUMNS * LABEL_WIDTH) / 2;
+  const perPage = COLUMNS * ROWS;
+
+  labels.slice(0, MAX_LABELS).forEach((label, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) {
+      doc.addPage();
+    }
+    const x = leftMargin + (slot % COLUMNS) * LABEL_WIDTH;
+    const y = TOP_MARGIN + Math.floor(slot / COLUMNS) * LABEL_HEIGHT;
+    drawLabel(doc, label, x, y);
+  });
+
+  return doc.output('arraybuffer');
+}
@@ -0,0 +1,122 @@
+/**
+ * Late Fee Policies
+ * Computes late fees for overdue rentals from a business or product policy,
+ * with a breakdown of how each fee was reached. Safe to import on the client.
+ */
+
+import { LateFeeBreakdown, LateFeePolicy, LateFeePolicyType, LateFeeTerms } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const LATE_FEE_POLICY_TYPES: LateFeePolicyType[] = ['flat_per_day', 'percent_of_daily_rate', 'hourly'];
+
+// Human readable labels used by the settings and product screens
+export const LATE_FEE_POLICY_LABELS: Record<LateFeePolicyType, string> = {
+  flat_per_day: 'Flat amount per day',
+  percent_of_daily_rate: 'Percentage of daily rate per day',
+  hourly: 'Per hour (for hourly rentals)',
+};
+
+// Policy used when a business has not configured one: ₹100 per day, no grace period
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  type: 'flat_per_day',
+  amount: 100,
+  gracePeriodHours: 0,
+  capAtReplacementValue: false,
+};
+
+/**
+ * Pick the product override when present, otherwise the business policy
+ */
+export function resolveLateFeePolicy(
+  productPolicy?: Partial<LateFeePolicy> | null,
+  businessPolicy?: Partial<LateFeePolicy> | null
+): LateFeePolicy {
+  const policy = productPolicy?.type ? productPolicy : businessPolicy?.type ? businessPolicy : DEFAULT_LATE_FEE_POLICY;
+  return {
+    type: policy.type as LateFeePolicyType,
+    amount: policy.amount ?? 0,
+    gracePeriodHours: policy.gracePeriodHours ?? 0,
+    capAtReplacementValue: !!policy.capAtReplacementValue,
+  };
+}
+
+/**
+ * Capture the policy together with the product rates it depends on
+ */
+export function buildLateFeeTerms(policy: LateFeePolicy, product: any): LateFeeTerms {
+  return {
+    ...policy,
+    dailyRate: product?.pricePerDay || 0,
+    hourlyRate: product?.pricePerHour || 0,
+    replacementValue: product?.replacementValue || undefined,
+  };
+}
+
+/**
+ * Late fee for one rental line that was due at `dueAt` and returned (or checked) at `asOf`
+ */
+export function calculateLateFee(
+  terms: LateFeeTerms,
+  dueAt: Date,
+  asOf: Date,
+  quantity: number = 1
+): LateFeeBreakdown {
+  const hoursLate = Math.max(0, Math.ceil((asOf.getTime() - dueAt.getTime()) / HOUR_MS));
+  const chargeableHours = Math.max(0, hoursLate - (terms.gracePeriodHours || 0));
+
+  let chargeableUnits = 0;
+  let ratePerUnit = 0;
+  switch (terms.type) {
+    case 'hourly':
+      chargeableUnits = chargeableHours;
+      ratePerUnit = terms.amount > 0 ? terms.amount : terms.hourlyRate;
+      break;
+    case 'percent_of_daily_rate':
+      chargeableUnits = Math.ceil(chargeableHours / 24);
+      ratePerUnit = Math.round(terms.dailyRate * terms.amount) / 100;
+      break;
+    case 'flat_per_day':
+    default:
+      chargeableUnits = Math.ceil(chargeableHours / 24);
+      ratePerUnit = terms.amount;
+      break;
+  }
+
+  const units = Math.max(1, quantity);
+  const uncappedAmount = Math.round(chargeableUnits * ratePerUnit * units * 100) / 100;
+  const cap = terms.capAtReplacementValue && terms.replacementValue
+    ? terms.replacementValue * units
+    : undefined;
+
+  return {
+    policyType: terms.type,
+    hoursLate,
+    gracePeriodHours: terms.gracePeriodHours || 0,
+    chargeableUnits,
+    ratePerUnit,
+    quantity: units,
+    uncappedAmount,
+    cap,
+    amount: cap !== undefined ? Math.min(uncappedAmount, cap) : uncappedAmount,
+  };
+}
+
+/**
+ * One line explanation of a late fee, e.g. "3 days × ₹100 × 2 units"
+ */
+export function describeLateFee(breakdown: LateFeeBreakdown): string {
+  if (breakdown.amount === 0) {
+    return breakdown.hoursLate > 0 ? `Within ${breakdown.gracePeriodHours}h grace period` : 'Not late';
+  }
+  const unit = breakdown.policyType === 'hourly' ? 'hour' : 'day';
+  const parts = [
+    `${breakdown.chargeableUnits} ${unit}${breakdown.chargeableUnits === 1 ? '' : 's'} × ₹${breakdown.ratePerUnit}`,
+  ];
+  if (breakdown.quantity > 1) parts.push(`${breakdown.quantity} units`);
+  let text = parts.join(' × ');
+  if (breakdown.cap !== undefined && breakdown.uncappedAmount > breakdown.cap) {
+    text += ` (capped at replacement value ₹${breakdown.cap})`;
+  }
+  return text;
+}
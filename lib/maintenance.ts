@@ -0,0 +1,306 @@
+/**
+ * Maintenance
+ * Schedules service, repair and inspection of products and their units, moves
+ * maintenance through its statuses and reports what it cost. Open maintenance
+ * takes its units out of the availability pool, so it can only be scheduled when
+ * the units are free; a unit being maintained is marked as in maintenance until
+ * its maintenance is completed or cancelled.
+ */
+
+import mongoose from 'mongoose';
+import Maintenance, { IMaintenance } from '@/models/Maintenance';
+import Asset from '@/models/Asset';
+import Product from '@/models/Product';
+import { logger } from '@/lib/logger';
+import { getAvailability } from '@/lib/availability';
+import { roundAmount } from '@/lib/pricing';
+import { isAssetCondition } from '@/lib/assetStatus';
+import {
+  BLOCKING_MAINTENANCE_STATUSES,
+  MAINTENANCE_TYPES,
+  assertMaintenanceTransition,
+  isMaintenanceType,
+  isOpenMaintenance,
+} from '@/lib/maintenanceStatus';
+import { MaintenanceCostReport, MaintenancePlan, MaintenanceSummary } from '@/types';
+
+type Actor = { id?: string; name?: string };
+
+/**
+ * Error raised when maintenance cannot be scheduled or changed
+ */
+export class MaintenanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaintenanceError';
+  }
+}
+
+// A date from a form or request, or null when missing or invalid
+function parseDate(value: any): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// A cost from a form or request; blank is no cost
+function parseCost(value: any): number {
+  const cost = value === '' || value === null || value === undefined ? 0 : Number(value);
+  if (!Number.isFinite(cost) || cost < 0) {
+    throw new MaintenanceError('Cost must be zero or more');
+  }
+  return roundAmount(cost);
+}
+
+/**
+ * Clean up maintenance plans from a form or request; plans need a title, a
+ * rental or hours interval and a duration
+ */
+export function normalizeMaintenancePlans(input: any): MaintenancePlan[] {
+  if (!Array.isArray(input)) {
+    throw new MaintenanceError('Maintenance plans must be a list');
+  }
+  const whole = (value: any) => {
+    const number = Math.floor(Number(value));
+    return Number.isFinite(number) && number > 0 ? number : undefined;
+  };
+
+  return input.map((plan: any) => {
+    const title = String(plan?.title || '').trim();
+    const everyRentals = whole(plan?.everyRentals);
+    const everyHours = whole(plan?.everyHours);
+    const durationHours = whole(plan?.durationHours);
+    if (!title) throw new MaintenanceError('Each maintenance plan needs a title');
+    if (!everyRentals && !everyHours) throw new MaintenanceError(`${title} needs a rental or hours interval`);
+    if (!durationHours) throw new MaintenanceError(`${title} needs a duration of at least 1 hour`);
+
+    return {
+      ...(plan?._id && mongoose.Types.ObjectId.isValid(plan._id) ? { _id: String(plan._id) } : {}),
+      title,
+      type: isMaintenanceType(plan?.type) ? plan.type : 'service',
+      everyRentals,
+      everyHours,
+      durationHours,
+      active: plan?.active !== false,
+    };
+  });
+}
+
+/**
+ * Maintenance as listed to the business
+ */
+export function toMaintenanceSummary(maintenance: any, productName?: string): MaintenanceSummary {
+  return {
+    _id: maintenance._id.toString(),
+    productId: maintenance.productId.toString(),
+    productName,
+    assetId: maintenance.assetId?.toString(),
+    serialNumber: maintenance.serialNumber,
+    type: maintenance.type,
+    status: maintenance.status,
+    title: maintenance.title,
+    notes: maintenance.notes,
+    startDate: new Date(maintenance.startDate).toISOString(),
+    endDate: new Date(maintenance.endDate).toISOString(),
+    quantity: maintenance.quantity,
+    cost: maintenance.cost || 0,
+    planId: maintenance.planId?.toString(),
+    completedAt: maintenance.completedAt ? new Date(maintenance.completedAt).toISOString() : undefined,
+    createdByName: maintenance.createdByName,
+    createdAt: new Date(maintenance.createdAt).toISOString(),
+  };
+}
+
+// Throw unless the units are free for the maintenance window
+async function assertUnitsFree(
+  productId: string,
+  start: Date,
+  end: Date,
+  quantity: number,
+  excludeMaintenanceId?: string
+) {
+  const availability = await getAvailability(productId, start, end, quantity, { excludeMaintenanceId });
+  if (!availability.available) {
+    throw new MaintenanceError(
+      availability.free > 0
+        ? `Only ${availability.free} of ${availability.owned} units are free for that time`
+        : 'No units are free for that time; move the maintenance or the rentals in the way'
+    );
+  }
+}
+
+// Take a unit out of service, or put it back once none of its maintenance is underway
+async function syncAssetStatus(assetId: mongoose.Types.ObjectId) {
+  const asset = await Asset.findById(assetId);
+  if (!asset || asset.status === 'rented' || asset.status === 'retired') return;
+
+  const underway = await Maintenance.exists({
+    assetId,
+    status: { $in: BLOCKING_MAINTENANCE_STATUSES },
+    startDate: { $lte: new Date() },
+  });
+  const status = underway ? 'maintenance' : 'available';
+  if (asset.status !== status) {
+    asset.status = status;
+    await asset.save();
+  }
+}
+
+/**
+ * Schedule maintenance of a product, or of one of its units
+ */
+export async function createMaintenance(product: any, input: any, actor: Actor): Promise<IMaintenance> {
+  if (!isMaintenanceType(input?.type)) {
+    throw new MaintenanceError(`Maintenance type must be ${MAINTENANCE_TYPES.join(', ')}`);
+  }
+  const startDate = parseDate(input?.startDate);
+  const endDate = parseDate(input?.endDate);
+  if (!startDate || !endDate || endDate <= startDate) {
+    throw new MaintenanceError('Maintenance needs a start and an end after it');
+  }
+
+  let quantity = Math.floor(Number(input?.quantity) || 1);
+  let asset: any = null;
+  if (input?.assetId) {
+    asset = mongoose.Types.ObjectId.isValid(input.assetId)
+      ? await Asset.findOne({ _id: input.assetId, productId: product._id })
+      : null;
+    if (!asset) throw new MaintenanceError('Unit not found');
+    if (asset.status === 'retired') throw new MaintenanceError(`Unit ${asset.serialNumber} is retired`);
+    if (asset.status === 'rented' && startDate <= new Date()) {
+      throw new MaintenanceError(`Unit ${asset.serialNumber} is out on ${asset.currentOrderNumber}`);
+    }
+    quantity = 1;
+  }
+  if (quantity < 1 || quantity > (product.quantityAvailable || 0)) {
+    throw new MaintenanceError(`Quantity must be from 1 to the ${product.quantityAvailable || 0} units owned`);
+  }
+
+  await assertUnitsFree(product._id.toString(), startDate, endDate, quantity);
+
+  const maintenance = await Maintenance.create({
+    productId: product._id,
+    endUserId: product.endUserId,
+    assetId: asset?._id,
+    serialNumber: asset?.serialNumber,
+    type: input.type,
+    title: String(input?.title || '').trim(),
+    notes: input?.notes ? String(input.notes).trim() : undefined,
+    startDate,
+    endDate,
+    quantity,
+    cost: parseCost(input?.cost),
+    createdBy: actor.id,
+    createdByName: actor.name || 'System',
+  });
+  if (asset) await syncAssetStatus(asset._id);
+
+  logger.info('Maintenance scheduled', {
+    productId: product._id.toString(),
+    serialNumber: asset?.serialNumber,
+    type: maintenance.type,
+    quantity,
+    by: actor.name,
+  });
+  return maintenance;
+}
+
+/**
+ * Change maintenance: its status, its window while it is open, its cost and
+ * notes at any time. Completing a unit's maintenance can record its condition.
+ */
+export async function updateMaintenance(maintenance: IMaintenance, product: any, input: any, actor: Actor) {
+  if (input?.status !== undefined && input.status !== maintenance.status) {
+    assertMaintenanceTransition(maintenance.status, input.status);
+    if (input.status === 'in_progress' && maintenance.assetId) {
+      const asset = await Asset.findById(maintenance.assetId);
+      if (asset?.status === 'rented') {
+        throw new MaintenanceError(`Unit ${asset.serialNumber} is out on ${asset.currentOrderNumber}`);
+      }
+    }
+    maintenance.status = input.status;
+    if (input.status === 'completed') {
+      maintenance.completedAt = new Date();
+    }
+  }
+
+  if (input?.startDate !== undefined || input?.endDate !== undefined) {
+    if (!isOpenMaintenance(maintenance.status)) {
+      throw new MaintenanceError('Only open maintenance can be rescheduled');
+    }
+    const startDate = input.startDate !== undefined ? parseDate(input.startDate) : maintenance.startDate;
+    const endDate = input.endDate !== undefined ? parseDate(input.endDate) : maintenance.endDate;
+    if (!startDate || !endDate || endDate <= startDate) {
+      throw new MaintenanceError('Maintenance needs a start and an end after it');
+    }
+    await assertUnitsFree(product._id.toString(), startDate, endDate, maintenance.quantity, maintenance._id.toString());
+    maintenance.startDate = startDate;
+    maintenance.endDate = endDate;
+  }
+
+  if (input?.cost !== undefined) maintenance.cost = parseCost(input.cost);
+  if (input?.notes !== undefined) maintenance.notes = input.notes ? String(input.notes).trim() : undefined;
+  if (input?.title !== undefined) maintenance.title = String(input.title || '').trim();
+
+  await maintenance.save();
+
+  if (maintenance.assetId) {
+    // A repaired unit comes back in the condition it was left in
+    if (maintenance.status === 'completed' && isAssetCondition(input?.condition)) {
+      await Asset.updateOne({ _id: maintenance.assetId }, { condition: input.condition });
+    }
+    await syncAssetStatus(maintenance.assetId);
+  }
+
+  logger.info('Maintenance updated', {
+    maintenanceId: maintenance._id.toString(),
+    status: maintenance.status,
+    cost: maintenance.cost,
+    by: actor.name,
+  });
+  return maintenance;
+}
+
+/**
+ * Completed maintenance of a business and what it cost, by type and by product,
+ * for maintenance completed in [start, end]
+ */
+export async function getMaintenanceCostReport(endUserId: string, start: Date, end: Date): Promise<MaintenanceCostReport> {
+  const match = {
+    endUserId: new mongoose.Types.ObjectId(endUserId),
+    status: 'completed',
+    completedAt: { $gte: start, $lte: end },
+  };
+  const [typeRows, productRows] = await Promise.all([
+    Maintenance.aggregate([
+      { $match: match },
+      { $group: { _id: '$type', count: { $sum: 1 }, cost: { $sum: '$cost' } } },
+    ]),
+    Maintenance.aggregate([
+      { $match: match },
+      { $group: { _id: '$productId', count: { $sum: 1 }, cost: { $sum: '$cost' } } },
+      { $sort: { cost: -1 } },
+      { $limit: 10 },
+    ]),
+  ]);
+
+  const products: any[] = await Product.find({ _id: { $in: productRows.map((row) => row._id) } }).select('name').lean();
+  const byType = Object.fromEntries(
+    MAINTENANCE_TYPES.map((type) => {
+      const row = typeRows.find((r) => r._id === type);
+      return [type, { count: row?.count || 0, cost: roundAmount(row?.cost || 0) }];
+    })
+  ) as MaintenanceCostReport['byType'];
+
+  return {
+    count: typeRows.reduce((sum, row) => sum + row.count, 0),
+    cost: roundAmount(typeRows.reduce((sum, row) => sum + row.cost, 0)),
+    byType,
+    products: productRows.map((row) => ({
+      productId: row._id.toString(),
+      productName: products.find((p) => p._id.toString() === row._id.toString())?.name || 'Deleted product',
+      count: row.count,
+      cost: roundAmount(row.cost),
+    })),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Maintenance Status Machine
+ * Defines the allowed lifecycle transitions for maintenance records, the types
+ * of maintenance and the error raised on an illegal move. Safe to import on the
+ * client.
+ */
+
+import { MaintenanceStatus, MaintenanceType } from '@/types';
+
+// Allowed next statuses for every maintenance status
+export const MAINTENANCE_STATUS_TRANSITIONS: Record<MaintenanceStatus, MaintenanceStatus[]> = {
+  scheduled: ['in_progress', 'completed', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const MAINTENANCE_STATUSES = Object.keys(MAINTENANCE_STATUS_TRANSITIONS) as MaintenanceStatus[];
+
+// Statuses that keep units out of the rental pool
+export const BLOCKING_MAINTENANCE_STATUSES: MaintenanceStatus[] = ['scheduled', 'in_progress'];
+
+// Human readable labels used by the maintenance screen
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const MAINTENANCE_TYPE_LABELS: Record<MaintenanceType, string> = {
+  service: 'Service',
+  repair: 'Repair',
+  inspection: 'Inspection',
+};
+
+export const MAINTENANCE_TYPES = Object.keys(MAINTENANCE_TYPE_LABELS) as MaintenanceType[];
+
+/**
+ * Error raised when maintenance is moved to a status that the transition table
+ * does not allow from its current status
+ */
+export class InvalidMaintenanceTransitionError extends Error {
+  readonly from: MaintenanceStatus;
+  readonly to: string;
+  readonly allowed: MaintenanceStatus[];
+
+  constructor(from: MaintenanceStatus, to: string) {
+    const allowed = MAINTENANCE_STATUS_TRANSITIONS[from] || [];
+    super(
+      allowed.length > 0
+        ? `Cannot change maintenance status from '${from}' to '${to}'. Allowed: ${allowed.join(', ')}`
+        : `Cannot change maintenance status from '${from}' to '${to}'. '${from}' is a final status`
+    );
+    this.name = 'InvalidMaintenanceTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Check whether a value is a known maintenance status
+ */
+export function isMaintenanceStatus(value: unknown): value is MaintenanceStatus {
+  return typeof value === 'string' && value in MAINTENANCE_STATUS_TRANSITIONS;
+}
+
+/**
+ * Check whether a value is a known maintenance type
+ */
+export function isMaintenanceType(value: unknown): value is MaintenanceType {
+  return typeof value === 'string' && value in MAINTENANCE_TYPE_LABELS;
+}
+
+/**
+ * Throw an InvalidMaintenanceTransitionError if the move is not allowed
+ */
+export function assertMaintenanceTransition(from: MaintenanceStatus, to: string): void {
+  if (!isMaintenanceStatus(to) || !MAINTENANCE_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new InvalidMaintenanceTransitionError(from, to);
+  }
+}
+
+/**
+ * Whether maintenance still keeps units out of service
+ */
+export const isOpenMaintenance = (status: MaintenanceStatus) => BLOCKING_MAINTENANCE_STATUSES.includes(status);
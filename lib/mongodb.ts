@@ -119,6 +119,28 @@ export function getConnectionState(): string {
   return states[mongoose.connection.readyState as keyof typeof states] || 'unknown';
 }
 
+// Whether the connected server accepts multi-document transactions, checked once
+let transactionSupport: boolean | undefined;
+
+/**
+ * Check if the server is a replica set or sharded cluster, where transactions work.
+ * Standalone development servers reject them.
+ * @returns Promise<boolean> - Transaction support
+ */
+export async function supportsTransactions(): Promise<boolean> {
+  if (transactionSupport === undefined) {
+    try {
+      const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+      transactionSupport = !!hello.setName || hello.msg === 'isdbgrid';
+    } catch (error) {
+      logger.warn('Could not detect MongoDB transaction support', { error: (error as Error).message });
+      transactionSupport = false;
+    }
+    logger.info(`MongoDB transactions ${transactionSupport ? 'available' : 'unavailable'}`);
+  }
+  return transactionSupport;
+}
+
 // Connection event listeners for logging
 mongoose.connection.on('connected', () => {
   logger.info('MongoDB connection established');
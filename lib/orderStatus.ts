@@ -0,0 +1,84 @@
+/**
+ * Rental Order Status Machine
+ * Defines the allowed lifecycle transitions for rental orders and the error
+ * raised when code attempts an illegal move. Safe to import on the client.
+ */
+
+import { RentalOrderStatus } from '@/types';
+
+// Allowed next statuses for every rental order status
+export const ORDER_STATUS_TRANSITIONS: Record<RentalOrderStatus, RentalOrderStatus[]> = {
+  quotation: ['confirmed', 'cancelled'],
+  confirmed: ['reserved', 'cancelled'],
+  reserved: ['delivered', 'cancelled'],
+  delivered: ['returned', 'late'],
+  late: ['returned'],
+  returned: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as RentalOrderStatus[];
+
+// Human readable labels used by the enduser order screens
+export const ORDER_STATUS_LABELS: Record<RentalOrderStatus, string> = {
+  quotation: 'Quotation',
+  confirmed: 'Confirmed',
+  reserved: 'Reserved',
+  delivered: 'Picked Up',
+  returned: 'Returned',
+  late: 'Late',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Error raised when a rental order is moved to a status that the
+ * transition table does not allow from its current status
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly from: RentalOrderStatus;
+  readonly to: string;
+  readonly allowed: RentalOrderStatus[];
+
+  constructor(from: RentalOrderStatus, to: string) {
+    const allowed = getAllowedTransitions(from);
+    super(
+      allowed.length > 0
+        ? `Cannot change order status from '${from}' to '${to}'. Allowed: ${allowed.join(', ')}`
+        : `Cannot change order status from '${from}' to '${to}'. '${from}' is a final status`
+    );
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Check whether a value is a known rental order status
+ */
+export function isOrderStatus(value: unknown): value is RentalOrderStatus {
+  return typeof value === 'string' && value in ORDER_STATUS_TRANSITIONS;
+}
+
+/**
+ * Get the statuses an order can move to from the given status
+ */
+export function getAllowedTransitions(status: RentalOrderStatus): RentalOrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] || [];
+}
+
+/**
+ * Check whether moving from one status to another is allowed
+ */
+export function canTransition(from: RentalOrderStatus, to: string): boolean {
+  return isOrderStatus(to) && getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Throw an InvalidStatusTransitionError if the move is not allowed
+ */
+export function assertTransition(from: RentalOrderStatus, to: string): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Razorpay Payment Ledger
+ * Verifies webhook signatures, records each Razorpay event once in the Payment
+ * ledger and rebuilds rental order payment status from that ledger. Status is
+ * always recomputed from every recorded event, so duplicate or out-of-order
+ * deliveries settle on the same result.
+ */
+
+import crypto from 'crypto';
+import RentalOrder from '@/models/RentalOrder';
+import Payment from '@/models/Payment';
+import { logger } from '@/lib/logger';
+import { roundAmount } from '@/lib/pricing';
+import { syncInvoicePaymentStatus } from '@/lib/invoices';
+
+// Razorpay events that change what a customer has paid
+export const HANDLED_PAYMENT_EVENTS = [
+  'payment.captured',
+  'payment.failed',
+  'refund.created',
+  'refund.processed',
+  'refund.failed',
+  'order.paid',
+];
+
+type PaymentStatus = 'pending' | 'partial' | 'paid' | 'refunded';
+
+/**
+ * HMAC-SHA256 signature Razorpay sends in the X-Razorpay-Signature header
+ */
+export function signWebhookPayload(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+/**
+ * Check a webhook body against its signature header in constant time
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Store one webhook event in the ledger. Returns duplicate: true when the event
+ * was already recorded.
+ */
+export async function recordPaymentEvent(eventId: string, body: any) {
+  const payment = body?.payload?.payment?.entity || {};
+  const refund = body?.payload?.refund?.entity;
+  const order = body?.payload?.order?.entity;
+
+  let razorpayOrderId: string | undefined = payment.order_id || order?.id;
+  if (!razorpayOrderId && refund?.payment_id) {
+    // Refund events may arrive without the payment entity; find it in the ledger
+    const earlier: any = await Payment.findOne({ razorpayPaymentId: refund.payment_id, razorpayOrderId: { $exists: true } }).lean();
+    razorpayOrderId = earlier?.razorpayOrderId;
+  }
+
+  const amountPaise = refund ? refund.amount : payment.amount ?? order?.amount_paid ?? 0;
+
+  try {
+    const entry = await Payment.create({
+      eventId,
+      event: body?.event || 'unknown',
+      razorpayOrderId,
+      razorpayPaymentId: payment.id || refund?.payment_id,
+      razorpayRefundId: refund?.id,
+      amount: roundAmount((Number(amountPaise) || 0) / 100),
+      currency: (refund || payment).currency || 'INR',
+      status: (refund || payment).status,
+      method: payment.method,
+      email: payment.email,
+      contact: payment.contact,
+      errorCode: payment.error_code || undefined,
+      errorDescription: payment.error_description || undefined,
+      payload: body,
+      receivedAt: body?.created_at ? new Date(body.created_at * 1000) : new Date(),
+    });
+    return { entry, duplicate: false };
+  } catch (error) {
+    if ((error as any)?.code === 11000) {
+      return { entry: await Payment.findOne({ eventId }), duplicate: true };
+    }
+    throw error;
+  }
+}
+
+// Ledger fields used to work out what was paid and refunded
+type LedgerEntry = { event: string; razorpayPaymentId?: string; razorpayRefundId?: string; amount: number };
+
+/**
+ * Net amount captured for a Razorpay order, counting each payment and refund once.
+ * Entries must be in the order they were received so a failed refund cancels its earlier events.
+ */
+export function summarizeLedger(entries: LedgerEntry[]) {
+  const payments = new Map<string, number>();
+  const refunds = new Map<string, number>();
+
+  for (const entry of entries) {
+    if ((entry.event === 'payment.captured' || entry.event === 'order.paid') && entry.razorpayPaymentId) {
+      payments.set(entry.razorpayPaymentId, entry.amount);
+    } else if ((entry.event === 'refund.created' || entry.event === 'refund.processed') && entry.razorpayRefundId) {
+      refunds.set(entry.razorpayRefundId, entry.amount);
+    } else if (entry.event === 'refund.failed' && entry.razorpayRefundId) {
+      refunds.delete(entry.razorpayRefundId);
+    }
+  }
+
+  const sum = (values: Map<string, number>) => roundAmount(Array.from(values.values()).reduce((a, b) => a + b, 0));
+  return { captured: sum(payments), refunded: sum(refunds), payments, refunds };
+}
+
+/**
+ * Payment status for an amount due given what the ledger has captured and refunded
+ */
+export function derivePaymentStatus(due: number, captured: number, refunded: number): PaymentStatus {
+  const net = roundAmount(captured - refunded);
+  if (captured > 0 && net <= 0) return 'refunded';
+  // Allow a rupee of rounding from splitting one payment across vendor orders
+  if (net > 0 && net >= due - 1) return 'paid';
+  if (net > 0) return 'partial';
+  return 'pending';
+}
+
+// Amount charged for an order at checkout: the rental total plus its security deposit
+const chargedAmount = (order: { totalPrice?: number; depositAmount?: number }) =>
+  roundAmount((order.totalPrice || 0) + (order.depositAmount || 0));
+
+type LedgerOrder = {
+  _id: any;
+  totalPrice?: number;
+  depositAmount?: number;
+  refunds?: Array<{ razorpayRefundId?: string; kind?: string }>;
+};
+
+/**
+ * Split a Razorpay order's ledger across the rental orders it paid for. Captures are
+ * shared by the amount charged for each order; a refund issued for one order counts
+ * against that order only, and refunds made elsewhere (e.g. the Razorpay dashboard)
+ * are shared like captures. A returned deposit lowers what the order owes instead of
+ * counting as a refund.
+ */
+export function allocateLedger(orders: LedgerOrder[], ledger: ReturnType<typeof summarizeLedger>) {
+  const charged = roundAmount(orders.reduce((sum, o) => sum + chargedAmount(o), 0));
+
+  const refundOwner = new Map<string, { orderId: string; deposit: boolean }>();
+  for (const order of orders) {
+    for (const refund of order.refunds || []) {
+      if (refund.razorpayRefundId) {
+        refundOwner.set(refund.razorpayRefundId, { orderId: order._id.toString(), deposit: refund.kind === 'deposit' });
+      }
+    }
+  }
+
+  const ownRefunds = new Map<string, number>();
+  const depositRefunds = new Map<string, number>();
+  let sharedRefunds = 0;
+  ledger.refunds.forEach((amount, refundId) => {
+    const owner = refundOwner.get(refundId);
+    if (!owner) {
+      sharedRefunds += amount;
+      return;
+    }
+    const totals = owner.deposit ? depositRefunds : ownRefunds;
+    totals.set(owner.orderId, (totals.get(owner.orderId) || 0) + amount);
+  });
+
+  return orders.map((order) => {
+    const id = order._id.toString();
+    const share = charged > 0 ? chargedAmount(order) / charged : 1 / orders.length;
+    const due = roundAmount(chargedAmount(order) - (depositRefunds.get(id) || 0));
+    const captured = roundAmount(ledger.captured * share - (depositRefunds.get(id) || 0));
+    const refunded = roundAmount((ownRefunds.get(id) || 0) + sharedRefunds * share);
+    return {
+      orderId: id,
+      due,
+      captured,
+      refunded,
+      status: derivePaymentStatus(due, captured, refunded),
+    };
+  });
+}
+
+// Ledger entries for a Razorpay order, oldest first
+async function loadLedger(razorpayOrderId: string): Promise<LedgerEntry[]> {
+  return await Payment.find({ razorpayOrderId })
+    .sort({ receivedAt: 1, _id: 1 })
+    .select('event razorpayPaymentId razorpayRefundId amount')
+    .lean() as any[];
+}
+
+/**
+ * Link ledger entries to the rental orders of a Razorpay order and bring their
+ * payment status in line with the ledger
+ */
+export async function syncOrderPaymentStatus(razorpayOrderId: string) {
+  const orders = await RentalOrder.find({ razorpayOrderId })
+    .select('_id totalPrice depositAmount depositLedger paymentStatus refunds')
+    .lean() as any[];
+  const entries = await loadLedger(razorpayOrderId);
+
+  if (orders.length > 0) {
+    await Payment.updateMany(
+      { razorpayOrderId },
+      { $addToSet: { rentalOrderIds: { $each: orders.map((o) => o._id) } } }
+    );
+  }
+
+  const ledger = summarizeLedger(entries);
+  const due = roundAmount(orders.reduce((sum, o) => sum + chargedAmount(o), 0));
+  const status = derivePaymentStatus(due, ledger.captured, ledger.refunded);
+
+  const allocations = allocateLedger(orders, ledger);
+  const changes = allocations.filter(
+    (allocation) => orders.find((o) => o._id.toString() === allocation.orderId)?.paymentStatus !== allocation.status
+  );
+  if (changes.length > 0) {
+    await RentalOrder.bulkWrite(
+      changes.map((allocation) => ({
+        updateOne: { filter: { _id: allocation.orderId }, update: { $set: { paymentStatus: allocation.status } } },
+      }))
+    );
+    await syncInvoicePaymentStatus(changes.map((allocation) => allocation.orderId));
+  }
+
+  // Deposits count as collected once the order is fully paid; the filter keeps this to one entry
+  const depositsCollected = orders.filter((order) =>
+    order.depositAmount > 0 &&
+    !(order.depositLedger || []).some((entry: any) => entry.type === 'collected') &&
+    allocations.find((a) => a.orderId === order._id.toString())?.status === 'paid'
+  );
+  if (depositsCollected.length > 0) {
+    await RentalOrder.bulkWrite(
+      depositsCollected.map((order) => ({
+        updateOne: {
+          filter: { _id: order._id, 'depositLedger.type': { $ne: 'collected' } },
+          update: { $push: { depositLedger: { type: 'collected', amount: order.depositAmount, createdAt: new Date() } } },
+        },
+      }))
+    );
+  }
+
+  logger.info('Payment status synced', {
+    razorpayOrderId,
+    orders: orders.length,
+    due,
+    captured: ledger.captured,
+    refunded: ledger.refunded,
+    status,
+    updated: changes.length,
+  });
+
+  return { status, due, captured: ledger.captured, refunded: ledger.refunded, orders: orders.length, updated: changes.length };
+}
+
+/**
+ * What a rental order has paid and had refunded, and the Razorpay payment to refund
+ * against. `paid` still includes any deposit the business holds.
+ */
+export async function getOrderPaymentBalance(order: any) {
+  if (!order.razorpayOrderId) {
+    // Paid outside Razorpay: trust the recorded status and the refunds stored on the order
+    const refundTotal = (kind: string) => roundAmount(
+      (order.refunds || [])
+        .filter((r: any) => r.status !== 'failed' && (r.kind || 'cancellation') === kind)
+        .reduce((sum: number, r: any) => sum + r.amount, 0)
+    );
+    const captured = order.paymentStatus === 'pending' ? 0 : roundAmount(chargedAmount(order) - refundTotal('deposit'));
+    const refunded = refundTotal('cancellation');
+    return { captured, refunded, paid: roundAmount(Math.max(0, captured - refunded)), razorpayPaymentId: undefined };
+  }
+
+  const siblings = await RentalOrder.find({ razorpayOrderId: order.razorpayOrderId })
+    .select('_id totalPrice depositAmount refunds')
+    .lean() as any[];
+  const ledger = summarizeLedger(await loadLedger(order.razorpayOrderId));
+
+  // Refunds already issued for this order but not yet seen by the ledger still count
+  const pending = (order.refunds || []).filter(
+    (r: any) => r.status === 'pending' && r.razorpayRefundId && !ledger.refunds.has(r.razorpayRefundId)
+  );
+  for (const refund of pending) ledger.refunds.set(refund.razorpayRefundId, refund.amount);
+
+  const allocation = allocateLedger(siblings, ledger).find((a) => a.orderId === order._id.toString());
+  const captured = allocation?.captured || 0;
+  const refunded = allocation?.refunded || 0;
+
+  // Refund against the largest captured payment; checkouts normally have exactly one
+  const [razorpayPaymentId] = Array.from(ledger.payments.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+
+  return { captured, refunded, paid: roundAmount(Math.max(0, captured - refunded)), razorpayPaymentId };
+}
+
+/**
+ * Bring a refund stored on a rental order in line with a refund webhook event
+ */
+export async function applyRefundEvent(event: string, razorpayRefundId?: string) {
+  const status = event === 'refund.processed' ? 'processed' : event === 'refund.failed' ? 'failed' : null;
+  if (!status || !razorpayRefundId) return;
+
+  await RentalOrder.updateOne(
+    { 'refunds.razorpayRefundId': razorpayRefundId },
+    { $set: { 'refunds.$.status': status } }
+  );
+}
@@ -1,8 +1,14 @@
 /**
  * PDF Invoice Generator
- * Generates professional invoices with order details and customer information
+ * Generates professional invoices with order details and customer information.
+ * The invoice layout is drawn by drawInvoice for the server-rendered invoice PDF
+ * (lib/invoicePdf); deposit statements are still built in the browser.
  */
 
+import type { jsPDF } from 'jspdf';
+import { DepositStatement } from '@/types';
+import { describeDepositEntry } from '@/lib/deposits';
+
 // Extend jsPDF type to include autoTable
 declare module 'jspdf' {
   interface jsPDF {
@@ -10,27 +16,30 @@ declare module 'jspdf' {
   }
 }
 
+// Checkout addresses use address/pincode; street/zipCode are accepted as well
+export interface InvoiceAddress {
+  street?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  pincode?: string;
+  country?: string;
+  landmark?: string;
+}
+
 export interface InvoiceData {
+  invoiceNumber?: string; // Persisted invoices; the order number is printed alongside
   orderNumber: string;
   orderDate: string;
+  businessName?: string;
+  supplierGstin?: string; // Printed as a tax invoice when set
+  placeOfSupply?: string;
   customerName: string;
   customerEmail: string;
   customerPhone?: string;
-  deliveryAddress: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-    landmark?: string;
-  };
-  billingAddress?: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
+  deliveryAddress: InvoiceAddress;
+  billingAddress?: InvoiceAddress;
   items: Array<{
     name: string;
     duration: string;
@@ -39,6 +48,7 @@ export interface InvoiceData {
     quantity: number;
     pricePerUnit: number;
     totalPrice: number;
+    hsnSacCode?: string;
   }>;
   pricing: {
     subtotal: number;
@@ -46,31 +56,39 @@ export interface InvoiceData {
     discountAmount?: number;
     deliveryCharge: number;
     tax: number;
+    taxes?: Array<{ name: string; rate?: number; amount: number }>; // Printed instead of the single tax line
+    lateFee?: number;
+    lateFeeDetails?: string[]; // One line per rental line, from describeLateFee
     total: number;
+    deposit?: number; // Refundable, charged on top of the total
   };
-  paymentMethod: string;
-  deliveryMethod: string;
+  paymentMethod?: string;
+  deliveryMethod?: string;
+  paymentStatus?: string;
 }
 
-export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void> => {
-  try {
-    // Check if we're in the browser
-    if (typeof window === 'undefined') {
-      throw new Error('PDF generation is only available in the browser');
-    }
+// Address as printable lines, skipping the parts that are missing
+function addressLines(address: InvoiceAddress): string[] {
+  const cityLine = [
+    [address.city, address.state].filter(Boolean).join(', '),
+    address.zipCode || address.pincode,
+  ].filter(Boolean).join(' ');
+  return [
+    address.street || address.address,
+    cityLine,
+    address.country,
+    address.landmark ? `Landmark: ${address.landmark}` : undefined,
+  ].filter(Boolean) as string[];
+}
 
-    // Dynamic import for client-side only
-    const jsPDF = (await import('jspdf')).default;
-    
-    try {
-      await import('jspdf-autotable');
-    } catch (tableError) {
-      console.warn('AutoTable not available, using simple layout');
-    }
-    
-    // Create new PDF document
-    const doc = new jsPDF();
-  
+export const invoiceFileName = (invoiceData: Pick<InvoiceData, 'invoiceNumber' | 'orderNumber'>) =>
+  `Invoice_${(invoiceData.invoiceNumber || invoiceData.orderNumber).replace(/\//g, '-')}.pdf`;
+
+/**
+ * Draw the invoice onto a new jsPDF document. Tables use jspdf-autotable when the
+ * plugin has been applied to jsPDF and a plain text layout otherwise.
+ */
+export const drawInvoice = (doc: jsPDF, invoiceData: InvoiceData): void => {
   // Company/Brand Information
   doc.setFontSize(24);
   doc.setFont('helvetica', 'bold');
@@ -80,19 +98,32 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(100, 100, 100);
-  doc.text('Smart Rental Management System', 20, 32);
+  doc.text(invoiceData.businessName || 'Smart Rental Management System', 20, 32);
+  if (invoiceData.supplierGstin) {
+    doc.text(`GSTIN: ${invoiceData.supplierGstin}`, 20, 38);
+  }
+  if (invoiceData.placeOfSupply) {
+    doc.text(`Place of Supply: ${invoiceData.placeOfSupply}`, 20, 44);
+  }
   
   // Invoice Title
   doc.setFontSize(20);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(0, 0, 0);
-  doc.text('INVOICE', 150, 25);
+  if (invoiceData.supplierGstin) {
+    doc.text('TAX INVOICE', 130, 25);
+  } else {
+    doc.text('INVOICE', 150, 25);
+  }
   
   // Invoice Details
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`Invoice #: ${invoiceData.orderNumber}`, 150, 35);
+  doc.text(`Invoice #: ${invoiceData.invoiceNumber || invoiceData.orderNumber}`, 150, 35);
   doc.text(`Date: ${invoiceData.orderDate}`, 150, 42);
+  if (invoiceData.invoiceNumber) {
+    doc.text(`Order #: ${invoiceData.orderNumber}`, 150, 49);
+  }
   
   // Customer Information
   doc.setFontSize(12);
@@ -114,13 +145,9 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  const deliveryAddr = invoiceData.deliveryAddress;
-  doc.text(deliveryAddr.street, 110, 65);
-  doc.text(`${deliveryAddr.city}, ${deliveryAddr.state} ${deliveryAddr.zipCode}`, 110, 72);
-  doc.text(deliveryAddr.country, 110, 79);
-  if (deliveryAddr.landmark) {
-    doc.text(`Landmark: ${deliveryAddr.landmark}`, 110, 86);
-  }
+  addressLines(invoiceData.deliveryAddress || {}).slice(0, 4).forEach((line, index) => {
+    doc.text(line, 110, 65 + index * 7);
+  });
   
   // Add line separator
   doc.setLineWidth(0.5);
@@ -132,7 +159,7 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   
   // Prepare table data
   const tableData = invoiceData.items.map(item => [
-    item.name,
+    item.hsnSacCode ? `${item.name}\nHSN/SAC: ${item.hsnSacCode}` : item.name,
     `${item.fromDate} to ${item.toDate}`,
     item.duration,
     item.quantity.toString(),
@@ -186,7 +213,7 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
     let yPos = tableStartY + 10;
     invoiceData.items.forEach((item, index) => {
       doc.setFont('helvetica', 'normal');
-      doc.text(`${index + 1}. ${item.name}`, 20, yPos);
+      doc.text(`${index + 1}. ${item.name}${item.hsnSacCode ? ` (HSN/SAC ${item.hsnSacCode})` : ''}`, 20, yPos);
       doc.text(`Period: ${item.fromDate} to ${item.toDate}`, 30, yPos + 5);
       doc.text(`Qty: ${item.quantity} | Rate: ₹${item.pricePerUnit} | Amount: ₹${item.totalPrice}`, 30, yPos + 10);
       yPos += 20;
@@ -209,7 +236,7 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   
   // Discount (if applicable)
   if (invoiceData.pricing.discountAmount && invoiceData.pricing.discountAmount > 0) {
-    doc.text(`Discount (${invoiceData.pricing.discount}%):`, summaryStartX, summaryY);
+    doc.text(invoiceData.pricing.discount ? `Discount (${invoiceData.pricing.discount}%):` : 'Discount:', summaryStartX, summaryY);
     doc.text(`-₹${invoiceData.pricing.discountAmount.toFixed(2)}`, 175, summaryY);
     summaryY += 7;
   }
@@ -219,10 +246,29 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   doc.text(invoiceData.pricing.deliveryCharge > 0 ? `₹${invoiceData.pricing.deliveryCharge.toFixed(2)}` : 'FREE', 175, summaryY);
   summaryY += 7;
   
-  // Tax
-  doc.text('Tax:', summaryStartX, summaryY);
-  doc.text(`₹${invoiceData.pricing.tax.toFixed(2)}`, 175, summaryY);
-  summaryY += 7;
+  // Tax, one line per tax when the breakdown is known
+  const taxes = invoiceData.pricing.taxes?.length
+    ? invoiceData.pricing.taxes
+    : [{ name: 'Tax', rate: undefined, amount: invoiceData.pricing.tax }];
+  taxes.forEach((tax) => {
+    doc.text(tax.rate !== undefined ? `${tax.name} (${tax.rate}%):` : `${tax.name}:`, summaryStartX, summaryY);
+    doc.text(`₹${tax.amount.toFixed(2)}`, 175, summaryY);
+    summaryY += 7;
+  });
+
+  // Late fees with how they were computed (if applicable)
+  if (invoiceData.pricing.lateFee && invoiceData.pricing.lateFee > 0) {
+    doc.text('Late Fees:', summaryStartX, summaryY);
+    doc.text(`₹${invoiceData.pricing.lateFee.toFixed(2)}`, 175, summaryY);
+    summaryY += 5;
+    doc.setFontSize(8);
+    (invoiceData.pricing.lateFeeDetails || []).forEach((detail) => {
+      doc.text(detail, summaryStartX, summaryY);
+      summaryY += 4;
+    });
+    doc.setFontSize(10);
+    summaryY += 3;
+  }
   
   // Total
   doc.setLineWidth(0.5);
@@ -233,13 +279,32 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   doc.setFontSize(12);
   doc.text('Total:', summaryStartX, summaryY);
   doc.text(`₹${invoiceData.pricing.total.toFixed(2)}`, 175, summaryY);
+
+  // Refundable security deposit (if applicable)
+  if (invoiceData.pricing.deposit && invoiceData.pricing.deposit > 0) {
+    summaryY += 7;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text('Refundable Deposit:', summaryStartX, summaryY);
+    doc.text(`₹${invoiceData.pricing.deposit.toFixed(2)}`, 175, summaryY);
+    summaryY += 7;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Amount Paid:', summaryStartX, summaryY);
+    doc.text(`₹${(invoiceData.pricing.total + invoiceData.pricing.deposit).toFixed(2)}`, 175, summaryY);
+  }
   
   // Payment and delivery info
   summaryY += 15;
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(10);
-  doc.text(`Payment Method: ${invoiceData.paymentMethod}`, 20, summaryY);
-  doc.text(`Delivery Method: ${invoiceData.deliveryMethod}`, 20, summaryY + 7);
+  [
+    invoiceData.paymentMethod && `Payment Method: ${invoiceData.paymentMethod}`,
+    invoiceData.paymentStatus && `Payment Status: ${invoiceData.paymentStatus}`,
+    invoiceData.deliveryMethod && `Delivery Method: ${invoiceData.deliveryMethod}`,
+  ].filter(Boolean).forEach((line) => {
+    doc.text(line as string, 20, summaryY);
+    summaryY += 7;
+  });
   
   // Footer
   const footerY = doc.internal.pageSize.height - 30;
@@ -252,14 +317,87 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   doc.setLineWidth(1);
   doc.setDrawColor(96, 64, 88);
   doc.rect(10, 10, 190, doc.internal.pageSize.height - 20);
-  
-  // Save the PDF
-  const fileName = `Invoice_${invoiceData.orderNumber}_${new Date().toISOString().split('T')[0]}.pdf`;
-  doc.save(fileName);
-  
+};
+
+/**
+ * Deposit statement for a rental order: deposit per line, every ledger movement and what is still held
+ */
+export const generateDepositStatementPDF = async (statement: DepositStatement): Promise<void> => {
+  try {
+    if (typeof window === 'undefined') {
+      throw new Error('PDF generation is only available in the browser');
+    }
+
+    const jsPDF = (await import('jspdf')).default;
+    const doc = new jsPDF();
+
+    doc.setFontSize(24);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(96, 64, 88);
+    doc.text('RENTAL MANAGER', 20, 25);
+
+    doc.setFontSize(16);
+    doc.setTextColor(0, 0, 0);
+    doc.text('DEPOSIT STATEMENT', 120, 25);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Order #: ${statement.orderNumber}`, 120, 35);
+    doc.text(`Date: ${new Date().toLocaleDateString()}`, 120, 42);
+    doc.text(statement.customerName, 20, 42);
+    doc.text(statement.customerEmail, 20, 49);
+
+    let y = 65;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Deposit Required', 20, y);
+    y += 8;
+    doc.setFont('helvetica', 'normal');
+    statement.lines.forEach((line) => {
+      doc.text(`${line.productName} x ${line.quantity}`, 20, y);
+      doc.text(`₹${line.deposit.toFixed(2)}`, 175, y);
+      y += 7;
+    });
+
+    y += 5;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Movements', 20, y);
+    y += 8;
+    doc.setFont('helvetica', 'normal');
+    statement.entries.forEach((entry) => {
+      const sign = entry.type === 'collected' ? '' : '-';
+      doc.text(new Date(entry.createdAt).toLocaleDateString(), 20, y);
+      doc.text(describeDepositEntry(entry).slice(0, 70), 50, y);
+      doc.text(`${sign}₹${entry.amount.toFixed(2)}`, 175, y);
+      y += 7;
+    });
+
+    y += 5;
+    doc.setLineWidth(0.5);
+    doc.line(120, y, 190, y);
+    y += 7;
+    const { summary } = statement;
+    ([
+      ['Collected:', summary.collected],
+      ['Deducted:', summary.deducted],
+      ['Refunded:', summary.refunded],
+      ['Still Held:', summary.held],
+    ] as const).forEach(([label, amount]) => {
+      doc.text(label, 120, y);
+      doc.text(`₹${amount.toFixed(2)}`, 175, y);
+      y += 7;
+    });
+    if (statement.settledAt) {
+      doc.text(`Settled on ${new Date(statement.settledAt).toLocaleDateString()}`, 20, y + 5);
+    }
+
+    doc.setLineWidth(1);
+    doc.setDrawColor(96, 64, 88);
+    doc.rect(10, 10, 190, doc.internal.pageSize.height - 20);
+
+    doc.save(`Deposit_${statement.orderNumber}_${new Date().toISOString().split('T')[0]}.pdf`);
   } catch (error) {
     console.error('Error generating PDF:', error);
-    throw new Error('Failed to generate PDF invoice');
+    throw new Error('Failed to generate deposit statement');
   }
 };
 
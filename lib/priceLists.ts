@@ -0,0 +1,188 @@
+/**
+ * Customer Price Lists
+ * Negotiated rates for a business's corporate (B2B) customers. A list is assigned
+ * to customer accounts by email, or to a whole company by its email domain, and
+ * holds fixed rates per product or a percentage off a product, a category or the
+ * whole catalog. A matching list replaces the public rates and pricing rules.
+ * Safe to import on the client.
+ */
+
+import { AppliedPriceList, PriceList, PriceListEntry, PriceListEntryType, PriceListRates } from '@/types';
+
+export const PRICE_LIST_ENTRY_TYPES: PriceListEntryType[] = ['fixed', 'percent'];
+
+export const RATE_FIELDS: Array<keyof PriceListRates> = [
+  'pricePerHour',
+  'pricePerDay',
+  'pricePerWeek',
+  'pricePerMonth',
+  'pricePerYear',
+];
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Blank rates fall back to the public rate
+const optionalNumber = (value: any) => (value === null || value === undefined || value === '' ? undefined : Number(value));
+
+/**
+ * Domain part of an email or a typed domain, e.g. "acme.com" from "@Acme.com"
+ */
+export function normalizeEmailDomain(value: string): string {
+  const trimmed = String(value || '').trim().toLowerCase();
+  return trimmed.slice(trimmed.lastIndexOf('@') + 1);
+}
+
+/**
+ * Price list fields from a create or update request; fields left out of the body
+ * are left out of the result so updates only touch what was sent
+ */
+export function normalizePriceListInput(body: any): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (!body || typeof body !== 'object') return fields;
+
+  if (body.name !== undefined) fields.name = typeof body.name === 'string' ? body.name : '';
+  if (body.description !== undefined) fields.description = typeof body.description === 'string' ? body.description : '';
+  if (Array.isArray(body.customerEmails)) {
+    fields.customerEmails = Array.from(new Set<string>(
+      body.customerEmails
+        .filter((email: any) => typeof email === 'string' && email.includes('@'))
+        .map((email: string) => email.trim().toLowerCase())
+    ));
+  }
+  if (Array.isArray(body.emailDomains)) {
+    fields.emailDomains = Array.from(new Set<string>(
+      body.emailDomains
+        .filter((domain: any) => typeof domain === 'string')
+        .map(normalizeEmailDomain)
+        .filter((domain: string) => domain.includes('.'))
+    ));
+  }
+  if (Array.isArray(body.entries)) {
+    fields.entries = body.entries
+      .filter((entry: any) => entry && typeof entry === 'object')
+      .map((entry: any) => {
+        const normalized: Record<string, any> = {
+          type: entry.type,
+          productId: OBJECT_ID_PATTERN.test(String(entry.productId)) ? String(entry.productId) : undefined,
+          category: typeof entry.category === 'string' && entry.category.trim() ? entry.category.trim() : undefined,
+        };
+        if (entry.type === 'percent') {
+          normalized.percentOff = optionalNumber(entry.percentOff);
+        } else {
+          RATE_FIELDS.forEach((field) => { normalized[field] = optionalNumber(entry[field]); });
+        }
+        return normalized;
+      });
+  }
+  if (body.active !== undefined) fields.active = !!body.active;
+  return fields;
+}
+
+/**
+ * Price list as sent to the browser and used by the pricing engine, from a stored list
+ */
+export function toPriceList(list: any): PriceList {
+  return {
+    _id: list._id?.toString(),
+    name: list.name,
+    description: list.description || undefined,
+    customerEmails: list.customerEmails || [],
+    emailDomains: list.emailDomains || [],
+    entries: (list.entries || []).map((entry: any) => {
+      const normalized: PriceListEntry = {
+        type: entry.type,
+        productId: entry.productId?.toString(),
+        category: entry.category || undefined,
+      };
+      if (entry.type === 'percent') normalized.percentOff = entry.percentOff;
+      RATE_FIELDS.forEach((field) => {
+        if (entry[field] > 0) normalized[field] = entry[field];
+      });
+      return normalized;
+    }),
+    active: list.active !== false,
+  };
+}
+
+/**
+ * The list that applies to a customer out of a business's lists: one naming the
+ * account wins over one covering its email domain
+ */
+export function pickPriceList<T extends PriceList>(lists: T[], customerEmail?: string): T | undefined {
+  if (!customerEmail) return undefined;
+  const email = customerEmail.trim().toLowerCase();
+  const domain = normalizeEmailDomain(email);
+  const active = lists.filter((list) => list.active !== false);
+  return (
+    active.find((list) => list.customerEmails.includes(email)) ||
+    active.find((list) => list.emailDomains.includes(domain))
+  );
+}
+
+/**
+ * The entry of a list that prices a product: its own entry, then its category's,
+ * then one covering the whole catalog
+ */
+export function priceListEntryFor(
+  list: PriceList,
+  product: { _id?: any; category?: string }
+): PriceListEntry | undefined {
+  const productId = product._id?.toString();
+  return (
+    list.entries.find((entry) => !!productId && entry.productId === productId) ||
+    list.entries.find((entry) => !entry.productId && !!entry.category && entry.category === product.category) ||
+    list.entries.find((entry) => !entry.productId && !entry.category)
+  );
+}
+
+/**
+ * Rates a list gives a product, or undefined when the list has no price for it.
+ * Fixed entries replace the tiers they set; percentage entries take the same
+ * share off every public rate.
+ */
+export function priceListRates(list: PriceList, product: PriceListRates & { _id?: any; category?: string }): PriceListRates | undefined {
+  const entry = priceListEntryFor(list, product);
+  if (!entry) return undefined;
+
+  const rates: PriceListRates = {};
+  RATE_FIELDS.forEach((field) => {
+    const listRate = product[field];
+    if (entry.type === 'fixed') {
+      rates[field] = entry[field] && entry[field]! > 0 ? entry[field] : listRate;
+    } else if (typeof listRate === 'number' && listRate > 0) {
+      rates[field] = round(listRate * (1 - (entry.percentOff || 0) / 100));
+    }
+  });
+  return rates;
+}
+
+/**
+ * A product as shown to a customer: the list's rates in place of the public
+ * ones, which are kept in listRates
+ */
+export function withPriceList<T extends PriceListRates & { _id?: any; category?: string }>(
+  product: T,
+  list?: PriceList
+): T & { priceList?: AppliedPriceList; listRates?: PriceListRates } {
+  const rates = list && priceListRates(list, product);
+  if (!list || !rates) return product;
+
+  const listRates: PriceListRates = {};
+  RATE_FIELDS.forEach((field) => { listRates[field] = product[field]; });
+  return { ...product, ...rates, listRates, priceList: { _id: list._id, name: list.name } };
+}
+
+/**
+ * One line describing an entry, e.g. "15% off Photography"
+ */
+export function describePriceListEntry(entry: PriceListEntry, productName?: string): string {
+  const scope = entry.productId ? productName || 'Removed product' : entry.category || 'all products';
+  if (entry.type === 'percent') return `${entry.percentOff || 0}% off ${scope}`;
+
+  const rates = RATE_FIELDS
+    .filter((field) => entry[field])
+    .map((field) => `₹${entry[field]}/${field.replace('pricePer', '').toLowerCase()}`);
+  return `${scope}: ${rates.join(', ') || 'public rates'}`;
+}
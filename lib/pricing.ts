@@ -0,0 +1,242 @@
+/**
+ * Rental Pricing Engine
+ * Finds the cheapest mix of year/month/week/day/hour rates that covers a rental
+ * period, adjusts it by the business's pricing rules (lib/pricingRules), and rolls
+ * line totals up into order totals. Safe to import on the client;
+ * server code quotes through lib/quote so prices never come from the request body.
+ */
+
+import { PriceBreakdownLine, PriceCalculation, PricingRule, RentalDurationUnit } from '@/types';
+import { applyPricingRules } from '@/lib/pricingRules';
+
+// Length of each rate tier in hours, longest first
+export const PRICE_TIERS: Array<{ unit: RentalDurationUnit; hours: number }> = [
+  { unit: 'year', hours: 24 * 365 },
+  { unit: 'month', hours: 24 * 30 },
+  { unit: 'week', hours: 24 * 7 },
+  { unit: 'day', hours: 24 },
+  { unit: 'hour', hours: 1 },
+];
+
+// Longest rental the engine will price (ten years)
+export const MAX_RENTAL_HOURS = 24 * 365 * 10;
+
+// Delivery options offered at checkout
+export const DELIVERY_METHODS = [
+  { id: 'standard', name: 'Standard Delivery', time: '3-5 days', price: 0 },
+  { id: 'express', name: 'Express Delivery', time: '1-2 days', price: 50 },
+  { id: 'same-day', name: 'Same Day Delivery', time: 'Same day', price: 100 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type PriceRates = Partial<Record<'pricePerHour' | 'pricePerDay' | 'pricePerWeek' | 'pricePerMonth' | 'pricePerYear', number>>;
+
+export interface OrderTotals {
+  subtotal: number;
+  discountPercent: number; // Set for percent coupons; flat coupons only have an amount
+  discount: number;
+  deliveryCharge: number;
+  tax: number; // GST: CGST + SGST + IGST
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  deposit: number; // Refundable security deposit, not part of the rental total
+  amountPayable: number; // Charged at checkout: total plus deposit
+}
+
+/**
+ * Error raised when a rental cannot be priced
+ */
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+// Round a currency amount to paise
+export const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rate for one tier, or undefined when the product is not offered for that tier
+ */
+export function getTierRate(rates: PriceRates, unit: RentalDurationUnit): number | undefined {
+  const key = `pricePer${unit.charAt(0).toUpperCase()}${unit.slice(1)}` as keyof PriceRates;
+  const rate = rates[key];
+  return typeof rate === 'number' && rate > 0 ? rate : undefined;
+}
+
+/**
+ * Treat an end at or before the start as a one day rental, matching order completion
+ */
+export function normalizeRentalPeriod(start: Date, end: Date): { start: Date; end: Date } {
+  const normalizedEnd = new Date(end);
+  if (normalizedEnd <= start) {
+    normalizedEnd.setTime(start.getTime() + 24 * HOUR_MS);
+  }
+  return { start: new Date(start), end: normalizedEnd };
+}
+
+/**
+ * Billable hours in a period, rounded up to whole hours
+ */
+export function getBillableHours(start: Date, end: Date): number {
+  return Math.max(1, Math.ceil((end.getTime() - start.getTime()) / HOUR_MS));
+}
+
+/**
+ * Cheapest combination of rate tiers covering at least the given number of hours.
+ * A longer tier may be chosen when it is cheaper than the exact mix (e.g. 6 days
+ * billed as 1 week).
+ */
+export function priceForHours(rates: PriceRates, hours: number): PriceBreakdownLine[] {
+  if (hours > MAX_RENTAL_HOURS) {
+    throw new PricingError('Rental period is too long to price');
+  }
+
+  const tiers = PRICE_TIERS
+    .map((tier) => ({ ...tier, rate: getTierRate(rates, tier.unit) }))
+    .filter((tier): tier is { unit: RentalDurationUnit; hours: number; rate: number } => tier.rate !== undefined);
+
+  if (tiers.length === 0) {
+    throw new PricingError('This product has no rental rates set');
+  }
+
+  // cost[h] is the cheapest way to cover h hours; pick[h] the tier used last
+  const cost = new Float64Array(hours + 1).fill(Infinity);
+  const pick = new Int8Array(hours + 1).fill(-1);
+  cost[0] = 0;
+  for (let h = 1; h <= hours; h++) {
+    for (let t = 0; t < tiers.length; t++) {
+      const candidate = cost[Math.max(0, h - tiers[t].hours)] + tiers[t].rate;
+      if (candidate < cost[h]) {
+        cost[h] = candidate;
+        pick[h] = t;
+      }
+    }
+  }
+
+  const counts = new Array(tiers.length).fill(0);
+  for (let h = hours; h > 0; h = Math.max(0, h - tiers[pick[h]].hours)) {
+    counts[pick[h]]++;
+  }
+
+  return tiers
+    .map((tier, t) => ({
+      unit: tier.unit,
+      count: counts[t],
+      rate: tier.rate,
+      amount: roundAmount(counts[t] * tier.rate),
+    }))
+    .filter((line) => line.count > 0);
+}
+
+/**
+ * Price a rental of a product for a period and number of units. Pricing rules
+ * already narrowed to the product adjust the tier price; last-minute rules measure
+ * from bookedAt, which defaults to now.
+ */
+export function calculateRentalPrice(
+  rates: PriceRates,
+  startDate: Date,
+  endDate: Date,
+  quantity: number = 1,
+  pricing: { rules?: PricingRule[]; bookedAt?: Date } = {}
+): PriceCalculation {
+  const { start, end } = normalizeRentalPeriod(startDate, endDate);
+  const hours = getBillableHours(start, end);
+  const breakdown = priceForHours(rates, hours);
+  const baseUnitTotal = roundAmount(breakdown.reduce((sum, line) => sum + line.amount, 0));
+  const adjustments = applyPricingRules(pricing.rules || [], { start, end, bookedAt: pricing.bookedAt }, baseUnitTotal);
+  const unitTotal = Math.max(0, roundAmount(adjustments.reduce((sum, adjustment) => sum + adjustment.amount, baseUnitTotal)));
+  const units = Math.max(1, Math.floor(quantity) || 1);
+
+  return {
+    hours,
+    quantity: units,
+    baseUnitTotal,
+    unitTotal,
+    totalPrice: roundAmount(unitTotal * units),
+    breakdown,
+    adjustments,
+  };
+}
+
+/**
+ * Delivery charge for a delivery method id, free when unknown or not chosen
+ */
+export function getDeliveryCharge(methodId?: string): number {
+  return DELIVERY_METHODS.find((m) => m.id === methodId)?.price || 0;
+}
+
+/**
+ * Map a browser cart line to the fields the server prices from
+ */
+export function toQuoteItem(item: { productId: string; quantity?: number; fromDate?: string; toDate?: string }) {
+  return {
+    productId: item.productId,
+    quantity: item.quantity || 1,
+    startDate: item.fromDate,
+    endDate: item.toDate,
+  };
+}
+
+/**
+ * Split an amount across parts in proportion to their weights, to the paisa, so
+ * the shares always add back up to the amount
+ */
+export function allocateAmount(amount: number, weights: number[]): number[] {
+  const whole = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!amount || !whole) return weights.map(() => 0);
+
+  let remaining = roundAmount(amount);
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return remaining;
+    const share = roundAmount((amount * weight) / whole);
+    remaining = roundAmount(remaining - share);
+    return share;
+  });
+}
+
+/**
+ * Roll line totals up into discount, delivery, GST and grand total. A coupon's
+ * discount amount is worked out by lib/coupons and GST per business by lib/gst;
+ * both are passed in.
+ */
+export function calculateOrderTotals(
+  lineTotals: number[],
+  options: {
+    discountPercent?: number;
+    discount?: number; // Overrides discountPercent when the coupon covers only some lines
+    deliveryCharge?: number;
+    deposit?: number;
+    gst?: { cgst: number; sgst: number; igst: number };
+  } = {}
+): OrderTotals {
+  const subtotal = roundAmount(lineTotals.reduce((sum, amount) => sum + amount, 0));
+  const discountPercent = options.discountPercent || 0;
+  const discount = roundAmount(options.discount ?? (subtotal * discountPercent) / 100);
+  const deliveryCharge = options.deliveryCharge || 0;
+  const cgst = roundAmount(options.gst?.cgst || 0);
+  const sgst = roundAmount(options.gst?.sgst || 0);
+  const igst = roundAmount(options.gst?.igst || 0);
+  const tax = roundAmount(cgst + sgst + igst);
+  const total = roundAmount(subtotal - discount + deliveryCharge + tax);
+  const deposit = roundAmount(options.deposit || 0);
+
+  return {
+    subtotal,
+    discountPercent,
+    discount,
+    deliveryCharge,
+    tax,
+    cgst,
+    sgst,
+    igst,
+    total,
+    deposit,
+    amountPayable: roundAmount(total + deposit),
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Pricing Rules
+ * Raises or lowers the tier price of a rental: weekend multipliers, date-range
+ * overrides such as festival seasons, long-rental discounts and surcharges for
+ * last-minute bookings. Each rule adds a percentage of the tier price, spread over
+ * the hours it covers, and reports what it did so the price can be explained.
+ * Days are counted in Indian Standard Time. Safe to import on the client.
+ */
+
+import { PriceAdjustment, PricingRule, PricingRuleType } from '@/types';
+
+export const PRICING_RULE_TYPES: PricingRuleType[] = ['weekend', 'date_range', 'long_duration', 'lead_time'];
+
+export const PRICING_RULE_LABELS: Record<PricingRuleType, string> = {
+  weekend: 'Weekend pricing',
+  date_range: 'Date range',
+  long_duration: 'Long rental',
+  lead_time: 'Last-minute booking',
+};
+
+// Saturday and Sunday
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Start of the Indian calendar day a moment falls on
+function istDayStart(time: number) {
+  return Math.floor((time + IST_OFFSET_MS) / DAY_MS) * DAY_MS - IST_OFFSET_MS;
+}
+
+// Hours of [start, end) that fall on the given days of the week
+function hoursOnDays(start: Date, end: Date, days: number[]) {
+  let covered = 0;
+  for (let day = istDayStart(start.getTime()); day < end.getTime(); day += DAY_MS) {
+    const weekday = new Date(day + IST_OFFSET_MS).getUTCDay();
+    if (!days.includes(weekday)) continue;
+    covered += Math.min(end.getTime(), day + DAY_MS) - Math.max(start.getTime(), day);
+  }
+  return covered / HOUR_MS;
+}
+
+// Hours of [start, end) inside the days from first to last, both included
+function hoursInRange(start: Date, end: Date, first: Date, last: Date) {
+  const from = istDayStart(first.getTime());
+  const to = istDayStart(last.getTime()) + DAY_MS;
+  return Math.max(0, Math.min(end.getTime(), to) - Math.max(start.getTime(), from)) / HOUR_MS;
+}
+
+const formatDay = (date: Date) =>
+  new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+const formatPercent = (percent: number) => `${percent > 0 ? '+' : ''}${percent}%`;
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+// Blank optional numbers and dates clear the field
+const optionalNumber = (value: any) => (value === null || value === '' ? null : Number(value));
+const optionalDate = (value: any) => (value ? new Date(value) : null);
+
+/**
+ * Rule fields from a create or update request; fields left out of the body are
+ * left out of the result so updates only touch what was sent
+ */
+export function normalizePricingRuleInput(body: any): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (!body || typeof body !== 'object') return fields;
+
+  if (body.name !== undefined) fields.name = typeof body.name === 'string' ? body.name : '';
+  if (body.type !== undefined) fields.type = body.type;
+  if (body.percent !== undefined) fields.percent = Number(body.percent);
+  if (Array.isArray(body.productIds)) {
+    fields.productIds = body.productIds.filter((id: any) => OBJECT_ID_PATTERN.test(String(id)));
+  }
+  if (Array.isArray(body.categories)) {
+    fields.categories = body.categories.filter((category: any) => typeof category === 'string' && category.trim());
+  }
+  if (Array.isArray(body.daysOfWeek)) {
+    fields.daysOfWeek = body.daysOfWeek.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6);
+  }
+  if (body.startDate !== undefined) fields.startDate = optionalDate(body.startDate);
+  if (body.endDate !== undefined) fields.endDate = optionalDate(body.endDate);
+  if (body.minHours !== undefined) fields.minHours = optionalNumber(body.minHours);
+  if (body.withinHours !== undefined) fields.withinHours = optionalNumber(body.withinHours);
+  if (body.active !== undefined) fields.active = !!body.active;
+  return fields;
+}
+
+/**
+ * Rule as sent to the browser and used by the pricing engine, from a stored rule
+ */
+export function toPricingRule(rule: any): PricingRule {
+  return {
+    _id: rule._id?.toString(),
+    name: rule.name,
+    type: rule.type,
+    percent: rule.percent,
+    productIds: (rule.productIds || []).map((id: any) => id.toString()),
+    categories: rule.categories || [],
+    daysOfWeek: rule.daysOfWeek?.length ? rule.daysOfWeek : undefined,
+    startDate: rule.startDate ? new Date(rule.startDate).toISOString() : undefined,
+    endDate: rule.endDate ? new Date(rule.endDate).toISOString() : undefined,
+    minHours: rule.minHours ?? undefined,
+    withinHours: rule.withinHours ?? undefined,
+    active: rule.active !== false,
+  };
+}
+
+/**
+ * Whether a rule's product and category scope covers a product
+ */
+export function ruleCoversProduct(rule: PricingRule, product: { _id?: any; category?: string }): boolean {
+  const productIds = (rule.productIds || []).map((id) => id.toString());
+  const categories = rule.categories || [];
+  return (
+    (productIds.length === 0 || (!!product._id && productIds.includes(product._id.toString()))) &&
+    (categories.length === 0 || (!!product.category && categories.includes(product.category)))
+  );
+}
+
+/**
+ * What the rules do to one unit's tier price over a rental period. Weekend and
+ * date-range rules apply to the hours they cover and add up; of the long-rental
+ * and last-minute rules only the one with the closest threshold applies.
+ */
+export function applyPricingRules(
+  rules: PricingRule[],
+  period: { start: Date; end: Date; bookedAt?: Date },
+  baseUnitTotal: number
+): PriceAdjustment[] {
+  const { start, end } = period;
+  const rentalHours = (end.getTime() - start.getTime()) / HOUR_MS;
+  if (!(rentalHours > 0) || !(baseUnitTotal > 0)) return [];
+
+  const adjust = (rule: PricingRule, hours: number): PriceAdjustment => ({
+    ruleId: rule._id?.toString(),
+    name: rule.name,
+    type: rule.type,
+    percent: rule.percent,
+    hours: round(hours),
+    amount: round((baseUnitTotal * Math.min(1, hours / rentalHours) * rule.percent) / 100),
+  });
+
+  const active = rules.filter((rule) => rule.active !== false && rule.percent);
+  const adjustments: PriceAdjustment[] = [];
+
+  for (const rule of active) {
+    if (rule.type === 'weekend') {
+      const hours = hoursOnDays(start, end, rule.daysOfWeek?.length ? rule.daysOfWeek : DEFAULT_WEEKEND_DAYS);
+      if (hours > 0) adjustments.push(adjust(rule, hours));
+    } else if (rule.type === 'date_range' && rule.startDate && rule.endDate) {
+      const hours = hoursInRange(start, end, new Date(rule.startDate), new Date(rule.endDate));
+      if (hours > 0) adjustments.push(adjust(rule, hours));
+    }
+  }
+
+  const longRental = active
+    .filter((rule) => rule.type === 'long_duration' && rentalHours >= (rule.minHours || 0))
+    .sort((a, b) => (b.minHours || 0) - (a.minHours || 0))[0];
+  if (longRental) adjustments.push(adjust(longRental, rentalHours));
+
+  const leadHours = (start.getTime() - (period.bookedAt || new Date()).getTime()) / HOUR_MS;
+  const lastMinute = active
+    .filter((rule) => rule.type === 'lead_time' && leadHours < (rule.withinHours || 0))
+    .sort((a, b) => (a.withinHours || 0) - (b.withinHours || 0))[0];
+  if (lastMinute) adjustments.push(adjust(lastMinute, rentalHours));
+
+  return adjustments.filter((adjustment) => adjustment.amount !== 0);
+}
+
+/**
+ * One line explaining an adjustment, e.g. "Weekend rates +25% on 48 of 72 hours"
+ */
+export function describePriceAdjustment(adjustment: PriceAdjustment, rentalHours?: number): string {
+  const partial = rentalHours && adjustment.hours < rentalHours ? ` on ${adjustment.hours} of ${rentalHours} hours` : '';
+  return `${adjustment.name} ${formatPercent(adjustment.percent)}${partial}`;
+}
+
+/**
+ * When a rule applies, as shown to the business
+ */
+export function describePricingRule(rule: PricingRule): string {
+  const change = formatPercent(rule.percent);
+  switch (rule.type) {
+    case 'weekend': {
+      const days = rule.daysOfWeek?.length ? rule.daysOfWeek : DEFAULT_WEEKEND_DAYS;
+      return `${change} on ${days.map((day) => DAY_NAMES[day]).join(', ')}`;
+    }
+    case 'date_range':
+      return rule.startDate && rule.endDate
+        ? `${change} from ${formatDay(new Date(rule.startDate))} to ${formatDay(new Date(rule.endDate))}`
+        : change;
+    case 'long_duration':
+      return `${change} on rentals of ${rule.minHours || 0} hours or more`;
+    case 'lead_time':
+      return `${change} when booked less than ${rule.withinHours || 0} hours ahead`;
+    default:
+      return change;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Server Quotes
+ * Prices cart lines from the products stored in the database using the pricing
+ * engine. Cart, checkout, payment, booking and order creation all quote here
+ * instead of trusting amounts sent by the browser. A signed-in customer's price
+ * list replaces the public rates of the businesses that give them one. Coupons
+ * discount the lines of the business that runs them, and GST is worked out per
+ * rental business, from its registration and the delivery state.
+ */
+
+import Product from '@/models/Product';
+import BusinessSettings from '@/models/BusinessSettings';
+import PricingRule from '@/models/PricingRule';
+import PriceList from '@/models/PriceList';
+import { logger } from '@/lib/logger';
+import {
+  OrderTotals,
+  PRICE_TIERS,
+  PricingError,
+  allocateAmount,
+  calculateOrderTotals,
+  calculateRentalPrice,
+  getDeliveryCharge,
+  normalizeRentalPeriod,
+  roundAmount,
+} from '@/lib/pricing';
+import { calculateLineDeposit } from '@/lib/deposits';
+import { priceListRates } from '@/lib/priceLists';
+import { RentalConstraintError, checkRentalDuration } from '@/lib/rentalConstraints';
+import { AppliedCoupon, applyCoupon } from '@/lib/coupons';
+import { DEFAULT_GST_RATE, DEFAULT_SAC_CODE, calculateGst, resolveStateCode } from '@/lib/gst';
+import { AppliedPriceList, GstBreakdown, PriceAdjustment, PriceBreakdownLine, RentalDurationUnit } from '@/types';
+
+export interface QuoteItemInput {
+  productId: string;
+  quantity?: number;
+  startDate?: string | Date;
+  endDate?: string | Date;
+}
+
+export interface QuoteOptions {
+  couponCode?: string;
+  deliveryMethod?: string;
+  deliveryState?: string; // State name or GST state code of the delivery address
+  customerId?: string; // Signed-in customer, for first-order and per-customer coupon limits
+  customerEmail?: string; // Signed-in customer, for their price lists
+}
+
+export interface QuoteLine {
+  productId: string;
+  productName: string;
+  image?: string;
+  category?: string;
+  endUserId: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  hours: number;
+  durationUnit: RentalDurationUnit;
+  baseUnitPrice: number; // One unit from the rate tiers, before pricing rules
+  unitPrice: number; // One unit for the whole period
+  lineTotal: number;
+  breakdown: PriceBreakdownLine[];
+  adjustments: PriceAdjustment[]; // Pricing rules that changed the unit price
+  priceList?: AppliedPriceList; // Customer price list that replaced the public rates
+  listUnitPrice?: number; // One unit at public prices, when a price list applied
+  deposit: number; // Security deposit for the whole line
+  hsnSacCode: string;
+  gstRate: number;
+}
+
+// What one rental business supplies in the quote; checkout turns each into an order
+export interface QuoteSupply {
+  endUserId: string;
+  subtotal: number;
+  discount: number;
+  deliveryCharge: number;
+  gst: GstBreakdown;
+}
+
+export interface Quote {
+  lines: QuoteLine[];
+  supplies: QuoteSupply[];
+  totals: OrderTotals;
+  coupon?: AppliedCoupon;
+  couponCode?: string;
+  deliveryMethod?: string;
+}
+
+/**
+ * Price one rental line from the customer's price list when the product's business
+ * gives them one, otherwise from the product's stored rates and pricing rules
+ */
+export async function quoteLine(item: QuoteItemInput, customerEmail?: string): Promise<QuoteLine> {
+  const product: any = await Product.findById(item.productId).lean();
+  if (!product) {
+    throw new PricingError('Product not found');
+  }
+
+  const rawStart = item.startDate ? new Date(item.startDate) : undefined;
+  const rawEnd = item.endDate ? new Date(item.endDate) : undefined;
+  if (!rawStart || !rawEnd || isNaN(rawStart.getTime()) || isNaN(rawEnd.getTime())) {
+    throw new PricingError(`Rental dates are required for ${product.name}`);
+  }
+
+  const { start, end } = normalizeRentalPeriod(rawStart, rawEnd);
+  // When a rental may be booked is checked on booking; its length holds for every quote
+  const violation = checkRentalDuration(product.rentalConstraints, start, end, product.name);
+  if (violation) {
+    throw new RentalConstraintError(violation);
+  }
+  const quantity = Number(item.quantity) || 1;
+  const priceList = await PriceList.forCustomer(product.endUserId, customerEmail);
+  const contractRates = priceList && priceListRates(priceList, product);
+  const publicPrice = calculateRentalPrice(product, start, end, quantity, {
+    rules: await PricingRule.forProduct(product),
+  });
+  const price = contractRates ? calculateRentalPrice(contractRates, start, end, quantity) : publicPrice;
+
+  // Report the line in the longest tier used, e.g. "2 weeks" for 2 weeks and 3 days
+  const longest = PRICE_TIERS.find((tier) => price.breakdown.some((b) => b.unit === tier.unit));
+
+  return {
+    productId: product._id.toString(),
+    productName: product.name,
+    image: product.image,
+    category: product.category,
+    endUserId: product.endUserId?.toString(),
+    quantity: price.quantity,
+    startDate: start,
+    endDate: end,
+    hours: price.hours,
+    durationUnit: longest?.unit || 'day',
+    baseUnitPrice: price.baseUnitTotal,
+    unitPrice: price.unitTotal,
+    lineTotal: price.totalPrice,
+    breakdown: price.breakdown,
+    adjustments: price.adjustments,
+    priceList: contractRates ? { _id: priceList!._id, name: priceList!.name } : undefined,
+    listUnitPrice: contractRates ? publicPrice.unitTotal : undefined,
+    deposit: calculateLineDeposit(product.depositRule, {
+      lineTotal: price.totalPrice,
+      quantity: price.quantity,
+      replacementValue: product.replacementValue,
+    }),
+    hsnSacCode: product.hsnSacCode || DEFAULT_SAC_CODE,
+    gstRate: product.gstRate ?? DEFAULT_GST_RATE,
+  };
+}
+
+// Split the delivery charge across businesses by subtotal, then tax each business's
+// lines net of their coupon discount. Delivery is taxed with the goods it delivers.
+async function quoteSupplies(
+  lines: QuoteLine[],
+  lineDiscounts: number[],
+  deliveryCharge: number,
+  deliveryState?: string
+): Promise<QuoteSupply[]> {
+  const linesByEndUser = new Map<string, Array<{ line: QuoteLine; discount: number }>>();
+  lines.forEach((line, i) => {
+    const group = linesByEndUser.get(line.endUserId) || [];
+    group.push({ line, discount: lineDiscounts[i] || 0 });
+    linesByEndUser.set(line.endUserId, group);
+  });
+
+  const groups = Array.from(linesByEndUser.entries());
+  const subtotals = groups.map(([, group]) => roundAmount(group.reduce((sum, { line }) => sum + line.lineTotal, 0)));
+  const deliveryCharges = allocateAmount(deliveryCharge, subtotals);
+  const placeOfSupply = resolveStateCode(deliveryState);
+
+  return Promise.all(groups.map(async ([endUserId, group], index) => {
+    const lineDelivery = allocateAmount(deliveryCharges[index], group.map(({ line }) => line.lineTotal));
+    const profile = await BusinessSettings.getGstProfile(endUserId);
+
+    return {
+      endUserId,
+      subtotal: subtotals[index],
+      discount: roundAmount(group.reduce((sum, entry) => sum + entry.discount, 0)),
+      deliveryCharge: deliveryCharges[index],
+      gst: calculateGst(
+        group.map(({ line, discount }, i) => ({
+          hsnSacCode: line.hsnSacCode,
+          rate: line.gstRate,
+          taxableAmount: roundAmount(line.lineTotal - discount + lineDelivery[i]),
+        })),
+        { supplierGstin: profile.gstin, supplierStateCode: profile.stateCode, placeOfSupply }
+      ),
+    };
+  }));
+}
+
+/**
+ * Price a whole cart, applying the coupon and delivery method, with the security
+ * deposits it needs. A coupon that cannot be applied fails the quote with a
+ * CouponError saying why.
+ */
+export async function buildQuote(items: QuoteItemInput[], options: QuoteOptions = {}): Promise<Quote> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PricingError('No items to price');
+  }
+
+  const lines = await Promise.all(items.map((item) => quoteLine(item, options.customerEmail)));
+  const lineTotals = lines.map((line) => line.lineTotal);
+  const coupon = options.couponCode?.trim()
+    ? await applyCoupon(options.couponCode, lines, options.customerId)
+    : undefined;
+  const deliveryCharge = getDeliveryCharge(options.deliveryMethod);
+  const supplies = await quoteSupplies(lines, coupon?.lineDiscounts || [], deliveryCharge, options.deliveryState);
+
+  const totals = calculateOrderTotals(lineTotals, {
+    discountPercent: coupon?.discountType === 'percent' ? coupon.value : 0,
+    discount: coupon?.discount || 0,
+    deliveryCharge,
+    deposit: lines.reduce((sum, line) => sum + line.deposit, 0),
+    gst: {
+      cgst: supplies.reduce((sum, supply) => sum + supply.gst.cgst, 0),
+      sgst: supplies.reduce((sum, supply) => sum + supply.gst.sgst, 0),
+      igst: supplies.reduce((sum, supply) => sum + supply.gst.igst, 0),
+    },
+  });
+
+  logger.debug('Quote built', { lines: lines.length, total: totals.total, coupon: coupon?.code });
+
+  return {
+    lines,
+    supplies,
+    totals,
+    coupon,
+    couponCode: coupon?.code,
+    deliveryMethod: options.deliveryMethod,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Razorpay Client
+ * Shared Razorpay SDK instance for creating orders and issuing refunds, and the
+ * receipt format that ties a Razorpay order to the customer it was created for
+ */
+
+import Razorpay from 'razorpay';
+
+let client: Razorpay | null = null;
+
+/**
+ * Razorpay client built from RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET on first use
+ */
+export function getRazorpay(): Razorpay {
+  if (!client) {
+    client = new Razorpay({
+      key_id: process.env.RAZORPAY_KEY_ID as string,
+      key_secret: process.env.RAZORPAY_KEY_SECRET as string,
+    });
+  }
+  return client;
+}
+
+/**
+ * Receipt for a customer's Razorpay order; Razorpay caps receipts at 40 characters
+ */
+export function razorpayReceipt(customerId: string, suffix: string): string {
+  return `rcpt_${customerId}_${suffix}`;
+}
+
+/**
+ * Whether a Razorpay receipt was made for this customer by razorpayReceipt
+ */
+export function isCustomerReceipt(receipt: string | undefined, customerId: string): boolean {
+  return Boolean(receipt?.startsWith(`rcpt_${customerId}_`));
+}
@@ -0,0 +1,385 @@
+/**
+ * Cancellations, Refunds and Deposit Settlement
+ * Cancels rental orders under the business's cancellation policy, settles security
+ * deposits once the items are back, and returns money through Razorpay. A cancelled
+ * order no longer holds units, so its stock goes straight back to the availability pool.
+ * Refunds of the rental amount and deposit deductions draft a credit or debit note
+ * against the order's invoice.
+ */
+
+import RentalOrder from '@/models/RentalOrder';
+import Payment from '@/models/Payment';
+import BusinessSettings from '@/models/BusinessSettings';
+import { logger } from '@/lib/logger';
+import { getRazorpay } from '@/lib/razorpay';
+import { roundAmount } from '@/lib/pricing';
+import { assertTransition } from '@/lib/orderStatus';
+import { calculateCancellationRefund } from '@/lib/cancellation';
+import { summarizeDeposit } from '@/lib/deposits';
+import { derivePaymentStatus, getOrderPaymentBalance, syncOrderPaymentStatus } from '@/lib/payments';
+import { syncInvoicePaymentStatus } from '@/lib/invoices';
+import { autoDraftInvoiceNote } from '@/lib/invoiceNotes';
+import { CancellationInitiator, DepositDeductionCategory, IRefund } from '@/types';
+
+type Actor = { id?: string; name?: string };
+
+const REFUND_LOCK_MS = 2 * 60 * 1000;
+
+/**
+ * Error raised when a refund cannot be issued; the order is left as it was
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+/**
+ * Error raised when a deposit cannot be settled in the order's current state
+ */
+export class DepositSettlementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepositSettlementError';
+  }
+}
+
+/**
+ * Error raised when another request is already cancelling the order or settling its
+ * deposit, or has just done so
+ */
+export class RefundInProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundInProgressError';
+  }
+}
+
+/**
+ * Refund the customer would get for cancelling the order now. The policy applies to
+ * the rental amount; any deposit held is always returned in full.
+ */
+export async function quoteCancellation(order: any, initiatedBy: CancellationInitiator, at: Date = new Date()) {
+  const policy = await BusinessSettings.getCancellationPolicy(order.endUserId);
+  const balance = await getOrderPaymentBalance(order);
+  const depositHeld = summarizeDeposit(order.depositAmount || 0, order.depositLedger || []).held;
+  const rentalPaid = roundAmount(Math.max(0, balance.paid - depositHeld));
+
+  return {
+    policy,
+    balance,
+    quote: {
+      ...calculateCancellationRefund(policy, new Date(order.startDate), rentalPaid, initiatedBy, at),
+      depositRefund: depositHeld,
+    },
+  };
+}
+
+/**
+ * Cancel a rental order, refunding what the policy allows. The refund is issued
+ * before the order changes, so a failed refund leaves the order untouched.
+ */
+export async function cancelRentalOrder(
+  order: any,
+  options: { initiatedBy: CancellationInitiator; actor: Actor; reason?: string }
+) {
+  // Fail before any money moves if the order can no longer be cancelled
+  assertTransition(order.status, 'cancelled');
+
+  const now = new Date();
+  if (!(await claimOrderForRefund(order, { status: order.status }, now))) {
+    throw new RefundInProgressError('This order is already being cancelled');
+  }
+  try {
+    return await cancelClaimedOrder(order, options, now);
+  } finally {
+    await releaseOrderRefund(order);
+  }
+}
+
+// Cancel an order this request holds the refund lock on
+async function cancelClaimedOrder(
+  order: any,
+  options: { initiatedBy: CancellationInitiator; actor: Actor; reason?: string },
+  now: Date
+) {
+  const { quote, balance } = await quoteCancellation(order, options.initiatedBy, now);
+  const reason = options.reason?.trim() || undefined;
+  const amount = roundAmount(quote.refundAmount + quote.depositRefund);
+
+  let refund: IRefund | undefined;
+  if (amount > 0) {
+    refund = await issueRefund(order, amount, 'cancellation', balance.razorpayPaymentId, reason, options.actor, now);
+    order.refunds.push({ ...refund, createdBy: options.actor.id });
+  }
+  if (quote.depositRefund > 0) {
+    order.depositLedger.push({
+      type: 'refunded',
+      amount: quote.depositRefund,
+      reason: 'Order cancelled',
+      razorpayRefundId: refund?.razorpayRefundId,
+      createdBy: options.actor.id,
+      createdByName: options.actor.name,
+      createdAt: now,
+    });
+    order.depositSettledAt = now;
+  }
+
+  order.cancellation = { ...quote, reason, cancelledAt: now };
+  if (refund && !order.razorpayOrderId) {
+    order.paymentStatus = derivePaymentStatus(
+      roundAmount(order.totalPrice + (order.depositAmount || 0)),
+      balance.captured,
+      balance.refunded + refund.amount
+    );
+  }
+
+  try {
+    await order.updateStatus('cancelled', reason, options.actor);
+  } catch (error) {
+    await keepRefundOnRecord(order, refund, options.actor);
+    throw error;
+  }
+
+  if (refund && order.razorpayOrderId) {
+    await refreshPaymentStatus(order);
+  } else if (refund) {
+    await syncInvoicePaymentStatus([order._id]);
+  }
+
+  // The deposit is not on the invoice, so only the rental refund is credited
+  if (quote.refundAmount > 0) {
+    await autoDraftInvoiceNote(order, {
+      type: 'credit',
+      reason: 'cancellation',
+      amount: quote.refundAmount,
+      description: `Cancellation refund (${quote.refundPercent}%)`,
+      sourceKey: `cancellation:${order._id}`,
+    }, options.actor);
+  }
+
+  logger.booking('CANCELLED', order._id?.toString(), {
+    initiatedBy: options.initiatedBy,
+    hoursBeforeStart: quote.hoursBeforeStart,
+    refundPercent: quote.refundPercent,
+    refundAmount: quote.refundAmount,
+    depositRefund: quote.depositRefund,
+    refundMethod: refund?.method,
+  });
+
+  return { order, quote, refund };
+}
+
+/**
+ * Settle the deposit of a returned order: record deductions for damage or late fees
+ * and refund whatever is left of the deposit to the customer
+ */
+export async function settleDeposit(
+  order: any,
+  options: {
+    deductions: Array<{ category: DepositDeductionCategory; amount: number; reason?: string }>;
+    actor: Actor;
+  }
+) {
+  if (order.status !== 'returned') {
+    throw new DepositSettlementError('Deposits are settled once the order has been returned');
+  }
+  if (order.depositSettledAt) {
+    throw new DepositSettlementError('The deposit for this order has already been settled');
+  }
+
+  const now = new Date();
+  if (!(await claimOrderForRefund(order, { status: 'returned', depositSettledAt: null }, now))) {
+    throw new RefundInProgressError('The deposit for this order is already being settled');
+  }
+  try {
+    return await settleClaimedDeposit(order, options, now);
+  } finally {
+    await releaseOrderRefund(order);
+  }
+}
+
+// Settle the deposit of an order this request holds the refund lock on
+async function settleClaimedDeposit(
+  order: any,
+  options: {
+    deductions: Array<{ category: DepositDeductionCategory; amount: number; reason?: string }>;
+    actor: Actor;
+  },
+  now: Date
+) {
+  const { held } = summarizeDeposit(order.depositAmount || 0, order.depositLedger || []);
+  const deductions = options.deductions
+    .map((d) => ({ ...d, amount: roundAmount(Number(d.amount) || 0), reason: d.reason?.trim() || undefined }))
+    .filter((d) => d.amount > 0);
+  const deducted = roundAmount(deductions.reduce((sum, d) => sum + d.amount, 0));
+  if (deducted > held) {
+    throw new DepositSettlementError(`Deductions of ₹${deducted} exceed the ₹${held} deposit held`);
+  }
+
+  const remaining = roundAmount(held - deducted);
+
+  let refund: IRefund | undefined;
+  if (remaining > 0) {
+    const balance = await getOrderPaymentBalance(order);
+    refund = await issueRefund(order, remaining, 'deposit', balance.razorpayPaymentId, 'Deposit refund', options.actor, now);
+    order.refunds.push({ ...refund, createdBy: options.actor.id });
+  }
+
+  for (const deduction of deductions) {
+    order.depositLedger.push({
+      type: 'deducted',
+      amount: deduction.amount,
+      category: deduction.category,
+      reason: deduction.reason,
+      createdBy: options.actor.id,
+      createdByName: options.actor.name,
+      createdAt: now,
+    });
+  }
+  if (refund) {
+    order.depositLedger.push({
+      type: 'refunded',
+      amount: remaining,
+      razorpayRefundId: refund.razorpayRefundId,
+      createdBy: options.actor.id,
+      createdByName: options.actor.name,
+      createdAt: now,
+    });
+  }
+  order.depositSettledAt = now;
+
+  try {
+    await order.save();
+  } catch (error) {
+    await keepRefundOnRecord(order, refund, options.actor);
+    throw error;
+  }
+
+  if (refund && order.razorpayOrderId) {
+    await refreshPaymentStatus(order);
+  }
+
+  // Damage and other charges are billed here; late fees were billed when the order came back
+  for (const [index, deduction] of Array.from(deductions.entries())) {
+    if (deduction.category === 'late_fee') continue;
+    await autoDraftInvoiceNote(order, {
+      type: 'debit',
+      reason: deduction.category === 'damage' ? 'damage' : 'other',
+      amount: deduction.amount,
+      description: deduction.reason || (deduction.category === 'damage' ? 'Damage charge' : 'Deposit deduction'),
+      sourceKey: `deposit:${order._id}:${index}`,
+    }, options.actor);
+  }
+
+  logger.booking('DEPOSIT_SETTLED', order._id?.toString(), {
+    held,
+    deducted,
+    refunded: remaining,
+    refundMethod: refund?.method,
+  });
+
+  return { order, deducted, refunded: remaining, refund };
+}
+
+// Lock the order before money moves, as long as the database still shows it in the
+// expected state. A lock left by a crashed request lapses after REFUND_LOCK_MS.
+async function claimOrderForRefund(order: any, expected: Record<string, unknown>, now: Date) {
+  const claimed = await RentalOrder.findOneAndUpdate(
+    {
+      _id: order._id,
+      ...expected,
+      $or: [{ refundLockedUntil: { $exists: false } }, { refundLockedUntil: null }, { refundLockedUntil: { $lte: now } }],
+    },
+    { $set: { refundLockedUntil: new Date(now.getTime() + REFUND_LOCK_MS) } },
+    { new: true }
+  ).select('_id');
+  return Boolean(claimed);
+}
+
+async function releaseOrderRefund(order: any) {
+  await RentalOrder.updateOne({ _id: order._id }, { $unset: { refundLockedUntil: '' } });
+}
+
+// Return money to the customer: through Razorpay for Razorpay checkouts, otherwise recorded as paid back by hand
+async function issueRefund(
+  order: any,
+  amount: number,
+  kind: IRefund['kind'],
+  razorpayPaymentId: string | undefined,
+  reason: string | undefined,
+  actor: Actor,
+  now: Date
+): Promise<IRefund> {
+  const refund = order.razorpayOrderId
+    ? await issueRazorpayRefund(order, amount, razorpayPaymentId, reason, now)
+    : { amount, method: 'manual' as const, status: 'processed' as const, createdAt: now };
+  return { ...refund, kind, reason, createdByName: actor.name };
+}
+
+// Refund part of the checkout's Razorpay payment and record it in the payment ledger
+async function issueRazorpayRefund(
+  order: any,
+  amount: number,
+  razorpayPaymentId: string | undefined,
+  reason: string | undefined,
+  now: Date
+) {
+  if (!razorpayPaymentId) {
+    throw new RefundError('No captured Razorpay payment was found for this order');
+  }
+
+  let issued;
+  try {
+    issued = await getRazorpay().payments.refund(razorpayPaymentId, {
+      amount: Math.round(amount * 100),
+      notes: { rentalOrder: order.orderNumber || order._id.toString(), reason: reason || 'Order cancelled' },
+    });
+  } catch (error) {
+    const message = (error as any)?.error?.description || (error as Error).message;
+    logger.error('Razorpay refund failed', { orderId: order._id?.toString(), razorpayPaymentId, amount, error: message });
+    throw new RefundError(`Refund failed: ${message}`);
+  }
+
+  // Razorpay's own refund webhooks are counted once alongside this entry, by refund id
+  await Payment.create({
+    eventId: `refund.created:${issued.id}`,
+    event: 'refund.created',
+    razorpayOrderId: order.razorpayOrderId,
+    razorpayPaymentId,
+    razorpayRefundId: issued.id,
+    rentalOrderIds: [order._id],
+    amount,
+    currency: issued.currency || 'INR',
+    status: issued.status,
+    payload: issued,
+    receivedAt: now,
+  });
+
+  return {
+    amount,
+    method: 'razorpay' as const,
+    status: issued.status === 'processed' ? 'processed' as const : 'pending' as const,
+    razorpayRefundId: issued.id,
+    razorpayPaymentId,
+    createdAt: now,
+  };
+}
+
+// The money has already gone back, so keep a Razorpay refund on record even if the order failed to save
+async function keepRefundOnRecord(order: any, refund: IRefund | undefined, actor: Actor) {
+  if (!refund?.razorpayRefundId) return;
+  await RentalOrder.updateOne({ _id: order._id }, { $push: { refunds: { ...refund, createdBy: actor.id } } });
+  logger.error('Refund issued but order update failed', {
+    orderId: order._id?.toString(),
+    razorpayRefundId: refund.razorpayRefundId,
+  });
+}
+
+// Rebuild payment status from the ledger now that it holds the new refund
+async function refreshPaymentStatus(order: any) {
+  await syncOrderPaymentStatus(order.razorpayOrderId);
+  const synced: any = await RentalOrder.findById(order._id).select('paymentStatus').lean();
+  if (synced) order.paymentStatus = synced.paymentStatus;
+}
@@ -0,0 +1,189 @@
+/**
+ * Rental Constraints
+ * A product's limits on how long each unit is rented for and when a rental may be
+ * booked: minimum notice before the start, how far ahead the start may be, and the
+ * days of the week it may start on. Length limits hold for every change to a
+ * rental; the booking limits only when the rental is booked. Safe to import on the client.
+ */
+
+import { DAY_NAMES } from '@/lib/pricingRules';
+import { MAX_RENTAL_HOURS, PricingError } from '@/lib/pricing';
+import { RentalConstraintRule, RentalConstraints } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Longest notice a product may ask for (one year) and furthest it may be booked ahead (ten years)
+export const MAX_NOTICE_HOURS = 24 * 365;
+export const MAX_ADVANCE_DAYS = 365 * 10;
+
+export interface RentalConstraintViolation {
+  rule: RentalConstraintRule;
+  message: string;
+}
+
+/**
+ * Error raised when a rental breaks its product's constraints
+ */
+export class RentalConstraintError extends PricingError {
+  readonly rule: RentalConstraintRule;
+
+  constructor(violation: RentalConstraintViolation) {
+    super(violation.message);
+    this.name = 'RentalConstraintError';
+    this.rule = violation.rule;
+  }
+}
+
+// Whole number within limits, or undefined when blank or zero
+const limit = (value: any, max: number) => {
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) && number > 0 ? Math.min(number, max) : undefined;
+};
+
+/**
+ * Clean up constraints from a form or request; null when nothing is limited
+ */
+export function normalizeRentalConstraints(input?: Partial<RentalConstraints> | null): RentalConstraints | null {
+  if (!input) return null;
+
+  const constraints: RentalConstraints = {
+    minDurationHours: limit(input.minDurationHours, MAX_RENTAL_HOURS),
+    maxDurationHours: limit(input.maxDurationHours, MAX_RENTAL_HOURS),
+    minNoticeHours: limit(input.minNoticeHours, MAX_NOTICE_HOURS),
+    maxAdvanceDays: limit(input.maxAdvanceDays, MAX_ADVANCE_DAYS),
+    startDaysOfWeek: Array.isArray(input.startDaysOfWeek)
+      ? Array.from(new Set(input.startDaysOfWeek.map(Number)))
+          .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+          .sort()
+      : undefined,
+  };
+  // Every day allowed is no limit at all
+  if (!constraints.startDaysOfWeek?.length || constraints.startDaysOfWeek.length === 7) {
+    delete constraints.startDaysOfWeek;
+  }
+
+  (Object.keys(constraints) as Array<keyof RentalConstraints>).forEach((key) => {
+    if (constraints[key] === undefined) delete constraints[key];
+  });
+  return Object.keys(constraints).length > 0 ? constraints : null;
+}
+
+/**
+ * A number of hours in the largest whole unit, e.g. "2 weeks", "3 days", "36 hours"
+ */
+export function formatDurationHours(hours: number): string {
+  const [amount, unit] = hours % (24 * 7) === 0
+    ? [hours / (24 * 7), 'week']
+    : hours % 24 === 0
+      ? [hours / 24, 'day']
+      : [hours, 'hour'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+const istWeekday = (date: Date) => new Date(date.getTime() + IST_OFFSET_MS).getUTCDay();
+
+/**
+ * The length limit a rental breaks, if any. These hold whenever a rental changes,
+ * including an extension.
+ */
+export function checkRentalDuration(
+  constraints: RentalConstraints | null | undefined,
+  start: Date,
+  end: Date,
+  productName = 'This product'
+): RentalConstraintViolation | null {
+  if (!constraints) return null;
+  const hours = (new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS;
+
+  if (constraints.minDurationHours && hours < constraints.minDurationHours) {
+    return {
+      rule: 'min_duration',
+      message: `${productName} must be rented for at least ${formatDurationHours(constraints.minDurationHours)}`,
+    };
+  }
+  if (constraints.maxDurationHours && hours > constraints.maxDurationHours) {
+    return {
+      rule: 'max_duration',
+      message: `${productName} can be rented for at most ${formatDurationHours(constraints.maxDurationHours)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * The booking limit a rental starting at `start` breaks when booked at `now`, if any
+ */
+export function checkRentalStart(
+  constraints: RentalConstraints | null | undefined,
+  start: Date,
+  now: Date = new Date(),
+  productName = 'This product'
+): RentalConstraintViolation | null {
+  if (!constraints) return null;
+  const noticeHours = (new Date(start).getTime() - now.getTime()) / HOUR_MS;
+
+  if (constraints.minNoticeHours && noticeHours < constraints.minNoticeHours) {
+    return {
+      rule: 'min_notice',
+      message: `${productName} must be booked at least ${formatDurationHours(constraints.minNoticeHours)} before the rental starts`,
+    };
+  }
+  if (constraints.maxAdvanceDays && noticeHours > constraints.maxAdvanceDays * 24) {
+    return {
+      rule: 'max_advance',
+      message: `${productName} can be booked at most ${constraints.maxAdvanceDays} day${constraints.maxAdvanceDays === 1 ? '' : 's'} ahead`,
+    };
+  }
+  const days = constraints.startDaysOfWeek;
+  if (days?.length && !days.includes(istWeekday(new Date(start)))) {
+    return {
+      rule: 'start_day',
+      message: `${productName} rentals can only start on ${days.map((day) => DAY_NAMES[day]).join(', ')}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Every limit a new rental must meet: its length, then when it is booked
+ */
+export function checkRentalConstraints(
+  constraints: RentalConstraints | null | undefined,
+  start: Date,
+  end: Date,
+  now: Date = new Date(),
+  productName?: string
+): RentalConstraintViolation | null {
+  return checkRentalDuration(constraints, start, end, productName) || checkRentalStart(constraints, start, now, productName);
+}
+
+/**
+ * Earliest and latest start a customer may book at `now`, for date pickers
+ */
+export function bookableStartRange(
+  constraints: RentalConstraints | null | undefined,
+  now: Date = new Date()
+): { earliest: Date; latest?: Date } {
+  return {
+    earliest: new Date(now.getTime() + (constraints?.minNoticeHours || 0) * HOUR_MS),
+    latest: constraints?.maxAdvanceDays ? new Date(now.getTime() + constraints.maxAdvanceDays * DAY_MS) : undefined,
+  };
+}
+
+/**
+ * One line per limit, e.g. "Minimum rental 2 days", for product pages
+ */
+export function describeRentalConstraints(constraints: RentalConstraints | null | undefined): string[] {
+  if (!constraints) return [];
+  const lines = [];
+  if (constraints.minDurationHours) lines.push(`Minimum rental ${formatDurationHours(constraints.minDurationHours)}`);
+  if (constraints.maxDurationHours) lines.push(`Maximum rental ${formatDurationHours(constraints.maxDurationHours)}`);
+  if (constraints.minNoticeHours) lines.push(`Book at least ${formatDurationHours(constraints.minNoticeHours)} ahead`);
+  if (constraints.maxAdvanceDays) lines.push(`Book at most ${constraints.maxAdvanceDays} days ahead`);
+  if (constraints.startDaysOfWeek?.length) {
+    lines.push(`Starts on ${constraints.startDaysOfWeek.map((day) => DAY_NAMES[day]).join(', ')} only`);
+  }
+  return lines;
+}
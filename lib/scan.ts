@@ -0,0 +1,221 @@
+/**
+ * Scan-Driven Handovers
+ * Resolves a scanned label code to the product or unit it names and the rentals
+ * it is part of, and hands it over in one step by validating the order's pickup
+ * or return transfer. A scanned unit is assigned to the order line on the way
+ * out; the pickup is validated once every line names its units. Units are checked
+ * back in one at a time; the return is validated once every unit is back.
+ */
+
+import mongoose from 'mongoose';
+import Product from '@/models/Product';
+import Asset, { IAsset } from '@/models/Asset';
+import RentalOrder from '@/models/RentalOrder';
+import Transfer from '@/models/Transfer';
+import { logger } from '@/lib/logger';
+import { parseLabelCode } from '@/lib/barcode';
+import { AssetError, assertAssetsAssigned, assignAssets, checkInAsset, toAssetSummary, unitsStillOut } from '@/lib/assets';
+import { validateTransfer } from '@/lib/transfers';
+import { AssetCondition, HandoverKind, ScanRental, ScanResult } from '@/types';
+
+type Actor = { id?: string; name?: string };
+
+// Orders still to go out and orders out with the customer
+const PICKUP_STATUSES = ['confirmed', 'reserved'];
+const RETURN_STATUSES = ['delivered', 'late'];
+
+// Most rentals listed for a scanned product
+const MAX_RENTALS = 10;
+
+/**
+ * Error raised when a code cannot be resolved or handed over
+ */
+export class ScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanError';
+  }
+}
+
+/**
+ * The product, and unit if the code names one, of the business
+ */
+async function resolveCode(code: string, endUserId: string): Promise<{ product: any; asset?: IAsset }> {
+  const parsed = parseLabelCode(code);
+  if (!parsed) {
+    throw new ScanError('Not a product or unit code');
+  }
+
+  if (parsed.kind === 'product') {
+    const product = await Product.findOne({ _id: parsed.value, endUserId });
+    if (!product) throw new ScanError('No product with this code');
+    return { product };
+  }
+
+  const asset = await Asset.findOne({ endUserId, serialNumber: parsed.value });
+  if (!asset) throw new ScanError(`No unit with serial number ${parsed.value}`);
+  const product = await Product.findById(asset.productId);
+  if (!product) throw new ScanError(`The product of unit ${asset.serialNumber} no longer exists`);
+  return { product, asset };
+}
+
+// The order's lines of the product
+function productLines(order: any, productId: string) {
+  return order.items.filter((item: any) => (item.productId?._id || item.productId).toString() === productId);
+}
+
+function toScanRental(order: any, productId: string): ScanRental {
+  const lines = productLines(order, productId);
+  return {
+    rentalOrderId: order._id.toString(),
+    orderNumber: order.orderNumber,
+    status: order.status,
+    customerName: order.customerName,
+    startDate: new Date(order.startDate).toISOString(),
+    endDate: new Date(order.endDate).toISOString(),
+    quantity: lines.reduce((sum: number, item: any) => sum + item.quantity, 0),
+    unitsAssigned: lines.reduce((sum: number, item: any) => sum + (item.assetIds?.length || 0), 0),
+    action: PICKUP_STATUSES.includes(order.status) ? 'pickup' : 'return',
+  };
+}
+
+/**
+ * Active rentals of a product or unit, soonest handover first. A rented unit has
+ * the order it is out on; an available unit has the orders still to go out with
+ * room for it.
+ */
+async function findRentals(product: any, asset?: IAsset): Promise<ScanRental[]> {
+  const productId = product._id.toString();
+
+  if (asset?.status === 'rented') {
+    const order = asset.currentOrderId ? await RentalOrder.findById(asset.currentOrderId) : null;
+    return order && RETURN_STATUSES.includes(order.status) ? [toScanRental(order, productId)] : [];
+  }
+  if (asset && asset.status !== 'available') {
+    return [];
+  }
+
+  const statuses = asset ? PICKUP_STATUSES : [...PICKUP_STATUSES, ...RETURN_STATUSES];
+  const orders: any[] = await RentalOrder.find({
+    endUserId: product.endUserId,
+    status: { $in: statuses },
+    'items.productId': product._id,
+  })
+    .sort({ startDate: 1 })
+    .limit(MAX_RENTALS * 2);
+
+  return orders
+    .map((order) => toScanRental(order, productId))
+    .filter((rental) => !asset || rental.unitsAssigned < rental.quantity)
+    .sort((a, b) => {
+      // Pickups by start, returns by end
+      const at = (r: ScanRental) => new Date(r.action === 'pickup' ? r.startDate : r.endDate).getTime();
+      return at(a) - at(b);
+    })
+    .slice(0, MAX_RENTALS);
+}
+
+/**
+ * A scanned code's product or unit and its active rentals
+ */
+export async function scanCode(code: string, endUserId: string): Promise<ScanResult> {
+  const { product, asset } = await resolveCode(code, endUserId);
+  return {
+    code: code.trim(),
+    kind: asset ? 'unit' : 'product',
+    productId: product._id.toString(),
+    productName: product.name,
+    asset: asset ? toAssetSummary(asset, product.name) : undefined,
+    rentals: await findRentals(product, asset),
+  };
+}
+
+/**
+ * Pick up or return a scanned item on one of its rentals. Returns whether the
+ * handover was completed, or why it is still waiting on other units.
+ */
+export async function scanHandover(
+  code: string,
+  endUserId: string,
+  input: { orderId: string; action: HandoverKind; condition?: AssetCondition },
+  actor: Actor
+): Promise<{ completed: boolean; message: string; result: ScanResult }> {
+  const { product, asset } = await resolveCode(code, endUserId);
+  if (!mongoose.Types.ObjectId.isValid(input.orderId)) {
+    throw new ScanError('Order not found');
+  }
+  const order: any = await RentalOrder.findOne({ _id: input.orderId, endUserId });
+  if (!order || productLines(order, product._id.toString()).length === 0) {
+    throw new ScanError(`${product.name} is not on this order`);
+  }
+
+  const expected = input.action === 'pickup' ? PICKUP_STATUSES : RETURN_STATUSES;
+  if (!expected.includes(order.status)) {
+    throw new ScanError(`Order ${order.orderNumber} is ${order.status} and cannot be ${input.action === 'pickup' ? 'picked up' : 'returned'}`);
+  }
+
+  // Orders confirmed before transfers existed get theirs now
+  await Transfer.createForOrder(order);
+  const transfer = await Transfer.findOne({ rentalOrderId: order._id, type: input.action });
+  if (!transfer) {
+    throw new ScanError(`Order ${order.orderNumber} has no ${input.action} transfer`);
+  }
+
+  let completed = true;
+  let message: string;
+  if (input.action === 'pickup') {
+    if (asset) {
+      const line = productLines(order, product._id.toString()).find(
+        (item: any) => (item.assetIds?.length || 0) < item.quantity
+      );
+      const assignedHere = productLines(order, product._id.toString()).some((item: any) =>
+        (item.assetIds || []).some((id: any) => id.equals(asset._id))
+      );
+      if (!assignedHere) {
+        if (!line) throw new ScanError(`Every unit of ${product.name} on ${order.orderNumber} is already scanned`);
+        await assignAssets(order, [{
+          itemId: line._id.toString(),
+          assetIds: [...(line.assetIds || []).map((id: any) => id.toString()), asset._id.toString()],
+        }]);
+      }
+    }
+
+    // Scanning units one at a time: the pickup waits until every line names its units
+    let pending: string | null = null;
+    try {
+      await assertAssetsAssigned(order);
+    } catch (error) {
+      if (!(error instanceof AssetError) || !asset) throw error;
+      pending = error.message;
+    }
+
+    completed = !pending;
+    if (pending) {
+      message = `${asset!.serialNumber} assigned to ${order.orderNumber}. ${pending}`;
+    } else {
+      await validateTransfer(transfer, actor);
+      message = `${order.orderNumber} picked up`;
+    }
+  } else {
+    // Scanning units one at a time: the return waits until every unit out on the order is back
+    let stillOut: string[] = [];
+    if (asset) {
+      if (!asset.currentOrderId?.equals(order._id)) {
+        throw new ScanError(`Unit ${asset.serialNumber} is not out on ${order.orderNumber}`);
+      }
+      await checkInAsset(order, asset, input.condition);
+      stillOut = await unitsStillOut(order);
+    }
+
+    completed = stillOut.length === 0;
+    if (!completed) {
+      message = `${asset!.serialNumber} checked in. ${stillOut.length} unit${stillOut.length === 1 ? '' : 's'} still out: ${stillOut.join(', ')}`;
+    } else {
+      await validateTransfer(transfer, actor);
+      message = `${order.orderNumber} returned`;
+    }
+  }
+
+  logger.info('Scan handover', { code, orderNumber: order.orderNumber, action: input.action, completed, by: actor.name });
+  return { completed, message, result: await scanCode(code, endUserId) };
+}
@@ -0,0 +1,196 @@
+/**
+ * Stock Ledger
+ * Adjusts a product's owned units through its stock ledger and reports its stock
+ * against the business's minimum and maximum levels. Owned units stay on the
+ * product for the availability engine; every change to them is a ledger entry,
+ * and a product changed outside the ledger is reconciled with an entry for the
+ * difference.
+ */
+
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+import { logger } from '@/lib/logger';
+import { getAvailability } from '@/lib/availability';
+import { StockLevels, StockMovementSummary, StockMovementType, StockOverview, StockStatus } from '@/types';
+
+type Actor = { id?: string; name?: string };
+
+// Most units one product can own, as on the product model
+export const MAX_STOCK = 10000;
+
+// Movements the business makes by hand; reservations and returns come from orders
+export const STOCK_ADJUSTMENT_TYPES: StockMovementType[] = ['increase', 'decrease', 'write_off'];
+
+const DEFAULT_REASONS: Partial<Record<StockMovementType, string>> = {
+  increase: 'Stock increased',
+  decrease: 'Stock decreased',
+  write_off: 'Written off',
+};
+
+/**
+ * Error raised when a stock adjustment cannot be made
+ */
+export class StockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StockError';
+  }
+}
+
+/**
+ * Clean up stock levels from a form or request; blank or zero levels are unset,
+ * and null means neither is set
+ */
+export function normalizeStockLevels(input?: Partial<StockLevels> | null): StockLevels | null {
+  if (!input) return null;
+  const level = (value: any) => {
+    const number = Math.floor(Number(value));
+    return Number.isFinite(number) && number > 0 ? Math.min(number, MAX_STOCK) : undefined;
+  };
+
+  const levels: StockLevels = {};
+  const minimum = level(input.minimum);
+  const maximum = level(input.maximum);
+  if (minimum) levels.minimum = minimum;
+  if (maximum) levels.maximum = maximum;
+  return Object.keys(levels).length > 0 ? levels : null;
+}
+
+/**
+ * Where a product's stock stands against its levels
+ */
+export function stockStatus(owned: number, available: number, levels?: StockLevels | null): StockStatus {
+  if (available <= 0) return 'out_of_stock';
+  if (levels?.minimum && available <= levels.minimum) return 'low';
+  if (levels?.maximum && owned >= levels.maximum) return 'high';
+  return 'normal';
+}
+
+/**
+ * Record the difference between the product's owned units and its ledger, with
+ * the opening stock as the first entry of a product that has none
+ */
+export async function reconcileStock(product: any, actor: Actor = {}, reason?: string) {
+  const { entries, balance } = await StockMovement.ledgerBalance(product._id);
+  const owned = product.quantityAvailable || 0;
+  const difference = owned - balance;
+  if (difference === 0) return null;
+
+  const movement = await StockMovement.create({
+    productId: product._id,
+    endUserId: product.endUserId,
+    type: difference > 0 ? 'increase' : 'decrease',
+    quantity: Math.abs(difference),
+    change: difference,
+    balance: owned,
+    reason: reason || (entries === 0 ? 'Opening stock' : 'Reconciled with product quantity'),
+    createdBy: actor.id,
+    createdByName: actor.name || 'System',
+  });
+
+  logger.info('Stock reconciled', { productId: product._id.toString(), ledger: balance, owned });
+  return movement;
+}
+
+/**
+ * Increase, decrease or write off units of a product and record it in the ledger
+ */
+export async function adjustStock(
+  product: any,
+  input: { type: StockMovementType; quantity: number; reason?: string },
+  actor: Actor
+) {
+  if (!STOCK_ADJUSTMENT_TYPES.includes(input.type)) {
+    throw new StockError('Adjustment type must be increase, decrease or write_off');
+  }
+  const quantity = Number(input.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_STOCK) {
+    throw new StockError(`Quantity must be a whole number from 1 to ${MAX_STOCK}`);
+  }
+
+  // The ledger has to account for the current units before it can move them
+  await reconcileStock(product, actor);
+
+  const change = input.type === 'increase' ? quantity : -quantity;
+  const updated: any = await Product.findOneAndUpdate(
+    {
+      _id: product._id,
+      quantityAvailable: change < 0 ? { $gte: quantity } : { $lte: MAX_STOCK - quantity },
+    },
+    { $inc: { quantityAvailable: change } },
+    { new: true }
+  );
+  if (!updated) {
+    const current: any = await Product.findById(product._id).select('quantityAvailable').lean();
+    throw new StockError(
+      change < 0
+        ? `Only ${current?.quantityAvailable || 0} units are in stock`
+        : `A product cannot have more than ${MAX_STOCK} units`
+    );
+  }
+
+  const movement = await StockMovement.create({
+    productId: product._id,
+    endUserId: product.endUserId,
+    type: input.type,
+    quantity,
+    change,
+    balance: updated.quantityAvailable,
+    reason: input.reason?.trim() || DEFAULT_REASONS[input.type],
+    createdBy: actor.id,
+    createdByName: actor.name || 'System',
+  });
+
+  logger.info('Stock adjusted', {
+    productId: product._id.toString(),
+    type: input.type,
+    quantity,
+    balance: updated.quantityAvailable,
+    by: actor.name,
+  });
+  return { product: updated, movement };
+}
+
+/**
+ * Ledger entry as shown in a product's stock history
+ */
+export function toStockMovementSummary(movement: any): StockMovementSummary {
+  return {
+    _id: movement._id.toString(),
+    type: movement.type,
+    quantity: movement.quantity,
+    change: movement.change,
+    balance: movement.balance,
+    reason: movement.reason,
+    rentalOrderId: movement.rentalOrderId?.toString(),
+    orderNumber: movement.orderNumber,
+    createdByName: movement.createdByName,
+    createdAt: new Date(movement.createdAt).toISOString(),
+  };
+}
+
+/**
+ * A product's owned, reserved and free units right now with its latest ledger entries
+ */
+export async function getStockOverview(product: any, limit = 50): Promise<StockOverview> {
+  await reconcileStock(product);
+
+  const now = new Date();
+  const [{ owned, booked, free }, movements] = await Promise.all([
+    getAvailability(product._id.toString(), now, new Date(now.getTime() + 60 * 1000)),
+    StockMovement.find({ productId: product._id }).sort({ createdAt: -1, _id: -1 }).limit(limit).lean(),
+  ]);
+  const stockLevels = product.stockLevels?.toObject?.() || product.stockLevels || {};
+
+  return {
+    productId: product._id.toString(),
+    productName: product.name,
+    owned,
+    reserved: booked,
+    available: free,
+    stockLevels,
+    status: stockStatus(owned, free, stockLevels),
+    lastUpdated: movements[0] ? new Date((movements[0] as any).createdAt).toISOString() : undefined,
+    movements: movements.map(toStockMovementSummary),
+  };
+}
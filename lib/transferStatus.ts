@@ -0,0 +1,78 @@
+/**
+ * Transfer Status Machine
+ * Defines the allowed lifecycle transitions for pickup and return transfers and
+ * the error raised on an illegal move. Safe to import on the client.
+ */
+
+import { TransferStatus, TransferType } from '@/types';
+
+// Allowed next statuses for every transfer status
+export const TRANSFER_STATUS_TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  draft: ['ready', 'done', 'cancelled'],
+  waiting: ['ready', 'cancelled'],
+  ready: ['done', 'cancelled'],
+  done: [],
+  cancelled: [],
+};
+
+export const TRANSFER_STATUSES = Object.keys(TRANSFER_STATUS_TRANSITIONS) as TransferStatus[];
+
+// Human readable labels used by the transfer screen
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  waiting: 'Waiting',
+  ready: 'Ready',
+  done: 'Done',
+  cancelled: 'Cancelled',
+};
+
+export const TRANSFER_TYPE_LABELS: Record<TransferType, string> = {
+  pickup: 'Pickup',
+  return: 'Return',
+};
+
+/**
+ * Error raised when a transfer is moved to a status that the transition table
+ * does not allow from its current status
+ */
+export class InvalidTransferTransitionError extends Error {
+  readonly from: TransferStatus;
+  readonly to: string;
+  readonly allowed: TransferStatus[];
+
+  constructor(from: TransferStatus, to: string) {
+    const allowed = TRANSFER_STATUS_TRANSITIONS[from] || [];
+    super(
+      from === 'waiting' && to === 'done'
+        ? 'This return is waiting for its pickup to be validated first'
+        : allowed.length > 0
+          ? `Cannot change transfer status from '${from}' to '${to}'. Allowed: ${allowed.join(', ')}`
+          : `Cannot change transfer status from '${from}' to '${to}'. '${from}' is a final status`
+    );
+    this.name = 'InvalidTransferTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Check whether a value is a known transfer status
+ */
+export function isTransferStatus(value: unknown): value is TransferStatus {
+  return typeof value === 'string' && value in TRANSFER_STATUS_TRANSITIONS;
+}
+
+/**
+ * Throw an InvalidTransferTransitionError if the move is not allowed
+ */
+export function assertTransferTransition(from: TransferStatus, to: string): void {
+  if (!isTransferStatus(to) || !TRANSFER_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new InvalidTransferTransitionError(from, to);
+  }
+}
+
+/**
+ * Whether a transfer still has to happen
+ */
+export const isOpenTransfer = (status: TransferStatus) => status !== 'done' && status !== 'cancelled';
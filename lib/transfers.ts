@@ -0,0 +1,98 @@
+/**
+ * Transfers
+ * Validates pickup and return transfers by moving their rental order along: a
+ * validated pickup marks the order picked up and a validated return marks it
+ * returned, which hands its units back to availability. The order then completes
+ * the transfer itself, the same way it does when its status is changed directly.
+ * Pickups name the serialized units handed over and returns record the
+ * condition they came back in.
+ */
+
+import RentalOrder from '@/models/RentalOrder';
+import Transfer, { ITransfer } from '@/models/Transfer';
+import { logger } from '@/lib/logger';
+import { draftLateFeeNote } from '@/lib/invoiceNotes';
+import { assertTransferTransition } from '@/lib/transferStatus';
+import { assertAssetsAssigned, assignAssets, recordReturnConditions } from '@/lib/assets';
+import { AssetCondition, TransferSummary } from '@/types';
+
+/**
+ * Error raised when a transfer cannot be validated
+ */
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+/**
+ * Complete a transfer and move its order to picked up or returned
+ */
+export async function validateTransfer(
+  transfer: ITransfer,
+  actor: { id?: string; name?: string },
+  options: {
+    assignments?: Array<{ itemId: string; assetIds: string[] }>;
+    conditions?: Record<string, AssetCondition>;
+  } = {}
+) {
+  assertTransferTransition(transfer.status, 'done');
+
+  const order: any = await RentalOrder.findById(transfer.rentalOrderId);
+  if (!order) {
+    throw new TransferError(`Order ${transfer.orderNumber} no longer exists`);
+  }
+
+  const reason = `${transfer.transferNumber} validated`;
+  if (transfer.type === 'pickup') {
+    if (options.assignments?.length) {
+      await assignAssets(order, options.assignments);
+    }
+    await assertAssetsAssigned(order);
+
+    // Confirmed orders are reserved on the way out
+    if (order.status === 'confirmed') {
+      await order.updateStatus('reserved', reason, actor);
+    }
+    await order.updateStatus('delivered', reason, actor);
+  } else {
+    if (options.conditions) {
+      await recordReturnConditions(order, options.conditions);
+    }
+    await order.updateStatus('returned', reason, actor);
+    await draftLateFeeNote(order, actor);
+  }
+
+  logger.info('Transfer validated', { transferNumber: transfer.transferNumber, orderNumber: order.orderNumber, status: order.status });
+  return Transfer.findById(transfer._id);
+}
+
+/**
+ * Transfer as listed to the business
+ */
+export function toTransferSummary(transfer: any): TransferSummary {
+  return {
+    _id: transfer._id.toString(),
+    transferNumber: transfer.transferNumber,
+    type: transfer.type,
+    status: transfer.status,
+    rentalOrderId: transfer.rentalOrderId.toString(),
+    orderNumber: transfer.orderNumber,
+    customerName: transfer.customerName,
+    customerEmail: transfer.customerEmail,
+    customerPhone: transfer.customerPhone,
+    deliveryAddress: transfer.deliveryAddress,
+    lines: (transfer.lines || []).map((line: any) => ({
+      productId: line.productId.toString(),
+      productName: line.productName,
+      quantity: line.quantity,
+    })),
+    scheduledAt: new Date(transfer.scheduledAt).toISOString(),
+    assignedTo: transfer.assignedTo,
+    notes: transfer.notes,
+    validatedAt: transfer.validatedAt ? new Date(transfer.validatedAt).toISOString() : undefined,
+    validatedByName: transfer.validatedByName,
+    createdAt: new Date(transfer.createdAt).toISOString(),
+  };
+}
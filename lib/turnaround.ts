@@ -0,0 +1,77 @@
+/**
+ * Turnaround Buffers
+ * Preparation time a unit needs before and after each rental to be cleaned,
+ * inspected and charged. A product's own buffer overrides its business's buffer
+ * for the product's category. Availability widens every rental by the buffer; the
+ * customer is only ever charged for the rental itself. Safe to import on the client.
+ */
+
+import { CategoryTurnaroundBuffer, TurnaroundBuffer } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest buffer either side of a rental (30 days)
+export const MAX_BUFFER_HOURS = 720;
+
+export const NO_BUFFER: TurnaroundBuffer = { beforeHours: 0, afterHours: 0 };
+
+const clampHours = (value: any) => Math.min(MAX_BUFFER_HOURS, Math.max(0, Number(value) || 0));
+
+/**
+ * Clean up a buffer from a form or request; null when it blocks no time
+ */
+export function normalizeTurnaroundBuffer(buffer?: Partial<TurnaroundBuffer> | null): TurnaroundBuffer | null {
+  if (!buffer) return null;
+  const normalized = { beforeHours: clampHours(buffer.beforeHours), afterHours: clampHours(buffer.afterHours) };
+  return normalized.beforeHours || normalized.afterHours ? normalized : null;
+}
+
+/**
+ * Clean up a business's category buffers: one per category, blank ones dropped
+ */
+export function normalizeCategoryBuffers(buffers?: Array<Partial<CategoryTurnaroundBuffer>> | null): CategoryTurnaroundBuffer[] {
+  if (!Array.isArray(buffers)) return [];
+
+  const byCategory = new Map<string, CategoryTurnaroundBuffer>();
+  for (const entry of buffers) {
+    const category = typeof entry?.category === 'string' ? entry.category.trim() : '';
+    const buffer = normalizeTurnaroundBuffer(entry);
+    if (category && buffer) byCategory.set(category, { category, ...buffer });
+  }
+  return Array.from(byCategory.values());
+}
+
+/**
+ * Buffer a product is prepared under: its own (even none at all), else its
+ * category's, else none
+ */
+export function resolveTurnaroundBuffer(
+  productBuffer: Partial<TurnaroundBuffer> | null | undefined,
+  categoryBuffers: CategoryTurnaroundBuffer[] | null | undefined,
+  category?: string
+): TurnaroundBuffer {
+  if (productBuffer) return normalizeTurnaroundBuffer(productBuffer) || NO_BUFFER;
+  const byCategory = (categoryBuffers || []).find((entry) => entry.category === category);
+  return byCategory ? { beforeHours: byCategory.beforeHours, afterHours: byCategory.afterHours } : NO_BUFFER;
+}
+
+/**
+ * The time a rental keeps a unit out of the pool, turnaround included
+ */
+export function padRentalPeriod(start: Date, end: Date, buffer: TurnaroundBuffer): { start: Date; end: Date } {
+  return {
+    start: new Date(new Date(start).getTime() - buffer.beforeHours * HOUR_MS),
+    end: new Date(new Date(end).getTime() + buffer.afterHours * HOUR_MS),
+  };
+}
+
+/**
+ * One line describing a buffer, e.g. "2h prep before, 4h after"
+ */
+export function describeTurnaroundBuffer(buffer: TurnaroundBuffer): string {
+  if (!buffer.beforeHours && !buffer.afterHours) return 'No turnaround time';
+  const parts = [];
+  if (buffer.beforeHours) parts.push(`${buffer.beforeHours}h prep before`);
+  if (buffer.afterHours) parts.push(`${buffer.afterHours}h after`);
+  return parts.join(', ');
+}
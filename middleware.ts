@@ -20,6 +20,7 @@ export async function middleware(request: NextRequest) {
         pathname.startsWith('/checkout') || 
         pathname.startsWith('/orders') ||
         pathname.startsWith('/wishlist') ||
+        pathname.startsWith('/invoices') ||
         pathname.startsWith('/profile')) {
       
       if (!token || token.role !== 'customer') {
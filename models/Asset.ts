@@ -0,0 +1,176 @@
+/**
+ * Asset Model for Serialized Units
+ * One physical unit of a product, identified by its serial number, with its
+ * purchase details, condition and status. Units are assigned to order lines at
+ * pickup and keep a record of every rental they were part of.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { ASSET_CONDITIONS, ASSET_STATUSES } from '@/lib/assetStatus';
+import { AssetCondition, AssetStatus } from '@/types';
+
+export interface IAssetRental {
+  rentalOrderId: Types.ObjectId;
+  orderNumber: string;
+  itemId: Types.ObjectId;
+  customerName: string;
+  assignedAt: Date;
+  checkedInAt?: Date; // Scanned back in; the unit is released once the whole order is returned
+  returnedAt?: Date;
+  conditionOut: AssetCondition;
+  conditionIn?: AssetCondition;
+  cancelled?: boolean;
+}
+
+export interface IAsset extends mongoose.Document {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  serialNumber: string;
+  purchaseDate?: Date;
+  purchaseCost?: number;
+  condition: AssetCondition;
+  status: AssetStatus;
+  notes?: string;
+  currentOrderId?: Types.ObjectId;
+  currentOrderNumber?: string;
+  rentals: IAssetRental[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IAssetModel extends mongoose.Model<IAsset> {
+  releaseForOrder(order: any, session?: mongoose.ClientSession | null): Promise<number>;
+}
+
+const AssetRentalSchema = new Schema<IAssetRental>(
+  {
+    rentalOrderId: { type: Schema.Types.ObjectId, ref: 'RentalOrder', required: true },
+    orderNumber: { type: String, required: true, trim: true },
+    itemId: { type: Schema.Types.ObjectId, required: true },
+    customerName: { type: String, required: true, trim: true },
+    assignedAt: { type: Date, required: true, default: Date.now },
+    checkedInAt: { type: Date },
+    returnedAt: { type: Date },
+    conditionOut: { type: String, enum: ASSET_CONDITIONS, required: true },
+    conditionIn: { type: String, enum: ASSET_CONDITIONS },
+    cancelled: { type: Boolean },
+  },
+  { _id: false }
+);
+
+const AssetSchema: Schema<IAsset> = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    // Unique within the business
+    serialNumber: {
+      type: String,
+      required: [true, 'Serial number is required'],
+      trim: true,
+      uppercase: true,
+      maxlength: [50, 'Serial number cannot exceed 50 characters'],
+    },
+    purchaseDate: {
+      type: Date,
+    },
+    purchaseCost: {
+      type: Number,
+      min: [0, 'Purchase cost cannot be negative'],
+    },
+    condition: {
+      type: String,
+      enum: {
+        values: ASSET_CONDITIONS,
+        message: 'Invalid condition',
+      },
+      default: 'good',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ASSET_STATUSES,
+        message: 'Invalid unit status',
+      },
+      default: 'available',
+      required: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    // Order the unit is out on while rented
+    currentOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    currentOrderNumber: {
+      type: String,
+      trim: true,
+    },
+    rentals: {
+      type: [AssetRentalSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AssetSchema.index({ endUserId: 1, serialNumber: 1 }, { unique: true });
+AssetSchema.index({ productId: 1, status: 1 }); // Units of a product
+AssetSchema.index({ currentOrderId: 1 });
+
+// Static method to take back the units out on an order once it is returned or cancelled;
+// units returned damaged go to maintenance
+AssetSchema.statics.releaseForOrder = async function (
+  order: any,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  const assets: IAsset[] = await this.find({ currentOrderId: order._id }).session(session || null);
+  const returned = order.status === 'returned';
+
+  for (const asset of assets) {
+    const rental = asset.rentals.find((r) => r.rentalOrderId.equals(order._id) && !r.returnedAt && !r.cancelled);
+    if (rental) {
+      if (returned) {
+        rental.returnedAt = order.returnDate || new Date();
+        rental.conditionIn = asset.condition;
+      } else {
+        rental.cancelled = true;
+      }
+    }
+    asset.status = returned && asset.condition === 'damaged' ? 'maintenance' : 'available';
+    asset.currentOrderId = undefined;
+    asset.currentOrderNumber = undefined;
+    await asset.save({ session: session || undefined });
+  }
+  return assets.length;
+};
+
+AssetSchema.post('save', function (doc) {
+  logger.database('ASSET_SAVED', 'assets', {
+    serialNumber: doc.serialNumber,
+    productId: doc.productId?.toString(),
+    status: doc.status,
+    condition: doc.condition,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Asset = (mongoose.models.Asset as IAssetModel) ||
+  mongoose.model<IAsset, IAssetModel>('Asset', AssetSchema);
+
+export default Asset;
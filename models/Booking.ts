@@ -6,6 +6,14 @@
 import mongoose, { Schema } from 'mongoose';
 import { IBooking } from '@/types';
 import { logger } from '@/lib/logger';
+import { calculateRentalPrice } from '@/lib/pricing';
+import { calculateLateFee } from '@/lib/lateFees';
+import { DEFAULT_CANCELLATION_POLICY, calculateCancellationRefund } from '@/lib/cancellation';
+import { LateFeeTermsSchema } from '@/models/BusinessSettings';
+import PricingRule from '@/models/PricingRule';
+import PriceList from '@/models/PriceList';
+import { priceListRates, toPriceList } from '@/lib/priceLists';
+import { checkRentalConstraints, checkRentalDuration } from '@/lib/rentalConstraints';
 
 // Booking schema definition with comprehensive business logic
 const BookingSchema: Schema<IBooking> = new Schema(
@@ -59,11 +67,27 @@ const BookingSchema: Schema<IBooking> = new Schema(
       type: Number,
       required: true,
     },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+      default: 1,
+    },
     totalPrice: {
       type: Number,
       required: [true, 'Total price is required'],
       min: [0, 'Price cannot be negative'],
     },
+    // Customer price list the booking was priced from, if any
+    priceListId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PriceList',
+    },
+    // Late fee policy and rates captured when the booking was made
+    lateFeeTerms: {
+      type: LateFeeTermsSchema,
+      default: undefined,
+    },
     status: {
       type: String,
       enum: {
@@ -96,6 +120,30 @@ BookingSchema.index({
   status: 1 
 });
 
+// Hold the booking to its product's rental constraints: the length whenever the dates
+// change (an extension included), when it may be booked only for a new booking
+BookingSchema.pre('validate', async function (next) {
+  const booking = this as IBooking;
+  if (!booking.startDate || !booking.endDate) return next();
+  if (!booking.isNew && !booking.isModified('startDate') && !booking.isModified('endDate')) return next();
+
+  try {
+    const product: any = await mongoose.model('Product')
+      .findById(booking.productId)
+      .select('name rentalConstraints')
+      .lean();
+    const violation = booking.isNew
+      ? checkRentalConstraints(product?.rentalConstraints, booking.startDate, booking.endDate, new Date(), product?.name)
+      : checkRentalDuration(product?.rentalConstraints, booking.startDate, booking.endDate, product?.name);
+    if (violation) {
+      booking.invalidate(violation.rule === 'max_duration' || violation.rule === 'min_duration' ? 'endDate' : 'startDate', violation.message);
+    }
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
 // Pre-save middleware to calculate duration and validate business rules
 BookingSchema.pre('save', function (next) {
   const booking = this as IBooking;
@@ -129,35 +177,24 @@ BookingSchema.pre('save', async function (next) {
   }
 
   try {
-    // Check for overlapping bookings for the same product
-    const conflictingBookings = await mongoose.model('Booking').find({
-      productId: booking.productId,
-      _id: { $ne: booking._id }, // Exclude current booking
-      status: { $in: ['pending', 'confirmed'] }, // Only active bookings
-      $or: [
-        // New booking starts during existing booking
-        {
-          startDate: { $lte: booking.startDate },
-          endDate: { $gt: booking.startDate },
-        },
-        // New booking ends during existing booking
-        {
-          startDate: { $lt: booking.endDate },
-          endDate: { $gte: booking.endDate },
-        },
-        // New booking encompasses existing booking
-        {
-          startDate: { $gte: booking.startDate },
-          endDate: { $lte: booking.endDate },
-        },
-      ],
-    });
-
-    if (conflictingBookings.length > 0) {
+    // Check that enough units are free across the booked period
+    // (engine loaded lazily because it queries this model)
+    const { getAvailability } = await import('@/lib/availability');
+    const availability = await getAvailability(
+      booking.productId.toString(),
+      booking.startDate,
+      booking.endDate,
+      booking.quantity || 1,
+      { excludeBookingId: booking._id?.toString() }
+    );
+
+    if (!availability.available) {
       logger.warn('Booking conflict detected', {
         newBooking: booking._id,
-        conflictingBookings: conflictingBookings.map(b => b._id),
         productId: booking.productId,
+        requested: availability.requested,
+        free: availability.free,
+        owned: availability.owned,
       });
       
       const error = new Error('Product is not available for the selected dates');
@@ -174,34 +211,35 @@ BookingSchema.pre('save', async function (next) {
 // Virtual field to check if booking is late
 BookingSchema.virtual('isLate').get(function () {
   const now = new Date();
-  return this.status === 'confirmed' && this.endDate < now;
+  return this.status === 'late' || (this.status === 'confirmed' && this.endDate < now);
+});
+
+// Virtual field explaining the late fee under the booking's policy
+BookingSchema.virtual('lateFeeBreakdown').get(function () {
+  const now = new Date();
+  const isLate = this.status === 'late' || (this.status === 'confirmed' && this.endDate < now);
+  if (!isLate) return null;
+
+  // Bookings made before late fee policies existed keep the old flat ₹50/day
+  const terms = this.lateFeeTerms || {
+    type: 'flat_per_day' as const,
+    amount: 50,
+    gracePeriodHours: 0,
+    capAtReplacementValue: false,
+    dailyRate: 0,
+    hourlyRate: 0,
+  };
+  return calculateLateFee(terms, this.endDate, now, this.quantity || 1);
 });
 
 // Virtual field to calculate late fees
 BookingSchema.virtual('lateFee').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'confirmed' && this.endDate < now;
-  if (!isLate) return 0;
-  
-  const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-  const feePerDay = 50; // ₹50 per day late fee
-  
-  return daysLate * feePerDay;
+  return this.get('lateFeeBreakdown')?.amount || 0;
 });
 
 // Virtual field to get total amount including late fees
 BookingSchema.virtual('totalAmountDue').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'confirmed' && this.endDate < now;
-  let lateFee = 0;
-  
-  if (isLate) {
-    const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-    const feePerDay = 50; // ₹50 per day late fee
-    lateFee = daysLate * feePerDay;
-  }
-  
-  return this.totalPrice + lateFee;
+  return this.totalPrice + (this.get('lateFeeBreakdown')?.amount || 0);
 });
 
 // Virtual field to get days until return
@@ -231,8 +269,10 @@ BookingSchema.statics.findActive = function () {
 BookingSchema.statics.findLate = function () {
   const now = new Date();
   return this.find({
-    status: 'confirmed',
-    endDate: { $lt: now },
+    $or: [
+      { status: 'late' },
+      { status: 'confirmed', endDate: { $lt: now } },
+    ],
   })
     .populate('productId', 'name image category')
     .sort({ endDate: 1 });
@@ -254,32 +294,16 @@ BookingSchema.statics.findInDateRange = function (startDate: Date, endDate: Date
     .sort({ startDate: 1 });
 };
 
-// Static method to check product availability
+// Static method to check product availability for a number of units
 BookingSchema.statics.checkAvailability = async function (
   productId: string, 
   startDate: Date, 
-  endDate: Date
+  endDate: Date,
+  quantity: number = 1,
+  excludeBookingId?: string
 ): Promise<boolean> {
-  const conflictingBookings = await this.find({
-    productId,
-    status: { $in: ['pending', 'confirmed'] },
-    $or: [
-      {
-        startDate: { $lte: startDate },
-        endDate: { $gt: startDate },
-      },
-      {
-        startDate: { $lt: endDate },
-        endDate: { $gte: endDate },
-      },
-      {
-        startDate: { $gte: startDate },
-        endDate: { $lte: endDate },
-      },
-    ],
-  });
-
-  return conflictingBookings.length === 0;
+  const { isAvailable } = await import('@/lib/availability');
+  return isAvailable(productId, startDate, endDate, quantity, { excludeBookingId });
 };
 
 // Instance method to update booking status
@@ -300,34 +324,43 @@ BookingSchema.methods.updateStatus = async function (newStatus: string, reason?:
 
 // Instance method to calculate refund amount
 BookingSchema.methods.calculateRefund = function (): number {
-  const now = new Date();
-  const hoursUntilStart = (this.startDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-  // Refund policy: 100% if cancelled 24+ hours before, 50% if 12-24 hours, 0% if less than 12 hours
-  if (hoursUntilStart >= 24) {
-    return this.totalPrice; // Full refund
-  } else if (hoursUntilStart >= 12) {
-    return this.totalPrice * 0.5; // 50% refund
-  } else {
-    return 0; // No refund
-  }
+  // Bookings have no owning business to read a policy from, so they use the default tiers
+  return calculateCancellationRefund(DEFAULT_CANCELLATION_POLICY, this.startDate, this.totalPrice, 'customer').refundAmount;
 };
 
 // Instance method to extend booking
-BookingSchema.methods.extendBooking = async function (newEndDate: Date, additionalPrice: number) {
+BookingSchema.methods.extendBooking = async function (newEndDate: Date) {
   // Check if extension creates conflicts
-  const isAvailable = await (this.constructor as any).checkAvailability(
+  const extensionAvailable = await (this.constructor as any).checkAvailability(
     this.productId,
     this.endDate,
-    newEndDate
+    newEndDate,
+    this.quantity || 1,
+    this._id?.toString()
   );
 
-  if (!isAvailable) {
+  if (!extensionAvailable) {
     throw new Error('Product is not available for the extension period');
   }
 
+  // Reprice the whole period so longer rate tiers and rules apply to the extended booking;
+  // last-minute rules still measure from when it was booked, and a booking priced from
+  // a price list stays on it while the list is active
+  const product = await mongoose.model('Product').findById(this.productId);
+  if (!product) {
+    throw new Error('Product not found');
+  }
+  const priceList = this.priceListId ? await PriceList.findOne({ _id: this.priceListId, active: true }).lean() : null;
+  const contractRates = priceList && priceListRates(toPriceList(priceList), product);
+  const previousTotal = this.totalPrice;
   this.endDate = newEndDate;
-  this.totalPrice += additionalPrice;
+  this.totalPrice = (contractRates
+    ? calculateRentalPrice(contractRates, this.startDate, newEndDate, this.quantity || 1)
+    : calculateRentalPrice(product, this.startDate, newEndDate, this.quantity || 1, {
+      rules: await PricingRule.forProduct(product),
+      bookedAt: this.createdAt,
+    })).totalPrice;
+  const additionalPrice = this.totalPrice - previousTotal;
   
   // Recalculate duration
   const durationMs = this.endDate.getTime() - this.startDate.getTime();
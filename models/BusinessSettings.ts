@@ -0,0 +1,333 @@
+/**
+ * Business Settings Model
+ * Per-enduser rental business configuration such as the late-fee and
+ * cancellation policies, the GST registration, turnaround buffers per category
+ * and the opening hours and slots customers pick up and return rentals in
+ */
+
+import mongoose, { Schema, SchemaDefinition, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import {
+  CancellationPolicy,
+  CategoryTurnaroundBuffer,
+  HandoverSchedule,
+  LateFeePolicy,
+  LateFeeTerms,
+  TurnaroundBuffer,
+} from '@/types';
+import {
+  DEFAULT_LATE_FEE_POLICY,
+  LATE_FEE_POLICY_TYPES,
+  buildLateFeeTerms,
+  resolveLateFeePolicy,
+} from '@/lib/lateFees';
+import { DEFAULT_CANCELLATION_POLICY } from '@/lib/cancellation';
+import { isValidGstin, resolveStateCode } from '@/lib/gst';
+import { MAX_BUFFER_HOURS, resolveTurnaroundBuffer } from '@/lib/turnaround';
+import {
+  DEFAULT_HANDOVER_SCHEDULE,
+  MAX_SLOT_CAPACITY,
+  SLOT_LENGTHS,
+  isValidDate,
+  isValidTime,
+  normalizeHandoverSchedule,
+} from '@/lib/handoverSchedule';
+
+interface IBusinessSettings extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  lateFeePolicy: LateFeePolicy;
+  cancellationPolicy: CancellationPolicy;
+  gstin?: string;
+  stateCode?: string; // GST state code the business supplies from
+  turnaroundBuffers: CategoryTurnaroundBuffer[];
+  handoverSchedule?: HandoverSchedule;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IBusinessSettingsModel extends mongoose.Model<IBusinessSettings> {
+  getForEndUser(endUserId: string | Types.ObjectId): Promise<IBusinessSettings>;
+  getLateFeeTerms(product: any): Promise<LateFeeTerms>;
+  getCancellationPolicy(endUserId: string | Types.ObjectId): Promise<CancellationPolicy>;
+  getGstProfile(endUserId: string | Types.ObjectId): Promise<{ gstin?: string; stateCode?: string }>;
+  getTurnaroundBuffer(product: any): Promise<TurnaroundBuffer>;
+  getHandoverSchedule(endUserId: string | Types.ObjectId): Promise<HandoverSchedule>;
+}
+
+const lateFeePolicyFields: SchemaDefinition = {
+  type: {
+    type: String,
+    enum: {
+      values: LATE_FEE_POLICY_TYPES,
+      message: 'Invalid late fee policy type',
+    },
+    required: [true, 'Late fee policy type is required'],
+  },
+  amount: {
+    type: Number,
+    min: [0, 'Late fee amount cannot be negative'],
+    default: 0,
+  },
+  gracePeriodHours: {
+    type: Number,
+    min: [0, 'Grace period cannot be negative'],
+    max: [720, 'Grace period cannot exceed 30 days'],
+    default: 0,
+  },
+  capAtReplacementValue: {
+    type: Boolean,
+    default: false,
+  },
+};
+
+// Late fee policy shared by business settings and product overrides
+export const LateFeePolicySchema = new Schema(lateFeePolicyFields, { _id: false });
+
+// Policy and product rates snapshotted onto rental lines and bookings
+export const LateFeeTermsSchema = new Schema(
+  {
+    ...lateFeePolicyFields,
+    dailyRate: { type: Number, min: 0, default: 0 },
+    hourlyRate: { type: Number, min: 0, default: 0 },
+    replacementValue: { type: Number, min: 0 },
+  },
+  { _id: false }
+);
+
+// Preparation time before and after rentals, shared by business settings and product overrides
+const turnaroundBufferFields: SchemaDefinition = {
+  beforeHours: {
+    type: Number,
+    min: [0, 'Turnaround time cannot be negative'],
+    max: [MAX_BUFFER_HOURS, 'Turnaround time cannot exceed 30 days'],
+    default: 0,
+  },
+  afterHours: {
+    type: Number,
+    min: [0, 'Turnaround time cannot be negative'],
+    max: [MAX_BUFFER_HOURS, 'Turnaround time cannot exceed 30 days'],
+    default: 0,
+  },
+};
+
+export const TurnaroundBufferSchema = new Schema(turnaroundBufferFields, { _id: false });
+
+// Opening hours, holiday closures and slots for pickups and returns
+const HandoverScheduleSchema = new Schema(
+  {
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    // Days without hours are closed
+    openingHours: {
+      type: [
+        new Schema(
+          {
+            dayOfWeek: { type: Number, min: 0, max: 6, required: [true, 'Day of the week is required'] },
+            open: {
+              type: String,
+              required: [true, 'Opening time is required'],
+              validate: { validator: isValidTime, message: 'Opening time must be HH:mm' },
+            },
+            close: {
+              type: String,
+              required: [true, 'Closing time is required'],
+              validate: { validator: isValidTime, message: 'Closing time must be HH:mm' },
+            },
+          },
+          { _id: false }
+        ),
+      ],
+      default: () => DEFAULT_HANDOVER_SCHEDULE.openingHours.map((hours) => ({ ...hours })),
+    },
+    holidays: {
+      type: [
+        new Schema(
+          {
+            startDate: {
+              type: String,
+              required: [true, 'Holiday date is required'],
+              validate: { validator: isValidDate, message: 'Holiday dates must be YYYY-MM-DD' },
+            },
+            endDate: {
+              type: String,
+              required: [true, 'Holiday end date is required'],
+              validate: { validator: isValidDate, message: 'Holiday dates must be YYYY-MM-DD' },
+            },
+            name: { type: String, trim: true, maxlength: [60, 'Holiday name cannot exceed 60 characters'] },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    slotMinutes: {
+      type: Number,
+      enum: { values: SLOT_LENGTHS, message: 'Invalid slot length' },
+      default: DEFAULT_HANDOVER_SCHEDULE.slotMinutes,
+    },
+    // Pickups and returns per slot; 0 allows any number
+    slotCapacity: {
+      type: Number,
+      min: [0, 'Slot capacity cannot be negative'],
+      max: [MAX_SLOT_CAPACITY, 'Slot capacity seems too high'],
+      default: DEFAULT_HANDOVER_SCHEDULE.slotCapacity,
+    },
+  },
+  { _id: false }
+);
+
+// Refund tiers applied when a customer cancels
+const CancellationPolicySchema = new Schema(
+  {
+    tiers: {
+      type: [
+        new Schema(
+          {
+            hoursBeforeStart: {
+              type: Number,
+              required: [true, 'Notice period is required'],
+              min: [0, 'Notice period cannot be negative'],
+            },
+            refundPercent: {
+              type: Number,
+              required: [true, 'Refund percentage is required'],
+              min: [0, 'Refund percentage cannot be negative'],
+              max: [100, 'Refund percentage cannot exceed 100'],
+            },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const BusinessSettingsSchema: Schema<IBusinessSettings> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+      unique: true,
+    },
+    lateFeePolicy: {
+      type: LateFeePolicySchema,
+      default: () => ({ ...DEFAULT_LATE_FEE_POLICY }),
+    },
+    cancellationPolicy: {
+      type: CancellationPolicySchema,
+      default: () => ({ tiers: DEFAULT_CANCELLATION_POLICY.tiers.map((tier) => ({ ...tier })) }),
+    },
+    // GST registration; businesses without one charge no GST
+    gstin: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: (v: string) => !v || isValidGstin(v),
+        message: 'Please enter a valid GSTIN',
+      },
+    },
+    stateCode: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (v: string) => !v || resolveStateCode(v) === v,
+        message: 'Please select a valid state',
+      },
+    },
+    // Turnaround buffers for products of a category without their own
+    turnaroundBuffers: {
+      type: [
+        new Schema(
+          {
+            category: { type: String, trim: true, required: [true, 'Category is required'] },
+            ...turnaroundBufferFields,
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    // Hours and slots customers pick up and return rentals in
+    handoverSchedule: {
+      type: HandoverScheduleSchema,
+      default: undefined,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Static method to load a business's settings, creating defaults on first use
+BusinessSettingsSchema.statics.getForEndUser = async function (endUserId: string | Types.ObjectId) {
+  const settings = await this.findOneAndUpdate(
+    { endUserId },
+    { $setOnInsert: { endUserId } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return settings;
+};
+
+// Static method to resolve the late fee terms a product is rented under
+BusinessSettingsSchema.statics.getLateFeeTerms = async function (product: any): Promise<LateFeeTerms> {
+  const settings = product?.lateFeePolicy?.type || !product?.endUserId
+    ? null
+    : await this.findOne({ endUserId: product.endUserId }).lean();
+  return buildLateFeeTerms(resolveLateFeePolicy(product?.lateFeePolicy, settings?.lateFeePolicy), product);
+};
+
+// Static method to load the cancellation policy for a business
+BusinessSettingsSchema.statics.getCancellationPolicy = async function (
+  endUserId: string | Types.ObjectId
+): Promise<CancellationPolicy> {
+  const settings = await this.findOne({ endUserId }).select('cancellationPolicy').lean();
+  return settings?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+};
+
+// A GSTIN starts with the code of the state it is registered in
+BusinessSettingsSchema.pre('validate', function (next) {
+  if (this.gstin && isValidGstin(this.gstin)) {
+    this.stateCode = this.gstin.slice(0, 2);
+  }
+  next();
+});
+
+// Static method to load the GST registration a business invoices under
+BusinessSettingsSchema.statics.getGstProfile = async function (endUserId: string | Types.ObjectId) {
+  const settings = await this.findOne({ endUserId }).select('gstin stateCode').lean();
+  return { gstin: settings?.gstin || undefined, stateCode: settings?.stateCode || undefined };
+};
+
+// Static method to resolve the turnaround buffer a product's units are prepared under
+BusinessSettingsSchema.statics.getTurnaroundBuffer = async function (product: any): Promise<TurnaroundBuffer> {
+  const settings = product?.turnaroundBuffer || !product?.endUserId
+    ? null
+    : await this.findOne({ endUserId: product.endUserId }).select('turnaroundBuffers').lean();
+  return resolveTurnaroundBuffer(product?.turnaroundBuffer, settings?.turnaroundBuffers, product?.category);
+};
+
+// Static method to load when a business hands rentals over; businesses that never
+// set one take pickups and returns at any time
+BusinessSettingsSchema.statics.getHandoverSchedule = async function (
+  endUserId: string | Types.ObjectId
+): Promise<HandoverSchedule> {
+  const settings = await this.findOne({ endUserId }).select('handoverSchedule').lean();
+  return normalizeHandoverSchedule(settings?.handoverSchedule || DEFAULT_HANDOVER_SCHEDULE);
+};
+
+BusinessSettingsSchema.post('save', function (doc) {
+  logger.database('SAVE', 'businesssettings', { endUserId: doc.endUserId, lateFeePolicy: doc.lateFeePolicy?.type });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const BusinessSettings = (mongoose.models.BusinessSettings as IBusinessSettingsModel) ||
+  mongoose.model<IBusinessSettings, IBusinessSettingsModel>('BusinessSettings', BusinessSettingsSchema);
+
+export default BusinessSettings;
@@ -0,0 +1,94 @@
+/**
+ * Cart Model for Server-Side Carts
+ * One cart per customer. Each line with rental dates holds its units for a short
+ * time so nobody else can check them out, and checkout turns the held lines
+ * into rental orders.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export interface ICartItem {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  holdExpiresAt?: Date; // Units are held for this line until then
+  addedAt: Date;
+}
+
+export interface ICart extends mongoose.Document {
+  _id: Types.ObjectId;
+  customerId: Types.ObjectId;
+  items: Types.DocumentArray<ICartItem & Types.Subdocument>;
+  checkoutLockedUntil?: Date; // Set while an order is being created from the cart
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartItemSchema = new Schema<ICartItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required'],
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required'],
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: {
+      validator: function (this: any, value: Date) {
+        return value > this.startDate;
+      },
+      message: 'End date must be after start date',
+    },
+  },
+  // Cleared once the hold lapses; lapsed lines stay in the cart until held again
+  holdExpiresAt: Date,
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const CartSchema: Schema<ICart> = new Schema(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+      unique: true,
+    },
+    items: [CartItemSchema],
+    // Stops two checkouts turning the same lines into orders at once
+    checkoutLockedUntil: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Availability looks up live holds on a product
+CartSchema.index({ 'items.productId': 1, 'items.holdExpiresAt': 1 });
+CartSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 }); // Drop carts untouched for 30 days
+
+CartSchema.post('save', function (doc) {
+  logger.database('CART_SAVED', 'carts', {
+    customerId: doc.customerId?.toString(),
+    items: doc.items.length,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Cart = mongoose.models.Cart || mongoose.model<ICart>('Cart', CartSchema);
+
+export default Cart;
@@ -0,0 +1,56 @@
+/**
+ * Counter Model for Document Numbering
+ * Hands out gap-free sequence numbers per key using an atomic increment
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+interface ICounter extends mongoose.Document {
+  key: string;
+  seq: number;
+}
+
+interface ICounterModel extends mongoose.Model<ICounter> {
+  nextSequence(key: string, session?: mongoose.ClientSession | null): Promise<number>;
+}
+
+const CounterSchema: Schema<ICounter> = new Schema(
+  {
+    key: {
+      type: String,
+      required: [true, 'Counter key is required'],
+      unique: true,
+      trim: true,
+    },
+    seq: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Static method to reserve the next number for a key; inside a transaction the number is given back if it aborts
+CounterSchema.statics.nextSequence = async function (
+  key: string,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true, session: session || undefined }
+  );
+
+  logger.database('COUNTER_NEXT', 'counters', { key, seq: counter.seq });
+  return counter.seq;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Counter = (mongoose.models.Counter as ICounterModel) ||
+  mongoose.model<ICounter, ICounterModel>('Counter', CounterSchema);
+
+export default Counter;
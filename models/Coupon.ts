@@ -0,0 +1,148 @@
+/**
+ * Coupon Model for Checkout Promotions
+ * A rental business's promotion code: a percent or flat discount on its own
+ * products, optionally limited to some products or categories, a minimum rental
+ * length, first orders, a validity window and a number of uses.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { CouponDiscountType } from '@/types';
+
+export interface ICoupon extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  value: number;
+  maxDiscount?: number;
+  minRentalHours: number;
+  productIds: Types.ObjectId[];
+  categories: string[];
+  firstOrderOnly: boolean;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  active: boolean;
+  redemptionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema: Schema<ICoupon> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    // Customers type the code without knowing the business, so codes are unique across businesses
+    code: {
+      type: String,
+      required: [true, 'Coupon code is required'],
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z0-9_-]{3,20}$/, 'Coupon code must be 3 to 20 letters, digits, dashes or underscores'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    discountType: {
+      type: String,
+      enum: {
+        values: ['percent', 'flat'],
+        message: 'Discount type must be percent or flat',
+      },
+      required: [true, 'Discount type is required'],
+    },
+    // Percent off, or rupees off the eligible lines for flat coupons
+    value: {
+      type: Number,
+      required: [true, 'Discount value is required'],
+      min: [0.01, 'Discount value must be greater than 0'],
+      validate: {
+        validator: function (this: ICoupon, v: number) {
+          return this.discountType !== 'percent' || v <= 100;
+        },
+        message: 'A percent discount cannot exceed 100',
+      },
+    },
+    // Most a percent coupon takes off one order
+    maxDiscount: {
+      type: Number,
+      min: [0.01, 'Maximum discount must be greater than 0'],
+    },
+    minRentalHours: {
+      type: Number,
+      min: [0, 'Minimum rental length cannot be negative'],
+      default: 0,
+    },
+    // Empty scopes cover every product of the business
+    productIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Product' }],
+      default: [],
+    },
+    categories: {
+      type: [{ type: String, trim: true }],
+      default: [],
+    },
+    firstOrderOnly: {
+      type: Boolean,
+      default: false,
+    },
+    // Unset limits are unlimited
+    usageLimit: {
+      type: Number,
+      min: [1, 'Usage limit must be at least 1'],
+    },
+    perCustomerLimit: {
+      type: Number,
+      min: [1, 'Per-customer limit must be at least 1'],
+    },
+    startsAt: Date,
+    endsAt: {
+      type: Date,
+      validate: {
+        validator: function (this: ICoupon, v: Date) {
+          return !v || !this.startsAt || v > this.startsAt;
+        },
+        message: 'Coupon must end after it starts',
+      },
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    // Kept in step with CouponRedemption so the usage limit can be enforced atomically
+    redemptionCount: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CouponSchema.index({ code: 1 }, { unique: true }); // Checkout lookups
+CouponSchema.index({ endUserId: 1, createdAt: -1 }); // Business coupon list
+
+CouponSchema.post('save', function (doc) {
+  logger.database('COUPON_SAVED', 'coupons', {
+    code: doc.code,
+    endUserId: doc.endUserId,
+    discountType: doc.discountType,
+    value: doc.value,
+    active: doc.active,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Coupon = mongoose.models.Coupon || mongoose.model<ICoupon>('Coupon', CouponSchema);
+
+export default Coupon;
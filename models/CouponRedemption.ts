@@ -0,0 +1,83 @@
+/**
+ * Coupon Redemption Model
+ * One use of a coupon: the order it discounted, the customer and the amount taken
+ * off. Written with the order at checkout and counted against the coupon's limits.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export interface ICouponRedemption extends mongoose.Document {
+  _id: Types.ObjectId;
+  couponId: Types.ObjectId;
+  code: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  rentalOrderId: Types.ObjectId;
+  orderNumber: string;
+  discountAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema: Schema<ICouponRedemption> = new Schema(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: [true, 'Coupon is required'],
+    },
+    code: {
+      type: String,
+      required: [true, 'Coupon code is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order is required'],
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+    },
+    discountAmount: {
+      type: Number,
+      min: [0, 'Discount cannot be negative'],
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// An order redeems a coupon once
+CouponRedemptionSchema.index({ couponId: 1, rentalOrderId: 1 }, { unique: true });
+CouponRedemptionSchema.index({ couponId: 1, customerId: 1 }); // Per-customer limits
+CouponRedemptionSchema.index({ endUserId: 1, createdAt: -1 }); // Business stats
+
+CouponRedemptionSchema.post('save', function (doc) {
+  logger.database('COUPON_REDEEMED', 'couponredemptions', {
+    code: doc.code,
+    orderNumber: doc.orderNumber,
+    discountAmount: doc.discountAmount,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const CouponRedemption =
+  mongoose.models.CouponRedemption || mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
+
+export default CouponRedemption;
@@ -0,0 +1,67 @@
+/**
+ * Idempotency Key Model
+ * Remembers requests sent with an Idempotency-Key header and the response they
+ * produced, so a retried or double-submitted request is answered from the record
+ * instead of being run twice
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+
+export type IdempotencyStatus = 'processing' | 'completed';
+
+export interface IIdempotencyKey extends mongoose.Document {
+  _id: Types.ObjectId;
+  scope: string; // The operation the key belongs to, e.g. orders.complete
+  ownerId: Types.ObjectId;
+  key: string;
+  fingerprint: string; // Hash of the request body the key was first used with
+  status: IdempotencyStatus;
+  responseStatus?: number;
+  responseBody?: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema: Schema<IIdempotencyKey> = new Schema(
+  {
+    scope: {
+      type: String,
+      required: [true, 'Scope is required'],
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required'],
+    },
+    key: {
+      type: String,
+      required: [true, 'Idempotency key is required'],
+      trim: true,
+      maxlength: [200, 'Idempotency key cannot exceed 200 characters'],
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    responseStatus: Number,
+    responseBody: Schema.Types.Mixed,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One record per key for each user and operation
+IdempotencyKeySchema.index({ scope: 1, ownerId: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ createdAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 }); // Keys are honoured for a day
+
+// Export the model, ensuring it's not re-compiled in development
+const IdempotencyKey = mongoose.models.IdempotencyKey ||
+  mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
+
+export default IdempotencyKey;
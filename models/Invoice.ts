@@ -0,0 +1,246 @@
+/**
+ * Invoice Model for Rental Orders
+ * One tax invoice per rental order, numbered without gaps per business and
+ * financial year. Lines and amounts are copied from the order when the invoice
+ * is issued; only the payment status follows the order afterwards.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+import { IInvoiceLine, IInvoiceTax, InvoicePaymentStatus } from '@/types';
+
+export interface IInvoice extends mongoose.Document {
+  _id: Types.ObjectId;
+  invoiceNumber: string;
+  financialYear: string; // Indian financial year the invoice falls in, e.g. 2026-27
+  sequence: number;
+  rentalOrderId: Types.ObjectId;
+  orderNumber: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  businessName?: string;
+  supplierGstin?: string;
+  placeOfSupply?: string; // GST state code the rental is delivered to
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  lines: IInvoiceLine[];
+  subtotal: number;
+  discountAmount: number;
+  deliveryCharge: number;
+  taxes: IInvoiceTax[];
+  taxAmount: number;
+  total: number;
+  depositAmount: number;
+  paymentStatus: InvoicePaymentStatus;
+  razorpayOrderId?: string;
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IInvoiceModel extends mongoose.Model<IInvoice> {
+  assignNumber(invoice: IInvoice, session?: mongoose.ClientSession | null): Promise<IInvoice>;
+}
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+// Financial years run April to March in Indian time
+export function financialYearOf(date: Date): string {
+  const local = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = local.getUTCMonth() >= 3 ? local.getUTCFullYear() : local.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+const InvoiceLineSchema = new Schema<IInvoiceLine>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    productName: { type: String, required: true, trim: true },
+    quantity: { type: Number, required: true, min: 1 },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    duration: { type: Number, required: true, min: 1 },
+    durationUnit: { type: String, enum: ['hour', 'day', 'week', 'month', 'year'], required: true },
+    unitPrice: { type: Number, required: true, min: 0 },
+    amount: { type: Number, required: true, min: 0 },
+    hsnSacCode: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const InvoiceTaxSchema = new Schema<IInvoiceTax>(
+  {
+    name: { type: String, required: true, trim: true },
+    rate: { type: Number, min: 0 },
+    amount: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const InvoiceSchema: Schema<IInvoice> = new Schema(
+  {
+    // Assigned once the invoice is the order's only one; unique within the business
+    invoiceNumber: {
+      type: String,
+      trim: true,
+    },
+    financialYear: {
+      type: String,
+      trim: true,
+    },
+    sequence: {
+      type: Number,
+      min: 1,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order is required'],
+      unique: true,
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    businessName: {
+      type: String,
+      trim: true,
+    },
+    // Set when the business was GST registered at the time of issue
+    supplierGstin: {
+      type: String,
+      trim: true,
+    },
+    placeOfSupply: {
+      type: String,
+      trim: true,
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    customerEmail: {
+      type: String,
+      required: [true, 'Customer email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    // Stored as on the order: JSON from checkout or free text
+    deliveryAddress: {
+      type: String,
+      trim: true,
+    },
+    lines: {
+      type: [InvoiceLineSchema],
+      validate: {
+        validator: (v: IInvoiceLine[]) => Array.isArray(v) && v.length > 0,
+        message: 'An invoice needs at least one line',
+      },
+    },
+    subtotal: { type: Number, min: 0, default: 0 },
+    discountAmount: { type: Number, min: 0, default: 0 },
+    deliveryCharge: { type: Number, min: 0, default: 0 },
+    taxes: {
+      type: [InvoiceTaxSchema],
+      default: [],
+    },
+    taxAmount: { type: Number, min: 0, default: 0 },
+    total: {
+      type: Number,
+      required: [true, 'Invoice total is required'],
+      min: [0, 'Invoice total cannot be negative'],
+    },
+    // Refundable, collected on top of the total and not part of the taxable amount
+    depositAmount: { type: Number, min: 0, default: 0 },
+    paymentStatus: {
+      type: String,
+      enum: {
+        values: ['pending', 'partial', 'paid', 'refunded'],
+        message: 'Invalid payment status',
+      },
+      default: 'pending',
+      required: true,
+    },
+    razorpayOrderId: {
+      type: String,
+      trim: true,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Invoice numbers repeat across businesses, never within one
+InvoiceSchema.index(
+  { endUserId: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } }
+);
+InvoiceSchema.index({ endUserId: 1, issuedAt: -1 }); // Business invoice list
+InvoiceSchema.index({ customerId: 1, issuedAt: -1 }); // Customer invoice list
+
+// Static method to give an issued invoice the next number in its business's financial
+// year, e.g. INV/26-27/00001. Only call it for the invoice that won its order, so
+// no number is spent on an invoice that is never kept.
+InvoiceSchema.statics.assignNumber = async function (
+  invoice: IInvoice,
+  session?: mongoose.ClientSession | null
+): Promise<IInvoice> {
+  if (invoice.invoiceNumber) return invoice;
+
+  const financialYear = financialYearOf(invoice.issuedAt);
+  // Taken in the invoice's transaction, if any, so an aborted checkout leaves no gap
+  const seq = await Counter.nextSequence(`invoice:${invoice.endUserId}:${financialYear}`, session);
+  const numbered = await this.findOneAndUpdate(
+    { _id: invoice._id, invoiceNumber: { $exists: false } },
+    // GST invoice numbers are limited to 16 characters
+    { $set: { financialYear, sequence: seq, invoiceNumber: `INV/${financialYear.slice(2)}/${String(seq).padStart(5, '0')}` } },
+    { new: true, session: session || undefined }
+  );
+
+  logger.database('INVOICE_NUMBERED', 'invoices', {
+    invoiceNumber: numbered?.invoiceNumber,
+    orderNumber: invoice.orderNumber,
+    endUserId: invoice.endUserId?.toString(),
+  });
+  return numbered || invoice;
+};
+
+InvoiceSchema.post('save', function (doc) {
+  logger.database('INVOICE_SAVED', 'invoices', {
+    invoiceNumber: doc.invoiceNumber,
+    orderNumber: doc.orderNumber,
+    endUserId: doc.endUserId?.toString(),
+    total: doc.total,
+    paymentStatus: doc.paymentStatus,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Invoice = (mongoose.models.Invoice as IInvoiceModel) ||
+  mongoose.model<IInvoice, IInvoiceModel>('Invoice', InvoiceSchema);
+
+export default Invoice;
@@ -0,0 +1,218 @@
+/**
+ * Invoice Note Model for Invoice Adjustments
+ * Credit notes lower and debit notes raise what an issued invoice billed, for
+ * refunds, late fees, damage charges and early returns. Notes start as drafts and
+ * are numbered without gaps per business, type and financial year when issued.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+import { financialYearOf } from '@/models/Invoice';
+import { IInvoiceTax, InvoiceNoteReason, InvoiceNoteStatus, InvoiceNoteType } from '@/types';
+
+export interface IInvoiceNote extends mongoose.Document {
+  _id: Types.ObjectId;
+  noteNumber?: string;
+  financialYear?: string;
+  sequence?: number;
+  type: InvoiceNoteType;
+  reason: InvoiceNoteReason;
+  status: InvoiceNoteStatus;
+  invoiceId: Types.ObjectId;
+  invoiceNumber: string;
+  rentalOrderId: Types.ObjectId;
+  orderNumber: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerName: string;
+  description?: string;
+  taxableAmount: number;
+  taxes: IInvoiceTax[];
+  taxAmount: number;
+  total: number; // Includes tax, like the invoice total
+  sourceKey?: string; // What the note was drafted for, so it is drafted once
+  createdBy?: Types.ObjectId;
+  createdByName?: string;
+  issuedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Printed before the number, e.g. CN/26-27/00001
+const NOTE_PREFIXES: Record<InvoiceNoteType, string> = {
+  credit: 'CN',
+  debit: 'DN',
+};
+
+const InvoiceNoteSchema: Schema<IInvoiceNote> = new Schema(
+  {
+    // Assigned when the note is issued; drafts have no number
+    noteNumber: {
+      type: String,
+      trim: true,
+    },
+    financialYear: {
+      type: String,
+      trim: true,
+    },
+    sequence: {
+      type: Number,
+      min: 1,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['credit', 'debit'],
+        message: 'Note type must be credit or debit',
+      },
+      required: [true, 'Note type is required'],
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: ['cancellation', 'early_return', 'late_fee', 'damage', 'other'],
+        message: 'Invalid note reason',
+      },
+      required: [true, 'Note reason is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['draft', 'issued', 'cancelled'],
+        message: 'Invalid note status',
+      },
+      default: 'draft',
+      required: true,
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice is required'],
+    },
+    invoiceNumber: {
+      type: String,
+      required: [true, 'Invoice number is required'],
+      trim: true,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order is required'],
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    taxableAmount: { type: Number, min: 0, default: 0 },
+    // Split like the invoice's own taxes
+    taxes: {
+      type: [
+        new Schema(
+          {
+            name: { type: String, required: true, trim: true },
+            rate: { type: Number, min: 0 },
+            amount: { type: Number, required: true, min: 0 },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    taxAmount: { type: Number, min: 0, default: 0 },
+    total: {
+      type: Number,
+      required: [true, 'Note total is required'],
+      min: [0.01, 'Note total must be greater than 0'],
+    },
+    sourceKey: {
+      type: String,
+      trim: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    createdByName: {
+      type: String,
+      trim: true,
+    },
+    issuedAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Note numbers repeat across businesses, never within one
+InvoiceNoteSchema.index(
+  { endUserId: 1, noteNumber: 1 },
+  { unique: true, partialFilterExpression: { noteNumber: { $type: 'string' } } }
+);
+// A refund or charge drafts at most one note
+InvoiceNoteSchema.index(
+  { sourceKey: 1 },
+  { unique: true, partialFilterExpression: { sourceKey: { $type: 'string' } } }
+);
+InvoiceNoteSchema.index({ invoiceId: 1, createdAt: 1 }); // Notes against an invoice
+InvoiceNoteSchema.index({ endUserId: 1, status: 1, issuedAt: -1 }); // Business notes and revenue reports
+InvoiceNoteSchema.index({ customerId: 1, status: 1 }); // Customer notes
+
+// Number the note when it is issued, e.g. CN/26-27/00001 or DN/26-27/00001
+InvoiceNoteSchema.pre('save', async function (next) {
+  const note = this as IInvoiceNote;
+  if (note.status !== 'issued' || note.noteNumber) {
+    return next();
+  }
+
+  try {
+    note.issuedAt = note.issuedAt || new Date();
+    const financialYear = financialYearOf(note.issuedAt);
+    const seq = await Counter.nextSequence(`${note.type}Note:${note.endUserId}:${financialYear}`, note.$session());
+    note.financialYear = financialYear;
+    note.sequence = seq;
+    note.noteNumber = `${NOTE_PREFIXES[note.type]}/${financialYear.slice(2)}/${String(seq).padStart(5, '0')}`;
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+InvoiceNoteSchema.post('save', function (doc) {
+  logger.database('INVOICE_NOTE_SAVED', 'invoicenotes', {
+    noteNumber: doc.noteNumber,
+    type: doc.type,
+    reason: doc.reason,
+    status: doc.status,
+    invoiceNumber: doc.invoiceNumber,
+    total: doc.total,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const InvoiceNote = mongoose.models.InvoiceNote || mongoose.model<IInvoiceNote>('InvoiceNote', InvoiceNoteSchema);
+
+export default InvoiceNote;
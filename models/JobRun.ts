@@ -0,0 +1,115 @@
+/**
+ * Job Run Model for Background Jobs
+ * Records every scheduler or manual job run, and doubles as the lock that stops
+ * the same job running twice at once
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { JobName, JobRunStatus, JobTrigger } from '@/types';
+
+interface IJobRun extends mongoose.Document {
+  _id: Types.ObjectId;
+  name: JobName;
+  trigger: JobTrigger;
+  endUserId?: Types.ObjectId; // Set when a manual run is limited to one business
+  triggeredBy?: Types.ObjectId;
+  triggeredByName?: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  processed: number;
+  details: string[];
+  error?: string;
+}
+
+const JobRunSchema: Schema<IJobRun> = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Job name is required'],
+      trim: true,
+    },
+    trigger: {
+      type: String,
+      enum: {
+        values: ['schedule', 'manual'],
+        message: 'Invalid job trigger',
+      },
+      required: true,
+      default: 'schedule',
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    triggeredByName: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['running', 'succeeded', 'failed'],
+        message: 'Invalid job run status',
+      },
+      required: true,
+      default: 'running',
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    finishedAt: Date,
+    durationMs: {
+      type: Number,
+      min: 0,
+    },
+    processed: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    details: {
+      type: [String],
+      default: [],
+    },
+    error: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one running run per job, whether or not it is limited to one business, so a
+// business's manual run never overlaps the scheduled run over the same orders; a
+// second insert fails with a duplicate key error (scripts/migrate.js drops the
+// per-business lock index older databases have)
+JobRunSchema.index({ name: 1 }, { unique: true, partialFilterExpression: { status: 'running' } });
+JobRunSchema.index({ name: 1, trigger: 1, startedAt: -1 }); // Last scheduled run lookup
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 }); // Keep 30 days of history
+
+JobRunSchema.post('save', function (doc) {
+  if (doc.status === 'running') return;
+  logger.database('JOB_RUN', 'jobruns', {
+    name: doc.name,
+    trigger: doc.trigger,
+    status: doc.status,
+    processed: doc.processed,
+    durationMs: doc.durationMs,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const JobRun = mongoose.models.JobRun || mongoose.model<IJobRun>('JobRun', JobRunSchema);
+
+export default JobRun;
@@ -0,0 +1,293 @@
+/**
+ * Maintenance Model
+ * Scheduled service, repair or inspection of a product or one of its units. Open
+ * maintenance takes its units out of the rental pool for its date range, and
+ * completed maintenance keeps its cost for reporting. Maintenance plans on the
+ * product schedule it after a number of rentals or hours rented, in the first
+ * window its units are free.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { BLOCKING_MAINTENANCE_STATUSES, MAINTENANCE_STATUSES, MAINTENANCE_TYPES } from '@/lib/maintenanceStatus';
+import { MaintenanceStatus, MaintenanceType } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far ahead plan maintenance looks for a window with a free unit
+const PLAN_WINDOW_SEARCH_DAYS = 30;
+
+export interface IMaintenance extends mongoose.Document {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  assetId?: Types.ObjectId;
+  serialNumber?: string;
+  type: MaintenanceType;
+  status: MaintenanceStatus;
+  title: string;
+  notes?: string;
+  startDate: Date;
+  endDate: Date;
+  quantity: number;
+  cost: number;
+  planId?: Types.ObjectId;
+  completedAt?: Date;
+  createdBy?: Types.ObjectId;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IMaintenanceModel extends mongoose.Model<IMaintenance> {
+  scheduleDue(order: any, session?: mongoose.ClientSession | null): Promise<IMaintenance[]>;
+}
+
+const MaintenanceSchema: Schema<IMaintenance> = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    // Set when one serialized unit is maintained rather than any unit of the product
+    assetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Asset',
+    },
+    serialNumber: {
+      type: String,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: MAINTENANCE_TYPES,
+        message: 'Invalid maintenance type',
+      },
+      required: [true, 'Maintenance type is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: MAINTENANCE_STATUSES,
+        message: 'Invalid maintenance status',
+      },
+      default: 'scheduled',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    // Units are out of service from the start until the end
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+      validate: {
+        validator: function (this: IMaintenance, v: Date) {
+          return !this.startDate || v > this.startDate;
+        },
+        message: 'End date must be after the start date',
+      },
+    },
+    // Units out of service; always 1 for a serialized unit
+    quantity: {
+      type: Number,
+      required: true,
+      default: 1,
+      min: [1, 'Quantity must be at least 1'],
+    },
+    cost: {
+      type: Number,
+      default: 0,
+      min: [0, 'Cost cannot be negative'],
+    },
+    // Maintenance plan on the product that scheduled it
+    planId: {
+      type: Schema.Types.ObjectId,
+    },
+    completedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // "System" for maintenance scheduled by a plan
+    createdByName: {
+      type: String,
+      required: true,
+      trim: true,
+      default: 'System',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+MaintenanceSchema.index({ productId: 1, status: 1, startDate: 1, endDate: 1 }); // Availability
+MaintenanceSchema.index({ endUserId: 1, completedAt: -1 }); // Cost reports
+MaintenanceSchema.index({ planId: 1, assetId: 1, createdAt: -1 });
+
+// Rentals and hours rented of one unit since a date, from its rental history
+function unitUsage(asset: any, since: Date) {
+  const rentals = (asset.rentals || []).filter((r: any) => !r.cancelled && r.returnedAt && r.returnedAt > since);
+  return {
+    rentals: rentals.length,
+    hours: rentals.reduce((sum: number, r: any) => sum + (r.returnedAt.getTime() - r.assignedAt.getTime()) / HOUR_MS, 0),
+  };
+}
+
+// Rentals and hours rented of any unit of a product since a date, from its returned orders
+async function productUsage(productId: Types.ObjectId, since: Date, session?: mongoose.ClientSession | null) {
+  const orders: any[] = await mongoose.model('RentalOrder')
+    .find({ status: 'returned', 'items.productId': productId, returnDate: { $gt: since } })
+    .select('items')
+    .session(session || null)
+    .lean();
+
+  let rentals = 0;
+  let hours = 0;
+  for (const order of orders) {
+    for (const item of order.items) {
+      if (item.productId.toString() !== productId.toString()) continue;
+      rentals += item.quantity;
+      hours += ((item.endDate.getTime() - item.startDate.getTime()) / HOUR_MS) * item.quantity;
+    }
+  }
+  return { rentals, hours };
+}
+
+// Static method to schedule the plan maintenance an order's return makes due. Units
+// named on the order are counted one by one; products without units as a whole.
+// Maintenance starts at the return when a unit is free for it, otherwise in the
+// first free window; when there is none it is logged and left for the next return.
+MaintenanceSchema.statics.scheduleDue = async function (
+  order: any,
+  session?: mongoose.ClientSession | null
+): Promise<IMaintenance[]> {
+  // Engine loaded lazily because it queries this model
+  const { findFreeStart } = await import('@/lib/availability');
+  const productIds = Array.from(new Set<string>(order.items.map((item: any) => (item.productId?._id || item.productId).toString())));
+
+  // Loaded lazily; the product and asset models are registered by the order model's callers
+  const products: any[] = await mongoose.model('Product')
+    .find({ _id: { $in: productIds }, 'maintenancePlans.active': true })
+    .select('name endUserId createdAt maintenancePlans')
+    .session(session || null);
+  if (products.length === 0) return [];
+
+  const now = order.returnDate || new Date();
+  const scheduled: IMaintenance[] = [];
+
+  for (const product of products) {
+    const plans = product.maintenancePlans.filter((plan: any) => plan.active);
+    const assetIds = order.items
+      .filter((item: any) => (item.productId?._id || item.productId).toString() === product._id.toString())
+      .flatMap((item: any) => item.assetIds || []);
+    const assets: any[] = assetIds.length
+      ? await mongoose.model('Asset').find({ _id: { $in: assetIds } }).session(session || null)
+      : [];
+
+    // One target per unit handed over, or the product itself
+    const targets: any[] = assets.length ? assets : [null];
+    for (const plan of plans) {
+      for (const asset of targets) {
+        const scope = { planId: plan._id, assetId: asset ? asset._id : { $exists: false } };
+        const open = await this.exists({ ...scope, status: { $in: BLOCKING_MAINTENANCE_STATUSES } }).session(session || null);
+        if (open) continue;
+
+        const last: any = await this.findOne(scope).sort({ createdAt: -1 }).session(session || null);
+        const since: Date = last?.createdAt || (asset || product).createdAt;
+        const usage = asset ? unitUsage(asset, since) : await productUsage(product._id, since, session);
+        const due = (plan.everyRentals && usage.rentals >= plan.everyRentals) || (plan.everyHours && usage.hours >= plan.everyHours);
+        if (!due) continue;
+
+        // A unit already in maintenance is out of the pool, so servicing it takes no other unit
+        const duration = plan.durationHours * HOUR_MS;
+        const startDate = asset?.status === 'maintenance'
+          ? now
+          : await findFreeStart(
+            product._id.toString(),
+            now,
+            new Date(now.getTime() + PLAN_WINDOW_SEARCH_DAYS * DAY_MS),
+            duration,
+            1,
+            { excludeOrderId: order._id.toString() }
+          );
+        if (!startDate) {
+          logger.warn('No free window for plan maintenance', {
+            productId: product._id.toString(),
+            serialNumber: asset?.serialNumber,
+            plan: plan.title,
+            orderNumber: order.orderNumber,
+            searchedDays: PLAN_WINDOW_SEARCH_DAYS,
+          });
+          continue;
+        }
+
+        const [maintenance] = await this.create(
+          [{
+            productId: product._id,
+            endUserId: product.endUserId,
+            assetId: asset?._id,
+            serialNumber: asset?.serialNumber,
+            type: plan.type,
+            title: plan.title,
+            notes: `Due after ${usage.rentals} rental${usage.rentals === 1 ? '' : 's'} and ${Math.round(usage.hours)} hours rented (order ${order.orderNumber})`,
+            startDate,
+            endDate: new Date(startDate.getTime() + duration),
+            quantity: 1,
+            planId: plan._id,
+          }],
+          { session: session || undefined }
+        );
+
+        // The unit is out of service from now when the maintenance starts at the return
+        if (asset && asset.status === 'available' && startDate <= now) {
+          asset.status = 'maintenance';
+          await asset.save({ session: session || undefined });
+        }
+        scheduled.push(maintenance);
+      }
+    }
+  }
+
+  return scheduled;
+};
+
+MaintenanceSchema.post('save', function (doc) {
+  logger.database('MAINTENANCE_SAVED', 'maintenances', {
+    productId: doc.productId?.toString(),
+    serialNumber: doc.serialNumber,
+    type: doc.type,
+    status: doc.status,
+    startDate: doc.startDate,
+    endDate: doc.endDate,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Maintenance = (mongoose.models.Maintenance as IMaintenanceModel) ||
+  mongoose.model<IMaintenance, IMaintenanceModel>('Maintenance', MaintenanceSchema);
+
+export default Maintenance;
@@ -0,0 +1,109 @@
+/**
+ * Payment Model for the Payment Event Ledger
+ * Stores every Razorpay webhook event once, linked to the rental orders paid by
+ * the Razorpay order, so payment status can always be rebuilt from the ledger
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+interface IPayment extends mongoose.Document {
+  _id: Types.ObjectId;
+  eventId: string;
+  event: string;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpayRefundId?: string;
+  rentalOrderIds: Types.ObjectId[];
+  amount: number; // Rupees, converted from paise
+  currency: string;
+  status?: string;
+  method?: string;
+  email?: string;
+  contact?: string;
+  errorCode?: string;
+  errorDescription?: string;
+  payload: any;
+  receivedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentSchema: Schema<IPayment> = new Schema(
+  {
+    // Razorpay's event id; a redelivered event is rejected by the unique index
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required'],
+      unique: true,
+      trim: true,
+    },
+    event: {
+      type: String,
+      required: [true, 'Event type is required'],
+      trim: true,
+    },
+    razorpayOrderId: {
+      type: String,
+      trim: true,
+    },
+    razorpayPaymentId: {
+      type: String,
+      trim: true,
+    },
+    razorpayRefundId: {
+      type: String,
+      trim: true,
+    },
+    rentalOrderIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'RentalOrder',
+      },
+    ],
+    amount: {
+      type: Number,
+      min: [0, 'Amount cannot be negative'],
+      default: 0,
+    },
+    currency: {
+      type: String,
+      default: 'INR',
+    },
+    status: String,
+    method: String,
+    email: String,
+    contact: String,
+    errorCode: String,
+    errorDescription: String,
+    payload: {
+      type: Schema.Types.Mixed,
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PaymentSchema.index({ razorpayOrderId: 1, receivedAt: 1 }); // Ledger for one Razorpay order
+PaymentSchema.index({ razorpayPaymentId: 1 }); // Refunds look up their payment
+PaymentSchema.index({ rentalOrderIds: 1 }); // Payments for a rental order
+
+PaymentSchema.post('save', function (doc) {
+  logger.database('PAYMENT_EVENT', 'payments', {
+    event: doc.event,
+    razorpayOrderId: doc.razorpayOrderId,
+    razorpayPaymentId: doc.razorpayPaymentId,
+    amount: doc.amount,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Payment = mongoose.models.Payment || mongoose.model<IPayment>('Payment', PaymentSchema);
+
+export default Payment;
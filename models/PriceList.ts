@@ -0,0 +1,196 @@
+/**
+ * Price List Model
+ * Negotiated rates a business gives its corporate customers, assigned to customer
+ * accounts by email or to whole companies by email domain. Applied ahead of the
+ * public rates through lib/priceLists.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { PRICE_LIST_ENTRY_TYPES, normalizeEmailDomain, pickPriceList, toPriceList } from '@/lib/priceLists';
+import { PriceList as PriceListShape, PriceListEntryType } from '@/types';
+
+export interface IPriceListEntry {
+  productId?: Types.ObjectId;
+  category?: string;
+  type: PriceListEntryType;
+  percentOff?: number;
+  pricePerHour?: number;
+  pricePerDay?: number;
+  pricePerWeek?: number;
+  pricePerMonth?: number;
+  pricePerYear?: number;
+}
+
+export interface IPriceList extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  name: string;
+  description?: string;
+  customerEmails: string[];
+  emailDomains: string[];
+  entries: IPriceListEntry[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IPriceListModel extends mongoose.Model<IPriceList> {
+  forCustomer(endUserId: any, customerEmail?: string): Promise<PriceListShape | undefined>;
+  forCustomerByBusiness(customerEmail?: string): Promise<Map<string, PriceListShape>>;
+  takeOverAssignments(list: IPriceList): Promise<void>;
+}
+
+const rateField = { type: Number, min: [0, 'Rates cannot be negative'] };
+
+const PriceListEntrySchema = new Schema<IPriceListEntry>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product' },
+    category: { type: String, trim: true },
+    type: {
+      type: String,
+      enum: {
+        values: PRICE_LIST_ENTRY_TYPES,
+        message: 'Invalid price list entry type',
+      },
+      required: [true, 'Price list entry type is required'],
+    },
+    // Percentage entries: share taken off every public rate
+    percentOff: {
+      type: Number,
+      min: [0.01, 'Percentage off must be more than 0'],
+      max: [100, 'Percentage off cannot exceed 100'],
+      required: [
+        function (this: IPriceListEntry) { return this.type === 'percent'; },
+        'Percentage entries need a percentage off',
+      ],
+    },
+    // Fixed entries: negotiated rates; tiers left blank keep the public rate
+    pricePerHour: rateField,
+    pricePerDay: rateField,
+    pricePerWeek: rateField,
+    pricePerMonth: rateField,
+    pricePerYear: rateField,
+  },
+  { _id: false }
+);
+
+PriceListEntrySchema.pre('validate', function () {
+  if (this.type !== 'fixed') return;
+  if (!this.productId) {
+    this.invalidate('productId', 'Fixed prices are set per product');
+  }
+  if (!(this.pricePerHour || this.pricePerDay || this.pricePerWeek || this.pricePerMonth || this.pricePerYear)) {
+    this.invalidate('pricePerDay', 'Fixed prices need at least one rate');
+  }
+});
+
+const PriceListSchema: Schema<IPriceList> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Price list name is required'],
+      trim: true,
+      maxlength: [80, 'Price list name cannot exceed 80 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Description cannot exceed 300 characters'],
+    },
+    // Customer accounts on the list; an account is on one list per business
+    customerEmails: {
+      type: [{ type: String, lowercase: true, trim: true }],
+      default: [],
+    },
+    // Customer groups: every account with an email at these domains
+    emailDomains: {
+      type: [{ type: String, lowercase: true, trim: true }],
+      default: [],
+    },
+    entries: {
+      type: [PriceListEntrySchema],
+      default: [],
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PriceListSchema.index({ endUserId: 1, customerEmails: 1 }); // List of a customer account
+PriceListSchema.index({ endUserId: 1, emailDomains: 1 }); // List of a customer's company
+
+// Active lists that could cover a customer, newest first
+function customerListQuery(customerEmail: string) {
+  const email = customerEmail.trim().toLowerCase();
+  return {
+    active: true,
+    $or: [{ customerEmails: email }, { emailDomains: normalizeEmailDomain(email) }],
+  };
+}
+
+// Static method to find the price list a business gives a customer
+PriceListSchema.statics.forCustomer = async function (
+  endUserId: any,
+  customerEmail?: string
+): Promise<PriceListShape | undefined> {
+  if (!endUserId || !customerEmail) return undefined;
+  const lists = await this.find({ endUserId, ...customerListQuery(customerEmail) }).sort({ updatedAt: -1 }).lean();
+  return pickPriceList(lists.map(toPriceList), customerEmail);
+};
+
+// Static method to find a customer's price list at every business that gives them one
+PriceListSchema.statics.forCustomerByBusiness = async function (
+  customerEmail?: string
+): Promise<Map<string, PriceListShape>> {
+  const byBusiness = new Map<string, PriceListShape>();
+  if (!customerEmail) return byBusiness;
+
+  const lists = await this.find(customerListQuery(customerEmail)).sort({ updatedAt: -1 }).lean();
+  const grouped = new Map<string, PriceListShape[]>();
+  lists.forEach((list: any) => {
+    const key = list.endUserId.toString();
+    grouped.set(key, [...(grouped.get(key) || []), toPriceList(list)]);
+  });
+  grouped.forEach((businessLists, endUserId) => {
+    const list = pickPriceList(businessLists, customerEmail);
+    if (list) byBusiness.set(endUserId, list);
+  });
+  return byBusiness;
+};
+
+// Static method to move a list's customers and domains off the business's other
+// lists, so each customer is on one list per business
+PriceListSchema.statics.takeOverAssignments = async function (list: IPriceList): Promise<void> {
+  if (list.customerEmails.length === 0 && list.emailDomains.length === 0) return;
+  await this.updateMany(
+    { endUserId: list.endUserId, _id: { $ne: list._id } },
+    { $pull: { customerEmails: { $in: list.customerEmails }, emailDomains: { $in: list.emailDomains } } }
+  );
+};
+
+PriceListSchema.post('save', function (doc) {
+  logger.database('PRICE_LIST_SAVED', 'pricelists', {
+    name: doc.name,
+    customers: doc.customerEmails.length,
+    domains: doc.emailDomains.length,
+    entries: doc.entries.length,
+    active: doc.active,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const PriceList = (mongoose.models.PriceList as IPriceListModel) ||
+  mongoose.model<IPriceList, IPriceListModel>('PriceList', PriceListSchema);
+
+export default PriceList;
@@ -0,0 +1,148 @@
+/**
+ * Pricing Rule Model
+ * A business's seasonal or demand-based price change for its products or
+ * categories: weekend multipliers, date-range overrides, long-rental discounts and
+ * last-minute surcharges. Applied by the pricing engine through lib/pricingRules.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { PRICING_RULE_TYPES, ruleCoversProduct, toPricingRule } from '@/lib/pricingRules';
+import { PricingRule as PricingRuleShape, PricingRuleType } from '@/types';
+
+export interface IPricingRule extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  name: string;
+  type: PricingRuleType;
+  percent: number;
+  productIds: Types.ObjectId[];
+  categories: string[];
+  daysOfWeek: number[];
+  startDate?: Date;
+  endDate?: Date;
+  minHours?: number;
+  withinHours?: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IPricingRuleModel extends mongoose.Model<IPricingRule> {
+  forProduct(product: any): Promise<PricingRuleShape[]>;
+}
+
+const PricingRuleSchema: Schema<IPricingRule> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Rule name is required'],
+      trim: true,
+      maxlength: [80, 'Rule name cannot exceed 80 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: PRICING_RULE_TYPES,
+        message: 'Invalid pricing rule type',
+      },
+      required: [true, 'Rule type is required'],
+    },
+    // Percentage of the tier price added; negative for discounts, e.g. 25 for 1.25x
+    percent: {
+      type: Number,
+      required: [true, 'Price change is required'],
+      min: [-90, 'A rule cannot take more than 90% off'],
+      max: [500, 'A rule cannot add more than 500%'],
+    },
+    // Empty scopes cover every product of the business
+    productIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Product' }],
+      default: [],
+    },
+    categories: {
+      type: [{ type: String, trim: true }],
+      default: [],
+    },
+    // Weekend rules: days of the week, 0 = Sunday
+    daysOfWeek: {
+      type: [{ type: Number, min: 0, max: 6 }],
+      default: undefined,
+    },
+    // Date range rules: first and last day, both included
+    startDate: {
+      type: Date,
+      required: [
+        function (this: IPricingRule) { return this.type === 'date_range'; },
+        'Date range rules need a start date',
+      ],
+    },
+    endDate: {
+      type: Date,
+      required: [
+        function (this: IPricingRule) { return this.type === 'date_range'; },
+        'Date range rules need an end date',
+      ],
+      validate: {
+        validator: function (this: IPricingRule, v: Date) {
+          return !v || !this.startDate || v >= this.startDate;
+        },
+        message: 'End date cannot be before the start date',
+      },
+    },
+    // Long rental rules: rentals at least this many hours long
+    minHours: {
+      type: Number,
+      min: [1, 'Minimum rental must be at least 1 hour'],
+      required: [
+        function (this: IPricingRule) { return this.type === 'long_duration'; },
+        'Long rental rules need a minimum rental length',
+      ],
+    },
+    // Last-minute rules: rentals starting within this many hours of booking
+    withinHours: {
+      type: Number,
+      min: [1, 'Lead time must be at least 1 hour'],
+      required: [
+        function (this: IPricingRule) { return this.type === 'lead_time'; },
+        'Last-minute rules need a lead time',
+      ],
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PricingRuleSchema.index({ endUserId: 1, active: 1 }); // Rules applied when pricing a business's products
+
+// Static method to load the active rules that cover a product
+PricingRuleSchema.statics.forProduct = async function (product: any): Promise<PricingRuleShape[]> {
+  if (!product?.endUserId) return [];
+  const rules = await this.find({ endUserId: product.endUserId, active: true }).lean();
+  return rules.map(toPricingRule).filter((rule: PricingRuleShape) => ruleCoversProduct(rule, product));
+};
+
+PricingRuleSchema.post('save', function (doc) {
+  logger.database('PRICING_RULE_SAVED', 'pricingrules', {
+    name: doc.name,
+    type: doc.type,
+    percent: doc.percent,
+    active: doc.active,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const PricingRule = (mongoose.models.PricingRule as IPricingRuleModel) ||
+  mongoose.model<IPricingRule, IPricingRuleModel>('PricingRule', PricingRuleSchema);
+
+export default PricingRule;
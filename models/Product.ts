@@ -4,8 +4,14 @@
  */
 
 import mongoose, { Schema } from 'mongoose';
-import { IProduct } from '@/types';
+import { IProduct, RentalConstraints, StockLevels } from '@/types';
 import { logger } from '@/lib/logger';
+import { MAX_RENTAL_HOURS, priceForHours } from '@/lib/pricing';
+import { MAX_ADVANCE_DAYS, MAX_NOTICE_HOURS } from '@/lib/rentalConstraints';
+import { LateFeePolicySchema, TurnaroundBufferSchema } from '@/models/BusinessSettings';
+import { DEPOSIT_RULE_TYPES } from '@/lib/deposits';
+import { GST_RATES, isValidHsnSacCode } from '@/lib/gst';
+import { MAINTENANCE_TYPES } from '@/lib/maintenanceStatus';
 
 // Product schema definition with comprehensive validation
 const ProductSchema: Schema<IProduct> = new Schema(
@@ -115,6 +121,166 @@ const ProductSchema: Schema<IProduct> = new Schema(
       max: [10000, 'Quantity seems too high'],
       default: 1,
     },
+    replacementValue: {
+      type: Number,
+      min: [0, 'Replacement value cannot be negative'],
+    },
+    // Overrides the business late fee policy for this product when set
+    lateFeePolicy: {
+      type: LateFeePolicySchema,
+      default: undefined,
+    },
+    // Overrides the business turnaround buffer for this product's category when set
+    turnaroundBuffer: {
+      type: TurnaroundBufferSchema,
+      default: undefined,
+    },
+    // Limits on rental length and when rentals may be booked; blank limits do not apply
+    rentalConstraints: {
+      type: new Schema(
+        {
+          minDurationHours: {
+            type: Number,
+            min: [1, 'Minimum rental must be at least 1 hour'],
+          },
+          maxDurationHours: {
+            type: Number,
+            min: [1, 'Maximum rental must be at least 1 hour'],
+            max: [MAX_RENTAL_HOURS, 'Maximum rental is too long'],
+          },
+          minNoticeHours: {
+            type: Number,
+            min: [0, 'Notice period cannot be negative'],
+            max: [MAX_NOTICE_HOURS, 'Notice period cannot exceed a year'],
+          },
+          maxAdvanceDays: {
+            type: Number,
+            min: [1, 'Booking window must be at least 1 day'],
+            max: [MAX_ADVANCE_DAYS, 'Booking window is too long'],
+          },
+          // IST days of the week rentals may start on, 0 = Sunday
+          startDaysOfWeek: {
+            type: [{ type: Number, min: 0, max: 6 }],
+            default: undefined,
+          },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      validate: {
+        validator: (v: RentalConstraints) =>
+          !v || !v.minDurationHours || !v.maxDurationHours || v.minDurationHours <= v.maxDurationHours,
+        message: 'Minimum rental cannot be longer than the maximum rental',
+      },
+    },
+    // Stock page thresholds: low stock at or below the minimum free units, high at the maximum owned
+    stockLevels: {
+      type: new Schema(
+        {
+          minimum: {
+            type: Number,
+            min: [0, 'Minimum stock cannot be negative'],
+            max: [10000, 'Minimum stock seems too high'],
+          },
+          maximum: {
+            type: Number,
+            min: [1, 'Maximum stock must be at least 1'],
+            max: [10000, 'Maximum stock seems too high'],
+          },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      validate: {
+        validator: (v: StockLevels) => !v || !v.minimum || !v.maximum || v.minimum <= v.maximum,
+        message: 'Minimum stock cannot be above the maximum stock',
+      },
+    },
+    // Recurring maintenance, scheduled when a return brings a unit to the interval
+    maintenancePlans: {
+      type: [
+        new Schema({
+          title: {
+            type: String,
+            required: [true, 'Plan title is required'],
+            trim: true,
+            maxlength: [100, 'Plan title cannot exceed 100 characters'],
+          },
+          type: {
+            type: String,
+            enum: {
+              values: MAINTENANCE_TYPES,
+              message: 'Invalid maintenance type',
+            },
+            default: 'service',
+          },
+          everyRentals: {
+            type: Number,
+            min: [1, 'Rental interval must be at least 1'],
+          },
+          everyHours: {
+            type: Number,
+            min: [1, 'Hours interval must be at least 1 hour'],
+          },
+          durationHours: {
+            type: Number,
+            required: [true, 'Maintenance duration is required'],
+            min: [1, 'Maintenance must take at least 1 hour'],
+            max: [24 * 90, 'Maintenance cannot take more than 90 days'],
+          },
+          active: {
+            type: Boolean,
+            default: true,
+          },
+        }),
+      ],
+      default: undefined,
+      validate: {
+        validator: (plans: Array<{ everyRentals?: number; everyHours?: number }>) =>
+          !plans || plans.every((plan) => plan.everyRentals || plan.everyHours),
+        message: 'Each maintenance plan needs a rental or hours interval',
+      },
+    },
+    // Security deposit taken at checkout and returned after the rental
+    depositRule: {
+      type: new Schema(
+        {
+          type: {
+            type: String,
+            enum: {
+              values: DEPOSIT_RULE_TYPES,
+              message: 'Invalid deposit rule type',
+            },
+            required: [true, 'Deposit rule type is required'],
+            default: 'none',
+          },
+          amount: {
+            type: Number,
+            min: [0, 'Deposit amount cannot be negative'],
+            default: 0,
+          },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    // HSN or SAC code printed on tax invoices; rentals without one use SAC 9973
+    hsnSacCode: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (v: string) => !v || isValidHsnSacCode(v),
+        message: 'HSN/SAC code must be 4 to 8 digits',
+      },
+    },
+    // GST slab the product is taxed at; 18% when not set
+    gstRate: {
+      type: Number,
+      enum: {
+        values: GST_RATES,
+        message: 'Please select a valid GST rate',
+      },
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt
@@ -181,27 +347,12 @@ ProductSchema.virtual('pricePerMinute').get(function () {
 // Virtual field to calculate best pricing option for a given duration
 ProductSchema.virtual('bestPriceForDuration').get(function () {
   return (durationHours: number) => {
-    const hours = durationHours;
-    const days = Math.floor(hours / 24);
-    const weeks = Math.floor(days / 7);
-    
-    // Calculate different pricing options
-    const hourlyTotal = hours * this.pricePerHour;
-    const dailyTotal = days * this.pricePerDay + (hours % 24) * this.pricePerHour;
-    const weeklyTotal = weeks * this.pricePerWeek + 
-                       ((days % 7) * this.pricePerDay) + 
-                       ((hours % 24) * this.pricePerHour);
-    
-    // Return the cheapest option
-    const prices = [
-      { type: 'hourly', total: hourlyTotal },
-      { type: 'daily', total: dailyTotal },
-      { type: 'weekly', total: weeklyTotal },
-    ];
-    
-    return prices.reduce((cheapest, current) => 
-      current.total < cheapest.total ? current : cheapest
-    );
+    // Cheapest mix of year/month/week/day/hour rates covering the duration
+    const breakdown = priceForHours(this, Math.max(1, Math.ceil(durationHours)));
+    return {
+      total: breakdown.reduce((sum, line) => sum + line.amount, 0),
+      breakdown,
+    };
   };
 });
 
@@ -1,16 +1,46 @@
 /**
  * Rental Order Model for Rental Reservations
- * Handles the complete rental lifecycle from quotation to return
+ * Handles the complete rental lifecycle from quotation to return.
+ * One order holds every product line from a single checkout.
  */
 
 import mongoose, { Schema } from 'mongoose';
 import { Types } from 'mongoose';
 import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+import Transfer from '@/models/Transfer';
+import StockMovement from '@/models/StockMovement';
+import Asset from '@/models/Asset';
+import Maintenance from '@/models/Maintenance';
+import BusinessSettings, { LateFeeTermsSchema } from '@/models/BusinessSettings';
+import {
+  CancellationQuote,
+  GstBreakdown,
+  HandoverKind,
+  IDepositEntry,
+  IRefund,
+  IRentalOrderItem,
+  IStatusHistoryEntry,
+  LateFeeBreakdown,
+  RentalDurationUnit,
+  RentalOrderStatus,
+} from '@/types';
+import { ORDER_STATUSES, assertTransition, getAllowedTransitions } from '@/lib/orderStatus';
+import { calculateRentalPrice, roundAmount } from '@/lib/pricing';
+import { DEFAULT_LATE_FEE_POLICY, LATE_FEE_POLICY_TYPES, calculateLateFee } from '@/lib/lateFees';
+import { summarizeDeposit } from '@/lib/deposits';
+import { PRICING_RULE_TYPES } from '@/lib/pricingRules';
+import { checkRentalConstraints, checkRentalDuration } from '@/lib/rentalConstraints';
+import { checkHandoverTime, slotAt, slotFullMessage } from '@/lib/handoverSchedule';
+
+// Orders whose pickup or return still takes up a handover slot
+const HANDOVER_STATUSES = ['confirmed', 'reserved', 'delivered', 'late'];
 
 // Define the interface for RentalOrder
 interface IRentalOrder extends mongoose.Document {
   _id: Types.ObjectId;
-  productId: Types.ObjectId;
+  orderNumber: string;
+  items: IRentalOrderItem[];
   customerId: Types.ObjectId;
   endUserId: Types.ObjectId;
   customerName: string;
@@ -18,28 +48,243 @@ interface IRentalOrder extends mongoose.Document {
   customerPhone?: string;
   startDate: Date;
   endDate: Date;
-  duration: number;
-  durationUnit: 'hour' | 'day' | 'week' | 'month' | 'year';
+  subtotal: number;
+  discountAmount: number;
+  couponId?: Types.ObjectId;
+  couponCode?: string;
+  priceListId?: Types.ObjectId;
+  priceListName?: string;
+  deliveryCharge: number;
+  taxAmount: number;
+  taxBreakdown?: GstBreakdown;
   totalPrice: number;
   depositAmount?: number;
-  status: 'quotation' | 'confirmed' | 'reserved' | 'delivered' | 'returned' | 'late' | 'cancelled';
+  depositLedger: IDepositEntry[];
+  depositSettledAt?: Date;
+  status: RentalOrderStatus;
+  statusHistory: IStatusHistoryEntry[];
   pickupDate?: Date;
   returnDate?: Date;
   lateFees?: number;
+  lateFeeBreakdown: LateFeeBreakdown[];
   paymentStatus: 'pending' | 'partial' | 'paid' | 'refunded';
+  razorpayOrderId?: string;
+  cancellation?: CancellationQuote & { cancelledAt: Date; reason?: string };
+  refunds: IRefund[];
+  refundLockedUntil?: Date; // Set while a cancellation or deposit refund is being issued
   deliveryAddress?: string;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const DURATION_UNIT_MS: Record<RentalDurationUnit, number> = {
+  hour: 1000 * 60 * 60,
+  day: 1000 * 60 * 60 * 24,
+  week: 1000 * 60 * 60 * 24 * 7,
+  month: 1000 * 60 * 60 * 24 * 30,
+  year: 1000 * 60 * 60 * 24 * 365,
+};
+
+// Product line on an order with its own rental period and pricing
+const RentalOrderItemSchema = new Schema<IRentalOrderItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product ID is required'],
+  },
+  productName: {
+    type: String,
+    required: [true, 'Product name is required'],
+    trim: true,
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+    default: 1,
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required'],
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: {
+      validator: function (this: IRentalOrderItem, v: Date) {
+        // End date should be after start date
+        return v > this.startDate;
+      },
+      message: 'End date must be after start date',
+    },
+  },
+  duration: {
+    type: Number,
+    required: [true, 'Duration is required'],
+    min: [1, 'Duration must be at least 1'],
+  },
+  durationUnit: {
+    type: String,
+    enum: {
+      values: Object.keys(DURATION_UNIT_MS),
+      message: 'Invalid duration unit',
+    },
+    required: [true, 'Duration unit is required'],
+    default: 'day',
+  },
+  // Price of one unit for the whole period, from the pricing engine
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Price cannot be negative'],
+  },
+  lineTotal: {
+    type: Number,
+    required: [true, 'Line total is required'],
+    min: [0, 'Price cannot be negative'],
+  },
+  priceBreakdown: {
+    type: [
+      new Schema(
+        {
+          unit: { type: String, enum: Object.keys(DURATION_UNIT_MS), required: true },
+          count: { type: Number, required: true, min: 0 },
+          rate: { type: Number, required: true, min: 0 },
+          amount: { type: Number, required: true, min: 0 },
+        },
+        { _id: false }
+      ),
+    ],
+    default: [],
+  },
+  // Pricing rules that changed the unit price when the order was placed, per unit
+  priceAdjustments: {
+    type: [
+      new Schema(
+        {
+          ruleId: { type: Schema.Types.ObjectId, ref: 'PricingRule' },
+          name: { type: String, required: true, trim: true },
+          type: { type: String, enum: PRICING_RULE_TYPES, required: true },
+          percent: { type: Number, required: true },
+          hours: { type: Number, min: 0, default: 0 },
+          amount: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+    ],
+    default: [],
+  },
+  // Late fee policy and rates captured when the order was placed
+  lateFeeTerms: {
+    type: LateFeeTermsSchema,
+    default: undefined,
+  },
+  // Security deposit for the whole line under the product's deposit rule
+  depositAmount: {
+    type: Number,
+    min: [0, 'Deposit amount cannot be negative'],
+    default: 0,
+  },
+  // GST classification captured when the order was placed
+  hsnSacCode: {
+    type: String,
+    trim: true,
+  },
+  gstRate: {
+    type: Number,
+    min: [0, 'GST rate cannot be negative'],
+  },
+  // Serialized units handed over for the line, assigned at pickup
+  assetIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Asset' }],
+    default: undefined,
+    validate: {
+      validator: function (this: IRentalOrderItem, v: Types.ObjectId[]) {
+        return !v || v.length <= this.quantity;
+      },
+      message: 'A line cannot have more units assigned than its quantity',
+    },
+  },
+});
+
+// GST charged on the order, split by HSN/SAC code and rate
+const GstBreakdownSchema = new Schema<GstBreakdown>(
+  {
+    supplierGstin: { type: String, trim: true },
+    supplierStateCode: { type: String, trim: true },
+    placeOfSupply: { type: String, trim: true },
+    interState: { type: Boolean, default: false },
+    lines: [
+      new Schema(
+        {
+          hsnSacCode: { type: String, required: true, trim: true },
+          rate: { type: Number, required: true, min: 0 },
+          taxableAmount: { type: Number, required: true, min: 0 },
+          cgst: { type: Number, min: 0, default: 0 },
+          sgst: { type: Number, min: 0, default: 0 },
+          igst: { type: Number, min: 0, default: 0 },
+        },
+        { _id: false }
+      ),
+    ],
+    cgst: { type: Number, min: 0, default: 0 },
+    sgst: { type: Number, min: 0, default: 0 },
+    igst: { type: Number, min: 0, default: 0 },
+    total: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
+// Status history entry recorded on every status change
+const StatusHistorySchema = new Schema<IStatusHistoryEntry>(
+  {
+    from: {
+      type: String,
+      enum: ORDER_STATUSES,
+    },
+    to: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    changedByName: {
+      type: String,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // Rental Order schema definition with comprehensive business logic
 const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
   {
-    productId: {
-      type: Schema.Types.ObjectId,
-      ref: 'Product',
-      required: [true, 'Product ID is required'],
+    orderNumber: {
+      type: String,
+      unique: true,
+      sparse: true,
+      trim: true,
+    },
+    items: {
+      type: [RentalOrderItemSchema],
+      validate: {
+        validator: (v: IRentalOrderItem[]) => Array.isArray(v) && v.length > 0,
+        message: 'An order needs at least one item',
+      },
     },
     customerId: {
       type: Schema.Types.ObjectId,
@@ -106,7 +351,9 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       type: Date,
       required: [true, 'Start date is required'],
       validate: {
-        validator: function (v: Date) {
+        validator: function (this: IRentalOrder, v: Date) {
+          // Only check when the start date is being set, so later status changes still save
+          if (!this.isNew && !this.isModified('startDate')) return true;
           // Start date should not be in the past (with 1 hour buffer for time zones)
           const now = new Date();
           const oneHourAgo = new Date(now.getTime() - (60 * 60 * 1000));
@@ -126,19 +373,49 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
         message: 'End date must be after start date',
       },
     },
-    duration: {
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0,
+    },
+    discountAmount: {
       type: Number,
-      required: [true, 'Duration is required'],
-      min: [1, 'Duration must be at least 1'],
+      min: [0, 'Discount cannot be negative'],
+      default: 0,
+    },
+    // Coupon the discount came from, if any
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
     },
-    durationUnit: {
+    couponCode: {
       type: String,
-      enum: {
-        values: ['hour', 'day', 'week', 'month', 'year'],
-        message: 'Invalid duration unit',
-      },
-      required: [true, 'Duration unit is required'],
-      default: 'day',
+      trim: true,
+      uppercase: true,
+    },
+    // Customer price list the lines were priced from, if any
+    priceListId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PriceList',
+    },
+    priceListName: {
+      type: String,
+      trim: true,
+    },
+    deliveryCharge: {
+      type: Number,
+      min: [0, 'Delivery charge cannot be negative'],
+      default: 0,
+    },
+    taxAmount: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    // Set at checkout; orders entered by hand carry a single tax amount
+    taxBreakdown: {
+      type: GstBreakdownSchema,
+      default: undefined,
     },
     totalPrice: {
       type: Number,
@@ -150,15 +427,36 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       min: [0, 'Deposit amount cannot be negative'],
       default: 0,
     },
+    // Deposit collected at checkout and what became of it
+    depositLedger: {
+      type: [
+        new Schema({
+          type: { type: String, enum: ['collected', 'deducted', 'refunded'], required: true },
+          amount: { type: Number, required: true, min: [0, 'Deposit amount cannot be negative'] },
+          category: { type: String, enum: ['damage', 'late_fee', 'other'] },
+          reason: { type: String, trim: true, maxlength: [500, 'Reason cannot exceed 500 characters'] },
+          razorpayRefundId: { type: String, trim: true },
+          createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+          createdByName: { type: String, trim: true },
+          createdAt: { type: Date, default: Date.now, required: true },
+        }),
+      ],
+      default: [],
+    },
+    depositSettledAt: Date,
     status: {
       type: String,
       enum: {
-        values: ['quotation', 'confirmed', 'reserved', 'delivered', 'returned', 'late', 'cancelled'],
+        values: ORDER_STATUSES,
         message: 'Invalid rental order status',
       },
       default: 'quotation',
       required: true,
     },
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
     pickupDate: {
       type: Date,
       validate: {
@@ -184,6 +482,28 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       min: [0, 'Late fees cannot be negative'],
       default: 0,
     },
+    // How the stored late fees were computed, recorded on return
+    lateFeeBreakdown: {
+      type: [
+        new Schema(
+          {
+            itemId: String,
+            productName: String,
+            policyType: { type: String, enum: LATE_FEE_POLICY_TYPES, required: true },
+            hoursLate: { type: Number, min: 0, default: 0 },
+            gracePeriodHours: { type: Number, min: 0, default: 0 },
+            chargeableUnits: { type: Number, min: 0, default: 0 },
+            ratePerUnit: { type: Number, min: 0, default: 0 },
+            quantity: { type: Number, min: 1, default: 1 },
+            uncappedAmount: { type: Number, min: 0, default: 0 },
+            cap: Number,
+            amount: { type: Number, min: 0, default: 0 },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
     paymentStatus: {
       type: String,
       enum: {
@@ -193,6 +513,49 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       default: 'pending',
       required: true,
     },
+    // Razorpay order the checkout was paid through; one payment can cover several orders
+    razorpayOrderId: {
+      type: String,
+      trim: true,
+    },
+    refundLockedUntil: Date,
+    // Refund terms the order was cancelled under
+    cancellation: {
+      type: new Schema(
+        {
+          initiatedBy: { type: String, enum: ['customer', 'enduser'], required: true },
+          hoursBeforeStart: { type: Number, required: true },
+          refundPercent: { type: Number, min: 0, max: 100, required: true },
+          paidAmount: { type: Number, min: 0, default: 0 },
+          refundAmount: { type: Number, min: 0, default: 0 },
+          depositRefund: { type: Number, min: 0, default: 0 },
+          reason: { type: String, trim: true, maxlength: [500, 'Reason cannot exceed 500 characters'] },
+          cancelledAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    // Money returned to the customer; Razorpay refunds are confirmed by webhook
+    refunds: {
+      type: [
+        new Schema(
+          {
+            amount: { type: Number, required: true, min: [0, 'Refund cannot be negative'] },
+            kind: { type: String, enum: ['cancellation', 'deposit'], default: 'cancellation' },
+            method: { type: String, enum: ['razorpay', 'manual'], required: true },
+            status: { type: String, enum: ['pending', 'processed', 'failed'], default: 'pending' },
+            razorpayRefundId: { type: String, trim: true },
+            razorpayPaymentId: { type: String, trim: true },
+            reason: { type: String, trim: true },
+            createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+            createdByName: { type: String, trim: true },
+            createdAt: { type: Date, default: Date.now, required: true },
+          }
+        ),
+      ],
+      default: [],
+    },
     deliveryAddress: {
       type: String,
       trim: true,
@@ -212,57 +575,236 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
 );
 
 // Indexes for efficient queries
-RentalOrderSchema.index({ productId: 1 }); // Product-based queries
+RentalOrderSchema.index({ 'items.productId': 1 }); // Product-based queries
 RentalOrderSchema.index({ customerId: 1 }); // Customer orders lookup
 RentalOrderSchema.index({ endUserId: 1 }); // End user orders lookup
 RentalOrderSchema.index({ status: 1 }); // Status filtering
 RentalOrderSchema.index({ startDate: 1, endDate: 1 }); // Date range queries
 RentalOrderSchema.index({ createdAt: -1 }); // Recent orders first
+RentalOrderSchema.index({ razorpayOrderId: 1 }, { sparse: true }); // Payment webhook lookups
+RentalOrderSchema.index({ 'refunds.razorpayRefundId': 1 }, { sparse: true }); // Refund webhook lookups
 
 // Compound index for availability checking
 RentalOrderSchema.index({ 
-  productId: 1, 
-  startDate: 1, 
-  endDate: 1,
+  'items.productId': 1, 
+  'items.startDate': 1, 
+  'items.endDate': 1,
   status: 1 
 });
 
-// Pre-save middleware to validate business rules
+// Derive line durations, order totals and the overall rental window from the items
+RentalOrderSchema.pre('validate', function (next) {
+  const order = this as IRentalOrder;
+  if (!order.items || order.items.length === 0) {
+    return next();
+  }
+
+  for (const item of order.items) {
+    if (!item.startDate || !item.endDate) continue;
+    const unitMs = DURATION_UNIT_MS[item.durationUnit] || DURATION_UNIT_MS.day;
+    item.duration = Math.max(1, Math.ceil((item.endDate.getTime() - item.startDate.getTime()) / unitMs));
+    item.lineTotal = roundAmount((item.unitPrice || 0) * item.quantity);
+  }
+
+  order.startDate = new Date(Math.min(...order.items.map((i) => i.startDate.getTime())));
+  order.endDate = new Date(Math.max(...order.items.map((i) => i.endDate.getTime())));
+
+  order.subtotal = roundAmount(order.items.reduce((sum, i) => sum + i.lineTotal, 0));
+  order.depositAmount = roundAmount(order.items.reduce((sum, i) => sum + (i.depositAmount || 0), 0));
+  order.totalPrice = roundAmount(
+    Math.max(0, order.subtotal - (order.discountAmount || 0)) + (order.deliveryCharge || 0) + (order.taxAmount || 0)
+  );
+
+  next();
+});
+
+// Hold each line to its product's rental constraints: the length whenever a line's
+// dates change, when it may be booked only for a new order
+RentalOrderSchema.pre('validate', async function (next) {
+  const order = this as IRentalOrder;
+  const lines = (order.items || []).filter(
+    (item: any) => item.startDate && item.endDate && (order.isNew || item.isModified('startDate') || item.isModified('endDate'))
+  );
+  if (lines.length === 0) {
+    return next();
+  }
+
+  try {
+    const productIds = lines.map((item: any) => item.productId?._id || item.productId);
+    const products = await mongoose.model('Product')
+      .find({ _id: { $in: productIds } })
+      .select('name rentalConstraints')
+      .lean();
+    const byId = new Map(products.map((product: any) => [product._id.toString(), product]));
+    const now = new Date();
+
+    lines.forEach((item: any, index: number) => {
+      const product: any = byId.get(productIds[index]?.toString());
+      if (!product?.rentalConstraints) return;
+      const violation = order.isNew
+        ? checkRentalConstraints(product.rentalConstraints, item.startDate, item.endDate, now, product.name)
+        : checkRentalDuration(product.rentalConstraints, item.startDate, item.endDate, product.name);
+      if (violation) {
+        order.invalidate(`items.${order.items.indexOf(item)}.startDate`, violation.message);
+      }
+    });
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+// Pick up and return in an open slot of the business's handover schedule that has room
+RentalOrderSchema.pre('validate', async function (next) {
+  const order = this as IRentalOrder;
+  if (!order.endUserId || !order.startDate || !order.endDate) {
+    return next();
+  }
+  const handovers: Array<[HandoverKind, 'startDate' | 'endDate']> = [['pickup', 'startDate'], ['return', 'endDate']];
+  const changed = handovers.filter(([, path]) => order.isNew || order.isModified(path));
+  if (changed.length === 0) {
+    return next();
+  }
+
+  try {
+    const schedule = await BusinessSettings.getHandoverSchedule(order.endUserId);
+    if (!schedule.enabled) {
+      return next();
+    }
+
+    for (const [kind, path] of changed) {
+      const problem = checkHandoverTime(schedule, order[path], kind);
+      if (problem) {
+        order.invalidate(path, problem);
+        continue;
+      }
+      if (!schedule.slotCapacity) continue;
+      const slot = slotAt(schedule, order[path])!;
+      const taken = await (order.constructor as any).findHandovers(order.endUserId, slot.start, slot.end, order._id);
+      if (taken.length >= schedule.slotCapacity) {
+        order.invalidate(path, slotFullMessage(slot.start, kind));
+      }
+    }
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+// Assign a sequential order number to new orders
+RentalOrderSchema.pre('save', async function (next) {
+  const order = this as IRentalOrder;
+  if (!order.isNew || order.orderNumber) {
+    return next();
+  }
+
+  try {
+    // Taken in the order's transaction, if any, so an aborted checkout leaves no gap
+    const seq = await Counter.nextSequence('rentalOrder', order.$session());
+    order.orderNumber = `SO${String(seq).padStart(5, '0')}`;
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+// Remember the persisted status so illegal transitions can be detected on save
+RentalOrderSchema.post('init', function (doc) {
+  doc.$locals.persistedStatus = doc.status;
+});
+
+// Pre-save middleware to enforce the status machine and record history
 RentalOrderSchema.pre('save', function (next) {
   const order = this as IRentalOrder;
 
-  // Calculate duration based on start and end dates
-  const startTime = order.startDate.getTime();
-  const endTime = order.endDate.getTime();
-  const durationMs = endTime - startTime;
-
-  // Calculate duration based on unit
-  switch (order.durationUnit) {
-    case 'hour':
-      order.duration = Math.ceil(durationMs / (1000 * 60 * 60));
-      break;
-    case 'day':
-      order.duration = Math.ceil(durationMs / (1000 * 60 * 60 * 24));
-      break;
-    case 'week':
-      order.duration = Math.ceil(durationMs / (1000 * 60 * 60 * 24 * 7));
-      break;
-    case 'month':
-      order.duration = Math.ceil(durationMs / (1000 * 60 * 60 * 24 * 30));
-      break;
-    case 'year':
-      order.duration = Math.ceil(durationMs / (1000 * 60 * 60 * 24 * 365));
-      break;
+  if (!order.isNew && !order.isModified('status')) {
+    return next();
+  }
+
+  const from = order.isNew ? undefined : (order.$locals.persistedStatus as RentalOrderStatus | undefined);
+  if (from && from !== order.status) {
+    try {
+      assertTransition(from, order.status);
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+
+  if (order.isNew || from !== order.status) {
+    const change = (order.$locals.statusChange || {}) as { reason?: string; changedBy?: { id?: string; name?: string } };
+    order.statusHistory.push({
+      from,
+      to: order.status,
+      changedBy: change.changedBy?.id ? new Types.ObjectId(change.changedBy.id) : undefined,
+      changedByName: change.changedBy?.name,
+      reason: change.reason || (order.isNew ? 'Order created' : undefined),
+      changedAt: new Date(),
+    });
+  }
+
+  next();
+});
+
+// Generate the pickup and return transfers once an order is confirmed and keep them
+// in step with its status; runs before the persisted status is updated below
+RentalOrderSchema.post('save', async function (doc) {
+  if (doc.$locals.persistedStatus === doc.status) return;
+
+  const change = (doc.$locals.statusChange || {}) as { changedBy?: { id?: string; name?: string } };
+  if (doc.status === 'confirmed') {
+    await Transfer.createForOrder(doc, doc.$session());
+  } else {
+    await Transfer.syncWithOrder(doc, change.changedBy, doc.$session());
+  }
+});
+
+// Record the units an order reserves on confirmation and gives back on return or cancellation
+RentalOrderSchema.post('save', async function (doc) {
+  const from = doc.$locals.persistedStatus as RentalOrderStatus | undefined;
+  if (from === doc.status) return;
+
+  const change = (doc.$locals.statusChange || {}) as { changedBy?: { id?: string; name?: string } };
+  if (doc.status === 'confirmed') {
+    await StockMovement.recordOrder(doc, 'reservation', `Reserved for order ${doc.orderNumber}`, change.changedBy, doc.$session());
+  } else if (doc.status === 'returned') {
+    await StockMovement.recordOrder(doc, 'return', `Returned from order ${doc.orderNumber}`, change.changedBy, doc.$session());
+  } else if (doc.status === 'cancelled' && from && HANDOVER_STATUSES.includes(from)) {
+    await StockMovement.recordOrder(doc, 'return', `Order ${doc.orderNumber} cancelled, reservation released`, change.changedBy, doc.$session());
+  }
+});
+
+// Take back the serialized units out on an order once it is returned or cancelled
+RentalOrderSchema.post('save', async function (doc) {
+  if (doc.$locals.persistedStatus === doc.status) return;
+  if (doc.status === 'returned' || doc.status === 'cancelled') {
+    await Asset.releaseForOrder(doc, doc.$session());
   }
+});
+
+// Schedule the plan maintenance a return makes due, once its units are back
+RentalOrderSchema.post('save', async function (doc) {
+  if (doc.$locals.persistedStatus === doc.status || doc.status !== 'returned') return;
+  await Maintenance.scheduleDue(doc, doc.$session());
+});
+
+// Keep the in-memory persisted status in sync after a successful save
+RentalOrderSchema.post('save', function (doc) {
+  doc.$locals.persistedStatus = doc.status;
+  delete doc.$locals.statusChange;
+});
+
+// Pre-save middleware to log the rental order operation
+RentalOrderSchema.pre('save', function (next) {
+  const order = this as IRentalOrder;
 
-  // Log rental order operation
   logger.booking('SAVE', order._id?.toString(), {
-    product: order.productId,
+    orderNumber: order.orderNumber,
+    items: order.items.length,
+    units: order.items.reduce((sum, i) => sum + i.quantity, 0),
     customer: order.customerEmail,
     endUser: order.endUserId,
-    duration: order.duration,
-    unit: order.durationUnit,
     status: order.status,
+    subtotal: order.subtotal,
     totalPrice: order.totalPrice,
   });
 
@@ -272,36 +814,59 @@ RentalOrderSchema.pre('save', function (next) {
 // Virtual field to check if order is late
 RentalOrderSchema.virtual('isLate').get(function () {
   const now = new Date();
-  return this.status === 'delivered' && this.endDate < now;
+  return this.status === 'late' || (this.status === 'delivered' && this.endDate < now);
 });
 
+// Late fee per line under each line's policy, measured to the return date or now while out
+function computeLateFeeBreakdown(order: IRentalOrder): LateFeeBreakdown[] {
+  let asOf: Date;
+  if (order.status === 'returned' && order.returnDate) {
+    asOf = order.returnDate;
+  } else if (order.status === 'delivered' || order.status === 'late') {
+    asOf = new Date();
+  } else {
+    return [];
+  }
+
+  return (order.items || [])
+    .filter((item) => item.endDate && item.endDate < asOf)
+    .map((item) => {
+      // Orders placed before late fee policies existed use the old flat ₹100/day
+      const terms = item.lateFeeTerms || { ...DEFAULT_LATE_FEE_POLICY, dailyRate: 0, hourlyRate: 0 };
+      return {
+        itemId: item._id?.toString(),
+        productName: item.productName,
+        ...calculateLateFee(terms, item.endDate, asOf, item.quantity),
+      };
+    });
+}
+
 // Virtual field to calculate late fees
 RentalOrderSchema.virtual('calculatedLateFee').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'delivered' && this.endDate < now;
-  if (!isLate) return 0;
-  
-  const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-  const feePerDay = 100; // ₹100 per day late fee
-  
-  return daysLate * feePerDay;
+  return roundAmount(computeLateFeeBreakdown(this).reduce((sum, line) => sum + line.amount, 0));
+});
+
+// Virtual field explaining how the late fee is computed, line by line
+RentalOrderSchema.virtual('lateFeeDetails').get(function () {
+  return this.lateFeeBreakdown?.length ? this.lateFeeBreakdown : computeLateFeeBreakdown(this);
 });
 
 // Virtual field to get total amount including late fees
 RentalOrderSchema.virtual('totalAmountDue').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'delivered' && this.endDate < now;
-  let calculatedLateFee = 0;
-  
-  if (isLate) {
-    const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-    const feePerDay = 100; // ₹100 per day late fee
-    calculatedLateFee = daysLate * feePerDay;
-  }
-  
+  const calculatedLateFee = roundAmount(computeLateFeeBreakdown(this).reduce((sum, line) => sum + line.amount, 0));
   return this.totalPrice + (this.lateFees || calculatedLateFee);
 });
 
+// Virtual field totalling the deposit ledger
+RentalOrderSchema.virtual('depositSummary').get(function () {
+  return summarizeDeposit(this.depositAmount || 0, this.depositLedger || []);
+});
+
+// Virtual field listing the statuses this order can move to next
+RentalOrderSchema.virtual('allowedTransitions').get(function () {
+  return getAllowedTransitions(this.status);
+});
+
 // Virtual field to get days until return
 RentalOrderSchema.virtual('daysUntilReturn').get(function () {
   const now = new Date();
@@ -312,7 +877,7 @@ RentalOrderSchema.virtual('daysUntilReturn').get(function () {
 // Static method to find orders by customer
 RentalOrderSchema.statics.findByCustomer = function (customerId: string) {
   return this.find({ customerId })
-    .populate('productId', 'name image category')
+    .populate('items.productId', 'name image category')
     .populate('endUserId', 'name companyName')
     .sort({ createdAt: -1 });
 };
@@ -320,7 +885,7 @@ RentalOrderSchema.statics.findByCustomer = function (customerId: string) {
 // Static method to find orders by end user
 RentalOrderSchema.statics.findByEndUser = function (endUserId: string) {
   return this.find({ endUserId })
-    .populate('productId', 'name image category')
+    .populate('items.productId', 'name image category')
     .populate('customerId', 'name email phone')
     .sort({ createdAt: -1 });
 };
@@ -330,7 +895,7 @@ RentalOrderSchema.statics.findActive = function () {
   return this.find({ 
     status: { $in: ['confirmed', 'reserved', 'delivered'] } 
   })
-    .populate('productId', 'name image category')
+    .populate('items.productId', 'name image category')
     .populate('customerId', 'name email')
     .populate('endUserId', 'name companyName')
     .sort({ startDate: 1 });
@@ -340,54 +905,66 @@ RentalOrderSchema.statics.findActive = function () {
 RentalOrderSchema.statics.findLate = function () {
   const now = new Date();
   return this.find({
-    status: 'delivered',
-    endDate: { $lt: now },
+    $or: [
+      { status: 'late' },
+      { status: 'delivered', endDate: { $lt: now } },
+    ],
   })
-    .populate('productId', 'name image category')
+    .populate('items.productId', 'name image category')
     .populate('customerId', 'name email phone')
     .populate('endUserId', 'name companyName')
     .sort({ endDate: 1 });
 };
 
-// Static method to check product availability
+// Static method to list a business's pickup and return times in a window
+RentalOrderSchema.statics.findHandovers = async function (
+  endUserId: string | Types.ObjectId,
+  from: Date,
+  to: Date,
+  excludeOrderId?: string | Types.ObjectId
+): Promise<Array<{ kind: HandoverKind; at: Date }>> {
+  const window = { $gte: from, $lt: to };
+  const orders = await this.find({
+    endUserId,
+    status: { $in: HANDOVER_STATUSES },
+    $or: [{ startDate: window }, { endDate: window }],
+    ...(excludeOrderId ? { _id: { $ne: excludeOrderId } } : {}),
+  })
+    .select('startDate endDate')
+    .lean();
+
+  const handovers: Array<{ kind: HandoverKind; at: Date }> = [];
+  for (const order of orders) {
+    if (order.startDate >= from && order.startDate < to) handovers.push({ kind: 'pickup', at: order.startDate });
+    if (order.endDate >= from && order.endDate < to) handovers.push({ kind: 'return', at: order.endDate });
+  }
+  return handovers;
+};
+
+// Static method to check product availability for a number of units
 RentalOrderSchema.statics.checkAvailability = async function (
   productId: string, 
   startDate: Date, 
   endDate: Date,
-  excludeOrderId?: string
+  excludeOrderId?: string,
+  quantity: number = 1
 ): Promise<boolean> {
-  const query: any = {
-    productId,
-    status: { $in: ['confirmed', 'reserved', 'delivered'] },
-    $or: [
-      {
-        startDate: { $lte: startDate },
-        endDate: { $gt: startDate },
-      },
-      {
-        startDate: { $lt: endDate },
-        endDate: { $gte: endDate },
-      },
-      {
-        startDate: { $gte: startDate },
-        endDate: { $lte: endDate },
-      },
-    ],
-  };
-
-  // Exclude current order if updating
-  if (excludeOrderId) {
-    query._id = { $ne: excludeOrderId };
-  }
-
-  const conflictingOrders = await this.find(query);
-  return conflictingOrders.length === 0;
+  // Loaded lazily because the availability engine queries this model
+  const { isAvailable } = await import('@/lib/availability');
+  return isAvailable(productId, startDate, endDate, quantity, { excludeOrderId });
 };
 
-// Instance method to update order status
-RentalOrderSchema.methods.updateStatus = async function (newStatus: string, reason?: string) {
+// Instance method to update order status through the status machine
+RentalOrderSchema.methods.updateStatus = async function (
+  newStatus: string,
+  reason?: string,
+  changedBy?: { id?: string; name?: string }
+) {
   const oldStatus = this.status;
+  assertTransition(oldStatus, newStatus);
+
   this.status = newStatus;
+  this.$locals.statusChange = { reason, changedBy };
 
   // Set pickup/return dates based on status
   if (newStatus === 'delivered' && !this.pickupDate) {
@@ -397,42 +974,40 @@ RentalOrderSchema.methods.updateStatus = async function (newStatus: string, reas
     this.returnDate = new Date();
   }
 
+  // Settle late fees under each line's policy once the items are back
+  if (newStatus === 'returned') {
+    this.settleLateFees();
+  }
+
   await this.save();
 
   logger.booking('STATUS_UPDATE', this._id?.toString(), {
     oldStatus,
     newStatus,
     reason,
+    changedBy: changedBy?.name || changedBy?.id,
     customer: this.customerEmail,
   });
 
   return this;
 };
 
-// Instance method to calculate pricing
-RentalOrderSchema.methods.calculatePricing = async function (product: any) {
-  let unitPrice = 0;
-
-  switch (this.durationUnit) {
-    case 'hour':
-      unitPrice = product.pricePerHour;
-      break;
-    case 'day':
-      unitPrice = product.pricePerDay;
-      break;
-    case 'week':
-      unitPrice = product.pricePerWeek;
-      break;
-    case 'month':
-      unitPrice = product.pricePerMonth;
-      break;
-    case 'year':
-      unitPrice = product.pricePerYear;
-      break;
-  }
+// Instance method to store the late fees accrued so far with their breakdown
+RentalOrderSchema.methods.settleLateFees = function (): number {
+  const breakdown = computeLateFeeBreakdown(this as IRentalOrder);
+  this.lateFeeBreakdown = breakdown;
+  this.lateFees = roundAmount(breakdown.reduce((sum, line) => sum + line.amount, 0));
+  return this.lateFees;
+};
 
-  this.totalPrice = unitPrice * this.duration;
-  return this.totalPrice;
+// Instance method to price a line from the product's rates with the cheapest tier mix
+RentalOrderSchema.methods.calculatePricing = function (item: IRentalOrderItem, product: any) {
+  const price = calculateRentalPrice(product, item.startDate, item.endDate, item.quantity);
+  item.unitPrice = price.unitTotal;
+  item.lineTotal = price.totalPrice;
+  item.priceBreakdown = price.breakdown;
+  item.priceAdjustments = price.adjustments;
+  return price;
 };
 
 // Export the model, ensuring it's not re-compiled in development
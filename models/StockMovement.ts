@@ -0,0 +1,179 @@
+/**
+ * Stock Movement Model
+ * Ledger of every change to a product's stock: units bought, sold off or written
+ * off change the units the business owns, and reservations and returns record
+ * units committed to rental orders and coming back. The owned units on the
+ * product are the sum of the ledger's changes.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { StockMovementType } from '@/types';
+
+export interface IStockMovement extends mongoose.Document {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  type: StockMovementType;
+  quantity: number;
+  change: number;
+  balance: number;
+  reason: string;
+  rentalOrderId?: Types.ObjectId;
+  orderNumber?: string;
+  createdBy?: Types.ObjectId;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IStockMovementModel extends mongoose.Model<IStockMovement> {
+  ledgerBalance(productId: string | Types.ObjectId): Promise<{ entries: number; balance: number }>;
+  recordOrder(
+    order: any,
+    type: 'reservation' | 'return',
+    reason: string,
+    changedBy?: { id?: string; name?: string },
+    session?: mongoose.ClientSession | null
+  ): Promise<void>;
+}
+
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = ['increase', 'decrease', 'reservation', 'return', 'write_off'];
+
+const StockMovementSchema: Schema<IStockMovement> = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: STOCK_MOVEMENT_TYPES,
+        message: 'Invalid stock movement type',
+      },
+      required: [true, 'Movement type is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    // Effect on owned units; reservations and returns leave them as they are
+    change: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    // Owned units after the movement
+    balance: {
+      type: Number,
+      required: true,
+      min: [0, 'Stock cannot go below zero'],
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    orderNumber: {
+      type: String,
+      trim: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // "System" for movements recorded by order changes
+    createdByName: {
+      type: String,
+      required: true,
+      trim: true,
+      default: 'System',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+StockMovementSchema.index({ productId: 1, createdAt: -1 }); // Product history
+StockMovementSchema.index({ rentalOrderId: 1 });
+
+// Static method to total the owned-unit changes recorded for a product
+StockMovementSchema.statics.ledgerBalance = async function (
+  productId: string | Types.ObjectId
+): Promise<{ entries: number; balance: number }> {
+  const [totals] = await this.aggregate([
+    { $match: { productId: new Types.ObjectId(productId.toString()) } },
+    { $group: { _id: null, entries: { $sum: 1 }, balance: { $sum: '$change' } } },
+  ]);
+  return { entries: totals?.entries || 0, balance: totals?.balance || 0 };
+};
+
+// Static method to record an order's units being reserved or coming back, one entry per product
+StockMovementSchema.statics.recordOrder = async function (
+  order: any,
+  type: 'reservation' | 'return',
+  reason: string,
+  changedBy?: { id?: string; name?: string },
+  session?: mongoose.ClientSession | null
+): Promise<void> {
+  const units = new Map<string, number>();
+  for (const item of order.items || []) {
+    const productId = (item.productId?._id || item.productId).toString();
+    units.set(productId, (units.get(productId) || 0) + item.quantity);
+  }
+  if (units.size === 0) return;
+
+  // Loaded lazily; the product model is registered by the order model's callers
+  const products: any[] = await mongoose.model('Product')
+    .find({ _id: { $in: Array.from(units.keys()) } })
+    .select('quantityAvailable')
+    .session(session || null)
+    .lean();
+
+  await this.create(
+    Array.from(units.entries()).map(([productId, quantity]) => ({
+      productId,
+      endUserId: order.endUserId,
+      type,
+      quantity,
+      change: 0,
+      balance: products.find((p) => p._id.toString() === productId)?.quantityAvailable || 0,
+      reason,
+      rentalOrderId: order._id,
+      orderNumber: order.orderNumber,
+      createdBy: changedBy?.id ? new Types.ObjectId(changedBy.id) : undefined,
+      createdByName: changedBy?.name || 'System',
+    })),
+    { session: session || undefined, ordered: true }
+  );
+};
+
+StockMovementSchema.post('save', function (doc) {
+  logger.database('STOCK_MOVEMENT', 'stockmovements', {
+    productId: doc.productId?.toString(),
+    type: doc.type,
+    quantity: doc.quantity,
+    balance: doc.balance,
+    orderNumber: doc.orderNumber,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const StockMovement = (mongoose.models.StockMovement as IStockMovementModel) ||
+  mongoose.model<IStockMovement, IStockMovementModel>('StockMovement', StockMovementSchema);
+
+export default StockMovement;
@@ -0,0 +1,272 @@
+/**
+ * Transfer Model for Pickups and Returns
+ * Every confirmed rental order gets one outgoing pickup transfer and one incoming
+ * return transfer. The business schedules and assigns them, and validating one
+ * moves the order to picked up or returned. Both follow the order's status when
+ * it changes any other way.
+ */
+
+import mongoose, { Schema, Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+import { TRANSFER_STATUSES, isOpenTransfer } from '@/lib/transferStatus';
+import { ITransferLine, TransferStatus, TransferType } from '@/types';
+
+export interface ITransfer extends mongoose.Document {
+  _id: Types.ObjectId;
+  transferNumber: string;
+  type: TransferType;
+  status: TransferStatus;
+  rentalOrderId: Types.ObjectId;
+  orderNumber: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  lines: ITransferLine[];
+  scheduledAt: Date;
+  assignedTo?: string;
+  notes?: string;
+  validatedAt?: Date;
+  validatedBy?: Types.ObjectId;
+  validatedByName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ITransferModel extends mongoose.Model<ITransfer> {
+  createForOrder(order: any, session?: mongoose.ClientSession | null): Promise<ITransfer[]>;
+  syncWithOrder(
+    order: any,
+    changedBy?: { id?: string; name?: string },
+    session?: mongoose.ClientSession | null
+  ): Promise<void>;
+}
+
+// Number prefixes, e.g. PICKUP/OUT/00001 and RETURN/IN/00001
+const NUMBER_PREFIXES: Record<TransferType, string> = {
+  pickup: 'PICKUP/OUT',
+  return: 'RETURN/IN',
+};
+
+const TransferLineSchema = new Schema<ITransferLine>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    productName: { type: String, required: true, trim: true },
+    quantity: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const TransferSchema: Schema<ITransfer> = new Schema(
+  {
+    // Assigned on first save; unique within the business
+    transferNumber: {
+      type: String,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['pickup', 'return'],
+        message: 'Invalid transfer type',
+      },
+      required: [true, 'Transfer type is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: TRANSFER_STATUSES,
+        message: 'Invalid transfer status',
+      },
+      default: 'draft',
+      required: true,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order is required'],
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    customerEmail: {
+      type: String,
+      required: [true, 'Customer email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    // Stored as on the order: JSON from checkout or free text
+    deliveryAddress: {
+      type: String,
+      trim: true,
+    },
+    lines: {
+      type: [TransferLineSchema],
+      validate: {
+        validator: (v: ITransferLine[]) => Array.isArray(v) && v.length > 0,
+        message: 'A transfer needs at least one line',
+      },
+    },
+    // The order's start for pickups and end for returns until the business reschedules it
+    scheduledAt: {
+      type: Date,
+      required: [true, 'Scheduled time is required'],
+    },
+    // Staff member or driver handling the transfer
+    assignedTo: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Assignee cannot exceed 100 characters'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    validatedAt: {
+      type: Date,
+    },
+    validatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    validatedByName: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TransferSchema.index({ rentalOrderId: 1, type: 1 }, { unique: true }); // One of each per order
+TransferSchema.index(
+  { endUserId: 1, transferNumber: 1 },
+  { unique: true, partialFilterExpression: { transferNumber: { $type: 'string' } } }
+);
+TransferSchema.index({ endUserId: 1, type: 1, scheduledAt: 1 }); // Business transfer list
+
+// Assign the next number of the business's pickups or returns
+TransferSchema.pre('save', async function (next) {
+  const transfer = this as ITransfer;
+  if (!transfer.isNew || transfer.transferNumber) {
+    return next();
+  }
+
+  try {
+    // Taken in the transfer's transaction, if any, so an aborted checkout leaves no gap
+    const seq = await Counter.nextSequence(`transfer:${transfer.endUserId}:${transfer.type}`, transfer.$session());
+    transfer.transferNumber = `${NUMBER_PREFIXES[transfer.type]}/${String(seq).padStart(5, '0')}`;
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+// Static method to create an order's pickup and return transfers unless it has them already
+TransferSchema.statics.createForOrder = async function (
+  order: any,
+  session?: mongoose.ClientSession | null
+): Promise<ITransfer[]> {
+  const existing: ITransfer[] = await this.find({ rentalOrderId: order._id }).session(session || null);
+  const types = (['pickup', 'return'] as TransferType[]).filter((type) => !existing.some((t) => t.type === type));
+  if (types.length === 0) return existing;
+
+  const lines = order.items.map((item: any) => ({
+    productId: item.productId?._id || item.productId,
+    productName: item.productName,
+    quantity: item.quantity,
+  }));
+
+  const created: ITransfer[] = await this.create(
+    types.map((type) => ({
+      type,
+      // Returns wait on their pickup
+      status: type === 'pickup' ? 'draft' : 'waiting',
+      rentalOrderId: order._id,
+      orderNumber: order.orderNumber,
+      endUserId: order.endUserId,
+      customerId: order.customerId,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      customerPhone: order.customerPhone,
+      deliveryAddress: order.deliveryAddress,
+      lines,
+      scheduledAt: type === 'pickup' ? order.startDate : order.endDate,
+    })),
+    { session: session || undefined, ordered: true }
+  );
+  return [...existing, ...created];
+};
+
+// Static method to bring an order's transfers in line with its status
+TransferSchema.statics.syncWithOrder = async function (
+  order: any,
+  changedBy?: { id?: string; name?: string },
+  session?: mongoose.ClientSession | null
+): Promise<void> {
+  const transfers: ITransfer[] = await this.find({ rentalOrderId: order._id }).session(session || null);
+  const complete = (transfer: ITransfer, at?: Date) => {
+    transfer.status = 'done';
+    transfer.validatedAt = at || new Date();
+    transfer.validatedBy = changedBy?.id ? new Types.ObjectId(changedBy.id) : undefined;
+    transfer.validatedByName = changedBy?.name;
+  };
+
+  for (const transfer of transfers) {
+    if (!isOpenTransfer(transfer.status)) continue;
+
+    if (order.status === 'cancelled') {
+      transfer.status = 'cancelled';
+    } else if (transfer.type === 'pickup' && ['delivered', 'late', 'returned'].includes(order.status)) {
+      complete(transfer, order.pickupDate);
+    } else if (transfer.type === 'return' && order.status === 'returned') {
+      complete(transfer, order.returnDate);
+    } else if (transfer.type === 'return' && transfer.status === 'waiting' && ['delivered', 'late'].includes(order.status)) {
+      transfer.status = 'ready';
+    } else {
+      continue;
+    }
+    await transfer.save({ session: session || undefined });
+  }
+};
+
+TransferSchema.post('save', function (doc) {
+  logger.database('TRANSFER_SAVED', 'transfers', {
+    transferNumber: doc.transferNumber,
+    orderNumber: doc.orderNumber,
+    type: doc.type,
+    status: doc.status,
+  });
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Transfer = (mongoose.models.Transfer as ITransferModel) ||
+  mongoose.model<ITransfer, ITransferModel>('Transfer', TransferSchema);
+
+export default Transfer;
@@ -6,6 +6,10 @@ const nextConfig = {
   env: {
     NEXTAUTH_URL: process.env.NEXTAUTH_URL || 'http://localhost:3000',
   },
+  experimental: {
+    // Invoice PDFs are rendered on the server with jsPDF's Node build
+    serverComponentsExternalPackages: ['jspdf', 'jspdf-autotable'],
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+const { migrations } = require('../migrate.js');
+
+function fakeDb(indexes: Array<{ name: string; key: Record<string, number> }>) {
+  const collection = {
+    indexes: vi.fn(async () => indexes),
+    dropIndex: vi.fn(async () => undefined),
+    createIndex: vi.fn(async () => 'name_1'),
+  };
+  return { db: { collection: () => collection }, collection };
+}
+
+describe('001-jobruns-single-running-lock', () => {
+  const migration = migrations.find((m: any) => m.id === '001-jobruns-single-running-lock');
+
+  it('drops the per-business lock index and locks by job name', async () => {
+    const { db, collection } = fakeDb([
+      { name: '_id_', key: { _id: 1 } },
+      { name: 'name_1_endUserId_1', key: { name: 1, endUserId: 1 } },
+      { name: 'name_1_trigger_1_startedAt_-1', key: { name: 1, trigger: 1, startedAt: -1 } },
+    ]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await migration.up(db);
+    expect(collection.dropIndex).toHaveBeenCalledTimes(1);
+    expect(collection.dropIndex).toHaveBeenCalledWith('name_1_endUserId_1');
+    expect(collection.createIndex).toHaveBeenCalledWith(
+      { name: 1 },
+      { unique: true, partialFilterExpression: { status: 'running' } }
+    );
+  });
+
+  it('leaves a database without the old index alone', async () => {
+    const { db, collection } = fakeDb([{ name: 'name_1', key: { name: 1 } }]);
+
+    await migration.up(db);
+    expect(collection.dropIndex).not.toHaveBeenCalled();
+  });
+});
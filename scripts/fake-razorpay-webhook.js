@@ -0,0 +1,127 @@
+/**
+ * Fake Razorpay Webhook Sender
+ * Builds Razorpay-shaped webhook events, signs them with RAZORPAY_WEBHOOK_SECRET
+ * and posts them to the local webhook receiver, for testing without Razorpay.
+ *
+ * Usage:
+ *   npm run webhook:fake -- payment.captured --order order_XXX --amount 1500
+ *   npm run webhook:fake -- refund.processed --order order_XXX --payment pay_XXX --amount 500
+ *   npm run webhook:fake -- refund.failed --order order_XXX --payment pay_XXX --refund rfnd_XXX --amount 500
+ *   npm run webhook:fake -- payment.failed --order order_XXX --amount 1500 --repeat 2
+ */
+
+const crypto = require('crypto');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const APP_URL = process.env.APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000';
+const SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+const EVENTS = ['payment.captured', 'payment.failed', 'refund.created', 'refund.processed', 'refund.failed', 'order.paid'];
+
+// Refund entity status carried by each refund event
+const REFUND_STATUS = { 'refund.created': 'pending', 'refund.processed': 'processed', 'refund.failed': 'failed' };
+
+function parseArgs(argv) {
+  const [event, ...rest] = argv;
+  const options = { event };
+  for (let i = 0; i < rest.length; i += 2) {
+    options[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return options;
+}
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(7).toString('hex')}`;
+
+function buildEvent({ event, order, amount, payment, refund }) {
+  const paise = Math.round(parseFloat(amount || '0') * 100);
+  const paymentId = payment || randomId('pay');
+  const failed = event === 'payment.failed';
+
+  const paymentEntity = {
+    id: paymentId,
+    entity: 'payment',
+    amount: paise,
+    currency: 'INR',
+    status: failed ? 'failed' : 'captured',
+    order_id: order,
+    method: 'upi',
+    captured: !failed,
+    email: 'customer@example.com',
+    contact: '+919999999999',
+    error_code: failed ? 'BAD_REQUEST_ERROR' : null,
+    error_description: failed ? 'Payment was declined by the bank' : null,
+    created_at: Math.floor(Date.now() / 1000),
+  };
+
+  const payload = { payment: { entity: paymentEntity } };
+  if (REFUND_STATUS[event]) {
+    payload.refund = {
+      entity: {
+        id: refund || randomId('rfnd'),
+        entity: 'refund',
+        amount: paise,
+        currency: 'INR',
+        payment_id: paymentId,
+        status: REFUND_STATUS[event],
+        created_at: Math.floor(Date.now() / 1000),
+      },
+    };
+  }
+  if (event === 'order.paid') {
+    payload.order = { entity: { id: order, entity: 'order', amount: paise, amount_paid: paise, status: 'paid' } };
+  }
+
+  return {
+    entity: 'event',
+    account_id: 'acc_fake',
+    event,
+    contains: Object.keys(payload),
+    payload,
+    created_at: Math.floor(Date.now() / 1000),
+  };
+}
+
+async function send(body, eventId) {
+  const raw = JSON.stringify(body);
+  const signature = crypto.createHmac('sha256', SECRET).update(raw).digest('hex');
+  const res = await fetch(`${APP_URL}/api/payments/webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': signature,
+      'X-Razorpay-Event-Id': eventId,
+    },
+    body: raw,
+  });
+  const json = await res.json().catch(() => ({}));
+  console.log(`${res.ok ? '✅' : '❌'} ${res.status}`, json);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!SECRET) {
+    console.error('❌ RAZORPAY_WEBHOOK_SECRET is not set in .env.local');
+    process.exit(1);
+  }
+  if (!EVENTS.includes(options.event) || !options.order) {
+    console.error(`Usage: node scripts/fake-razorpay-webhook.js <${EVENTS.join('|')}> --order <razorpay order id> --amount <rupees> [--payment id] [--refund id] [--repeat n]`);
+    process.exit(1);
+  }
+
+  const body = buildEvent(options);
+  const eventId = randomId('evt');
+  const repeat = parseInt(options.repeat || '1', 10);
+
+  console.log(`📨 Sending ${options.event} for ${options.order} (${eventId})${repeat > 1 ? ` ${repeat} times` : ''}`);
+  // Repeats reuse the event id, like Razorpay redelivering the same event
+  for (let i = 0; i < repeat; i++) {
+    await send(body, eventId);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to send webhook:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Database Migration Script
+ * Applies the schema changes Mongoose does not make by itself, such as dropping
+ * an index a model no longer declares. Each migration runs once; the ones applied
+ * are recorded in the migrations collection.
+ *
+ * Usage: npm run migrate
+ */
+
+const mongoose = require('mongoose');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/rimo';
+
+// Migrations in the order they were written; never reorder or remove one
+const migrations = [
+  {
+    id: '001-jobruns-single-running-lock',
+    description: 'Lock job runs by job name alone, for one business or all of them',
+    async up(db) {
+      const jobRuns = db.collection('jobruns');
+      const indexes = await jobRuns.indexes().catch(() => []);
+      for (const index of indexes) {
+        const fields = Object.keys(index.key);
+        if (fields.length === 2 && fields[0] === 'name' && fields[1] === 'endUserId') {
+          await jobRuns.dropIndex(index.name);
+          console.log(`   Dropped index ${index.name}`);
+        }
+      }
+      await jobRuns.createIndex(
+        { name: 1 },
+        { unique: true, partialFilterExpression: { status: 'running' } }
+      );
+    },
+  },
+];
+
+async function migrate() {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    const applied = db.collection('migrations');
+    for (const migration of migrations) {
+      if (await applied.findOne({ _id: migration.id })) continue;
+      console.log(`🔧 ${migration.id}: ${migration.description}`);
+      await migration.up(db);
+      await applied.insertOne({ _id: migration.id, appliedAt: new Date() });
+    }
+    console.log('✅ Database is up to date');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+}
+
+if (require.main === module) {
+  migrate();
+}
+
+module.exports = { migrate, migrations };
@@ -0,0 +1,63 @@
+/**
+ * Background Job Scheduler
+ * Runs alongside the Next.js server and asks it to run due jobs every minute.
+ * Job logic and run history live in the app (lib/jobs.ts); this process only
+ * keeps time, so several copies or restarts never double-run a job.
+ *
+ * Usage: npm run scheduler
+ */
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const APP_URL = process.env.APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000';
+const CRON_SECRET = process.env.CRON_SECRET;
+const TICK_MS = parseInt(process.env.SCHEDULER_TICK_MS || '60000', 10);
+
+let timer = null;
+
+async function tick() {
+  try {
+    const res = await fetch(`${APP_URL}/api/jobs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${CRON_SECRET}`,
+      },
+      body: JSON.stringify({}),
+    });
+    const json = await res.json().catch(() => ({}));
+
+    if (!res.ok || !json.success) {
+      console.error(`❌ Scheduler tick failed (${res.status}):`, json.error || res.statusText);
+      return;
+    }
+    for (const result of json.data || []) {
+      console.log(`✅ ${result.name}: ${result.status}${result.processed !== undefined ? ` (${result.processed} processed)` : ''}`);
+    }
+  } catch (error) {
+    console.error('❌ Scheduler could not reach the app:', error.message);
+  }
+}
+
+async function loop() {
+  await tick();
+  timer = setTimeout(loop, TICK_MS);
+}
+
+function stop() {
+  console.log('🛑 Scheduler stopped');
+  if (timer) clearTimeout(timer);
+  process.exit(0);
+}
+
+if (!CRON_SECRET) {
+  console.error('❌ CRON_SECRET is not set in .env.local');
+  process.exit(1);
+}
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+console.log(`⏱️  Scheduler running against ${APP_URL}, checking jobs every ${TICK_MS / 1000}s`);
+loop();
@@ -206,16 +206,28 @@ const productSchema = new mongoose.Schema({
 }, { timestamps: true });
 
 // RentalOrder Schema (minimal for seeding orders)
-const rentalOrderSchema = new mongoose.Schema({
+const rentalOrderItemSchema = new mongoose.Schema({
   productId: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+  productName: String,
+  quantity: { type: Number, default: 1 },
+  startDate: Date,
+  endDate: Date,
+  duration: Number,
+  durationUnit: { type: String, default: 'day' },
+  unitPrice: Number,
+  lineTotal: Number,
+});
+
+const rentalOrderSchema = new mongoose.Schema({
+  orderNumber: String,
+  items: [rentalOrderItemSchema],
   customerId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
   endUserId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
   customerName: String,
   customerEmail: String,
   startDate: Date,
   endDate: Date,
-  duration: Number,
-  durationUnit: { type: String, default: 'day' },
+  subtotal: Number,
   totalPrice: Number,
   status: { type: String, default: 'confirmed' },
   paymentStatus: { type: String, default: 'paid' },
@@ -302,23 +314,40 @@ async function seedDatabase() {
       const customer = customers[i % customers.length];
       const startDate = new Date();
       const endDate = new Date(Date.now() + (i % 5 + 1) * 24 * 60 * 60 * 1000);
+      const lineTotal = product.pricePerDay * ((i % 5) + 1);
       ordersToCreate.push({
-        productId: product._id,
+        orderNumber: `SO${String(i + 1).padStart(5, '0')}`,
+        items: [{
+          productId: product._id,
+          productName: product.name,
+          quantity: 1,
+          startDate,
+          endDate,
+          duration: (i % 5) + 1,
+          durationUnit: 'day',
+          unitPrice: product.pricePerDay,
+          lineTotal,
+        }],
         customerId: customer._id,
         endUserId: endUser._id,
         customerName: customer.name,
         customerEmail: customer.email,
         startDate,
         endDate,
-        duration: (i % 5) + 1,
-        durationUnit: 'day',
-        totalPrice: product.pricePerDay * ((i % 5) + 1),
+        subtotal: lineTotal,
+        totalPrice: lineTotal,
         status: i % 4 === 0 ? 'returned' : 'confirmed',
         paymentStatus: 'paid',
       });
     }
     if (ordersToCreate.length) {
       await RentalOrder.insertMany(ordersToCreate);
+      // Continue order numbering after the seeded orders
+      await mongoose.connection.collection('counters').updateOne(
+        { key: 'rentalOrder' },
+        { $set: { seq: ordersToCreate.length } },
+        { upsert: true }
+      );
       console.log(`   ✅ Created ${ordersToCreate.length} rental orders`);
     }
 
@@ -36,10 +36,85 @@ export interface IProduct extends Document {
   endUserId: Types.ObjectId; // Owner of the product
   units: 'hour' | 'day' | 'week' | 'month' | 'year';
   quantityAvailable: number;
+  replacementValue?: number;
+  lateFeePolicy?: LateFeePolicy; // Overrides the business policy when set
+  depositRule?: DepositRule;
+  hsnSacCode?: string; // Defaults to SAC 9973, rental of goods
+  gstRate?: number; // GST percent; defaults to 18
+  turnaroundBuffer?: TurnaroundBuffer; // Overrides the business's category buffer when set
+  rentalConstraints?: RentalConstraints; // Limits on rental length and when rentals may be booked
+  stockLevels?: StockLevels; // Thresholds the stock page warns at
+  maintenancePlans?: MaintenancePlan[]; // Recurring maintenance after rentals or hours rented
+  priceList?: AppliedPriceList; // Set when the signed-in customer's price list gave the rates
+  listRates?: PriceListRates; // Public rates, when a price list replaced them
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Owned-unit thresholds for a product; blank levels are not checked
+export interface StockLevels {
+  minimum?: number; // Low stock once free units fall to this
+  maximum?: number; // High stock once owned units reach this
+}
+
+// Preparation time a unit is blocked for around each rental (cleaning, inspection,
+// charging); never charged to the customer
+export interface TurnaroundBuffer {
+  beforeHours: number;
+  afterHours: number;
+}
+
+// A business's default turnaround buffer for one product category
+export interface CategoryTurnaroundBuffer extends TurnaroundBuffer {
+  category: string;
+}
+
+// Hours a business hands rentals over on one day of the week, "HH:mm" IST
+export interface OpeningHours {
+  dayOfWeek: number; // 0 = Sunday
+  open: string;
+  close: string;
+}
+
+// Days a business is closed, IST calendar dates "YYYY-MM-DD", both included
+export interface HolidayClosure {
+  startDate: string;
+  endDate: string;
+  name?: string;
+}
+
+// When customers may pick up and return rentals; pickups and returns are only
+// limited once the schedule is enabled
+export interface HandoverSchedule {
+  enabled: boolean;
+  openingHours: OpeningHours[]; // Days without hours are closed
+  holidays: HolidayClosure[];
+  slotMinutes: number;
+  slotCapacity: number; // Pickups and returns per slot; 0 allows any number
+}
+
+export type HandoverKind = 'pickup' | 'return';
+
+// One bookable handover slot of a day
+export interface HandoverSlot {
+  start: string;
+  end: string;
+  booked: number;
+  free: number | null; // null when slots are not limited
+}
+
+// Limits on how long a product is rented for and how far ahead it is booked; a
+// blank limit does not apply. Durations are per unit, days of the week are IST.
+export interface RentalConstraints {
+  minDurationHours?: number;
+  maxDurationHours?: number;
+  minNoticeHours?: number; // Booked at least this long before the rental starts
+  maxAdvanceDays?: number; // Starts at most this many days after booking
+  startDaysOfWeek?: number[]; // 0 = Sunday; empty allows every day
+}
+
+export type RentalConstraintRule = 'min_duration' | 'max_duration' | 'min_notice' | 'max_advance' | 'start_day';
+
 // Booking Types
 export interface IBooking extends Document {
   _id: Types.ObjectId;
@@ -50,12 +125,196 @@ export interface IBooking extends Document {
   startDate: Date;
   endDate: Date;
   durationDays: number;
+  quantity: number;
   totalPrice: number;
+  priceListId?: Types.ObjectId; // Customer price list the booking was priced from
+  lateFeeTerms?: LateFeeTerms;
   status: 'pending' | 'confirmed' | 'returned' | 'late' | 'cancelled';
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Rental Order Types
+export type RentalOrderStatus = 'quotation' | 'confirmed' | 'reserved' | 'delivered' | 'returned' | 'late' | 'cancelled';
+
+export interface IStatusHistoryEntry {
+  from?: RentalOrderStatus;
+  to: RentalOrderStatus;
+  changedBy?: Types.ObjectId;
+  changedByName?: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+export type RentalDurationUnit = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+// Late Fee Types
+export type LateFeePolicyType = 'flat_per_day' | 'percent_of_daily_rate' | 'hourly';
+
+export interface LateFeePolicy {
+  type: LateFeePolicyType;
+  amount: number; // ₹ per day, % of the daily rate per day, or ₹ per hour (0 = product hourly rate)
+  gracePeriodHours: number;
+  capAtReplacementValue: boolean;
+}
+
+// Policy and product rates captured on an order line when it is created
+export interface LateFeeTerms extends LateFeePolicy {
+  dailyRate: number;
+  hourlyRate: number;
+  replacementValue?: number;
+}
+
+export interface LateFeeBreakdown {
+  itemId?: string;
+  productName?: string;
+  policyType: LateFeePolicyType;
+  hoursLate: number;
+  gracePeriodHours: number;
+  chargeableUnits: number; // Days, or hours for the hourly policy
+  ratePerUnit: number;
+  quantity: number;
+  uncappedAmount: number;
+  cap?: number;
+  amount: number;
+}
+
+// Cancellation Types
+export interface CancellationTier {
+  hoursBeforeStart: number; // Applies when cancelled at least this many hours before the rental starts
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  tiers: CancellationTier[]; // Cancellations closer to the start than every tier get no refund
+}
+
+export type CancellationInitiator = 'customer' | 'enduser';
+
+// Refund owed for cancelling an order at a given moment
+export interface CancellationQuote {
+  initiatedBy: CancellationInitiator;
+  hoursBeforeStart: number;
+  refundPercent: number;
+  paidAmount: number; // Rental amount paid and not yet refunded, excluding the deposit
+  refundAmount: number;
+  depositRefund?: number; // Deposit held, always returned in full on cancellation
+}
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+// Refund issued against a rental order
+export interface IRefund {
+  _id?: Types.ObjectId;
+  amount: number;
+  kind: 'cancellation' | 'deposit';
+  method: 'razorpay' | 'manual'; // Manual for orders not paid through Razorpay
+  status: RefundStatus;
+  razorpayRefundId?: string;
+  razorpayPaymentId?: string;
+  reason?: string;
+  createdBy?: Types.ObjectId;
+  createdByName?: string;
+  createdAt: Date;
+}
+
+// Security Deposit Types
+export type DepositRuleType = 'none' | 'fixed_per_unit' | 'percent_of_rental' | 'percent_of_replacement';
+
+export interface DepositRule {
+  type: DepositRuleType;
+  amount: number; // ₹ per unit, or % of the line's rental price or of the replacement value per unit
+}
+
+export type DepositEntryType = 'collected' | 'deducted' | 'refunded';
+
+export type DepositDeductionCategory = 'damage' | 'late_fee' | 'other';
+
+// One movement of a rental order's security deposit
+export interface IDepositEntry {
+  _id?: Types.ObjectId;
+  type: DepositEntryType;
+  amount: number;
+  category?: DepositDeductionCategory; // Deductions only
+  reason?: string;
+  razorpayRefundId?: string; // Refunds only
+  createdBy?: Types.ObjectId;
+  createdByName?: string;
+  createdAt: Date;
+}
+
+export interface DepositSummary {
+  required: number;
+  collected: number;
+  deducted: number;
+  refunded: number;
+  held: number; // Collected and not yet deducted or refunded
+}
+
+// Deposit statement shown to the customer and enduser
+export interface DepositStatement {
+  orderNumber: string;
+  customerName: string;
+  customerEmail: string;
+  status: RentalOrderStatus;
+  lines: Array<{ productName: string; quantity: number; deposit: number }>;
+  entries: Array<{
+    type: DepositEntryType;
+    amount: number;
+    category?: DepositDeductionCategory;
+    reason?: string;
+    razorpayRefundId?: string;
+    createdAt: string;
+  }>;
+  summary: DepositSummary;
+  settledAt?: string;
+}
+
+// GST Types
+// Tax on one HSN/SAC code and rate within an order
+export interface GstLine {
+  hsnSacCode: string;
+  rate: number; // Total GST percent; CGST and SGST take half each
+  taxableAmount: number; // After the discount, including the delivery charge
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// GST one business charges on one order
+export interface GstBreakdown {
+  supplierGstin?: string; // Businesses without a GSTIN charge no GST
+  supplierStateCode?: string;
+  placeOfSupply?: string; // State code of the delivery address
+  interState: boolean; // IGST instead of CGST and SGST
+  lines: GstLine[];
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+// One product line on a rental order
+export interface IRentalOrderItem {
+  _id?: Types.ObjectId;
+  productId: Types.ObjectId;
+  productName: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  duration: number;
+  durationUnit: RentalDurationUnit;
+  unitPrice: number; // One unit for the whole period
+  lineTotal: number;
+  priceBreakdown: PriceBreakdownLine[];
+  priceAdjustments?: PriceAdjustment[]; // Pricing rules applied at checkout
+  lateFeeTerms?: LateFeeTerms;
+  depositAmount?: number; // Security deposit for the whole line
+  hsnSacCode?: string;
+  gstRate?: number;
+  assetIds?: Types.ObjectId[]; // Serialized units handed over for the line at pickup
+}
+
 // Frontend-safe versions (without mongoose-specific fields)
 export interface Product {
   _id: string;
@@ -80,6 +339,7 @@ export interface Booking {
   startDate: string;
   endDate: string;
   durationDays: number;
+  quantity: number;
   totalPrice: number;
   status: 'pending' | 'confirmed' | 'returned' | 'late' | 'cancelled';
   createdAt: string;
@@ -99,6 +359,32 @@ export interface User {
   updatedAt: string;
 }
 
+export interface StatusHistoryEntry {
+  from?: RentalOrderStatus;
+  to: RentalOrderStatus;
+  changedBy?: string;
+  changedByName?: string;
+  reason?: string;
+  changedAt: string;
+}
+
+export interface RentalOrderItem {
+  _id?: string;
+  productId: string | Product;
+  productName: string;
+  quantity: number;
+  startDate: string;
+  endDate: string;
+  duration: number;
+  durationUnit: RentalDurationUnit;
+  unitPrice: number;
+  lineTotal: number;
+  priceBreakdown: PriceBreakdownLine[];
+  priceAdjustments?: PriceAdjustment[];
+  lateFeeTerms?: LateFeeTerms;
+  depositAmount?: number; // Security deposit for the whole line
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -147,16 +433,81 @@ export interface DashboardStats {
 }
 
 // Price Calculation Types
+export interface PriceBreakdownLine {
+  unit: RentalDurationUnit;
+  count: number;
+  rate: number;
+  amount: number;
+}
+
 export interface PriceCalculation {
-  days: number;
-  weeks: number;
   hours: number;
+  quantity: number;
+  baseUnitTotal: number; // One unit from the rate tiers alone, before pricing rules
+  unitTotal: number; // Price of one unit for the whole period
   totalPrice: number;
-  breakdown: {
-    weekPrice: number;
-    dayPrice: number;
-    hourPrice: number;
-  };
+  breakdown: PriceBreakdownLine[];
+  adjustments: PriceAdjustment[];
+}
+
+// Pricing rules raise or lower the tier price of a business's products
+export type PricingRuleType = 'weekend' | 'date_range' | 'long_duration' | 'lead_time';
+
+// Pricing rule as stored for a business and applied by the pricing engine
+export interface PricingRule {
+  _id?: string;
+  name: string;
+  type: PricingRuleType;
+  percent: number; // Added to the tier price; negative for discounts
+  productIds: string[]; // Empty covers every product
+  categories: string[]; // Empty covers every category
+  daysOfWeek?: number[]; // weekend: 0 = Sunday … 6 = Saturday
+  startDate?: string | Date; // date_range: first day
+  endDate?: string | Date; // date_range: last day, inclusive
+  minHours?: number; // long_duration: rentals at least this long
+  withinHours?: number; // lead_time: rentals starting within this many hours of booking
+  active: boolean;
+}
+
+// What one pricing rule did to the price of one unit
+export interface PriceAdjustment {
+  ruleId?: string;
+  name: string;
+  type: PricingRuleType;
+  percent: number;
+  hours: number; // Rental hours the rule covered
+  amount: number; // Per unit; negative for discounts
+}
+
+// Price lists give negotiated rates to a business's assigned customers
+export type PriceListEntryType = 'fixed' | 'percent';
+
+export type PriceListRates = Partial<Record<'pricePerHour' | 'pricePerDay' | 'pricePerWeek' | 'pricePerMonth' | 'pricePerYear', number>>;
+
+// One price on a list: fixed rates for a product, or a percentage off a product,
+// a category or, with neither set, the whole catalog
+export interface PriceListEntry extends PriceListRates {
+  productId?: string;
+  category?: string;
+  type: PriceListEntryType;
+  percentOff?: number;
+}
+
+// Price list as stored for a business and applied by the pricing engine
+export interface PriceList {
+  _id?: string;
+  name: string;
+  description?: string;
+  customerEmails: string[]; // Customer accounts on the list
+  emailDomains: string[]; // Customer groups: every account at these domains, e.g. acme.com
+  entries: PriceListEntry[];
+  active: boolean;
+}
+
+// The price list a customer's price came from
+export interface AppliedPriceList {
+  _id?: string;
+  name: string;
 }
 
 // Filter and Pagination Types
@@ -200,6 +551,338 @@ export interface PaymentResult {
   error?: string;
 }
 
+// One Razorpay webhook event from the payment ledger
+export interface PaymentEvent {
+  _id: string;
+  eventId: string;
+  event: string;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpayRefundId?: string;
+  amount: number;
+  currency: string;
+  status?: string;
+  method?: string;
+  errorDescription?: string;
+  receivedAt: string;
+}
+
+// Invoice Types
+export type InvoicePaymentStatus = 'pending' | 'partial' | 'paid' | 'refunded';
+
+// One billed product line, copied from the rental order when the invoice is issued
+export interface IInvoiceLine {
+  productId: Types.ObjectId;
+  productName: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  duration: number;
+  durationUnit: RentalDurationUnit;
+  unitPrice: number;
+  amount: number;
+  hsnSacCode?: string;
+}
+
+// One tax charged on an invoice
+export interface IInvoiceTax {
+  name: string;
+  rate?: number; // Percent, when the whole amount was taxed at one rate
+  amount: number;
+}
+
+// Invoice as listed to the customer and the business
+export interface InvoiceSummary {
+  _id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  rentalOrderId: string;
+  orderNumber: string;
+  businessName?: string;
+  customerName: string;
+  total: number;
+  paymentStatus: InvoicePaymentStatus;
+  issuedAt: string;
+}
+
+// Credit and debit notes adjust an issued invoice
+export type InvoiceNoteType = 'credit' | 'debit';
+export type InvoiceNoteReason = 'cancellation' | 'early_return' | 'late_fee' | 'damage' | 'other';
+export type InvoiceNoteStatus = 'draft' | 'issued' | 'cancelled';
+
+// Credit or debit note as listed to the customer and the business
+export interface InvoiceNoteSummary {
+  _id: string;
+  noteNumber?: string; // Assigned when the note is issued
+  type: InvoiceNoteType;
+  reason: InvoiceNoteReason;
+  status: InvoiceNoteStatus;
+  invoiceId: string;
+  invoiceNumber: string;
+  rentalOrderId: string;
+  orderNumber: string;
+  customerName: string;
+  description?: string;
+  taxableAmount: number;
+  taxes: Array<{ name: string; rate?: number; amount: number }>;
+  taxAmount: number;
+  total: number;
+  createdAt: string;
+  issuedAt?: string;
+}
+
+// Transfer Types
+// Pickup transfers send an order's units out to the customer; return transfers bring them back
+export type TransferType = HandoverKind;
+export type TransferStatus = 'draft' | 'waiting' | 'ready' | 'done' | 'cancelled';
+
+// One product line moved by a transfer, copied from the rental order
+export interface ITransferLine {
+  productId: Types.ObjectId;
+  productName: string;
+  quantity: number;
+}
+
+// Transfer as listed to the business
+export interface TransferSummary {
+  _id: string;
+  transferNumber: string;
+  type: TransferType;
+  status: TransferStatus;
+  rentalOrderId: string;
+  orderNumber: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  lines: Array<{ productId: string; productName: string; quantity: number }>;
+  scheduledAt: string;
+  assignedTo?: string;
+  notes?: string;
+  validatedAt?: string;
+  validatedByName?: string;
+  createdAt: string;
+}
+
+// Stock Types
+// Increases, decreases and write-offs change the units a business owns; reservations
+// and returns record units committed to rental orders and coming back from them
+export type StockMovementType = 'increase' | 'decrease' | 'reservation' | 'return' | 'write_off';
+
+export type StockStatus = 'out_of_stock' | 'low' | 'normal' | 'high';
+
+// One entry of a product's stock ledger
+export interface StockMovementSummary {
+  _id: string;
+  type: StockMovementType;
+  quantity: number;
+  change: number; // Effect on owned units: positive, negative or none
+  balance: number; // Owned units after the movement
+  reason: string;
+  rentalOrderId?: string;
+  orderNumber?: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// A product's stock as shown on its stock page
+export interface StockOverview {
+  productId: string;
+  productName: string;
+  owned: number;
+  reserved: number; // Units held by rentals, bookings and carts right now
+  available: number;
+  stockLevels: StockLevels;
+  status: StockStatus;
+  lastUpdated?: string;
+  movements: StockMovementSummary[];
+}
+
+// Asset Types
+// Serialized units of a product, each with its own identity and rental history
+export type AssetStatus = 'available' | 'rented' | 'maintenance' | 'retired';
+export type AssetCondition = 'new' | 'good' | 'fair' | 'damaged';
+
+// One rental a unit was part of
+export interface AssetRental {
+  rentalOrderId: string;
+  orderNumber: string;
+  itemId: string;
+  customerName: string;
+  assignedAt: string;
+  returnedAt?: string;
+  conditionOut: AssetCondition;
+  conditionIn?: AssetCondition;
+  cancelled?: boolean; // The order was cancelled before the unit came back
+}
+
+// Unit as listed to the business
+export interface AssetSummary {
+  _id: string;
+  productId: string;
+  productName?: string;
+  serialNumber: string;
+  purchaseDate?: string;
+  purchaseCost?: number;
+  condition: AssetCondition;
+  status: AssetStatus;
+  notes?: string;
+  currentOrderId?: string;
+  currentOrderNumber?: string;
+  rentalCount: number;
+  createdAt: string;
+}
+
+// Unit with every rental it was part of, newest first
+export interface AssetDetail extends AssetSummary {
+  rentals: AssetRental[];
+}
+
+// Order line with the units assigned to it and the units free to assign
+export interface OrderAssetLine {
+  itemId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  assigned: AssetSummary[];
+  candidates: AssetSummary[];
+}
+
+// Maintenance Types
+// Time a product or unit is out of service, which availability treats as booked
+export type MaintenanceType = 'service' | 'repair' | 'inspection';
+export type MaintenanceStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+// Recurring maintenance, due after a number of rentals or hours rented since the last one
+export interface MaintenancePlan {
+  _id?: string;
+  title: string;
+  type: MaintenanceType;
+  everyRentals?: number;
+  everyHours?: number;
+  durationHours: number; // How long each maintenance takes the unit out of service
+  active: boolean;
+}
+
+// Maintenance as listed to the business
+export interface MaintenanceSummary {
+  _id: string;
+  productId: string;
+  productName?: string;
+  assetId?: string;
+  serialNumber?: string;
+  type: MaintenanceType;
+  status: MaintenanceStatus;
+  title: string;
+  notes?: string;
+  startDate: string;
+  endDate: string;
+  quantity: number; // Units out of service
+  cost: number;
+  planId?: string; // Set when a maintenance plan scheduled it
+  completedAt?: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// Completed maintenance and its cost over a reporting period
+export interface MaintenanceCostReport {
+  count: number;
+  cost: number;
+  byType: Record<MaintenanceType, { count: number; cost: number }>;
+  products: Array<{ productId: string; productName: string; count: number; cost: number }>;
+}
+
+// Label & Scan Types
+// What a code on a product or unit label refers to
+export interface LabelCode {
+  kind: 'product' | 'unit';
+  value: string; // Product id or unit serial number
+}
+
+// Active rental of a scanned item, due for pickup or out with the customer
+export interface ScanRental {
+  rentalOrderId: string;
+  orderNumber: string;
+  status: RentalOrderStatus;
+  customerName: string;
+  startDate: string;
+  endDate: string;
+  quantity: number;
+  unitsAssigned: number;
+  action: HandoverKind; // Pickup for orders still to go out, return for orders out
+}
+
+// A scanned product or unit with its active rentals, soonest first
+export interface ScanResult {
+  code: string;
+  kind: 'product' | 'unit';
+  productId: string;
+  productName: string;
+  asset?: AssetSummary;
+  rentals: ScanRental[];
+}
+
+// Coupon Types
+export type CouponDiscountType = 'percent' | 'flat';
+
+// Why a coupon code was turned down at checkout
+export type CouponRejectionReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit'
+  | 'customer_limit'
+  | 'first_order'
+  | 'min_duration'
+  | 'not_applicable'
+  | 'sign_in';
+
+// Coupon as listed to the business that runs it
+export interface CouponSummary {
+  _id: string;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  value: number; // Percent off, or rupees off for flat coupons
+  maxDiscount?: number; // Cap on a percent discount
+  minRentalHours: number;
+  productIds: string[];
+  categories: string[];
+  firstOrderOnly: boolean;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+  active: boolean;
+  redemptionCount: number;
+  createdAt: string;
+}
+
+// Cart Types
+// One line of the signed-in customer's server cart
+export interface CartLine {
+  _id: string;
+  productId: string;
+  productName: string;
+  image?: string;
+  endUserId?: string;
+  quantity: number;
+  startDate: string;
+  endDate: string;
+  holdExpiresAt?: string;
+  held: boolean; // Units are reserved for this line until holdExpiresAt
+}
+
+// A line kept in localStorage before the customer signs in
+export interface GuestCartItem {
+  productId: string;
+  quantity?: number;
+  fromDate?: string;
+  toDate?: string;
+}
+
 // Chart Data Types
 export interface ChartDataPoint {
   label: string;
@@ -218,6 +901,38 @@ export interface RevenueChartData {
   }>;
 }
 
+// Background Job Types
+export type JobName =
+  | 'mark-late-rentals'
+  | 'accrue-late-fees'
+  | 'expire-quotations'
+  | 'release-held-stock'
+  | 'expire-cart-holds';
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobResult {
+  processed: number;
+  details: string[];
+}
+
+export interface JobRun {
+  _id: string;
+  name: JobName;
+  trigger: JobTrigger;
+  endUserId?: string;
+  triggeredByName?: string;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  processed: number;
+  details: string[];
+  error?: string;
+}
+
 // NextAuth Types Extension
 declare module 'next-auth' {
   interface Session {